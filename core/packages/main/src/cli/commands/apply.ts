@@ -0,0 +1,147 @@
+/**
+ * Apply command for mks-bot-father CLI.
+ *
+ * @module
+ */
+
+import chalk from 'chalk'
+import { isErr } from '@mks2508/no-throw'
+import { getManifestApplier, describeChange } from '../../pipeline/index.js'
+import { getManifestService, MANIFEST_FILES } from '../../services/manifest.service.js'
+import { AppErrorCode, type IManifestChange, type IManifestDiff } from '../../types/index.js'
+import { exitWithError, isQuietOutput, print, printJson, startSpinner } from '../output.js'
+
+interface IApplyOptions {
+  dryRun?: boolean
+}
+
+export async function handleApply(
+  file: string | undefined,
+  options: IApplyOptions
+): Promise<void> {
+  const manifestService = getManifestService()
+  const manifestPath = file ?? manifestService.find()
+
+  if (!manifestPath) {
+    exitWithError({
+      code: AppErrorCode.VALIDATION_ERROR,
+      message: `No manifest found (looked for ${MANIFEST_FILES.join(', ')})`,
+    })
+  }
+
+  const manifestResult = manifestService.load(manifestPath)
+  if (isErr(manifestResult)) {
+    exitWithError(manifestResult.error)
+  }
+
+  const applier = getManifestApplier()
+  const spinner = startSpinner('Reading current state...')
+
+  const diffResult = await applier.diff(manifestResult.value)
+  if (isErr(diffResult)) {
+    spinner.fail(chalk.red('Failed to read current state'))
+    exitWithError(diffResult.error)
+  }
+
+  const diff = diffResult.value
+
+  if (options.dryRun || !diff.hasChanges) {
+    spinner.succeed(
+      diff.hasChanges
+        ? chalk.green(`${diff.changes.length} change(s) to apply`)
+        : chalk.green('Up to date, nothing to apply')
+    )
+    printDiff(diff)
+    printJson(toJsonDiff(diff))
+    return
+  }
+
+  spinner.succeed(chalk.green(`${diff.changes.length} change(s) to apply`))
+  printDiff(diff)
+  spinner.start('Applying...')
+
+  const result = await applier.applyDiff(diff, {
+    onProgress: (pct, msg) => {
+      spinner.text = `[${pct}%] ${msg}`
+    },
+  })
+
+  if (result.success) {
+    spinner.succeed(chalk.green(`Applied ${result.applied.length} change(s)`))
+  } else {
+    spinner.fail(
+      chalk.red(`Applied ${result.applied.length} of ${diff.changes.length} change(s)`)
+    )
+    print()
+    for (const error of result.errors) {
+      print(`  ${chalk.red('•')} ${error}`)
+    }
+    print()
+    print(chalk.gray('  Fix the error and run apply again to continue'))
+  }
+  print()
+  printJson(result, result.success)
+
+  if (!result.success) {
+    process.exit(1)
+  }
+}
+
+/**
+ * Strips discovered secrets from a diff for JSON output.
+ *
+ * @param diff - Manifest diff
+ * @returns Serializable diff without the bot token
+ */
+function toJsonDiff(diff: IManifestDiff): Record<string, unknown> {
+  return {
+    name: diff.manifest.name,
+    botUsername: diff.state.botUsername,
+    hasChanges: diff.hasChanges,
+    changes: diff.changes,
+  }
+}
+
+/**
+ * Prints a manifest diff as text.
+ *
+ * @param diff - Manifest diff
+ */
+function printDiff(diff: IManifestDiff): void {
+  if (isQuietOutput()) {
+    return
+  }
+
+  console.log()
+  console.log(chalk.cyan.bold(`📋 ${diff.manifest.name}`) + chalk.gray(` (@${diff.state.botUsername})`))
+  console.log()
+
+  if (!diff.hasChanges) {
+    return
+  }
+
+  for (const change of diff.changes) {
+    const icon = change.action === 'create' ? chalk.green('+') : chalk.yellow('~')
+    console.log(`  ${icon} ${describeChange(change)}${formatValues(change)}`)
+  }
+  console.log()
+}
+
+/**
+ * Formats the from/to values of a change.
+ *
+ * @param change - Manifest change
+ * @returns Formatted values, or an empty string
+ */
+function formatValues(change: IManifestChange): string {
+  const format = (value: unknown) =>
+    typeof value === 'string' ? value : JSON.stringify(value)
+
+  if (change.from !== undefined && change.to !== undefined) {
+    return chalk.gray(`: ${format(change.from)} → ${format(change.to)}`)
+  }
+  if (change.to !== undefined) {
+    return chalk.gray(`: ${format(change.to)}`)
+  }
+  return ''
+}
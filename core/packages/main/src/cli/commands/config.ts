@@ -4,23 +4,64 @@
  * @module
  */
 
+import { existsSync, writeFileSync } from 'node:fs'
 import chalk from 'chalk'
-import { isOk } from '@mks2508/no-throw'
-import { getConfigService, CONFIG_FILE } from '../../services/config.service.js'
+import { isErr } from '@mks2508/no-throw'
+import {
+  getConfigService,
+  CONFIG_FILE,
+  SECRET_CONFIG_KEYS,
+} from '../../services/config.service.js'
+import { getBotFatherService } from '../../services/botfather.service.js'
+import { getCheckpointService } from '../../services/checkpoint.service.js'
+import { generateKeyFileContents } from '../../utils/index.js'
+import { AppErrorCode, ConfigLayer, type ISecretKeySource } from '../../types/index.js'
+import { exitWithError, isJsonOutput, print, printJson } from '../output.js'
+
+interface IConfigOptions {
+  keyFile?: string
+  showOrigin?: boolean
+}
+
+const CONFIG_HELP = [
+  'Available actions:',
+  '  get <key>         Get a configuration value',
+  '  set <key> <value> Set a configuration value',
+  '  list              List all configuration',
+  '  path              Show config file path',
+  '  profile <action>  Manage profiles: create, use, list, delete',
+  '  lock              Encrypt secrets (passphrase or --key-file)',
+  '  unlock            Decrypt secrets and store them in plain text',
+  '  rekey             Re-encrypt secrets with a new passphrase or --key-file',
+  '',
+  'Example keys:',
+  '  github.token        GitHub personal access token',
+  '  github.defaultOrg   Default GitHub organization',
+  '  coolify.url         Coolify instance URL',
+  '  coolify.token       Coolify API token',
+  '  telegram.apiId      Telegram API ID',
+  '  telegram.apiHash    Telegram API Hash',
+].join('\n')
 
 export async function handleConfig(
   action: string,
   key?: string,
-  value?: string
+  value?: string,
+  options: IConfigOptions = {}
 ): Promise<void> {
   const config = getConfigService()
 
   switch (action) {
     case 'get': {
       if (!key) {
-        console.log(chalk.red('Key required for get action'))
-        console.log(chalk.gray('Usage: mbf config get <key>'))
-        process.exit(1)
+        exitWithError(
+          { code: AppErrorCode.VALIDATION_ERROR, message: 'Key required for get action' },
+          'Usage: mbf config get <key>'
+        )
+      }
+
+      if (SECRET_CONFIG_KEYS.includes(key)) {
+        await ensureUnlocked()
       }
 
       const data = config.get()
@@ -36,96 +77,420 @@ export async function handleConfig(
         }
       }
 
-      if (current !== undefined) {
+      if (isJsonOutput()) {
+        printJson({ key, value: current ?? null })
+      } else if (current !== undefined) {
+        // The requested value is printed even with --quiet
         if (typeof current === 'object') {
           console.log(JSON.stringify(current, null, 2))
         } else {
           console.log(current)
         }
       } else {
-        console.log(chalk.gray('(not set)'))
+        print(chalk.gray('(not set)'))
       }
       break
     }
 
     case 'set': {
       if (!key || value === undefined) {
-        console.log(chalk.red('Key and value required for set action'))
-        console.log(chalk.gray('Usage: mbf config set <key> <value>'))
-        process.exit(1)
+        exitWithError(
+          { code: AppErrorCode.VALIDATION_ERROR, message: 'Key and value required for set action' },
+          'Usage: mbf config set <key> <value>'
+        )
       }
 
-      let parsedValue: unknown = value
+      if (SECRET_CONFIG_KEYS.includes(key)) {
+        await ensureUnlocked()
+      }
 
-      if (value === 'true') parsedValue = true
-      else if (value === 'false') parsedValue = false
-      else if (/^\d+$/.test(value)) parsedValue = parseInt(value, 10)
+      const result = config.set(key, value)
+      if (isErr(result)) {
+        exitWithError({ code: result.error.code, message: `Failed to set ${key}: ${result.error.message}` })
+      }
 
-      const result = config.set(key, parsedValue)
-      if (isOk(result)) {
-        console.log(chalk.green(`✓ Set ${key}`))
-      } else {
-        console.log(chalk.red(`Failed to set ${key}: ${result.error.message}`))
-        process.exit(1)
+      const origin = config.getOrigin(key)
+      const overridden = origin && origin.layer !== ConfigLayer.File ? origin : undefined
+      printJson({
+        key,
+        overriddenBy: overridden && { layer: overridden.layer, source: overridden.source },
+      })
+      print(chalk.green(`✓ Set ${key}`))
+      if (overridden) {
+        print(chalk.yellow(`  Overridden by ${overridden.source} (${overridden.layer})`))
       }
       break
     }
 
     case 'list': {
       const data = config.get()
-      console.log()
-      console.log(chalk.cyan.bold('Configuration'))
-      console.log()
 
-      if (Object.keys(data).length === 0) {
-        console.log(chalk.gray('  (empty)'))
+      if (isJsonOutput()) {
+        printJson({
+          profile: config.getActiveProfile(),
+          encrypted: config.isEncrypted(),
+          locked: !config.isUnlocked(),
+          // Secrets are never printed, not even in part
+          values: config.getOrigins().map((origin) =>
+            SECRET_CONFIG_KEYS.includes(origin.key)
+              ? { key: origin.key, secret: true, layer: origin.layer, source: origin.source }
+              : origin
+          ),
+        })
+        break
+      }
+
+      print()
+      print(chalk.cyan.bold(`Configuration (profile: ${config.getActiveProfile()})`))
+      if (config.isEncrypted()) {
+        print(chalk.gray(`🔒 Secrets encrypted (${config.getEncryptionSource()})`))
+      }
+      print()
+
+      if (options.showOrigin) {
+        const origins = config.getOrigins()
+        const width = Math.max(...origins.map((origin) => origin.key.length))
+        for (const origin of origins) {
+          const displayValue = SECRET_CONFIG_KEYS.includes(origin.key)
+            ? chalk.gray('(set)')
+            : chalk.cyan(String(origin.value))
+          print(
+            `  ${chalk.white(origin.key.padEnd(width))}  ${displayValue}  ${chalk.gray(`${origin.layer}: ${origin.source}`)}`
+          )
+        }
+      } else if (Object.keys(data).length === 0) {
+        print(chalk.gray('  (empty)'))
       } else {
-        const printObj = (obj: unknown, prefix = ''): void => {
+        const printObj = (obj: unknown, prefix = '', path = ''): void => {
           if (obj && typeof obj === 'object') {
             for (const [k, v] of Object.entries(obj)) {
+              const keyPath = path ? `${path}.${k}` : k
               if (v && typeof v === 'object' && !Array.isArray(v)) {
-                console.log(`${prefix}${chalk.white(k)}:`)
-                printObj(v, prefix + '  ')
+                print(`${prefix}${chalk.white(k)}:`)
+                printObj(v, prefix + '  ', keyPath)
               } else {
-                let displayValue: string
-                if (typeof v === 'string' && (k === 'token' || k === 'apiHash')) {
-                  displayValue = chalk.gray(v.slice(0, 8) + '...')
-                } else {
-                  displayValue = chalk.cyan(String(v))
-                }
-                console.log(`${prefix}${chalk.white(k)}: ${displayValue}`)
+                // Secrets are never printed, not even in part
+                const displayValue = SECRET_CONFIG_KEYS.includes(keyPath)
+                  ? chalk.gray('(set)')
+                  : chalk.cyan(String(v))
+                print(`${prefix}${chalk.white(k)}: ${displayValue}`)
               }
             }
           }
         }
         printObj(data, '  ')
       }
-      console.log()
+
+      if (!config.isUnlocked()) {
+        print()
+        print(chalk.yellow('  Secrets are hidden while the config is locked'))
+      }
+      print()
+      break
+    }
+
+    case 'lock': {
+      if (config.isEncrypted()) {
+        exitWithError(
+          { code: AppErrorCode.CONFIG_ERROR, message: 'Config is already locked' },
+          'Change the key with: mbf config rekey'
+        )
+      }
+
+      const source = await newKeySource(options.keyFile)
+      const result = await getBotFatherService().resealBotEnvs(() =>
+        getCheckpointService().reseal(() => config.lock(source))
+      )
+      if (isErr(result)) {
+        exitWithError({ code: result.error.code, message: `Failed to lock config: ${result.error.message}` })
+      }
+
+      printJson({ encrypted: true })
+      print(chalk.green('✓ Config secrets encrypted'))
+      if ('passphrase' in source) {
+        print(chalk.gray('  Set MBF_PASSPHRASE to run non-interactively'))
+      }
+      break
+    }
+
+    case 'unlock': {
+      await ensureUnlocked()
+      const result = await getBotFatherService().resealBotEnvs(() =>
+        getCheckpointService().reseal(() => config.unlock())
+      )
+      if (isErr(result)) {
+        exitWithError({ code: result.error.code, message: `Failed to unlock config: ${result.error.message}` })
+      }
+
+      printJson({ encrypted: false })
+      print(chalk.green('✓ Config secrets decrypted and stored in plain text'))
+      break
+    }
+
+    case 'rekey': {
+      await ensureUnlocked()
+      const source = await newKeySource(options.keyFile)
+      const result = await getBotFatherService().resealBotEnvs(() =>
+        getCheckpointService().reseal(() => config.rekey(source))
+      )
+      if (isErr(result)) {
+        exitWithError({ code: result.error.code, message: `Failed to rekey config: ${result.error.message}` })
+      }
+
+      printJson({ encrypted: true })
+      print(chalk.green('✓ Config secrets re-encrypted with the new key'))
       break
     }
 
     case 'path': {
-      console.log(CONFIG_FILE)
+      if (isJsonOutput()) {
+        printJson({ path: CONFIG_FILE })
+      } else {
+        console.log(CONFIG_FILE)
+      }
+      break
+    }
+
+    case 'profile': {
+      handleProfile(key, value)
       break
     }
 
     default: {
-      console.log(chalk.red(`Unknown action: ${action}`))
-      console.log()
-      console.log('Available actions:')
-      console.log(chalk.gray('  get <key>         Get a configuration value'))
-      console.log(chalk.gray('  set <key> <value> Set a configuration value'))
-      console.log(chalk.gray('  list              List all configuration'))
-      console.log(chalk.gray('  path              Show config file path'))
-      console.log()
-      console.log('Example keys:')
-      console.log(chalk.gray('  github.token        GitHub personal access token'))
-      console.log(chalk.gray('  github.defaultOrg   Default GitHub organization'))
-      console.log(chalk.gray('  coolify.url         Coolify instance URL'))
-      console.log(chalk.gray('  coolify.token       Coolify API token'))
-      console.log(chalk.gray('  telegram.apiId      Telegram API ID'))
-      console.log(chalk.gray('  telegram.apiHash    Telegram API Hash'))
-      process.exit(1)
+      exitWithError({ code: AppErrorCode.VALIDATION_ERROR, message: `Unknown action: ${action}` }, CONFIG_HELP)
     }
   }
 }
+
+function handleProfile(action?: string, name?: string): void {
+  const config = getConfigService()
+
+  switch (action) {
+    case 'list':
+    case undefined: {
+      const active = config.getActiveProfile()
+      printJson({ active, profiles: config.listProfiles() })
+      print()
+      print(chalk.cyan.bold('Profiles'))
+      print()
+      for (const profile of config.listProfiles()) {
+        const marker = profile === active ? chalk.green('*') : ' '
+        print(`  ${marker} ${profile === active ? chalk.green(profile) : profile}`)
+      }
+      if (process.env['MBF_PROFILE']) {
+        print()
+        print(chalk.gray(`  MBF_PROFILE=${process.env['MBF_PROFILE']} overrides the saved profile`))
+      }
+      print()
+      break
+    }
+
+    case 'create':
+    case 'use':
+    case 'delete': {
+      if (!name) {
+        exitWithError(
+          { code: AppErrorCode.VALIDATION_ERROR, message: `Profile name required for ${action}` },
+          `Usage: mbf config profile ${action} <name>`
+        )
+      }
+
+      const result =
+        action === 'create'
+          ? config.createProfile(name)
+          : action === 'use'
+            ? config.useProfile(name)
+            : config.deleteProfile(name)
+
+      if (isErr(result)) {
+        exitWithError(result.error)
+      }
+
+      printJson({ action, profile: name })
+      if (action === 'create') {
+        print(chalk.green(`✓ Created profile ${name}`))
+        print(chalk.gray(`  Configure it with: mbf --profile ${name} config set <key> <value>`))
+      } else if (action === 'use') {
+        print(chalk.green(`✓ Using profile ${name}`))
+      } else {
+        print(chalk.green(`✓ Deleted profile ${name}`))
+      }
+      break
+    }
+
+    default: {
+      exitWithError(
+        { code: AppErrorCode.VALIDATION_ERROR, message: `Unknown profile action: ${action}` },
+        'Usage: mbf config profile <create|use|list|delete> [name]'
+      )
+    }
+  }
+}
+
+/**
+ * Exits when the config file could not be loaded, instead of running with
+ * the defaults.
+ */
+export function ensureConfigLoaded(): void {
+  const error = getConfigService().getLoadError()
+  if (error) {
+    exitWithError(error, 'Fix the file, or move it away to start from the defaults')
+  }
+}
+
+/**
+ * Applies the global `--profile` flag and checks that the active profile exists.
+ *
+ * `config` commands may run with an unknown `MBF_PROFILE`, so it can be created.
+ *
+ * @param profile - Value of `--profile`
+ * @param commandName - Name of the command about to run
+ */
+export function applyProfileOption(profile: string | undefined, commandName: string): void {
+  const config = getConfigService()
+
+  if (profile) {
+    const result = config.selectProfile(profile)
+    if (isErr(result)) {
+      exitWithError(result.error)
+    }
+    return
+  }
+
+  const active = config.getActiveProfile()
+  if (commandName !== 'config' && !config.hasProfile(active)) {
+    exitWithError(
+      { code: AppErrorCode.CONFIG_ERROR, message: `Profile ${active} does not exist` },
+      'Create it with: mbf config profile create ' + active
+    )
+  }
+}
+
+/**
+ * Applies the global `-c key=value` flags as the highest-precedence layer.
+ *
+ * @param values - `key=value` pairs
+ */
+export function applyConfigOverrides(values: string[]): void {
+  const config = getConfigService()
+
+  for (const entry of values) {
+    const separator = entry.indexOf('=')
+    if (separator <= 0) {
+      exitWithError({
+        code: AppErrorCode.VALIDATION_ERROR,
+        message: `Invalid -c value "${entry}": expected key=value`,
+      })
+    }
+
+    const result = config.setOverride(entry.slice(0, separator), entry.slice(separator + 1))
+    if (isErr(result)) {
+      exitWithError(result.error)
+    }
+  }
+}
+
+/**
+ * Makes the config secrets readable, prompting for the passphrase if needed.
+ *
+ * Exits when the key cannot be obtained. With `--json` there is no prompt.
+ */
+export async function ensureUnlocked(): Promise<void> {
+  const config = getConfigService()
+  if (config.isUnlocked()) {
+    return
+  }
+
+  if (config.getEncryptionSource() === 'keyfile') {
+    exitWithError(
+      { code: AppErrorCode.CONFIG_ERROR, message: 'Config is locked and its key file was not found' },
+      'Set MBF_KEY_FILE to the key file path'
+    )
+  }
+
+  if (!process.stdin.isTTY || isJsonOutput()) {
+    exitWithError(
+      { code: AppErrorCode.CONFIG_ERROR, message: 'Config is locked' },
+      'Set MBF_PASSPHRASE to decrypt its secrets'
+    )
+  }
+
+  const passphrase = await promptSecret('Config passphrase: ')
+  const result = config.provideKey({ passphrase })
+  if (isErr(result)) {
+    exitWithError(result.error)
+  }
+}
+
+/**
+ * Gets the key source for `lock` and `rekey`: a key file (generated if
+ * missing) or a new passphrase entered twice.
+ *
+ * @param keyFile - Value of `--key-file`
+ * @returns Key source
+ */
+async function newKeySource(keyFile?: string): Promise<ISecretKeySource> {
+  if (keyFile) {
+    if (!existsSync(keyFile)) {
+      writeFileSync(keyFile, generateKeyFileContents() + '\n', { mode: 0o600 })
+      // A warning the user must see, so it goes to stderr even when quiet
+      console.error(chalk.yellow(`Generated key file ${keyFile}: back it up, the secrets cannot be recovered without it`))
+    }
+    return { keyFile }
+  }
+
+  if (!process.stdin.isTTY || isJsonOutput()) {
+    exitWithError(
+      { code: AppErrorCode.VALIDATION_ERROR, message: 'A passphrase prompt needs a terminal' },
+      'Use --key-file <path> instead'
+    )
+  }
+
+  const passphrase = await promptSecret('New passphrase: ')
+  const confirmation = await promptSecret('Repeat passphrase: ')
+  if (!passphrase || passphrase !== confirmation) {
+    exitWithError({
+      code: AppErrorCode.VALIDATION_ERROR,
+      message: passphrase ? 'Passphrases do not match' : 'Passphrase cannot be empty',
+    })
+  }
+  return { passphrase }
+}
+
+/**
+ * Reads a line from the terminal without echoing it.
+ *
+ * @param question - Prompt
+ * @returns Entered text
+ */
+function promptSecret(question: string): Promise<string> {
+  const stdin = process.stdin
+
+  return new Promise((resolve) => {
+    let value = ''
+    process.stdout.write(question)
+    stdin.setRawMode(true)
+    stdin.setEncoding('utf-8')
+    stdin.resume()
+
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === '\r' || char === '\n') {
+          stdin.off('data', onData)
+          stdin.setRawMode(false)
+          stdin.pause()
+          process.stdout.write('\n')
+          resolve(value)
+          return
+        }
+        if (char === '\u0003') {
+          process.stdout.write('\n')
+          process.exit(130)
+        }
+        value = char === '\u007f' || char === '\b' ? value.slice(0, -1) : value + char
+      }
+    }
+
+    stdin.on('data', onData)
+  })
+}
@@ -4,124 +4,547 @@
  * @module
  */
 
-import ora from 'ora'
+import type { Ora } from 'ora'
 import chalk from 'chalk'
+import { writeFileSync } from 'node:fs'
+import { resolve } from 'node:path'
 import { isErr } from '@mks2508/no-throw'
 import { getPipeline } from '../../pipeline/index.js'
-import type { IPipelineOptions } from '../../types/index.js'
+import { getBatchFileService } from '../../services/batch-file.service.js'
+import { GIT_HOST_LABELS, isGitHost } from '../../services/git-host.js'
+import { DEPLOY_TARGET_LABELS, isDeployTarget } from '../../services/deploy-target.js'
+import {
+  AppErrorCode,
+  PipelineEventType,
+  type IBatchResult,
+  type IPipelineDoneEvent,
+  type IPipelineEvent,
+  type IPipelineOptions,
+  type IPipelinePlan,
+  type IPipelineResult,
+} from '../../types/index.js'
+import { errorMessage, exitWithError, print, printJson, startSpinner } from '../output.js'
 
 interface ICreateOptions {
   description?: string
   github?: boolean
   githubOrg?: string
+  gitHost?: string
   deploy?: boolean
+  deployTarget?: string
   coolifyServer?: string
   coolifyDest?: string
   skipBotfather?: boolean
   full?: boolean
+  rollback?: boolean
+  wait?: boolean
+  skipWebhook?: boolean
+  harden?: boolean
+  skipCi?: boolean
+  dryRun?: boolean
+  batch?: string
+  concurrency?: string
+  report?: string
+  template?: string
+  var?: string[]
 }
 
 export async function handleCreate(
-  name: string,
+  name: string | undefined,
   options: ICreateOptions
 ): Promise<void> {
-  console.log()
-  console.log(chalk.cyan.bold('🤖 MKS Bot Father'))
-  console.log(chalk.gray('Complete Telegram Bot Pipeline'))
-  console.log()
+  if (options.batch) {
+    await handleBatch(options.batch, options)
+    return
+  }
+
+  if (!name) {
+    exitWithError({ code: AppErrorCode.VALIDATION_ERROR, message: 'Missing bot name (or pass --batch <file>)' })
+  }
 
   const pipeline = getPipeline()
 
   const pipelineOptions: IPipelineOptions = {
     botName: name,
+    ...toPipelineDefaults(options),
+  }
+
+  if (options.dryRun) {
+    await handleDryRun(pipelineOptions)
+    return
+  }
+
+  print()
+  print(chalk.cyan.bold('🤖 MKS Bot Father'))
+  print(chalk.gray('Complete Telegram Bot Pipeline'))
+  print()
+
+  print(chalk.white('Pipeline steps:'))
+  print(
+    `  ${pipelineOptions.skipBotFather ? chalk.gray('○') : chalk.green('●')} BotFather automation`
+  )
+  print(`  ${chalk.green('●')} Project scaffolding`)
+  print(
+    `  ${pipelineOptions.createGitHubRepo ? chalk.green('●') : chalk.gray('○')} GitHub repository`
+  )
+  print(
+    `  ${pipelineOptions.deployToCoolify ? chalk.green('●') : chalk.gray('○')} Deployment`
+  )
+  if (pipelineOptions.rollbackOnFailure) {
+    print(chalk.gray('  Rollback on failure enabled'))
+  }
+  print()
+
+  const spinner = startSpinner('Starting pipeline...')
+
+  try {
+    let done: IPipelineDoneEvent | undefined
+    let errorCode: string | undefined
+
+    for await (const event of pipeline.runStream(pipelineOptions)) {
+      if (event.type === PipelineEventType.PipelineDone) {
+        done = event
+      } else {
+        if (event.type === PipelineEventType.StepError) {
+          errorCode ??= event.code
+        }
+        renderStepEvent(spinner, event)
+      }
+    }
+
+    if (!done?.result) {
+      spinner.fail(chalk.red('Pipeline error'))
+      exitWithError({ code: errorCode, message: done?.error ?? 'Pipeline did not finish' })
+    }
+
+    reportPipelineResult(spinner, done.result, name, errorCode)
+  } catch (error) {
+    spinner.fail(chalk.red('Pipeline error'))
+    exitWithError({ code: AppErrorCode.UNKNOWN_ERROR, message: errorMessage(error) })
+  }
+}
+
+/**
+ * Shows a step event on the spinner; finished steps are kept as a line.
+ *
+ * @param spinner - Active spinner
+ * @param event - Pipeline step event
+ */
+function renderStepEvent(spinner: Ora, event: IPipelineEvent): void {
+  switch (event.type) {
+    case PipelineEventType.StepStart:
+      spinner.text = `[${event.index + 1}/${event.total}] ${event.description ?? event.step}...`
+      break
+    case PipelineEventType.StepProgress:
+      spinner.text = `[${event.overallProgress}%] ${event.message}`
+      break
+    case PipelineEventType.StepDone: {
+      const time = chalk.gray(` (${(event.durationMs / 1000).toFixed(1)}s)`)
+      if (event.status === 'completed') {
+        spinner.stopAndPersist({ symbol: chalk.green('✓'), text: event.step + time })
+      } else if (event.status === 'failed') {
+        spinner.stopAndPersist({ symbol: chalk.red('✗'), text: event.step + time })
+      } else {
+        spinner.stopAndPersist({
+          symbol: chalk.gray('○'),
+          text: chalk.gray(`${event.step} (${event.reason ?? 'skipped'})`),
+        })
+      }
+      spinner.start()
+      break
+    }
+  }
+}
+
+/**
+ * Maps the CLI flags to pipeline options shared by every bot.
+ *
+ * @param options - Create command options
+ * @returns Pipeline options without the bot name
+ */
+function toPipelineDefaults(options: ICreateOptions): Omit<IPipelineOptions, 'botName'> {
+  if (options.gitHost !== undefined && !isGitHost(options.gitHost)) {
+    exitWithError({
+      code: AppErrorCode.VALIDATION_ERROR,
+      message: `Invalid --git-host "${options.gitHost}": expected github, gitlab or gitea`,
+    })
+  }
+
+  if (options.deployTarget !== undefined && !isDeployTarget(options.deployTarget)) {
+    exitWithError({
+      code: AppErrorCode.VALIDATION_ERROR,
+      message: `Invalid --deploy-target "${options.deployTarget}": expected coolify or docker-compose`,
+    })
+  }
+
+  return {
     botDescription: options.description,
+    template: options.template,
+    templateVariables: parseTemplateVariables(options.var ?? []),
     createGitHubRepo: options.full || options.github,
     deployToCoolify: options.full || options.deploy,
+    deployTarget: options.deployTarget,
     skipBotFather: options.skipBotfather,
     githubOrg: options.githubOrg,
+    gitHost: options.gitHost,
     coolifyServer: options.coolifyServer,
     coolifyDestination: options.coolifyDest,
+    rollbackOnFailure: options.rollback,
+    waitForDeployment: options.wait,
+    skipWebhook: options.skipWebhook,
+    hardenGitHubRepo: options.harden,
+    skipCiWorkflow: options.skipCi,
+    dryRun: options.dryRun,
   }
+}
 
-  console.log(chalk.white('Pipeline steps:'))
-  console.log(
-    `  ${pipelineOptions.skipBotFather ? chalk.gray('○') : chalk.green('●')} BotFather automation`
-  )
-  console.log(`  ${chalk.green('●')} Project scaffolding`)
-  console.log(
-    `  ${pipelineOptions.createGitHubRepo ? chalk.green('●') : chalk.gray('○')} GitHub repository`
-  )
-  console.log(
-    `  ${pipelineOptions.deployToCoolify ? chalk.green('●') : chalk.gray('○')} Coolify deployment`
+/**
+ * Parses `--var key=value` flags, exiting on a malformed one.
+ *
+ * @param entries - Flag values
+ * @returns Variable values, or undefined when none were given
+ */
+function parseTemplateVariables(entries: string[]): Record<string, string> | undefined {
+  if (entries.length === 0) {
+    return undefined
+  }
+
+  const variables: Record<string, string> = {}
+  for (const entry of entries) {
+    const separator = entry.indexOf('=')
+    if (separator <= 0) {
+      exitWithError({ code: AppErrorCode.VALIDATION_ERROR, message: `Invalid --var value "${entry}": expected key=value` })
+    }
+    variables[entry.slice(0, separator)] = entry.slice(separator + 1)
+  }
+  return variables
+}
+
+/**
+ * Creates every bot listed in a batch file and prints a summary table.
+ *
+ * CLI flags apply to every bot; fields set in the file take precedence.
+ *
+ * @param file - CSV or JSON batch file
+ * @param options - Create command options
+ */
+async function handleBatch(file: string, options: ICreateOptions): Promise<void> {
+  const batchFiles = getBatchFileService()
+  const entriesResult = batchFiles.load(file)
+
+  if (isErr(entriesResult)) {
+    exitWithError(entriesResult.error)
+  }
+
+  const defaults = toPipelineDefaults(options)
+  const items = entriesResult.value.map((entry) => batchFiles.toPipelineOptions(entry, defaults))
+  const concurrency = Number(options.concurrency ?? 3)
+
+  print()
+  print(chalk.cyan.bold('🤖 MKS Bot Father'))
+  print(chalk.gray(`Batch of ${items.length} bots (concurrency ${concurrency})`))
+  print()
+
+  const spinner = startSpinner('Starting batch...')
+  let completed = 0
+
+  const result = await getPipeline().runBatch(items, {
+    concurrency,
+    onProgress: (botName, pct, msg) => {
+      spinner.text = `[${completed}/${items.length}] ${botName}: [${pct}%] ${msg}`
+    },
+    onItemComplete: (item) => {
+      completed++
+      const icon = item.success ? chalk.green('✓') : chalk.red('✗')
+      spinner.stopAndPersist({ symbol: icon, text: item.botName })
+      spinner.start(`[${completed}/${items.length}] Running...`)
+    },
+  })
+
+  if (isErr(result)) {
+    spinner.fail(chalk.red('Batch error'))
+    exitWithError(result.error)
+  }
+
+  const report = result.value
+  spinner.stop()
+
+  if (options.report) {
+    const reportPath = resolve(options.report)
+    writeFileSync(reportPath, JSON.stringify(report, null, 2) + '\n')
+    print(chalk.gray(`Report written to ${reportPath}`))
+  }
+
+  printBatchSummary(report)
+  printJson(report, report.success)
+
+  if (!report.success) {
+    process.exit(1)
+  }
+}
+
+/**
+ * Prints a batch report as a table.
+ *
+ * @param report - Batch result
+ */
+function printBatchSummary(report: IBatchResult): void {
+  const header = ['Bot', 'Status', 'Username', 'GitHub', 'Coolify', 'Time', 'Error']
+  const rows = report.items.map((item) => [
+    item.botName,
+    item.success ? 'ok' : 'failed',
+    item.botUsername ? `@${item.botUsername}` : '-',
+    item.githubRepoUrl ?? '-',
+    item.coolifyAppUuid ?? '-',
+    `${(item.durationMs / 1000).toFixed(1)}s`,
+    item.errors[0] ?? '',
+  ])
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column]!.length))
   )
-  console.log()
+  const format = (row: string[]) =>
+    row.map((cell, column) => cell.padEnd(widths[column]!)).join('  ').trimEnd()
 
-  const spinner = ora('Starting pipeline...').start()
+  print()
+  print(chalk.white.bold(format(header)))
+  for (const row of rows) {
+    print(row[1] === 'ok' ? format(row) : chalk.red(format(row)))
+  }
+  print()
 
-  try {
-    const result = await pipeline.run(pipelineOptions)
+  const summary = `${report.succeeded}/${report.total} succeeded in ${(report.durationMs / 1000).toFixed(1)}s`
+  print(report.success ? chalk.green(summary) : chalk.red(summary))
+  if (report.floodWaits > 0) {
+    print(chalk.yellow(`${report.floodWaits} BotFather flood wait(s) retried`))
+  }
 
-    if (isErr(result)) {
-      spinner.fail(chalk.red('Pipeline error'))
-      console.log()
-      console.log(`  Error: ${chalk.red(result.error.message)}`)
-      console.log()
-      process.exit(1)
+  const resumable = report.items.filter((item) => !item.success && item.runId)
+  if (resumable.length > 0) {
+    print()
+    print(chalk.white('Resume failed bots with:'))
+    for (const item of resumable) {
+      print(chalk.gray(`  mbf resume ${item.runId}`))
     }
+  }
+  print()
+}
 
-    const pipelineResult = result.value
+/**
+ * Runs the pipeline in dry-run mode and prints the plan.
+ *
+ * @param pipelineOptions - Pipeline options (with `dryRun` set)
+ */
+async function handleDryRun(pipelineOptions: IPipelineOptions): Promise<void> {
+  const spinner = startSpinner('Validating preconditions...')
+  const result = await getPipeline().run(pipelineOptions)
 
-    if (pipelineResult.success) {
-      spinner.succeed(chalk.green('Pipeline completed successfully!'))
-      console.log()
+  if (isErr(result)) {
+    spinner.fail(chalk.red('Plan error'))
+    exitWithError(result.error)
+  }
 
-      if (pipelineResult.botUsername) {
-        console.log(chalk.white('Bot:'))
-        console.log(`  Username: ${chalk.cyan(`@${pipelineResult.botUsername}`)}`)
-        if (pipelineResult.botToken) {
-          console.log(
-            `  Token: ${chalk.gray(pipelineResult.botToken.slice(0, 20) + '...')}`
-          )
-        }
-        console.log()
+  const plan = result.value.plan!
+
+  if (plan.valid) {
+    spinner.succeed(chalk.green('All preconditions passed'))
+  } else {
+    spinner.fail(chalk.red(`${plan.issues.length} precondition(s) failed`))
+  }
+  printPlan(plan)
+  printJson(plan, plan.valid)
+
+  if (!plan.valid) {
+    process.exit(1)
+  }
+}
+
+/**
+ * Prints a dry-run plan as text.
+ *
+ * @param plan - Pipeline plan
+ */
+function printPlan(plan: IPipelinePlan): void {
+  print()
+  print(chalk.cyan.bold(`📋 Plan for ${plan.botName}`) + chalk.gray(' (dry run, nothing created)'))
+  print()
+
+  print(chalk.white('Steps:'))
+  for (const step of plan.steps) {
+    const icon = step.enabled ? chalk.green('●') : chalk.gray('○')
+    const reason = step.skipReason ? chalk.gray(` (${step.skipReason})`) : ''
+    print(`  ${icon} ${step.step}${reason}`)
+  }
+  print()
+
+  if (plan.botFather?.botUsername) {
+    const availability =
+      plan.botFather.usernameAvailable === undefined
+        ? ''
+        : plan.botFather.usernameAvailable
+          ? chalk.green(' (available)')
+          : chalk.red(' (taken)')
+    print(chalk.white('Bot:'))
+    print(`  Username: ${chalk.cyan(`@${plan.botFather.botUsername}`)}${availability}`)
+    print()
+  }
+
+  print(chalk.white('Scaffold:'))
+  print(`  Path: ${chalk.cyan(plan.scaffold.projectPath)}`)
+  print(`  Template: ${chalk.cyan(plan.scaffold.template)}`)
+  print()
+
+  if (plan.github) {
+    print(chalk.white(`${GIT_HOST_LABELS[plan.github.host]}:`))
+    print(`  Repository: ${chalk.cyan(`${plan.github.owner ?? '?'}/${plan.github.name}`)}`)
+    print(`  Visibility: ${chalk.cyan(plan.github.visibility)}`)
+    const hardening = plan.github.hardening
+    if (hardening) {
+      if (hardening.botTokenSecret) {
+        print(`  Actions secret: ${chalk.cyan(hardening.botTokenSecret)}`)
+      }
+      if (hardening.topics.length > 0) {
+        print(`  Topics: ${chalk.cyan(hardening.topics.join(', '))}`)
       }
+      for (const [setting, value] of Object.entries(hardening.settings)) {
+        print(`  ${setting}: ${chalk.cyan(String(value))}`)
+      }
+      if (hardening.branchProtection) {
+        const approvals = hardening.branchProtection.requiredApprovals
+        print(
+          `  Branch protection: ${chalk.cyan('main')}` +
+            (approvals === undefined ? '' : chalk.gray(` (${approvals} approvals required)`))
+        )
+      }
+    }
+    print()
+  }
+
+  if (plan.coolify) {
+    const show = (value?: string) => (value ? chalk.cyan(value) : chalk.red('not configured'))
+    print(chalk.white(`${DEPLOY_TARGET_LABELS[plan.coolify.target]}:`))
+    if (plan.coolify.composeFile) {
+      print(`  Compose file: ${chalk.cyan(plan.coolify.composeFile)}`)
+    } else {
+      print(`  URL: ${show(plan.coolify.url)}`)
+      print(`  Server: ${show(plan.coolify.serverUuid)}`)
+      print(`  Destination: ${show(plan.coolify.destinationUuid)}`)
+      print(`  Project: ${show(plan.coolify.projectUuid)}`)
+      print(`  Environment: ${show(plan.coolify.environmentUuid)}`)
+    }
+    for (const [key, value] of Object.entries(plan.coolify.envVars)) {
+      print(`  Env: ${key}=${chalk.gray(value)}`)
+    }
+    print()
+  }
 
-      if (pipelineResult.githubRepoUrl) {
-        console.log(chalk.white('GitHub:'))
-        console.log(`  Repository: ${chalk.cyan(pipelineResult.githubRepoUrl)}`)
-        console.log()
+  for (const warning of plan.warnings) {
+    print(`  ${chalk.yellow('!')} ${warning}`)
+  }
+  for (const issue of plan.issues) {
+    print(`  ${chalk.red('✗')} ${issue}`)
+  }
+  if (plan.warnings.length > 0 || plan.issues.length > 0) {
+    print()
+  }
+}
+
+/**
+ * Prints the outcome of a pipeline run and exits non-zero on failure.
+ *
+ * The JSON document leaves out the bot token.
+ *
+ * @param spinner - Active spinner to resolve
+ * @param pipelineResult - Pipeline execution result
+ * @param name - Bot/project name
+ * @param errorCode - Code of the first step error, which sets the exit code
+ */
+export function reportPipelineResult(
+  spinner: Ora,
+  pipelineResult: IPipelineResult,
+  name: string,
+  errorCode?: string
+): void {
+  const { botToken: _botToken, ...result } = pipelineResult
+  if (result.outputs) {
+    const { botToken: _outputToken, ...outputs } = result.outputs
+    result.outputs = outputs
+  }
+
+  if (pipelineResult.success) {
+    spinner.succeed(chalk.green('Pipeline completed successfully!'))
+    print()
+
+    if (pipelineResult.botUsername) {
+      print(chalk.white('Bot:'))
+      print(`  Username: ${chalk.cyan(`@${pipelineResult.botUsername}`)}`)
+      if (pipelineResult.botToken) {
+        print(
+          `  Token: ${chalk.gray(pipelineResult.botToken.slice(0, 20) + '...')}`
+        )
       }
+      print()
+    }
 
-      if (pipelineResult.coolifyAppUuid) {
-        console.log(chalk.white('Coolify:'))
-        console.log(`  App UUID: ${chalk.cyan(pipelineResult.coolifyAppUuid)}`)
-        if (pipelineResult.deploymentUrl) {
-          console.log(`  Dashboard: ${chalk.cyan(pipelineResult.deploymentUrl)}`)
-        }
-        console.log()
+    if (pipelineResult.githubRepoUrl) {
+      print(chalk.white('GitHub:'))
+      print(`  Repository: ${chalk.cyan(pipelineResult.githubRepoUrl)}`)
+      if (pipelineResult.outputs?.ciWorkflowPath) {
+        print(`  CI workflow: ${chalk.cyan(pipelineResult.outputs.ciWorkflowPath)}`)
       }
+      print()
+    }
 
-      console.log(chalk.green('Next steps:'))
-      console.log(`  cd ${name}`)
-      console.log(`  bun run dev`)
-      console.log()
-    } else {
-      spinner.fail(chalk.red('Pipeline failed'))
-      console.log()
+    if (pipelineResult.coolifyAppUuid) {
+      print(chalk.white('Deployment:'))
+      print(`  App ID: ${chalk.cyan(pipelineResult.coolifyAppUuid)}`)
+      if (pipelineResult.deploymentUrl) {
+        print(`  Manage at: ${chalk.cyan(pipelineResult.deploymentUrl)}`)
+      }
+      if (pipelineResult.outputs?.webhookUrl) {
+        print(`  Webhook: ${chalk.cyan(pipelineResult.outputs.webhookUrl)}`)
+      }
+      print()
+    }
 
-      if (pipelineResult.errors.length > 0) {
-        console.log(chalk.red('Errors:'))
-        for (const error of pipelineResult.errors) {
-          console.log(`  ${chalk.red('•')} ${error}`)
-        }
-        console.log()
+    print(chalk.green('Next steps:'))
+    print(`  cd ${name}`)
+    print(`  bun run dev`)
+    print()
+    printJson(result)
+  } else {
+    spinner.fail(chalk.red('Pipeline failed'))
+    print()
+
+    if (pipelineResult.errors.length > 0) {
+      print(chalk.red('Errors:'))
+      for (const error of pipelineResult.errors) {
+        print(`  ${chalk.red('•')} ${error}`)
       }
+      print()
+    }
 
-      process.exit(1)
+    if (pipelineResult.rollback) {
+      print(
+        pipelineResult.rollback.success
+          ? chalk.yellow('Rolled back:')
+          : chalk.red('Rollback incomplete:')
+      )
+      for (const action of pipelineResult.rollback.actions) {
+        const icon = action.success ? chalk.green('✓') : chalk.red('✗')
+        const detail = action.error ? chalk.red(` (${action.error})`) : ''
+        print(`  ${icon} ${action.description}${detail}`)
+      }
+      print()
+    } else if (pipelineResult.runId) {
+      print(chalk.white('Resume from the failed step with:'))
+      print(chalk.gray(`  mbf resume ${pipelineResult.runId}`))
+      print()
     }
-  } catch (error) {
-    spinner.fail(chalk.red('Pipeline error'))
-    console.error(error)
-    process.exit(1)
+
+    exitWithError(
+      { code: errorCode, message: pipelineResult.errors[0] ?? 'Pipeline failed' },
+      undefined,
+      result
+    )
   }
 }
@@ -4,38 +4,65 @@
  * @module
  */
 
-import ora from 'ora'
 import chalk from 'chalk'
-import { isOk, isErr } from '@mks2508/no-throw'
+import { isErr } from '@mks2508/no-throw'
+import { getConfigService } from '../../services/config.service.js'
 import { getCoolifyService } from '../../services/coolify.service.js'
+import { getDeployTarget, isDeployTarget, resolveDeployTarget } from '../../services/deploy-target.js'
+import { AppErrorCode, DeployTarget } from '../../types/index.js'
+import { errorMessage, exitWithError, isQuietOutput, print, printJson, startSpinner } from '../output.js'
 
 interface IDeployOptions {
   force?: boolean
   tag?: string
+  wait?: boolean
+  follow?: boolean
+  timeout?: string
+  target?: string
 }
 
 export async function handleDeploy(
   name: string,
   options: IDeployOptions
 ): Promise<void> {
-  console.log()
-  console.log(chalk.cyan.bold('🚀 Deploy to Coolify'))
-  console.log()
+  if (options.target !== undefined && !isDeployTarget(options.target)) {
+    exitWithError({
+      code: AppErrorCode.VALIDATION_ERROR,
+      message: `Invalid --target "${options.target}": expected coolify or docker-compose`,
+    })
+  }
+
+  if (options.timeout !== undefined && !/^[1-9]\d*$/.test(options.timeout)) {
+    exitWithError({
+      code: AppErrorCode.VALIDATION_ERROR,
+      message: `Invalid --timeout "${options.timeout}": expected a positive number of seconds`,
+    })
+  }
+
+  if (resolveDeployTarget(options.target, getConfigService().get()) === DeployTarget.DockerCompose) {
+    await deployCompose(name, options)
+    return
+  }
+
+  print()
+  print(chalk.cyan.bold('🚀 Deploy to Coolify'))
+  print()
 
   const coolify = getCoolifyService()
   const initResult = await coolify.init()
 
   if (isErr(initResult)) {
-    console.log(chalk.red('Coolify not configured'))
-    console.log()
-    console.log('Configure with:')
-    console.log(chalk.gray('  mbf config set coolify.url https://your-coolify.com'))
-    console.log(chalk.gray('  mbf config set coolify.token <your-api-token>'))
-    console.log()
-    process.exit(1)
+    exitWithError(
+      { code: AppErrorCode.CONFIG_ERROR, message: 'Coolify not configured' },
+      [
+        'Configure with:',
+        '  mbf config set coolify.url https://your-coolify.com',
+        '  mbf config set coolify.token <your-api-token>',
+      ].join('\n')
+    )
   }
 
-  const spinner = ora(`Deploying ${name}...`).start()
+  const spinner = startSpinner(`Deploying ${name}...`)
 
   try {
     const result = await coolify.deploy({
@@ -44,22 +71,118 @@ export async function handleDeploy(
       force: options.force,
     })
 
-    if (isOk(result)) {
-      spinner.succeed(chalk.green('Deployment started!'))
-      console.log()
-      console.log(`  Deployment UUID: ${chalk.cyan(result.value.deploymentUuid)}`)
-      console.log(`  Resource UUID: ${chalk.cyan(result.value.resourceUuid)}`)
-      console.log()
-    } else {
+    if (isErr(result)) {
       spinner.fail(chalk.red('Deployment failed'))
-      console.log()
-      console.log(`  Error: ${chalk.red(result.error.message)}`)
-      console.log()
-      process.exit(1)
+      exitWithError(result.error)
+    }
+
+    spinner.succeed(chalk.green('Deployment started!'))
+    print()
+    print(`  Deployment UUID: ${chalk.cyan(result.value.deploymentUuid)}`)
+    print(`  Resource UUID: ${chalk.cyan(result.value.resourceUuid)}`)
+    print()
+
+    const deployment = {
+      deploymentUuid: result.value.deploymentUuid,
+      resourceUuid: result.value.resourceUuid,
+    }
+
+    if (options.wait || options.follow) {
+      await waitForBuild(result.value.deploymentUuid, options, deployment)
+      printJson({ ...deployment, finished: true })
+    } else {
+      printJson({ ...deployment, finished: false })
     }
   } catch (error) {
     spinner.fail(chalk.red('Deployment error'))
-    console.error(error)
-    process.exit(1)
+    exitWithError({ code: AppErrorCode.UNKNOWN_ERROR, message: errorMessage(error) })
+  }
+}
+
+/**
+ * Waits for a deployment to finish and exits non-zero if it does not.
+ *
+ * With `follow`, build log lines are printed as they appear.
+ *
+ * @param deploymentUuid - Deployment UUID
+ * @param options - Deploy command options
+ * @param deployment - Started deployment, reported with the error
+ */
+async function waitForBuild(
+  deploymentUuid: string,
+  options: IDeployOptions,
+  deployment: Record<string, unknown>
+): Promise<void> {
+  const coolify = getCoolifyService()
+  const timeoutSeconds = Number(options.timeout ?? 600)
+  const spinner = startSpinner('Waiting for build...')
+
+  const result = await coolify.waitForDeployment(deploymentUuid, {
+    timeout: timeoutSeconds * 1000,
+    onLog:
+      options.follow && !isQuietOutput()
+        ? (line) => {
+            spinner.clear()
+            console.log(line.type === 'stderr' ? chalk.red(line.output) : chalk.gray(line.output))
+            spinner.render()
+          }
+        : undefined,
+    onProgress: (_pct, msg, step) => {
+      if (step !== 'build_log') {
+        spinner.text = msg
+      }
+    },
+  })
+
+  if (isErr(result)) {
+    spinner.fail(chalk.red('Build failed'))
+    exitWithError(result.error, undefined, { ...deployment, finished: false })
   }
+
+  spinner.succeed(chalk.green('Deployment finished!'))
+  print()
+}
+
+/**
+ * Rebuilds and restarts a bot's Docker Compose project.
+ *
+ * @param name - Bot name
+ * @param options - Deploy command options (`wait` waits for the container to be running)
+ */
+async function deployCompose(name: string, options: IDeployOptions): Promise<void> {
+  print()
+  print(chalk.cyan.bold('🚀 Deploy with Docker Compose'))
+  print()
+
+  const compose = getDeployTarget(DeployTarget.DockerCompose)
+  const initResult = await compose.init()
+  if (isErr(initResult)) {
+    exitWithError(initResult.error)
+  }
+
+  const findResult = await compose.findApp(name)
+  if (isErr(findResult)) {
+    exitWithError(findResult.error)
+  }
+  const appId = findResult.value
+  if (!appId) {
+    exitWithError(
+      { code: AppErrorCode.VALIDATION_ERROR, message: `No compose project for ${name}` },
+      `Create it with: mbf create ${name} --deploy --deploy-target docker-compose`
+    )
+  }
+
+  const spinner = startSpinner(`Deploying ${name}...`)
+  const result = await compose.deploy(appId, { wait: options.wait || options.follow }, (_pct, msg) => {
+    spinner.text = msg
+  })
+
+  if (isErr(result)) {
+    spinner.fail(chalk.red('Deployment failed'))
+    exitWithError(result.error, undefined, { project: appId, finished: false })
+  }
+
+  spinner.succeed(chalk.green('Deployment finished!'))
+  print()
+  printJson({ project: appId, finished: true })
 }
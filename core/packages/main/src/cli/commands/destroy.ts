@@ -0,0 +1,125 @@
+/**
+ * Destroy command for mks-bot-father CLI.
+ *
+ * @module
+ */
+
+import { createInterface } from 'node:readline/promises'
+import chalk from 'chalk'
+import { isErr } from '@mks2508/no-throw'
+import { getPipeline } from '../../pipeline/index.js'
+import { isGitHost } from '../../services/git-host.js'
+import { isDeployTarget } from '../../services/deploy-target.js'
+import { AppErrorCode, DestroyActionStatus, type IDestroyResult } from '../../types/index.js'
+import { exitWithError, isJsonOutput, isQuietOutput, printJson, startSpinner } from '../output.js'
+
+interface IDestroyCommandOptions {
+  keepRepo?: boolean
+  archiveRepo?: boolean
+  githubOrg?: string
+  gitHost?: string
+  deployTarget?: string
+  app?: string
+  username?: string
+  path?: string
+  yes?: boolean
+}
+
+const STATUS_ICONS: Record<DestroyActionStatus, string> = {
+  done: chalk.green('✅'),
+  not_found: chalk.gray('➖'),
+  skipped: chalk.gray('⏭️ '),
+  failed: chalk.red('❌'),
+}
+
+export async function handleDestroy(name: string, options: IDestroyCommandOptions): Promise<void> {
+  if (options.keepRepo && options.archiveRepo) {
+    exitWithError({ code: AppErrorCode.VALIDATION_ERROR, message: 'Use either --keep-repo or --archive-repo' })
+  }
+
+  if (options.gitHost !== undefined && !isGitHost(options.gitHost)) {
+    exitWithError({
+      code: AppErrorCode.VALIDATION_ERROR,
+      message: `Invalid --git-host "${options.gitHost}": expected github, gitlab or gitea`,
+    })
+  }
+
+  if (options.deployTarget !== undefined && !isDeployTarget(options.deployTarget)) {
+    exitWithError({
+      code: AppErrorCode.VALIDATION_ERROR,
+      message: `Invalid --deploy-target "${options.deployTarget}": expected coolify or docker-compose`,
+    })
+  }
+
+  if (!options.yes) {
+    if (!process.stdin.isTTY || isJsonOutput()) {
+      exitWithError(
+        { code: AppErrorCode.VALIDATION_ERROR, message: 'Confirmation needs an interactive terminal' },
+        'Pass --yes to destroy without confirming'
+      )
+    }
+
+    const repoAction = options.keepRepo ? 'keep' : options.archiveRepo ? 'archive' : 'delete'
+    console.log()
+    console.log(chalk.red.bold(`This permanently destroys ${name}:`))
+    console.log(chalk.red('  • stops and deletes its application (Coolify or Docker Compose)'))
+    console.log(chalk.red(`  • ${repoAction}s its repository`))
+    console.log(chalk.red('  • deletes the bot via BotFather (its token stops working)'))
+    console.log(chalk.red('  • removes its .envs entry and local workspace'))
+    console.log()
+
+    const readline = createInterface({ input: process.stdin, output: process.stdout })
+    const answer = await readline.question(`Type ${chalk.bold(name)} to confirm: `)
+    readline.close()
+
+    if (answer.trim() !== name) {
+      exitWithError({ code: AppErrorCode.VALIDATION_ERROR, message: 'Cancelled' })
+    }
+  }
+
+  const spinner = startSpinner(`Destroying ${name}...`)
+
+  const result = await getPipeline().destroy({
+    botName: name,
+    botUsername: options.username,
+    gitHost: options.gitHost,
+    deployTarget: options.deployTarget,
+    githubOwner: options.githubOrg,
+    coolifyAppUuid: options.app,
+    targetPath: options.path,
+    keepRepo: options.keepRepo,
+    archiveRepo: options.archiveRepo,
+  })
+
+  if (isErr(result)) {
+    spinner.fail(chalk.red('Destroy failed'))
+    exitWithError(result.error)
+  }
+
+  spinner.stop()
+
+  if (!isQuietOutput()) {
+    printResult(result.value)
+  }
+  printJson(result.value, result.value.success)
+
+  if (!result.value.success) {
+    process.exit(1)
+  }
+}
+
+function printResult(result: IDestroyResult): void {
+  console.log()
+  for (const action of result.actions) {
+    const message = action.status === DestroyActionStatus.Failed ? chalk.red(action.message) : action.message
+    console.log(`${STATUS_ICONS[action.status]} ${action.target}: ${message}`)
+  }
+  console.log()
+
+  if (result.success) {
+    console.log(chalk.green(`🗑️  ${result.botName} destroyed`))
+  } else {
+    console.log(chalk.yellow(`⚠️  ${result.botName} was only partially destroyed; run the command again to retry`))
+  }
+  console.log()
+}
@@ -0,0 +1,75 @@
+/**
+ * Doctor command for mks-bot-father CLI.
+ *
+ * @module
+ */
+
+import chalk from 'chalk'
+import { isErr } from '@mks2508/no-throw'
+import { getDoctorService } from '../../services/doctor.service.js'
+import { DoctorCheckStatus, type IDoctorCheck, type IDoctorReport } from '../../types/index.js'
+import { exitWithError, isQuietOutput, printJson, startSpinner } from '../output.js'
+
+interface IDoctorCommandOptions {
+  path?: string
+  skipTelegram?: boolean
+}
+
+const STATUS_ICONS: Record<DoctorCheckStatus, string> = {
+  pass: chalk.green('✅'),
+  warn: chalk.yellow('⚠️ '),
+  fail: chalk.red('❌'),
+  skip: chalk.gray('⏭️ '),
+}
+
+export async function handleDoctor(options: IDoctorCommandOptions): Promise<void> {
+  const spinner = startSpinner('Running checks...')
+
+  const result = await getDoctorService().run({
+    workspacePath: options.path,
+    skipTelegram: options.skipTelegram,
+  })
+
+  if (isErr(result)) {
+    spinner.fail(chalk.red('Diagnostics failed'))
+    exitWithError(result.error)
+  }
+
+  const report = result.value
+  spinner.stop()
+
+  printJson(report, report.ok)
+  if (!isQuietOutput()) {
+    printReport(report)
+  }
+
+  if (!report.ok) {
+    process.exit(1)
+  }
+}
+
+function printReport(report: IDoctorReport): void {
+  console.log()
+  console.log(chalk.cyan.bold('🩺 Environment Diagnostics'))
+  console.log()
+
+  for (const check of report.checks) {
+    printCheck(check)
+  }
+
+  const { counts } = report
+  console.log()
+  console.log(
+    `${chalk.green(`${counts.pass} passed`)}, ${chalk.yellow(`${counts.warn} warnings`)}, ` +
+      `${chalk.red(`${counts.fail} failed`)}, ${chalk.gray(`${counts.skip} skipped`)}`
+  )
+  console.log()
+}
+
+function printCheck(check: IDoctorCheck): void {
+  const message = check.status === DoctorCheckStatus.Pass ? chalk.gray(check.message) : check.message
+  console.log(`${STATUS_ICONS[check.status]} ${check.title}: ${message}`)
+  if (check.hint && check.status !== DoctorCheckStatus.Pass) {
+    console.log(chalk.gray(`   → ${check.hint}`))
+  }
+}
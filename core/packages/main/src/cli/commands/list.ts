@@ -0,0 +1,85 @@
+/**
+ * List command for mks-bot-father CLI.
+ *
+ * @module
+ */
+
+import chalk from 'chalk'
+import { isErr } from '@mks2508/no-throw'
+import { getInventoryService } from '../../services/inventory.service.js'
+import type { IInventoryEntry } from '../../types/index.js'
+import { exitWithError, isQuietOutput, printJson, startSpinner } from '../output.js'
+
+interface IListOptions {
+  owner?: string
+  skipBotfather?: boolean
+  drift?: boolean
+}
+
+export async function handleList(options: IListOptions): Promise<void> {
+  const spinner = startSpinner('Reading BotFather, .envs, GitHub and Coolify...')
+
+  const result = await getInventoryService().collect({
+    githubOwner: options.owner,
+    skipBotFather: options.skipBotfather,
+  })
+
+  if (isErr(result)) {
+    spinner.fail(chalk.red('Failed to build the inventory'))
+    exitWithError(result.error)
+  }
+
+  const inventory = result.value
+  const entries = options.drift
+    ? inventory.entries.filter((entry) => entry.drift.length > 0)
+    : inventory.entries
+  spinner.stop()
+
+  printJson({ ...inventory, entries })
+  if (isQuietOutput()) {
+    return
+  }
+
+  console.log()
+  console.log(chalk.cyan.bold('🤖 Bots'))
+  console.log()
+
+  if (entries.length === 0) {
+    console.log(chalk.gray(options.drift ? 'No drift found' : 'No bots found'))
+  }
+
+  for (const entry of entries) {
+    printEntry(entry)
+  }
+
+  console.log()
+  for (const [source, status] of Object.entries(inventory.sources)) {
+    const line = status.available
+      ? chalk.gray(`${source}: ${status.count}`)
+      : chalk.yellow(`${source}: not checked (${status.error})`)
+    console.log(`  ${line}`)
+  }
+
+  console.log()
+  if (inventory.driftCount > 0) {
+    console.log(chalk.yellow(`⚠️  ${inventory.driftCount} drift issues`))
+  } else {
+    console.log(chalk.green('✅ No drift'))
+  }
+  console.log()
+}
+
+function printEntry(entry: IInventoryEntry): void {
+  const icon = entry.drift.length > 0 ? chalk.yellow('⚠️ ') : chalk.green('✅')
+  console.log(`${icon} ${chalk.bold(entry.name)}`)
+
+  const botFather = entry.botFather === undefined ? chalk.gray('?') : entry.botFather ? 'yes' : chalk.red('no')
+  const envs = entry.envs.length > 0 ? entry.envs.join(', ') : chalk.gray('none')
+  const repo = entry.repo ? `${entry.repo.owner}/${entry.repo.name}` : chalk.gray('none')
+  const app = entry.app ? `${entry.app.name} (${entry.app.status || 'unknown'})` : chalk.gray('none')
+
+  console.log(chalk.gray(`   BotFather: ${botFather}  .envs: ${envs}  GitHub: ${repo}  Coolify: ${app}`))
+  for (const drift of entry.drift) {
+    console.log(chalk.yellow(`   • ${drift.message}`))
+  }
+}
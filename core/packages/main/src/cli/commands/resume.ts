@@ -0,0 +1,82 @@
+/**
+ * Resume command for mks-bot-father CLI.
+ *
+ * @module
+ */
+
+import chalk from 'chalk'
+import { isErr } from '@mks2508/no-throw'
+import { getPipeline } from '../../pipeline/index.js'
+import { getCheckpointService, redactSecrets } from '../../services/checkpoint.service.js'
+import { AppErrorCode, PipelineEventType } from '../../types/index.js'
+import { errorMessage, exitWithError, print, printJson, startSpinner } from '../output.js'
+import { reportPipelineResult } from './create.js'
+
+export async function handleResume(runId?: string): Promise<void> {
+  print()
+  print(chalk.cyan.bold('🔁 Resume Pipeline Run'))
+  print()
+
+  if (!runId) {
+    const listResult = getCheckpointService().list()
+    if (isErr(listResult)) {
+      exitWithError({ ...listResult.error, message: `Failed to list runs: ${listResult.error.message}` })
+    }
+
+    const resumable = listResult.value.filter(
+      (run) => run.status !== 'completed' && run.status !== 'rolled-back'
+    )
+    printJson({ runs: resumable.map(redactSecrets) })
+
+    if (resumable.length === 0) {
+      print(chalk.gray('  No resumable runs'))
+      print()
+      return
+    }
+
+    print(chalk.white('Resumable runs:'))
+    for (const run of resumable) {
+      const failed = run.failedStep ? chalk.red(` failed at ${run.failedStep}`) : ''
+      print(
+        `  ${chalk.cyan(run.runId)}  ${run.options.botName}  ${chalk.gray(run.updatedAt)}${failed}`
+      )
+    }
+    print()
+    print(chalk.gray('Usage: mbf resume <runId>'))
+    print()
+    return
+  }
+
+  const checkpointResult = getCheckpointService().load(runId)
+  if (isErr(checkpointResult)) {
+    exitWithError(checkpointResult.error, 'List resumable runs with: mbf resume')
+  }
+
+  const checkpoint = checkpointResult.value
+  print(`  Bot: ${chalk.cyan(checkpoint.options.botName)}`)
+  print(`  Completed steps: ${chalk.cyan(checkpoint.completedSteps.join(', ') || 'none')}`)
+  print()
+
+  const spinner = startSpinner(`Resuming run ${runId}...`)
+  let errorCode: string | undefined
+
+  try {
+    const result = await getPipeline().resume(runId, {
+      onEvent: (event) => {
+        if (event.type === PipelineEventType.StepError) {
+          errorCode ??= event.code
+        }
+      },
+    })
+
+    if (isErr(result)) {
+      spinner.fail(chalk.red('Resume error'))
+      exitWithError(result.error)
+    }
+
+    reportPipelineResult(spinner, result.value, checkpoint.options.botName, errorCode)
+  } catch (error) {
+    spinner.fail(chalk.red('Resume error'))
+    exitWithError({ code: AppErrorCode.UNKNOWN_ERROR, message: errorMessage(error) })
+  }
+}
@@ -9,55 +9,98 @@ import { isOk } from '@mks2508/no-throw'
 import { getConfigService, ConfigService } from '../../services/config.service.js'
 import { getGitHubService } from '../../services/github.service.js'
 import { getCoolifyService } from '../../services/coolify.service.js'
+import { print, printJson } from '../output.js'
+
+/**
+ * Status of one service.
+ */
+interface IServiceStatus {
+  /** Credentials are configured */
+  configured: boolean
+  /** Credentials work */
+  ready: boolean
+  /** Authenticated user, instance URL... */
+  detail?: string
+}
+
+/**
+ * Document printed by `mbf status --json`.
+ */
+interface IStatusReport {
+  profile: string
+  github: IServiceStatus
+  coolify: IServiceStatus
+  telegram: IServiceStatus
+  configFile: string
+}
 
 export async function handleStatus(): Promise<void> {
   const config = getConfigService()
   const github = getGitHubService()
   const coolify = getCoolifyService()
 
-  console.log()
-  console.log(chalk.cyan.bold('📋 Configuration Status'))
-  console.log()
+  const status: IStatusReport = {
+    profile: config.getActiveProfile(),
+    github: { configured: false, ready: false },
+    coolify: { configured: false, ready: false },
+    telegram: { configured: false, ready: false },
+    configFile: ConfigService.getConfigPath(),
+  }
+
+  print()
+  print(chalk.cyan.bold('📋 Configuration Status'))
+  print()
+  print(`${chalk.gray('👤')} Profile: ${chalk.cyan(status.profile)}`)
+  print()
 
   // GitHub
+  const appResult = config.getGitHubApp()
   const tokenResult = await config.resolveGitHubToken()
-  if (isOk(tokenResult) && tokenResult.value) {
+  if (!isOk(appResult) || appResult.value || (isOk(tokenResult) && tokenResult.value)) {
+    status.github.configured = true
     const initResult = await github.init()
     if (isOk(initResult)) {
       const userResult = await github.getAuthenticatedUser()
       if (isOk(userResult)) {
-        console.log(`${chalk.green('✅')} GitHub: Authenticated as ${chalk.cyan(userResult.value || 'unknown')}`)
+        status.github = { configured: true, ready: true, detail: userResult.value }
+        print(`${chalk.green('✅')} GitHub: Authenticated as ${chalk.cyan(userResult.value || 'unknown')}`)
       } else {
-        console.log(`${chalk.yellow('⚠️')} GitHub: Token configured but auth failed`)
+        print(`${chalk.yellow('⚠️')} GitHub: Token configured but auth failed`)
       }
     } else {
-      console.log(`${chalk.yellow('⚠️')} GitHub: Token found but init failed`)
+      print(`${chalk.yellow('⚠️')} GitHub: Token found but init failed`)
     }
   } else {
-    console.log(`${chalk.red('❌')} GitHub: Not configured`)
+    print(`${chalk.red('❌')} GitHub: Not configured`)
   }
 
   // Coolify
   if (coolify.isConfigured()) {
+    status.coolify = { configured: true, ready: false, detail: config.getCoolifyUrl() }
     const initResult = await coolify.init()
     if (isOk(initResult)) {
-      console.log(`${chalk.green('✅')} Coolify: ${chalk.cyan(config.getCoolifyUrl())}`)
+      status.coolify.ready = true
+      print(`${chalk.green('✅')} Coolify: ${chalk.cyan(config.getCoolifyUrl())}`)
     } else {
-      console.log(`${chalk.yellow('⚠️')} Coolify: Configured but init failed`)
+      print(`${chalk.yellow('⚠️')} Coolify: Configured but init failed`)
     }
   } else {
-    console.log(`${chalk.red('❌')} Coolify: Not configured`)
+    print(`${chalk.red('❌')} Coolify: Not configured`)
   }
 
   // Telegram
   const telegram = config.getTelegramCredentials()
   if (telegram.apiId && telegram.apiHash) {
-    console.log(`${chalk.green('✅')} Telegram: API credentials configured`)
+    // The session is only checked by `mbf doctor`
+    status.telegram = { configured: true, ready: true }
+    print(`${chalk.green('✅')} Telegram: API credentials configured`)
   } else {
-    console.log(`${chalk.red('❌')} Telegram: API credentials not configured`)
+    print(`${chalk.red('❌')} Telegram: API credentials not configured`)
   }
 
-  console.log()
-  console.log(`${chalk.gray('📁')} Config file: ${chalk.cyan(ConfigService.getConfigPath())}`)
-  console.log()
+  print()
+  print(`${chalk.gray('📁')} Config file: ${chalk.cyan(status.configFile)}`)
+  print()
+
+  printJson(status)
 }
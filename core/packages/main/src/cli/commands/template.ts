@@ -0,0 +1,115 @@
+/**
+ * Template command for mks-bot-father CLI.
+ *
+ * @module
+ */
+
+import chalk from 'chalk'
+import { isErr } from '@mks2508/no-throw'
+import { getTemplateService } from '../../services/template.service.js'
+import { AppErrorCode, TemplateType, type IRegisteredTemplate } from '../../types/index.js'
+import { exitWithError, isQuietOutput, print, printJson, startSpinner } from '../output.js'
+
+interface ITemplateOptions {
+  name?: string
+  ref?: string
+}
+
+const TEMPLATE_HELP = [
+  'Available actions:',
+  '  add <source>    Add a template from a directory, git URL (#ref) or tarball',
+  '  list            List built-in and added templates',
+  '  remove <name>   Remove an added template',
+].join('\n')
+
+export async function handleTemplate(
+  action: string,
+  target: string | undefined,
+  options: ITemplateOptions
+): Promise<void> {
+  const templates = getTemplateService()
+
+  switch (action) {
+    case 'add': {
+      if (!target) {
+        exitWithError(
+          { code: AppErrorCode.VALIDATION_ERROR, message: 'Source required for add action' },
+          'Usage: mbf template add <dir | git-url[#ref] | tarball> [--name <name>] [--ref <ref>]'
+        )
+      }
+
+      const spinner = startSpinner(`Adding template from ${target}...`)
+      const result = await templates.add(target, { name: options.name, ref: options.ref })
+
+      if (isErr(result)) {
+        spinner.fail(chalk.red('Failed to add template'))
+        exitWithError(result.error)
+      }
+
+      spinner.succeed(chalk.green(`Template added: ${result.value.name}`))
+      print()
+      print(`  Use it with: ${chalk.cyan(`mbf create <name> --template ${result.value.name}`)}`)
+      print()
+      printJson(result.value)
+      break
+    }
+
+    case 'list': {
+      const result = templates.list()
+      if (isErr(result)) {
+        exitWithError(result.error)
+      }
+
+      if (!isQuietOutput()) {
+        printTemplates(result.value)
+      }
+      printJson({ builtin: Object.values(TemplateType), templates: result.value })
+      break
+    }
+
+    case 'remove': {
+      if (!target) {
+        exitWithError(
+          { code: AppErrorCode.VALIDATION_ERROR, message: 'Template name required for remove action' },
+          'Usage: mbf template remove <name>'
+        )
+      }
+
+      const result = templates.remove(target)
+      if (isErr(result)) {
+        exitWithError(result.error)
+      }
+
+      print(chalk.green(`✅ Template removed: ${target}`))
+      printJson({ removed: target })
+      break
+    }
+
+    default:
+      exitWithError({ code: AppErrorCode.VALIDATION_ERROR, message: `Unknown action: ${action}` }, TEMPLATE_HELP)
+  }
+}
+
+function printTemplates(templates: IRegisteredTemplate[]): void {
+  console.log()
+  console.log(chalk.cyan.bold('📦 Templates'))
+  console.log()
+
+  console.log(chalk.white('Built-in (bunspace):'))
+  for (const name of Object.values(TemplateType)) {
+    console.log(`  ${chalk.cyan(name)}`)
+  }
+  console.log()
+
+  console.log(chalk.white('Added:'))
+  if (templates.length === 0) {
+    console.log(chalk.gray('  None, add one with: mbf template add <source>'))
+  }
+  for (const template of templates) {
+    const ref = template.source.ref ? `#${template.source.ref}` : ''
+    const description = template.description ? ` ${template.description}` : ''
+    console.log(`  ${chalk.cyan(template.name)}${description}`)
+    console.log(chalk.gray(`    ${template.source.type}: ${template.source.location}${ref}`))
+  }
+  console.log()
+}
@@ -0,0 +1,162 @@
+/**
+ * Webhook command for mks-bot-father CLI.
+ *
+ * @module
+ */
+
+import chalk from 'chalk'
+import { isErr } from '@mks2508/no-throw'
+import { getBotFatherService } from '../../services/botfather.service.js'
+import {
+  getTelegramBotApiService,
+  generateWebhookSecret,
+} from '../../services/telegram-bot-api.service.js'
+import { AppErrorCode, type Environment, type IWebhookInfo } from '../../types/index.js'
+import { exitWithError, isJsonOutput, isQuietOutput, print, printJson, startSpinner } from '../output.js'
+
+interface IWebhookOptions {
+  url?: string
+  secret?: string
+  dropPending?: boolean
+  env?: string
+}
+
+const ENVIRONMENTS: readonly Environment[] = ['local', 'staging', 'production']
+
+export async function handleWebhook(
+  action: string,
+  bot: string,
+  options: IWebhookOptions
+): Promise<void> {
+  if (!['set', 'info', 'delete'].includes(action)) {
+    exitWithError(
+      { code: AppErrorCode.VALIDATION_ERROR, message: `Unknown action: ${action}` },
+      'Usage: mbf webhook <set|info|delete> <bot>'
+    )
+  }
+
+  const environment = (options.env ?? 'local') as Environment
+  if (!ENVIRONMENTS.includes(environment)) {
+    exitWithError(
+      { code: AppErrorCode.VALIDATION_ERROR, message: `Invalid environment: ${options.env}` },
+      `Valid environments: ${ENVIRONMENTS.join(', ')}`
+    )
+  }
+
+  const envResult = await getBotFatherService().getBotEnv(bot, environment)
+  const token = isErr(envResult) ? undefined : envResult.value?.botToken
+
+  if (!token) {
+    exitWithError(
+      { code: AppErrorCode.CONFIG_ERROR, message: `No ${environment} token stored for ${bot}` },
+      'Tokens are saved by `mbf create` under core/.envs/<bot>/'
+    )
+  }
+
+  const botApi = getTelegramBotApiService()
+
+  switch (action) {
+    case 'set': {
+      const url = options.url ?? (isErr(envResult) ? undefined : envResult.value?.webhookUrl)
+      if (!url) {
+        exitWithError(
+          { code: AppErrorCode.VALIDATION_ERROR, message: 'Webhook URL required' },
+          `Usage: mbf webhook set ${bot} --url https://your-bot.example.com/webhook`
+        )
+      }
+
+      const secret = options.secret ?? generateWebhookSecret()
+      const spinner = startSpinner(`Setting webhook for ${bot}...`)
+      const result = await botApi.setWebhook(token, {
+        url,
+        secretToken: secret,
+        dropPendingUpdates: options.dropPending,
+      })
+
+      if (isErr(result)) {
+        spinner.fail(chalk.red('Failed to set webhook'))
+        exitWithError(result.error)
+      }
+
+      spinner.succeed(chalk.green(`Webhook set: ${url}`))
+      if (!options.secret && isQuietOutput() && !isJsonOutput()) {
+        // The generated secret is shown only once
+        console.log(secret)
+      } else if (!options.secret) {
+        print()
+        print(`  Secret: ${chalk.cyan(secret)}`)
+        print(chalk.gray('  Set TG_WEBHOOK_SECRET to this value on the bot, or it will reject updates'))
+      }
+      print()
+      printJson({ url, ...(options.secret ? {} : { secret }) })
+      break
+    }
+
+    case 'info': {
+      const result = await botApi.getWebhookInfo(token)
+      if (isErr(result)) {
+        exitWithError({ ...result.error, message: `Failed to get webhook info: ${result.error.message}` })
+      }
+
+      if (!isQuietOutput()) {
+        printWebhookInfo(bot, result.value)
+      }
+      printJson(result.value)
+      break
+    }
+
+    case 'delete': {
+      const spinner = startSpinner(`Deleting webhook for ${bot}...`)
+      const result = await botApi.deleteWebhook(token, options.dropPending)
+
+      if (isErr(result)) {
+        spinner.fail(chalk.red('Failed to delete webhook'))
+        exitWithError(result.error)
+      }
+
+      spinner.succeed(chalk.green('Webhook deleted, bot is back on polling'))
+      print()
+      printJson({ deleted: true })
+      break
+    }
+  }
+}
+
+function printWebhookInfo(bot: string, info: IWebhookInfo): void {
+  console.log()
+  console.log(chalk.cyan.bold(`🔗 Webhook: ${bot}`))
+  console.log()
+
+  if (!info.url) {
+    console.log(`  URL: ${chalk.gray('(not set, bot uses polling)')}`)
+  } else {
+    console.log(`  URL: ${chalk.cyan(info.url)}`)
+  }
+
+  const pending = info.pendingUpdateCount > 0
+    ? chalk.yellow(String(info.pendingUpdateCount))
+    : chalk.green('0')
+  console.log(`  Pending updates: ${pending}`)
+
+  if (info.ipAddress) {
+    console.log(`  IP address: ${info.ipAddress}`)
+  }
+  if (info.maxConnections !== undefined) {
+    console.log(`  Max connections: ${info.maxConnections}`)
+  }
+  if (info.allowedUpdates?.length) {
+    console.log(`  Allowed updates: ${info.allowedUpdates.join(', ')}`)
+  }
+
+  if (info.lastErrorMessage) {
+    console.log()
+    console.log(`  ${chalk.red('Last error:')} ${info.lastErrorMessage}`)
+    if (info.lastErrorDate) {
+      console.log(`  ${chalk.gray(`at ${info.lastErrorDate}`)}`)
+    }
+  } else if (info.url) {
+    console.log(`  Last error: ${chalk.green('none')}`)
+  }
+
+  console.log()
+}
@@ -9,8 +9,22 @@ import { Command } from 'commander'
 import logger from '@mks2508/better-logger'
 import { handleCreate } from './commands/create.js'
 import { handleDeploy } from './commands/deploy.js'
-import { handleConfig } from './commands/config.js'
+import {
+  handleConfig,
+  applyProfileOption,
+  applyConfigOverrides,
+  ensureConfigLoaded,
+  ensureUnlocked,
+} from './commands/config.js'
 import { handleStatus } from './commands/status.js'
+import { handleDoctor } from './commands/doctor.js'
+import { handleList } from './commands/list.js'
+import { handleDestroy } from './commands/destroy.js'
+import { handleResume } from './commands/resume.js'
+import { handleApply } from './commands/apply.js'
+import { handleWebhook } from './commands/webhook.js'
+import { handleTemplate } from './commands/template.js'
+import { setOutputMode } from './output.js'
 
 logger.preset('cyberpunk')
 
@@ -20,35 +34,132 @@ program
   .name('mks-bot-father')
   .description('Complete pipeline for Telegram bot automation: BotFather + GitHub + Coolify')
   .version('0.1.0')
+  .option('--profile <name>', 'Configuration profile to use (default: MBF_PROFILE or the saved profile)')
+  .option(
+    '-c, --config <key=value>',
+    'Override a configuration value for this run (repeatable)',
+    (value: string, previous: string[]) => [...previous, value],
+    [] as string[]
+  )
+  .option('--json', 'Print one JSON document instead of text (see README for the format)', false)
+  .option('-q, --quiet', 'Only print errors and requested values', false)
+  .hook('preAction', async (command, actionCommand) => {
+    const globalOptions = command.opts<{ profile?: string; config: string[]; json: boolean; quiet: boolean }>()
+    // config, webhook and template take their action as the first argument
+    const commandName = ['config', 'webhook', 'template'].includes(actionCommand.name())
+      ? `${actionCommand.name()} ${actionCommand.args[0]}`
+      : actionCommand.name()
+    setOutputMode(globalOptions, commandName)
+    ensureConfigLoaded()
+    applyProfileOption(globalOptions.profile, actionCommand.name())
+    applyConfigOverrides(globalOptions.config)
+    // config decides per action whether it needs the secrets; templates need none
+    if (!['config', 'template'].includes(actionCommand.name())) {
+      await ensureUnlocked()
+    }
+  })
 
 program
   .command('create')
   .description('Create a new Telegram bot with full pipeline')
-  .argument('<name>', 'Bot name')
+  .argument('[name]', 'Bot name (omit with --batch)')
   .option('-d, --description <text>', 'Bot description')
-  .option('--github', 'Create GitHub repository', false)
-  .option('--github-org <org>', 'GitHub organization (default: authenticated user)')
-  .option('--deploy', 'Deploy to Coolify', false)
+  .option('--github', 'Create a repository on the git host (GitHub by default)', false)
+  .option('--github-org <org>', 'Repository owner: organization or group (default: authenticated user)')
+  .option('--git-host <host>', 'Git host: github, gitlab or gitea (default: git.host or github)')
+  .option('--deploy', 'Deploy the bot (to Coolify by default)', false)
+  .option('--deploy-target <target>', 'Deploy target: coolify or docker-compose (default: deploy.target or coolify)')
   .option('--coolify-server <uuid>', 'Coolify server UUID')
   .option('--coolify-dest <uuid>', 'Coolify destination UUID')
   .option('--skip-botfather', 'Skip BotFather automation', false)
   .option('--full', 'Full pipeline: BotFather + GitHub + Coolify', false)
+  .option('--rollback', 'Undo created assets if the pipeline fails', false)
+  .option('--wait', 'Wait for the Coolify build to finish', false)
+  .option('--skip-webhook', 'Do not register the Telegram webhook after deploying', false)
+  .option('--harden', 'Apply the github.* repository settings after creating the repo (default: github.hardenRepo)')
+  .option('--no-harden', 'Do not apply the github.* repository settings')
+  .option('--skip-ci', 'Do not commit the generated CI workflow', false)
+  .option('--dry-run', 'Validate preconditions and print the plan without creating anything', false)
+  .option('--batch <file>', 'Create every bot listed in a CSV or JSON file')
+  .option('--concurrency <n>', 'Bots created at once with --batch', '3')
+  .option('--report <file>', 'Write the --batch report as JSON')
+  .option('-t, --template <name>', 'Template: telegram-bot (default), monorepo, fumadocs or one added with mbf template add')
+  .option(
+    '--var <key=value>',
+    'Value of a template variable (repeatable)',
+    (value: string, previous: string[]) => [...previous, value],
+    [] as string[]
+  )
   .action(handleCreate)
 
+program
+  .command('resume')
+  .description('Resume a failed pipeline run from its first incomplete step')
+  .argument('[runId]', 'Run ID printed by a failed create (omit to list resumable runs)')
+  .action(handleResume)
+
+program
+  .command('apply')
+  .description('Converge a bot to its manifest (mbf.bot.json / mbf.bot.yaml)')
+  .argument('[file]', 'Manifest file (default: mbf.bot.json, mbf.bot.yaml or mbf.bot.yml in cwd)')
+  .option('--dry-run', 'Show the changes without applying them', false)
+  .action(handleApply)
+
 program
   .command('deploy')
-  .description('Deploy an existing bot to Coolify')
+  .description('Deploy an existing bot to Coolify or Docker Compose')
   .argument('<name>', 'Bot/application name or UUID')
+  .option('--target <target>', 'Deploy target: coolify or docker-compose (default: deploy.target or coolify)')
   .option('-f, --force', 'Force rebuild without cache', false)
   .option('-t, --tag <tag>', 'Deploy by tag instead of UUID')
+  .option('--wait', 'Wait for the build to finish and fail if it fails', false)
+  .option('--follow', 'Stream the build log while waiting (implies --wait)', false)
+  .option('--timeout <seconds>', 'Maximum time to wait for the build', '600')
   .action(handleDeploy)
 
+program
+  .command('destroy')
+  .description('Tear a bot down: deployed app, repository, BotFather bot, .envs entry and workspace')
+  .argument('<name>', 'Bot name')
+  .option('--keep-repo', 'Leave the repository untouched', false)
+  .option('--archive-repo', 'Archive the repository instead of deleting it', false)
+  .option('--github-org <org>', 'Owner of the repository (default: github.defaultOrg, git.defaultOwner or your user)')
+  .option('--git-host <host>', 'Git host of the repository: github, gitlab or gitea (default: git.host or github)')
+  .option('--deploy-target <target>', 'Deploy target of the bot: coolify or docker-compose (default: deploy.target or coolify)')
+  .option('--app <id>', 'Coolify application UUID or compose project (default: the application named after the bot)')
+  .option('--username <username>', 'Bot username (default: derived from the name)')
+  .option('--path <dir>', 'Directory holding the workspace (default: current directory)')
+  .option('-y, --yes', 'Do not ask for confirmation', false)
+  .action(handleDestroy)
+
+program
+  .command('webhook')
+  .description('Manage the Telegram webhook of a bot')
+  .argument('<action>', 'Action: set, info, delete')
+  .argument('<bot>', 'Bot username')
+  .option('--url <url>', 'Webhook URL for set (default: the URL stored for the environment)')
+  .option('--secret <token>', 'Secret token for set (default: generated)')
+  .option('--drop-pending', 'Drop pending updates on set or delete', false)
+  .option('--env <environment>', 'Environment whose token is used: local, staging, production', 'local')
+  .action(handleWebhook)
+
+program
+  .command('template')
+  .description('Manage custom project templates')
+  .argument('<action>', 'Action: add, list, remove')
+  .argument('[target]', 'Source for add (directory, git URL with optional #ref, or tarball), name for remove')
+  .option('--name <name>', 'With add: register under this name instead of the template.json name')
+  .option('--ref <ref>', 'With add: git branch or tag')
+  .action(handleTemplate)
+
 program
   .command('config')
   .description('Manage configuration')
-  .argument('<action>', 'Action: get, set, list, path')
-  .argument('[key]', 'Configuration key (e.g., github.token, coolify.url)')
-  .argument('[value]', 'Value to set')
+  .argument('<action>', 'Action: get, set, list, path, profile, lock, unlock, rekey')
+  .argument('[key]', 'Configuration key (e.g., github.token, coolify.url) or profile action (create, use, list, delete)')
+  .argument('[value]', 'Value to set or profile name')
+  .option('--key-file <path>', 'Key file for lock and rekey instead of a passphrase (generated if missing)')
+  .option('--show-origin', 'With list: show the layer each value comes from', false)
   .action(handleConfig)
 
 program
@@ -56,4 +167,19 @@ program
   .description('Show configuration status')
   .action(handleStatus)
 
-program.parse()
+program
+  .command('doctor')
+  .description('Diagnose tools, credentials, Coolify defaults, .envs and disk space')
+  .option('--path <dir>', 'Workspace directory to check for free disk space (default: current directory)')
+  .option('--skip-telegram', 'Do not connect to Telegram to check the session', false)
+  .action(handleDoctor)
+
+program
+  .command('list')
+  .description('List bots across BotFather, .envs, GitHub and Coolify and flag drift')
+  .option('--owner <owner>', 'GitHub owner to list repositories of (default: github.defaultOrg or your user)')
+  .option('--skip-botfather', 'Do not query BotFather (slow with many bots)', false)
+  .option('--drift', 'Only show bots with drift', false)
+  .action(handleList)
+
+await program.parseAsync()
@@ -0,0 +1,161 @@
+/**
+ * Output modes shared by the CLI commands.
+ *
+ * By default commands print decorated text. With the global `--json` flag
+ * every command prints exactly one {@link ICliJsonOutput} document on
+ * stdout; with `--quiet` only errors (on stderr) and the values a command
+ * was asked for (`config get`, `config path`) are printed. Both silence the
+ * service loggers and spinners.
+ *
+ * @module
+ */
+
+import ora, { type Ora } from 'ora'
+import chalk from 'chalk'
+import { logger } from '../utils/index.js'
+import { AppErrorCode, getExitCode } from '../types/errors.js'
+
+/**
+ * JSON document printed by every command with `--json`.
+ */
+export interface ICliJsonOutput<T = unknown> {
+  /** Whether the command succeeded (exit code 0) */
+  ok: boolean
+  /** Command that ran, with its action for `config` and `webhook` (e.g. `config get`) */
+  command: string
+  /** Command result; also set when the command ran but reported failures */
+  data?: T
+  /** Why the command failed */
+  error?: {
+    code: string
+    message: string
+  }
+}
+
+/**
+ * Error reported by {@link exitWithError}.
+ */
+interface ICliError {
+  /** Error code (defaults to `UNKNOWN_ERROR`) */
+  code?: string
+  message: string
+}
+
+const mode = {
+  json: false,
+  quiet: false,
+  command: '',
+}
+
+/**
+ * Sets the output mode for the command about to run.
+ *
+ * @param options - Global `--json` and `--quiet` flags
+ * @param command - Command name reported in JSON documents
+ */
+export function setOutputMode(options: { json?: boolean; quiet?: boolean }, command: string): void {
+  mode.json = options.json ?? false
+  mode.quiet = options.quiet ?? false
+  mode.command = command
+
+  if (mode.json || mode.quiet) {
+    logger.setVerbosity('silent')
+  }
+}
+
+/**
+ * Checks whether the command must print a JSON document.
+ *
+ * @returns True with `--json`
+ */
+export function isJsonOutput(): boolean {
+  return mode.json
+}
+
+/**
+ * Checks whether decorative output is suppressed.
+ *
+ * @returns True with `--quiet` or `--json`
+ */
+export function isQuietOutput(): boolean {
+  return mode.quiet || mode.json
+}
+
+/**
+ * Prints a line of human-readable output, unless quiet.
+ *
+ * @param args - Values passed to `console.log`
+ */
+export function print(...args: unknown[]): void {
+  if (!isQuietOutput()) {
+    console.log(...args)
+  }
+}
+
+/**
+ * Starts a spinner that stays silent when quiet.
+ *
+ * @param text - Spinner text
+ * @returns Started spinner
+ */
+export function startSpinner(text: string): Ora {
+  return ora({ text, isSilent: isQuietOutput() }).start()
+}
+
+/**
+ * Prints the JSON document of a command.
+ *
+ * Does nothing outside `--json`.
+ *
+ * @param data - Command result
+ * @param ok - Whether the command succeeded
+ */
+export function printJson(data: unknown, ok = true): void {
+  if (!mode.json) {
+    return
+  }
+
+  const output: ICliJsonOutput = { ok, command: mode.command, data }
+  console.log(JSON.stringify(output, null, 2))
+}
+
+/**
+ * Reports an error and exits with the code mapped from its error code.
+ *
+ * With `--json` the error is printed as a JSON document on stdout,
+ * otherwise as text on stderr followed by the hint (unless quiet).
+ *
+ * @param error - Error to report
+ * @param hint - How to fix it
+ * @param data - Partial result to include in the JSON document
+ */
+export function exitWithError(error: ICliError, hint?: string, data?: unknown): never {
+  const code = error.code ?? AppErrorCode.UNKNOWN_ERROR
+
+  if (mode.json) {
+    const output: ICliJsonOutput = {
+      ok: false,
+      command: mode.command,
+      ...(data === undefined ? {} : { data }),
+      error: { code, message: error.message },
+    }
+    console.log(JSON.stringify(output, null, 2))
+  } else {
+    console.error(chalk.red(error.message))
+    if (hint && !mode.quiet) {
+      console.error(chalk.gray(hint))
+    }
+  }
+
+  process.exit(getExitCode(code))
+}
+
+/**
+ * Gets the message of a thrown value.
+ *
+ * @param error - Thrown value
+ * @returns Error message
+ */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
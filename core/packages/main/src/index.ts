@@ -66,13 +66,52 @@ export {
   getConfigService,
   CONFIG_DIR,
   CONFIG_FILE,
+  DEFAULT_PROFILE,
+  SECRET_CONFIG_KEYS,
+  PROJECT_CONFIG_FILE,
+  CONFIG_DEFAULTS,
+  configEnvVarName,
 } from './services/config.service.js'
 
+export {
+  CONFIG_VERSION,
+  CONFIG_MIGRATIONS,
+  migrateConfig,
+} from './services/config-migrations.js'
+
 export {
   GitHubService,
   getGitHubService,
 } from './services/github.service.js'
 
+export { GITHUB_CACHE_FILE } from './services/github-cache.js'
+
+export { GitHubAppAuth, createAppJwt } from './services/github-app.js'
+
+export {
+  GitLabService,
+  getGitLabService,
+} from './services/gitlab.service.js'
+
+export {
+  GiteaService,
+  getGiteaService,
+} from './services/gitea.service.js'
+
+export {
+  GIT_HOST_LABELS,
+  getGitHostProvider,
+  getGitHostDefaults,
+  resolveGitHost,
+  isGitHost,
+} from './services/git-host.js'
+
+export {
+  GitService,
+  getGitService,
+  DEFAULT_COMMIT_MESSAGE,
+} from './services/git.service.js'
+
 export {
   CoolifyService,
   getCoolifyService,
@@ -80,17 +119,105 @@ export {
   type ICoolifyDestination,
 } from './services/coolify.service.js'
 
+export {
+  CoolifyDeployTarget,
+  getCoolifyDeployTarget,
+} from './services/coolify-deploy-target.js'
+
+export {
+  DockerComposeService,
+  getDockerComposeService,
+  buildComposeFile,
+  composeProjectName,
+  DEFAULT_COMPOSE_DIR,
+} from './services/docker-compose.service.js'
+
+export {
+  DEPLOY_TARGET_LABELS,
+  getDeployTarget,
+  resolveDeployTarget,
+  isDeployTarget,
+} from './services/deploy-target.js'
+
 export {
   BotFatherService,
   getBotFatherService,
   type IBotCreateOptions,
   type IBotCreateResult,
+  type IBotEnv,
 } from './services/botfather.service.js'
 
+export {
+  CheckpointService,
+  getCheckpointService,
+  RUNS_DIR,
+  redactSecrets,
+} from './services/checkpoint.service.js'
+
+export {
+  TelegramBotApiService,
+  getTelegramBotApiService,
+  generateWebhookSecret,
+} from './services/telegram-bot-api.service.js'
+
+export {
+  ManifestService,
+  getManifestService,
+  MANIFEST_FILES,
+  APPLIED_DIR,
+} from './services/manifest.service.js'
+
+export {
+  BatchFileService,
+  getBatchFileService,
+} from './services/batch-file.service.js'
+
+export {
+  DoctorService,
+  getDoctorService,
+} from './services/doctor.service.js'
+
+export {
+  InventoryService,
+  getInventoryService,
+} from './services/inventory.service.js'
+
+export {
+  TemplateService,
+  getTemplateService,
+  TEMPLATES_DIR,
+  TEMPLATE_MANIFEST_FILE,
+  BUILTIN_TEMPLATE_VARIABLES,
+} from './services/template.service.js'
+
 // ─────────────────────────────────────────────────────────────
 // Pipeline
 // ─────────────────────────────────────────────────────────────
-export { Pipeline, getPipeline } from './pipeline/index.js'
+export {
+  Pipeline,
+  getPipeline,
+  PipelineStepRegistry,
+  BotFatherStep,
+  ScaffoldStep,
+  GitHubStep,
+  GitHubSettingsStep,
+  CoolifyStep,
+  WebhookStep,
+  CiWorkflowStep,
+  createDefaultStepRegistry,
+  resolveGitHubHardening,
+  buildCiWorkflow,
+  ManifestApplier,
+  getManifestApplier,
+  describeChange,
+  type IManifestApplyOptions,
+  createLock,
+  mapWithConcurrency,
+  parseFloodWait,
+  serializeStep,
+  type ILock,
+  type ISerializeStepOptions,
+} from './pipeline/index.js'
 
 // ─────────────────────────────────────────────────────────────
 // Utils (re-export)
@@ -108,7 +235,7 @@ export {
 // ─────────────────────────────────────────────────────────────
 // Error utilities (explicit exports for external consumers)
 // ─────────────────────────────────────────────────────────────
-export { AppErrorCode, createAppError } from './types/errors.js'
+export { AppErrorCode, AppErrorExitCode, createAppError, getExitCode } from './types/errors.js'
 
 // ─────────────────────────────────────────────────────────────
 // External API: createWorkspace
@@ -0,0 +1,490 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { isOk, isErr, ok, err } from '@mks2508/no-throw'
+import { AppErrorCode } from '../../types/errors.js'
+import type { IBotManifest } from '../../types/index.js'
+
+const mockConfigGet = vi.fn()
+const mockBotFatherInit = vi.fn()
+const mockBotFatherDisconnect = vi.fn()
+const mockBotFatherListBots = vi.fn()
+const mockBotFatherGetBotInfo = vi.fn()
+const mockBotFatherGetBotEnv = vi.fn()
+const mockBotFatherGetAllBotsWithTokens = vi.fn()
+const mockBotFatherCreateBot = vi.fn()
+const mockBotFatherSetName = vi.fn()
+const mockBotFatherSetDescription = vi.fn()
+const mockBotFatherSetAboutText = vi.fn()
+const mockBotFatherSetCommands = vi.fn()
+const mockBotFatherSaveBotEnv = vi.fn()
+const mockGetMyCommands = vi.fn()
+const mockGitHubInit = vi.fn()
+const mockGitHubGetAuthenticatedUser = vi.fn()
+const mockGitHubGetRepo = vi.fn()
+const mockGitHubUpdateRepo = vi.fn()
+const mockCoolifyInit = vi.fn()
+const mockCoolifyListApplications = vi.fn()
+const mockCoolifySetEnvVars = vi.fn()
+const mockCoolifyRestart = vi.fn()
+const mockScaffoldRun = vi.fn()
+const mockGitHubStepRun = vi.fn()
+const mockCoolifyStepRun = vi.fn()
+const mockExistsSync = vi.fn()
+const appliedHashes = new Map<string, string>()
+
+vi.mock('node:fs', () => ({
+  existsSync: (path: string) => mockExistsSync(path),
+  appendFileSync: vi.fn(),
+  mkdirSync: vi.fn(),
+  writeFileSync: vi.fn(),
+}))
+
+vi.mock('../../services/config.service.js', () => ({
+  getConfigService: () => ({
+    get: mockConfigGet,
+  }),
+}))
+
+vi.mock('../../services/botfather.service.js', () => ({
+  getBotFatherService: () => ({
+    init: mockBotFatherInit,
+    disconnect: mockBotFatherDisconnect,
+    listBots: mockBotFatherListBots,
+    getBotInfo: mockBotFatherGetBotInfo,
+    getBotEnv: mockBotFatherGetBotEnv,
+    getAllBotsWithTokens: mockBotFatherGetAllBotsWithTokens,
+    createBot: mockBotFatherCreateBot,
+    setName: mockBotFatherSetName,
+    setDescription: mockBotFatherSetDescription,
+    setAboutText: mockBotFatherSetAboutText,
+    setCommands: mockBotFatherSetCommands,
+    saveBotEnv: mockBotFatherSaveBotEnv,
+    generateBotUsername: (name: string) => `${name.replace(/-/g, '_')}_bot`,
+  }),
+}))
+
+vi.mock('../../services/telegram-bot-api.service.js', () => ({
+  getTelegramBotApiService: () => ({
+    getMyCommands: mockGetMyCommands,
+  }),
+}))
+
+vi.mock('../../services/github.service.js', () => ({
+  getGitHubService: () => ({
+    init: mockGitHubInit,
+    getAuthenticatedUser: mockGitHubGetAuthenticatedUser,
+    getRepo: mockGitHubGetRepo,
+    updateRepo: mockGitHubUpdateRepo,
+  }),
+}))
+
+vi.mock('../../services/coolify.service.js', () => ({
+  getCoolifyService: () => ({
+    init: mockCoolifyInit,
+    listApplications: mockCoolifyListApplications,
+    setEnvironmentVariables: mockCoolifySetEnvVars,
+    restartApplication: mockCoolifyRestart,
+  }),
+}))
+
+vi.mock('../../services/manifest.service.js', () => ({
+  getManifestService: () => ({
+    toPipelineOptions: (manifest: IBotManifest) => ({ botName: manifest.name }),
+    hashEnv: (envVars: Record<string, string>) => JSON.stringify(Object.entries(envVars).sort()),
+    getAppliedEnvHash: (botUsername: string) => appliedHashes.get(botUsername),
+    saveAppliedEnvHash: (botUsername: string, hash: string) => {
+      appliedHashes.set(botUsername, hash)
+      return ok(undefined)
+    },
+  }),
+}))
+
+vi.mock('../../services/template.service.js', () => ({
+  getTemplateService: vi.fn(),
+}))
+
+vi.mock('../../services/docker-compose.service.js', () => ({
+  getDockerComposeService: vi.fn(),
+}))
+
+vi.mock('../steps/index.js', async () => {
+  const actual = await vi.importActual<typeof import('../steps/index.js')>('../steps/index.js')
+  return {
+    buildCoolifyEnvVars: actual.buildCoolifyEnvVars,
+    ScaffoldStep: class {
+      name = 'scaffold'
+      run = mockScaffoldRun
+    },
+    GitHubStep: class {
+      name = 'github'
+      run = mockGitHubStepRun
+    },
+    CoolifyStep: class {
+      name = 'coolify'
+      run = mockCoolifyStepRun
+    },
+  }
+})
+
+describe('ManifestApplier', () => {
+  let ManifestApplier: typeof import('../apply.js').ManifestApplier
+
+  const manifest: IBotManifest = {
+    name: 'my-bot',
+    description: 'My bot',
+    commands: [{ command: 'start', description: 'Start the bot' }],
+    github: { visibility: 'private' },
+    coolify: {},
+    env: { LOG_LEVEL: 'info' },
+  }
+
+  /** Real state matching `manifest` exactly */
+  const stubConvergedState = () => {
+    mockBotFatherListBots.mockResolvedValue(ok(['my_bot_bot']))
+    mockBotFatherGetBotInfo.mockResolvedValue(
+      ok({ username: 'my_bot_bot', name: 'my-bot', description: 'My bot' })
+    )
+    mockBotFatherGetBotEnv.mockResolvedValue(ok({ botToken: 'token-123' }))
+    mockGetMyCommands.mockResolvedValue(ok([{ command: 'start', description: 'Start the bot' }]))
+    mockGitHubGetRepo.mockResolvedValue(
+      ok({
+        name: 'my-bot',
+        owner: 'test-org',
+        description: 'My bot',
+        private: true,
+        repoUrl: 'https://github.com/test-org/my-bot',
+        cloneUrl: 'https://github.com/test-org/my-bot.git',
+      })
+    )
+    mockCoolifyListApplications.mockResolvedValue(ok([{ uuid: 'app-uuid', name: 'my-bot' }]))
+    appliedHashes.set(
+      'my_bot_bot',
+      JSON.stringify(
+        Object.entries({
+          TG_BOT_TOKEN: 'token-123',
+          TG_MODE: 'webhook',
+          TG_ENV: 'production',
+          LOG_LEVEL: 'info',
+        }).sort()
+      )
+    )
+  }
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    appliedHashes.clear()
+
+    mockConfigGet.mockReturnValue({ github: { defaultOrg: 'test-org' } })
+    mockExistsSync.mockReturnValue(false)
+    mockBotFatherInit.mockResolvedValue(ok(undefined))
+    mockBotFatherDisconnect.mockResolvedValue(ok(undefined))
+    mockGitHubInit.mockResolvedValue(ok(undefined))
+    mockCoolifyInit.mockResolvedValue(ok(undefined))
+    for (const mock of [
+      mockBotFatherSetName,
+      mockBotFatherSetDescription,
+      mockBotFatherSetAboutText,
+      mockBotFatherSetCommands,
+      mockBotFatherSaveBotEnv,
+      mockGitHubUpdateRepo,
+      mockCoolifySetEnvVars,
+    ]) {
+      mock.mockResolvedValue(ok(undefined))
+    }
+    mockCoolifyRestart.mockResolvedValue(ok({}))
+
+    vi.resetModules()
+    const module = await import('../apply.js')
+    ManifestApplier = module.ManifestApplier
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('diff()', () => {
+    it('should report no changes when the state matches the manifest', async () => {
+      stubConvergedState()
+
+      const result = await new ManifestApplier().diff(manifest)
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.changes).toEqual([])
+        expect(result.value.hasChanges).toBe(false)
+        expect(result.value.state).toMatchObject({
+          botUsername: 'my_bot_bot',
+          botExists: true,
+          githubRepoUrl: 'https://github.com/test-org/my-bot',
+          coolifyAppUuid: 'app-uuid',
+        })
+      }
+    })
+
+    it('should plan creation of every missing resource', async () => {
+      mockBotFatherListBots.mockResolvedValue(ok([]))
+      mockGitHubGetRepo.mockResolvedValue(ok(undefined))
+      mockCoolifyListApplications.mockResolvedValue(ok([]))
+
+      const result = await new ManifestApplier().diff(manifest)
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.changes.map((c) => `${c.action} ${c.resource}.${c.field}`)).toEqual([
+          'create botfather.bot',
+          'create botfather.commands',
+          'create github.repo',
+          'create coolify.app',
+        ])
+      }
+      expect(mockBotFatherGetBotInfo).not.toHaveBeenCalled()
+    })
+
+    it('should detect drifted fields', async () => {
+      stubConvergedState()
+      mockBotFatherGetBotInfo.mockResolvedValue(
+        ok({ username: 'my_bot_bot', name: 'my-bot', description: 'Old' })
+      )
+      mockGetMyCommands.mockResolvedValue(ok([]))
+      mockGitHubGetRepo.mockResolvedValue(
+        ok({
+          name: 'my-bot',
+          owner: 'test-org',
+          description: 'My bot',
+          private: false,
+          repoUrl: 'https://github.com/test-org/my-bot',
+          cloneUrl: 'https://github.com/test-org/my-bot.git',
+        })
+      )
+      appliedHashes.clear()
+
+      const result = await new ManifestApplier().diff(manifest)
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.changes).toEqual([
+          {
+            resource: 'botfather',
+            field: 'description',
+            action: 'update',
+            from: 'Old',
+            to: 'My bot',
+          },
+          {
+            resource: 'botfather',
+            field: 'commands',
+            action: 'update',
+            from: [],
+            to: manifest.commands,
+          },
+          {
+            resource: 'github',
+            field: 'visibility',
+            action: 'update',
+            from: 'public',
+            to: 'private',
+          },
+          {
+            resource: 'coolify',
+            field: 'env',
+            action: 'update',
+            to: ['TG_BOT_TOKEN', 'TG_MODE', 'TG_ENV', 'LOG_LEVEL'],
+          },
+        ])
+      }
+    })
+
+    it('should recover a missing .envs token from BotFather', async () => {
+      stubConvergedState()
+      mockBotFatherGetBotEnv.mockResolvedValue(ok(undefined))
+      mockBotFatherGetAllBotsWithTokens.mockResolvedValue(
+        ok([{ username: '@my_bot_bot', token: 'token-123' }])
+      )
+
+      const result = await new ManifestApplier().diff(manifest)
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.changes).toEqual([
+          { resource: 'env', field: 'token', action: 'create' },
+        ])
+        expect(result.value.state.botToken).toBe('token-123')
+      }
+    })
+
+    it('should only diff the declared resources', async () => {
+      stubConvergedState()
+
+      const result = await new ManifestApplier().diff({ name: 'my-bot' })
+
+      expect(isOk(result)).toBe(true)
+      expect(mockGitHubInit).not.toHaveBeenCalled()
+      expect(mockCoolifyInit).not.toHaveBeenCalled()
+      expect(mockGetMyCommands).not.toHaveBeenCalled()
+    })
+
+    it('should return error when the state cannot be read', async () => {
+      mockBotFatherInit.mockResolvedValue(
+        err({ code: AppErrorCode.BOTFATHER_ERROR, message: 'Telegram API credentials not configured' })
+      )
+
+      const result = await new ManifestApplier().diff(manifest)
+
+      expect(isErr(result)).toBe(true)
+    })
+  })
+
+  describe('apply()', () => {
+    it('should do nothing when already converged', async () => {
+      stubConvergedState()
+
+      const result = await new ManifestApplier().apply(manifest)
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(true)
+        expect(result.value.applied).toEqual([])
+      }
+      expect(mockBotFatherSetDescription).not.toHaveBeenCalled()
+      expect(mockCoolifySetEnvVars).not.toHaveBeenCalled()
+    })
+
+    it('should create missing resources with the pipeline steps', async () => {
+      mockBotFatherListBots.mockResolvedValue(ok([]))
+      mockGitHubGetRepo.mockResolvedValue(ok(undefined))
+      mockCoolifyListApplications.mockResolvedValue(ok([]))
+      mockBotFatherCreateBot.mockResolvedValue(
+        ok({ botToken: 'new-token', botUsername: 'my_bot_bot' })
+      )
+      mockScaffoldRun.mockResolvedValue(ok({ projectPath: '/tmp/my-bot' }))
+      mockGitHubStepRun.mockResolvedValue(
+        ok({ githubRepoUrl: 'https://github.com/test-org/my-bot' })
+      )
+      mockCoolifyStepRun.mockResolvedValue(ok({ coolifyAppUuid: 'new-app' }))
+
+      const result = await new ManifestApplier().apply(manifest)
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(true)
+        expect(result.value.applied).toHaveLength(4)
+        expect(result.value.githubRepoUrl).toBe('https://github.com/test-org/my-bot')
+        expect(result.value.coolifyAppUuid).toBe('new-app')
+      }
+      expect(mockBotFatherCreateBot).toHaveBeenCalledWith(
+        expect.objectContaining({ botName: 'my-bot', botUsername: 'my_bot_bot', description: 'My bot' }),
+        expect.any(Function)
+      )
+      expect(mockBotFatherSetCommands).toHaveBeenCalledWith('my_bot_bot', manifest.commands)
+      expect(mockGitHubStepRun.mock.calls[0][0].outputs.projectPath).toBe('/tmp/my-bot')
+      expect(mockCoolifyStepRun.mock.calls[0][0].outputs).toMatchObject({
+        botToken: 'new-token',
+        githubRepoUrl: 'https://github.com/test-org/my-bot',
+      })
+      expect(appliedHashes.get('my_bot_bot')).toContain('new-token')
+    })
+
+    it('should push an existing project instead of scaffolding', async () => {
+      stubConvergedState()
+      mockGitHubGetRepo.mockResolvedValue(ok(undefined))
+      mockExistsSync.mockReturnValue(true)
+      mockGitHubStepRun.mockResolvedValue(
+        ok({ githubRepoUrl: 'https://github.com/test-org/my-bot' })
+      )
+
+      const result = await new ManifestApplier().apply({ name: 'my-bot', github: {} })
+
+      expect(isOk(result)).toBe(true)
+      expect(mockScaffoldRun).not.toHaveBeenCalled()
+      expect(mockGitHubStepRun.mock.calls[0][0].outputs.projectPath).toContain('my-bot')
+    })
+
+    it('should update drifted fields in place', async () => {
+      stubConvergedState()
+      mockBotFatherGetBotInfo.mockResolvedValue(
+        ok({ username: 'my_bot_bot', name: 'my-bot', description: 'Old' })
+      )
+      mockGitHubGetRepo.mockResolvedValue(
+        ok({
+          name: 'my-bot',
+          owner: 'test-org',
+          description: 'My bot',
+          private: false,
+          repoUrl: 'https://github.com/test-org/my-bot',
+          cloneUrl: 'https://github.com/test-org/my-bot.git',
+        })
+      )
+      appliedHashes.clear()
+
+      const result = await new ManifestApplier().apply(manifest)
+
+      expect(isOk(result)).toBe(true)
+      expect(mockBotFatherSetDescription).toHaveBeenCalledWith('my_bot_bot', 'My bot')
+      expect(mockGitHubUpdateRepo).toHaveBeenCalledWith('test-org', 'my-bot', { private: true })
+      expect(mockCoolifySetEnvVars).toHaveBeenCalledWith('app-uuid', {
+        TG_BOT_TOKEN: 'token-123',
+        TG_MODE: 'webhook',
+        TG_ENV: 'production',
+        LOG_LEVEL: 'info',
+      })
+      expect(mockCoolifyRestart).toHaveBeenCalledWith('app-uuid')
+
+      // Once the remote state reflects the updates, nothing is left to do
+      mockBotFatherGetBotInfo.mockResolvedValue(
+        ok({ username: 'my_bot_bot', name: 'my-bot', description: 'My bot' })
+      )
+      mockGitHubGetRepo.mockResolvedValue(
+        ok({
+          name: 'my-bot',
+          owner: 'test-org',
+          description: 'My bot',
+          private: true,
+          repoUrl: 'https://github.com/test-org/my-bot',
+          cloneUrl: 'https://github.com/test-org/my-bot.git',
+        })
+      )
+      const second = await new ManifestApplier().diff(manifest)
+      expect(isOk(second)).toBe(true)
+      if (isOk(second)) {
+        expect(second.value.changes).toEqual([])
+      }
+    })
+
+    it('should stop at the first failing change', async () => {
+      mockBotFatherListBots.mockResolvedValue(ok([]))
+      mockGitHubGetRepo.mockResolvedValue(ok(undefined))
+      mockCoolifyListApplications.mockResolvedValue(ok([]))
+      mockBotFatherCreateBot.mockResolvedValue(
+        ok({ botToken: 'new-token', botUsername: 'my_bot_bot' })
+      )
+      mockScaffoldRun.mockResolvedValue(ok({ projectPath: '/tmp/my-bot' }))
+      mockGitHubStepRun.mockResolvedValue(
+        err({ code: AppErrorCode.GITHUB_ERROR, message: 'Repository creation failed' })
+      )
+
+      const result = await new ManifestApplier().apply(manifest)
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(false)
+        expect(result.value.errors).toEqual(['Repository creation failed'])
+        expect(result.value.applied.map((c) => c.field)).toEqual(['bot', 'commands'])
+      }
+      expect(mockCoolifyStepRun).not.toHaveBeenCalled()
+      expect(mockBotFatherDisconnect).toHaveBeenCalled()
+    })
+
+    it('should report progress across changes', async () => {
+      stubConvergedState()
+      mockBotFatherGetBotInfo.mockResolvedValue(
+        ok({ username: 'my_bot_bot', name: 'old-name', description: 'Old' })
+      )
+      const onProgress = vi.fn()
+
+      await new ManifestApplier().apply(manifest, { onProgress })
+
+      expect(onProgress).toHaveBeenCalledWith(0, 'Update botfather name', 'botfather_name')
+      expect(onProgress).toHaveBeenCalledWith(50, 'Update botfather description', 'botfather_description')
+      expect(onProgress).toHaveBeenLastCalledWith(100, 'Manifest applied', 'done')
+    })
+  })
+})
@@ -0,0 +1,156 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { ok, err, isOk, isErr } from '@mks2508/no-throw'
+import { createLock, mapWithConcurrency, parseFloodWait, serializeStep } from '../batch.js'
+import type { IPipelineContext, IPipelineStep } from '../../types/index.js'
+
+const createContext = (): IPipelineContext => ({
+  runId: 'run-test-1',
+  options: { botName: 'test-bot' },
+  outputs: {},
+  progress: vi.fn(),
+})
+
+describe('batch helpers', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('parseFloodWait()', () => {
+    it('should read the wait time from MTProto errors', () => {
+      expect(parseFloodWait('FLOOD_WAIT_42')).toBe(42)
+      expect(parseFloodWait('A wait of 30 seconds is required')).toBe(30)
+    })
+
+    it('should read the wait time from BotFather replies', () => {
+      expect(parseFloodWait('Sorry, too many attempts. Please try again in 8 seconds.')).toBe(8)
+    })
+
+    it('should return 0 for flood errors without a duration', () => {
+      expect(parseFloodWait('Too many requests')).toBe(0)
+    })
+
+    it('should return undefined for other errors', () => {
+      expect(parseFloodWait('Username taken')).toBeUndefined()
+    })
+  })
+
+  describe('createLock()', () => {
+    it('should run callers one at a time, in call order', async () => {
+      const lock = createLock()
+      const events: string[] = []
+      const task = (name: string, ms: number) =>
+        lock.run(async () => {
+          events.push(`${name}:start`)
+          await new Promise((resolve) => setTimeout(resolve, ms))
+          events.push(`${name}:end`)
+        })
+
+      await Promise.all([task('a', 10), task('b', 1)])
+
+      expect(events).toEqual(['a:start', 'a:end', 'b:start', 'b:end'])
+    })
+
+    it('should release the lock when a caller rejects', async () => {
+      const lock = createLock()
+
+      await expect(lock.run(async () => Promise.reject(new Error('boom')))).rejects.toThrow('boom')
+      await expect(lock.run(async () => 'next')).resolves.toBe('next')
+    })
+  })
+
+  describe('mapWithConcurrency()', () => {
+    it('should limit workers in flight and keep input order', async () => {
+      let active = 0
+      let maxActive = 0
+
+      const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms) => {
+        active++
+        maxActive = Math.max(maxActive, active)
+        await new Promise((resolve) => setTimeout(resolve, ms))
+        active--
+        return ms * 2
+      })
+
+      expect(maxActive).toBe(2)
+      expect(results).toEqual([60, 20, 40, 10, 30])
+    })
+  })
+
+  describe('serializeStep()', () => {
+    it('should keep the step name and dependencies', () => {
+      const step: IPipelineStep = {
+        name: 'botfather',
+        description: 'Create bot',
+        dependsOn: ['setup'],
+        weight: 2,
+        run: async () => ok({}),
+      }
+
+      const wrapped = serializeStep(step, {
+        lock: createLock(),
+        floodWaitRetries: 3,
+        floodWaitBaseDelayMs: 1000,
+      })
+
+      expect(wrapped).toMatchObject({
+        name: 'botfather',
+        description: 'Create bot',
+        dependsOn: ['setup'],
+        weight: 2,
+      })
+      expect(wrapped.undo).toBeUndefined()
+    })
+
+    it('should retry after the wait time given by Telegram', async () => {
+      vi.useFakeTimers()
+      const run = vi
+        .fn()
+        .mockResolvedValueOnce(err({ code: 'BOTFATHER_ERROR', message: 'FLOOD_WAIT_10' }))
+        .mockResolvedValueOnce(ok({ botToken: 'token' }))
+      const onFloodWait = vi.fn()
+      const wrapped = serializeStep(
+        { name: 'botfather', run },
+        { lock: createLock(), floodWaitRetries: 3, floodWaitBaseDelayMs: 1000, onFloodWait }
+      )
+
+      const promise = wrapped.run(createContext())
+      await vi.advanceTimersByTimeAsync(11_000)
+      const result = await promise
+
+      expect(isOk(result)).toBe(true)
+      expect(run).toHaveBeenCalledTimes(2)
+      expect(onFloodWait).toHaveBeenCalledWith(expect.anything(), 11_000, 1)
+    })
+
+    it('should back off exponentially when no wait time is given', async () => {
+      vi.useFakeTimers()
+      const run = vi.fn().mockResolvedValue(err({ code: 'BOTFATHER_ERROR', message: 'Flood' }))
+      const onFloodWait = vi.fn()
+      const wrapped = serializeStep(
+        { name: 'botfather', run },
+        { lock: createLock(), floodWaitRetries: 2, floodWaitBaseDelayMs: 1000, onFloodWait }
+      )
+
+      const promise = wrapped.run(createContext())
+      await vi.advanceTimersByTimeAsync(3000)
+      const result = await promise
+
+      expect(isErr(result)).toBe(true)
+      expect(run).toHaveBeenCalledTimes(3)
+      expect(onFloodWait.mock.calls.map((call) => call[1])).toEqual([1000, 2000])
+    })
+
+    it('should not retry other errors', async () => {
+      const run = vi.fn().mockResolvedValue(err({ code: 'BOTFATHER_ERROR', message: 'Username taken' }))
+      const wrapped = serializeStep(
+        { name: 'botfather', run },
+        { lock: createLock(), floodWaitRetries: 3, floodWaitBaseDelayMs: 1 }
+      )
+
+      const result = await wrapped.run(createContext())
+
+      expect(isErr(result)).toBe(true)
+      expect(run).toHaveBeenCalledTimes(1)
+    })
+  })
+})
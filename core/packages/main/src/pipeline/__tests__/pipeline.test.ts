@@ -3,29 +3,83 @@ import { isOk, isErr, ok, err } from '@mks2508/no-throw'
 import { AppErrorCode } from '../../types/errors.js'
 
 const mockConfigGet = vi.fn()
+const mockGetCoolifyUrl = vi.fn()
+const mockGetCoolifyToken = vi.fn()
 const mockGitHubInit = vi.fn()
 const mockGitHubCreateRepo = vi.fn()
 const mockGitHubPushToRepo = vi.fn()
+const mockGitHubDeleteRepo = vi.fn()
+const mockGitHubGetAuthenticatedUser = vi.fn()
+const mockGitHubRepoExists = vi.fn()
+const mockGitHubUpdateRepo = vi.fn()
+const mockGitHubArchiveRepo = vi.fn()
+const mockGitHubSetActionsSecret = vi.fn()
+const mockGitHubSetTopics = vi.fn()
+const mockGitHubSetBranchProtection = vi.fn()
+const mockGitHubPushChanges = vi.fn()
 const mockCoolifyInit = vi.fn()
 const mockCoolifyCreateApplication = vi.fn()
+const mockCoolifyCreateGitApplication = vi.fn()
 const mockCoolifySetEnvVars = vi.fn()
 const mockCoolifyDeploy = vi.fn()
+const mockCoolifyDeleteApplication = vi.fn()
+const mockCoolifyWaitForDeployment = vi.fn()
+const mockCoolifyGetApplicationUrl = vi.fn()
+const mockCoolifyRestartApplication = vi.fn()
+const mockCoolifyListApplications = vi.fn()
+const mockCoolifyStopApplication = vi.fn()
+const mockSetWebhook = vi.fn()
+const mockGetWebhookInfo = vi.fn()
+const mockDeleteWebhook = vi.fn()
 const mockBotFatherInit = vi.fn()
 const mockBotFatherCreateBot = vi.fn()
 const mockBotFatherDisconnect = vi.fn()
+const mockBotFatherDeleteBot = vi.fn()
+const mockBotFatherRemoveBotEnv = vi.fn()
+const mockBotFatherCheckUsernameAvailable = vi.fn()
+const mockBotFatherListBots = vi.fn()
+const mockBotFatherListBotEnvs = vi.fn()
+const mockGitLabInit = vi.fn()
+const mockGitLabCreateRepo = vi.fn()
+const mockGitLabPushToRepo = vi.fn()
+const mockGitLabDeleteRepo = vi.fn()
+const mockGitLabArchiveRepo = vi.fn()
+const mockGitLabGetAuthenticatedUser = vi.fn()
+const mockGitLabRepoExists = vi.fn()
+const mockComposeInit = vi.fn()
+const mockComposeHasPublicUrl = vi.fn()
+const mockComposeCreateApp = vi.fn()
+const mockComposeSetEnv = vi.fn()
+const mockComposeDeploy = vi.fn()
+const mockComposeGetAppUrl = vi.fn()
+const mockComposeRestart = vi.fn()
+const mockComposeStop = vi.fn()
+const mockComposeDeleteApp = vi.fn()
+const mockComposeFindApp = vi.fn()
 const mockBunSpawn = vi.fn()
 const mockExistsSync = vi.fn()
+const mockReadFileSync = vi.fn()
+const mockWriteFileSync = vi.fn()
+const mockRmSync = vi.fn()
+const mockCheckpointSave = vi.fn()
+const mockCheckpointLoad = vi.fn()
+const mockTemplateResolve = vi.fn()
+const mockTemplateRender = vi.fn()
 
 vi.mock('node:fs', () => ({
   existsSync: (path: string) => mockExistsSync(path),
+  rmSync: (...args: unknown[]) => mockRmSync(...args),
   appendFileSync: vi.fn(),
   mkdirSync: vi.fn(),
-  writeFileSync: vi.fn(),
+  readFileSync: (...args: unknown[]) => mockReadFileSync(...args),
+  writeFileSync: (...args: unknown[]) => mockWriteFileSync(...args),
 }))
 
 vi.mock('../../services/config.service.js', () => ({
   getConfigService: () => ({
     get: mockConfigGet,
+    getCoolifyUrl: mockGetCoolifyUrl,
+    getCoolifyToken: mockGetCoolifyToken,
   }),
 }))
 
@@ -34,6 +88,36 @@ vi.mock('../../services/github.service.js', () => ({
     init: mockGitHubInit,
     createRepo: mockGitHubCreateRepo,
     pushToRepo: mockGitHubPushToRepo,
+    deleteRepo: mockGitHubDeleteRepo,
+    getAuthenticatedUser: mockGitHubGetAuthenticatedUser,
+    repoExists: mockGitHubRepoExists,
+    updateRepo: mockGitHubUpdateRepo,
+    archiveRepo: mockGitHubArchiveRepo,
+    setActionsSecret: mockGitHubSetActionsSecret,
+    setTopics: mockGitHubSetTopics,
+    setBranchProtection: mockGitHubSetBranchProtection,
+    pushChanges: mockGitHubPushChanges,
+    parseRepoUrl: (url: string) => {
+      const [owner, repo] = new URL(url).pathname.split('/').filter(Boolean)
+      return owner && repo ? { owner, repo } : undefined
+    },
+  }),
+}))
+
+vi.mock('../../services/gitlab.service.js', () => ({
+  getGitLabService: () => ({
+    host: 'gitlab',
+    init: mockGitLabInit,
+    createRepo: mockGitLabCreateRepo,
+    pushToRepo: mockGitLabPushToRepo,
+    deleteRepo: mockGitLabDeleteRepo,
+    archiveRepo: mockGitLabArchiveRepo,
+    getAuthenticatedUser: mockGitLabGetAuthenticatedUser,
+    repoExists: mockGitLabRepoExists,
+    parseRepoUrl: (url: string) => {
+      const segments = new URL(url).pathname.split('/').filter(Boolean)
+      return { owner: segments.slice(0, -1).join('/'), repo: segments[segments.length - 1]! }
+    },
   }),
 }))
 
@@ -41,8 +125,70 @@ vi.mock('../../services/coolify.service.js', () => ({
   getCoolifyService: () => ({
     init: mockCoolifyInit,
     createApplication: mockCoolifyCreateApplication,
+    createGitApplication: mockCoolifyCreateGitApplication,
     setEnvironmentVariables: mockCoolifySetEnvVars,
     deploy: mockCoolifyDeploy,
+    deleteApplication: mockCoolifyDeleteApplication,
+    waitForDeployment: mockCoolifyWaitForDeployment,
+    getApplicationUrl: mockCoolifyGetApplicationUrl,
+    restartApplication: mockCoolifyRestartApplication,
+    listApplications: mockCoolifyListApplications,
+    stopApplication: mockCoolifyStopApplication,
+  }),
+}))
+
+vi.mock('../../services/docker-compose.service.js', () => ({
+  getDockerComposeService: () => ({
+    target: 'docker-compose',
+    isConfigured: () => true,
+    init: mockComposeInit,
+    hasPublicUrl: mockComposeHasPublicUrl,
+    createApp: mockComposeCreateApp,
+    setEnv: mockComposeSetEnv,
+    deploy: mockComposeDeploy,
+    getAppUrl: mockComposeGetAppUrl,
+    restart: mockComposeRestart,
+    stop: mockComposeStop,
+    deleteApp: mockComposeDeleteApp,
+    findApp: mockComposeFindApp,
+    getComposeFile: (name: string) => `/deployments/${name}/compose.yaml`,
+  }),
+}))
+
+vi.mock('../../services/telegram-bot-api.service.js', () => ({
+  getTelegramBotApiService: () => ({
+    setWebhook: mockSetWebhook,
+    getWebhookInfo: mockGetWebhookInfo,
+    deleteWebhook: mockDeleteWebhook,
+  }),
+  generateWebhookSecret: () => 'generated-secret',
+}))
+
+vi.mock('../../services/checkpoint.service.js', () => ({
+  getCheckpointService: () => ({
+    create: (options: { onProgress?: unknown; onEvent?: unknown }) => {
+      const { onProgress: _onProgress, onEvent: _onEvent, ...persisted } = options
+      return {
+        runId: 'run-test-1',
+        status: 'running',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+        options: persisted,
+        completedSteps: [],
+        outputs: {},
+        errors: [],
+      }
+    },
+    save: mockCheckpointSave,
+    load: mockCheckpointLoad,
+  }),
+}))
+
+vi.mock('../../services/template.service.js', () => ({
+  getTemplateService: () => ({
+    isBuiltin: (name: string) => ['telegram-bot', 'monorepo', 'fumadocs'].includes(name),
+    resolve: mockTemplateResolve,
+    render: mockTemplateRender,
   }),
 }))
 
@@ -51,6 +197,12 @@ vi.mock('../../services/botfather.service.js', () => ({
     init: mockBotFatherInit,
     createBot: mockBotFatherCreateBot,
     disconnect: mockBotFatherDisconnect,
+    deleteBot: mockBotFatherDeleteBot,
+    removeBotEnv: mockBotFatherRemoveBotEnv,
+    checkUsernameAvailable: mockBotFatherCheckUsernameAvailable,
+    listBots: mockBotFatherListBots,
+    listBotEnvs: mockBotFatherListBotEnvs,
+    generateBotUsername: (name: string) => `${name.replace(/-/g, '_')}_bot`,
   }),
 }))
 
@@ -74,6 +226,12 @@ describe('Pipeline', () => {
     })
 
     mockExistsSync.mockReturnValue(false)
+    mockReadFileSync.mockReturnValue(JSON.stringify({ scripts: { test: 'vitest' } }))
+    mockCheckpointSave.mockReturnValue(ok(undefined))
+    mockGetCoolifyUrl.mockReturnValue('https://coolify.test.com')
+    mockGetCoolifyToken.mockReturnValue('coolify-token')
+    mockGitHubSetActionsSecret.mockResolvedValue(ok(true))
+    mockGitHubPushChanges.mockResolvedValue(ok(undefined))
 
     const originalBun = globalThis.Bun
     vi.stubGlobal('Bun', {
@@ -802,6 +960,2231 @@ describe('Pipeline', () => {
       expect(mockGitHubInit).not.toHaveBeenCalled()
       expect(mockCoolifyInit).not.toHaveBeenCalled()
     })
+
+    it('should render a custom template instead of running bunspace', async () => {
+      mockTemplateRender.mockReturnValue(ok({ projectPath: '/workspace/custom-bot', variables: {} }))
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.run({
+        botName: 'custom-bot',
+        botDescription: 'Custom bot',
+        targetPath: '/workspace',
+        template: 'acme-starter',
+        templateVariables: { port: '8080' },
+        skipBotFather: true,
+        existingBotUsername: 'custom_bot',
+      })
+
+      expect(isOk(result) && result.value.success).toBe(true)
+      expect(mockBunSpawn).not.toHaveBeenCalled()
+      expect(mockTemplateRender).toHaveBeenCalledWith('acme-starter', '/workspace/custom-bot', {
+        variables: { port: '8080' },
+        builtins: { projectName: 'custom-bot', botUsername: 'custom_bot', botDescription: 'Custom bot' },
+      })
+    })
+
+    it('should fail the scaffold step when the template cannot be rendered', async () => {
+      mockTemplateRender.mockReturnValue(
+        err({ code: AppErrorCode.VALIDATION_ERROR, message: 'Template acme-starter needs a value for owner' })
+      )
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.run({ botName: 'custom-bot', template: 'acme-starter', skipBotFather: true })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(false)
+        expect(result.value.errors[0]).toContain('needs a value for owner')
+      }
+    })
+  })
+
+  describe('run() - Checkpoints', () => {
+    beforeEach(() => {
+      mockBotFatherInit.mockResolvedValue(ok(undefined))
+      mockBotFatherCreateBot.mockResolvedValue(
+        ok({ botToken: 'token', botUsername: 'test_bot' })
+      )
+      mockBotFatherDisconnect.mockResolvedValue(ok(undefined))
+
+      mockBunSpawn.mockReturnValue({
+        exited: Promise.resolve(0),
+        stdout: new ReadableStream(),
+        stderr: new ReadableStream(),
+      })
+
+      mockGitHubInit.mockResolvedValue(ok(undefined))
+      mockGitHubCreateRepo.mockResolvedValue(
+        err({ code: AppErrorCode.GITHUB_ERROR, message: 'Repository creation failed' })
+      )
+    })
+
+    it('should return the run ID in the result', async () => {
+      const pipeline = new Pipeline()
+      const result = await pipeline.run({ botName: 'test-bot' })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.runId).toBe('run-test-1')
+      }
+    })
+
+    it('should persist outputs of each completed step', async () => {
+      const pipeline = new Pipeline()
+      await pipeline.run({ botName: 'test-bot', createGitHubRepo: true })
+
+      const lastCheckpoint = mockCheckpointSave.mock.calls.at(-1)?.[0]
+      expect(lastCheckpoint.status).toBe('failed')
+      expect(lastCheckpoint.failedStep).toBe('github')
+      expect(lastCheckpoint.completedSteps).toEqual(['botfather', 'scaffold'])
+      expect(lastCheckpoint.outputs.botToken).toBe('token')
+      expect(lastCheckpoint.outputs.projectPath).toContain('test-bot')
+      expect(lastCheckpoint.errors).toContain('Repository creation failed')
+    })
+
+    it('should not persist the progress callback', async () => {
+      const pipeline = new Pipeline()
+      await pipeline.run({ botName: 'test-bot', onProgress: vi.fn() })
+
+      const lastCheckpoint = mockCheckpointSave.mock.calls.at(-1)?.[0]
+      expect(lastCheckpoint.options).not.toHaveProperty('onProgress')
+    })
+
+    it('should mark the checkpoint completed on success', async () => {
+      const pipeline = new Pipeline()
+      await pipeline.run({ botName: 'test-bot' })
+
+      const lastCheckpoint = mockCheckpointSave.mock.calls.at(-1)?.[0]
+      expect(lastCheckpoint.status).toBe('completed')
+    })
+
+    it('should continue when the checkpoint cannot be saved (non-fatal)', async () => {
+      mockCheckpointSave.mockReturnValue(
+        err({ code: AppErrorCode.CHECKPOINT_ERROR, message: 'EACCES' })
+      )
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.run({ botName: 'test-bot' })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(true)
+      }
+    })
+  })
+
+  describe('resume()', () => {
+    const failedCheckpoint = () => ({
+      runId: 'run-failed-1',
+      status: 'failed',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+      options: { botName: 'test-bot', createGitHubRepo: true },
+      completedSteps: ['botfather', 'scaffold'],
+      failedStep: 'github',
+      outputs: {
+        botToken: 'saved_token',
+        botUsername: 'saved_bot',
+        projectPath: '/workspace/test-bot',
+      },
+      errors: ['Repository creation failed'],
+    })
+
+    beforeEach(() => {
+      mockGitHubInit.mockResolvedValue(ok(undefined))
+      mockGitHubCreateRepo.mockResolvedValue(
+        ok({
+          repoUrl: 'https://github.com/test-org/test-bot',
+          cloneUrl: 'https://github.com/test-org/test-bot.git',
+        })
+      )
+      mockGitHubPushToRepo.mockResolvedValue(ok(undefined))
+    })
+
+    it('should continue from the first incomplete step', async () => {
+      mockCheckpointLoad.mockReturnValue(ok(failedCheckpoint()))
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.resume('run-failed-1')
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(true)
+        expect(result.value.runId).toBe('run-failed-1')
+        expect(result.value.botToken).toBe('saved_token')
+        expect(result.value.githubRepoUrl).toBe('https://github.com/test-org/test-bot')
+      }
+
+      expect(mockBotFatherInit).not.toHaveBeenCalled()
+      expect(mockBunSpawn).not.toHaveBeenCalled()
+      expect(mockGitHubPushToRepo).toHaveBeenCalledWith(
+        'https://github.com/test-org/test-bot.git',
+        '/workspace/test-bot',
+        'main',
+        expect.any(Function)
+      )
+    })
+
+    it('should record the resumed step as completed', async () => {
+      mockCheckpointLoad.mockReturnValue(ok(failedCheckpoint()))
+
+      const pipeline = new Pipeline()
+      await pipeline.resume('run-failed-1')
+
+      const lastCheckpoint = mockCheckpointSave.mock.calls.at(-1)?.[0]
+      expect(lastCheckpoint.status).toBe('completed')
+      expect(lastCheckpoint.completedSteps).toEqual(['botfather', 'scaffold', 'github', 'ci-workflow'])
+      expect(lastCheckpoint.failedStep).toBeUndefined()
+      expect(lastCheckpoint.errors).toHaveLength(0)
+    })
+
+    it('should reuse the repository of a run whose push failed', async () => {
+      mockBotFatherInit.mockResolvedValue(ok(undefined))
+      mockBotFatherCreateBot.mockResolvedValue(ok({ botToken: 'token', botUsername: 'test_bot' }))
+      mockBotFatherDisconnect.mockResolvedValue(ok(undefined))
+      mockBunSpawn.mockReturnValue({
+        exited: Promise.resolve(0),
+        stdout: new ReadableStream(),
+        stderr: new ReadableStream(),
+      })
+      mockGitHubPushToRepo.mockResolvedValueOnce(err({ code: AppErrorCode.GITHUB_ERROR, message: 'push rejected' }))
+
+      const pipeline = new Pipeline()
+      await pipeline.run({ botName: 'test-bot', createGitHubRepo: true })
+      const failed = mockCheckpointSave.mock.calls.at(-1)?.[0]
+      expect(failed.status).toBe('failed')
+      expect(failed.outputs.githubRepoUrl).toBe('https://github.com/test-org/test-bot')
+
+      mockCheckpointLoad.mockReturnValue(ok(structuredClone(failed)))
+      const result = await pipeline.resume('run-test-1')
+
+      expect(isOk(result) && result.value.success).toBe(true)
+      expect(mockGitHubCreateRepo).toHaveBeenCalledTimes(1)
+      expect(mockGitHubPushToRepo).toHaveBeenCalledTimes(2)
+      expect(mockGitHubPushToRepo.mock.calls[1]![0]).toBe('https://github.com/test-org/test-bot.git')
+    })
+
+    it('should return error when the checkpoint does not exist', async () => {
+      mockCheckpointLoad.mockReturnValue(
+        err({ code: AppErrorCode.CHECKPOINT_ERROR, message: 'No checkpoint found for run missing' })
+      )
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.resume('missing')
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.code).toBe(AppErrorCode.CHECKPOINT_ERROR)
+      }
+    })
+
+    it('should return error when the run already completed', async () => {
+      mockCheckpointLoad.mockReturnValue(ok({ ...failedCheckpoint(), status: 'completed' }))
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.resume('run-failed-1')
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('already completed')
+      }
+      expect(mockGitHubInit).not.toHaveBeenCalled()
+    })
+
+    it('should return error when the run was rolled back', async () => {
+      mockCheckpointLoad.mockReturnValue(ok({ ...failedCheckpoint(), status: 'rolled-back' }))
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.resume('run-failed-1')
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('rolled back')
+      }
+      expect(mockGitHubInit).not.toHaveBeenCalled()
+    })
+
+    it('should roll back assets created by earlier attempts', async () => {
+      mockCheckpointLoad.mockReturnValue(
+        ok({ ...failedCheckpoint(), options: { ...failedCheckpoint().options, rollbackOnFailure: true } })
+      )
+      mockGitHubCreateRepo.mockResolvedValue(
+        err({ code: AppErrorCode.GITHUB_ERROR, message: 'Repository creation failed' })
+      )
+      mockBotFatherInit.mockResolvedValue(ok(undefined))
+      mockBotFatherDeleteBot.mockResolvedValue(ok(undefined))
+      mockBotFatherRemoveBotEnv.mockResolvedValue(ok(undefined))
+      mockBotFatherDisconnect.mockResolvedValue(ok(undefined))
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.resume('run-failed-1')
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.rollback?.actions.map((action) => action.step)).toEqual([
+          'github',
+          'scaffold',
+          'botfather',
+        ])
+      }
+      expect(mockRmSync).toHaveBeenCalledWith('/workspace/test-bot', { recursive: true, force: true })
+      expect(mockBotFatherDeleteBot).toHaveBeenCalledWith('saved_bot')
+    })
+  })
+
+  describe('run() - Rollback', () => {
+    beforeEach(() => {
+      mockConfigGet.mockReturnValue({
+        github: { defaultOrg: 'test-org', defaultVisibility: 'public' },
+        coolify: {
+          url: 'https://coolify.test.com',
+          defaultServer: 'server-uuid',
+          defaultDestination: 'dest-uuid',
+          defaultProject: 'project-uuid',
+          defaultEnvironment: 'env-uuid',
+        },
+      })
+
+      mockBotFatherInit.mockResolvedValue(ok(undefined))
+      mockBotFatherCreateBot.mockResolvedValue(
+        ok({ botToken: 'token', botUsername: 'test_bot' })
+      )
+      mockBotFatherDisconnect.mockResolvedValue(ok(undefined))
+      mockBotFatherDeleteBot.mockResolvedValue(ok(undefined))
+      mockBotFatherRemoveBotEnv.mockResolvedValue(ok(undefined))
+
+      mockBunSpawn.mockReturnValue({
+        exited: Promise.resolve(0),
+        stdout: new ReadableStream(),
+        stderr: new ReadableStream(),
+      })
+
+      mockGitHubInit.mockResolvedValue(ok(undefined))
+      mockGitHubCreateRepo.mockResolvedValue(
+        ok({
+          repoUrl: 'https://github.com/test-org/test-bot',
+          cloneUrl: 'https://github.com/test-org/test-bot.git',
+        })
+      )
+      mockGitHubPushToRepo.mockResolvedValue(
+        err({ code: AppErrorCode.GITHUB_ERROR, message: 'Push rejected' })
+      )
+      mockGitHubDeleteRepo.mockResolvedValue(ok(undefined))
+
+      mockCoolifyInit.mockResolvedValue(ok(undefined))
+      mockCoolifyCreateApplication.mockResolvedValue(ok({ uuid: 'app-uuid-123' }))
+      mockCoolifySetEnvVars.mockResolvedValue(ok(undefined))
+      mockCoolifyDeleteApplication.mockResolvedValue(ok({ success: true }))
+    })
+
+    it('should not roll back unless rollbackOnFailure is set', async () => {
+      const pipeline = new Pipeline()
+      const result = await pipeline.run({ botName: 'test-bot', createGitHubRepo: true })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(false)
+        expect(result.value.rollback).toBeUndefined()
+      }
+      expect(mockGitHubDeleteRepo).not.toHaveBeenCalled()
+      expect(mockRmSync).not.toHaveBeenCalled()
+      expect(mockBotFatherDeleteBot).not.toHaveBeenCalled()
+    })
+
+    it('should undo created assets in reverse order', async () => {
+      const pipeline = new Pipeline()
+      const result = await pipeline.run({
+        botName: 'test-bot',
+        createGitHubRepo: true,
+        rollbackOnFailure: true,
+      })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(false)
+        expect(result.value.rollback?.success).toBe(true)
+        expect(result.value.rollback?.actions.map((action) => action.step)).toEqual([
+          'github',
+          'scaffold',
+          'botfather',
+        ])
+      }
+
+      expect(mockGitHubDeleteRepo).toHaveBeenCalledWith('test-org', 'test-bot')
+      expect(mockRmSync).toHaveBeenCalledWith(
+        expect.stringContaining('test-bot'),
+        { recursive: true, force: true }
+      )
+      expect(mockBotFatherRemoveBotEnv).toHaveBeenCalledWith('test_bot')
+      expect(mockBotFatherDeleteBot).toHaveBeenCalledWith('test_bot')
+      expect(mockBotFatherRemoveBotEnv.mock.invocationCallOrder[0]).toBeLessThan(
+        mockBotFatherDeleteBot.mock.invocationCallOrder[0]
+      )
+    })
+
+    it('should delete the Coolify application when deploy fails', async () => {
+      mockGitHubPushToRepo.mockResolvedValue(ok(undefined))
+      mockCoolifyDeploy.mockResolvedValue(
+        err({ code: AppErrorCode.COOLIFY_ERROR, message: 'Deploy failed' })
+      )
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.run({
+        botName: 'test-bot',
+        createGitHubRepo: true,
+        deployToCoolify: true,
+        rollbackOnFailure: true,
+      })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.rollback?.actions[0]).toMatchObject({
+          step: 'coolify',
+          success: true,
+        })
+      }
+      expect(mockCoolifyDeleteApplication).toHaveBeenCalledWith('app-uuid-123')
+      expect(mockGitHubDeleteRepo).toHaveBeenCalled()
+    })
+
+    it('should record failed undo actions and continue', async () => {
+      mockGitHubDeleteRepo.mockResolvedValue(
+        err({ code: AppErrorCode.GITHUB_ERROR, message: 'Must have admin rights' })
+      )
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.run({
+        botName: 'test-bot',
+        createGitHubRepo: true,
+        rollbackOnFailure: true,
+      })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.rollback?.success).toBe(false)
+        expect(result.value.rollback?.actions[0]).toMatchObject({
+          step: 'github',
+          success: false,
+          error: 'Must have admin rights',
+        })
+      }
+      expect(mockRmSync).toHaveBeenCalled()
+      expect(mockBotFatherDeleteBot).toHaveBeenCalled()
+    })
+
+    it('should not remove a project directory that already existed', async () => {
+      mockExistsSync.mockReturnValue(true)
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.run({ botName: 'test-bot', rollbackOnFailure: true })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.rollback?.actions.map((action) => action.step)).toEqual([
+          'scaffold',
+          'botfather',
+        ])
+      }
+      expect(mockRmSync).not.toHaveBeenCalled()
+    })
+
+    it('should mark the checkpoint as rolled back', async () => {
+      const pipeline = new Pipeline()
+      await pipeline.run({ botName: 'test-bot', createGitHubRepo: true, rollbackOnFailure: true })
+
+      const lastCheckpoint = mockCheckpointSave.mock.calls.at(-1)?.[0]
+      expect(lastCheckpoint.status).toBe('rolled-back')
+    })
+
+    it('should not roll back a successful run', async () => {
+      mockGitHubPushToRepo.mockResolvedValue(ok(undefined))
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.run({
+        botName: 'test-bot',
+        createGitHubRepo: true,
+        rollbackOnFailure: true,
+      })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(true)
+        expect(result.value.rollback).toBeUndefined()
+      }
+      expect(mockGitHubDeleteRepo).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('run() - Wait for deployment', () => {
+    beforeEach(() => {
+      mockConfigGet.mockReturnValue({
+        github: { defaultOrg: 'test-org', defaultVisibility: 'public' },
+        coolify: {
+          url: 'https://coolify.test.com',
+          defaultServer: 'server-uuid',
+          defaultDestination: 'dest-uuid',
+          defaultProject: 'project-uuid',
+          defaultEnvironment: 'env-uuid',
+        },
+      })
+
+      mockBunSpawn.mockReturnValue({
+        exited: Promise.resolve(0),
+        stdout: new ReadableStream(),
+        stderr: new ReadableStream(),
+      })
+
+      mockGitHubInit.mockResolvedValue(ok(undefined))
+      mockGitHubCreateRepo.mockResolvedValue(
+        ok({
+          repoUrl: 'https://github.com/test-org/test-bot',
+          cloneUrl: 'https://github.com/test-org/test-bot.git',
+        })
+      )
+      mockGitHubPushToRepo.mockResolvedValue(ok(undefined))
+
+      mockCoolifyInit.mockResolvedValue(ok(undefined))
+      mockCoolifyCreateApplication.mockResolvedValue(ok({ uuid: 'app-uuid-123' }))
+      mockCoolifySetEnvVars.mockResolvedValue(ok(undefined))
+      mockCoolifyDeploy.mockResolvedValue(
+        ok({ deploymentUuid: 'deploy-456', resourceUuid: 'app-uuid-123' })
+      )
+    })
+
+    const options = {
+      botName: 'test-bot',
+      skipBotFather: true,
+      createGitHubRepo: true,
+      deployToCoolify: true,
+    }
+
+    it('should not wait unless waitForDeployment is set', async () => {
+      const result = await new Pipeline().run(options)
+
+      expect(isOk(result) && result.value.success).toBe(true)
+      expect(mockCoolifyWaitForDeployment).not.toHaveBeenCalled()
+    })
+
+    it('should wait for the build and report its log', async () => {
+      mockCoolifyWaitForDeployment.mockImplementation(
+        async (_uuid: string, waitOptions: { onProgress?: (...args: unknown[]) => void }) => {
+          waitOptions.onProgress?.(50, 'Building image', 'build_log')
+          return ok({ deploymentUuid: 'deploy-456', status: 'finished', logs: [] })
+        }
+      )
+      const onProgress = vi.fn()
+
+      const result = await new Pipeline().run({ ...options, waitForDeployment: true, onProgress })
+
+      expect(isOk(result) && result.value.success).toBe(true)
+      expect(mockCoolifyWaitForDeployment).toHaveBeenCalledWith('deploy-456', expect.any(Object))
+      expect(onProgress).toHaveBeenCalledWith(
+        expect.any(Number),
+        '[Coolify] Building image',
+        'build_log'
+      )
+    })
+
+    it('should fail the run when the build fails', async () => {
+      mockCoolifyWaitForDeployment.mockResolvedValue(
+        err({ code: AppErrorCode.COOLIFY_ERROR, message: 'Deployment deploy-456 failed' })
+      )
+
+      const result = await new Pipeline().run({ ...options, waitForDeployment: true })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(false)
+        expect(result.value.errors).toContain('Deployment deploy-456 failed')
+      }
+    })
+  })
+
+  describe('run() - Webhook', () => {
+    beforeEach(() => {
+      mockConfigGet.mockReturnValue({
+        github: { defaultOrg: 'test-org', defaultVisibility: 'public' },
+        coolify: {
+          url: 'https://coolify.test.com',
+          defaultServer: 'server-uuid',
+          defaultDestination: 'dest-uuid',
+          defaultProject: 'project-uuid',
+          defaultEnvironment: 'env-uuid',
+        },
+      })
+
+      mockBunSpawn.mockReturnValue({
+        exited: Promise.resolve(0),
+        stdout: new ReadableStream(),
+        stderr: new ReadableStream(),
+      })
+
+      mockGitHubInit.mockResolvedValue(ok(undefined))
+      mockGitHubCreateRepo.mockResolvedValue(
+        ok({
+          repoUrl: 'https://github.com/test-org/test-bot',
+          cloneUrl: 'https://github.com/test-org/test-bot.git',
+        })
+      )
+      mockGitHubPushToRepo.mockResolvedValue(ok(undefined))
+      mockGitHubDeleteRepo.mockResolvedValue(ok(undefined))
+
+      mockCoolifyInit.mockResolvedValue(ok(undefined))
+      mockCoolifyCreateApplication.mockResolvedValue(ok({ uuid: 'app-uuid-123' }))
+      mockCoolifySetEnvVars.mockResolvedValue(ok(undefined))
+      mockCoolifyDeploy.mockResolvedValue(
+        ok({ deploymentUuid: 'deploy-456', resourceUuid: 'app-uuid-123' })
+      )
+      mockCoolifyDeleteApplication.mockResolvedValue(ok({ success: true }))
+      mockCoolifyGetApplicationUrl.mockResolvedValue(ok('https://test-bot.example.com'))
+      mockCoolifyRestartApplication.mockResolvedValue(ok(undefined))
+
+      mockSetWebhook.mockResolvedValue(ok(undefined))
+      mockGetWebhookInfo.mockResolvedValue(
+        ok({
+          url: 'https://test-bot.example.com/webhook',
+          hasCustomCertificate: false,
+          pendingUpdateCount: 0,
+        })
+      )
+      mockDeleteWebhook.mockResolvedValue(ok(undefined))
+    })
+
+    const options = {
+      botName: 'test-bot',
+      skipBotFather: true,
+      existingBotToken: 'token-123',
+      existingBotUsername: 'test_bot',
+      createGitHubRepo: true,
+      deployToCoolify: true,
+    }
+
+    it('should register the webhook on the application domain', async () => {
+      const result = await new Pipeline().run(options)
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(true)
+        expect(result.value.outputs?.webhookUrl).toBe('https://test-bot.example.com/webhook')
+      }
+      expect(mockCoolifySetEnvVars).toHaveBeenLastCalledWith('app-uuid-123', {
+        TG_WEBHOOK_URL: 'https://test-bot.example.com/webhook',
+        TG_WEBHOOK_SECRET: 'generated-secret',
+      })
+      expect(mockCoolifyRestartApplication).toHaveBeenCalledWith('app-uuid-123')
+      expect(mockSetWebhook).toHaveBeenCalledWith('token-123', {
+        url: 'https://test-bot.example.com/webhook',
+        secretToken: 'generated-secret',
+      })
+    })
+
+    it('should use a custom webhook path', async () => {
+      mockGetWebhookInfo.mockResolvedValue(
+        ok({ url: 'https://test-bot.example.com/tg', hasCustomCertificate: false, pendingUpdateCount: 0 })
+      )
+
+      const result = await new Pipeline().run({ ...options, webhookPath: '/tg' })
+
+      expect(isOk(result) && result.value.success).toBe(true)
+      expect(mockSetWebhook).toHaveBeenCalledWith(
+        'token-123',
+        expect.objectContaining({ url: 'https://test-bot.example.com/tg' })
+      )
+    })
+
+    it('should skip when no bot token is available', async () => {
+      const result = await new Pipeline().run({
+        botName: 'test-bot',
+        skipBotFather: true,
+        createGitHubRepo: true,
+        deployToCoolify: true,
+      })
+
+      expect(isOk(result) && result.value.success).toBe(true)
+      expect(mockSetWebhook).not.toHaveBeenCalled()
+    })
+
+    it('should not run with skipWebhook', async () => {
+      const result = await new Pipeline().run({ ...options, skipWebhook: true })
+
+      expect(isOk(result) && result.value.success).toBe(true)
+      expect(mockCoolifyGetApplicationUrl).not.toHaveBeenCalled()
+      expect(mockSetWebhook).not.toHaveBeenCalled()
+    })
+
+    it('should fail when the application has no domain', async () => {
+      mockCoolifyGetApplicationUrl.mockResolvedValue(ok(undefined))
+
+      const result = await new Pipeline().run(options)
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(false)
+        expect(result.value.errors.join('\n')).toContain('no domain')
+      }
+      expect(mockSetWebhook).not.toHaveBeenCalled()
+    })
+
+    it('should fail when Telegram reports a different webhook URL', async () => {
+      mockGetWebhookInfo.mockResolvedValue(
+        ok({ url: '', hasCustomCertificate: false, pendingUpdateCount: 3 })
+      )
+
+      const result = await new Pipeline().run(options)
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(false)
+        expect(result.value.errors.join('\n')).toContain('Webhook not registered')
+      }
+    })
+
+    it('should delete the webhook on rollback', async () => {
+      mockGetWebhookInfo.mockResolvedValue(
+        ok({ url: '', hasCustomCertificate: false, pendingUpdateCount: 0 })
+      )
+
+      const result = await new Pipeline().run({ ...options, rollbackOnFailure: true })
+
+      expect(isOk(result) && result.value.success).toBe(false)
+      expect(mockDeleteWebhook).toHaveBeenCalledWith('token-123')
+      expect(mockCoolifyDeleteApplication).toHaveBeenCalled()
+    })
+  })
+
+  describe('run() - GitHub settings', () => {
+    const hardenedConfig = {
+      github: {
+        defaultOrg: 'test-org',
+        hardenRepo: true,
+        botTokenSecret: 'TG_BOT_TOKEN',
+        topics: 'telegram-bot,bun',
+        mergeMethods: 'squash',
+        deleteBranchOnMerge: true,
+        protectBranch: true,
+        requiredApprovals: 1,
+      },
+    }
+
+    beforeEach(() => {
+      mockConfigGet.mockReturnValue(hardenedConfig)
+
+      mockBunSpawn.mockReturnValue({
+        exited: Promise.resolve(0),
+        stdout: new ReadableStream(),
+        stderr: new ReadableStream(),
+      })
+
+      mockGitHubInit.mockResolvedValue(ok(undefined))
+      mockGitHubCreateRepo.mockResolvedValue(
+        ok({
+          repoUrl: 'https://github.com/test-org/test-bot',
+          cloneUrl: 'https://github.com/test-org/test-bot.git',
+        })
+      )
+      mockGitHubPushToRepo.mockResolvedValue(ok(undefined))
+      mockGitHubSetActionsSecret.mockResolvedValue(ok(true))
+      mockGitHubSetTopics.mockResolvedValue(ok(undefined))
+      mockGitHubUpdateRepo.mockResolvedValue(ok(undefined))
+      mockGitHubSetBranchProtection.mockResolvedValue(ok(undefined))
+    })
+
+    const options = {
+      botName: 'test-bot',
+      skipBotFather: true,
+      existingBotToken: 'token-123',
+      createGitHubRepo: true,
+    }
+
+    it('should apply the configured settings after creating the repository', async () => {
+      const result = await new Pipeline().run(options)
+
+      expect(isOk(result) && result.value.success).toBe(true)
+      expect(mockGitHubSetActionsSecret).toHaveBeenCalledWith('test-org', 'test-bot', 'TG_BOT_TOKEN', 'token-123')
+      expect(mockGitHubSetTopics).toHaveBeenCalledWith('test-org', 'test-bot', ['telegram-bot', 'bun'])
+      expect(mockGitHubUpdateRepo).toHaveBeenCalledWith('test-org', 'test-bot', {
+        allowMergeCommit: false,
+        allowSquashMerge: true,
+        allowRebaseMerge: false,
+        deleteBranchOnMerge: true,
+      })
+      expect(mockGitHubSetBranchProtection).toHaveBeenCalledWith('test-org', 'test-bot', 'main', {
+        requiredApprovals: 1,
+      })
+      expect(mockGitHubPushToRepo.mock.invocationCallOrder[0]).toBeLessThan(
+        mockGitHubSetBranchProtection.mock.invocationCallOrder[0]!
+      )
+    })
+
+    it('should only change what is configured', async () => {
+      mockConfigGet.mockReturnValue({ github: { defaultOrg: 'test-org', hardenRepo: true, protectBranch: true } })
+
+      const result = await new Pipeline().run(options)
+
+      expect(isOk(result) && result.value.success).toBe(true)
+      expect(mockGitHubSetActionsSecret).not.toHaveBeenCalled()
+      expect(mockGitHubSetTopics).not.toHaveBeenCalled()
+      expect(mockGitHubUpdateRepo).not.toHaveBeenCalled()
+      expect(mockGitHubSetBranchProtection).toHaveBeenCalledWith('test-org', 'test-bot', 'main', {
+        requiredApprovals: undefined,
+      })
+    })
+
+    it('should be skipped unless enabled by config or option', async () => {
+      mockConfigGet.mockReturnValue({ github: { ...hardenedConfig.github, hardenRepo: undefined } })
+      await new Pipeline().run(options)
+      expect(mockGitHubSetBranchProtection).not.toHaveBeenCalled()
+
+      await new Pipeline().run({ ...options, hardenGitHubRepo: true })
+      expect(mockGitHubSetBranchProtection).toHaveBeenCalledTimes(1)
+
+      mockConfigGet.mockReturnValue(hardenedConfig)
+      await new Pipeline().run({ ...options, hardenGitHubRepo: false })
+      expect(mockGitHubSetBranchProtection).toHaveBeenCalledTimes(1)
+    })
+
+    it('should fail the run when a setting cannot be applied', async () => {
+      mockGitHubSetBranchProtection.mockResolvedValue(
+        err({ code: AppErrorCode.GITHUB_ERROR, message: 'Upgrade to GitHub Pro' })
+      )
+
+      const result = await new Pipeline().run(options)
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(false)
+        expect(result.value.errors).toContain('Upgrade to GitHub Pro')
+        expect(result.value.githubRepoUrl).toBe('https://github.com/test-org/test-bot')
+      }
+    })
+
+    it('should show the settings in the plan', async () => {
+      mockGitHubRepoExists.mockResolvedValue(ok(false))
+
+      const result = await new Pipeline().plan(options)
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.steps.find((step) => step.step === 'github-settings')?.enabled).toBe(true)
+        expect(result.value.github?.hardening).toEqual({
+          botTokenSecret: 'TG_BOT_TOKEN',
+          topics: ['telegram-bot', 'bun'],
+          branchProtection: { requiredApprovals: 1 },
+          settings: {
+            allowMergeCommit: false,
+            allowSquashMerge: true,
+            allowRebaseMerge: false,
+            deleteBranchOnMerge: true,
+          },
+        })
+      }
+    })
+  })
+
+  describe('run() - CI workflow', () => {
+    const coolifyConfig = {
+      url: 'https://coolify.test.com',
+      deployToken: 'deploy-only-token',
+      defaultServer: 'server-uuid',
+      defaultDestination: 'dest-uuid',
+      defaultProject: 'project-uuid',
+      defaultEnvironment: 'env-uuid',
+    }
+
+    beforeEach(() => {
+      mockConfigGet.mockReturnValue({ github: { defaultOrg: 'test-org' }, coolify: coolifyConfig })
+
+      mockBunSpawn.mockReturnValue({
+        exited: Promise.resolve(0),
+        stdout: new ReadableStream(),
+        stderr: new ReadableStream(),
+      })
+
+      mockGitHubInit.mockResolvedValue(ok(undefined))
+      mockGitHubCreateRepo.mockResolvedValue(
+        ok({
+          repoUrl: 'https://github.com/test-org/test-bot',
+          cloneUrl: 'https://github.com/test-org/test-bot.git',
+        })
+      )
+      mockGitHubPushToRepo.mockResolvedValue(ok(undefined))
+
+      mockCoolifyInit.mockResolvedValue(ok(undefined))
+      mockCoolifyCreateApplication.mockResolvedValue(ok({ uuid: 'app-uuid-123' }))
+      mockCoolifySetEnvVars.mockResolvedValue(ok(undefined))
+      mockCoolifyDeploy.mockResolvedValue(ok({ deploymentUuid: 'deploy-456' }))
+    })
+
+    const options = {
+      botName: 'test-bot',
+      skipBotFather: true,
+      existingBotToken: 'token-123',
+      createGitHubRepo: true,
+      deployToCoolify: true,
+      skipWebhook: true,
+    }
+
+    const writtenWorkflow = (): string | undefined =>
+      mockWriteFileSync.mock.calls.find(([path]) => String(path).endsWith('.github/workflows/ci.yml'))?.[1]
+
+    it('should push a workflow that deploys the Coolify application', async () => {
+      const result = await new Pipeline().run(options)
+
+      expect(isOk(result) && result.value.success).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.outputs?.ciWorkflowPath).toBe('.github/workflows/ci.yml')
+      }
+
+      const workflow = writtenWorkflow()
+      expect(workflow).toContain('      - run: bun run test')
+      expect(workflow).toContain(
+        'COOLIFY_DEPLOY_URL: "https://coolify.test.com/api/v1/deploy?uuid=app-uuid-123&force=false"'
+      )
+      expect(workflow).toContain('COOLIFY_TOKEN: ${{ secrets.COOLIFY_TOKEN }}')
+
+      expect(mockGitHubSetActionsSecret).toHaveBeenCalledWith(
+        'test-org',
+        'test-bot',
+        'COOLIFY_TOKEN',
+        'deploy-only-token'
+      )
+      expect(mockGitHubPushChanges).toHaveBeenCalledWith(
+        expect.stringContaining('test-bot'),
+        ['.github/workflows/ci.yml'],
+        'Add CI workflow'
+      )
+      expect(mockGitHubSetActionsSecret.mock.invocationCallOrder[0]).toBeLessThan(
+        mockGitHubPushChanges.mock.invocationCallOrder[0]!
+      )
+    })
+
+    it('should leave the deploy job out without coolify.deployToken', async () => {
+      mockConfigGet.mockReturnValue({
+        github: { defaultOrg: 'test-org' },
+        coolify: { ...coolifyConfig, deployToken: undefined },
+      })
+
+      const result = await new Pipeline().run(options)
+
+      expect(isOk(result) && result.value.success).toBe(true)
+      expect(writtenWorkflow()).not.toContain('deploy:')
+      expect(mockGitHubSetActionsSecret).not.toHaveBeenCalled()
+      expect(mockGitHubPushChanges).toHaveBeenCalledTimes(1)
+    })
+
+    it('should only check without a Coolify deployment', async () => {
+      const result = await new Pipeline().run({ ...options, deployToCoolify: false })
+
+      expect(isOk(result) && result.value.success).toBe(true)
+      expect(writtenWorkflow()).not.toContain('deploy:')
+      expect(mockGitHubSetActionsSecret).not.toHaveBeenCalled()
+      expect(mockGitHubPushChanges).toHaveBeenCalledTimes(1)
+    })
+
+    it('should be skipped with skipCiWorkflow', async () => {
+      const result = await new Pipeline().run({ ...options, skipCiWorkflow: true })
+
+      expect(isOk(result) && result.value.success).toBe(true)
+      expect(writtenWorkflow()).toBeUndefined()
+      expect(mockGitHubPushChanges).not.toHaveBeenCalled()
+    })
+
+    it('should fail the run when the workflow cannot be pushed', async () => {
+      mockGitHubPushChanges.mockResolvedValue(
+        err({ code: AppErrorCode.GITHUB_ERROR, message: 'refusing to allow a Personal Access Token without workflow scope' })
+      )
+
+      const result = await new Pipeline().run(options)
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(false)
+        expect(result.value.errors[0]).toContain('workflow scope')
+        expect(result.value.coolifyAppUuid).toBe('app-uuid-123')
+      }
+    })
+  })
+
+  describe('run() - Git hosts', () => {
+    const coolifyConfig = {
+      url: 'https://coolify.test.com',
+      defaultServer: 'server-uuid',
+      defaultDestination: 'dest-uuid',
+      defaultProject: 'project-uuid',
+      defaultEnvironment: 'env-uuid',
+    }
+
+    beforeEach(() => {
+      mockConfigGet.mockReturnValue({
+        git: { host: 'gitlab', defaultOwner: 'acme/bots', defaultVisibility: 'private' },
+        github: { defaultOrg: 'test-org', hardenRepo: true },
+        coolify: { ...coolifyConfig, privateKeyUuid: 'key-uuid' },
+      })
+
+      mockBunSpawn.mockReturnValue({
+        exited: Promise.resolve(0),
+        stdout: new ReadableStream(),
+        stderr: new ReadableStream(),
+      })
+
+      mockGitLabInit.mockResolvedValue(ok(undefined))
+      mockGitLabCreateRepo.mockResolvedValue(
+        ok({
+          success: true,
+          repoUrl: 'https://gitlab.com/acme/bots/test-bot',
+          cloneUrl: 'https://gitlab.com/acme/bots/test-bot.git',
+          sshUrl: 'git@gitlab.com:acme/bots/test-bot.git',
+        })
+      )
+      mockGitLabPushToRepo.mockResolvedValue(ok({ success: true }))
+      mockGitLabDeleteRepo.mockResolvedValue(ok(undefined))
+
+      mockCoolifyInit.mockResolvedValue(ok(undefined))
+      mockCoolifyCreateGitApplication.mockResolvedValue(ok({ uuid: 'app-uuid-123' }))
+      mockCoolifySetEnvVars.mockResolvedValue(ok(undefined))
+      mockCoolifyDeploy.mockResolvedValue(ok({ deploymentUuid: 'deploy-456' }))
+    })
+
+    const options = {
+      botName: 'test-bot',
+      skipBotFather: true,
+      existingBotToken: 'token-123',
+      createGitHubRepo: true,
+      deployToCoolify: true,
+      skipWebhook: true,
+    }
+
+    it('should create the repository on the configured host', async () => {
+      const result = await new Pipeline().run(options)
+
+      expect(isOk(result) && result.value.success).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.githubRepoUrl).toBe('https://gitlab.com/acme/bots/test-bot')
+        expect(result.value.outputs?.gitSshUrl).toBe('git@gitlab.com:acme/bots/test-bot.git')
+      }
+      expect(mockGitLabCreateRepo).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'test-bot', owner: 'acme/bots', private: true }),
+        expect.any(Function)
+      )
+      expect(mockGitLabPushToRepo).toHaveBeenCalledWith(
+        'https://gitlab.com/acme/bots/test-bot.git',
+        expect.stringContaining('test-bot'),
+        'main',
+        expect.any(Function)
+      )
+      expect(mockGitHubInit).not.toHaveBeenCalled()
+      expect(mockGitHubCreateRepo).not.toHaveBeenCalled()
+    })
+
+    it('should skip the GitHub-only steps', async () => {
+      const result = await new Pipeline().run(options)
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.outputs?.ciWorkflowPath).toBeUndefined()
+      }
+      expect(mockGitHubSetActionsSecret).not.toHaveBeenCalled()
+      expect(mockGitHubSetTopics).not.toHaveBeenCalled()
+      expect(mockGitHubPushChanges).not.toHaveBeenCalled()
+    })
+
+    it('should deploy a private repository over SSH with the deploy key', async () => {
+      await new Pipeline().run(options)
+
+      expect(mockCoolifyCreateGitApplication).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'test-bot',
+          serverUuid: 'server-uuid',
+          repoUrl: 'git@gitlab.com:acme/bots/test-bot.git',
+          privateKeyUuid: 'key-uuid',
+        }),
+        expect.any(Function)
+      )
+      expect(mockCoolifyCreateApplication).not.toHaveBeenCalled()
+    })
+
+    it('should deploy a public repository over HTTPS', async () => {
+      await new Pipeline().run({ ...options, githubVisibility: 'public' })
+
+      expect(mockCoolifyCreateGitApplication).toHaveBeenCalledWith(
+        expect.objectContaining({ repoUrl: 'https://gitlab.com/acme/bots/test-bot', privateKeyUuid: undefined }),
+        expect.any(Function)
+      )
+    })
+
+    it('should fail a private deployment without a deploy key', async () => {
+      mockConfigGet.mockReturnValue({
+        git: { host: 'gitlab', defaultVisibility: 'private' },
+        coolify: coolifyConfig,
+      })
+
+      const result = await new Pipeline().run(options)
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(false)
+        expect(result.value.errors[0]).toContain('coolify.privateKeyUuid')
+      }
+      expect(mockCoolifyCreateGitApplication).not.toHaveBeenCalled()
+    })
+
+    it('should prefer the gitHost option over git.host', async () => {
+      mockGitHubInit.mockResolvedValue(ok(undefined))
+      mockGitHubCreateRepo.mockResolvedValue(
+        ok({ repoUrl: 'https://github.com/test-org/test-bot', cloneUrl: 'https://github.com/test-org/test-bot.git' })
+      )
+      mockGitHubPushToRepo.mockResolvedValue(ok(undefined))
+      mockCoolifyCreateApplication.mockResolvedValue(ok({ uuid: 'app-uuid-123' }))
+
+      await new Pipeline().run({ ...options, gitHost: 'github', skipCiWorkflow: true })
+
+      expect(mockGitHubCreateRepo).toHaveBeenCalledWith(
+        expect.objectContaining({ owner: 'test-org' }),
+        expect.any(Function)
+      )
+      expect(mockCoolifyCreateApplication).toHaveBeenCalledWith(
+        expect.objectContaining({ githubRepoUrl: 'https://github.com/test-org/test-bot' }),
+        expect.any(Function)
+      )
+      expect(mockGitLabCreateRepo).not.toHaveBeenCalled()
+    })
+
+    it('should delete the repository on the host on rollback', async () => {
+      mockGitLabPushToRepo.mockResolvedValue(err({ code: AppErrorCode.GITHUB_ERROR, message: 'Push rejected' }))
+
+      await new Pipeline().run({ ...options, rollbackOnFailure: true })
+
+      expect(mockGitLabDeleteRepo).toHaveBeenCalledWith('acme/bots', 'test-bot')
+      expect(mockGitHubDeleteRepo).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('run() - Docker Compose', () => {
+    beforeEach(() => {
+      mockBunSpawn.mockReturnValue({
+        exited: Promise.resolve(0),
+        stdout: new ReadableStream(),
+        stderr: new ReadableStream(),
+      })
+
+      mockComposeInit.mockResolvedValue(ok(undefined))
+      mockComposeHasPublicUrl.mockReturnValue(false)
+      mockComposeCreateApp.mockResolvedValue(
+        ok({ id: 'test-bot', location: '/deployments/test-bot/compose.yaml' })
+      )
+      mockComposeSetEnv.mockResolvedValue(ok(undefined))
+      mockComposeDeploy.mockResolvedValue(ok(undefined))
+      mockComposeRestart.mockResolvedValue(ok(undefined))
+      mockComposeDeleteApp.mockResolvedValue(ok(undefined))
+    })
+
+    const options = {
+      botName: 'test-bot',
+      skipBotFather: true,
+      existingBotToken: 'token-123',
+      deployToCoolify: true,
+      deployTarget: 'docker-compose' as const,
+    }
+
+    it('should deploy the local project without a repository', async () => {
+      const result = await new Pipeline().run(options)
+
+      expect(isOk(result) && result.value.success).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.coolifyAppUuid).toBe('test-bot')
+        expect(result.value.deploymentUrl).toBe('/deployments/test-bot/compose.yaml')
+      }
+      expect(mockComposeCreateApp).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'test-bot', projectPath: expect.stringContaining('test-bot') }),
+        expect.any(Function)
+      )
+      expect(mockComposeDeploy).toHaveBeenCalledWith('test-bot', { wait: undefined }, expect.any(Function))
+      expect(mockCoolifyInit).not.toHaveBeenCalled()
+      expect(mockCoolifyCreateApplication).not.toHaveBeenCalled()
+    })
+
+    it('should reuse the application of a run whose deploy failed', async () => {
+      mockComposeDeploy.mockResolvedValueOnce(err({ code: AppErrorCode.DEPLOY_ERROR, message: 'build failed' }))
+
+      const pipeline = new Pipeline()
+      await pipeline.run(options)
+      const failed = mockCheckpointSave.mock.calls.at(-1)?.[0]
+      expect(failed.outputs.coolifyAppUuid).toBe('test-bot')
+
+      mockCheckpointLoad.mockReturnValue(ok(structuredClone(failed)))
+      const result = await pipeline.resume('run-test-1')
+
+      expect(isOk(result) && result.value.success).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.deploymentUrl).toBe('/deployments/test-bot/compose.yaml')
+      }
+      expect(mockComposeCreateApp).toHaveBeenCalledTimes(1)
+      expect(mockComposeDeploy).toHaveBeenCalledTimes(2)
+    })
+
+    it('should run the bot in polling mode without a public URL', async () => {
+      const result = await new Pipeline().run(options)
+
+      expect(isOk(result) && result.value.success).toBe(true)
+      expect(mockComposeSetEnv).toHaveBeenCalledWith(
+        'test-bot',
+        expect.objectContaining({ TG_BOT_TOKEN: 'token-123', TG_MODE: 'polling' })
+      )
+      expect(mockSetWebhook).not.toHaveBeenCalled()
+    })
+
+    it('should register the webhook on the public URL', async () => {
+      mockComposeHasPublicUrl.mockReturnValue(true)
+      mockComposeGetAppUrl.mockResolvedValue(ok('https://test-bot.bots.example.com'))
+      mockSetWebhook.mockResolvedValue(ok(true))
+      mockGetWebhookInfo.mockResolvedValue(
+        ok({ url: 'https://test-bot.bots.example.com/webhook', pendingUpdateCount: 0 })
+      )
+
+      const result = await new Pipeline().run(options)
+
+      expect(isOk(result) && result.value.success).toBe(true)
+      expect(mockComposeSetEnv).toHaveBeenCalledWith('test-bot', expect.objectContaining({ TG_MODE: 'webhook' }))
+      expect(mockComposeSetEnv).toHaveBeenCalledWith('test-bot', {
+        TG_WEBHOOK_URL: 'https://test-bot.bots.example.com/webhook',
+        TG_WEBHOOK_SECRET: 'generated-secret',
+      })
+      expect(mockComposeRestart).toHaveBeenCalledWith('test-bot')
+      expect(mockSetWebhook).toHaveBeenCalledWith('token-123', {
+        url: 'https://test-bot.bots.example.com/webhook',
+        secretToken: 'generated-secret',
+      })
+    })
+
+    it('should use deploy.target from the config', async () => {
+      mockConfigGet.mockReturnValue({ deploy: { target: 'docker-compose' } })
+
+      const result = await new Pipeline().run({ ...options, deployTarget: undefined })
+
+      expect(isOk(result) && result.value.success).toBe(true)
+      expect(mockComposeCreateApp).toHaveBeenCalled()
+      expect(mockCoolifyCreateApplication).not.toHaveBeenCalled()
+    })
+
+    it('should not add a Coolify deploy job to the CI workflow', async () => {
+      mockGitHubInit.mockResolvedValue(ok(undefined))
+      mockGitHubCreateRepo.mockResolvedValue(
+        ok({ repoUrl: 'https://github.com/test-org/test-bot', cloneUrl: 'https://github.com/test-org/test-bot.git' })
+      )
+      mockGitHubPushToRepo.mockResolvedValue(ok(undefined))
+
+      const result = await new Pipeline().run({ ...options, createGitHubRepo: true })
+
+      expect(isOk(result) && result.value.success).toBe(true)
+      expect(mockGitHubPushChanges).toHaveBeenCalled()
+      expect(mockGitHubSetActionsSecret).not.toHaveBeenCalledWith(
+        'test-org',
+        'test-bot',
+        'COOLIFY_TOKEN',
+        expect.anything()
+      )
+      const workflow = mockWriteFileSync.mock.calls.find(([path]) => String(path).endsWith('ci.yml'))?.[1]
+      expect(workflow).not.toContain('deploy:')
+    })
+
+    it('should delete the compose project on rollback', async () => {
+      mockComposeDeploy.mockResolvedValue(err({ code: AppErrorCode.DEPLOY_ERROR, message: 'docker compose up failed' }))
+
+      const result = await new Pipeline().run({ ...options, rollbackOnFailure: true })
+
+      expect(isOk(result) && result.value.success).toBe(false)
+      expect(mockComposeDeleteApp).toHaveBeenCalledWith('test-bot')
+      expect(mockCoolifyDeleteApplication).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('plan() / dryRun', () => {
+    beforeEach(() => {
+      mockConfigGet.mockReturnValue({
+        github: { defaultVisibility: 'private' },
+        coolify: {
+          url: 'https://coolify.test.com',
+          defaultServer: 'server-uuid',
+          defaultDestination: 'dest-uuid',
+          defaultProject: 'project-uuid',
+          defaultEnvironment: 'env-uuid',
+        },
+      })
+
+      mockBotFatherInit.mockResolvedValue(ok(undefined))
+      mockBotFatherCheckUsernameAvailable.mockResolvedValue(ok(true))
+      mockBotFatherDisconnect.mockResolvedValue(ok(undefined))
+      mockGitHubInit.mockResolvedValue(ok(undefined))
+      mockGitHubGetAuthenticatedUser.mockResolvedValue(ok('octocat'))
+      mockGitHubRepoExists.mockResolvedValue(ok(false))
+      mockCoolifyInit.mockResolvedValue(ok(undefined))
+    })
+
+    it('should resolve a full plan without mutating anything', async () => {
+      const pipeline = new Pipeline()
+      const result = await pipeline.run({
+        botName: 'test-bot',
+        targetPath: '/workspace',
+        createGitHubRepo: true,
+        deployToCoolify: true,
+        dryRun: true,
+      })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(true)
+        expect(result.value.runId).toBeUndefined()
+        const plan = result.value.plan!
+        expect(plan.valid).toBe(true)
+        expect(plan.botFather).toEqual({ botUsername: 'test_bot_bot', usernameAvailable: true })
+        expect(plan.scaffold).toEqual({ projectPath: '/workspace/test-bot', template: 'telegram-bot' })
+        expect(plan.github).toEqual({ host: 'github', owner: 'octocat', name: 'test-bot', visibility: 'private' })
+        expect(plan.coolify).toMatchObject({
+          target: 'coolify',
+          serverUuid: 'server-uuid',
+          destinationUuid: 'dest-uuid',
+          projectUuid: 'project-uuid',
+          environmentUuid: 'env-uuid',
+          envVars: {
+            TG_BOT_TOKEN: '<from BotFather>',
+            TG_MODE: 'webhook',
+            TG_ENV: 'production',
+            TG_WEBHOOK_URL: '<application domain>/webhook',
+            TG_WEBHOOK_SECRET: '<generated>',
+          },
+        })
+      }
+
+      expect(mockBotFatherCreateBot).not.toHaveBeenCalled()
+      expect(mockBunSpawn).not.toHaveBeenCalled()
+      expect(mockGitHubCreateRepo).not.toHaveBeenCalled()
+      expect(mockCoolifyCreateApplication).not.toHaveBeenCalled()
+      expect(mockCheckpointSave).not.toHaveBeenCalled()
+    })
+
+    it('should plan the repository on the configured git host', async () => {
+      mockConfigGet.mockReturnValue({
+        git: { host: 'gitea', defaultOwner: 'acme', defaultVisibility: 'private' },
+        coolify: { url: 'https://coolify.test.com' },
+      })
+      mockGitLabInit.mockResolvedValue(ok(undefined))
+      mockGitLabRepoExists.mockResolvedValue(ok(false))
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.plan({
+        botName: 'test-bot',
+        skipBotFather: true,
+        createGitHubRepo: true,
+        gitHost: 'gitlab',
+        deployToCoolify: true,
+      })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.github).toEqual({ host: 'gitlab', owner: 'acme', name: 'test-bot', visibility: 'private' })
+        expect(result.value.issues).toContain(
+          'Coolify needs a deploy key for private GitLab repositories (set coolify.privateKeyUuid)'
+        )
+      }
+      expect(mockGitLabRepoExists).toHaveBeenCalledWith('acme', 'test-bot')
+      expect(mockGitHubInit).not.toHaveBeenCalled()
+    })
+
+    it('should plan a Docker Compose deployment without a repository', async () => {
+      mockComposeInit.mockResolvedValue(ok(undefined))
+      mockComposeHasPublicUrl.mockReturnValue(false)
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.plan({
+        botName: 'test-bot',
+        skipBotFather: true,
+        existingBotToken: 'token-1234567890',
+        deployToCoolify: true,
+        deployTarget: 'docker-compose',
+      })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.valid).toBe(true)
+        expect(result.value.warnings).not.toContain('Coolify deployment requires a repository and will be skipped')
+        expect(result.value.coolify).toEqual({
+          target: 'docker-compose',
+          composeFile: '/deployments/test-bot/compose.yaml',
+          envVars: { TG_BOT_TOKEN: 'token-1234...', TG_MODE: 'polling', TG_ENV: 'production' },
+        })
+        expect(result.value.steps.find((step) => step.step === 'webhook')?.enabled).toBe(false)
+      }
+      expect(mockCoolifyInit).not.toHaveBeenCalled()
+    })
+
+    it('should report an invalid custom template as an issue', async () => {
+      mockTemplateResolve.mockReturnValue(
+        err({ code: AppErrorCode.SCAFFOLD_ERROR, message: 'Unknown template: acme-starter' })
+      )
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.plan({ botName: 'test-bot', template: 'acme-starter', skipBotFather: true })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.valid).toBe(false)
+        expect(result.value.issues).toContain('Unknown template: acme-starter')
+      }
+      expect(mockTemplateResolve).toHaveBeenCalledWith('acme-starter', undefined, {
+        projectName: 'test-bot',
+        botUsername: '',
+        botDescription: '',
+      })
+    })
+
+    it('should report every failed precondition', async () => {
+      mockConfigGet.mockReturnValue({ coolify: { defaultServer: 'server-uuid' } })
+      mockBotFatherCheckUsernameAvailable.mockResolvedValue(ok(false))
+      mockExistsSync.mockReturnValue(true)
+      mockGitHubRepoExists.mockResolvedValue(ok(true))
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.plan({
+        botName: 'test-bot',
+        targetPath: '/workspace',
+        createGitHubRepo: true,
+        deployToCoolify: true,
+      })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.valid).toBe(false)
+        expect(result.value.issues).toEqual([
+          'Bot username @test_bot_bot is not available',
+          'Directory /workspace/test-bot already exists',
+          'Repository octocat/test-bot already exists',
+          'Coolify destination, project, environment not configured',
+        ])
+      }
+    })
+
+    it('should report a failed repository existence check', async () => {
+      mockGitHubRepoExists.mockResolvedValue(
+        err({ code: AppErrorCode.GITHUB_ERROR, message: 'Bad credentials' })
+      )
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.plan({ botName: 'test-bot', createGitHubRepo: true })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.issues).toContain('GitHub: Bad credentials')
+      }
+    })
+
+    it('should return issues as errors from a dry run', async () => {
+      mockBotFatherInit.mockResolvedValue(
+        err({ code: AppErrorCode.BOTFATHER_ERROR, message: 'Telegram API credentials not configured' })
+      )
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.run({ botName: 'test-bot', dryRun: true })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(false)
+        expect(result.value.errors).toEqual(['BotFather: Telegram API credentials not configured'])
+      }
+    })
+
+    it('should use existing bot credentials and mask the token', async () => {
+      const pipeline = new Pipeline()
+      const result = await pipeline.plan({
+        botName: 'test-bot',
+        skipBotFather: true,
+        existingBotToken: '123456789:ABCdefGHIjklMNO',
+        existingBotUsername: 'existing_bot',
+        createGitHubRepo: true,
+        deployToCoolify: true,
+        githubOrg: 'my-org',
+      })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.botFather).toEqual({ botUsername: 'existing_bot' })
+        expect(result.value.github?.owner).toBe('my-org')
+        expect(result.value.coolify?.envVars.TG_BOT_TOKEN).toBe('123456789:...')
+      }
+      expect(mockBotFatherInit).not.toHaveBeenCalled()
+      expect(mockGitHubGetAuthenticatedUser).not.toHaveBeenCalled()
+    })
+
+    it('should warn that the CI workflow has no deploy job without coolify.deployToken', async () => {
+      mockConfigGet.mockReturnValue({ github: { defaultOrg: 'test-org' }, coolify: { url: 'https://coolify.test.com' } })
+      mockGitHubRepoExists.mockResolvedValue(ok(false))
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.plan({ botName: 'test-bot', createGitHubRepo: true, deployToCoolify: true })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.warnings).toContain('coolify.deployToken not set: the CI workflow will have no deploy job')
+      }
+    })
+
+    it('should warn when Coolify is requested without a GitHub repository', async () => {
+      const pipeline = new Pipeline()
+      const result = await pipeline.plan({ botName: 'test-bot', deployToCoolify: true })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.coolify).toBeUndefined()
+        expect(result.value.steps.find((step) => step.step === 'coolify')).toMatchObject({
+          enabled: false,
+          skipReason: 'Disabled for these options',
+        })
+        expect(result.value.warnings).toHaveLength(1)
+      }
+    })
+  })
+
+  describe('steps - Custom steps', () => {
+    beforeEach(() => {
+      mockBotFatherInit.mockResolvedValue(ok(undefined))
+      mockBotFatherCreateBot.mockResolvedValue(
+        ok({ botToken: 'token', botUsername: 'test_bot' })
+      )
+      mockBotFatherDisconnect.mockResolvedValue(ok(undefined))
+
+      mockBunSpawn.mockReturnValue({
+        exited: Promise.resolve(0),
+        stdout: new ReadableStream(),
+        stderr: new ReadableStream(),
+      })
+    })
+
+    it('should register the built-in steps by default', () => {
+      const pipeline = new Pipeline()
+
+      expect(pipeline.steps.list().map((step) => step.name)).toEqual([
+        'botfather',
+        'scaffold',
+        'github',
+        'github-settings',
+        'coolify',
+        'webhook',
+        'ci-workflow',
+      ])
+    })
+
+    it('should run a custom step with the outputs of earlier steps', async () => {
+      const customRun = vi.fn().mockResolvedValue(ok({ databaseUrl: 'postgres://db' }))
+      const pipeline = new Pipeline()
+      pipeline.steps.register(
+        { name: 'database', dependsOn: ['scaffold'], run: customRun },
+        { after: 'scaffold' }
+      )
+
+      const result = await pipeline.run({ botName: 'test-bot' })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(true)
+        expect(result.value.outputs?.databaseUrl).toBe('postgres://db')
+      }
+      expect(customRun.mock.calls[0][0].outputs.projectPath).toContain('test-bot')
+
+      const lastCheckpoint = mockCheckpointSave.mock.calls.at(-1)?.[0]
+      expect(lastCheckpoint.completedSteps).toEqual(['botfather', 'scaffold', 'database'])
+      expect(lastCheckpoint.outputs.databaseUrl).toBe('postgres://db')
+    })
+
+    it('should skip steps whose dependency failed', async () => {
+      const dependentRun = vi.fn().mockResolvedValue(ok({}))
+      const independentRun = vi.fn().mockResolvedValue(ok({}))
+      const pipeline = new Pipeline()
+      pipeline.steps.register({
+        name: 'flaky',
+        run: async () => err({ code: AppErrorCode.UNKNOWN_ERROR, message: 'flaky failed' }),
+      })
+      pipeline.steps.register({ name: 'dependent', dependsOn: ['flaky'], run: dependentRun })
+      pipeline.steps.register({ name: 'independent', run: independentRun })
+
+      const result = await pipeline.run({ botName: 'test-bot' })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(false)
+        expect(result.value.errors).toEqual(['flaky failed'])
+      }
+      expect(dependentRun).not.toHaveBeenCalled()
+      expect(independentRun).toHaveBeenCalled()
+
+      const lastCheckpoint = mockCheckpointSave.mock.calls.at(-1)?.[0]
+      expect(lastCheckpoint.failedStep).toBe('flaky')
+    })
+
+    it('should run a replacement step instead of the built-in one', async () => {
+      const scaffoldRun = vi.fn().mockResolvedValue(ok({ projectPath: '/custom/test-bot' }))
+      const pipeline = new Pipeline()
+      pipeline.steps.replace('scaffold', { name: 'scaffold', run: scaffoldRun })
+
+      const result = await pipeline.run({ botName: 'test-bot' })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.projectPath).toBe('/custom/test-bot')
+      }
+      expect(mockBunSpawn).not.toHaveBeenCalled()
+    })
+
+    it('should not run removed steps', async () => {
+      const pipeline = new Pipeline()
+      pipeline.steps.remove('botfather')
+
+      const result = await pipeline.run({ botName: 'test-bot' })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(true)
+      }
+      expect(mockBotFatherInit).not.toHaveBeenCalled()
+      expect(mockBunSpawn).toHaveBeenCalled()
+    })
+
+    it('should map step progress onto the step weight', async () => {
+      const onProgress = vi.fn()
+      const pipeline = new Pipeline()
+      pipeline.steps.remove('botfather')
+      pipeline.steps.register({
+        name: 'heavy',
+        weight: 3,
+        run: async (ctx) => {
+          ctx.progress(50, 'halfway')
+          return ok({})
+        },
+      })
+
+      await pipeline.run({ botName: 'test-bot', onProgress })
+
+      expect(onProgress).toHaveBeenCalledWith(63, 'halfway', undefined)
+    })
+
+    it('should undo custom steps on rollback', async () => {
+      const undo = vi.fn().mockResolvedValue(ok(undefined))
+      const pipeline = new Pipeline()
+      pipeline.steps.remove('botfather')
+      pipeline.steps.register({ name: 'database', run: async () => ok({}), undo })
+      pipeline.steps.register({
+        name: 'broken',
+        run: async () => err({ code: AppErrorCode.UNKNOWN_ERROR, message: 'broken' }),
+      })
+
+      const result = await pipeline.run({ botName: 'test-bot', rollbackOnFailure: true })
+
+      expect(undo).toHaveBeenCalled()
+      if (isOk(result)) {
+        expect(result.value.rollback?.actions.map((action) => action.step)).toEqual([
+          'database',
+          'scaffold',
+        ])
+      }
+    })
+
+    it('should fail a step that throws and roll back the run', async () => {
+      const onEvent = vi.fn()
+      const pipeline = new Pipeline()
+      pipeline.steps.remove('botfather')
+      pipeline.steps.register({
+        name: 'database',
+        run: async () => ok({}),
+        undo: async () => {
+          throw new Error('undo exploded')
+        },
+      })
+      pipeline.steps.register({
+        name: 'broken',
+        run: async () => {
+          throw new Error('step exploded')
+        },
+      })
+
+      const result = await pipeline.run({ botName: 'test-bot', rollbackOnFailure: true, onEvent })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(false)
+        expect(result.value.errors).toEqual(['step exploded'])
+        expect(result.value.rollback?.success).toBe(false)
+        expect(result.value.rollback?.actions[0]).toMatchObject({
+          step: 'database',
+          success: false,
+          error: 'undo exploded',
+        })
+      }
+      expect(onEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'step:error', step: 'broken', code: AppErrorCode.UNKNOWN_ERROR })
+      )
+
+      const lastCheckpoint = mockCheckpointSave.mock.calls.at(-1)?.[0]
+      expect(lastCheckpoint.status).toBe('rolled-back')
+      expect(lastCheckpoint.failedStep).toBe('broken')
+    })
+
+    it('should fail the run on a dependency cycle', async () => {
+      const pipeline = new Pipeline()
+      pipeline.steps.register({ name: 'a', dependsOn: ['b'], run: async () => ok({}) })
+      pipeline.steps.register({ name: 'b', dependsOn: ['a'], run: async () => ok({}) })
+
+      const result = await pipeline.run({ botName: 'test-bot' })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(false)
+        expect(result.value.errors[0]).toContain('cycle')
+      }
+      expect(mockBotFatherInit).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('runStream() / events', () => {
+    const collect = async (iterable: AsyncIterable<{ type: string }>) => {
+      const events = []
+      for await (const event of iterable) {
+        events.push(event)
+      }
+      return events
+    }
+
+    beforeEach(() => {
+      mockBotFatherInit.mockResolvedValue(ok(undefined))
+      mockBotFatherCreateBot.mockResolvedValue(ok({ botToken: 'token', botUsername: 'test_bot' }))
+      mockBotFatherDisconnect.mockResolvedValue(ok(undefined))
+
+      mockBunSpawn.mockReturnValue({
+        exited: Promise.resolve(0),
+        stdout: new ReadableStream(),
+        stderr: new ReadableStream(),
+      })
+    })
+
+    it('should yield step events in order and end with pipeline:done', async () => {
+      const events = await collect(new Pipeline().runStream({ botName: 'test-bot' }))
+      const lifecycle = events
+        .filter((event) => event.type !== 'step:progress')
+        .map((event) => `${event.type}${'step' in event ? ` ${event.step}` : ''}`)
+
+      expect(lifecycle).toEqual([
+        'step:start botfather',
+        'step:output botfather',
+        'step:done botfather',
+        'step:start scaffold',
+        'step:output scaffold',
+        'step:done scaffold',
+        'pipeline:done',
+      ])
+
+      const done = events.at(-1)
+      expect(done).toMatchObject({ type: 'pipeline:done', success: true, runId: 'run-test-1' })
+      if (done?.type === 'pipeline:done') {
+        expect(done.result?.botUsername).toBe('test_bot')
+      }
+    })
+
+    it('should stamp events with the run, bot and time', async () => {
+      const events = await collect(new Pipeline().runStream({ botName: 'test-bot' }))
+      const start = events[0]
+
+      expect(start).toMatchObject({
+        type: 'step:start',
+        runId: 'run-test-1',
+        botName: 'test-bot',
+        step: 'botfather',
+        index: 0,
+        total: 2,
+      })
+      expect(Number.isNaN(Date.parse(start!.timestamp))).toBe(false)
+    })
+
+    it('should report step progress with overall progress', async () => {
+      const pipeline = new Pipeline()
+      pipeline.steps.register({
+        name: 'custom',
+        run: async (ctx) => {
+          ctx.progress(50, 'Halfway', 'half')
+          return ok({})
+        },
+      })
+
+      const events = await collect(pipeline.runStream({ botName: 'test-bot', skipBotFather: true }))
+
+      expect(events).toContainEqual(
+        expect.objectContaining({
+          type: 'step:progress',
+          step: 'custom',
+          progress: 50,
+          overallProgress: 75,
+          message: 'Halfway',
+          subStep: 'half',
+        })
+      )
+    })
+
+    it('should yield step:error and skip dependent steps on failure', async () => {
+      mockGitHubInit.mockResolvedValue(
+        err({ code: AppErrorCode.GITHUB_ERROR, message: 'No GitHub token' })
+      )
+
+      const events = await collect(
+        new Pipeline().runStream({
+          botName: 'test-bot',
+          skipBotFather: true,
+          createGitHubRepo: true,
+          deployToCoolify: true,
+        })
+      )
+
+      expect(events).toContainEqual(
+        expect.objectContaining({
+          type: 'step:error',
+          step: 'github',
+          code: AppErrorCode.GITHUB_ERROR,
+          error: 'No GitHub token',
+        })
+      )
+      expect(events).toContainEqual(
+        expect.objectContaining({ type: 'step:done', step: 'github', status: 'failed' })
+      )
+      expect(events).toContainEqual(
+        expect.objectContaining({
+          type: 'step:done',
+          step: 'coolify',
+          status: 'skipped',
+          reason: 'github did not complete',
+        })
+      )
+      expect(events.at(-1)).toMatchObject({ type: 'pipeline:done', success: false })
+    })
+
+    it('should end a dry run with pipeline:done carrying the plan', async () => {
+      mockBotFatherCheckUsernameAvailable.mockResolvedValue(ok(true))
+
+      const events = await collect(new Pipeline().runStream({ botName: 'test-bot', dryRun: true }))
+
+      expect(events).toHaveLength(1)
+      expect(events[0]).toMatchObject({ type: 'pipeline:done', success: true, runId: '' })
+      if (events[0]?.type === 'pipeline:done') {
+        expect(events[0].result?.plan).toBeDefined()
+      }
+    })
+
+    it('should call onEvent from run() without persisting it', async () => {
+      const onEvent = vi.fn()
+
+      await new Pipeline().run({ botName: 'test-bot', onEvent })
+
+      expect(onEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'pipeline:done' }))
+      const lastCheckpoint = mockCheckpointSave.mock.calls.at(-1)?.[0]
+      expect(lastCheckpoint.options).not.toHaveProperty('onEvent')
+    })
+
+    it('should keep running when a listener throws', async () => {
+      const onEvent = vi.fn(() => {
+        throw new Error('listener failed')
+      })
+
+      const events = await collect(new Pipeline().runStream({ botName: 'test-bot', onEvent }))
+
+      expect(events.at(-1)).toMatchObject({ type: 'pipeline:done', success: true })
+      expect(onEvent).toHaveBeenCalled()
+    })
+  })
+
+  describe('runBatch()', () => {
+    beforeEach(() => {
+      mockBotFatherInit.mockResolvedValue(ok(undefined))
+      mockBotFatherCreateBot.mockImplementation(async (options: { botName: string }) =>
+        ok({ botToken: 'token', botUsername: `${options.botName.replace(/-/g, '_')}_bot` })
+      )
+      mockBotFatherDisconnect.mockResolvedValue(ok(undefined))
+
+      mockBunSpawn.mockReturnValue({
+        exited: Promise.resolve(0),
+        stdout: new ReadableStream(),
+        stderr: new ReadableStream(),
+      })
+    })
+
+    it('should reject an empty batch', async () => {
+      const result = await new Pipeline().runBatch([])
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.code).toBe(AppErrorCode.VALIDATION_ERROR)
+      }
+    })
+
+    it('should reject duplicate bot names', async () => {
+      const result = await new Pipeline().runBatch([
+        { botName: 'bot-a' },
+        { botName: 'bot-b' },
+        { botName: 'bot-a' },
+      ])
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('bot-a')
+      }
+      expect(mockBotFatherCreateBot).not.toHaveBeenCalled()
+    })
+
+    it('should reject an invalid concurrency', async () => {
+      const result = await new Pipeline().runBatch([{ botName: 'bot-a' }], { concurrency: 0 })
+
+      expect(isErr(result)).toBe(true)
+    })
+
+    it('should run every bot and report each outcome', async () => {
+      mockBotFatherCreateBot.mockImplementation(async (options: { botName: string }) =>
+        options.botName === 'bot-b'
+          ? err({ code: AppErrorCode.BOTFATHER_ERROR, message: 'Username taken' })
+          : ok({ botToken: 'token', botUsername: `${options.botName.replace(/-/g, '_')}_bot` })
+      )
+      const onItemComplete = vi.fn()
+
+      const result = await new Pipeline().runBatch(
+        [{ botName: 'bot-a' }, { botName: 'bot-b' }, { botName: 'bot-c' }],
+        { onItemComplete }
+      )
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value).toMatchObject({ success: false, total: 3, succeeded: 2, failed: 1 })
+        expect(result.value.items.map((item) => item.botName)).toEqual(['bot-a', 'bot-b', 'bot-c'])
+        expect(result.value.items[0]).toMatchObject({ success: true, botUsername: 'bot_a_bot' })
+        expect(result.value.items[1]?.success).toBe(false)
+        expect(result.value.items[1]?.errors[0]).toContain('Username taken')
+        expect(JSON.stringify(result.value)).not.toContain('token')
+      }
+      expect(onItemComplete).toHaveBeenCalledTimes(3)
+    })
+
+    it('should run the BotFather step for one bot at a time', async () => {
+      let active = 0
+      let maxActive = 0
+      mockBotFatherCreateBot.mockImplementation(async (options: { botName: string }) => {
+        active++
+        maxActive = Math.max(maxActive, active)
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        active--
+        return ok({ botToken: 'token', botUsername: `${options.botName}_bot` })
+      })
+
+      const result = await new Pipeline().runBatch(
+        [{ botName: 'bot-a' }, { botName: 'bot-b' }, { botName: 'bot-c' }],
+        { concurrency: 3 }
+      )
+
+      expect(isOk(result)).toBe(true)
+      expect(mockBotFatherCreateBot).toHaveBeenCalledTimes(3)
+      expect(maxActive).toBe(1)
+    })
+
+    it('should retry the BotFather step after a flood wait', async () => {
+      mockBotFatherCreateBot
+        .mockResolvedValueOnce(err({ code: AppErrorCode.BOTFATHER_ERROR, message: 'FLOOD_WAIT_0' }))
+        .mockResolvedValueOnce(ok({ botToken: 'token', botUsername: 'bot_a_bot' }))
+
+      const result = await new Pipeline().runBatch([{ botName: 'bot-a' }], {
+        floodWaitBaseDelayMs: 1,
+      })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(true)
+        expect(result.value.floodWaits).toBe(1)
+      }
+      expect(mockBotFatherCreateBot).toHaveBeenCalledTimes(2)
+    })
+
+    it('should report progress per bot', async () => {
+      const onProgress = vi.fn()
+
+      await new Pipeline().runBatch([{ botName: 'bot-a' }, { botName: 'bot-b' }], { onProgress })
+
+      const botNames = new Set(onProgress.mock.calls.map((call) => call[0]))
+      expect(botNames).toEqual(new Set(['bot-a', 'bot-b']))
+    })
+
+    it('should leave the pipeline steps unchanged', async () => {
+      const pipeline = new Pipeline()
+      const botFatherStep = pipeline.steps.get('botfather')
+
+      await pipeline.runBatch([{ botName: 'bot-a' }])
+
+      expect(pipeline.steps.get('botfather')).toBe(botFatherStep)
+    })
+  })
+
+  describe('destroy()', () => {
+    beforeEach(() => {
+      mockGetCoolifyUrl.mockReturnValue('https://coolify.test.com')
+      mockGetCoolifyToken.mockReturnValue('coolify-token')
+      mockCoolifyInit.mockResolvedValue(ok(undefined))
+      mockCoolifyListApplications.mockResolvedValue(
+        ok([
+          { uuid: 'other-uuid', name: 'other-bot' },
+          { uuid: 'app-uuid-123', name: 'test-bot' },
+        ])
+      )
+      mockCoolifyStopApplication.mockResolvedValue(ok({}))
+      mockCoolifyDeleteApplication.mockResolvedValue(ok({ success: true }))
+
+      mockGitHubInit.mockResolvedValue(ok(undefined))
+      mockGitHubRepoExists.mockResolvedValue(ok(true))
+      mockGitHubDeleteRepo.mockResolvedValue(ok(undefined))
+      mockGitHubArchiveRepo.mockResolvedValue(ok(undefined))
+
+      mockBotFatherInit.mockResolvedValue(ok(undefined))
+      mockBotFatherListBots.mockResolvedValue(ok(['@test_bot_bot', '@other_bot']))
+      mockBotFatherDeleteBot.mockResolvedValue(ok(undefined))
+      mockBotFatherDisconnect.mockResolvedValue(ok(undefined))
+      mockBotFatherListBotEnvs.mockResolvedValue(ok([{ username: 'test_bot_bot', environments: ['local'] }]))
+      mockBotFatherRemoveBotEnv.mockResolvedValue(ok(undefined))
+
+      mockExistsSync.mockReturnValue(true)
+      mockOrigin('https://github.com/test-org/test-bot.git')
+    })
+
+    const mockOrigin = (url: string | undefined) => {
+      mockBunSpawn.mockImplementation(() => ({
+        exited: Promise.resolve(url ? 0 : 2),
+        stdout: new ReadableStream({
+          start(controller) {
+            if (url) {
+              controller.enqueue(new TextEncoder().encode(`${url}\n`))
+            }
+            controller.close()
+          },
+        }),
+        stderr: new ReadableStream({ start: (controller) => controller.close() }),
+      }))
+    }
+
+    it('should remove the bot from every system in order', async () => {
+      const pipeline = new Pipeline()
+      const result = await pipeline.destroy({ botName: 'test-bot', targetPath: '/projects' })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(true)
+        expect(result.value.botUsername).toBe('test_bot_bot')
+        expect(result.value.actions.map((action) => [action.target, action.status])).toEqual([
+          ['coolify', 'done'],
+          ['github', 'done'],
+          ['botfather', 'done'],
+          ['envs', 'done'],
+          ['workspace', 'done'],
+        ])
+      }
+      expect(mockCoolifyStopApplication).toHaveBeenCalledWith('app-uuid-123')
+      expect(mockCoolifyDeleteApplication).toHaveBeenCalledWith('app-uuid-123')
+      expect(mockGitHubDeleteRepo).toHaveBeenCalledWith('test-org', 'test-bot')
+      expect(mockBotFatherDeleteBot).toHaveBeenCalledWith('test_bot_bot')
+      expect(mockBotFatherDisconnect).toHaveBeenCalled()
+      expect(mockBotFatherRemoveBotEnv).toHaveBeenCalledWith('test_bot_bot')
+      expect(mockRmSync).toHaveBeenCalledWith('/projects/test-bot', { recursive: true, force: true })
+    })
+
+    it('should reject bot names that are paths', async () => {
+      const pipeline = new Pipeline()
+
+      for (const botName of ['../api', 'bots/api', '..']) {
+        const result = await pipeline.destroy({ botName, keepRepo: true })
+
+        expect(isErr(result) && result.error.code).toBe(AppErrorCode.VALIDATION_ERROR)
+      }
+      expect(mockRmSync).not.toHaveBeenCalled()
+    })
+
+    it('should leave a workspace whose origin is another repository', async () => {
+      mockOrigin('git@github.com:acme/api.git')
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.destroy({ botName: 'test-bot', targetPath: '/projects' })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.actions[4]).toEqual({
+          target: 'workspace',
+          status: 'skipped',
+          message:
+            '/projects/test-bot left in place: its origin git@github.com:acme/api.git is not the test-bot repository',
+        })
+      }
+      expect(mockRmSync).not.toHaveBeenCalled()
+    })
+
+    it('should only remove a workspace without origin when package.json names the bot', async () => {
+      mockOrigin(undefined)
+      mockReadFileSync.mockReturnValue(JSON.stringify({ name: 'api' }))
+
+      const pipeline = new Pipeline()
+      const skipped = await pipeline.destroy({ botName: 'test-bot', targetPath: '/projects' })
+
+      expect(isOk(skipped) && skipped.value.actions[4]?.status).toBe('skipped')
+      expect(mockRmSync).not.toHaveBeenCalled()
+
+      mockReadFileSync.mockReturnValue(JSON.stringify({ name: 'test-bot' }))
+      const removed = await pipeline.destroy({ botName: 'test-bot', targetPath: '/projects' })
+
+      expect(isOk(removed) && removed.value.actions[4]?.status).toBe('done')
+      expect(mockReadFileSync).toHaveBeenCalledWith('/projects/test-bot/package.json', 'utf-8')
+      expect(mockRmSync).toHaveBeenCalledWith('/projects/test-bot', { recursive: true, force: true })
+    })
+
+    it('should archive the repository with archiveRepo', async () => {
+      const pipeline = new Pipeline()
+      const result = await pipeline.destroy({ botName: 'test-bot', archiveRepo: true })
+
+      expect(isOk(result)).toBe(true)
+      expect(mockGitHubArchiveRepo).toHaveBeenCalledWith('test-org', 'test-bot')
+      expect(mockGitHubDeleteRepo).not.toHaveBeenCalled()
+    })
+
+    it('should remove the repository from the chosen git host', async () => {
+      mockGitLabInit.mockResolvedValue(ok(undefined))
+      mockGitLabGetAuthenticatedUser.mockResolvedValue(ok('jdoe'))
+      mockGitLabRepoExists.mockResolvedValue(ok(true))
+      mockGitLabArchiveRepo.mockResolvedValue(ok(undefined))
+      mockConfigGet.mockReturnValue({ github: { defaultOrg: 'test-org' } })
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.destroy({ botName: 'test-bot', gitHost: 'gitlab', archiveRepo: true })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.actions).toContainEqual({
+          target: 'github',
+          status: 'done',
+          message: 'Repository jdoe/test-bot archived',
+        })
+      }
+      expect(mockGitLabArchiveRepo).toHaveBeenCalledWith('jdoe', 'test-bot')
+      expect(mockGitHubRepoExists).not.toHaveBeenCalled()
+    })
+
+    it('should leave the repository alone with keepRepo', async () => {
+      const pipeline = new Pipeline()
+      const result = await pipeline.destroy({ botName: 'test-bot', keepRepo: true })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.actions[1]).toMatchObject({ target: 'github', status: 'skipped' })
+      }
+      expect(mockGitHubInit).not.toHaveBeenCalled()
+      expect(mockGitHubDeleteRepo).not.toHaveBeenCalled()
+    })
+
+    it('should reject keepRepo together with archiveRepo', async () => {
+      const pipeline = new Pipeline()
+      const result = await pipeline.destroy({ botName: 'test-bot', keepRepo: true, archiveRepo: true })
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.code).toBe(AppErrorCode.VALIDATION_ERROR)
+      }
+      expect(mockCoolifyInit).not.toHaveBeenCalled()
+    })
+
+    it('should report missing resources as not found and succeed', async () => {
+      mockCoolifyListApplications.mockResolvedValue(ok([]))
+      mockGitHubRepoExists.mockResolvedValue(ok(false))
+      mockBotFatherListBots.mockResolvedValue(ok(['@other_bot']))
+      mockBotFatherListBotEnvs.mockResolvedValue(ok([]))
+      mockExistsSync.mockReturnValue(false)
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.destroy({ botName: 'test-bot' })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(true)
+        expect(result.value.actions.every((action) => action.status === 'not_found')).toBe(true)
+      }
+      expect(mockCoolifyDeleteApplication).not.toHaveBeenCalled()
+      expect(mockGitHubDeleteRepo).not.toHaveBeenCalled()
+      expect(mockBotFatherDeleteBot).not.toHaveBeenCalled()
+      expect(mockBotFatherRemoveBotEnv).not.toHaveBeenCalled()
+      expect(mockRmSync).not.toHaveBeenCalled()
+    })
+
+    it('should fail the repository action when the existence check fails', async () => {
+      mockGitHubRepoExists.mockResolvedValue(
+        err({ code: AppErrorCode.GITHUB_ERROR, message: 'Bad credentials' })
+      )
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.destroy({ botName: 'test-bot' })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(false)
+        expect(result.value.actions[1]).toEqual({ target: 'github', status: 'failed', message: 'Bad credentials' })
+      }
+      expect(mockGitHubDeleteRepo).not.toHaveBeenCalled()
+    })
+
+    it('should continue after a failure and report it', async () => {
+      mockCoolifyDeleteApplication.mockResolvedValue(
+        err({ code: AppErrorCode.COOLIFY_ERROR, message: 'Coolify unavailable' })
+      )
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.destroy({ botName: 'test-bot' })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.success).toBe(false)
+        expect(result.value.actions[0]).toEqual({
+          target: 'coolify',
+          status: 'failed',
+          message: 'Coolify unavailable',
+        })
+        expect(result.value.actions.slice(1).every((action) => action.status === 'done')).toBe(true)
+      }
+    })
+
+    it('should skip Coolify when it is not configured and use the given app UUID otherwise', async () => {
+      mockGetCoolifyToken.mockReturnValue(undefined)
+
+      const pipeline = new Pipeline()
+      const skipped = await pipeline.destroy({ botName: 'test-bot' })
+
+      expect(isOk(skipped) && skipped.value.actions[0]?.status).toBe('skipped')
+      expect(mockCoolifyInit).not.toHaveBeenCalled()
+
+      mockGetCoolifyToken.mockReturnValue('coolify-token')
+      await pipeline.destroy({ botName: 'test-bot', coolifyAppUuid: 'explicit-uuid' })
+
+      expect(mockCoolifyListApplications).not.toHaveBeenCalled()
+      expect(mockCoolifyDeleteApplication).toHaveBeenCalledWith('explicit-uuid')
+    })
+
+    it('should stop and delete the compose project with the Docker Compose target', async () => {
+      mockComposeInit.mockResolvedValue(ok(undefined))
+      mockComposeFindApp.mockResolvedValue(ok('test-bot'))
+      mockComposeStop.mockResolvedValue(ok(undefined))
+      mockComposeDeleteApp.mockResolvedValue(ok(undefined))
+
+      const pipeline = new Pipeline()
+      const result = await pipeline.destroy({ botName: 'test-bot', deployTarget: 'docker-compose' })
+
+      expect(isOk(result) && result.value.actions[0]).toEqual({
+        target: 'coolify',
+        status: 'done',
+        message: 'Compose application test-bot stopped and deleted',
+      })
+      expect(mockComposeFindApp).toHaveBeenCalledWith('test-bot')
+      expect(mockComposeStop).toHaveBeenCalledWith('test-bot')
+      expect(mockComposeDeleteApp).toHaveBeenCalledWith('test-bot')
+      expect(mockCoolifyInit).not.toHaveBeenCalled()
+    })
   })
 
   describe('getPipeline() singleton', () => {
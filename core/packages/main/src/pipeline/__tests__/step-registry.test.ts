@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest'
+import { isOk, isErr, ok } from '@mks2508/no-throw'
+import { PipelineStepRegistry } from '../step-registry.js'
+import type { IPipelineStep } from '../../types/index.js'
+
+const step = (name: string, dependsOn?: string[]): IPipelineStep => ({
+  name,
+  dependsOn,
+  run: async () => ok({}),
+})
+
+const names = (steps: IPipelineStep[]): string[] => steps.map((s) => s.name)
+
+describe('PipelineStepRegistry', () => {
+  describe('register()', () => {
+    it('should append steps in registration order', () => {
+      const registry = new PipelineStepRegistry()
+      registry.register(step('a'))
+      registry.register(step('b'))
+
+      expect(names(registry.list())).toEqual(['a', 'b'])
+    })
+
+    it('should insert before and after a registered step', () => {
+      const registry = new PipelineStepRegistry()
+      registry.register(step('a'))
+      registry.register(step('c'))
+      registry.register(step('b'), { before: 'c' })
+      registry.register(step('d'), { after: 'c' })
+
+      expect(names(registry.list())).toEqual(['a', 'b', 'c', 'd'])
+    })
+
+    it('should reject duplicate names', () => {
+      const registry = new PipelineStepRegistry()
+      registry.register(step('a'))
+      const result = registry.register(step('a'))
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('already registered')
+      }
+    })
+
+    it('should reject an unknown anchor', () => {
+      const registry = new PipelineStepRegistry()
+      const result = registry.register(step('a'), { after: 'missing' })
+
+      expect(isErr(result)).toBe(true)
+      expect(registry.has('a')).toBe(false)
+    })
+  })
+
+  describe('replace()', () => {
+    it('should replace a step in place', () => {
+      const registry = new PipelineStepRegistry()
+      registry.register(step('a'))
+      registry.register(step('b'))
+      const replacement = step('b')
+
+      const result = registry.replace('b', replacement)
+
+      expect(isOk(result)).toBe(true)
+      expect(registry.get('b')).toBe(replacement)
+      expect(names(registry.list())).toEqual(['a', 'b'])
+    })
+
+    it('should return error for an unknown step', () => {
+      const registry = new PipelineStepRegistry()
+      expect(isErr(registry.replace('missing', step('missing')))).toBe(true)
+    })
+
+    it('should reject renaming onto another registered step', () => {
+      const registry = new PipelineStepRegistry()
+      registry.register(step('a'))
+      registry.register(step('b'))
+
+      expect(isErr(registry.replace('a', step('b')))).toBe(true)
+    })
+  })
+
+  describe('remove()', () => {
+    it('should remove a step', () => {
+      const registry = new PipelineStepRegistry()
+      registry.register(step('a'))
+      registry.register(step('b'))
+
+      const result = registry.remove('a')
+
+      expect(isOk(result)).toBe(true)
+      expect(names(registry.list())).toEqual(['b'])
+    })
+
+    it('should return error for an unknown step', () => {
+      const registry = new PipelineStepRegistry()
+      expect(isErr(registry.remove('missing'))).toBe(true)
+    })
+  })
+
+  describe('resolve()', () => {
+    it('should move steps after their dependencies', () => {
+      const registry = new PipelineStepRegistry()
+      registry.register(step('deploy', ['build']))
+      registry.register(step('notify'))
+      registry.register(step('build'))
+
+      const result = registry.resolve()
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(names(result.value)).toEqual(['build', 'deploy', 'notify'])
+      }
+    })
+
+    it('should ignore dependencies that are not registered', () => {
+      const registry = new PipelineStepRegistry()
+      registry.register(step('a', ['removed']))
+
+      const result = registry.resolve()
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(names(result.value)).toEqual(['a'])
+      }
+    })
+
+    it('should return error on a dependency cycle', () => {
+      const registry = new PipelineStepRegistry()
+      registry.register(step('a', ['b']))
+      registry.register(step('b', ['a']))
+
+      const result = registry.resolve()
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('a -> b -> a')
+      }
+    })
+  })
+})
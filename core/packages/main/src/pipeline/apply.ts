@@ -0,0 +1,669 @@
+/**
+ * Declarative manifest apply for mks-bot-father.
+ *
+ * @module
+ */
+
+import { existsSync } from 'node:fs'
+import { join } from 'node:path'
+import { ok, err, isErr, isOk, type Result, type ResultError } from '@mks2508/no-throw'
+import { createLogger, log as fileLog } from '../utils/index.js'
+import { getConfigService } from '../services/config.service.js'
+import { getBotFatherService } from '../services/botfather.service.js'
+import { getGitHubService } from '../services/github.service.js'
+import { getCoolifyService } from '../services/coolify.service.js'
+import { getTelegramBotApiService } from '../services/telegram-bot-api.service.js'
+import { getManifestService } from '../services/manifest.service.js'
+import { ScaffoldStep, GitHubStep, CoolifyStep, buildCoolifyEnvVars } from './steps/index.js'
+import {
+  type IBotManifest,
+  type IManifestApplyResult,
+  type IManifestChange,
+  type IManifestDiff,
+  type IManifestState,
+  type IPipelineContext,
+  type IPipelineStep,
+  type IProgressCallback,
+  ManifestResource,
+} from '../types/index.js'
+import { AppErrorCode } from '../types/errors.js'
+
+const log = createLogger('ManifestApplier')
+
+/**
+ * Options for applying a manifest.
+ */
+export interface IManifestApplyOptions {
+  /** Progress callback */
+  onProgress?: IProgressCallback
+}
+
+/**
+ * Computes the difference between a bot manifest and the real state
+ * (BotFather, `.envs`, GitHub, Coolify) and converges it.
+ *
+ * Apply only performs the changes in the diff, so applying the same
+ * manifest twice is a no-op. Missing resources are created with the
+ * built-in pipeline steps.
+ *
+ * Coolify environment variables cannot be read back; the hash of the last
+ * applied set is recorded locally and compared instead.
+ *
+ * @example
+ * ```typescript
+ * const manifest = getManifestService().load('mbf.bot.yaml')
+ * if (isOk(manifest)) {
+ *   const result = await getManifestApplier().apply(manifest.value)
+ * }
+ * ```
+ */
+export class ManifestApplier {
+  private configService = getConfigService()
+  private botFatherService = getBotFatherService()
+  private botApiService = getTelegramBotApiService()
+  private githubService = getGitHubService()
+  private coolifyService = getCoolifyService()
+  private manifestService = getManifestService()
+
+  /**
+   * Computes the changes needed to converge the real state to a manifest.
+   *
+   * Read-only: nothing is created or modified.
+   *
+   * @param manifest - Bot manifest
+   * @returns Result with the diff or error
+   */
+  async diff(manifest: IBotManifest): Promise<Result<IManifestDiff, ResultError<string>>> {
+    const startTime = Date.now()
+    const botUsername =
+      manifest.username?.replace(/^@/, '') ||
+      this.botFatherService.generateBotUsername(manifest.name)
+    const state: IManifestState = { botUsername, botExists: false }
+    const changes: IManifestChange[] = []
+
+    fileLog.info('MANIFEST', 'Computing diff', { name: manifest.name, botUsername })
+
+    const botFatherResult = await this.diffBotFather(manifest, state, changes)
+    if (isErr(botFatherResult)) {
+      return botFatherResult
+    }
+
+    if (manifest.github) {
+      const githubResult = await this.diffGitHub(manifest, state, changes)
+      if (isErr(githubResult)) {
+        return githubResult
+      }
+    }
+
+    if (manifest.coolify) {
+      const coolifyResult = await this.diffCoolify(manifest, state, changes)
+      if (isErr(coolifyResult)) {
+        return coolifyResult
+      }
+    }
+
+    fileLog.info('MANIFEST', 'Diff computed', {
+      botUsername,
+      changes: changes.length,
+      duration_ms: Date.now() - startTime
+    })
+
+    return ok({ manifest, state, changes, hasChanges: changes.length > 0 })
+  }
+
+  /**
+   * Applies a manifest: computes the diff and performs its changes in order.
+   *
+   * Stops at the first failing change; re-running apply continues from there.
+   *
+   * @param manifest - Bot manifest
+   * @param options - Apply options
+   * @returns Result with the applied changes or error if the diff failed
+   */
+  async apply(
+    manifest: IBotManifest,
+    options: IManifestApplyOptions = {}
+  ): Promise<Result<IManifestApplyResult, ResultError<string>>> {
+    const diffResult = await this.diff(manifest)
+    if (isErr(diffResult)) {
+      return diffResult
+    }
+
+    return ok(await this.applyDiff(diffResult.value, options))
+  }
+
+  /**
+   * Performs the changes of a previously computed diff.
+   *
+   * @param diff - Diff from {@link ManifestApplier.diff}
+   * @param options - Apply options
+   * @returns Apply result
+   */
+  async applyDiff(
+    diff: IManifestDiff,
+    options: IManifestApplyOptions = {}
+  ): Promise<IManifestApplyResult> {
+    const startTime = Date.now()
+    const { manifest, state, changes } = diff
+    const result: IManifestApplyResult = {
+      success: true,
+      botUsername: state.botUsername,
+      applied: [],
+      errors: [],
+      githubRepoUrl: state.githubRepoUrl,
+      coolifyAppUuid: state.coolifyAppUuid,
+    }
+
+    if (!diff.hasChanges) {
+      log.info('Manifest already applied, nothing to do')
+      return result
+    }
+
+    const ctx: IPipelineContext = {
+      runId: `apply-${state.botUsername}`,
+      options: this.manifestService.toPipelineOptions(manifest),
+      outputs: {
+        botUsername: state.botUsername,
+        botToken: state.botToken,
+        githubRepoUrl: state.githubRepoUrl,
+        coolifyAppUuid: state.coolifyAppUuid,
+      },
+      progress: () => {},
+    }
+
+    fileLog.info('MANIFEST', 'Applying manifest', {
+      botUsername: state.botUsername,
+      changes: changes.length
+    })
+
+    const needsTelegram = changes.some(
+      (change) => change.resource === ManifestResource.BotFather
+    )
+    if (needsTelegram) {
+      const initResult = await this.botFatherService.init()
+      if (isErr(initResult)) {
+        result.success = false
+        result.errors.push(initResult.error.message)
+        return result
+      }
+    }
+
+    try {
+      for (const [index, change] of changes.entries()) {
+        // Each change takes an equal share of the overall progress
+        ctx.progress = (pct, msg, step) =>
+          options.onProgress?.(
+            Math.round(((index + pct / 100) / changes.length) * 100),
+            msg,
+            step
+          )
+        ctx.progress(0, describeChange(change), `${change.resource}_${change.field}`)
+
+        const changeResult = await this.applyChange(change, manifest, state, ctx)
+        if (isErr(changeResult)) {
+          log.error(`${describeChange(change)} failed: ${changeResult.error.message}`)
+          fileLog.error('MANIFEST', 'Change failed', {
+            resource: change.resource,
+            field: change.field,
+            error: changeResult.error.message
+          })
+          result.success = false
+          result.errors.push(changeResult.error.message)
+          break
+        }
+
+        result.applied.push(change)
+      }
+    } finally {
+      if (needsTelegram) {
+        const disconnectResult = await this.botFatherService.disconnect()
+        if (isErr(disconnectResult)) {
+          log.warn('Failed to disconnect from Telegram:', disconnectResult.error.message)
+        }
+      }
+    }
+
+    result.githubRepoUrl = ctx.outputs.githubRepoUrl
+    result.coolifyAppUuid = ctx.outputs.coolifyAppUuid
+
+    if (result.success) {
+      options.onProgress?.(100, 'Manifest applied', 'done')
+    }
+
+    fileLog.info('MANIFEST', 'Manifest apply finished', {
+      botUsername: state.botUsername,
+      success: result.success,
+      applied: result.applied.length,
+      duration_ms: Date.now() - startTime
+    })
+
+    return result
+  }
+
+  /**
+   * Diffs the bot, its profile, its commands and its `.envs` entry.
+   *
+   * @param manifest - Bot manifest
+   * @param state - State being discovered
+   * @param changes - Changes being collected
+   * @returns Result indicating success or error
+   */
+  private async diffBotFather(
+    manifest: IBotManifest,
+    state: IManifestState,
+    changes: IManifestChange[]
+  ): Promise<Result<void, ResultError<string>>> {
+    const botUsername = state.botUsername
+
+    const initResult = await this.botFatherService.init()
+    if (isErr(initResult)) {
+      return initResult
+    }
+
+    try {
+      const botsResult = await this.botFatherService.listBots()
+      if (isErr(botsResult)) {
+        return botsResult
+      }
+
+      state.botExists = botsResult.value.some(
+        (username) => username.replace(/^@/, '').toLowerCase() === botUsername.toLowerCase()
+      )
+
+      if (!state.botExists) {
+        changes.push({
+          resource: ManifestResource.BotFather,
+          field: 'bot',
+          action: 'create',
+          to: `@${botUsername}`,
+        })
+        if (manifest.commands) {
+          changes.push({
+            resource: ManifestResource.BotFather,
+            field: 'commands',
+            action: 'create',
+            to: manifest.commands,
+          })
+        }
+        return ok(undefined)
+      }
+
+      const infoResult = await this.botFatherService.getBotInfo(botUsername)
+      if (isErr(infoResult)) {
+        return infoResult
+      }
+
+      const info = infoResult.value
+      const profile: Array<[string, string | undefined, string | undefined]> = [
+        ['name', info.name, manifest.name],
+        ['description', info.description, manifest.description],
+        ['about', info.about, manifest.about],
+      ]
+      for (const [field, current, desired] of profile) {
+        if (desired !== undefined && (current ?? '') !== desired) {
+          changes.push({
+            resource: ManifestResource.BotFather,
+            field,
+            action: 'update',
+            from: current,
+            to: desired,
+          })
+        }
+      }
+
+      const envResult = await this.botFatherService.getBotEnv(botUsername)
+      if (isErr(envResult)) {
+        return envResult
+      }
+
+      state.botToken = envResult.value?.botToken
+      if (!state.botToken) {
+        const tokensResult = await this.botFatherService.getAllBotsWithTokens()
+        if (isErr(tokensResult)) {
+          return tokensResult
+        }
+
+        state.botToken = tokensResult.value.find(
+          (bot) => bot.username.replace(/^@/, '').toLowerCase() === botUsername.toLowerCase()
+        )?.token
+        if (!state.botToken) {
+          return err({
+            code: AppErrorCode.BOTFATHER_ERROR,
+            message: `No token found for @${botUsername}`,
+          })
+        }
+
+        changes.push({ resource: ManifestResource.Env, field: 'token', action: 'create' })
+      }
+
+      if (manifest.commands) {
+        const commandsResult = await this.botApiService.getMyCommands(state.botToken)
+        if (isErr(commandsResult)) {
+          return commandsResult
+        }
+
+        const current = commandsResult.value.map(({ command, description }) => ({
+          command,
+          description,
+        }))
+        if (JSON.stringify(current) !== JSON.stringify(manifest.commands)) {
+          changes.push({
+            resource: ManifestResource.BotFather,
+            field: 'commands',
+            action: 'update',
+            from: current,
+            to: manifest.commands,
+          })
+        }
+      }
+
+      return ok(undefined)
+    } finally {
+      await this.botFatherService.disconnect()
+    }
+  }
+
+  /**
+   * Diffs the GitHub repository and its settings.
+   *
+   * @param manifest - Bot manifest
+   * @param state - State being discovered
+   * @param changes - Changes being collected
+   * @returns Result indicating success or error
+   */
+  private async diffGitHub(
+    manifest: IBotManifest,
+    state: IManifestState,
+    changes: IManifestChange[]
+  ): Promise<Result<void, ResultError<string>>> {
+    const initResult = await this.githubService.init()
+    if (isErr(initResult)) {
+      return initResult
+    }
+
+    const config = this.configService.get()
+    state.githubOwner = manifest.github?.org || config.github?.defaultOrg
+    if (!state.githubOwner) {
+      const userResult = await this.githubService.getAuthenticatedUser()
+      if (isErr(userResult)) {
+        return userResult
+      }
+      state.githubOwner = userResult.value
+    }
+
+    if (!state.githubOwner) {
+      return err({ code: AppErrorCode.GITHUB_ERROR, message: 'Cannot resolve GitHub owner' })
+    }
+
+    const repoResult = await this.githubService.getRepo(state.githubOwner, manifest.name)
+    if (isErr(repoResult)) {
+      return repoResult
+    }
+
+    const repo = repoResult.value
+    if (!repo) {
+      changes.push({
+        resource: ManifestResource.GitHub,
+        field: 'repo',
+        action: 'create',
+        to: `${state.githubOwner}/${manifest.name}`,
+      })
+      return ok(undefined)
+    }
+
+    state.githubRepoUrl = repo.repoUrl
+
+    const visibility = manifest.github?.visibility ?? config.github?.defaultVisibility
+    const currentVisibility = repo.private ? 'private' : 'public'
+    if (visibility && visibility !== currentVisibility) {
+      changes.push({
+        resource: ManifestResource.GitHub,
+        field: 'visibility',
+        action: 'update',
+        from: currentVisibility,
+        to: visibility,
+      })
+    }
+
+    if (manifest.description !== undefined && (repo.description ?? '') !== manifest.description) {
+      changes.push({
+        resource: ManifestResource.GitHub,
+        field: 'description',
+        action: 'update',
+        from: repo.description,
+        to: manifest.description,
+      })
+    }
+
+    return ok(undefined)
+  }
+
+  /**
+   * Diffs the Coolify application and its environment variables.
+   *
+   * @param manifest - Bot manifest
+   * @param state - State being discovered
+   * @param changes - Changes being collected
+   * @returns Result indicating success or error
+   */
+  private async diffCoolify(
+    manifest: IBotManifest,
+    state: IManifestState,
+    changes: IManifestChange[]
+  ): Promise<Result<void, ResultError<string>>> {
+    const initResult = await this.coolifyService.init()
+    if (isErr(initResult)) {
+      return initResult
+    }
+
+    const appsResult = await this.coolifyService.listApplications()
+    if (isErr(appsResult)) {
+      return appsResult
+    }
+
+    const app = appsResult.value.find((candidate) => candidate.name === manifest.name)
+    if (!app) {
+      changes.push({
+        resource: ManifestResource.Coolify,
+        field: 'app',
+        action: 'create',
+        to: manifest.name,
+      })
+      return ok(undefined)
+    }
+
+    state.coolifyAppUuid = app.uuid
+
+    const envVars = buildCoolifyEnvVars(state.botToken, manifest.env)
+    const hash = this.manifestService.hashEnv(envVars)
+    if (hash !== this.manifestService.getAppliedEnvHash(state.botUsername)) {
+      changes.push({
+        resource: ManifestResource.Coolify,
+        field: 'env',
+        action: 'update',
+        // Values may be secrets, so only the names are reported
+        to: Object.keys(envVars),
+      })
+    }
+
+    return ok(undefined)
+  }
+
+  /**
+   * Performs a single change.
+   *
+   * @param change - Change to perform
+   * @param manifest - Bot manifest
+   * @param state - Discovered state
+   * @param ctx - Pipeline context shared by the changes
+   * @returns Result indicating success or error
+   */
+  private async applyChange(
+    change: IManifestChange,
+    manifest: IBotManifest,
+    state: IManifestState,
+    ctx: IPipelineContext
+  ): Promise<Result<void, ResultError<string>>> {
+    const botUsername = state.botUsername
+
+    switch (`${change.resource}.${change.field}`) {
+      case 'botfather.bot': {
+        const createResult = await this.botFatherService.createBot(
+          {
+            botName: manifest.name,
+            botUsername,
+            description: manifest.description,
+            aboutText: manifest.about,
+          },
+          ctx.progress
+        )
+        if (isErr(createResult)) {
+          return createResult
+        }
+        ctx.outputs.botToken = createResult.value.botToken
+        ctx.outputs.botUsername = createResult.value.botUsername
+        return ok(undefined)
+      }
+
+      case 'botfather.name':
+        return this.botFatherService.setName(botUsername, manifest.name)
+
+      case 'botfather.description':
+        return this.botFatherService.setDescription(botUsername, manifest.description ?? '')
+
+      case 'botfather.about':
+        return this.botFatherService.setAboutText(botUsername, manifest.about ?? '')
+
+      case 'botfather.commands':
+        return this.botFatherService.setCommands(botUsername, manifest.commands ?? [])
+
+      case 'env.token':
+        return this.botFatherService.saveBotEnv(botUsername, state.botToken ?? '')
+
+      case 'github.repo': {
+        const projectPath = join(ctx.options.targetPath || process.cwd(), manifest.name)
+        if (existsSync(projectPath)) {
+          log.info(`Using existing project at ${projectPath}`)
+          ctx.outputs.projectPath = projectPath
+        } else {
+          const scaffoldResult = await this.runStep(new ScaffoldStep(), ctx)
+          if (isErr(scaffoldResult)) {
+            return scaffoldResult
+          }
+        }
+        return this.runStep(new GitHubStep(), ctx)
+      }
+
+      case 'github.visibility':
+        return this.githubService.updateRepo(state.githubOwner!, manifest.name, {
+          private: change.to === 'private',
+        })
+
+      case 'github.description':
+        return this.githubService.updateRepo(state.githubOwner!, manifest.name, {
+          description: manifest.description,
+        })
+
+      case 'coolify.app': {
+        const stepResult = await this.runStep(new CoolifyStep(), ctx)
+        if (isErr(stepResult)) {
+          return stepResult
+        }
+        return this.recordEnv(manifest, state, ctx)
+      }
+
+      case 'coolify.env': {
+        const appUuid = ctx.outputs.coolifyAppUuid!
+        const envResult = await this.coolifyService.setEnvironmentVariables(
+          appUuid,
+          buildCoolifyEnvVars(ctx.outputs.botToken, manifest.env)
+        )
+        if (isErr(envResult)) {
+          return envResult
+        }
+
+        // Running containers only pick up new variables on restart
+        const restartResult = await this.coolifyService.restartApplication(appUuid)
+        if (isErr(restartResult)) {
+          return restartResult
+        }
+        return this.recordEnv(manifest, state, ctx)
+      }
+
+      default:
+        return err({
+          code: AppErrorCode.VALIDATION_ERROR,
+          message: `Unsupported change: ${change.resource}.${change.field}`,
+        })
+    }
+  }
+
+  /**
+   * Runs a pipeline step and merges its outputs into the context.
+   *
+   * @param step - Step to run
+   * @param ctx - Pipeline context
+   * @returns Result indicating success or error
+   */
+  private async runStep(
+    step: IPipelineStep,
+    ctx: IPipelineContext
+  ): Promise<Result<void, ResultError<string>>> {
+    const stepResult = await step.run(ctx)
+    if (isErr(stepResult)) {
+      return stepResult
+    }
+    Object.assign(ctx.outputs, stepResult.value)
+    return ok(undefined)
+  }
+
+  /**
+   * Records the hash of the Coolify environment variables just applied.
+   *
+   * @param manifest - Bot manifest
+   * @param state - Discovered state
+   * @param ctx - Pipeline context
+   * @returns Result indicating success or error
+   */
+  private recordEnv(
+    manifest: IBotManifest,
+    state: IManifestState,
+    ctx: IPipelineContext
+  ): Result<void, ResultError<string>> {
+    const hash = this.manifestService.hashEnv(
+      buildCoolifyEnvVars(ctx.outputs.botToken, manifest.env)
+    )
+    const saveResult = this.manifestService.saveAppliedEnvHash(state.botUsername, hash)
+    if (isOk(saveResult)) {
+      return saveResult
+    }
+    // The change itself succeeded; the next apply will just re-apply the env
+    log.warn('Failed to record applied env:', saveResult.error.message)
+    return ok(undefined)
+  }
+}
+
+/**
+ * Describes a change for progress messages.
+ *
+ * @param change - Manifest change
+ * @returns Human-readable description
+ */
+export function describeChange(change: IManifestChange): string {
+  const verb = change.action === 'create' ? 'Create' : 'Update'
+  return `${verb} ${change.resource} ${change.field}`
+}
+
+let instance: ManifestApplier | null = null
+
+/**
+ * Gets the singleton ManifestApplier instance.
+ *
+ * @returns The ManifestApplier instance
+ */
+export function getManifestApplier(): ManifestApplier {
+  if (!instance) {
+    instance = new ManifestApplier()
+  }
+  return instance
+}
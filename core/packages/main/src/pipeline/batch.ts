@@ -0,0 +1,172 @@
+/**
+ * Concurrency helpers for batch pipeline runs.
+ *
+ * @module
+ */
+
+import { isErr, type Result, type ResultError } from '@mks2508/no-throw'
+import { createLogger, log as fileLog } from '../utils/index.js'
+import type { IPipelineContext, IPipelineStep } from '../types/index.js'
+
+const log = createLogger('PipelineBatch')
+
+/**
+ * Mutual exclusion lock: callers run one at a time, in call order.
+ */
+export interface ILock {
+  /**
+   * Runs a function once every earlier caller has finished.
+   *
+   * @param fn - Function to run exclusively
+   * @returns The function's result
+   */
+  run<T>(fn: () => Promise<T>): Promise<T>
+}
+
+/**
+ * Creates a {@link ILock}.
+ *
+ * @returns New lock
+ */
+export function createLock(): ILock {
+  let tail: Promise<unknown> = Promise.resolve()
+
+  return {
+    run<T>(fn: () => Promise<T>): Promise<T> {
+      const result = tail.then(fn)
+      // Later callers wait for this one whether it resolves or rejects
+      tail = result.catch(() => undefined)
+      return result
+    },
+  }
+}
+
+/**
+ * Runs a worker over items with at most `limit` in flight.
+ *
+ * @param items - Items to process
+ * @param limit - Maximum concurrent workers
+ * @param worker - Async worker
+ * @returns Worker results, in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = []
+  let next = 0
+
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await worker(items[index]!, index)
+    }
+  })
+
+  await Promise.all(runners)
+  return results
+}
+
+/**
+ * Extracts the wait time from a Telegram flood-wait error.
+ *
+ * Recognizes MTProto errors (`FLOOD_WAIT_30`, "A wait of 30 seconds is
+ * required") and BotFather replies ("Please try again in 30 seconds").
+ *
+ * @param message - Error message
+ * @returns Seconds to wait (0 if flooded without a duration), or undefined if not a flood error
+ */
+export function parseFloodWait(message: string): number | undefined {
+  const match =
+    message.match(/FLOOD_WAIT_(\d+)/i) ??
+    message.match(/wait of (\d+) seconds?/i) ??
+    message.match(/try again in (\d+) seconds?/i)
+
+  if (match) {
+    return Number(match[1])
+  }
+
+  return /flood|too many (attempts|requests)/i.test(message) ? 0 : undefined
+}
+
+/**
+ * Options for {@link serializeStep}.
+ */
+export interface ISerializeStepOptions {
+  /** Lock shared by every run of the batch */
+  lock: ILock
+  /** Retries after a flood-wait error */
+  floodWaitRetries: number
+  /** Backoff base when the error carries no wait time */
+  floodWaitBaseDelayMs: number
+  /** Called before each flood-wait retry */
+  onFloodWait?: (ctx: IPipelineContext, delayMs: number, attempt: number) => void
+}
+
+/**
+ * Wraps a step so concurrent runs execute it one at a time, retrying with
+ * backoff when Telegram reports a flood wait.
+ *
+ * Used for the BotFather step: it shares a single MTProto session and
+ * BotFather rate-limits per account.
+ *
+ * @param step - Step to wrap
+ * @param options - Lock and retry options
+ * @returns Wrapped step with the same name, dependencies and weight
+ */
+export function serializeStep(step: IPipelineStep, options: ISerializeStepOptions): IPipelineStep {
+  const withRetries = async <T>(
+    ctx: IPipelineContext,
+    fn: () => Promise<Result<T, ResultError<string>>>
+  ): Promise<Result<T, ResultError<string>>> => {
+    for (let attempt = 1; ; attempt++) {
+      const result = await fn()
+      if (!isErr(result) || attempt > options.floodWaitRetries) {
+        return result
+      }
+
+      const waitSeconds = parseFloodWait(result.error.message)
+      if (waitSeconds === undefined) {
+        return result
+      }
+
+      const delayMs =
+        waitSeconds > 0
+          ? waitSeconds * 1000 + 1000
+          : options.floodWaitBaseDelayMs * 2 ** (attempt - 1)
+
+      log.warn(`${step.name} flood wait for ${ctx.options.botName}: retrying in ${delayMs}ms`)
+      fileLog.warn('PIPELINE', 'Flood wait, retrying step', {
+        runId: ctx.runId,
+        step: step.name,
+        attempt,
+        delay_ms: delayMs,
+      })
+      options.onFloodWait?.(ctx, delayMs, attempt)
+      await sleep(delayMs)
+    }
+  }
+
+  return {
+    name: step.name,
+    description: step.description,
+    dependsOn: step.dependsOn,
+    weight: step.weight,
+    enabled: step.enabled && ((pipelineOptions) => step.enabled!(pipelineOptions)),
+    run: (ctx) => {
+      ctx.progress(0, `Waiting for ${step.description ?? step.name}`, `${step.name}_queued`)
+      return options.lock.run(() => withRetries(ctx, () => step.run(ctx)))
+    },
+    undo: step.undo && ((ctx) => options.lock.run(() => withRetries(ctx, () => step.undo!(ctx)))),
+  }
+}
+
+/**
+ * Waits for a duration.
+ *
+ * @param ms - Milliseconds to wait
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
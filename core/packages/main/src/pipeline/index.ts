@@ -5,3 +5,30 @@
  */
 
 export { Pipeline, getPipeline } from './pipeline.js'
+export { PipelineStepRegistry } from './step-registry.js'
+export {
+  ManifestApplier,
+  getManifestApplier,
+  describeChange,
+  type IManifestApplyOptions,
+} from './apply.js'
+export {
+  createLock,
+  mapWithConcurrency,
+  parseFloodWait,
+  serializeStep,
+  type ILock,
+  type ISerializeStepOptions,
+} from './batch.js'
+export {
+  BotFatherStep,
+  ScaffoldStep,
+  GitHubStep,
+  GitHubSettingsStep,
+  CoolifyStep,
+  WebhookStep,
+  CiWorkflowStep,
+  createDefaultStepRegistry,
+  resolveGitHubHardening,
+  buildCiWorkflow,
+} from './steps/index.js'
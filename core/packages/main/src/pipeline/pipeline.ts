@@ -4,21 +4,51 @@
  * @module
  */
 
-import { existsSync } from 'node:fs'
+import { existsSync, readFileSync, rmSync } from 'node:fs'
 import { join } from 'node:path'
-import { ok, err, isErr, type Result, type ResultError } from '@mks2508/no-throw'
+import { ok, err, isErr, tryCatch, tryCatchAsync, type Result, type ResultError } from '@mks2508/no-throw'
 import { createLogger, log as fileLog } from '../utils/index.js'
 import { getConfigService } from '../services/config.service.js'
-import { getGitHubService } from '../services/github.service.js'
-import { getCoolifyService } from '../services/coolify.service.js'
+import { GIT_HOST_LABELS, getGitHostDefaults, getGitHostProvider, resolveGitHost } from '../services/git-host.js'
+import { DEPLOY_TARGET_LABELS, getDeployTarget, resolveDeployTarget } from '../services/deploy-target.js'
+import { getDockerComposeService } from '../services/docker-compose.service.js'
 import { getBotFatherService } from '../services/botfather.service.js'
+import { getCheckpointService } from '../services/checkpoint.service.js'
+import { getGitService } from '../services/git.service.js'
+import { getTemplateService } from '../services/template.service.js'
+import { PipelineStepRegistry } from './step-registry.js'
+import {
+  createDefaultStepRegistry,
+  buildCoolifyEnvVars,
+  resolveGitHubHardening,
+  DEFAULT_WEBHOOK_PATH,
+} from './steps/index.js'
+import { createLock, mapWithConcurrency, serializeStep } from './batch.js'
 import {
   type IPipelineOptions,
   type IPipelineResult,
-  type IBotFatherStepResult,
-  type IScaffoldStepResult,
-  type IGitHubStepResult,
-  type ICoolifyStepResult,
+  type IPipelineCheckpoint,
+  type IPipelineResumeOptions,
+  type IPipelineStepOutputs,
+  type IPipelinePlan,
+  type IGitHubPlan,
+  type IPipelineContext,
+  type IPipelineStep,
+  type IRollbackReport,
+  type IBatchOptions,
+  type IBatchItemResult,
+  type IBatchResult,
+  type IPipelineEvent,
+  type IPipelineDoneEvent,
+  type IDestroyOptions,
+  type IDestroyResult,
+  type IDestroyAction,
+  DeployTarget,
+  DestroyActionStatus,
+  DestroyTarget,
+  GitHost,
+  PipelineEventType,
+  PipelineStep,
   TemplateType,
 } from '../types/index.js'
 import { AppErrorCode } from '../types/errors.js'
@@ -26,7 +56,44 @@ import { AppErrorCode } from '../types/errors.js'
 const log = createLogger('Pipeline')
 
 /**
- * Pipeline orchestrator that runs the complete bot automation flow.
+ * Pipeline event without the fields filled in by the emitter.
+ */
+type IPipelineEventPayload<E = IPipelineEvent> = E extends IPipelineEvent
+  ? Omit<E, 'runId' | 'botName' | 'timestamp'>
+  : never
+
+/** Default number of pipelines a batch runs at once */
+const DEFAULT_BATCH_CONCURRENCY = 3
+
+/** Default BotFather retries after a flood-wait error */
+const DEFAULT_FLOOD_WAIT_RETRIES = 3
+
+/** Default flood-wait backoff base when Telegram gives no wait time */
+const DEFAULT_FLOOD_WAIT_BASE_DELAY_MS = 5000
+
+/**
+ * Calls step code, turning a throw or rejection into an `UNKNOWN_ERROR`.
+ *
+ * Custom steps are user code, so a throwing step must fail like one that
+ * returns an error instead of escaping the run.
+ *
+ * @param fn - Step `run` or `undo` call
+ * @returns The step's Result, or the error it threw
+ */
+async function callStep<T>(
+  fn: () => Promise<Result<T, ResultError<string>>>
+): Promise<Result<T, ResultError<string>>> {
+  const result = await tryCatchAsync(fn, AppErrorCode.UNKNOWN_ERROR)
+  return isErr(result) ? result : result.value
+}
+
+/**
+ * Pipeline orchestrator that runs the registered steps.
+ *
+ * The built-in steps (BotFather → scaffold → GitHub → GitHub settings → Coolify → webhook →
+ * CI workflow) are default
+ * registrations in {@link Pipeline.steps}; custom steps can be inserted,
+ * replaced or removed there.
  *
  * @example
  * ```typescript
@@ -43,414 +110,1279 @@ const log = createLogger('Pipeline')
  * } else {
  *   console.error('Error:', result.error.message)
  * }
+ *
+ * // Add a custom stage after the GitHub step
+ * pipeline.steps.register(
+ *   { name: 'changelog', dependsOn: ['github'], run: async (ctx) => ok({}) },
+ *   { after: 'github' }
+ * )
+ *
+ * // Continue a failed run from its first incomplete step
+ * if (isOk(result) && !result.value.success && result.value.runId) {
+ *   await pipeline.resume(result.value.runId)
+ * }
+ *
+ * // Preview what a run would do without mutating anything
+ * const preview = await pipeline.plan({ botName: 'my-bot', deployToCoolify: true })
+ * if (isOk(preview) && !preview.value.valid) {
+ *   console.error('Preconditions failed:', preview.value.issues)
+ * }
+ *
+ * // Or undo everything the run created when it fails
+ * const atomic = await pipeline.run({ botName: 'my-bot', rollbackOnFailure: true })
+ * if (isOk(atomic) && atomic.value.rollback) {
+ *   console.log('Rolled back:', atomic.value.rollback.actions.length, 'steps')
+ * }
+ *
+ * // Decommission a bot everywhere, keeping its code archived on GitHub
+ * await pipeline.destroy({ botName: 'my-bot', archiveRepo: true })
  * ```
  */
 export class Pipeline {
-  private githubService = getGitHubService()
-  private coolifyService = getCoolifyService()
+  /** Registered pipeline steps */
+  readonly steps: PipelineStepRegistry
+
   private configService = getConfigService()
   private botFatherService = getBotFatherService()
+  private checkpointService = getCheckpointService()
+  private gitService = getGitService()
+  private templateService = getTemplateService()
+
+  /**
+   * Creates a pipeline.
+   *
+   * @param steps - Step registry (defaults to the built-in steps)
+   */
+  constructor(steps: PipelineStepRegistry = createDefaultStepRegistry()) {
+    this.steps = steps
+  }
 
   /**
    * Runs the complete pipeline.
    *
+   * Every run gets a run ID and a checkpoint under the config directory that
+   * records the outputs of each completed step, so a failed run can be
+   * continued with {@link Pipeline.resume}.
+   *
+   * With `rollbackOnFailure`, a failed run instead calls `undo` on every step
+   * it ran (Coolify app, GitHub repo, scaffolded dir, `.envs` entry and
+   * BotFather bot for the built-in steps) in reverse order and reports the
+   * outcome in `rollback`.
+   *
+   * With `dryRun`, nothing is created (not even a checkpoint): the result
+   * carries the {@link Pipeline.plan} and its issues as errors.
+   *
    * @param options - Pipeline options
    * @returns Result with pipeline execution result or error
    */
   async run(options: IPipelineOptions): Promise<Result<IPipelineResult, ResultError<typeof AppErrorCode.UNKNOWN_ERROR>>> {
-    const result: IPipelineResult = {
-      success: false,
-      errors: [],
+    if (options.dryRun) {
+      const planResult = await this.plan(options)
+      if (isErr(planResult)) {
+        return err(planResult.error)
+      }
+
+      const plan = planResult.value
+      return ok({
+        success: plan.valid,
+        projectPath: plan.scaffold.projectPath,
+        botUsername: plan.botFather?.botUsername,
+        errors: [...plan.issues],
+        plan,
+      })
     }
 
+    const checkpoint = this.checkpointService.create(options)
+    this.persistCheckpoint(checkpoint)
+
+    return ok(await this.execute(options, checkpoint))
+  }
+
+  /**
+   * Runs the pipeline and yields its events as they happen.
+   *
+   * Same run as {@link Pipeline.run}: steps yield `step:start`, then
+   * `step:progress`, then `step:output` and `step:done` on success or
+   * `step:error` and `step:done` on failure; steps that do not run yield a
+   * single `step:done` with status `skipped`. The last event is always
+   * `pipeline:done`, carrying the result (or the error when the run could
+   * not start). Events are buffered, so a slow consumer misses nothing;
+   * breaking out of the loop early does not cancel the run.
+   *
+   * @param options - Pipeline options (`onProgress` and `onEvent` still fire)
+   * @returns Async iterable of pipeline events
+   *
+   * @example
+   * ```typescript
+   * for await (const event of getPipeline().runStream({ botName: 'my-bot' })) {
+   *   switch (event.type) {
+   *     case 'step:start':
+   *       console.log(`[${event.index + 1}/${event.total}] ${event.description ?? event.step}`)
+   *       break
+   *     case 'step:progress':
+   *       console.log(`  ${event.overallProgress}% ${event.message}`)
+   *       break
+   *     case 'pipeline:done':
+   *       console.log(event.success ? 'Done' : `Failed: ${event.result?.errors ?? event.error}`)
+   *   }
+   * }
+   * ```
+   */
+  async *runStream(options: IPipelineOptions): AsyncGenerator<IPipelineEvent, void, undefined> {
+    const queue: IPipelineEvent[] = []
+    let wake: (() => void) | undefined
+    let finished = false
+    let done = false
     const startTime = Date.now()
 
-    log.info(`Starting pipeline for bot: ${options.botName}`)
-    fileLog.pipelineStart({
-      botName: options.botName,
-      options: {
-        skipBotFather: options.skipBotFather,
-        createGitHubRepo: options.createGitHubRepo,
-        deployToCoolify: options.deployToCoolify
-      }
-    })
+    const push = (event: IPipelineEvent) => {
+      done = done || event.type === PipelineEventType.PipelineDone
+      queue.push(event)
+      wake?.()
+    }
 
-    // Step 1: BotFather automation
-    if (!options.skipBotFather) {
-      fileLog.pipelineStep('botfather', { botName: options.botName })
-      const botResult = await this.runBotFatherStep(options)
-      if (isErr(botResult)) {
-        result.errors.push(botResult.error.message)
-        fileLog.pipelineStepError('botfather', botResult.error.message)
-        fileLog.pipelineComplete({
+    // Dry runs and runs that fail to start never reach finish(), so their
+    // pipeline:done is emitted here
+    const pushDone = (event: Pick<IPipelineDoneEvent, 'success' | 'result' | 'error'>) => {
+      if (!done) {
+        const doneEvent: IPipelineDoneEvent = {
+          type: PipelineEventType.PipelineDone,
+          runId: event.result?.runId ?? '',
           botName: options.botName,
-          success: false,
+          timestamp: new Date().toISOString(),
           durationMs: Date.now() - startTime,
-          stepsCompleted: 0,
-          errors: result.errors
-        })
-        return ok(result)
+          ...event,
+        }
+        push(doneEvent)
+        try {
+          options.onEvent?.(doneEvent)
+        } catch (error) {
+          log.warn(`Pipeline event listener failed: ${error instanceof Error ? error.message : String(error)}`)
+        }
       }
-      result.botToken = botResult.value.token
-      result.botUsername = botResult.value.username
-      fileLog.info('PIPELINE_STEP', 'BotFather step completed', {
-        botUsername: result.botUsername
+    }
+
+    const running = this.run({
+      ...options,
+      onEvent: (event) => {
+        push(event)
+        options.onEvent?.(event)
+      },
+    })
+      .then(
+        (runResult) =>
+          isErr(runResult)
+            ? pushDone({ success: false, error: runResult.error.message })
+            : pushDone({ success: runResult.value.success, result: runResult.value }),
+        (error: unknown) =>
+          pushDone({ success: false, error: error instanceof Error ? error.message : String(error) })
+      )
+      .finally(() => {
+        finished = true
+        wake?.()
       })
-    } else if (options.existingBotToken) {
-      result.botToken = options.existingBotToken
-      result.botUsername = options.existingBotUsername
-      fileLog.info('PIPELINE_STEP', 'Using existing bot credentials', {
-        botUsername: result.botUsername
+
+    while (queue.length > 0 || !finished) {
+      const event = queue.shift()
+      if (event) {
+        yield event
+        continue
+      }
+      await new Promise<void>((resolve) => {
+        wake = resolve
       })
+      wake = undefined
     }
 
-    // Step 2: Scaffold project with bunspace
-    fileLog.pipelineStep('scaffold', { botName: options.botName })
-    const scaffoldResult = await this.runScaffoldStep(options)
-    if (isErr(scaffoldResult)) {
-      result.errors.push(scaffoldResult.error.message)
-      fileLog.pipelineStepError('scaffold', scaffoldResult.error.message)
-      fileLog.pipelineComplete({
-        botName: options.botName,
-        success: false,
-        durationMs: Date.now() - startTime,
-        stepsCompleted: 1,
-        errors: result.errors
+    await running
+  }
+
+  /**
+   * Builds a dry-run plan: resolves everything a run would use and validates
+   * its preconditions without creating anything.
+   *
+   * Checks the generated bot username is available, the project directory
+   * does not exist, the GitHub repository does not exist yet and the Coolify
+   * server/destination/project/environment are configured. Read-only service
+   * calls are made (Telegram login, GitHub and Coolify API reads).
+   *
+   * @param options - Pipeline options
+   * @returns Result with the plan (failed preconditions are listed in `issues`)
+   *
+   * @example
+   * ```typescript
+   * const result = await getPipeline().plan({ botName: 'my-bot', createGitHubRepo: true })
+   * if (isOk(result)) {
+   *   console.log(result.value.github?.owner, result.value.issues)
+   * }
+   * ```
+   */
+  async plan(options: IPipelineOptions): Promise<Result<IPipelinePlan, ResultError<typeof AppErrorCode.UNKNOWN_ERROR>>> {
+    const startTime = Date.now()
+    log.info(`Planning pipeline for bot: ${options.botName}`)
+
+    const config = this.configService.get()
+    const deployTarget = resolveDeployTarget(options.deployTarget, config)
+
+    const plan: IPipelinePlan = {
+      botName: options.botName,
+      steps: [],
+      scaffold: {
+        projectPath: join(options.targetPath || process.cwd(), options.botName),
+        template: options.template || TemplateType.TelegramBot,
+      },
+      issues: [],
+      warnings: [],
+      valid: false,
+    }
+
+    const orderResult = this.steps.resolve()
+    if (isErr(orderResult)) {
+      plan.issues.push(orderResult.error.message)
+    } else {
+      plan.steps = orderResult.value.map((step) => {
+        const enabled = this.isEnabled(step, options)
+        return {
+          step: step.name,
+          enabled,
+          skipReason: enabled ? undefined : 'Disabled for these options',
+        }
       })
-      return ok(result)
     }
-    fileLog.info('PIPELINE_STEP', 'Scaffold step completed', {
-      projectPath: scaffoldResult.value.projectPath
-    })
 
-    // Step 3: Create GitHub repository
-    if (options.createGitHubRepo && scaffoldResult.value.projectPath) {
-      fileLog.pipelineStep('github', { botName: options.botName, projectPath: scaffoldResult.value.projectPath })
-      const githubResult = await this.runGitHubStep(
-        options,
-        scaffoldResult.value.projectPath
-      )
-      if (isErr(githubResult)) {
-        result.errors.push(githubResult.error.message)
-        fileLog.pipelineStepError('github', githubResult.error.message)
+    const isPlanned = (name: string): boolean =>
+      plan.steps.some((step) => step.step === name && step.enabled)
+
+    // BotFather: username that would be registered
+    if (!isPlanned(PipelineStep.BotFather)) {
+      plan.botFather = { botUsername: options.existingBotUsername }
+      if (!options.existingBotToken) {
+        plan.warnings.push('No bot token available: TG_BOT_TOKEN will not be set')
+      }
+    } else {
+      const botUsername = this.botFatherService.generateBotUsername(options.botName)
+      plan.botFather = { botUsername }
+
+      const initResult = await this.botFatherService.init()
+      if (isErr(initResult)) {
+        plan.issues.push(`BotFather: ${initResult.error.message}`)
       } else {
-        result.githubRepoUrl = githubResult.value.repoUrl
-        fileLog.info('PIPELINE_STEP', 'GitHub step completed', {
-          repoUrl: result.githubRepoUrl
-        })
+        const availableResult = await this.botFatherService.checkUsernameAvailable(botUsername)
+        if (isErr(availableResult)) {
+          plan.issues.push(`BotFather: ${availableResult.error.message}`)
+        } else {
+          plan.botFather.usernameAvailable = availableResult.value
+          if (!availableResult.value) {
+            plan.issues.push(`Bot username @${botUsername} is not available`)
+          }
+        }
+        await this.botFatherService.disconnect()
+      }
+    }
+
+    // Scaffold: target directory must not exist
+    if (isPlanned(PipelineStep.Scaffold) && existsSync(plan.scaffold.projectPath)) {
+      plan.issues.push(`Directory ${plan.scaffold.projectPath} already exists`)
+    }
+
+    // Scaffold: custom template must be registered and its variables valid
+    if (isPlanned(PipelineStep.Scaffold) && !this.templateService.isBuiltin(plan.scaffold.template)) {
+      const templateResult = this.templateService.resolve(plan.scaffold.template, options.templateVariables, {
+        projectName: options.botName,
+        botUsername: plan.botFather?.botUsername ?? '',
+        botDescription: options.botDescription ?? '',
+      })
+      if (isErr(templateResult)) {
+        plan.issues.push(templateResult.error.message)
       }
     }
 
-    // Step 4: Deploy to Coolify
-    if (options.deployToCoolify && result.githubRepoUrl) {
-      fileLog.pipelineStep('coolify', { botName: options.botName, repoUrl: result.githubRepoUrl })
-      const coolifyResult = await this.runCoolifyStep(options, result)
-      if (isErr(coolifyResult)) {
-        result.errors.push(coolifyResult.error.message)
-        fileLog.pipelineStepError('coolify', coolifyResult.error.message)
+    // Git host: owner, visibility and name collision
+    if (isPlanned(PipelineStep.GitHub)) {
+      const host = resolveGitHost(options.gitHost, config)
+      const defaults = getGitHostDefaults(host, config)
+      const github: IGitHubPlan = {
+        host,
+        owner: options.githubOrg || defaults.owner,
+        name: options.botName,
+        visibility: (options.githubVisibility ?? defaults.visibility) === 'private' ? 'private' : 'public',
+      }
+      plan.github = github
+
+      if (isPlanned(PipelineStep.GitHubSettings)) {
+        github.hardening = resolveGitHubHardening(config.github)
+      }
+
+      const provider = getGitHostProvider(host)
+      const label = GIT_HOST_LABELS[host]
+      const initResult = await provider.init()
+      if (isErr(initResult)) {
+        plan.issues.push(`${label}: ${initResult.error.message}`)
       } else {
-        result.coolifyAppUuid = coolifyResult.value.appUuid
-        result.deploymentUrl = coolifyResult.value.deploymentUrl
-        fileLog.info('PIPELINE_STEP', 'Coolify step completed', {
-          appUuid: result.coolifyAppUuid,
-          deploymentUrl: result.deploymentUrl
-        })
+        if (!github.owner) {
+          const userResult = await provider.getAuthenticatedUser()
+          if (isErr(userResult)) {
+            plan.issues.push(`${label}: ${userResult.error.message}`)
+          } else {
+            github.owner = userResult.value
+          }
+        }
+
+        if (github.owner) {
+          const existsResult = await provider.repoExists(github.owner, github.name)
+          if (isErr(existsResult)) {
+            plan.issues.push(`${label}: ${existsResult.error.message}`)
+          } else if (existsResult.value) {
+            plan.issues.push(`Repository ${github.owner}/${github.name} already exists`)
+          }
+        }
+      }
+
+      if (
+        host !== GitHost.GitHub &&
+        isPlanned(PipelineStep.Coolify) &&
+        deployTarget === DeployTarget.Coolify &&
+        github.visibility === 'private' &&
+        !config.coolify?.privateKeyUuid
+      ) {
+        plan.issues.push(`Coolify needs a deploy key for private ${label} repositories (set coolify.privateKeyUuid)`)
       }
     }
 
-    result.success = result.errors.length === 0
-    const durationMs = Date.now() - startTime
-    const stepsCompleted = result.errors.length === 0 ? 4 : (result.errors.length > 0 ? 1 + (result.githubRepoUrl ? 1 : 0) : 0)
+    if (
+      isPlanned(PipelineStep.CiWorkflow) &&
+      isPlanned(PipelineStep.Coolify) &&
+      deployTarget === DeployTarget.Coolify &&
+      !config.coolify?.deployToken
+    ) {
+      plan.warnings.push('coolify.deployToken not set: the CI workflow will have no deploy job')
+    }
 
-    if (result.success) {
-      log.success('Pipeline completed successfully')
-    } else {
-      log.warn(`Pipeline completed with ${result.errors.length} error(s)`)
+    // Deployment: target, resolved Coolify UUIDs and env vars
+    if (options.deployToCoolify && !options.createGitHubRepo && deployTarget === DeployTarget.Coolify) {
+      plan.warnings.push('Coolify deployment requires a repository and will be skipped')
     }
 
-    fileLog.pipelineComplete({
+    if (isPlanned(PipelineStep.Coolify)) {
+      const target = getDeployTarget(deployTarget)
+      const botToken = isPlanned(PipelineStep.BotFather)
+        ? '<from BotFather>'
+        : options.existingBotToken && `${options.existingBotToken.slice(0, 10)}...`
+
+      plan.coolify = {
+        target: deployTarget,
+        ...(deployTarget === DeployTarget.Coolify
+          ? {
+              url: config.coolify?.url,
+              serverUuid: options.coolifyServer || config.coolify?.defaultServer,
+              destinationUuid: options.coolifyDestination || config.coolify?.defaultDestination,
+              projectUuid: options.coolifyProject || config.coolify?.defaultProject,
+              environmentUuid: options.coolifyEnvironment || config.coolify?.defaultEnvironment,
+            }
+          : { composeFile: getDockerComposeService().getComposeFile(options.botName) }),
+        // Extra variable values may be secrets, so the plan only lists their names
+        envVars: buildCoolifyEnvVars(
+          botToken,
+          Object.fromEntries(
+            Object.keys(options.coolifyEnvVars ?? {}).map((key) => [key, '<hidden>'])
+          ),
+          target.hasPublicUrl()
+        ),
+      }
+
+      // Set by the webhook step once the application domain is known
+      if (botToken && isPlanned(PipelineStep.Webhook)) {
+        plan.coolify.envVars.TG_WEBHOOK_URL = `<application domain>${options.webhookPath ?? DEFAULT_WEBHOOK_PATH}`
+        plan.coolify.envVars.TG_WEBHOOK_SECRET = '<generated>'
+      }
+
+      if (deployTarget === DeployTarget.Coolify) {
+        const missing = [
+          ['server', plan.coolify.serverUuid],
+          ['destination', plan.coolify.destinationUuid],
+          ['project', plan.coolify.projectUuid],
+          ['environment', plan.coolify.environmentUuid],
+        ]
+          .filter(([, uuid]) => !uuid)
+          .map(([name]) => name)
+
+        if (missing.length > 0) {
+          plan.issues.push(`Coolify ${missing.join(', ')} not configured`)
+        }
+      } else if (!plan.coolify.composeFile) {
+        plan.issues.push(`Compose: ${options.botName} does not give a valid compose project name`)
+      }
+
+      const initResult = await target.init()
+      if (isErr(initResult)) {
+        plan.issues.push(`${DEPLOY_TARGET_LABELS[deployTarget]}: ${initResult.error.message}`)
+      }
+    }
+
+    plan.valid = plan.issues.length === 0
+
+    fileLog.info('PIPELINE', 'Pipeline plan created', {
       botName: options.botName,
-      success: result.success,
-      durationMs,
-      stepsCompleted,
-      errors: result.errors
+      valid: plan.valid,
+      issues: plan.issues,
+      duration_ms: Date.now() - startTime,
     })
+    return ok(plan)
+  }
 
-    return ok(result)
+  /**
+   * Resumes a failed pipeline run from its first incomplete step.
+   *
+   * Steps recorded as completed in the checkpoint are skipped and their
+   * outputs (bot token, project path, repository URL...) are reused.
+   *
+   * @param runId - Run ID returned by a previous {@link Pipeline.run}
+   * @param resumeOptions - Options for the resumed run
+   * @returns Result with pipeline execution result or error
+   *
+   * @example
+   * ```typescript
+   * const result = await getPipeline().resume('lxk3q9a1-4f2c9e1b')
+   * if (isOk(result) && result.value.success) {
+   *   console.log('Run completed:', result.value.githubRepoUrl)
+   * }
+   * ```
+   */
+  async resume(
+    runId: string,
+    resumeOptions: IPipelineResumeOptions = {}
+  ): Promise<Result<IPipelineResult, ResultError<typeof AppErrorCode.CHECKPOINT_ERROR>>> {
+    const loadResult = this.checkpointService.load(runId)
+    if (isErr(loadResult)) {
+      return err(loadResult.error)
+    }
+
+    const checkpoint = loadResult.value
+
+    if (checkpoint.status === 'completed') {
+      return err({
+        code: AppErrorCode.CHECKPOINT_ERROR,
+        message: `Run ${runId} already completed`,
+      })
+    }
+
+    if (checkpoint.status === 'rolled-back') {
+      return err({
+        code: AppErrorCode.CHECKPOINT_ERROR,
+        message: `Run ${runId} was rolled back and cannot be resumed`,
+      })
+    }
+
+    const options: IPipelineOptions = {
+      ...checkpoint.options,
+      onProgress: resumeOptions.onProgress,
+      onEvent: resumeOptions.onEvent,
+    }
+
+    log.info(`Resuming run ${runId} (completed steps: ${checkpoint.completedSteps.join(', ') || 'none'})`)
+    fileLog.info('PIPELINE', 'Resuming pipeline run', {
+      runId,
+      completedSteps: checkpoint.completedSteps,
+      failedStep: checkpoint.failedStep,
+    })
+
+    return ok(await this.execute(options, checkpoint))
   }
 
   /**
-   * Runs the BotFather automation step.
+   * Runs a pipeline for each bot, several at a time.
    *
-   * @param options - Pipeline options
-   * @returns Result with bot token and username or error
+   * The BotFather step shares one Telegram session and is rate-limited per
+   * account, so it runs one bot at a time and is retried with backoff on
+   * flood-wait errors; the other steps run concurrently. Each bot gets its
+   * own run ID and checkpoint, so failed bots can be resumed individually.
+   *
+   * @param items - Pipeline options for each bot
+   * @param batchOptions - Concurrency, retry and progress options
+   * @returns Result with the per-bot outcomes or error if the batch is invalid
+   *
+   * @example
+   * ```typescript
+   * const result = await getPipeline().runBatch(
+   *   [{ botName: 'bot-a' }, { botName: 'bot-b', createGitHubRepo: true }],
+   *   { concurrency: 2, onProgress: (bot, pct, msg) => console.log(bot, pct, msg) }
+   * )
+   * if (isOk(result)) {
+   *   console.log(`${result.value.succeeded}/${result.value.total} bots created`)
+   * }
+   * ```
    */
-  private async runBotFatherStep(
-    options: IPipelineOptions
-  ): Promise<Result<IBotFatherStepResult, ResultError<typeof AppErrorCode.BOTFATHER_ERROR>>> {
-    log.info('Step 1: Creating bot via BotFather')
+  async runBatch(
+    items: IPipelineOptions[],
+    batchOptions: IBatchOptions = {}
+  ): Promise<Result<IBatchResult, ResultError<typeof AppErrorCode.VALIDATION_ERROR>>> {
+    const concurrency = batchOptions.concurrency ?? DEFAULT_BATCH_CONCURRENCY
 
-    const initResult = await this.botFatherService.init()
-    if (isErr(initResult)) {
-      return err(initResult.error)
+    if (items.length === 0) {
+      return err({ code: AppErrorCode.VALIDATION_ERROR, message: 'Batch is empty' })
+    }
+
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      return err({
+        code: AppErrorCode.VALIDATION_ERROR,
+        message: `Invalid concurrency: ${concurrency}`,
+      })
+    }
+
+    const names = items.map((item) => item.botName)
+    const duplicates = [...new Set(names.filter((name, index) => names.indexOf(name) !== index))]
+    if (duplicates.length > 0) {
+      return err({
+        code: AppErrorCode.VALIDATION_ERROR,
+        message: `Duplicate bot names in batch: ${duplicates.join(', ')}`,
+      })
     }
 
-    // Create progress callback that maps service progress (0-100) to pipeline step range (0-25%)
-    const stepProgress = options.onProgress
-      ? (pct: number, msg: string, step?: string) => {
-          options.onProgress?.(Math.round(pct * 0.25), `[BotFather] ${msg}`, step)
+    const startTime = Date.now()
+    const startedAt = new Date(startTime).toISOString()
+    let floodWaits = 0
+
+    const steps = this.steps.clone()
+    const botFatherStep = steps.get(PipelineStep.BotFather)
+    if (botFatherStep) {
+      steps.replace(
+        PipelineStep.BotFather,
+        serializeStep(botFatherStep, {
+          lock: createLock(),
+          floodWaitRetries: batchOptions.floodWaitRetries ?? DEFAULT_FLOOD_WAIT_RETRIES,
+          floodWaitBaseDelayMs:
+            batchOptions.floodWaitBaseDelayMs ?? DEFAULT_FLOOD_WAIT_BASE_DELAY_MS,
+          onFloodWait: (ctx, delayMs) => {
+            floodWaits++
+            ctx.progress(0, `Flood wait, retrying in ${Math.ceil(delayMs / 1000)}s`, 'flood_wait')
+          },
+        })
+      )
+    }
+    const batchPipeline = new Pipeline(steps)
+
+    // Dry runs log in to Telegram from plan(), outside the serialized step
+    const limit = items.some((item) => item.dryRun) ? 1 : concurrency
+
+    log.info(`Running batch of ${items.length} bots (concurrency ${limit})`)
+    fileLog.info('PIPELINE', 'Batch started', { total: items.length, concurrency: limit })
+
+    const results = await mapWithConcurrency(items, limit, async (item) => {
+      const itemStart = Date.now()
+      const options: IPipelineOptions = {
+        ...item,
+        onProgress: (pct, msg, step) => {
+          item.onProgress?.(pct, msg, step)
+          batchOptions.onProgress?.(item.botName, pct, msg, step)
+        },
+      }
+
+      let itemResult: IBatchItemResult
+      try {
+        const runResult = await batchPipeline.run(options)
+        itemResult = isErr(runResult)
+          ? {
+              botName: item.botName,
+              success: false,
+              errors: [runResult.error.message],
+              durationMs: Date.now() - itemStart,
+            }
+          : {
+              botName: item.botName,
+              success: runResult.value.success,
+              runId: runResult.value.runId,
+              botUsername: runResult.value.botUsername,
+              githubRepoUrl: runResult.value.githubRepoUrl,
+              coolifyAppUuid: runResult.value.coolifyAppUuid,
+              deploymentUrl: runResult.value.deploymentUrl,
+              errors: runResult.value.errors,
+              durationMs: Date.now() - itemStart,
+            }
+      } catch (error) {
+        itemResult = {
+          botName: item.botName,
+          success: false,
+          errors: [error instanceof Error ? error.message : String(error)],
+          durationMs: Date.now() - itemStart,
         }
-      : undefined
+      }
 
-    const createResult = await this.botFatherService.createBot({
+      batchOptions.onItemComplete?.(itemResult)
+      return itemResult
+    })
+
+    const succeeded = results.filter((item) => item.success).length
+    const batchResult: IBatchResult = {
+      success: succeeded === results.length,
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      floodWaits,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      durationMs: Date.now() - startTime,
+      items: results,
+    }
+
+    fileLog.info('PIPELINE', 'Batch completed', {
+      total: batchResult.total,
+      succeeded: batchResult.succeeded,
+      failed: batchResult.failed,
+      floodWaits,
+      duration_ms: batchResult.durationMs,
+    })
+
+    return ok(batchResult)
+  }
+
+  /**
+   * Tears a bot down: stops and deletes its Coolify application, deletes
+   * (or archives, or keeps) its repository, deletes the bot via
+   * BotFather and removes its `.envs` entry and workspace directory.
+   *
+   * Unlike {@link Pipeline.run} it does not need a checkpoint: resources are
+   * found by name the way the pipeline creates them. Every system is tried
+   * even when an earlier one fails, and each outcome is reported in
+   * `actions`. A resource that does not exist is reported as `not_found`,
+   * so destroying an already destroyed bot succeeds.
+   *
+   * @param options - Bot to destroy and what to keep
+   * @returns Result with the outcome of each action, or a validation error
+   *
+   * @example
+   * ```typescript
+   * const result = await getPipeline().destroy({ botName: 'my-bot', keepRepo: true })
+   * if (isOk(result)) {
+   *   for (const action of result.value.actions) {
+   *     console.log(action.target, action.status, action.message)
+   *   }
+   * }
+   * ```
+   */
+  async destroy(
+    options: IDestroyOptions
+  ): Promise<Result<IDestroyResult, ResultError<typeof AppErrorCode.VALIDATION_ERROR>>> {
+    if (!options.botName) {
+      return err({ code: AppErrorCode.VALIDATION_ERROR, message: 'Bot name is required' })
+    }
+
+    if (/[/\\]/.test(options.botName) || options.botName.includes('..')) {
+      return err({
+        code: AppErrorCode.VALIDATION_ERROR,
+        message: `Invalid bot name ${options.botName}: must not contain path separators or ..`,
+      })
+    }
+
+    if (options.keepRepo && options.archiveRepo) {
+      return err({
+        code: AppErrorCode.VALIDATION_ERROR,
+        message: 'Cannot both keep and archive the repository',
+      })
+    }
+
+    const startTime = Date.now()
+    const botUsername = options.botUsername || this.botFatherService.generateBotUsername(options.botName)
+    log.info(`Destroying bot: ${options.botName} (@${botUsername})`)
+    fileLog.info('PIPELINE', 'Destroy started', {
       botName: options.botName,
-      description: options.botDescription,
-    }, stepProgress)
+      botUsername,
+      keepRepo: options.keepRepo,
+      archiveRepo: options.archiveRepo,
+    })
+
+    const actions: IDestroyAction[] = [
+      await this.destroyCoolifyApp(options),
+      await this.destroyGitHubRepo(options),
+      await this.destroyBotFatherBot(botUsername),
+      await this.destroyBotEnv(botUsername),
+      await this.destroyWorkspace(options),
+    ]
 
-    const disconnectResult = await this.botFatherService.disconnect()
-    if (isErr(disconnectResult)) {
-      log.warn('Failed to disconnect from Telegram:', disconnectResult.error.message)
+    const result: IDestroyResult = {
+      success: actions.every((action) => action.status !== DestroyActionStatus.Failed),
+      botName: options.botName,
+      botUsername,
+      actions,
     }
 
-    if (isErr(createResult)) {
-      return err(createResult.error)
+    if (result.success) {
+      log.success(`Bot destroyed: ${options.botName}`)
+    } else {
+      log.warn(`Bot ${options.botName} was only partially destroyed`)
     }
 
-    return ok({
-      success: true,
-      token: createResult.value.botToken,
-      username: createResult.value.botUsername,
+    fileLog.info('PIPELINE', 'Destroy completed', {
+      botName: options.botName,
+      success: result.success,
+      actions: actions.map((action) => `${action.target}:${action.status}`),
+      duration_ms: Date.now() - startTime,
     })
+    return ok(result)
   }
 
   /**
-   * Runs the project scaffolding step.
+   * Executes the registered steps not yet recorded as completed in the checkpoint.
+   *
+   * A failing step skips the steps that depend on it; independent steps
+   * still run.
    *
    * @param options - Pipeline options
-   * @returns Result with project path or error
+   * @param checkpoint - Run checkpoint (updated in place and persisted after each step)
+   * @returns Pipeline execution result
    */
-  private async runScaffoldStep(
-    options: IPipelineOptions
-  ): Promise<Result<IScaffoldStepResult, ResultError<typeof AppErrorCode.SCAFFOLD_ERROR>>> {
-    log.info('Step 2: Scaffolding project with bunspace')
-    options.onProgress?.(26, '[Scaffold] Initializing project scaffold', 'scaffold_init')
+  private async execute(
+    options: IPipelineOptions,
+    checkpoint: IPipelineCheckpoint
+  ): Promise<IPipelineResult> {
+    const result: IPipelineResult = {
+      success: false,
+      runId: checkpoint.runId,
+      errors: [],
+    }
 
-    const basePath = options.targetPath || process.cwd()
-    const projectPath = join(basePath, options.botName)
-    const template = options.template || TemplateType.TelegramBot
+    checkpoint.status = 'running'
+    checkpoint.failedStep = undefined
+    checkpoint.errors = []
 
-    if (existsSync(projectPath)) {
-      return err({
-        code: AppErrorCode.SCAFFOLD_ERROR,
-        message: `Directory ${projectPath} already exists`,
-      })
+    const startTime = Date.now()
+    const ctx: IPipelineContext = {
+      runId: checkpoint.runId,
+      options,
+      outputs: {
+        ...(options.skipBotFather && options.existingBotToken
+          ? { botToken: options.existingBotToken, botUsername: options.existingBotUsername }
+          : {}),
+        ...checkpoint.outputs,
+      },
+      progress: () => {},
     }
 
-    try {
-      options.onProgress?.(30, `[Scaffold] Running bunspace template: ${template}`, 'scaffold_run')
-
-      const proc = Bun.spawn(
-        [
-          'bun',
-          'create',
-          'bunspace',
-          options.botName,
-          '--template',
-          template,
-          '--yes',
-        ],
-        {
-          stdout: 'pipe',
-          stderr: 'pipe',
-          cwd: basePath,
-        }
-      )
+    log.info(`Starting pipeline for bot: ${options.botName} (run ${checkpoint.runId})`)
+    fileLog.pipelineStart({
+      botName: options.botName,
+      runId: checkpoint.runId,
+      options: {
+        skipBotFather: options.skipBotFather,
+        createGitHubRepo: options.createGitHubRepo,
+        deployToCoolify: options.deployToCoolify
+      }
+    })
+
+    const orderResult = this.steps.resolve()
+    if (isErr(orderResult)) {
+      result.errors.push(orderResult.error.message)
+      return this.finish(options, checkpoint, result, startTime, ctx, [])
+    }
 
-      const exitCode = await proc.exited
+    const steps = orderResult.value.filter((step) => this.isEnabled(step, options))
+    const totalWeight = steps.reduce((sum, step) => sum + (step.weight ?? 1), 0)
+    const blocked = new Set<string>()
+    const attempted: IPipelineStep[] = []
+    let failedStep: string | undefined
+    let offset = 0
 
-      if (exitCode !== 0) {
-        const stderr = await new Response(proc.stderr).text()
-        return err({
-          code: AppErrorCode.SCAFFOLD_ERROR,
-          message: stderr || 'Scaffold failed',
+    for (const [index, step] of steps.entries()) {
+      const start = (offset / totalWeight) * 100
+      offset += step.weight ?? 1
+      const end = (offset / totalWeight) * 100
+
+      if (checkpoint.completedSteps.includes(step.name)) {
+        log.info(`Step ${step.name} already completed, skipping`)
+        attempted.push(step)
+        this.emit(options, checkpoint.runId, {
+          type: PipelineEventType.StepDone,
+          step: step.name,
+          status: 'skipped',
+          reason: 'Completed in an earlier attempt',
+          durationMs: 0,
         })
+        continue
       }
 
-      options.onProgress?.(50, '[Scaffold] Project scaffolded successfully', 'scaffold_done')
-      log.success(`Project scaffolded at ${projectPath}`)
-      return ok({ success: true, projectPath })
-    } catch (error) {
-      return err({
-        code: AppErrorCode.SCAFFOLD_ERROR,
-        message: error instanceof Error ? error.message : 'Unknown scaffold error',
+      const failedDependency = step.dependsOn?.find((dependency) => blocked.has(dependency))
+      if (failedDependency) {
+        blocked.add(step.name)
+        log.warn(`Skipping step ${step.name}: ${failedDependency} did not complete`)
+        this.emit(options, checkpoint.runId, {
+          type: PipelineEventType.StepDone,
+          step: step.name,
+          status: 'skipped',
+          reason: `${failedDependency} did not complete`,
+          durationMs: 0,
+        })
+        continue
+      }
+
+      ctx.progress = (pct, msg, subStep) => {
+        const overallProgress = Math.round(start + (pct / 100) * (end - start))
+        options.onProgress?.(overallProgress, msg, subStep)
+        this.emit(options, checkpoint.runId, {
+          type: PipelineEventType.StepProgress,
+          step: step.name,
+          progress: pct,
+          overallProgress,
+          message: msg,
+          subStep,
+        })
+      }
+
+      fileLog.pipelineStep(step.name, { botName: options.botName })
+      attempted.push(step)
+      this.emit(options, checkpoint.runId, {
+        type: PipelineEventType.StepStart,
+        step: step.name,
+        description: step.description,
+        index,
+        total: steps.length,
+      })
+      const stepStart = Date.now()
+      const stepResult = await callStep(() => step.run(ctx))
+
+      if (isErr(stepResult)) {
+        result.errors.push(stepResult.error.message)
+        blocked.add(step.name)
+        failedStep = failedStep ?? step.name
+        fileLog.pipelineStepError(step.name, stepResult.error.message)
+        this.emit(options, checkpoint.runId, {
+          type: PipelineEventType.StepError,
+          step: step.name,
+          code: stepResult.error.code,
+          error: stepResult.error.message,
+        })
+        this.emit(options, checkpoint.runId, {
+          type: PipelineEventType.StepDone,
+          step: step.name,
+          status: 'failed',
+          durationMs: Date.now() - stepStart,
+        })
+        continue
+      }
+
+      Object.assign(ctx.outputs, stepResult.value)
+      this.completeStep(checkpoint, step.name, stepResult.value)
+      fileLog.info('PIPELINE_STEP', `Step ${step.name} completed`, {
+        outputs: Object.keys(stepResult.value),
+      })
+      this.emit(options, checkpoint.runId, {
+        type: PipelineEventType.StepOutput,
+        step: step.name,
+        outputs: stepResult.value,
+      })
+      this.emit(options, checkpoint.runId, {
+        type: PipelineEventType.StepDone,
+        step: step.name,
+        status: 'completed',
+        durationMs: Date.now() - stepStart,
       })
     }
+
+    return this.finish(options, checkpoint, result, startTime, ctx, attempted, failedStep)
+  }
+
+  /**
+   * Checks if a step runs for the given options.
+   *
+   * @param step - Pipeline step
+   * @param options - Pipeline options
+   * @returns True if the step is enabled
+   */
+  private isEnabled(step: IPipelineStep, options: IPipelineOptions): boolean {
+    return step.enabled?.(options) ?? true
+  }
+
+  /**
+   * Records a completed step and its outputs in the checkpoint.
+   *
+   * @param checkpoint - Run checkpoint
+   * @param step - Completed step name
+   * @param outputs - Outputs produced by the step
+   */
+  private completeStep(
+    checkpoint: IPipelineCheckpoint,
+    step: string,
+    outputs: IPipelineStepOutputs
+  ): void {
+    checkpoint.completedSteps.push(step)
+    checkpoint.outputs = { ...checkpoint.outputs, ...outputs }
+    this.persistCheckpoint(checkpoint)
   }
 
   /**
-   * Runs the GitHub repository creation step.
+   * Finalizes a run: rolls back if requested, updates and persists the
+   * checkpoint (including the outputs failed steps recorded) and logs
+   * completion.
    *
    * @param options - Pipeline options
-   * @param projectPath - Path to the scaffolded project
-   * @returns Result with repository URL or error
+   * @param checkpoint - Run checkpoint
+   * @param result - Pipeline result collected so far
+   * @param startTime - Run start timestamp
+   * @param ctx - Pipeline context
+   * @param attempted - Steps that ran or completed earlier, in execution order
+   * @param failedStep - First step that failed, if any
+   * @returns The finalized pipeline result
    */
-  private async runGitHubStep(
+  private async finish(
     options: IPipelineOptions,
-    projectPath: string
-  ): Promise<Result<IGitHubStepResult, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
-    log.info('Step 3: Creating GitHub repository')
-    options.onProgress?.(51, '[GitHub] Initializing GitHub service', 'github_init')
+    checkpoint: IPipelineCheckpoint,
+    result: IPipelineResult,
+    startTime: number,
+    ctx: IPipelineContext,
+    attempted: IPipelineStep[],
+    failedStep?: string
+  ): Promise<IPipelineResult> {
+    result.success = result.errors.length === 0
+    result.botToken = ctx.outputs.botToken
+    result.botUsername = ctx.outputs.botUsername
+    result.projectPath = ctx.outputs.projectPath
+    result.githubRepoUrl = ctx.outputs.githubRepoUrl
+    result.coolifyAppUuid = ctx.outputs.coolifyAppUuid
+    result.deploymentUrl = ctx.outputs.deploymentUrl
+    result.outputs = ctx.outputs
 
-    const initResult = await this.githubService.init()
-    if (isErr(initResult)) {
-      return err(initResult.error)
+    checkpoint.status = result.success ? 'completed' : 'failed'
+    checkpoint.failedStep = failedStep
+    checkpoint.errors = result.errors
+    // Keep what failed steps created (e.g. a repository whose push failed) so resume reuses it
+    checkpoint.outputs = { ...checkpoint.outputs, ...ctx.outputs }
+
+    if (!result.success && options.rollbackOnFailure) {
+      result.rollback = await this.rollback(attempted, ctx)
+      checkpoint.status = 'rolled-back'
     }
 
-    const config = this.configService.get()
-    const owner = options.githubOrg || config.github?.defaultOrg
+    this.persistCheckpoint(checkpoint)
 
-    // Create progress callback that maps service progress (0-100) to pipeline step range (51-65%)
-    const createRepoProgress = options.onProgress
-      ? (pct: number, msg: string, step?: string) => {
-          options.onProgress?.(51 + Math.round(pct * 0.14), `[GitHub] ${msg}`, step)
-        }
-      : undefined
+    if (result.success) {
+      log.success('Pipeline completed successfully')
+    } else if (result.rollback) {
+      log.warn(`Pipeline failed with ${result.errors.length} error(s) and was rolled back`)
+    } else {
+      log.warn(`Pipeline completed with ${result.errors.length} error(s)`)
+      log.info(`Resume with: mbf resume ${checkpoint.runId}`)
+    }
 
-    const repoResult = await this.githubService.createRepo({
-      name: options.botName,
-      description: options.botDescription || `Telegram bot: ${options.botName}`,
-      private: config.github?.defaultVisibility === 'private',
-      owner,
-    }, createRepoProgress)
+    fileLog.pipelineComplete({
+      botName: options.botName,
+      runId: checkpoint.runId,
+      success: result.success,
+      durationMs: Date.now() - startTime,
+      stepsCompleted: checkpoint.completedSteps.length,
+      errors: result.errors
+    })
+
+    this.emit(options, checkpoint.runId, {
+      type: PipelineEventType.PipelineDone,
+      success: result.success,
+      result,
+      durationMs: Date.now() - startTime,
+    })
 
-    if (isErr(repoResult)) {
-      return err(repoResult.error)
+    return result
+  }
+
+  /**
+   * Sends an event to the run's listener, stamped with the run ID, bot name
+   * and time.
+   *
+   * A throwing listener is logged and does not affect the run.
+   *
+   * @param options - Pipeline options holding the listener
+   * @param runId - Run ID
+   * @param event - Event payload
+   */
+  private emit(options: IPipelineOptions, runId: string, event: IPipelineEventPayload): void {
+    if (!options.onEvent) {
+      return
     }
 
-    if (!repoResult.value.cloneUrl) {
-      return err({ code: AppErrorCode.GITHUB_ERROR, message: 'No clone URL returned' })
+    try {
+      options.onEvent({
+        ...event,
+        runId,
+        botName: options.botName,
+        timestamp: new Date().toISOString(),
+      } as IPipelineEvent)
+    } catch (error) {
+      log.warn(`Pipeline event listener failed: ${error instanceof Error ? error.message : String(error)}`)
     }
+  }
 
-    // Create progress callback for push (65-75%)
-    const pushProgress = options.onProgress
-      ? (pct: number, msg: string, step?: string) => {
-          options.onProgress?.(65 + Math.round(pct * 0.10), `[GitHub] ${msg}`, step)
-        }
-      : undefined
+  /**
+   * Calls `undo` on the given steps in reverse execution order.
+   *
+   * A failing undo is recorded in the report and does not stop the
+   * remaining steps.
+   *
+   * @param attempted - Steps that ran or completed earlier, in execution order
+   * @param ctx - Pipeline context
+   * @returns Rollback report
+   */
+  private async rollback(attempted: IPipelineStep[], ctx: IPipelineContext): Promise<IRollbackReport> {
+    const startTime = Date.now()
+    const report: IRollbackReport = { success: true, actions: [] }
+    const undoable = attempted.filter((step) => step.undo).reverse()
 
-    const pushResult = await this.githubService.pushToRepo(
-      repoResult.value.cloneUrl,
-      projectPath,
-      'main',
-      pushProgress
-    )
+    log.warn(`Rolling back ${undoable.length} step(s)`)
+    fileLog.info('PIPELINE', 'Rollback started', { runId: ctx.runId, steps: undoable.length })
 
-    if (isErr(pushResult)) {
-      return err(pushResult.error)
+    for (const step of undoable) {
+      const description = step.description ?? step.name
+      log.info(`Rollback: ${description}`)
+      const undoResult = await callStep(() => step.undo!(ctx))
+
+      if (isErr(undoResult)) {
+        report.success = false
+        report.actions.push({
+          step: step.name,
+          description,
+          success: false,
+          error: undoResult.error.message,
+        })
+        log.error(`Rollback failed: ${description}: ${undoResult.error.message}`)
+        fileLog.error('PIPELINE', 'Rollback step failed', {
+          runId: ctx.runId,
+          step: step.name,
+          error: undoResult.error.message,
+        })
+      } else {
+        report.actions.push({ step: step.name, description, success: true })
+      }
     }
 
-    options.onProgress?.(75, '[GitHub] Repository created and code pushed', 'github_done')
-    return ok({ success: true, repoUrl: repoResult.value.repoUrl })
+    fileLog.info('PIPELINE', 'Rollback completed', {
+      runId: ctx.runId,
+      success: report.success,
+      steps: report.actions.length,
+      duration_ms: Date.now() - startTime,
+    })
+    return report
   }
 
   /**
-   * Runs the Coolify deployment step.
+   * Stops and deletes the bot's application on its deploy target.
    *
-   * @param options - Pipeline options
-   * @param pipelineResult - Current pipeline result
-   * @returns Result with deployment info or error
+   * @param options - Destroy options
+   * @returns Action outcome
    */
-  private async runCoolifyStep(
-    options: IPipelineOptions,
-    pipelineResult: IPipelineResult
-  ): Promise<Result<ICoolifyStepResult, ResultError<typeof AppErrorCode.COOLIFY_ERROR>>> {
-    log.info('Step 4: Deploying to Coolify')
-    options.onProgress?.(76, '[Coolify] Initializing Coolify service', 'coolify_init')
+  private async destroyCoolifyApp(options: IDestroyOptions): Promise<IDestroyAction> {
+    const target = DestroyTarget.Coolify
+    const deployTarget = resolveDeployTarget(options.deployTarget, this.configService.get())
+    const label = DEPLOY_TARGET_LABELS[deployTarget]
+    const deployer = getDeployTarget(deployTarget)
+    if (!deployer.isConfigured()) {
+      return { target, status: DestroyActionStatus.Skipped, message: `${label} not configured` }
+    }
 
-    const initResult = await this.coolifyService.init()
+    const initResult = await deployer.init()
     if (isErr(initResult)) {
-      return err(initResult.error)
+      return { target, status: DestroyActionStatus.Failed, message: initResult.error.message }
+    }
+
+    let appId = options.coolifyAppUuid
+    if (!appId) {
+      const findResult = await deployer.findApp(options.botName)
+      if (isErr(findResult)) {
+        return { target, status: DestroyActionStatus.Failed, message: findResult.error.message }
+      }
+      appId = findResult.value
+      if (!appId) {
+        return { target, status: DestroyActionStatus.NotFound, message: `No application named ${options.botName}` }
+      }
+    }
+
+    const stopResult = await deployer.stop(appId)
+    if (isErr(stopResult)) {
+      // Deleting also removes the containers, so a failed stop is not fatal
+      log.warn(`Failed to stop application ${appId}: ${stopResult.error.message}`)
+    }
+
+    const deleteResult = await deployer.deleteApp(appId)
+    if (isErr(deleteResult)) {
+      return { target, status: DestroyActionStatus.Failed, message: deleteResult.error.message }
+    }
+
+    return { target, status: DestroyActionStatus.Done, message: `${label} application ${appId} stopped and deleted` }
+  }
+
+  /**
+   * Deletes, archives or keeps the bot's repository on its git host.
+   *
+   * @param options - Destroy options
+   * @returns Action outcome
+   */
+  private async destroyGitHubRepo(options: IDestroyOptions): Promise<IDestroyAction> {
+    const target = DestroyTarget.GitHub
+    if (options.keepRepo) {
+      return { target, status: DestroyActionStatus.Skipped, message: 'Repository kept' }
     }
 
     const config = this.configService.get()
-    const serverUuid = options.coolifyServer || config.coolify?.defaultServer
-    const destinationUuid = options.coolifyDestination || config.coolify?.defaultDestination
-    const projectUuid = config.coolify?.defaultProject
-    const environmentUuid = config.coolify?.defaultEnvironment
+    const host = resolveGitHost(options.gitHost, config)
+    const provider = getGitHostProvider(host)
+    const initResult = await provider.init()
+    if (isErr(initResult)) {
+      return { target, status: DestroyActionStatus.Failed, message: initResult.error.message }
+    }
 
-    if (!serverUuid || !destinationUuid || !projectUuid || !environmentUuid) {
-      return err({
-        code: AppErrorCode.COOLIFY_ERROR,
-        message: 'Coolify server, destination, project and environment not configured',
-      })
+    let owner = options.githubOwner || getGitHostDefaults(host, config).owner
+    if (!owner) {
+      const userResult = await provider.getAuthenticatedUser()
+      if (isErr(userResult) || !userResult.value) {
+        const message = isErr(userResult) ? userResult.error.message : `Unknown ${GIT_HOST_LABELS[host]} user`
+        return { target, status: DestroyActionStatus.Failed, message }
+      }
+      owner = userResult.value
     }
 
-    if (!pipelineResult.githubRepoUrl) {
-      return err({ code: AppErrorCode.COOLIFY_ERROR, message: 'GitHub repo URL not available' })
+    const repo = `${owner}/${options.botName}`
+    const existsResult = await provider.repoExists(owner, options.botName)
+    if (isErr(existsResult)) {
+      return { target, status: DestroyActionStatus.Failed, message: existsResult.error.message }
+    }
+    if (!existsResult.value) {
+      return { target, status: DestroyActionStatus.NotFound, message: `Repository ${repo} not found` }
     }
 
-    // Create progress callback for application creation (76-85%)
-    const createAppProgress = options.onProgress
-      ? (pct: number, msg: string, step?: string) => {
-          options.onProgress?.(76 + Math.round(pct * 0.09), `[Coolify] ${msg}`, step)
-        }
-      : undefined
-
-    const appResult = await this.coolifyService.createApplication({
-      name: options.botName,
-      description: options.botDescription,
-      serverUuid,
-      destinationUuid,
-      projectUuid,
-      environmentUuid,
-      githubRepoUrl: pipelineResult.githubRepoUrl,
-    }, createAppProgress)
-
-    if (isErr(appResult)) {
-      return err(appResult.error)
-    }
-
-    if (!appResult.value.uuid) {
-      return err({ code: AppErrorCode.COOLIFY_ERROR, message: 'No application UUID returned' })
-    }
-
-    if (pipelineResult.botToken) {
-      options.onProgress?.(85, '[Coolify] Setting environment variables', 'coolify_env')
-      const envResult = await this.coolifyService.setEnvironmentVariables(
-        appResult.value.uuid,
-        {
-          TG_BOT_TOKEN: pipelineResult.botToken,
-          TG_MODE: 'webhook',
-          TG_ENV: 'production',
-        }
-      )
+    if (options.archiveRepo) {
+      const archiveResult = await provider.archiveRepo(owner, options.botName)
+      return isErr(archiveResult)
+        ? { target, status: DestroyActionStatus.Failed, message: archiveResult.error.message }
+        : { target, status: DestroyActionStatus.Done, message: `Repository ${repo} archived` }
+    }
 
-      if (isErr(envResult)) {
-        log.warn('Failed to set environment variables:', envResult.error.message)
+    const deleteResult = await provider.deleteRepo(owner, options.botName)
+    return isErr(deleteResult)
+      ? { target, status: DestroyActionStatus.Failed, message: deleteResult.error.message }
+      : { target, status: DestroyActionStatus.Done, message: `Repository ${repo} deleted` }
+  }
+
+  /**
+   * Deletes the bot via BotFather.
+   *
+   * @param botUsername - Bot username
+   * @returns Action outcome
+   */
+  private async destroyBotFatherBot(botUsername: string): Promise<IDestroyAction> {
+    const target = DestroyTarget.BotFather
+    const initResult = await this.botFatherService.init()
+    if (isErr(initResult)) {
+      return { target, status: DestroyActionStatus.Failed, message: initResult.error.message }
+    }
+
+    try {
+      const listResult = await this.botFatherService.listBots()
+      if (isErr(listResult)) {
+        return { target, status: DestroyActionStatus.Failed, message: listResult.error.message }
       }
+
+      const owned = listResult.value.some(
+        (username) => username.replace(/^@/, '').toLowerCase() === botUsername.toLowerCase()
+      )
+      if (!owned) {
+        return { target, status: DestroyActionStatus.NotFound, message: `@${botUsername} is not one of your bots` }
+      }
+
+      const deleteResult = await this.botFatherService.deleteBot(botUsername)
+      return isErr(deleteResult)
+        ? { target, status: DestroyActionStatus.Failed, message: deleteResult.error.message }
+        : { target, status: DestroyActionStatus.Done, message: `@${botUsername} deleted` }
+    } finally {
+      await this.botFatherService.disconnect()
     }
+  }
 
-    // Create progress callback for deploy (90-100%)
-    const deployProgress = options.onProgress
-      ? (pct: number, msg: string, step?: string) => {
-          options.onProgress?.(90 + Math.round(pct * 0.10), `[Coolify] ${msg}`, step)
-        }
-      : undefined
+  /**
+   * Removes the bot's `.envs` entry.
+   *
+   * @param botUsername - Bot username
+   * @returns Action outcome
+   */
+  private async destroyBotEnv(botUsername: string): Promise<IDestroyAction> {
+    const target = DestroyTarget.Envs
+    const listResult = await this.botFatherService.listBotEnvs()
+    if (isErr(listResult)) {
+      return { target, status: DestroyActionStatus.Failed, message: listResult.error.message }
+    }
+
+    if (!listResult.value.some((bot) => bot.username === botUsername)) {
+      return { target, status: DestroyActionStatus.NotFound, message: `No .envs entry for @${botUsername}` }
+    }
+
+    const removeResult = await this.botFatherService.removeBotEnv(botUsername)
+    return isErr(removeResult)
+      ? { target, status: DestroyActionStatus.Failed, message: removeResult.error.message }
+      : { target, status: DestroyActionStatus.Done, message: `.envs entry for @${botUsername} removed` }
+  }
 
-    const deployResult = await this.coolifyService.deploy({
-      uuid: appResult.value.uuid,
-    }, deployProgress)
+  /**
+   * Removes the bot's workspace directory.
+   *
+   * Only a directory that belongs to the bot is removed: its `origin`
+   * remote must point to a repository named after the bot or, without a
+   * remote, its `package.json` must carry the bot name (as scaffolded).
+   *
+   * @param options - Destroy options
+   * @returns Action outcome
+   */
+  private async destroyWorkspace(options: IDestroyOptions): Promise<IDestroyAction> {
+    const target = DestroyTarget.Workspace
+    const projectPath = join(options.targetPath || process.cwd(), options.botName)
+    if (!existsSync(projectPath)) {
+      return { target, status: DestroyActionStatus.NotFound, message: `${projectPath} does not exist` }
+    }
 
-    if (isErr(deployResult)) {
-      return err(deployResult.error)
+    const originResult = await this.gitService.getOriginUrl(projectPath)
+    if (isErr(originResult)) {
+      return { target, status: DestroyActionStatus.Failed, message: originResult.error.message }
     }
 
-    options.onProgress?.(100, '[Coolify] Deployment triggered successfully', 'coolify_done')
-    return ok({
-      success: true,
-      appUuid: appResult.value.uuid,
-      deploymentUrl: `${config.coolify?.url}/project/${serverUuid}/application/${appResult.value.uuid}`,
-    })
+    const origin = originResult.value
+    if (origin) {
+      const repoName = origin.replace(/(\.git)?\/*$/, '').split(/[/:]/).pop()
+      if (repoName !== options.botName) {
+        return {
+          target,
+          status: DestroyActionStatus.Skipped,
+          message: `${projectPath} left in place: its origin ${origin} is not the ${options.botName} repository`,
+        }
+      }
+    } else {
+      const packageResult = tryCatch(
+        () => JSON.parse(readFileSync(join(projectPath, 'package.json'), 'utf-8')) as { name?: unknown },
+        AppErrorCode.SCAFFOLD_ERROR
+      )
+      if (isErr(packageResult) || packageResult.value.name !== options.botName) {
+        return {
+          target,
+          status: DestroyActionStatus.Skipped,
+          message: `${projectPath} left in place: it is not a ${options.botName} workspace`,
+        }
+      }
+    }
+
+    const removeResult = tryCatch(
+      () => rmSync(projectPath, { recursive: true, force: true }),
+      AppErrorCode.SCAFFOLD_ERROR
+    )
+    return isErr(removeResult)
+      ? { target, status: DestroyActionStatus.Failed, message: removeResult.error.message }
+      : { target, status: DestroyActionStatus.Done, message: `${projectPath} removed` }
+  }
+
+  /**
+   * Persists the checkpoint, logging a warning on failure (non-fatal).
+   *
+   * @param checkpoint - Run checkpoint
+   */
+  private persistCheckpoint(checkpoint: IPipelineCheckpoint): void {
+    const saveResult = this.checkpointService.save(checkpoint)
+    if (isErr(saveResult)) {
+      log.warn('Failed to save run checkpoint:', saveResult.error.message)
+      fileLog.warn('CHECKPOINT', 'Failed to save run checkpoint', {
+        runId: checkpoint.runId,
+        error: saveResult.error.message
+      })
+    }
   }
 }
 
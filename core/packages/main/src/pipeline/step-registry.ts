@@ -0,0 +1,205 @@
+/**
+ * Registry of pluggable pipeline steps.
+ *
+ * @module
+ */
+
+import { ok, err, type Result, type ResultError } from '@mks2508/no-throw'
+import type { IPipelineStep, IPipelineStepPosition } from '../types/index.js'
+import { AppErrorCode } from '../types/errors.js'
+
+/**
+ * Ordered registry of pipeline steps.
+ *
+ * Steps run in registration order, adjusted so every step runs after the
+ * steps it depends on.
+ *
+ * @example
+ * ```typescript
+ * const steps = getPipeline().steps
+ *
+ * steps.register(provisionDatabaseStep, { before: 'coolify' })
+ * steps.replace('scaffold', myScaffoldStep)
+ * steps.remove('botfather')
+ * ```
+ */
+export class PipelineStepRegistry {
+  private steps: IPipelineStep[] = []
+
+  /**
+   * Registers a step.
+   *
+   * @param step - Step to register
+   * @param position - Where to insert it (defaults to the end)
+   * @returns Result indicating success or error
+   */
+  register(
+    step: IPipelineStep,
+    position: IPipelineStepPosition = {}
+  ): Result<void, ResultError<typeof AppErrorCode.VALIDATION_ERROR>> {
+    if (this.has(step.name)) {
+      return err({
+        code: AppErrorCode.VALIDATION_ERROR,
+        message: `Step ${step.name} is already registered`,
+      })
+    }
+
+    const anchor = position.before ?? position.after
+    if (anchor === undefined) {
+      this.steps.push(step)
+      return ok(undefined)
+    }
+
+    const index = this.indexOf(anchor)
+    if (index === -1) {
+      return err({
+        code: AppErrorCode.VALIDATION_ERROR,
+        message: `Cannot insert ${step.name}: step ${anchor} is not registered`,
+      })
+    }
+
+    this.steps.splice(position.before !== undefined ? index : index + 1, 0, step)
+    return ok(undefined)
+  }
+
+  /**
+   * Replaces a registered step, keeping its position.
+   *
+   * @param name - Name of the step to replace
+   * @param step - Replacement step
+   * @returns Result indicating success or error
+   */
+  replace(
+    name: string,
+    step: IPipelineStep
+  ): Result<void, ResultError<typeof AppErrorCode.VALIDATION_ERROR>> {
+    const index = this.indexOf(name)
+    if (index === -1) {
+      return err({
+        code: AppErrorCode.VALIDATION_ERROR,
+        message: `Step ${name} is not registered`,
+      })
+    }
+
+    if (step.name !== name && this.has(step.name)) {
+      return err({
+        code: AppErrorCode.VALIDATION_ERROR,
+        message: `Step ${step.name} is already registered`,
+      })
+    }
+
+    this.steps[index] = step
+    return ok(undefined)
+  }
+
+  /**
+   * Removes a registered step.
+   *
+   * Steps depending on it treat the dependency as satisfied.
+   *
+   * @param name - Name of the step to remove
+   * @returns Result indicating success or error
+   */
+  remove(name: string): Result<void, ResultError<typeof AppErrorCode.VALIDATION_ERROR>> {
+    const index = this.indexOf(name)
+    if (index === -1) {
+      return err({
+        code: AppErrorCode.VALIDATION_ERROR,
+        message: `Step ${name} is not registered`,
+      })
+    }
+
+    this.steps.splice(index, 1)
+    return ok(undefined)
+  }
+
+  /**
+   * Gets a registered step by name.
+   *
+   * @param name - Step name
+   * @returns The step, or undefined if not registered
+   */
+  get(name: string): IPipelineStep | undefined {
+    return this.steps.find((step) => step.name === name)
+  }
+
+  /**
+   * Checks if a step is registered.
+   *
+   * @param name - Step name
+   * @returns True if registered
+   */
+  has(name: string): boolean {
+    return this.indexOf(name) !== -1
+  }
+
+  /**
+   * Lists registered steps in registration order.
+   *
+   * @returns Registered steps
+   */
+  list(): IPipelineStep[] {
+    return [...this.steps]
+  }
+
+  /**
+   * Creates a copy of the registry that can be changed independently.
+   *
+   * @returns New registry with the same steps
+   */
+  clone(): PipelineStepRegistry {
+    const copy = new PipelineStepRegistry()
+    copy.steps = [...this.steps]
+    return copy
+  }
+
+  /**
+   * Resolves the execution order: registration order, with each step moved
+   * after its dependencies.
+   *
+   * @returns Result with ordered steps or error on a dependency cycle
+   */
+  resolve(): Result<IPipelineStep[], ResultError<typeof AppErrorCode.VALIDATION_ERROR>> {
+    const ordered: IPipelineStep[] = []
+    const state = new Map<string, 'visiting' | 'done'>()
+
+    const visit = (step: IPipelineStep, path: string[]): string | undefined => {
+      const current = state.get(step.name)
+      if (current === 'done') return undefined
+      if (current === 'visiting') return [...path, step.name].join(' -> ')
+
+      state.set(step.name, 'visiting')
+      for (const dependency of step.dependsOn ?? []) {
+        const dependencyStep = this.get(dependency)
+        if (!dependencyStep) continue
+        const cycle = visit(dependencyStep, [...path, step.name])
+        if (cycle) return cycle
+      }
+      state.set(step.name, 'done')
+      ordered.push(step)
+      return undefined
+    }
+
+    for (const step of this.steps) {
+      const cycle = visit(step, [])
+      if (cycle) {
+        return err({
+          code: AppErrorCode.VALIDATION_ERROR,
+          message: `Pipeline step dependency cycle: ${cycle}`,
+        })
+      }
+    }
+
+    return ok(ordered)
+  }
+
+  /**
+   * Finds the index of a registered step.
+   *
+   * @param name - Step name
+   * @returns Index, or -1 if not registered
+   */
+  private indexOf(name: string): number {
+    return this.steps.findIndex((step) => step.name === name)
+  }
+}
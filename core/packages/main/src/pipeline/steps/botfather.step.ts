@@ -0,0 +1,121 @@
+/**
+ * Built-in BotFather pipeline step.
+ *
+ * @module
+ */
+
+import { ok, err, isErr, type Result, type ResultError } from '@mks2508/no-throw'
+import { createLogger } from '../../utils/index.js'
+import { getBotFatherService } from '../../services/botfather.service.js'
+import {
+  type IPipelineContext,
+  type IPipelineOptions,
+  type IPipelineStep,
+  type IPipelineStepOutputs,
+  PipelineStep,
+} from '../../types/index.js'
+import { AppErrorCode } from '../../types/errors.js'
+
+const log = createLogger('BotFatherStep')
+
+/**
+ * Creates the bot via BotFather and saves its token to `.envs`.
+ *
+ * Outputs `botToken` and `botUsername`. Undo removes the `.envs` entry and
+ * deletes the bot.
+ */
+export class BotFatherStep implements IPipelineStep {
+  readonly name = PipelineStep.BotFather
+  readonly description = 'BotFather automation'
+  private botFatherService = getBotFatherService()
+
+  /**
+   * Runs unless BotFather automation is skipped.
+   *
+   * @param options - Pipeline options
+   * @returns True if the step runs
+   */
+  enabled(options: IPipelineOptions): boolean {
+    return !options.skipBotFather
+  }
+
+  /**
+   * Creates the bot.
+   *
+   * @param ctx - Pipeline context
+   * @returns Result with bot token and username or error
+   */
+  async run(
+    ctx: IPipelineContext
+  ): Promise<Result<IPipelineStepOutputs, ResultError<typeof AppErrorCode.BOTFATHER_ERROR>>> {
+    log.info('Creating bot via BotFather')
+
+    const initResult = await this.botFatherService.init()
+    if (isErr(initResult)) {
+      return err(initResult.error)
+    }
+
+    const createResult = await this.botFatherService.createBot(
+      {
+        botName: ctx.options.botName,
+        description: ctx.options.botDescription,
+      },
+      (pct, msg, step) => ctx.progress(pct, `[BotFather] ${msg}`, step)
+    )
+
+    const disconnectResult = await this.botFatherService.disconnect()
+    if (isErr(disconnectResult)) {
+      log.warn('Failed to disconnect from Telegram:', disconnectResult.error.message)
+    }
+
+    if (isErr(createResult)) {
+      return err(createResult.error)
+    }
+
+    return ok({
+      botToken: createResult.value.botToken,
+      botUsername: createResult.value.botUsername,
+    })
+  }
+
+  /**
+   * Removes the `.envs` entry and deletes the bot.
+   *
+   * Both actions are attempted even if the first fails.
+   *
+   * @param ctx - Pipeline context
+   * @returns Result indicating success or error
+   */
+  async undo(
+    ctx: IPipelineContext
+  ): Promise<Result<void, ResultError<typeof AppErrorCode.BOTFATHER_ERROR>>> {
+    const botUsername = ctx.outputs.botUsername
+    if (!botUsername) {
+      return ok(undefined)
+    }
+
+    const errors: string[] = []
+
+    const envResult = await this.botFatherService.removeBotEnv(botUsername)
+    if (isErr(envResult)) {
+      errors.push(envResult.error.message)
+    }
+
+    const initResult = await this.botFatherService.init()
+    if (isErr(initResult)) {
+      errors.push(initResult.error.message)
+    } else {
+      const deleteResult = await this.botFatherService.deleteBot(botUsername)
+      if (isErr(deleteResult)) {
+        errors.push(deleteResult.error.message)
+      }
+      await this.botFatherService.disconnect()
+    }
+
+    if (errors.length > 0) {
+      return err({ code: AppErrorCode.BOTFATHER_ERROR, message: errors.join('; ') })
+    }
+
+    return ok(undefined)
+  }
+}
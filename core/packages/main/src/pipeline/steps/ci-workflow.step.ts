@@ -0,0 +1,254 @@
+/**
+ * Built-in CI workflow pipeline step.
+ *
+ * @module
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { ok, err, isErr, tryCatch, type Result, type ResultError } from '@mks2508/no-throw'
+import { createLogger } from '../../utils/index.js'
+import { getConfigService } from '../../services/config.service.js'
+import { getGitHubService } from '../../services/github.service.js'
+import { resolveGitHost } from '../../services/git-host.js'
+import { resolveDeployTarget } from '../../services/deploy-target.js'
+import {
+  type ICiWorkflowDeploy,
+  type ICiWorkflowOptions,
+  type IPipelineContext,
+  type IPipelineOptions,
+  type IPipelineStep,
+  type IPipelineStepOutputs,
+  DeployTarget,
+  GitHost,
+  PipelineStep,
+} from '../../types/index.js'
+import { AppErrorCode } from '../../types/errors.js'
+
+const log = createLogger('CiWorkflowStep')
+
+/** Workflow file, relative to the project */
+export const CI_WORKFLOW_PATH = '.github/workflows/ci.yml'
+
+/** Actions secret holding the Coolify API token used by the deploy job */
+export const COOLIFY_TOKEN_SECRET = 'COOLIFY_TOKEN'
+
+/** Scripts the check job runs when the project defines them, in order */
+const CI_SCRIPTS = [['typecheck', 'type-check', 'check-types'], ['lint'], ['test']]
+
+/**
+ * Finds the `package.json` scripts the check job should run.
+ *
+ * @param projectPath - Path to the project
+ * @returns Script names (empty without a readable `package.json`)
+ */
+export function detectCiScripts(projectPath: string): string[] {
+  const packageJson = tryCatch(
+    () => JSON.parse(readFileSync(join(projectPath, 'package.json'), 'utf-8')) as { scripts?: Record<string, string> },
+    AppErrorCode.SCAFFOLD_ERROR
+  )
+  if (isErr(packageJson)) {
+    return []
+  }
+
+  const scripts = packageJson.value.scripts ?? {}
+  return CI_SCRIPTS.map((names) => names.find((name) => name in scripts)).filter(
+    (name): name is string => !!name
+  )
+}
+
+/**
+ * Generates the GitHub Actions workflow.
+ *
+ * The `check` job installs dependencies with Bun and runs the scripts on
+ * pull requests and pushes to `main`. The `deploy` job, when configured,
+ * calls the Coolify deploy endpoint for the application after `check`
+ * passes on `main`.
+ *
+ * @param options - Scripts and deploy target
+ * @returns Workflow YAML
+ */
+export function buildCiWorkflow(options: ICiWorkflowOptions): string {
+  const lines = [
+    'name: CI',
+    '',
+    'on:',
+    '  pull_request:',
+    '  push:',
+    '    branches: [main]',
+    '',
+    'jobs:',
+    '  check:',
+    '    runs-on: ubuntu-latest',
+    '    steps:',
+    '      - uses: actions/checkout@v4',
+    '      - uses: oven-sh/setup-bun@v2',
+    '      - run: bun install',
+    ...options.scripts.map((script) => `      - run: bun run ${script}`),
+  ]
+
+  if (options.deploy) {
+    lines.push(...buildDeployJob(options.deploy))
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Generates the `deploy` job, which calls the Coolify deploy endpoint with
+ * the token from an Actions secret.
+ *
+ * @param deploy - Coolify URL, application and token secret
+ * @returns Workflow YAML lines
+ */
+function buildDeployJob(deploy: ICiWorkflowDeploy): string[] {
+  const endpoint = `${deploy.coolifyUrl.replace(/\/+$/, '')}/api/v1/deploy?uuid=${encodeURIComponent(deploy.appUuid)}&force=false`
+
+  return [
+    '',
+    '  deploy:',
+    "    if: github.event_name == 'push' && github.ref == 'refs/heads/main'",
+    '    needs: check',
+    '    runs-on: ubuntu-latest',
+    '    steps:',
+    '      - name: Trigger Coolify deploy',
+    '        env:',
+    // JSON strings are valid double-quoted YAML scalars
+    `          COOLIFY_DEPLOY_URL: ${JSON.stringify(endpoint)}`,
+    `          COOLIFY_TOKEN: \${{ secrets.${deploy.tokenSecret} }}`,
+    '        run: curl --fail-with-body -sS "$COOLIFY_DEPLOY_URL" -H "Authorization: Bearer $COOLIFY_TOKEN"',
+  ]
+}
+
+/**
+ * Commits a GitHub Actions workflow that checks pull requests and deploys
+ * `main` to Coolify.
+ *
+ * Runs after the Coolify step so the deploy job targets the created
+ * application; without a Coolify deployment (none, or a Docker Compose one)
+ * the workflow only has the check job. The deploy token
+ * (`coolify.deployToken`) is stored as the `COOLIFY_TOKEN` Actions secret
+ * before the workflow is pushed, as the push itself triggers it. Without
+ * one the deploy job is left out: the admin `coolify.token` is never handed
+ * to CI. Outputs `ciWorkflowPath`.
+ */
+export class CiWorkflowStep implements IPipelineStep {
+  readonly name = PipelineStep.CiWorkflow
+  readonly description = 'CI workflow'
+  readonly dependsOn = [PipelineStep.GitHub, PipelineStep.Coolify]
+  private githubService = getGitHubService()
+  private configService = getConfigService()
+
+  /**
+   * Runs with a GitHub repository, unless skipped. Other git hosts are
+   * skipped, as the workflow is a GitHub Actions one.
+   *
+   * @param options - Pipeline options
+   * @returns True if the step runs
+   */
+  enabled(options: IPipelineOptions): boolean {
+    return (
+      !!options.createGitHubRepo &&
+      !options.skipCiWorkflow &&
+      resolveGitHost(options.gitHost, this.configService.get()) === GitHost.GitHub
+    )
+  }
+
+  /**
+   * Generates, commits and pushes the workflow.
+   *
+   * @param ctx - Pipeline context
+   * @returns Result with the workflow path or error
+   */
+  async run(
+    ctx: IPipelineContext
+  ): Promise<Result<IPipelineStepOutputs, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    const { projectPath, githubRepoUrl, coolifyAppUuid } = ctx.outputs
+    if (!projectPath || !githubRepoUrl) {
+      return err({ code: AppErrorCode.GITHUB_ERROR, message: 'Project path or repository URL not available' })
+    }
+
+    const ref = this.githubService.parseRepoUrl(githubRepoUrl)
+    if (!ref) {
+      return err({
+        code: AppErrorCode.GITHUB_ERROR,
+        message: `Cannot parse repository from URL: ${githubRepoUrl}`,
+      })
+    }
+    const { owner, repo } = ref
+
+    const initResult = await this.githubService.init()
+    if (isErr(initResult)) {
+      return err(initResult.error)
+    }
+
+    let deploy: ICiWorkflowDeploy | undefined
+    const deployTarget = resolveDeployTarget(ctx.options.deployTarget, this.configService.get())
+    if (coolifyAppUuid && deployTarget === DeployTarget.Coolify) {
+      const deployResult = await this.setupDeploy(ctx, owner, repo, coolifyAppUuid)
+      if (isErr(deployResult)) {
+        return deployResult
+      }
+      deploy = deployResult.value
+    }
+
+    ctx.progress(40, '[CI] Generating workflow', 'ci_generate')
+    const scripts = detectCiScripts(projectPath)
+    if (scripts.length === 0) {
+      log.warn('No typecheck, lint or test script found, the check job only installs dependencies')
+    }
+
+    const workflowFile = join(projectPath, CI_WORKFLOW_PATH)
+    const written = tryCatch(() => {
+      mkdirSync(dirname(workflowFile), { recursive: true })
+      writeFileSync(workflowFile, buildCiWorkflow({ scripts, deploy }))
+    }, AppErrorCode.GITHUB_ERROR)
+    if (isErr(written)) {
+      return written
+    }
+
+    ctx.progress(60, '[CI] Pushing workflow', 'ci_push')
+    const pushResult = await this.githubService.pushChanges(projectPath, [CI_WORKFLOW_PATH], 'Add CI workflow')
+    if (isErr(pushResult)) {
+      return err(pushResult.error)
+    }
+
+    ctx.progress(100, '[CI] Workflow committed', 'ci_done')
+    return ok({ ciWorkflowPath: CI_WORKFLOW_PATH })
+  }
+
+  /**
+   * Stores the deploy token as an Actions secret for the deploy job.
+   *
+   * @param ctx - Pipeline context
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param appUuid - Coolify application UUID
+   * @returns Result with the deploy job settings (undefined without
+   *   `coolify.deployToken`) or error
+   */
+  private async setupDeploy(
+    ctx: IPipelineContext,
+    owner: string,
+    repo: string,
+    appUuid: string
+  ): Promise<Result<ICiWorkflowDeploy | undefined, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    const token = this.configService.get().coolify?.deployToken
+    if (!token) {
+      log.warn('coolify.deployToken not set, leaving the deploy job out of the workflow')
+      return ok(undefined)
+    }
+
+    const coolifyUrl = this.configService.getCoolifyUrl()
+    if (!coolifyUrl) {
+      return err({ code: AppErrorCode.GITHUB_ERROR, message: 'Coolify URL not configured' })
+    }
+
+    ctx.progress(10, `[CI] Storing ${COOLIFY_TOKEN_SECRET} secret`, 'ci_secret')
+    const secretResult = await this.githubService.setActionsSecret(owner, repo, COOLIFY_TOKEN_SECRET, token)
+    if (isErr(secretResult)) {
+      return err(secretResult.error)
+    }
+    return ok({ coolifyUrl, appUuid, tokenSecret: COOLIFY_TOKEN_SECRET })
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Built-in deployment pipeline step.
+ *
+ * @module
+ */
+
+import { ok, err, isErr, type Result, type ResultError } from '@mks2508/no-throw'
+import { createLogger } from '../../utils/index.js'
+import { getConfigService } from '../../services/config.service.js'
+import { getGitHostDefaults, resolveGitHost } from '../../services/git-host.js'
+import { DEPLOY_TARGET_LABELS, getDeployTarget, resolveDeployTarget } from '../../services/deploy-target.js'
+import {
+  type IPipelineContext,
+  type IPipelineOptions,
+  type IPipelineStep,
+  type IPipelineStepOutputs,
+  type IDeployApp,
+  type IDeployTarget,
+  DeployTarget,
+  PipelineStep,
+} from '../../types/index.js'
+import { AppErrorCode } from '../../types/errors.js'
+
+const log = createLogger('CoolifyStep')
+
+/**
+ * Builds the environment variables set on the deployed application.
+ *
+ * @param botToken - Bot token (the TG_* variables are only set when present)
+ * @param extra - Additional variables, overriding the defaults
+ * @param webhook - Run in webhook mode (polling when the app has no public URL)
+ * @returns Environment variables
+ */
+export function buildCoolifyEnvVars(
+  botToken: string | undefined,
+  extra: Record<string, string> = {},
+  webhook = true
+): Record<string, string> {
+  return {
+    ...(botToken && {
+      TG_BOT_TOKEN: botToken,
+      TG_MODE: webhook ? 'webhook' : 'polling',
+      TG_ENV: 'production',
+    }),
+    ...extra,
+  }
+}
+
+/**
+ * Creates the application on the deploy target and deploys it.
+ *
+ * On Coolify (the default) the application is built from the repository;
+ * see `CoolifyDeployTarget`. With Docker Compose it is built from the
+ * local project, so no repository is needed. The step keeps its `coolify`
+ * name so existing checkpoints resume.
+ *
+ * Outputs `coolifyAppUuid` (the application ID on the target) and
+ * `deploymentUrl`. A resumed run reuses the application an earlier attempt
+ * created. Undo deletes the application.
+ */
+export class CoolifyStep implements IPipelineStep {
+  readonly name = PipelineStep.Coolify
+  readonly description = 'Deployment'
+  readonly dependsOn = [PipelineStep.GitHub]
+  private configService = getConfigService()
+
+  /**
+   * Runs when deployment is requested, along with a repository unless
+   * the target is Docker Compose.
+   *
+   * @param options - Pipeline options
+   * @returns True if the step runs
+   */
+  enabled(options: IPipelineOptions): boolean {
+    if (!options.deployToCoolify) {
+      return false
+    }
+    return (
+      !!options.createGitHubRepo ||
+      resolveDeployTarget(options.deployTarget, this.configService.get()) === DeployTarget.DockerCompose
+    )
+  }
+
+  /**
+   * Creates the application, sets its environment and triggers a deploy.
+   *
+   * With `waitForDeployment`, also waits for the build to finish and fails
+   * if it fails or is cancelled.
+   *
+   * @param ctx - Pipeline context
+   * @returns Result with deployment info or error
+   */
+  async run(
+    ctx: IPipelineContext
+  ): Promise<Result<IPipelineStepOutputs, ResultError<typeof AppErrorCode.COOLIFY_ERROR | typeof AppErrorCode.DEPLOY_ERROR>>> {
+    const { options, outputs } = ctx
+    const config = this.configService.get()
+    const targetName = resolveDeployTarget(options.deployTarget, config)
+    const target = getDeployTarget(targetName)
+    const label = DEPLOY_TARGET_LABELS[targetName]
+
+    log.info(`Deploying to ${label}`)
+    ctx.progress(0, `[${label}] Initializing ${label} service`, 'coolify_init')
+
+    const initResult = await target.init()
+    if (isErr(initResult)) {
+      return err(initResult.error)
+    }
+
+    const appResult = await this.createOrReuseApp(ctx, target, label)
+    if (isErr(appResult)) {
+      return err(appResult.error)
+    }
+
+    const appId = appResult.value.id
+    // Recorded before deploying so undo and resume find an app whose deploy failed
+    outputs.coolifyAppUuid = appId
+    outputs.deploymentUrl = appResult.value.location
+
+    const envVars = buildCoolifyEnvVars(outputs.botToken, options.coolifyEnvVars, target.hasPublicUrl())
+    if (Object.keys(envVars).length > 0) {
+      ctx.progress(40, `[${label}] Setting environment variables`, 'coolify_env')
+      const envResult = await target.setEnv(appId, envVars)
+
+      if (isErr(envResult)) {
+        log.warn('Failed to set environment variables:', envResult.error.message)
+      }
+    }
+
+    // Deploy takes 60-100% of the step
+    const deployResult = await target.deploy(appId, { wait: options.waitForDeployment }, (pct, msg, step) =>
+      ctx.progress(60 + Math.round(pct * 0.4), `[${label}] ${msg}`, step)
+    )
+    if (isErr(deployResult)) {
+      return err(deployResult.error)
+    }
+
+    ctx.progress(
+      100,
+      options.waitForDeployment
+        ? `[${label}] Deployment finished successfully`
+        : `[${label}] Deployment triggered successfully`,
+      'coolify_done'
+    )
+    return ok({ coolifyAppUuid: appId, deploymentUrl: appResult.value.location })
+  }
+
+  /**
+   * Creates the application, or reuses the one an earlier attempt of the
+   * run created before failing.
+   *
+   * @param ctx - Pipeline context
+   * @param target - Deploy target
+   * @param label - Display name of the deploy target
+   * @returns Result with the application ID and location or error
+   */
+  private async createOrReuseApp(
+    ctx: IPipelineContext,
+    target: IDeployTarget,
+    label: string
+  ): Promise<Result<IDeployApp, ResultError<typeof AppErrorCode.COOLIFY_ERROR | typeof AppErrorCode.DEPLOY_ERROR>>> {
+    const { options, outputs } = ctx
+    if (outputs.coolifyAppUuid) {
+      log.info(`Reusing application ${outputs.coolifyAppUuid} from an earlier attempt`)
+      ctx.progress(40, `[${label}] Reusing application ${outputs.coolifyAppUuid}`, 'coolify_create')
+      return ok({ id: outputs.coolifyAppUuid, location: outputs.deploymentUrl })
+    }
+
+    const config = this.configService.get()
+    const host = resolveGitHost(options.gitHost, config)
+    const repository = outputs.githubRepoUrl
+      ? {
+          host,
+          url: outputs.githubRepoUrl,
+          sshUrl: outputs.gitSshUrl,
+          private: (options.githubVisibility ?? getGitHostDefaults(host, config).visibility) === 'private',
+        }
+      : undefined
+
+    // Application creation takes 0-40% of the step
+    return target.createApp(
+      {
+        name: options.botName,
+        description: options.botDescription,
+        projectPath: outputs.projectPath,
+        repository,
+        serverUuid: options.coolifyServer,
+        destinationUuid: options.coolifyDestination,
+        projectUuid: options.coolifyProject,
+        environmentUuid: options.coolifyEnvironment,
+      },
+      (pct, msg, step) => ctx.progress(Math.round(pct * 0.4), `[${label}] ${msg}`, step)
+    )
+  }
+
+  /**
+   * Deletes the application.
+   *
+   * @param ctx - Pipeline context
+   * @returns Result indicating success or error
+   */
+  async undo(
+    ctx: IPipelineContext
+  ): Promise<Result<void, ResultError<typeof AppErrorCode.COOLIFY_ERROR | typeof AppErrorCode.DEPLOY_ERROR>>> {
+    const appId = ctx.outputs.coolifyAppUuid
+    if (!appId) {
+      return ok(undefined)
+    }
+
+    const target = getDeployTarget(resolveDeployTarget(ctx.options.deployTarget, this.configService.get()))
+    const initResult = await target.init()
+    if (isErr(initResult)) {
+      return initResult
+    }
+
+    return target.deleteApp(appId)
+  }
+}
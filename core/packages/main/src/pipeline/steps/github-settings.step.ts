@@ -0,0 +1,169 @@
+/**
+ * Built-in GitHub repository settings pipeline step.
+ *
+ * @module
+ */
+
+import { ok, err, isErr, type Result, type ResultError } from '@mks2508/no-throw'
+import { createLogger } from '../../utils/index.js'
+import { getConfigService } from '../../services/config.service.js'
+import { getGitHubService } from '../../services/github.service.js'
+import { resolveGitHost } from '../../services/git-host.js'
+import {
+  type IGitHubConfig,
+  type IGitHubHardening,
+  type IPipelineContext,
+  type IPipelineOptions,
+  type IPipelineStep,
+  type IPipelineStepOutputs,
+  GitHubMergeMethod,
+  GitHost,
+  PipelineStep,
+} from '../../types/index.js'
+import { AppErrorCode } from '../../types/errors.js'
+
+const log = createLogger('GitHubSettingsStep')
+
+/** Branch the GitHub step pushes to */
+const DEFAULT_BRANCH = 'main'
+
+/**
+ * Resolves the repository hardening from the `github.*` config keys.
+ *
+ * Merge settings are only changed when `github.mergeMethods` or
+ * `github.deleteBranchOnMerge` is set.
+ *
+ * @param config - GitHub configuration
+ * @returns Hardening to apply
+ */
+export function resolveGitHubHardening(config: IGitHubConfig = {}): IGitHubHardening {
+  const methods = config.mergeMethods?.split(',')
+
+  return {
+    botTokenSecret: config.botTokenSecret,
+    topics: config.topics?.split(',') ?? [],
+    branchProtection: config.protectBranch
+      ? { requiredApprovals: config.requiredApprovals }
+      : undefined,
+    settings: {
+      ...(methods && {
+        allowMergeCommit: methods.includes(GitHubMergeMethod.Merge),
+        allowSquashMerge: methods.includes(GitHubMergeMethod.Squash),
+        allowRebaseMerge: methods.includes(GitHubMergeMethod.Rebase),
+      }),
+      ...(config.deleteBranchOnMerge !== undefined && {
+        deleteBranchOnMerge: config.deleteBranchOnMerge,
+      }),
+    },
+  }
+}
+
+/**
+ * Hardens the repository created by the GitHub step.
+ *
+ * Stores the bot token as an Actions secret, sets the topics and merge
+ * settings and protects `main`, as configured with the `github.*` keys.
+ * Has no undo: the GitHub step's undo deletes the repository.
+ */
+export class GitHubSettingsStep implements IPipelineStep {
+  readonly name = PipelineStep.GitHubSettings
+  readonly description = 'GitHub repository settings'
+  readonly dependsOn = [PipelineStep.GitHub]
+  private githubService = getGitHubService()
+  private configService = getConfigService()
+
+  /**
+   * Runs with a GitHub repository when `hardenGitHubRepo` (default:
+   * `github.hardenRepo`) is set. Other git hosts are skipped.
+   *
+   * @param options - Pipeline options
+   * @returns True if the step runs
+   */
+  enabled(options: IPipelineOptions): boolean {
+    const config = this.configService.get()
+    return (
+      !!options.createGitHubRepo &&
+      resolveGitHost(options.gitHost, config) === GitHost.GitHub &&
+      (options.hardenGitHubRepo ?? config.github?.hardenRepo ?? false)
+    )
+  }
+
+  /**
+   * Applies the configured settings.
+   *
+   * @param ctx - Pipeline context
+   * @returns Result with no outputs or error
+   */
+  async run(
+    ctx: IPipelineContext
+  ): Promise<Result<IPipelineStepOutputs, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    const repoUrl = ctx.outputs.githubRepoUrl
+    if (!repoUrl) {
+      return err({ code: AppErrorCode.GITHUB_ERROR, message: 'GitHub repository URL not available' })
+    }
+
+    const ref = this.githubService.parseRepoUrl(repoUrl)
+    if (!ref) {
+      return err({
+        code: AppErrorCode.GITHUB_ERROR,
+        message: `Cannot parse repository from URL: ${repoUrl}`,
+      })
+    }
+    const { owner, repo } = ref
+
+    const initResult = await this.githubService.init()
+    if (isErr(initResult)) {
+      return err(initResult.error)
+    }
+
+    const hardening = resolveGitHubHardening(this.configService.get().github)
+    const { botToken } = ctx.outputs
+
+    ctx.progress(0, '[GitHub] Setting Actions secrets', 'github_settings_secrets')
+    if (hardening.botTokenSecret && botToken) {
+      const secretResult = await this.githubService.setActionsSecret(
+        owner,
+        repo,
+        hardening.botTokenSecret,
+        botToken
+      )
+      if (isErr(secretResult)) {
+        return err(secretResult.error)
+      }
+    } else if (hardening.botTokenSecret) {
+      log.warn(`No bot token available, ${hardening.botTokenSecret} secret not set`)
+    }
+
+    if (hardening.topics.length > 0) {
+      ctx.progress(25, '[GitHub] Setting topics', 'github_settings_topics')
+      const topicsResult = await this.githubService.setTopics(owner, repo, hardening.topics)
+      if (isErr(topicsResult)) {
+        return err(topicsResult.error)
+      }
+    }
+
+    if (Object.keys(hardening.settings).length > 0) {
+      ctx.progress(50, '[GitHub] Updating merge settings', 'github_settings_merge')
+      const updateResult = await this.githubService.updateRepo(owner, repo, hardening.settings)
+      if (isErr(updateResult)) {
+        return err(updateResult.error)
+      }
+    }
+
+    if (hardening.branchProtection) {
+      ctx.progress(75, `[GitHub] Protecting ${DEFAULT_BRANCH}`, 'github_settings_protection')
+      const protectionResult = await this.githubService.setBranchProtection(
+        owner,
+        repo,
+        DEFAULT_BRANCH,
+        hardening.branchProtection
+      )
+      if (isErr(protectionResult)) {
+        return err(protectionResult.error)
+      }
+    }
+
+    ctx.progress(100, '[GitHub] Repository settings applied', 'github_settings_done')
+    return ok({})
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Built-in GitHub pipeline step.
+ *
+ * @module
+ */
+
+import { ok, err, isErr, type Result, type ResultError } from '@mks2508/no-throw'
+import { createLogger } from '../../utils/index.js'
+import { getConfigService } from '../../services/config.service.js'
+import { GIT_HOST_LABELS, getGitHostDefaults, getGitHostProvider, resolveGitHost } from '../../services/git-host.js'
+import {
+  type IPipelineContext,
+  type IPipelineOptions,
+  type IPipelineStep,
+  type IPipelineStepOutputs,
+  type IGitHubRepoResult,
+  GitHost,
+  PipelineStep,
+} from '../../types/index.js'
+import { AppErrorCode } from '../../types/errors.js'
+
+const log = createLogger('GitHubStep')
+
+/**
+ * Error of the step: `GITHUB_ERROR` on GitHub, `GIT_HOST_ERROR` on other hosts.
+ */
+type GitHostStepError = ResultError<typeof AppErrorCode.GITHUB_ERROR | typeof AppErrorCode.GIT_HOST_ERROR>
+
+/**
+ * Creates the repository and pushes the scaffolded project, on the git host
+ * chosen with `gitHost` (default: `git.host`, then GitHub).
+ *
+ * Outputs `githubRepoUrl` and `gitSshUrl`. A resumed run reuses the
+ * repository an earlier attempt created. Undo deletes the repository.
+ */
+export class GitHubStep implements IPipelineStep {
+  readonly name = PipelineStep.GitHub
+  readonly description = 'GitHub repository'
+  readonly dependsOn = [PipelineStep.Scaffold]
+  private configService = getConfigService()
+
+  /**
+   * Runs when a repository is requested.
+   *
+   * @param options - Pipeline options
+   * @returns True if the step runs
+   */
+  enabled(options: IPipelineOptions): boolean {
+    return !!options.createGitHubRepo
+  }
+
+  /**
+   * Creates the repository and pushes the project.
+   *
+   * @param ctx - Pipeline context
+   * @returns Result with repository URL or error
+   */
+  async run(
+    ctx: IPipelineContext
+  ): Promise<Result<IPipelineStepOutputs, GitHostStepError>> {
+    const { options } = ctx
+    const config = this.configService.get()
+    const host = resolveGitHost(options.gitHost, config)
+    const provider = getGitHostProvider(host)
+    const label = GIT_HOST_LABELS[host]
+    log.info(`Creating ${label} repository`)
+    ctx.progress(0, `[${label}] Initializing ${label} service`, 'github_init')
+
+    const projectPath = ctx.outputs.projectPath
+    if (!projectPath) {
+      return err({ code: errorCode(host), message: 'Project path not available' })
+    }
+
+    const initResult = await provider.init()
+    if (isErr(initResult)) {
+      return err(initResult.error)
+    }
+
+    const repoResult = await this.createOrReuseRepo(ctx, host)
+    if (isErr(repoResult)) {
+      return err(repoResult.error)
+    }
+
+    const repo = repoResult.value
+    // Recorded before pushing so undo and resume find a repo whose push failed
+    ctx.outputs.githubRepoUrl = repo.repoUrl
+    ctx.outputs.gitSshUrl = repo.sshUrl
+
+    if (!repo.cloneUrl) {
+      return err({ code: errorCode(host), message: 'No clone URL returned' })
+    }
+
+    const pushResult = await provider.pushToRepo(
+      repo.cloneUrl,
+      projectPath,
+      'main',
+      // Push takes 55-100% of the step
+      (pct, msg, step) => ctx.progress(55 + Math.round(pct * 0.45), `[${label}] ${msg}`, step)
+    )
+
+    if (isErr(pushResult)) {
+      return err(pushResult.error)
+    }
+
+    ctx.progress(100, `[${label}] Repository created and code pushed`, 'github_done')
+    return ok({ githubRepoUrl: repo.repoUrl, gitSshUrl: repo.sshUrl })
+  }
+
+  /**
+   * Creates the repository, or reuses the one an earlier attempt of the run
+   * created before failing.
+   *
+   * @param ctx - Pipeline context
+   * @param host - Git host
+   * @returns Result with the repository URLs or error
+   */
+  private async createOrReuseRepo(
+    ctx: IPipelineContext,
+    host: GitHost
+  ): Promise<Result<IGitHubRepoResult, GitHostStepError>> {
+    const { options, outputs } = ctx
+    const label = GIT_HOST_LABELS[host]
+    if (outputs.githubRepoUrl) {
+      log.info(`Reusing repository ${outputs.githubRepoUrl} from an earlier attempt`)
+      ctx.progress(55, `[${label}] Reusing repository ${outputs.githubRepoUrl}`, 'github_create')
+      return ok({
+        success: true,
+        repoUrl: outputs.githubRepoUrl,
+        cloneUrl: `${outputs.githubRepoUrl}.git`,
+        sshUrl: outputs.gitSshUrl,
+      })
+    }
+
+    const config = this.configService.get()
+    const defaults = getGitHostDefaults(host, config)
+    return getGitHostProvider(host).createRepo(
+      {
+        name: options.botName,
+        description: options.botDescription || `Telegram bot: ${options.botName}`,
+        private: (options.githubVisibility ?? defaults.visibility) === 'private',
+        owner: options.githubOrg || defaults.owner,
+      },
+      // Repository creation takes 0-55% of the step
+      (pct, msg, step) => ctx.progress(Math.round(pct * 0.55), `[${label}] ${msg}`, step)
+    )
+  }
+
+  /**
+   * Deletes the repository.
+   *
+   * @param ctx - Pipeline context
+   * @returns Result indicating success or error
+   */
+  async undo(
+    ctx: IPipelineContext
+  ): Promise<Result<void, GitHostStepError>> {
+    const repoUrl = ctx.outputs.githubRepoUrl
+    if (!repoUrl) {
+      return ok(undefined)
+    }
+
+    const host = resolveGitHost(ctx.options.gitHost, this.configService.get())
+    const provider = getGitHostProvider(host)
+    const initResult = await provider.init()
+    if (isErr(initResult)) {
+      return initResult
+    }
+
+    const ref = provider.parseRepoUrl(repoUrl)
+    if (!ref) {
+      return err({
+        code: errorCode(host),
+        message: `Cannot parse repository from URL: ${repoUrl}`,
+      })
+    }
+
+    return provider.deleteRepo(ref.owner, ref.repo)
+  }
+}
+
+/**
+ * Gets the error code of a git host.
+ *
+ * @param host - Git host
+ * @returns `GITHUB_ERROR` for GitHub, else `GIT_HOST_ERROR`
+ */
+function errorCode(host: GitHost): GitHostStepError['code'] {
+  return host === GitHost.GitHub ? AppErrorCode.GITHUB_ERROR : AppErrorCode.GIT_HOST_ERROR
+}
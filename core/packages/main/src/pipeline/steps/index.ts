@@ -0,0 +1,46 @@
+/**
+ * Built-in pipeline steps.
+ *
+ * @module
+ */
+
+import { PipelineStepRegistry } from '../step-registry.js'
+import { BotFatherStep } from './botfather.step.js'
+import { ScaffoldStep } from './scaffold.step.js'
+import { GitHubStep } from './github.step.js'
+import { GitHubSettingsStep } from './github-settings.step.js'
+import { CoolifyStep } from './coolify.step.js'
+import { WebhookStep } from './webhook.step.js'
+import { CiWorkflowStep } from './ci-workflow.step.js'
+
+export { BotFatherStep } from './botfather.step.js'
+export { ScaffoldStep } from './scaffold.step.js'
+export { GitHubStep } from './github.step.js'
+export { GitHubSettingsStep, resolveGitHubHardening } from './github-settings.step.js'
+export { CoolifyStep, buildCoolifyEnvVars } from './coolify.step.js'
+export { WebhookStep, DEFAULT_WEBHOOK_PATH } from './webhook.step.js'
+export {
+  CiWorkflowStep,
+  buildCiWorkflow,
+  detectCiScripts,
+  CI_WORKFLOW_PATH,
+  COOLIFY_TOKEN_SECRET,
+} from './ci-workflow.step.js'
+
+/**
+ * Creates a registry with the built-in steps:
+ * BotFather → scaffold → GitHub → GitHub settings → Coolify → webhook → CI workflow.
+ *
+ * @returns Registry with the default steps
+ */
+export function createDefaultStepRegistry(): PipelineStepRegistry {
+  const registry = new PipelineStepRegistry()
+  registry.register(new BotFatherStep())
+  registry.register(new ScaffoldStep())
+  registry.register(new GitHubStep())
+  registry.register(new GitHubSettingsStep())
+  registry.register(new CoolifyStep())
+  registry.register(new WebhookStep())
+  registry.register(new CiWorkflowStep())
+  return registry
+}
@@ -0,0 +1,145 @@
+/**
+ * Built-in scaffold pipeline step.
+ *
+ * @module
+ */
+
+import { existsSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { ok, err, isErr, tryCatch, type Result, type ResultError } from '@mks2508/no-throw'
+import { createLogger } from '../../utils/index.js'
+import { getTemplateService } from '../../services/template.service.js'
+import {
+  type IPipelineContext,
+  type IPipelineStep,
+  type IPipelineStepOutputs,
+  PipelineStep,
+  TemplateType,
+} from '../../types/index.js'
+import { AppErrorCode } from '../../types/errors.js'
+
+const log = createLogger('ScaffoldStep')
+
+/**
+ * Scaffolds the project with bunspace, or renders a template added with
+ * `mbf template add`.
+ *
+ * Outputs `projectPath`. Undo removes the scaffolded directory (never a
+ * directory that existed before the run).
+ */
+export class ScaffoldStep implements IPipelineStep {
+  readonly name = PipelineStep.Scaffold
+  readonly description = 'Project scaffolding'
+  readonly dependsOn = [PipelineStep.BotFather]
+
+  /**
+   * Scaffolds the project.
+   *
+   * @param ctx - Pipeline context
+   * @returns Result with project path or error
+   */
+  async run(
+    ctx: IPipelineContext
+  ): Promise<Result<IPipelineStepOutputs, ResultError<typeof AppErrorCode.SCAFFOLD_ERROR>>> {
+    const { options } = ctx
+    ctx.progress(0, '[Scaffold] Initializing project scaffold', 'scaffold_init')
+
+    const basePath = options.targetPath || process.cwd()
+    const projectPath = join(basePath, options.botName)
+    const template = options.template || TemplateType.TelegramBot
+
+    if (existsSync(projectPath)) {
+      return err({
+        code: AppErrorCode.SCAFFOLD_ERROR,
+        message: `Directory ${projectPath} already exists`,
+      })
+    }
+
+    // Recorded before spawning so undo also removes a partially scaffolded dir
+    ctx.outputs.projectPath = projectPath
+
+    const templates = getTemplateService()
+    if (!templates.isBuiltin(template)) {
+      log.info(`Scaffolding project from template ${template}`)
+      ctx.progress(20, `[Scaffold] Rendering template: ${template}`, 'scaffold_run')
+
+      const renderResult = templates.render(template, projectPath, {
+        variables: options.templateVariables,
+        builtins: {
+          projectName: options.botName,
+          botUsername: ctx.outputs.botUsername ?? options.existingBotUsername ?? '',
+          botDescription: options.botDescription ?? '',
+        },
+      })
+      if (isErr(renderResult)) {
+        return err({ code: AppErrorCode.SCAFFOLD_ERROR, message: renderResult.error.message })
+      }
+
+      ctx.progress(100, '[Scaffold] Project scaffolded successfully', 'scaffold_done')
+      log.success(`Project scaffolded at ${projectPath}`)
+      return ok({ projectPath })
+    }
+
+    log.info('Scaffolding project with bunspace')
+
+    try {
+      ctx.progress(20, `[Scaffold] Running bunspace template: ${template}`, 'scaffold_run')
+
+      const proc = Bun.spawn(
+        [
+          'bun',
+          'create',
+          'bunspace',
+          options.botName,
+          '--template',
+          template,
+          '--yes',
+        ],
+        {
+          stdout: 'pipe',
+          stderr: 'pipe',
+          cwd: basePath,
+        }
+      )
+
+      const exitCode = await proc.exited
+
+      if (exitCode !== 0) {
+        const stderr = await new Response(proc.stderr).text()
+        return err({
+          code: AppErrorCode.SCAFFOLD_ERROR,
+          message: stderr || 'Scaffold failed',
+        })
+      }
+
+      ctx.progress(100, '[Scaffold] Project scaffolded successfully', 'scaffold_done')
+      log.success(`Project scaffolded at ${projectPath}`)
+      return ok({ projectPath })
+    } catch (error) {
+      return err({
+        code: AppErrorCode.SCAFFOLD_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown scaffold error',
+      })
+    }
+  }
+
+  /**
+   * Removes the scaffolded directory.
+   *
+   * @param ctx - Pipeline context
+   * @returns Result indicating success or error
+   */
+  async undo(
+    ctx: IPipelineContext
+  ): Promise<Result<void, ResultError<typeof AppErrorCode.SCAFFOLD_ERROR>>> {
+    const projectPath = ctx.outputs.projectPath
+    if (!projectPath) {
+      return ok(undefined)
+    }
+
+    return tryCatch(
+      () => rmSync(projectPath, { recursive: true, force: true }),
+      AppErrorCode.SCAFFOLD_ERROR
+    )
+  }
+}
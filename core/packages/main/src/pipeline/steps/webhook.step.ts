@@ -0,0 +1,189 @@
+/**
+ * Built-in Telegram webhook pipeline step.
+ *
+ * @module
+ */
+
+import { ok, err, isErr, type Result, type ResultError } from '@mks2508/no-throw'
+import { createLogger } from '../../utils/index.js'
+import { getConfigService } from '../../services/config.service.js'
+import { DEPLOY_TARGET_LABELS, getDeployTarget, resolveDeployTarget } from '../../services/deploy-target.js'
+import {
+  getTelegramBotApiService,
+  generateWebhookSecret,
+} from '../../services/telegram-bot-api.service.js'
+import {
+  type IPipelineContext,
+  type IPipelineOptions,
+  type IPipelineStep,
+  type IPipelineStepOutputs,
+  DeployTarget,
+  PipelineStep,
+} from '../../types/index.js'
+import { AppErrorCode } from '../../types/errors.js'
+
+const log = createLogger('WebhookStep')
+
+/** Path the bot template serves webhook updates on */
+export const DEFAULT_WEBHOOK_PATH = '/webhook'
+
+type WebhookStepErrorCode =
+  | typeof AppErrorCode.COOLIFY_ERROR
+  | typeof AppErrorCode.DEPLOY_ERROR
+  | typeof AppErrorCode.BOTFATHER_ERROR
+  | typeof AppErrorCode.NETWORK_ERROR
+
+/**
+ * Registers the Telegram webhook on the deployed application.
+ *
+ * Generates a secret, sets `TG_WEBHOOK_URL` and `TG_WEBHOOK_SECRET` on the
+ * application and restarts it, registers the webhook with the Bot API and
+ * verifies it with `getWebhookInfo`. Outputs `webhookUrl`. Undo deletes the
+ * webhook.
+ */
+export class WebhookStep implements IPipelineStep {
+  readonly name = PipelineStep.Webhook
+  readonly description = 'Telegram webhook'
+  readonly dependsOn = [PipelineStep.Coolify]
+  private botApiService = getTelegramBotApiService()
+  private configService = getConfigService()
+
+  /**
+   * Runs when the bot is deployed, unless skipped. On Docker Compose it
+   * only runs with `deploy.composePublicUrl` set; without it the bot is
+   * deployed in polling mode.
+   *
+   * @param options - Pipeline options
+   * @returns True if the step runs
+   */
+  enabled(options: IPipelineOptions): boolean {
+    if (!options.deployToCoolify || options.skipWebhook) {
+      return false
+    }
+    const target = resolveDeployTarget(options.deployTarget, this.configService.get())
+    return target === DeployTarget.DockerCompose
+      ? getDeployTarget(target).hasPublicUrl()
+      : !!options.createGitHubRepo
+  }
+
+  /**
+   * Registers and verifies the webhook.
+   *
+   * Does nothing when no bot token is available (the app then runs without
+   * `TG_MODE=webhook`).
+   *
+   * @param ctx - Pipeline context
+   * @returns Result with the webhook URL or error
+   */
+  async run(
+    ctx: IPipelineContext
+  ): Promise<Result<IPipelineStepOutputs, ResultError<WebhookStepErrorCode>>> {
+    const { botToken, coolifyAppUuid } = ctx.outputs
+
+    if (!botToken) {
+      log.warn('No bot token available, skipping webhook registration')
+      ctx.progress(100, '[Webhook] No bot token, webhook not registered', 'webhook_skipped')
+      return ok({})
+    }
+
+    const targetName = resolveDeployTarget(ctx.options.deployTarget, this.configService.get())
+    if (!coolifyAppUuid) {
+      return err({ code: errorCode(targetName), message: 'Application ID not available' })
+    }
+
+    ctx.progress(0, '[Webhook] Resolving application domain', 'webhook_domain')
+    const target = getDeployTarget(targetName)
+    const initResult = await target.init()
+    if (isErr(initResult)) {
+      return err(initResult.error)
+    }
+
+    const urlResult = await target.getAppUrl(coolifyAppUuid)
+    if (isErr(urlResult)) {
+      return err(urlResult.error)
+    }
+
+    if (!urlResult.value) {
+      return err({
+        code: errorCode(targetName),
+        message: `${DEPLOY_TARGET_LABELS[targetName]} application has no domain: set one and run \`mbf webhook set\``,
+      })
+    }
+
+    const webhookUrl = `${urlResult.value}${ctx.options.webhookPath ?? DEFAULT_WEBHOOK_PATH}`
+    const secret = generateWebhookSecret()
+
+    ctx.progress(25, '[Webhook] Setting webhook environment variables', 'webhook_env')
+    const envResult = await target.setEnv(coolifyAppUuid, {
+      TG_WEBHOOK_URL: webhookUrl,
+      TG_WEBHOOK_SECRET: secret,
+    })
+    if (isErr(envResult)) {
+      return err(envResult.error)
+    }
+
+    // The bot reads the secret at startup
+    const restartResult = await target.restart(coolifyAppUuid)
+    if (isErr(restartResult)) {
+      log.warn('Failed to restart application:', restartResult.error.message)
+    }
+
+    ctx.progress(50, `[Webhook] Registering ${webhookUrl}`, 'webhook_set')
+    const setResult = await this.botApiService.setWebhook(botToken, {
+      url: webhookUrl,
+      secretToken: secret,
+    })
+    if (isErr(setResult)) {
+      return err(setResult.error)
+    }
+
+    // Recorded before verifying so undo also deletes a webhook that failed verification
+    ctx.outputs.webhookUrl = webhookUrl
+
+    ctx.progress(75, '[Webhook] Verifying webhook', 'webhook_verify')
+    const infoResult = await this.botApiService.getWebhookInfo(botToken)
+    if (isErr(infoResult)) {
+      return err(infoResult.error)
+    }
+
+    if (infoResult.value.url !== webhookUrl) {
+      return err({
+        code: AppErrorCode.BOTFATHER_ERROR,
+        message: `Webhook not registered: Telegram reports "${infoResult.value.url}"`,
+      })
+    }
+
+    if (infoResult.value.lastErrorMessage) {
+      // Usually the app is still starting; `mbf webhook info` shows the current state
+      log.warn(`Telegram reports a webhook error: ${infoResult.value.lastErrorMessage}`)
+    }
+
+    ctx.progress(100, '[Webhook] Webhook registered', 'webhook_done')
+    return ok({ webhookUrl })
+  }
+
+  /**
+   * Deletes the webhook.
+   *
+   * @param ctx - Pipeline context
+   * @returns Result indicating success or error
+   */
+  async undo(ctx: IPipelineContext): Promise<Result<void, ResultError<WebhookStepErrorCode>>> {
+    const { botToken, webhookUrl } = ctx.outputs
+    if (!botToken || !webhookUrl) {
+      return ok(undefined)
+    }
+
+    return this.botApiService.deleteWebhook(botToken)
+  }
+}
+
+/**
+ * Gets the error code of a deploy target.
+ *
+ * @param target - Deploy target
+ * @returns `COOLIFY_ERROR` for Coolify, else `DEPLOY_ERROR`
+ */
+function errorCode(target: DeployTarget): typeof AppErrorCode.COOLIFY_ERROR | typeof AppErrorCode.DEPLOY_ERROR {
+  return target === DeployTarget.Coolify ? AppErrorCode.COOLIFY_ERROR : AppErrorCode.DEPLOY_ERROR
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { isOk, isErr } from '@mks2508/no-throw'
+import { BatchFileService } from '../batch-file.service.js'
+
+describe('BatchFileService', () => {
+  const TEST_DIR = join(tmpdir(), `mks-bot-father-batch-test-${process.pid}`)
+
+  const writeBatch = (file: string, content: string): string => {
+    const path = join(TEST_DIR, file)
+    writeFileSync(path, content)
+    return path
+  }
+
+  beforeEach(() => {
+    mkdirSync(TEST_DIR, { recursive: true })
+  })
+
+  afterEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true, force: true })
+    }
+  })
+
+  describe('load()', () => {
+    it('should load a JSON array', () => {
+      const path = writeBatch(
+        'bots.json',
+        JSON.stringify([{ name: 'bot-a', github: true }, { name: 'bot-b' }])
+      )
+
+      const result = new BatchFileService().load(path)
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value).toEqual([{ name: 'bot-a', github: true }, { name: 'bot-b' }])
+      }
+    })
+
+    it('should load a CSV file with quoted fields and booleans', () => {
+      const path = writeBatch(
+        'bots.csv',
+        [
+          'name,description,github,deploy',
+          'bot-a,"Says ""hi"", politely",yes,0',
+          'bot-b,,true,',
+          '',
+        ].join('\r\n')
+      )
+
+      const result = new BatchFileService().load(path)
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value).toEqual([
+          { name: 'bot-a', description: 'Says "hi", politely', github: true, deploy: false },
+          { name: 'bot-b', github: true },
+        ])
+      }
+    })
+
+    it('should reject an invalid boolean in a CSV file', () => {
+      const path = writeBatch('bots.csv', 'name,github\nbot-a,maybe\n')
+
+      const result = new BatchFileService().load(path)
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('Row 2: github must be true or false')
+      }
+    })
+
+    it('should name the invalid entry', () => {
+      const path = writeBatch('bots.json', JSON.stringify([{ name: 'bot-a' }, { github: true }]))
+
+      const result = new BatchFileService().load(path)
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.code).toBe('VALIDATION_ERROR')
+        expect(result.error.message).toContain('Entry 2')
+      }
+    })
+
+    it('should reject unsupported file types', () => {
+      const path = writeBatch('bots.txt', 'bot-a\n')
+
+      const result = new BatchFileService().load(path)
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('Unsupported batch file type')
+      }
+    })
+
+    it('should return error for a missing file', () => {
+      const result = new BatchFileService().load(join(TEST_DIR, 'missing.csv'))
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('Batch file not found')
+      }
+    })
+  })
+
+  describe('toPipelineOptions()', () => {
+    it('should prefer entry fields over defaults', () => {
+      const options = new BatchFileService().toPipelineOptions(
+        { name: 'bot-a', github: false, coolifyDest: 'dest-a' },
+        { createGitHubRepo: true, deployToCoolify: true, githubOrg: 'my-org', rollbackOnFailure: true }
+      )
+
+      expect(options).toMatchObject({
+        botName: 'bot-a',
+        createGitHubRepo: false,
+        deployToCoolify: true,
+        githubOrg: 'my-org',
+        coolifyDestination: 'dest-a',
+        rollbackOnFailure: true,
+      })
+    })
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
-import { isOk, isErr } from '@mks2508/no-throw'
+import { isOk, isErr, ok, err } from '@mks2508/no-throw'
 
 let mockApiId: number | undefined = 12345
 let mockApiHash: string | undefined = 'test_api_hash'
@@ -13,6 +13,9 @@ const mockSetCommands = vi.fn()
 const mockSetDescription = vi.fn()
 const mockSetAboutText = vi.fn()
 const mockCreateEnv = vi.fn()
+const mockBotExists = vi.fn()
+const mockReadEnv = vi.fn()
+const mockListBotEnvs = vi.fn()
 
 vi.mock('../config.service.js', () => ({
   getConfigService: () => ({
@@ -20,6 +23,9 @@ vi.mock('../config.service.js', () => ({
       apiId: mockApiId,
       apiHash: mockApiHash,
     }),
+    // Stands in for the config key: sealed values are prefixed
+    sealSecret: (value: string) => ok(`sealed:${value}`),
+    openSecret: (value: string) => ok(value.replace(/^sealed:/, '')),
   }),
 }))
 
@@ -38,6 +44,9 @@ vi.mock('@mks2508/telegram-bot-manager', () => ({
   },
   EnvManager: class MockEnvManager {
     createEnv = mockCreateEnv
+    botExists = mockBotExists
+    readEnv = mockReadEnv
+    listBots = mockListBotEnvs
   },
 }))
 
@@ -58,6 +67,9 @@ describe('BotFatherService', () => {
     mockSetDescription.mockReset()
     mockSetAboutText.mockReset()
     mockCreateEnv.mockReset()
+    mockBotExists.mockReset()
+    mockReadEnv.mockReset()
+    mockListBotEnvs.mockReset()
 
     vi.resetModules()
     const module = await import('../botfather.service.js')
@@ -201,7 +213,7 @@ describe('BotFatherService', () => {
       expect(mockSetAboutText).toHaveBeenCalledWith('about_bot', 'Test about text')
     })
 
-    it('should save bot to EnvManager', async () => {
+    it('should save bot to EnvManager with the token sealed', async () => {
       mockCreateBot.mockResolvedValue({
         success: true,
         botToken: 'bot_token_env',
@@ -214,7 +226,7 @@ describe('BotFatherService', () => {
       await service.createBot({ botName: 'EnvBot', botUsername: 'env_bot' })
 
       expect(mockCreateEnv).toHaveBeenCalledWith('env_bot', 'local', {
-        botToken: 'bot_token_env',
+        botToken: 'sealed:bot_token_env',
         mode: 'polling',
       })
     })
@@ -516,6 +528,67 @@ describe('BotFatherService', () => {
     })
   })
 
+  describe('getBotEnv()', () => {
+    it('should decrypt the stored token', async () => {
+      mockBotExists.mockReturnValue(true)
+      mockReadEnv.mockResolvedValue({ botToken: 'sealed:123:abc', mode: 'polling' })
+
+      const result = await new BotFatherService().getBotEnv('env_bot')
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value).toEqual({ botToken: '123:abc', mode: 'polling' })
+      }
+    })
+
+    it('should return undefined for unknown bots', async () => {
+      mockBotExists.mockReturnValue(false)
+
+      const result = await new BotFatherService().getBotEnv('unknown_bot')
+
+      expect(isOk(result) && result.value).toBeUndefined()
+      expect(mockReadEnv).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('resealBotEnvs()', () => {
+    it('should rewrite every token after the key changes', async () => {
+      mockListBotEnvs.mockReturnValue([{ username: 'env_bot', environments: ['local', 'production'] }])
+      mockBotExists.mockReturnValue(true)
+      mockReadEnv
+        .mockResolvedValueOnce({ botToken: '123:abc', mode: 'polling' })
+        .mockResolvedValueOnce({ botToken: 'sealed:456:def', mode: 'webhook', webhookUrl: 'https://bot.test/webhook' })
+      const changeKey = vi.fn(() => {
+        expect(mockCreateEnv).not.toHaveBeenCalled()
+        return ok(undefined)
+      })
+
+      const result = await new BotFatherService().resealBotEnvs(changeKey)
+
+      expect(isOk(result)).toBe(true)
+      expect(changeKey).toHaveBeenCalledTimes(1)
+      expect(mockCreateEnv).toHaveBeenCalledWith('env_bot', 'local', { botToken: 'sealed:123:abc', mode: 'polling' })
+      expect(mockCreateEnv).toHaveBeenCalledWith('env_bot', 'production', {
+        botToken: 'sealed:456:def',
+        mode: 'webhook',
+        webhookUrl: 'https://bot.test/webhook',
+      })
+    })
+
+    it('should not rewrite anything if the key change fails', async () => {
+      mockListBotEnvs.mockReturnValue([{ username: 'env_bot', environments: ['local'] }])
+      mockBotExists.mockReturnValue(true)
+      mockReadEnv.mockResolvedValue({ botToken: '123:abc' })
+
+      const result = await new BotFatherService().resealBotEnvs(() =>
+        err({ code: 'CONFIG_ERROR', message: 'Wrong passphrase' })
+      )
+
+      expect(isErr(result)).toBe(true)
+      expect(mockCreateEnv).not.toHaveBeenCalled()
+    })
+  })
+
   describe('disconnect()', () => {
     it('should return ok if not connected', async () => {
       const service = new BotFatherService()
@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { existsSync, mkdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { isOk, isErr } from '@mks2508/no-throw'
+
+describe('CheckpointService', () => {
+  const TEST_HOME = join(tmpdir(), `mks-bot-father-checkpoint-test-${process.pid}`)
+  const RUNS_DIR = join(TEST_HOME, '.config', 'mks-bot-father', 'runs')
+
+  let CheckpointService: typeof import('../checkpoint.service.js').CheckpointService
+  let getCheckpointService: typeof import('../checkpoint.service.js').getCheckpointService
+
+  beforeEach(async () => {
+    vi.resetModules()
+
+    mkdirSync(TEST_HOME, { recursive: true })
+
+    vi.doMock('node:os', async () => {
+      const actual = await vi.importActual<typeof import('node:os')>('node:os')
+      return {
+        ...actual,
+        homedir: () => TEST_HOME,
+      }
+    })
+
+    const module = await import('../checkpoint.service.js')
+    CheckpointService = module.CheckpointService
+    getCheckpointService = module.getCheckpointService
+  })
+
+  afterEach(() => {
+    vi.resetModules()
+    vi.clearAllMocks()
+
+    if (existsSync(TEST_HOME)) {
+      rmSync(TEST_HOME, { recursive: true, force: true })
+    }
+  })
+
+  describe('create()', () => {
+    it('should create a running checkpoint with a run ID', () => {
+      const service = new CheckpointService()
+      const checkpoint = service.create({ botName: 'my-bot', createGitHubRepo: true })
+
+      expect(checkpoint.runId).toMatch(/^[a-z0-9]+-[a-f0-9]{8}$/)
+      expect(checkpoint.status).toBe('running')
+      expect(checkpoint.completedSteps).toEqual([])
+      expect(checkpoint.options).toEqual({ botName: 'my-bot', createGitHubRepo: true })
+    })
+
+    it('should strip the progress callback from persisted options', () => {
+      const service = new CheckpointService()
+      const checkpoint = service.create({ botName: 'my-bot', onProgress: vi.fn() })
+
+      expect(checkpoint.options).not.toHaveProperty('onProgress')
+    })
+
+    it('should generate unique run IDs', () => {
+      const service = new CheckpointService()
+      const first = service.create({ botName: 'my-bot' })
+      const second = service.create({ botName: 'my-bot' })
+
+      expect(first.runId).not.toBe(second.runId)
+    })
+
+    it('should not write to disk until saved', () => {
+      const service = new CheckpointService()
+      const checkpoint = service.create({ botName: 'my-bot' })
+
+      expect(existsSync(service.getCheckpointPath(checkpoint.runId))).toBe(false)
+    })
+  })
+
+  describe('save() / load()', () => {
+    it('should round-trip a checkpoint through disk', () => {
+      const service = new CheckpointService()
+      const checkpoint = service.create({ botName: 'my-bot' })
+      checkpoint.completedSteps.push('botfather')
+      checkpoint.outputs.botToken = '123:abc'
+
+      const saveResult = service.save(checkpoint)
+      expect(isOk(saveResult)).toBe(true)
+
+      const loadResult = service.load(checkpoint.runId)
+      expect(isOk(loadResult)).toBe(true)
+      if (isOk(loadResult)) {
+        expect(loadResult.value.completedSteps).toEqual(['botfather'])
+        expect(loadResult.value.outputs.botToken).toBe('123:abc')
+      }
+    })
+
+    it('should write checkpoint files readable only by the owner', () => {
+      const service = new CheckpointService()
+      const checkpoint = service.create({ botName: 'my-bot' })
+      service.save(checkpoint)
+
+      const mode = statSync(service.getCheckpointPath(checkpoint.runId)).mode & 0o777
+      expect(mode).toBe(0o600)
+    })
+
+    it('should return error for unknown run ID', () => {
+      const service = new CheckpointService()
+      const result = service.load('does-not-exist')
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('No checkpoint found')
+      }
+    })
+
+    it('should reject run IDs with path separators', () => {
+      const service = new CheckpointService()
+      const result = service.load('../config')
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('Invalid run ID')
+      }
+    })
+
+    it('should encrypt secrets while the config is locked', async () => {
+      const { getConfigService } = await import('../config.service.js')
+      const config = getConfigService()
+      expect(isOk(config.lock({ passphrase: 'correct horse' }))).toBe(true)
+
+      const service = new CheckpointService()
+      const checkpoint = service.create({
+        botName: 'my-bot',
+        existingBotToken: '123:existing',
+        coolifyEnvVars: { API_KEY: 'sk-live' },
+      })
+      checkpoint.outputs.botToken = '123:abc'
+      service.save(checkpoint)
+
+      const raw = readFileSync(service.getCheckpointPath(checkpoint.runId), 'utf-8')
+      expect(raw).not.toContain('123:abc')
+      expect(raw).not.toContain('123:existing')
+      expect(raw).not.toContain('sk-live')
+      expect(checkpoint.outputs.botToken).toBe('123:abc')
+
+      const loadResult = service.load(checkpoint.runId)
+      expect(isOk(loadResult)).toBe(true)
+      if (isOk(loadResult)) {
+        expect(loadResult.value.outputs.botToken).toBe('123:abc')
+        expect(loadResult.value.options.existingBotToken).toBe('123:existing')
+        expect(loadResult.value.options.coolifyEnvVars).toEqual({ API_KEY: 'sk-live' })
+      }
+    })
+
+    it('should re-encrypt stored runs when the config key changes', async () => {
+      const { getConfigService } = await import('../config.service.js')
+      const config = getConfigService()
+      const service = new CheckpointService()
+      const checkpoint = service.create({ botName: 'my-bot' })
+      checkpoint.outputs.botToken = '123:abc'
+      service.save(checkpoint)
+      const path = service.getCheckpointPath(checkpoint.runId)
+
+      expect(isOk(service.reseal(() => config.lock({ passphrase: 'correct horse' })))).toBe(true)
+      expect(readFileSync(path, 'utf-8')).not.toContain('123:abc')
+
+      expect(isOk(service.reseal(() => config.rekey({ passphrase: 'battery staple' })))).toBe(true)
+      const loadResult = service.load(checkpoint.runId)
+      expect(isOk(loadResult) && loadResult.value.outputs.botToken).toBe('123:abc')
+
+      expect(isOk(service.reseal(() => config.unlock()))).toBe(true)
+      expect(readFileSync(path, 'utf-8')).toContain('123:abc')
+    })
+
+    it('should return error for corrupted checkpoint file', () => {
+      mkdirSync(RUNS_DIR, { recursive: true })
+      writeFileSync(join(RUNS_DIR, 'broken-run.json'), '{ not json')
+
+      const service = new CheckpointService()
+      const result = service.load('broken-run')
+
+      expect(isErr(result)).toBe(true)
+    })
+  })
+
+  describe('list()', () => {
+    it('should return empty list when no runs exist', () => {
+      const service = new CheckpointService()
+      const result = service.list()
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value).toEqual([])
+      }
+    })
+
+    it('should list runs most recent first', () => {
+      const service = new CheckpointService()
+      const older = service.create({ botName: 'older-bot' })
+      older.createdAt = '2026-01-01T00:00:00.000Z'
+      const newer = service.create({ botName: 'newer-bot' })
+      newer.createdAt = '2026-02-01T00:00:00.000Z'
+      service.save(older)
+      service.save(newer)
+
+      const result = service.list()
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.map((run) => run.options.botName)).toEqual(['newer-bot', 'older-bot'])
+      }
+    })
+  })
+
+  describe('delete()', () => {
+    it('should remove the checkpoint file', () => {
+      const service = new CheckpointService()
+      const checkpoint = service.create({ botName: 'my-bot' })
+      service.save(checkpoint)
+
+      const result = service.delete(checkpoint.runId)
+
+      expect(isOk(result)).toBe(true)
+      expect(existsSync(service.getCheckpointPath(checkpoint.runId))).toBe(false)
+    })
+  })
+
+  describe('redactSecrets()', () => {
+    it('should drop the bot tokens and environment variable values', async () => {
+      const { redactSecrets } = await import('../checkpoint.service.js')
+      const service = new CheckpointService()
+      const checkpoint = service.create({
+        botName: 'my-bot',
+        existingBotToken: '123:existing',
+        coolifyEnvVars: { API_KEY: 'secret' },
+      })
+      checkpoint.outputs.botToken = '123:created'
+      checkpoint.outputs.githubRepoUrl = 'https://github.com/acme/my-bot'
+
+      const redacted = redactSecrets(checkpoint)
+
+      expect(redacted.outputs).toEqual({ githubRepoUrl: 'https://github.com/acme/my-bot' })
+      expect(redacted.options).toEqual({ botName: 'my-bot', coolifyEnvVars: {} })
+      expect(checkpoint.outputs.botToken).toBe('123:created')
+    })
+  })
+
+  describe('getCheckpointService() singleton', () => {
+    it('should return the same instance', () => {
+      expect(getCheckpointService()).toBe(getCheckpointService())
+    })
+  })
+})
@@ -204,6 +204,82 @@ describe('CoolifyService', () => {
     })
   })
 
+  describe('createGitApplication()', () => {
+    const target = {
+      name: 'test-app',
+      serverUuid: 'server-uuid',
+      destinationUuid: 'dest-uuid',
+      projectUuid: 'project-uuid',
+      environmentUuid: 'env-uuid',
+    }
+
+    it('should create an application from a public repository', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => JSON.stringify({ uuid: 'new-app-uuid' }),
+      })
+
+      const service = new CoolifyService()
+      const result = await service.createGitApplication({
+        ...target,
+        repoUrl: 'https://gitlab.com/acme/repo',
+      })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.uuid).toBe('new-app-uuid')
+      }
+      const [url, init] = mockFetch.mock.calls[0]!
+      expect(url).toBe('https://coolify.test.com/api/v1/applications/public')
+      expect(init.method).toBe('POST')
+      expect(JSON.parse(init.body)).toMatchObject({
+        project_uuid: 'project-uuid',
+        server_uuid: 'server-uuid',
+        environment_uuid: 'env-uuid',
+        destination_uuid: 'dest-uuid',
+        git_repository: 'https://gitlab.com/acme/repo',
+        git_branch: 'main',
+      })
+    })
+
+    it('should clone a private repository with the deploy key', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => JSON.stringify({ uuid: 'new-app-uuid' }),
+      })
+
+      const service = new CoolifyService()
+      await service.createGitApplication({
+        ...target,
+        repoUrl: 'git@gitlab.com:acme/repo.git',
+        privateKeyUuid: 'key-uuid',
+      })
+
+      const [url, init] = mockFetch.mock.calls[0]!
+      expect(url).toBe('https://coolify.test.com/api/v1/applications/private-deploy-key')
+      expect(JSON.parse(init.body)).toMatchObject({
+        private_key_uuid: 'key-uuid',
+        git_repository: 'git@gitlab.com:acme/repo.git',
+      })
+    })
+
+    it('should handle creation error', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 422,
+        text: async () => JSON.stringify({ message: 'Invalid repository' }),
+      })
+
+      const service = new CoolifyService()
+      const result = await service.createGitApplication({ ...target, repoUrl: 'https://gitlab.com/acme/repo' })
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('Invalid repository')
+      }
+    })
+  })
+
   describe('setEnvironmentVariables()', () => {
     it('should set environment variables successfully', async () => {
       mockFetch.mockResolvedValueOnce({
@@ -341,6 +417,47 @@ describe('CoolifyService', () => {
     })
   })
 
+  describe('getVersion()', () => {
+    it('should return the plain-text version', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => '4.0.0-beta.420\n',
+      })
+
+      const service = new CoolifyService()
+      await service.init()
+      const result = await service.getVersion()
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value).toBe('4.0.0-beta.420')
+      }
+    })
+  })
+
+  describe('getProjectEnvironment()', () => {
+    it('should return an error when the environment does not exist', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        text: async () => JSON.stringify({ message: 'Environment not found.' }),
+      })
+
+      const service = new CoolifyService()
+      await service.init()
+      const result = await service.getProjectEnvironment('proj-1', 'env-9')
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toBe('Environment not found.')
+      }
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://coolify.test.com/api/v1/projects/proj-1/env-9',
+        expect.any(Object)
+      )
+    })
+  })
+
   describe('isConfigured()', () => {
     it('should return true when URL and token are configured', async () => {
       const service = new CoolifyService()
@@ -1172,4 +1289,168 @@ describe('CoolifyService', () => {
       }
     })
   })
+
+  describe('getApplicationUrl()', () => {
+    it('should return the first domain without a trailing slash', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () =>
+          JSON.stringify({ fqdn: 'https://bot.example.com/,https://www.bot.example.com' }),
+      })
+
+      const service = new CoolifyService()
+      const result = await service.getApplicationUrl('app-uuid-123')
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value).toBe('https://bot.example.com')
+      }
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://coolify.test.com/api/v1/applications/app-uuid-123',
+        expect.any(Object)
+      )
+    })
+
+    it('should return undefined when no domain is configured', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => JSON.stringify({ fqdn: null }),
+      })
+
+      const service = new CoolifyService()
+      const result = await service.getApplicationUrl('app-uuid-123')
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value).toBeUndefined()
+      }
+    })
+  })
+
+  describe('getDeployment()', () => {
+    it('should return the deployment status and visible log lines', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () =>
+          JSON.stringify({
+            deployment_uuid: 'deploy-456',
+            status: 'in_progress',
+            logs: JSON.stringify([
+              { output: 'Step 2', type: 'stdout', order: 2 },
+              { output: 'secret', type: 'stdout', order: 3, hidden: true },
+              { output: 'Step 1', type: 'stderr', order: 1 },
+            ]),
+          }),
+      })
+
+      const service = new CoolifyService()
+      const result = await service.getDeployment('deploy-456')
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.status).toBe('in_progress')
+        expect(result.value.logs).toEqual([
+          { output: 'Step 1', type: 'stderr', timestamp: undefined },
+          { output: 'Step 2', type: 'stdout', timestamp: undefined },
+        ])
+      }
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://coolify.test.com/api/v1/deployments/deploy-456',
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: 'Bearer test_coolify_token' }),
+        })
+      )
+    })
+
+    it('should handle API error', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        text: async () => JSON.stringify({ message: 'Deployment not found' }),
+      })
+
+      const service = new CoolifyService()
+      const result = await service.getDeployment('missing')
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('Deployment not found')
+      }
+    })
+  })
+
+  describe('waitForDeployment()', () => {
+    const deploymentResponse = (status: string, lines: string[]) => ({
+      ok: true,
+      text: async () =>
+        JSON.stringify({
+          deployment_uuid: 'deploy-456',
+          status,
+          logs: JSON.stringify(lines.map((output, order) => ({ output, type: 'stdout', order }))),
+        }),
+    })
+
+    it('should poll until finished and stream each log line once', async () => {
+      mockFetch
+        .mockResolvedValueOnce(deploymentResponse('queued', []))
+        .mockResolvedValueOnce(deploymentResponse('in_progress', ['Cloning']))
+        .mockResolvedValueOnce(deploymentResponse('finished', ['Cloning', 'Building', 'Done']))
+      const onLog = vi.fn()
+
+      const service = new CoolifyService()
+      const result = await service.waitForDeployment('deploy-456', { pollInterval: 0, onLog })
+
+      expect(isOk(result)).toBe(true)
+      expect(onLog.mock.calls.map((call) => call[0].output)).toEqual(['Cloning', 'Building', 'Done'])
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+    })
+
+    it('should return error when the deployment fails', async () => {
+      mockFetch.mockResolvedValueOnce(deploymentResponse('failed', ['Build error']))
+
+      const service = new CoolifyService()
+      const result = await service.waitForDeployment('deploy-456', { pollInterval: 0 })
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('failed')
+      }
+    })
+
+    it('should return error when the deployment is cancelled', async () => {
+      mockFetch.mockResolvedValueOnce(deploymentResponse('cancelled-by-user', []))
+
+      const service = new CoolifyService()
+      const result = await service.waitForDeployment('deploy-456', { pollInterval: 0 })
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('cancelled')
+      }
+    })
+
+    it('should time out', async () => {
+      mockFetch.mockResolvedValue(deploymentResponse('in_progress', []))
+
+      const service = new CoolifyService()
+      const result = await service.waitForDeployment('deploy-456', { timeout: 0, pollInterval: 0 })
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('Timed out')
+      }
+    })
+
+    it('should tolerate a failed poll', async () => {
+      mockFetch
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValueOnce(deploymentResponse('finished', []))
+
+      const service = new CoolifyService()
+      const result = await service.waitForDeployment('deploy-456', { pollInterval: 0 })
+
+      expect(isOk(result)).toBe(true)
+    })
+  })
 })
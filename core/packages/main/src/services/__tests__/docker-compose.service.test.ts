@@ -0,0 +1,363 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { isOk, isErr } from '@mks2508/no-throw'
+
+let mockDeployConfig: Record<string, unknown> = {}
+
+vi.mock('../config.service.js', () => ({
+  CONFIG_DIR: '/home/test/.config/mks-bot-father',
+  getConfigService: () => ({
+    get: () => ({ deploy: mockDeployConfig }),
+  }),
+}))
+
+function stream(text: string) {
+  return new ReadableStream({
+    start(controller) {
+      if (text) {
+        controller.enqueue(new TextEncoder().encode(text))
+      }
+      controller.close()
+    },
+  })
+}
+
+function spawnResult(exitCode: number, stdout = '', stderr = '') {
+  return { exited: Promise.resolve(exitCode), stdout: stream(stdout), stderr: stream(stderr) }
+}
+
+describe('DockerComposeService', () => {
+  let DockerComposeService: typeof import('../docker-compose.service.js').DockerComposeService
+  let buildComposeFile: typeof import('../docker-compose.service.js').buildComposeFile
+  let composeProjectName: typeof import('../docker-compose.service.js').composeProjectName
+  let workDir: string
+  let composeDir: string
+  let projectPath: string
+  let spawn: ReturnType<typeof vi.fn>
+
+  const composeFile = () => join(composeDir, 'my-bot', 'compose.yaml')
+  const envFile = () => join(composeDir, 'my-bot', '.env')
+
+  const createApp = async (service: InstanceType<typeof DockerComposeService>) => {
+    const result = await service.createApp({ name: 'my-bot', projectPath })
+    expect(isOk(result)).toBe(true)
+  }
+
+  beforeEach(async () => {
+    workDir = mkdtempSync(join(tmpdir(), 'mbf-compose-'))
+    composeDir = join(workDir, 'deployments')
+    projectPath = join(workDir, 'my-bot')
+    mkdirSync(projectPath)
+    mockDeployConfig = { composeDir }
+
+    spawn = vi.fn(() => spawnResult(0))
+    vi.stubGlobal('Bun', { spawn })
+
+    vi.resetModules()
+    const module = await import('../docker-compose.service.js')
+    DockerComposeService = module.DockerComposeService
+    buildComposeFile = module.buildComposeFile
+    composeProjectName = module.composeProjectName
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    rmSync(workDir, { recursive: true, force: true })
+  })
+
+  describe('buildComposeFile()', () => {
+    it('should build projects with a Dockerfile', () => {
+      const file = buildComposeFile({ name: 'my-bot', projectPath: '/work/my-bot', dockerfile: true })
+
+      expect(file).toContain('name: my-bot')
+      expect(file).toContain('    build:\n      context: "/work/my-bot"')
+      expect(file).toContain('    env_file: .env')
+      expect(file).toContain('    restart: unless-stopped')
+      expect(file).not.toContain('image:')
+    })
+
+    it('should run projects without a Dockerfile with Bun', () => {
+      const file = buildComposeFile({ name: 'my-bot', projectPath: '/work/my-bot', dockerfile: false })
+
+      expect(file).toContain('    image: oven/bun:1')
+      expect(file).toContain('      - "/work/my-bot:/app"')
+      expect(file).toContain('    command: ["sh", "-c", "bun install && bun run start"]')
+      expect(file).not.toContain('build:')
+    })
+
+    it('should join the reverse proxy network', () => {
+      const file = buildComposeFile({ name: 'my-bot', projectPath: '/work/my-bot', dockerfile: true, network: 'proxy' })
+
+      expect(file).toContain('      "proxy":\n        aliases: [my-bot]')
+      expect(file).toContain('networks:\n  "proxy":\n    external: true')
+    })
+  })
+
+  describe('composeProjectName()', () => {
+    it('should derive a valid compose project name', () => {
+      expect(composeProjectName('my-bot')).toBe('my-bot')
+      expect(composeProjectName('My Bot.v2')).toBe('my-bot-v2')
+      expect(composeProjectName('_bot')).toBe('bot')
+    })
+  })
+
+  describe('init()', () => {
+    it('should check that docker compose is available', async () => {
+      const result = await new DockerComposeService().init()
+
+      expect(isOk(result)).toBe(true)
+      expect(spawn.mock.calls[0]![0]).toEqual(['docker', 'compose', 'version'])
+    })
+
+    it('should error when docker is missing', async () => {
+      spawn.mockImplementation(() => {
+        throw new Error('Executable not found in $PATH: "docker"')
+      })
+
+      const result = await new DockerComposeService().init()
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('Docker Compose not available')
+        expect(result.error.code).toBe('DEPLOY_ERROR')
+      }
+    })
+  })
+
+  describe('createApp()', () => {
+    it('should write the compose file and an empty .env', async () => {
+      const result = await new DockerComposeService().createApp({ name: 'my-bot', projectPath })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value).toEqual({ id: 'my-bot', location: composeFile() })
+      }
+      expect(readFileSync(composeFile(), 'utf-8')).toContain('image: oven/bun:1')
+      expect(readFileSync(envFile(), 'utf-8')).toBe('')
+      expect(statSync(envFile()).mode & 0o777).toBe(0o600)
+      expect(spawn).not.toHaveBeenCalled()
+    })
+
+    it('should build the Dockerfile when the project has one', async () => {
+      writeFileSync(join(projectPath, 'Dockerfile'), 'FROM oven/bun:1\n')
+
+      await new DockerComposeService().createApp({ name: 'my-bot', projectPath })
+
+      expect(readFileSync(composeFile(), 'utf-8')).toContain(`context: ${JSON.stringify(projectPath)}`)
+    })
+
+    it('should keep an existing .env', async () => {
+      const service = new DockerComposeService()
+      await createApp(service)
+      writeFileSync(envFile(), 'TG_BOT_TOKEN=123:abc\n')
+
+      await createApp(service)
+
+      expect(readFileSync(envFile(), 'utf-8')).toBe('TG_BOT_TOKEN=123:abc\n')
+    })
+
+    it('should error when the name gives no compose project name', async () => {
+      const result = await new DockerComposeService().createApp({ name: '!!!', projectPath })
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toBe('Empty compose project name')
+      }
+      expect(existsSync(join(composeDir, 'compose.yaml'))).toBe(false)
+    })
+
+    it('should error when the project path does not exist', async () => {
+      const result = await new DockerComposeService().createApp({ name: 'my-bot', projectPath: join(workDir, 'nope') })
+
+      expect(isErr(result)).toBe(true)
+      expect(existsSync(composeFile())).toBe(false)
+    })
+  })
+
+  describe('setEnv()', () => {
+    it('should merge variables into the .env, quoting special values', async () => {
+      const service = new DockerComposeService()
+      await createApp(service)
+
+      await service.setEnv('my-bot', { TG_BOT_TOKEN: '123:abc', TG_MODE: 'webhook' })
+      const result = await service.setEnv('my-bot', { TG_MODE: 'polling', GREETING: 'Hello "world"' })
+
+      expect(isOk(result)).toBe(true)
+      expect(readFileSync(envFile(), 'utf-8')).toBe(
+        'TG_BOT_TOKEN=123:abc\nTG_MODE=polling\nGREETING=\'Hello "world"\'\n'
+      )
+    })
+
+    it('should keep $ from being interpolated by Compose', async () => {
+      const service = new DockerComposeService()
+      await createApp(service)
+
+      await service.setEnv('my-bot', { PASSWORD: 'pa$word', QUOTED: "it's ${HOME}" })
+
+      expect(readFileSync(envFile(), 'utf-8')).toBe('PASSWORD=\'pa$word\'\nQUOTED="it\'s $${HOME}"\n')
+    })
+
+    it('should keep multi-line values on one line across updates', async () => {
+      const service = new DockerComposeService()
+      await createApp(service)
+      const key = '-----BEGIN KEY-----\nabc\\def "$x"\n-----END KEY-----'
+
+      await service.setEnv('my-bot', { PRIVATE_KEY: key, PASSWORD: 'pa$word' })
+      await service.setEnv('my-bot', { TG_MODE: 'polling' })
+
+      const text = readFileSync(envFile(), 'utf-8')
+      expect(text.split('\n')).toHaveLength(4)
+      expect(text).toContain('PRIVATE_KEY="-----BEGIN KEY-----\\nabc\\\\def \\"$$x\\"\\n-----END KEY-----"')
+    })
+
+    it('should error when the project does not exist', async () => {
+      const result = await new DockerComposeService().setEnv('my-bot', { A: 'b' })
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toBe('No compose project named my-bot')
+      }
+    })
+  })
+
+  describe('deploy()', () => {
+    it('should build and start the project', async () => {
+      const service = new DockerComposeService()
+      await createApp(service)
+
+      const result = await service.deploy('my-bot', { wait: true })
+
+      expect(isOk(result)).toBe(true)
+      const [command, options] = spawn.mock.calls[0]!
+      expect(command).toEqual(['docker', 'compose', '-p', 'my-bot', '-f', composeFile(), 'up', '-d', '--build', '--wait'])
+      expect(options.cwd).toBe(join(composeDir, 'my-bot'))
+    })
+
+    it('should return docker errors', async () => {
+      const service = new DockerComposeService()
+      await createApp(service)
+      spawn.mockReturnValue(spawnResult(1, '', 'failed to solve: bun install exited with 1'))
+
+      const result = await service.deploy('my-bot')
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toBe('docker compose up failed: failed to solve: bun install exited with 1')
+      }
+    })
+  })
+
+  describe('getStatus()', () => {
+    it('should return the container state', async () => {
+      const service = new DockerComposeService()
+      await createApp(service)
+      spawn.mockReturnValue(spawnResult(0, 'running\n'))
+
+      const result = await service.getStatus('my-bot')
+
+      expect(isOk(result) && result.value).toBe('running')
+      expect(spawn.mock.calls[0]![0].slice(6)).toEqual(['ps', '--all', '--format', '{{.State}}'])
+    })
+
+    it('should report a project without containers as stopped', async () => {
+      const service = new DockerComposeService()
+      await createApp(service)
+
+      const result = await service.getStatus('my-bot')
+
+      expect(isOk(result) && result.value).toBe('stopped')
+    })
+  })
+
+  describe('getLogs()', () => {
+    it('should return the latest log lines', async () => {
+      const service = new DockerComposeService()
+      await createApp(service)
+      spawn.mockReturnValue(spawnResult(0, 'bot-1  | Bot started\nbot-1  | Polling\n'))
+
+      const result = await service.getLogs('my-bot', 20)
+
+      expect(isOk(result) && result.value).toEqual(['bot-1  | Bot started', 'bot-1  | Polling'])
+      expect(spawn.mock.calls[0]![0].slice(6)).toEqual(['logs', '--no-color', '--tail', '20'])
+    })
+  })
+
+  describe('getAppUrl()', () => {
+    it('should fill the public URL template', async () => {
+      mockDeployConfig = { composeDir, composePublicUrl: 'https://{{name}}.bots.example.com/' }
+      const service = new DockerComposeService()
+
+      const result = await service.getAppUrl('my-bot')
+
+      expect(isOk(result) && result.value).toBe('https://my-bot.bots.example.com')
+      expect(service.hasPublicUrl()).toBe(true)
+    })
+
+    it('should return undefined without a template', async () => {
+      const service = new DockerComposeService()
+
+      const result = await service.getAppUrl('my-bot')
+
+      expect(isOk(result) && result.value).toBeUndefined()
+      expect(service.hasPublicUrl()).toBe(false)
+    })
+  })
+
+  describe('restart()', () => {
+    it('should recreate the containers to pick up the .env', async () => {
+      const service = new DockerComposeService()
+      await createApp(service)
+
+      await service.restart('my-bot')
+
+      expect(spawn.mock.calls[0]![0].slice(6)).toEqual(['up', '-d', '--force-recreate'])
+    })
+  })
+
+  describe('deleteApp()', () => {
+    it('should remove the containers and the project directory', async () => {
+      const service = new DockerComposeService()
+      await createApp(service)
+
+      const result = await service.deleteApp('my-bot')
+
+      expect(isOk(result)).toBe(true)
+      expect(spawn.mock.calls[0]![0].slice(6)).toEqual(['down', '--remove-orphans'])
+      expect(existsSync(join(composeDir, 'my-bot'))).toBe(false)
+    })
+
+    it('should reject IDs outside the compose directory', async () => {
+      writeFileSync(join(workDir, 'compose.yaml'), 'services: {}\n')
+
+      for (const appId of ['..', '../..', 'my-bot/../..', '']) {
+        const result = await new DockerComposeService().deleteApp(appId)
+
+        expect(isErr(result)).toBe(true)
+      }
+      expect(existsSync(workDir)).toBe(true)
+      expect(spawn).not.toHaveBeenCalled()
+    })
+
+    it('should do nothing when the project does not exist', async () => {
+      const result = await new DockerComposeService().deleteApp('my-bot')
+
+      expect(isOk(result)).toBe(true)
+      expect(spawn).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('findApp()', () => {
+    it('should find the project of a bot', async () => {
+      const service = new DockerComposeService()
+
+      const missing = await service.findApp('my-bot')
+      await createApp(service)
+      const found = await service.findApp('my-bot')
+
+      expect(isOk(missing) && missing.value).toBeUndefined()
+      expect(isOk(found) && found.value).toBe('my-bot')
+    })
+  })
+})
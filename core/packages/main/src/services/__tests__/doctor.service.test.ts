@@ -0,0 +1,405 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { isOk, ok, err } from '@mks2508/no-throw'
+import { AppErrorCode } from '../../types/errors.js'
+import type { IDoctorCheck, IDoctorReport } from '../../types/index.js'
+
+const mockConfigGet = vi.fn()
+const mockGetCoolifyUrl = vi.fn()
+const mockGetCoolifyToken = vi.fn()
+const mockGetTelegramCredentials = vi.fn()
+const mockGitHubInit = vi.fn()
+const mockGitHubGetAuthenticatedUser = vi.fn()
+const mockGitHubGetTokenScopes = vi.fn()
+const mockGitHubGetAppPermissions = vi.fn()
+const mockCoolifyInit = vi.fn()
+const mockCoolifyGetVersion = vi.fn()
+const mockCoolifyGetServer = vi.fn()
+const mockCoolifyGetServerDestinations = vi.fn()
+const mockCoolifyListProjects = vi.fn()
+const mockCoolifyGetProjectEnvironment = vi.fn()
+const mockBotFatherInit = vi.fn()
+const mockBotFatherDisconnect = vi.fn()
+const mockBotFatherListBotEnvs = vi.fn()
+const mockBotFatherGetBotEnv = vi.fn()
+const mockExistsSync = vi.fn()
+const mockStatfsSync = vi.fn()
+
+vi.mock('node:fs', () => ({
+  existsSync: (path: string) => mockExistsSync(path),
+  statfsSync: (path: string) => mockStatfsSync(path),
+  appendFileSync: vi.fn(),
+  mkdirSync: vi.fn(),
+  writeFileSync: vi.fn(),
+}))
+
+vi.mock('../config.service.js', () => ({
+  getConfigService: () => ({
+    get: mockConfigGet,
+    getCoolifyUrl: mockGetCoolifyUrl,
+    getCoolifyToken: mockGetCoolifyToken,
+    getTelegramCredentials: mockGetTelegramCredentials,
+  }),
+}))
+
+vi.mock('../github.service.js', () => ({
+  getGitHubService: () => ({
+    init: mockGitHubInit,
+    getAuthenticatedUser: mockGitHubGetAuthenticatedUser,
+    getTokenScopes: mockGitHubGetTokenScopes,
+    getAppPermissions: mockGitHubGetAppPermissions,
+  }),
+}))
+
+vi.mock('../coolify.service.js', () => ({
+  getCoolifyService: () => ({
+    init: mockCoolifyInit,
+    getVersion: mockCoolifyGetVersion,
+    getServer: mockCoolifyGetServer,
+    getServerDestinations: mockCoolifyGetServerDestinations,
+    listProjects: mockCoolifyListProjects,
+    getProjectEnvironment: mockCoolifyGetProjectEnvironment,
+  }),
+}))
+
+vi.mock('../botfather.service.js', () => ({
+  getBotFatherService: () => ({
+    init: mockBotFatherInit,
+    disconnect: mockBotFatherDisconnect,
+    listBotEnvs: mockBotFatherListBotEnvs,
+    getBotEnv: mockBotFatherGetBotEnv,
+    getCoreDir: () => '/home/user/.mks-bot-father/core',
+  }),
+}))
+
+const GB = 1024 * 1024 * 1024
+const VALID_TOKEN = '123456789:AAHdqTcvCH1vGWJxfSeofSAs0K5PALDsaw'
+
+/** stdout of each command, or undefined when it is not installed */
+let commands: Record<string, string | undefined>
+
+function spawnResult(stdout: string, exitCode = 0) {
+  return {
+    stdout: new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(stdout))
+        controller.close()
+      },
+    }),
+    stderr: new ReadableStream(),
+    exited: Promise.resolve(exitCode),
+  }
+}
+
+describe('DoctorService', () => {
+  let DoctorService: typeof import('../doctor.service.js').DoctorService
+
+  const runDoctor = async (options = {}): Promise<IDoctorReport> => {
+    const result = await new DoctorService().run(options)
+    expect(isOk(result)).toBe(true)
+    if (!isOk(result)) {
+      throw new Error('unreachable')
+    }
+    return result.value
+  }
+
+  const check = (report: IDoctorReport, id: string): IDoctorCheck => {
+    const found = report.checks.find((item) => item.id === id)
+    expect(found).toBeDefined()
+    return found!
+  }
+
+  beforeEach(async () => {
+    vi.resetModules()
+
+    commands = {
+      'bun --version': '1.2.20\n',
+      'git --version': 'git version 2.47.0\n',
+      'gh --version': 'gh version 2.62.0 (2024-11-14)\n',
+      'git config --get user.name': 'Jane Doe\n',
+      'git config --get user.email': 'jane@example.com\n',
+    }
+    vi.stubGlobal('Bun', {
+      spawn: vi.fn((cmd: string[]) => {
+        const stdout = commands[cmd.join(' ')]
+        if (stdout === undefined) {
+          throw new Error(`Executable not found in $PATH: "${cmd[0]}"`)
+        }
+        return spawnResult(stdout, stdout ? 0 : 1)
+      }),
+    })
+
+    mockConfigGet.mockReturnValue({
+      coolify: {
+        defaultServer: 'server-1',
+        defaultDestination: 'dest-1',
+        defaultProject: 'proj-1',
+        defaultEnvironment: 'env-1',
+      },
+    })
+    mockGetCoolifyUrl.mockReturnValue('https://coolify.example.com')
+    mockGetCoolifyToken.mockReturnValue('coolify-token')
+    mockGetTelegramCredentials.mockReturnValue({ apiId: 12345, apiHash: 'hash' })
+
+    mockGitHubInit.mockResolvedValue(ok(undefined))
+    mockGitHubGetAuthenticatedUser.mockResolvedValue(ok('jane'))
+    mockGitHubGetTokenScopes.mockResolvedValue(ok(['repo', 'delete_repo', 'workflow']))
+    mockGitHubGetAppPermissions.mockReturnValue(undefined)
+
+    mockCoolifyInit.mockResolvedValue(ok(undefined))
+    mockCoolifyGetVersion.mockResolvedValue(ok('4.0.0-beta.420'))
+    mockCoolifyGetServer.mockResolvedValue(ok({ uuid: 'server-1', name: 'main' }))
+    mockCoolifyGetServerDestinations.mockResolvedValue(ok([{ uuid: 'dest-1', name: 'coolify' }]))
+    mockCoolifyListProjects.mockResolvedValue(ok([{ uuid: 'proj-1', name: 'bots' }]))
+    mockCoolifyGetProjectEnvironment.mockResolvedValue(ok({ uuid: 'env-1', name: 'production' }))
+
+    mockBotFatherInit.mockResolvedValue(ok(undefined))
+    mockBotFatherDisconnect.mockResolvedValue(ok(undefined))
+    mockBotFatherListBotEnvs.mockResolvedValue(ok([{ username: 'my_bot', environments: ['local'] }]))
+    mockBotFatherGetBotEnv.mockResolvedValue(ok({ botToken: VALID_TOKEN, mode: 'polling' }))
+
+    mockExistsSync.mockReturnValue(true)
+    mockStatfsSync.mockReturnValue({ bavail: 50 * GB / 4096, bsize: 4096 })
+
+    const module = await import('../doctor.service.js')
+    DoctorService = module.DoctorService
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it('should pass every check in a healthy environment', async () => {
+    const report = await runDoctor({ workspacePath: '/work' })
+
+    expect(report.ok).toBe(true)
+    expect(report.counts).toEqual({ pass: report.checks.length, warn: 0, fail: 0, skip: 0 })
+    expect(report.checks.map((item) => item.id)).toEqual([
+      'bun',
+      'git',
+      'gh',
+      'git-identity',
+      'github-auth',
+      'github-scopes',
+      'coolify-api',
+      'coolify-server',
+      'coolify-destination',
+      'coolify-project',
+      'coolify-environment',
+      'telegram-session',
+      'envs',
+      'disk-workspace',
+      'disk-core',
+    ])
+    expect(check(report, 'bun').message).toBe('1.2.20')
+    expect(check(report, 'git-identity').message).toBe('Jane Doe <jane@example.com>')
+    expect(check(report, 'coolify-api').message).toBe('https://coolify.example.com (v4.0.0-beta.420)')
+    expect(check(report, 'coolify-environment').message).toBe('production (env-1)')
+    expect(mockCoolifyGetProjectEnvironment).toHaveBeenCalledWith('proj-1', 'env-1')
+    expect(mockBotFatherDisconnect).toHaveBeenCalled()
+  })
+
+  it('should fail when bun is missing and warn when gh is missing', async () => {
+    commands['bun --version'] = undefined
+    commands['gh --version'] = undefined
+
+    const report = await runDoctor()
+
+    expect(report.ok).toBe(false)
+    expect(check(report, 'bun')).toMatchObject({ status: 'fail', hint: expect.stringContaining('bun.sh') })
+    expect(check(report, 'gh').status).toBe('warn')
+  })
+
+  it('should fail without a git email', async () => {
+    commands['git config --get user.email'] = ''
+
+    const report = await runDoctor()
+
+    expect(check(report, 'git-identity')).toMatchObject({
+      status: 'fail',
+      message: expect.stringContaining('user.email not set'),
+      hint: 'git config --global user.email "..."',
+    })
+  })
+
+  describe('GitHub', () => {
+    it('should skip the scopes without a token', async () => {
+      mockGitHubInit.mockResolvedValue(err({ code: AppErrorCode.GITHUB_ERROR, message: 'No GitHub token available' }))
+
+      const report = await runDoctor()
+
+      expect(check(report, 'github-auth').status).toBe('fail')
+      expect(check(report, 'github-scopes').status).toBe('skip')
+      expect(mockGitHubGetTokenScopes).not.toHaveBeenCalled()
+    })
+
+    it('should fail without the repo scope', async () => {
+      mockGitHubGetTokenScopes.mockResolvedValue(ok(['read:user']))
+
+      const report = await runDoctor()
+
+      expect(check(report, 'github-scopes')).toMatchObject({
+        status: 'fail',
+        message: 'Missing repo (granted: read:user)',
+      })
+    })
+
+    it('should warn without the delete_repo scope', async () => {
+      mockGitHubGetTokenScopes.mockResolvedValue(ok(['repo']))
+
+      const report = await runDoctor()
+
+      expect(check(report, 'github-scopes').status).toBe('warn')
+      expect(check(report, 'github-scopes').message).toContain('--rollback')
+      expect(report.ok).toBe(true)
+    })
+
+    it('should pass fine-grained tokens that do not report scopes', async () => {
+      mockGitHubGetTokenScopes.mockResolvedValue(ok(undefined))
+
+      const report = await runDoctor()
+
+      expect(check(report, 'github-scopes').status).toBe('pass')
+      expect(check(report, 'github-scopes').message).toContain('Fine-grained')
+    })
+
+    it('should check the permissions of a GitHub App installation', async () => {
+      mockGitHubGetAuthenticatedUser.mockResolvedValue(ok('acme'))
+      mockGitHubGetAppPermissions.mockReturnValue({ administration: 'write', contents: 'write', secrets: 'read' })
+
+      const report = await runDoctor()
+
+      expect(check(report, 'github-auth').message).toBe('GitHub App installed on acme')
+      expect(check(report, 'github-scopes')).toMatchObject({
+        title: 'GitHub App permissions',
+        status: 'warn',
+      })
+      expect(check(report, 'github-scopes').message).toContain('Missing secrets write access')
+      expect(check(report, 'github-scopes').message).toContain('Missing workflows write access')
+    })
+
+    it('should fail a GitHub App without contents write access', async () => {
+      mockGitHubGetAppPermissions.mockReturnValue({ administration: 'write', contents: 'read' })
+
+      const report = await runDoctor()
+
+      expect(check(report, 'github-scopes')).toMatchObject({
+        status: 'fail',
+        message: 'Missing write access to contents',
+      })
+    })
+  })
+
+  describe('Coolify', () => {
+    it('should warn and skip the defaults when Coolify is not configured', async () => {
+      mockGetCoolifyToken.mockReturnValue(undefined)
+
+      const report = await runDoctor()
+
+      expect(check(report, 'coolify-api').status).toBe('warn')
+      expect(check(report, 'coolify-server').status).toBe('skip')
+      expect(check(report, 'coolify-environment').status).toBe('skip')
+      expect(mockCoolifyInit).not.toHaveBeenCalled()
+    })
+
+    it('should fail when the API is unreachable', async () => {
+      mockCoolifyGetVersion.mockResolvedValue(err({ code: AppErrorCode.COOLIFY_ERROR, message: 'fetch failed' }))
+
+      const report = await runDoctor()
+
+      expect(check(report, 'coolify-api')).toMatchObject({
+        status: 'fail',
+        message: 'https://coolify.example.com unreachable: fetch failed',
+      })
+      expect(check(report, 'coolify-project').status).toBe('skip')
+    })
+
+    it('should fail for defaults that do not exist and warn for unset ones', async () => {
+      mockConfigGet.mockReturnValue({
+        coolify: { defaultServer: 'server-1', defaultDestination: 'dest-9', defaultProject: 'proj-1' },
+      })
+
+      const report = await runDoctor()
+
+      expect(check(report, 'coolify-server').status).toBe('pass')
+      expect(check(report, 'coolify-destination')).toMatchObject({
+        status: 'fail',
+        hint: 'Set an existing UUID with mbf config set coolify.defaultDestination <uuid>',
+      })
+      expect(check(report, 'coolify-project').status).toBe('pass')
+      expect(check(report, 'coolify-environment')).toMatchObject({
+        status: 'warn',
+        hint: 'mbf config set coolify.defaultEnvironment <uuid>',
+      })
+    })
+  })
+
+  describe('Telegram', () => {
+    it('should skip the session check with skipTelegram', async () => {
+      const report = await runDoctor({ skipTelegram: true })
+
+      expect(check(report, 'telegram-session').status).toBe('skip')
+      expect(mockBotFatherInit).not.toHaveBeenCalled()
+    })
+
+    it('should fail without API credentials', async () => {
+      mockGetTelegramCredentials.mockReturnValue({})
+
+      const report = await runDoctor()
+
+      expect(check(report, 'telegram-session').status).toBe('fail')
+      expect(mockBotFatherInit).not.toHaveBeenCalled()
+    })
+
+    it('should fail when the session cannot connect', async () => {
+      mockBotFatherInit.mockResolvedValue(err({ code: AppErrorCode.BOTFATHER_ERROR, message: 'AUTH_KEY_UNREGISTERED' }))
+
+      const report = await runDoctor()
+
+      expect(check(report, 'telegram-session')).toMatchObject({ status: 'fail', message: 'AUTH_KEY_UNREGISTERED' })
+    })
+  })
+
+  describe('.envs', () => {
+    it('should warn about missing and malformed tokens', async () => {
+      mockBotFatherListBotEnvs.mockResolvedValue(
+        ok([
+          { username: 'good_bot', environments: ['local'] },
+          { username: 'bad_bot', environments: ['local', 'production'] },
+        ])
+      )
+      mockBotFatherGetBotEnv.mockImplementation(async (bot: string, environment: string) => {
+        if (bot === 'good_bot') return ok({ botToken: VALID_TOKEN })
+        return environment === 'local' ? ok({ botToken: 'not-a-token' }) : ok({ mode: 'webhook' })
+      })
+
+      const report = await runDoctor()
+
+      expect(check(report, 'envs')).toMatchObject({
+        status: 'warn',
+        message: '@bad_bot (local): malformed bot token; @bad_bot (production): no bot token',
+      })
+    })
+
+    it('should pass when no bot was created yet', async () => {
+      mockExistsSync.mockImplementation((path: string) => !path.endsWith('.envs'))
+
+      const report = await runDoctor()
+
+      expect(check(report, 'envs')).toMatchObject({ status: 'pass', message: expect.stringContaining('not created yet') })
+      expect(mockBotFatherListBotEnvs).not.toHaveBeenCalled()
+    })
+  })
+
+  it('should fail on low disk space in the workspace', async () => {
+    mockStatfsSync.mockImplementation((path: string) =>
+      path === '/work' ? { bavail: 100, bsize: 1024 * 1024 } : { bavail: 50 * GB / 4096, bsize: 4096 }
+    )
+
+    const report = await runDoctor({ workspacePath: '/work' })
+
+    expect(check(report, 'disk-workspace')).toMatchObject({ status: 'fail', message: '100.0 MB free in /work' })
+    expect(check(report, 'disk-core').status).toBe('pass')
+    expect(report.ok).toBe(false)
+  })
+})
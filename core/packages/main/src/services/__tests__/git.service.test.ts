@@ -0,0 +1,329 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { isOk, isErr } from '@mks2508/no-throw'
+
+function stream(text: string) {
+  return new ReadableStream({
+    start(controller) {
+      if (text) {
+        controller.enqueue(new TextEncoder().encode(text))
+      }
+      controller.close()
+    },
+  })
+}
+
+function spawnResult(exitCode: number, stdout = '', stderr = '') {
+  return { exited: Promise.resolve(exitCode), stdout: stream(stdout), stderr: stream(stderr) }
+}
+
+type GitReply = [exitCode: number, stdout?: string, stderr?: string]
+
+/** Answers git commands by their leading arguments; unmatched commands succeed */
+function fakeGit(replies: Record<string, GitReply> = {}) {
+  const defaults: Record<string, GitReply> = {
+    'diff --cached --quiet': [1],
+    'remote get-url origin': [2, '', "error: No such remote 'origin'"],
+    'ls-remote': [0, ''],
+    'rev-parse HEAD': [0, 'local-sha\n'],
+  }
+  const table = { ...defaults, ...replies }
+
+  return vi.fn((command: string[]) => {
+    const line = command.slice(1).join(' ')
+    const key = Object.keys(table)
+      .filter((prefix) => line.startsWith(prefix))
+      .sort((a, b) => b.length - a.length)[0]
+    const [exitCode, stdout, stderr] = key ? table[key]! : [0]
+    return spawnResult(exitCode, stdout, stderr)
+  })
+}
+
+describe('GitService', () => {
+  let GitService: typeof import('../git.service.js').GitService
+  let getGitService: typeof import('../git.service.js').getGitService
+
+  const commandsOf = (spawn: ReturnType<typeof fakeGit>) =>
+    spawn.mock.calls.map(([command]) => command.slice(1).join(' '))
+
+  const envOf = (spawn: ReturnType<typeof fakeGit>, prefix: string) =>
+    (spawn.mock.calls.find(([command]) => command.slice(1).join(' ').startsWith(prefix))?.[1] as {
+      env?: Record<string, string>
+    })?.env
+
+  beforeEach(async () => {
+    vi.resetModules()
+    const module = await import('../git.service.js')
+    GitService = module.GitService
+    getGitService = module.getGitService
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.unstubAllEnvs()
+  })
+
+  describe('push()', () => {
+    it('should commit, add origin and push to an empty repository', async () => {
+      const spawn = fakeGit()
+      vi.stubGlobal('Bun', { spawn })
+
+      const result = await new GitService().push('/work/my-bot', {
+        remoteUrl: 'https://github.com/acme/my-bot.git',
+      })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value).toEqual({ commitSha: 'local-sha', committed: true })
+      }
+      expect(commandsOf(spawn)).toEqual([
+        'init',
+        'add -A -- .',
+        'diff --cached --quiet',
+        'commit -m Initial commit from mks-bot-father',
+        'branch -M main',
+        'remote get-url origin',
+        'remote add origin https://github.com/acme/my-bot.git',
+        'ls-remote --heads origin main',
+        'push -u origin main',
+        'rev-parse HEAD',
+      ])
+      expect(spawn).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ cwd: '/work/my-bot' }))
+    })
+
+    it('should render the commit message and set the author identity', async () => {
+      const spawn = fakeGit()
+      vi.stubGlobal('Bun', { spawn })
+
+      await new GitService().push('/work/my-bot', {
+        remoteUrl: 'https://github.com/acme/my-bot.git',
+        message: 'chore: scaffold {{name}} on {{branch}}',
+        author: { name: 'Bot Father', email: 'bots@example.com' },
+      })
+
+      expect(commandsOf(spawn)).toContain('commit -m chore: scaffold my-bot on main')
+      expect(envOf(spawn, 'commit')).toMatchObject({
+        GIT_AUTHOR_NAME: 'Bot Father',
+        GIT_AUTHOR_EMAIL: 'bots@example.com',
+        GIT_COMMITTER_NAME: 'Bot Father',
+        GIT_COMMITTER_EMAIL: 'bots@example.com',
+      })
+    })
+
+    it('should pass the token as a header, never in the remote URL', async () => {
+      const spawn = fakeGit()
+      vi.stubGlobal('Bun', { spawn })
+      vi.stubEnv('GIT_CONFIG_COUNT', '0')
+
+      await new GitService().push('/work/my-bot', {
+        remoteUrl: 'https://github.com/acme/my-bot.git',
+        token: 'ghp_secret',
+      })
+
+      const basic = Buffer.from('x-access-token:ghp_secret').toString('base64')
+      expect(envOf(spawn, 'push')).toMatchObject({
+        GIT_CONFIG_COUNT: '1',
+        GIT_CONFIG_KEY_0: 'http.https://github.com/.extraheader',
+        GIT_CONFIG_VALUE_0: `Authorization: Basic ${basic}`,
+      })
+      expect(commandsOf(spawn).some((line) => line.includes('ghp_secret') || line.includes(basic))).toBe(false)
+      expect(envOf(spawn, 'remote add')).toBeUndefined()
+    })
+
+    it('should not send the token to SSH remotes', async () => {
+      const spawn = fakeGit()
+      vi.stubGlobal('Bun', { spawn })
+
+      await new GitService().push('/work/my-bot', {
+        remoteUrl: 'git@github.com:acme/my-bot.git',
+        token: 'ghp_secret',
+      })
+
+      expect(envOf(spawn, 'push')).toBeUndefined()
+    })
+
+    it('should keep the git config already passed through the environment', async () => {
+      const spawn = fakeGit()
+      vi.stubGlobal('Bun', { spawn })
+      vi.stubEnv('GIT_CONFIG_COUNT', '1')
+      vi.stubEnv('GIT_CONFIG_KEY_0', 'core.hooksPath')
+      vi.stubEnv('GIT_CONFIG_VALUE_0', '/dev/null')
+
+      await new GitService().push('/work/my-bot', {
+        remoteUrl: 'https://github.com/acme/my-bot.git',
+        token: 'ghp_secret',
+      })
+
+      expect(envOf(spawn, 'push')).toMatchObject({
+        GIT_CONFIG_COUNT: '2',
+        GIT_CONFIG_KEY_0: 'core.hooksPath',
+        GIT_CONFIG_KEY_1: 'http.https://github.com/.extraheader',
+      })
+    })
+
+    it('should repoint an existing origin', async () => {
+      const spawn = fakeGit({ 'remote get-url origin': [0, 'https://github.com/old/my-bot.git\n'] })
+      vi.stubGlobal('Bun', { spawn })
+
+      const result = await new GitService().push('/work/my-bot', {
+        remoteUrl: 'https://github.com/acme/my-bot.git',
+      })
+
+      expect(isOk(result)).toBe(true)
+      expect(commandsOf(spawn)).toContain('remote set-url origin https://github.com/acme/my-bot.git')
+      expect(commandsOf(spawn).some((line) => line.startsWith('remote add'))).toBe(false)
+    })
+
+    it('should push existing commits when there is nothing new to commit', async () => {
+      const spawn = fakeGit({ 'diff --cached --quiet': [0] })
+      vi.stubGlobal('Bun', { spawn })
+
+      const result = await new GitService().push('/work/my-bot', {
+        remoteUrl: 'https://github.com/acme/my-bot.git',
+      })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.committed).toBe(false)
+      }
+      expect(commandsOf(spawn).some((line) => line.startsWith('commit'))).toBe(false)
+      expect(commandsOf(spawn)).toContain('push -u origin main')
+    })
+
+    it('should fail when there is nothing to commit and no commits', async () => {
+      const spawn = fakeGit({ 'diff --cached --quiet': [0], 'rev-parse --verify': [1] })
+      vi.stubGlobal('Bun', { spawn })
+
+      const result = await new GitService().push('/work/my-bot', {
+        remoteUrl: 'https://github.com/acme/my-bot.git',
+      })
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toBe('Nothing to commit')
+      }
+    })
+
+    it('should rebase onto a remote branch that already has commits', async () => {
+      const spawn = fakeGit({
+        'ls-remote': [0, 'remote-sha\trefs/heads/main\n'],
+        'merge-base --is-ancestor': [1],
+      })
+      vi.stubGlobal('Bun', { spawn })
+
+      const result = await new GitService().push('/work/my-bot', {
+        remoteUrl: 'https://github.com/acme/my-bot.git',
+      })
+
+      expect(isOk(result)).toBe(true)
+      const commands = commandsOf(spawn)
+      expect(commands).toContain('fetch origin main')
+      expect(commands.indexOf('rebase remote-sha')).toBeLessThan(commands.indexOf('push -u origin main'))
+    })
+
+    it('should abort a conflicting rebase', async () => {
+      const spawn = fakeGit({
+        'ls-remote': [0, 'remote-sha\trefs/heads/main\n'],
+        'merge-base --is-ancestor': [1],
+        'rebase remote-sha': [1, 'CONFLICT (add/add): Merge conflict in README.md'],
+      })
+      vi.stubGlobal('Bun', { spawn })
+
+      const result = await new GitService().push('/work/my-bot', {
+        remoteUrl: 'https://github.com/acme/my-bot.git',
+      })
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('Cannot rebase onto origin/main: CONFLICT (add/add)')
+        expect(result.error.message).toContain('force-with-lease')
+      }
+      expect(commandsOf(spawn)).toContain('rebase --abort')
+      expect(commandsOf(spawn).some((line) => line.startsWith('push'))).toBe(false)
+    })
+
+    it('should push with a lease on the fetched commit', async () => {
+      const spawn = fakeGit({ 'ls-remote': [0, 'remote-sha\trefs/heads/main\n'] })
+      vi.stubGlobal('Bun', { spawn })
+
+      const result = await new GitService().push('/work/my-bot', {
+        remoteUrl: 'https://github.com/acme/my-bot.git',
+        strategy: 'force-with-lease',
+      })
+
+      expect(isOk(result)).toBe(true)
+      expect(commandsOf(spawn)).toContain('push -u --force-with-lease=refs/heads/main:remote-sha origin main')
+      expect(commandsOf(spawn).some((line) => line.startsWith('rebase'))).toBe(false)
+    })
+
+    it('should commit only the given paths to the existing origin', async () => {
+      const spawn = fakeGit({ 'remote get-url origin': [0, 'https://github.com/acme/my-bot.git\n'] })
+      vi.stubGlobal('Bun', { spawn })
+
+      const result = await new GitService().push('/work/my-bot', {
+        paths: ['.github/workflows/ci.yml'],
+        message: 'Add CI workflow',
+      })
+
+      expect(isOk(result)).toBe(true)
+      const commands = commandsOf(spawn)
+      expect(commands).toContain('add -A -- .github/workflows/ci.yml')
+      expect(commands).toContain('commit -m Add CI workflow -- .github/workflows/ci.yml')
+      expect(commands.some((line) => line.startsWith('remote add') || line.startsWith('remote set-url'))).toBe(
+        false
+      )
+    })
+
+    it('should fail without a remote URL or origin', async () => {
+      vi.stubGlobal('Bun', { spawn: fakeGit() })
+
+      const result = await new GitService().push('/work/my-bot')
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toBe('No origin remote configured')
+      }
+    })
+
+    it('should stop at the first failing command with git\'s message', async () => {
+      const spawn = fakeGit({
+        commit: [128, '', 'Author identity unknown\n\n*** Please tell me who you are.\n'],
+      })
+      vi.stubGlobal('Bun', { spawn })
+
+      const result = await new GitService().push('/work/my-bot', {
+        remoteUrl: 'https://github.com/acme/my-bot.git',
+      })
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.code).toBe('GITHUB_ERROR')
+        expect(result.error.message).toMatch(/^git commit failed: Author identity unknown/)
+      }
+      expect(commandsOf(spawn).some((line) => line.startsWith('push'))).toBe(false)
+    })
+  })
+
+  describe('getOriginUrl()', () => {
+    it('should return the origin URL', async () => {
+      vi.stubGlobal('Bun', { spawn: fakeGit({ 'remote get-url origin': [0, 'git@github.com:acme/my-bot.git\n'] }) })
+
+      const result = await new GitService().getOriginUrl('/work/my-bot')
+
+      expect(isOk(result) && result.value).toBe('git@github.com:acme/my-bot.git')
+    })
+
+    it('should return undefined without an origin remote', async () => {
+      vi.stubGlobal('Bun', { spawn: fakeGit() })
+
+      const result = await new GitService().getOriginUrl('/work/my-bot')
+
+      expect(isOk(result) && result.value).toBeUndefined()
+    })
+  })
+
+  describe('getGitService() singleton', () => {
+    it('should return the same instance', () => {
+      expect(getGitService()).toBe(getGitService())
+    })
+  })
+})
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest'
+import { isOk, isErr, ok, err } from '@mks2508/no-throw'
+
+let mockGitConfig: Record<string, unknown> = {}
+const mockGitPush = vi.fn()
+
+vi.mock('../config.service.js', () => ({
+  getConfigService: () => ({
+    get: () => ({ git: mockGitConfig, github: {} }),
+  }),
+}))
+
+vi.mock('../git.service.js', () => ({
+  getGitService: () => ({ push: mockGitPush }),
+}))
+
+describe('GiteaService', () => {
+  let mockFetch: Mock
+  let GiteaService: typeof import('../gitea.service.js').GiteaService
+
+  const response = (status: number, body: unknown) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  })
+
+  const initService = async () => {
+    const service = new GiteaService()
+    await service.init()
+    return service
+  }
+
+  beforeEach(async () => {
+    mockGitConfig = { url: 'https://git.acme.dev', token: 'gitea-token' }
+    mockFetch = vi.fn()
+    vi.stubGlobal('fetch', mockFetch)
+
+    vi.resetModules()
+    const module = await import('../gitea.service.js')
+    GiteaService = module.GiteaService
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+    vi.unstubAllGlobals()
+    vi.unstubAllEnvs()
+  })
+
+  describe('init()', () => {
+    it('should initialize with a URL and token', async () => {
+      const service = new GiteaService()
+      const result = await service.init()
+      expect(isOk(result)).toBe(true)
+    })
+
+    it('should error if no URL configured', async () => {
+      mockGitConfig = { token: 'gitea-token' }
+      vi.stubEnv('GITEA_URL', '')
+
+      const service = new GiteaService()
+      const result = await service.init()
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('No Gitea URL')
+      }
+    })
+
+    it('should error if no token available', async () => {
+      mockGitConfig = { url: 'https://git.acme.dev' }
+      vi.stubEnv('GITEA_TOKEN', '')
+
+      const service = new GiteaService()
+      const result = await service.init()
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('No Gitea token')
+      }
+    })
+  })
+
+  describe('createRepo()', () => {
+    const repo = {
+      html_url: 'https://git.acme.dev/acme/my-bot',
+      clone_url: 'https://git.acme.dev/acme/my-bot.git',
+      ssh_url: 'git@git.acme.dev:acme/my-bot.git',
+    }
+
+    it('should create the repository in an organization', async () => {
+      mockFetch
+        .mockResolvedValueOnce(response(200, { id: 3 }))
+        .mockResolvedValueOnce(response(201, repo))
+
+      const service = await initService()
+      const result = await service.createRepo({ name: 'my-bot', owner: 'acme', private: true })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value).toEqual({
+          success: true,
+          repoUrl: 'https://git.acme.dev/acme/my-bot',
+          cloneUrl: 'https://git.acme.dev/acme/my-bot.git',
+          sshUrl: 'git@git.acme.dev:acme/my-bot.git',
+        })
+      }
+      expect(mockFetch.mock.calls[0]![0]).toBe('https://git.acme.dev/api/v1/orgs/acme')
+      const [url, init] = mockFetch.mock.calls[1]!
+      expect(url).toBe('https://git.acme.dev/api/v1/orgs/acme/repos')
+      expect(init.headers.Authorization).toBe('token gitea-token')
+      expect(JSON.parse(init.body)).toMatchObject({ name: 'my-bot', private: true, default_branch: 'main' })
+    })
+
+    it('should create the repository for the authenticated user', async () => {
+      mockFetch
+        .mockResolvedValueOnce(response(404, { message: 'GetOrgByName' }))
+        .mockResolvedValueOnce(response(200, { login: 'jdoe' }))
+        .mockResolvedValueOnce(response(201, repo))
+
+      const service = await initService()
+      const result = await service.createRepo({ name: 'my-bot', owner: 'jdoe' })
+
+      expect(isOk(result)).toBe(true)
+      expect(mockFetch.mock.calls[2]![0]).toBe('https://git.acme.dev/api/v1/user/repos')
+    })
+
+    it('should reject an owner that is neither an organization nor the user', async () => {
+      mockFetch
+        .mockResolvedValueOnce(response(404, { message: 'GetOrgByName' }))
+        .mockResolvedValueOnce(response(200, { login: 'jdoe' }))
+
+      const service = await initService()
+      const result = await service.createRepo({ name: 'my-bot', owner: 'someone-else' })
+
+      expect(isErr(result)).toBe(true)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('archiveRepo()', () => {
+    it('should mark the repository as archived', async () => {
+      mockFetch.mockResolvedValueOnce(response(200, { archived: true }))
+
+      const service = await initService()
+      const result = await service.archiveRepo('acme', 'my-bot')
+
+      expect(isOk(result)).toBe(true)
+      const [url, init] = mockFetch.mock.calls[0]!
+      expect(url).toBe('https://git.acme.dev/api/v1/repos/acme/my-bot')
+      expect(init.method).toBe('PATCH')
+      expect(JSON.parse(init.body)).toEqual({ archived: true })
+    })
+  })
+
+  describe('pushToRepo()', () => {
+    it('should push with the token as the authenticated user', async () => {
+      mockFetch.mockResolvedValueOnce(response(200, { login: 'jdoe' }))
+      mockGitPush.mockResolvedValueOnce(ok({ commitSha: 'abc123' }))
+
+      const service = await initService()
+      const result = await service.pushToRepo('https://git.acme.dev/acme/my-bot.git', '/tmp/my-bot')
+
+      expect(isOk(result)).toBe(true)
+      expect(mockGitPush).toHaveBeenCalledWith(
+        '/tmp/my-bot',
+        expect.objectContaining({ token: 'gitea-token', tokenUser: 'jdoe' }),
+        undefined
+      )
+    })
+
+    it('should report push failures as git host errors', async () => {
+      mockFetch.mockResolvedValueOnce(response(200, { login: 'jdoe' }))
+      mockGitPush.mockResolvedValueOnce(err({ code: 'GITHUB_ERROR', message: 'Push rejected' }))
+
+      const service = await initService()
+      const result = await service.pushToRepo('https://git.acme.dev/acme/my-bot.git', '/tmp/my-bot')
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error).toMatchObject({ code: 'GIT_HOST_ERROR', message: 'Push rejected' })
+      }
+    })
+  })
+
+  describe('parseRepoUrl()', () => {
+    it('should parse repository URLs of the instance', async () => {
+      const service = await initService()
+
+      expect(service.parseRepoUrl('https://git.acme.dev/acme/my-bot')).toEqual({ owner: 'acme', repo: 'my-bot' })
+      expect(service.parseRepoUrl('https://git.acme.dev/acme/sub/my-bot')).toBeUndefined()
+      expect(service.parseRepoUrl('https://github.com/acme/my-bot')).toBeUndefined()
+    })
+  })
+})
@@ -1,13 +1,24 @@
 import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest'
 import { isOk, isErr, ok, err } from '@mks2508/no-throw'
+import { createVerify, generateKeyPairSync } from 'node:crypto'
+import { existsSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+const TEST_CONFIG_DIR = join(tmpdir(), `mks-bot-father-github-test-${process.pid}`)
 
 let mockToken: string | undefined = 'ghp_test_token'
 let mockTokenError: boolean = false
+let mockGitHubConfig: Record<string, unknown> = {}
+let mockGitHubApp: ReturnType<typeof ok> | ReturnType<typeof err> = ok(undefined)
+const mockGitPush = vi.fn()
 
 vi.mock('../config.service.js', () => ({
+  CONFIG_DIR: TEST_CONFIG_DIR,
   getConfigService: () => ({
-    get: () => ({ github: { token: mockToken } }),
+    get: () => ({ github: { token: mockToken, ...mockGitHubConfig } }),
     getGitHubToken: () => mockToken,
+    getGitHubApp: () => mockGitHubApp,
     resolveGitHubToken: async () => {
       if (mockTokenError) {
         return err({ code: 'CONFIG_ERROR', message: 'Token resolution failed' })
@@ -17,6 +28,10 @@ vi.mock('../config.service.js', () => ({
   }),
 }))
 
+vi.mock('../git.service.js', () => ({
+  getGitService: () => ({ push: mockGitPush }),
+}))
+
 describe('GitHubService', () => {
   let mockFetch: Mock
   let mockBunSpawn: Mock
@@ -26,6 +41,8 @@ describe('GitHubService', () => {
   beforeEach(async () => {
     mockToken = 'ghp_test_token'
     mockTokenError = false
+    mockGitHubConfig = {}
+    mockGitHubApp = ok(undefined)
     mockFetch = vi.fn()
     mockBunSpawn = vi.fn()
 
@@ -46,6 +63,8 @@ describe('GitHubService', () => {
   afterEach(() => {
     vi.clearAllMocks()
     vi.unstubAllGlobals()
+    vi.useRealTimers()
+    rmSync(TEST_CONFIG_DIR, { recursive: true, force: true })
   })
 
   describe('init()', () => {
@@ -181,6 +200,62 @@ describe('GitHubService', () => {
         expect(result.value).toBe(false)
       }
     })
+
+    it('should return error when the check fails for another reason', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: async () => ({ message: 'Bad credentials' }),
+      })
+
+      const service = new GitHubService()
+      await service.init()
+      const result = await service.repoExists('owner', 'test-repo')
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('Bad credentials')
+      }
+    })
+  })
+
+  describe('deleteRepo()', () => {
+    it('should delete repository on 204 No Content', async () => {
+      const json = vi.fn()
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 204,
+        json,
+      })
+
+      const service = new GitHubService()
+      await service.init()
+      const result = await service.deleteRepo('owner', 'test-repo')
+
+      expect(isOk(result)).toBe(true)
+      expect(json).not.toHaveBeenCalled()
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.github.com/repos/owner/test-repo',
+        expect.objectContaining({ method: 'DELETE' })
+      )
+    })
+
+    it('should return error when token lacks delete_repo scope', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        json: async () => ({ message: 'Must have admin rights to Repository.' }),
+      })
+
+      const service = new GitHubService()
+      await service.init()
+      const result = await service.deleteRepo('owner', 'test-repo')
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('admin rights')
+      }
+    })
   })
 
   describe('createRepo()', () => {
@@ -314,61 +389,78 @@ describe('GitHubService', () => {
   })
 
   describe('pushToRepo()', () => {
-    it('should push code to repo successfully', async () => {
-      const mockProcess = {
-        exited: Promise.resolve(0),
-        stdout: new ReadableStream(),
-        stderr: new ReadableStream(),
+    it('should push with the token and the configured commit settings', async () => {
+      mockGitHubConfig = {
+        commitMessage: 'chore: scaffold {{name}}',
+        commitAuthorName: 'Bot Father',
+        commitAuthorEmail: 'bots@example.com',
+        pushStrategy: 'force-with-lease',
       }
-
-      mockBunSpawn.mockReturnValue(mockProcess)
+      mockGitPush.mockResolvedValue(ok({ commitSha: 'abc123', committed: true }))
+      const onProgress = vi.fn()
 
       const service = new GitHubService()
       await service.init()
       const result = await service.pushToRepo(
         'https://github.com/test/repo.git',
-        '/path/to/project'
+        '/path/to/project',
+        'develop',
+        onProgress
       )
 
       expect(isOk(result)).toBe(true)
-      expect(mockBunSpawn).toHaveBeenCalledWith(['git', 'init'], expect.any(Object))
-      expect(mockBunSpawn).toHaveBeenCalledWith(['git', 'add', '.'], expect.any(Object))
-      expect(mockBunSpawn).toHaveBeenCalledWith(
-        ['git', 'commit', '-m', 'Initial commit from mks-bot-father'],
-        expect.any(Object)
+      if (isOk(result)) {
+        expect(result.value).toEqual({ success: true, commitSha: 'abc123' })
+      }
+      expect(mockGitPush).toHaveBeenCalledWith(
+        '/path/to/project',
+        {
+          remoteUrl: 'https://github.com/test/repo.git',
+          branch: 'develop',
+          message: 'chore: scaffold {{name}}',
+          author: { name: 'Bot Father', email: 'bots@example.com' },
+          token: 'ghp_test_token',
+          strategy: 'force-with-lease',
+        },
+        onProgress
       )
     })
 
-    it('should handle push failure', async () => {
-      const createMockProcess = (exitCode: number, stderrText = '') => ({
-        exited: Promise.resolve(exitCode),
-        stdout: new ReadableStream(),
-        stderr: new ReadableStream({
-          start(controller) {
-            if (stderrText) {
-              controller.enqueue(new TextEncoder().encode(stderrText))
-            }
-            controller.close()
-          },
-        }),
-      })
-
-      mockBunSpawn
-        .mockReturnValueOnce(createMockProcess(0))
-        .mockReturnValueOnce(createMockProcess(0))
-        .mockReturnValueOnce(createMockProcess(0))
-        .mockReturnValueOnce(createMockProcess(0))
-        .mockReturnValueOnce(createMockProcess(0))
-        .mockReturnValueOnce(createMockProcess(1, 'Push failed'))
+    it('should return the git error', async () => {
+      mockGitPush.mockResolvedValue(
+        err({ code: 'GITHUB_ERROR', message: 'git push failed: fatal: repository not found' })
+      )
 
       const service = new GitHubService()
       await service.init()
-      const result = await service.pushToRepo(
-        'https://github.com/test/repo.git',
-        '/path/to/project'
-      )
+      const result = await service.pushToRepo('https://github.com/test/repo.git', '/path/to/project')
 
       expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toBe('git push failed: fatal: repository not found')
+      }
+    })
+  })
+
+  describe('pushChanges()', () => {
+    it('should commit only the given paths to the existing origin', async () => {
+      mockGitPush.mockResolvedValue(ok({ commitSha: 'def456', committed: true }))
+
+      const service = new GitHubService()
+      await service.init()
+      const result = await service.pushChanges('/path/to/project', ['.github/workflows/ci.yml'], 'Add CI')
+
+      expect(isOk(result)).toBe(true)
+      expect(mockGitPush).toHaveBeenCalledWith(
+        '/path/to/project',
+        expect.objectContaining({
+          branch: 'main',
+          message: 'Add CI',
+          paths: ['.github/workflows/ci.yml'],
+          token: 'ghp_test_token',
+        })
+      )
+      expect(mockGitPush.mock.calls[0]![1].remoteUrl).toBeUndefined()
     })
   })
 
@@ -599,6 +691,243 @@ describe('GitHubService', () => {
     })
   })
 
+  describe('getTokenScopes()', () => {
+    it('should parse the X-OAuth-Scopes header', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({ 'X-OAuth-Scopes': 'repo, delete_repo, workflow' }),
+        json: async () => ({ login: 'testuser' }),
+      })
+
+      const service = new GitHubService()
+      await service.init()
+      const result = await service.getTokenScopes()
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value).toEqual(['repo', 'delete_repo', 'workflow'])
+      }
+    })
+
+    it('should return undefined for tokens without the header', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers(),
+        json: async () => ({ login: 'testuser' }),
+      })
+
+      const service = new GitHubService()
+      await service.init()
+      const result = await service.getTokenScopes()
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value).toBeUndefined()
+      }
+    })
+  })
+
+  describe('listRepos()', () => {
+    const repoData = (name: string) => ({
+      name,
+      owner: { login: 'test-org' },
+      description: null,
+      private: true,
+      html_url: `https://github.com/test-org/${name}`,
+      clone_url: `https://github.com/test-org/${name}.git`,
+    })
+
+    it('should page through organization repositories', async () => {
+      const firstPage = Array.from({ length: 100 }, (_, index) => repoData(`repo-${index}`))
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ type: 'Organization' }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => firstPage })
+        .mockResolvedValueOnce({ ok: true, json: async () => [repoData('weather-bot')] })
+
+      const service = new GitHubService()
+      await service.init()
+      const result = await service.listRepos('test-org')
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value).toHaveLength(101)
+        expect(result.value[100]).toEqual({
+          name: 'weather-bot',
+          owner: 'test-org',
+          description: undefined,
+          private: true,
+          repoUrl: 'https://github.com/test-org/weather-bot',
+          cloneUrl: 'https://github.com/test-org/weather-bot.git',
+        })
+      }
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.github.com/orgs/test-org/repos?type=all&per_page=100&page=2',
+        expect.any(Object)
+      )
+    })
+
+    it('should list private repositories of the authenticated user', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ type: 'User' }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ login: 'TestUser' }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => [] })
+
+      const service = new GitHubService()
+      await service.init()
+      const result = await service.listRepos('testuser')
+
+      expect(isOk(result)).toBe(true)
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'https://api.github.com/user/repos?affiliation=owner&per_page=100&page=1',
+        expect.any(Object)
+      )
+    })
+  })
+
+  describe('updateRepo()', () => {
+    it('should send merge settings with their API names', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({}) })
+
+      const service = new GitHubService()
+      await service.init()
+      const result = await service.updateRepo('owner', 'test-repo', {
+        allowMergeCommit: false,
+        allowSquashMerge: true,
+        deleteBranchOnMerge: true,
+      })
+
+      expect(isOk(result)).toBe(true)
+      const [url, init] = mockFetch.mock.calls[0]!
+      expect(url).toBe('https://api.github.com/repos/owner/test-repo')
+      expect(JSON.parse(init.body)).toEqual({
+        allow_merge_commit: false,
+        allow_squash_merge: true,
+        delete_branch_on_merge: true,
+      })
+    })
+  })
+
+  describe('setTopics()', () => {
+    it('should replace the repository topics', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ names: ['telegram-bot'] }) })
+
+      const service = new GitHubService()
+      await service.init()
+      const result = await service.setTopics('owner', 'test-repo', ['telegram-bot', 'bun'])
+
+      expect(isOk(result)).toBe(true)
+      const [url, init] = mockFetch.mock.calls[0]!
+      expect(url).toBe('https://api.github.com/repos/owner/test-repo/topics')
+      expect(init.method).toBe('PUT')
+      expect(JSON.parse(init.body)).toEqual({ names: ['telegram-bot', 'bun'] })
+    })
+  })
+
+  describe('setBranchProtection()', () => {
+    it('should require pull request reviews and block force pushes', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({}) })
+
+      const service = new GitHubService()
+      await service.init()
+      const result = await service.setBranchProtection('owner', 'test-repo', 'main', {
+        requiredApprovals: 1,
+        requiredStatusChecks: ['ci'],
+      })
+
+      expect(isOk(result)).toBe(true)
+      const [url, init] = mockFetch.mock.calls[0]!
+      expect(url).toBe('https://api.github.com/repos/owner/test-repo/branches/main/protection')
+      expect(JSON.parse(init.body)).toEqual({
+        required_status_checks: { strict: true, contexts: ['ci'] },
+        enforce_admins: false,
+        required_pull_request_reviews: { required_approving_review_count: 1 },
+        restrictions: null,
+        allow_force_pushes: false,
+        allow_deletions: false,
+      })
+    })
+
+    it('should return the API error for plans without branch protection', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        json: async () => ({ message: 'Upgrade to GitHub Pro or make this repository public to enable this feature.' }),
+      })
+
+      const service = new GitHubService()
+      await service.init()
+      const result = await service.setBranchProtection('owner', 'test-repo', 'main')
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('Upgrade to GitHub Pro')
+      }
+    })
+  })
+
+  describe('setActionsSecret()', () => {
+    // Key pair generated with libsodium's crypto_box_keypair
+    const PUBLIC_KEY = 'ZlFK482SkFn//ePw5jjOwbhhGk9FqUkNS53/LnoHD0Y='
+    const SECRET_KEY = 'y7bb0mq+7rUSto82PRYufaCyBLz2yyLwEr8iqiVP1eE='
+
+    it('should encrypt the value with the repository public key', async () => {
+      const { openSealedBox } = await import('../../utils/sealed-box.js')
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ key_id: 'key-1', key: PUBLIC_KEY }) })
+        .mockResolvedValueOnce({ ok: true, status: 201, json: async () => ({}) })
+
+      const service = new GitHubService()
+      await service.init()
+      const result = await service.setActionsSecret('owner', 'test-repo', 'TG_BOT_TOKEN', '123456:ABC-token')
+
+      expect(isOk(result) && result.value).toBe(true)
+      expect(mockFetch.mock.calls[0]![0]).toBe(
+        'https://api.github.com/repos/owner/test-repo/actions/secrets/public-key'
+      )
+      const [url, init] = mockFetch.mock.calls[1]!
+      expect(url).toBe('https://api.github.com/repos/owner/test-repo/actions/secrets/TG_BOT_TOKEN')
+      expect(init.method).toBe('PUT')
+
+      const body = JSON.parse(init.body)
+      expect(body.key_id).toBe('key-1')
+      expect(body.encrypted_value).not.toContain('ABC-token')
+      expect(openSealedBox(body.encrypted_value, PUBLIC_KEY, SECRET_KEY)?.toString()).toBe('123456:ABC-token')
+    })
+
+    it('should report an updated secret', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ key_id: 'key-1', key: PUBLIC_KEY }) })
+        .mockResolvedValueOnce({ ok: true, status: 204, json: async () => ({}) })
+
+      const service = new GitHubService()
+      await service.init()
+      const result = await service.setActionsSecret('owner', 'test-repo', 'TG_BOT_TOKEN', 'token')
+
+      expect(isOk(result) && result.value).toBe(false)
+    })
+
+    it('should open boxes sealed by libsodium', async () => {
+      const { openSealedBox, derivePublicKey } = await import('../../utils/sealed-box.js')
+      const sealed =
+        'xNWwsj3OFJlMQwjDwQ/M+BpqGTfH1DxsoMz6ZdMitE5HnkxrhotHTcN2vFq+LpMFan99PnZs7AJIAFhhTUS7HMS3XAg='
+
+      expect(derivePublicKey(SECRET_KEY)).toBe(PUBLIC_KEY)
+      expect(openSealedBox(sealed, PUBLIC_KEY, SECRET_KEY)?.toString()).toBe('hello from libsodium')
+      expect(openSealedBox(sealed.replace('xNW', 'xNX'), PUBLIC_KEY, SECRET_KEY)).toBeUndefined()
+    })
+
+    it('should return error when the public key cannot be read', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 404, json: async () => ({ message: 'Not Found' }) })
+
+      const service = new GitHubService()
+      await service.init()
+      const result = await service.setActionsSecret('owner', 'missing', 'TG_BOT_TOKEN', 'token')
+
+      expect(isErr(result)).toBe(true)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+  })
+
   describe('getAuthenticatedUser() extended', () => {
     it('should handle network error', async () => {
       mockFetch.mockRejectedValueOnce(new Error('Network error'))
@@ -630,64 +959,484 @@ describe('GitHubService', () => {
     })
   })
 
-  describe('pushToRepo() extended', () => {
-    it('should use custom branch name', async () => {
-      const mockProcess = {
-        exited: Promise.resolve(0),
-        stdout: new ReadableStream(),
-        stderr: new ReadableStream(),
+  describe('request() retries', () => {
+    const repoBody = {
+      name: 'test-repo',
+      owner: { login: 'owner' },
+      description: null,
+      private: false,
+      html_url: 'https://github.com/owner/test-repo',
+      clone_url: 'https://github.com/owner/test-repo.git',
+    }
+    const badGateway = {
+      ok: false,
+      status: 502,
+      json: async () => {
+        throw new SyntaxError('Unexpected token <')
+      },
+    }
+
+    it('should retry server errors on reads with backoff', async () => {
+      vi.useFakeTimers()
+      mockFetch
+        .mockResolvedValueOnce(badGateway)
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => repoBody })
+
+      const service = new GitHubService()
+      await service.init()
+      const promise = service.getRepo('owner', 'test-repo')
+      await vi.advanceTimersByTimeAsync(1000)
+      const result = await promise
+
+      expect(isOk(result)).toBe(true)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should give up after the last retry', async () => {
+      vi.useFakeTimers()
+      mockFetch.mockResolvedValue(badGateway)
+
+      const service = new GitHubService()
+      await service.init()
+      const promise = service.getRepo('owner', 'test-repo')
+      await vi.advanceTimersByTimeAsync(10_000)
+      const result = await promise
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toBe('HTTP 502')
       }
+      expect(mockFetch).toHaveBeenCalledTimes(4)
+    })
 
-      mockBunSpawn.mockReturnValue(mockProcess)
+    it('should not retry server errors on non-idempotent requests', async () => {
+      mockFetch.mockResolvedValue(badGateway)
 
       const service = new GitHubService()
       await service.init()
-      await service.pushToRepo(
-        'https://github.com/test/repo.git',
-        '/path/to/project',
-        'develop'
-      )
+      const result = await service.updateRepo('owner', 'test-repo', { deleteBranchOnMerge: true })
 
-      expect(mockBunSpawn).toHaveBeenCalledWith(
-        ['git', 'branch', '-M', 'develop'],
-        expect.any(Object)
-      )
-      expect(mockBunSpawn).toHaveBeenCalledWith(
-        ['git', 'push', '-u', 'origin', 'develop'],
-        expect.any(Object)
-      )
+      expect(isErr(result)).toBe(true)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should wait for Retry-After on a secondary rate limit', async () => {
+      vi.useFakeTimers()
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 403,
+          headers: new Headers({ 'retry-after': '30' }),
+          json: async () => ({ message: 'You have exceeded a secondary rate limit.' }),
+        })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({}) })
+
+      const service = new GitHubService()
+      await service.init()
+      const promise = service.updateRepo('owner', 'test-repo', { deleteBranchOnMerge: true })
+      await vi.advanceTimersByTimeAsync(29_000)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      await vi.advanceTimersByTimeAsync(1000)
+      const result = await promise
+
+      expect(isOk(result)).toBe(true)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should wait for X-RateLimit-Reset when the limit is used up', async () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date('2026-01-01T00:00:00Z'))
+      const reset = Date.parse('2026-01-01T00:00:20Z') / 1000
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 403,
+          headers: new Headers({ 'x-ratelimit-remaining': '0', 'x-ratelimit-limit': '5000', 'x-ratelimit-reset': String(reset) }),
+          json: async () => ({ message: 'API rate limit exceeded for user ID 1.' }),
+        })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ login: 'testuser' }) })
+
+      const service = new GitHubService()
+      await service.init()
+      const promise = service.getAuthenticatedUser()
+      await vi.advanceTimersByTimeAsync(21_000)
+      const result = await promise
+
+      expect(isOk(result)).toBe(true)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should fail right away when the rate limit resets too late', async () => {
+      const reset = Math.floor(Date.now() / 1000) + 3600
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        headers: new Headers({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(reset) }),
+        json: async () => ({ message: 'API rate limit exceeded for user ID 1.' }),
+      })
+
+      const service = new GitHubService()
+      await service.init()
+      const result = await service.getAuthenticatedUser()
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('API rate limit exceeded for user ID 1. (retry after ')
+      }
+      expect(mockFetch).toHaveBeenCalledTimes(1)
     })
 
-    it('should handle git init failure', async () => {
-      const createMockProcess = (exitCode: number, stderrText = '') => ({
-        exited: Promise.resolve(exitCode),
-        stdout: new ReadableStream(),
-        stderr: new ReadableStream({
-          start(controller) {
-            if (stderrText) {
-              controller.enqueue(new TextEncoder().encode(stderrText))
-            }
-            controller.close()
+    it('should not retry permission errors', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 403,
+        json: async () => ({ message: 'Resource not accessible by personal access token' }),
+      })
+
+      const service = new GitHubService()
+      await service.init()
+      const result = await service.setTopics('owner', 'test-repo', ['bot'])
+
+      expect(isErr(result)).toBe(true)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('request() ETag cache', () => {
+    const cacheFile = join(TEST_CONFIG_DIR, 'cache', 'github.json')
+
+    it('should revalidate cached reads with If-None-Match', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: new Headers({ etag: 'W/"abc"' }),
+          json: async () => ({ type: 'Organization' }),
+        })
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 304,
+          json: async () => {
+            throw new SyntaxError('Unexpected end of JSON input')
           },
-        }),
+        })
+
+      const service = new GitHubService()
+      await service.init()
+      await service.isOrganization('test-org')
+      const result = await service.isOrganization('test-org')
+
+      expect(isOk(result) && result.value).toBe(true)
+      expect(mockFetch.mock.calls[0]![1].headers['If-None-Match']).toBeUndefined()
+      expect(mockFetch.mock.calls[1]![1].headers['If-None-Match']).toBe('W/"abc"')
+      expect(existsSync(cacheFile)).toBe(true)
+      expect(readFileSync(cacheFile, 'utf-8')).not.toContain('ghp_test_token')
+    })
+
+    it('should reuse the cache across service instances', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: new Headers({ etag: '"v1"' }),
+          json: async () => ({}),
+        })
+        .mockResolvedValueOnce({ ok: false, status: 304, json: async () => ({}) })
+
+      const first = new GitHubService()
+      await first.init()
+      await first.repoExists('owner', 'test-repo')
+
+      const second = new GitHubService()
+      await second.init()
+      const result = await second.repoExists('owner', 'test-repo')
+
+      expect(isOk(result) && result.value).toBe(true)
+      expect(mockFetch.mock.calls[1]![1].headers['If-None-Match']).toBe('"v1"')
+    })
+
+    it('should drop the entry once the resource is gone', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: new Headers({ etag: '"v1"' }),
+          json: async () => ({}),
+        })
+        .mockResolvedValueOnce({ ok: false, status: 404, json: async () => ({ message: 'Not Found' }) })
+        .mockResolvedValueOnce({ ok: false, status: 404, json: async () => ({ message: 'Not Found' }) })
+
+      const service = new GitHubService()
+      await service.init()
+      await service.repoExists('owner', 'test-repo')
+      const result = await service.repoExists('owner', 'test-repo')
+      await service.repoExists('owner', 'test-repo')
+
+      expect(isOk(result) && result.value).toBe(false)
+      expect(mockFetch.mock.calls[2]![1].headers['If-None-Match']).toBeUndefined()
+    })
+
+    it('should not cache writes', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers({ etag: '"v1"' }),
+        json: async () => ({}),
       })
 
-      mockBunSpawn
-        .mockReturnValueOnce(createMockProcess(0))
-        .mockReturnValueOnce(createMockProcess(0))
-        .mockReturnValueOnce(createMockProcess(0))
-        .mockReturnValueOnce(createMockProcess(0))
-        .mockReturnValueOnce(createMockProcess(0))
-        .mockReturnValueOnce(createMockProcess(128, 'fatal: remote origin already exists'))
+      const service = new GitHubService()
+      await service.init()
+      await service.updateRepo('owner', 'test-repo', { deleteBranchOnMerge: true })
+
+      expect(existsSync(cacheFile)).toBe(false)
+    })
+  })
+
+  describe('pagination', () => {
+    it('should follow the Link header', async () => {
+      const repo = (name: string) => ({
+        name,
+        owner: { login: 'test-org' },
+        description: null,
+        private: false,
+        html_url: `https://github.com/test-org/${name}`,
+        clone_url: `https://github.com/test-org/${name}.git`,
+      })
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ type: 'Organization' }) })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: new Headers({
+            link: '<https://api.github.com/orgs/test-org/repos?type=all&per_page=100&page=2>; rel="next"',
+          }),
+          json: async () => [repo('a-bot')],
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: new Headers({
+            link: '<https://api.github.com/orgs/test-org/repos?type=all&per_page=100&page=1>; rel="prev"',
+          }),
+          json: async () => [repo('b-bot')],
+        })
 
       const service = new GitHubService()
       await service.init()
-      const result = await service.pushToRepo(
-        'https://github.com/test/repo.git',
-        '/path/to/project'
+      const result = await service.listRepos('test-org')
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.map((r) => r.name)).toEqual(['a-bot', 'b-bot'])
+      }
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+    })
+  })
+
+  describe('GitHub App authentication', () => {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+    })
+    const credentials = { appId: 12345, installationId: 678, privateKey }
+
+    const tokenResponse = (token: string, expiresInMs = 3_600_000) => ({
+      ok: true,
+      status: 201,
+      json: async () => ({
+        token,
+        expires_at: new Date(Date.now() + expiresInMs).toISOString(),
+        permissions: { administration: 'write', contents: 'write' },
+      }),
+    })
+    const authorization = (call: number) =>
+      (mockFetch.mock.calls[call]![1] as { headers: Record<string, string> }).headers.Authorization
+
+    beforeEach(() => {
+      mockGitHubApp = ok(credentials)
+    })
+
+    it('should sign a JWT the app public key verifies', async () => {
+      const { createAppJwt } = await import('../github-app.js')
+      const now = Date.parse('2026-01-01T00:00:00Z')
+
+      const [header, payload, signature] = createAppJwt(12345, privateKey, now).split('.')
+
+      expect(JSON.parse(Buffer.from(header!, 'base64url').toString())).toEqual({ alg: 'RS256', typ: 'JWT' })
+      expect(JSON.parse(Buffer.from(payload!, 'base64url').toString())).toEqual({
+        iat: now / 1000 - 60,
+        exp: now / 1000 + 540,
+        iss: '12345',
+      })
+      const valid = createVerify('RSA-SHA256').update(`${header}.${payload}`).verify(publicKey, signature!, 'base64url')
+      expect(valid).toBe(true)
+    })
+
+    it('should exchange the JWT for an installation token and use it', async () => {
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse('ghs_first'))
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ name: 'test-repo' }) })
+
+      const service = new GitHubService()
+      const initResult = await service.init()
+      await service.repoExists('acme', 'test-repo')
+
+      expect(isOk(initResult)).toBe(true)
+      expect(mockFetch.mock.calls[0]![0]).toBe('https://api.github.com/app/installations/678/access_tokens')
+      expect(mockFetch.mock.calls[0]![1]).toMatchObject({ method: 'POST' })
+      expect(authorization(0)).toMatch(/^Bearer [\w-]+\.[\w-]+\.[\w-]+$/)
+      expect(authorization(1)).toBe('Bearer ghs_first')
+      expect(service.getAppPermissions()).toEqual({ administration: 'write', contents: 'write' })
+    })
+
+    it('should reuse the installation token across init() calls', async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse('ghs_first'))
+
+      const service = new GitHubService()
+      await service.init()
+      await service.init()
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should refresh a token about to expire', async () => {
+      vi.useFakeTimers()
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse('ghs_first'))
+        .mockResolvedValueOnce(tokenResponse('ghs_second'))
+        .mockResolvedValue({ ok: true, status: 200, json: async () => ({ name: 'test-repo' }) })
+
+      const service = new GitHubService()
+      await service.init()
+      vi.advanceTimersByTime(56 * 60_000)
+      await service.repoExists('acme', 'test-repo')
+
+      expect(mockFetch.mock.calls[1]![0]).toBe('https://api.github.com/app/installations/678/access_tokens')
+      expect(authorization(2)).toBe('Bearer ghs_second')
+    })
+
+    it('should issue a new token once when the current one is rejected', async () => {
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse('ghs_first'))
+        .mockResolvedValueOnce({ ok: false, status: 401, json: async () => ({ message: 'Bad credentials' }) })
+        .mockResolvedValueOnce(tokenResponse('ghs_second'))
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ name: 'test-repo' }) })
+
+      const service = new GitHubService()
+      await service.init()
+      const result = await service.repoExists('acme', 'test-repo')
+
+      expect(isOk(result) && result.value).toBe(true)
+      expect(authorization(3)).toBe('Bearer ghs_second')
+    })
+
+    it('should report the installation account as the authenticated user', async () => {
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse('ghs_first'))
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ account: { login: 'acme' } }) })
+
+      const service = new GitHubService()
+      await service.init()
+      const userResult = await service.getAuthenticatedUser()
+      const scopesResult = await service.getTokenScopes()
+
+      expect(isOk(userResult) && userResult.value).toBe('acme')
+      expect(mockFetch.mock.calls[1]![0]).toBe('https://api.github.com/app/installations/678')
+      expect(isOk(scopesResult) && scopesResult.value).toBeUndefined()
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should create repositories on the organization the app is installed on', async () => {
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse('ghs_first'))
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ account: { login: 'acme' } }) })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ type: 'Organization' }) })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 201,
+          json: async () => ({ html_url: 'https://github.com/acme/new-repo', full_name: 'acme/new-repo' }),
+        })
+
+      const service = new GitHubService()
+      await service.init()
+      const result = await service.createRepo({ name: 'new-repo' })
+
+      expect(isOk(result)).toBe(true)
+      expect(mockFetch.mock.calls[3]![0]).toBe('https://api.github.com/orgs/acme/repos')
+    })
+
+    it('should refuse to create repositories on a personal account', async () => {
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse('ghs_first'))
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ account: { login: 'octocat' } }) })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ type: 'User' }) })
+
+      const service = new GitHubService()
+      await service.init()
+      const result = await service.createRepo({ name: 'new-repo' })
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('GitHub Apps cannot create repositories on personal accounts')
+      }
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+    })
+
+    it('should push with the installation token', async () => {
+      mockFetch.mockResolvedValueOnce(tokenResponse('ghs_first'))
+      mockGitPush.mockResolvedValue(ok({ commitSha: 'abc123', committed: true }))
+
+      const service = new GitHubService()
+      await service.init()
+      await service.pushToRepo('https://github.com/acme/repo.git', '/path/to/project')
+
+      expect(mockGitPush).toHaveBeenCalledWith(
+        '/path/to/project',
+        expect.objectContaining({ token: 'ghs_first' }),
+        undefined
       )
+    })
+
+    it('should fail when the installation token cannot be issued', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        json: async () => ({ message: 'Integration not found' }),
+      })
+
+      const service = new GitHubService()
+      const result = await service.init()
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toBe('Integration not found')
+      }
+    })
+
+    it('should fail with an invalid private key', async () => {
+      mockGitHubApp = ok({ ...credentials, privateKey: 'not a key' })
+
+      const service = new GitHubService()
+      const result = await service.init()
 
       expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('Invalid GitHub App private key')
+      }
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should fail with an incomplete app configuration', async () => {
+      mockGitHubApp = err({ code: 'CONFIG_ERROR', message: 'Incomplete GitHub App configuration' })
+
+      const service = new GitHubService()
+      const result = await service.init()
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toBe('Incomplete GitHub App configuration')
+      }
     })
   })
 
@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest'
+import { isOk, isErr, ok } from '@mks2508/no-throw'
+
+let mockGitConfig: Record<string, unknown> = {}
+const mockGitPush = vi.fn()
+
+vi.mock('../config.service.js', () => ({
+  getConfigService: () => ({
+    get: () => ({ git: mockGitConfig, github: { commitMessage: 'chore: initial commit', pushStrategy: 'force' } }),
+  }),
+}))
+
+vi.mock('../git.service.js', () => ({
+  getGitService: () => ({ push: mockGitPush }),
+}))
+
+describe('GitLabService', () => {
+  let mockFetch: Mock
+  let GitLabService: typeof import('../gitlab.service.js').GitLabService
+
+  const response = (status: number, body: unknown) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  })
+
+  const initService = async () => {
+    const service = new GitLabService()
+    await service.init()
+    return service
+  }
+
+  beforeEach(async () => {
+    mockGitConfig = { token: 'glpat-test' }
+    mockFetch = vi.fn()
+    vi.stubGlobal('fetch', mockFetch)
+
+    vi.resetModules()
+    const module = await import('../gitlab.service.js')
+    GitLabService = module.GitLabService
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+    vi.unstubAllGlobals()
+    vi.unstubAllEnvs()
+  })
+
+  describe('init()', () => {
+    it('should initialize with a token', async () => {
+      const service = new GitLabService()
+      const result = await service.init()
+      expect(isOk(result)).toBe(true)
+    })
+
+    it('should fall back to GITLAB_TOKEN', async () => {
+      mockGitConfig = {}
+      vi.stubEnv('GITLAB_TOKEN', 'glpat-env')
+
+      const service = await initService()
+      mockFetch.mockResolvedValueOnce(response(200, { username: 'jdoe' }))
+      await service.getAuthenticatedUser()
+
+      expect(mockFetch.mock.calls[0]![1].headers['PRIVATE-TOKEN']).toBe('glpat-env')
+    })
+
+    it('should error if no token available', async () => {
+      mockGitConfig = {}
+      vi.stubEnv('GITLAB_TOKEN', '')
+
+      const service = new GitLabService()
+      const result = await service.init()
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('No GitLab token')
+      }
+    })
+  })
+
+  describe('getAuthenticatedUser()', () => {
+    it('should call gitlab.com by default', async () => {
+      mockFetch.mockResolvedValueOnce(response(200, { username: 'jdoe' }))
+
+      const service = await initService()
+      const result = await service.getAuthenticatedUser()
+
+      expect(isOk(result) && result.value).toBe('jdoe')
+      expect(mockFetch).toHaveBeenCalledWith('https://gitlab.com/api/v4/user', expect.anything())
+    })
+
+    it('should call a self-managed instance', async () => {
+      mockGitConfig = { token: 'glpat-test', url: 'https://git.acme.dev/' }
+      mockFetch.mockResolvedValueOnce(response(200, { username: 'jdoe' }))
+
+      const service = await initService()
+      await service.getAuthenticatedUser()
+
+      expect(mockFetch).toHaveBeenCalledWith('https://git.acme.dev/api/v4/user', expect.anything())
+    })
+  })
+
+  describe('repoExists()', () => {
+    it('should look the project up by its encoded path', async () => {
+      mockFetch.mockResolvedValueOnce(response(200, { id: 1 }))
+
+      const service = await initService()
+      const result = await service.repoExists('acme/bots', 'my-bot')
+
+      expect(isOk(result) && result.value).toBe(true)
+      expect(mockFetch.mock.calls[0]![0]).toBe('https://gitlab.com/api/v4/projects/acme%2Fbots%2Fmy-bot')
+    })
+
+    it('should return false on 404', async () => {
+      mockFetch.mockResolvedValueOnce(response(404, { message: '404 Project Not Found' }))
+
+      const service = await initService()
+      const result = await service.repoExists('acme', 'my-bot')
+
+      expect(isOk(result) && result.value).toBe(false)
+    })
+  })
+
+  describe('createRepo()', () => {
+    const project = {
+      id: 42,
+      web_url: 'https://gitlab.com/acme/my-bot',
+      http_url_to_repo: 'https://gitlab.com/acme/my-bot.git',
+      ssh_url_to_repo: 'git@gitlab.com:acme/my-bot.git',
+    }
+
+    it('should create the project in the owner namespace', async () => {
+      mockFetch
+        .mockResolvedValueOnce(response(200, { id: 7 }))
+        .mockResolvedValueOnce(response(201, project))
+
+      const service = await initService()
+      const result = await service.createRepo({ name: 'my-bot', owner: 'acme', private: false })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value).toEqual({
+          success: true,
+          repoUrl: 'https://gitlab.com/acme/my-bot',
+          cloneUrl: 'https://gitlab.com/acme/my-bot.git',
+          sshUrl: 'git@gitlab.com:acme/my-bot.git',
+        })
+      }
+      expect(mockFetch.mock.calls[0]![0]).toBe('https://gitlab.com/api/v4/namespaces/acme')
+      const [url, init] = mockFetch.mock.calls[1]!
+      expect(url).toBe('https://gitlab.com/api/v4/projects')
+      expect(JSON.parse(init.body)).toMatchObject({
+        name: 'my-bot',
+        path: 'my-bot',
+        visibility: 'public',
+        namespace_id: 7,
+      })
+    })
+
+    it('should create a private project in the user namespace', async () => {
+      mockFetch.mockResolvedValueOnce(response(201, project))
+
+      const service = await initService()
+      await service.createRepo({ name: 'my-bot' })
+
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body)
+      expect(body.visibility).toBe('private')
+      expect(body.namespace_id).toBeUndefined()
+    })
+
+    it('should flatten validation errors', async () => {
+      mockFetch.mockResolvedValueOnce(
+        response(400, { message: { name: ['has already been taken'], path: ['has already been taken'] } })
+      )
+
+      const service = await initService()
+      const result = await service.createRepo({ name: 'my-bot' })
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toBe('name has already been taken; path has already been taken')
+        expect(result.error.code).toBe('GIT_HOST_ERROR')
+      }
+    })
+
+    it('should error if the namespace does not exist', async () => {
+      mockFetch.mockResolvedValueOnce(response(404, { message: '404 Namespace Not Found' }))
+
+      const service = await initService()
+      const result = await service.createRepo({ name: 'my-bot', owner: 'nope' })
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('Namespace nope')
+      }
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('archiveRepo()', () => {
+    it('should archive the project', async () => {
+      mockFetch.mockResolvedValueOnce(response(201, { id: 42, archived: true }))
+
+      const service = await initService()
+      const result = await service.archiveRepo('acme', 'my-bot')
+
+      expect(isOk(result)).toBe(true)
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://gitlab.com/api/v4/projects/acme%2Fmy-bot/archive',
+        expect.objectContaining({ method: 'POST' })
+      )
+    })
+  })
+
+  describe('pushToRepo()', () => {
+    it('should push with the token as the oauth2 user', async () => {
+      mockGitPush.mockResolvedValueOnce(ok({ commitSha: 'abc123' }))
+
+      const service = await initService()
+      const result = await service.pushToRepo('https://gitlab.com/acme/my-bot.git', '/tmp/my-bot')
+
+      expect(isOk(result) && result.value.commitSha).toBe('abc123')
+      expect(mockGitPush).toHaveBeenCalledWith(
+        '/tmp/my-bot',
+        expect.objectContaining({
+          remoteUrl: 'https://gitlab.com/acme/my-bot.git',
+          branch: 'main',
+          token: 'glpat-test',
+          tokenUser: 'oauth2',
+          message: 'chore: initial commit',
+          strategy: 'force',
+        }),
+        undefined
+      )
+    })
+  })
+
+  describe('parseRepoUrl()', () => {
+    it('should parse nested group URLs', async () => {
+      const service = await initService()
+
+      expect(service.parseRepoUrl('https://gitlab.com/acme/bots/my-bot')).toEqual({
+        owner: 'acme/bots',
+        repo: 'my-bot',
+      })
+      expect(service.parseRepoUrl('https://gitlab.com/acme/my-bot.git')).toEqual({ owner: 'acme', repo: 'my-bot' })
+    })
+
+    it('should reject URLs of other hosts', async () => {
+      const service = await initService()
+
+      expect(service.parseRepoUrl('https://github.com/acme/my-bot')).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,263 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { isOk, ok, err } from '@mks2508/no-throw'
+import { AppErrorCode } from '../../types/errors.js'
+import type { IInventory, IInventoryEntry } from '../../types/index.js'
+
+const mockConfigGet = vi.fn()
+const mockGetCoolifyUrl = vi.fn()
+const mockGetCoolifyToken = vi.fn()
+const mockBotFatherInit = vi.fn()
+const mockBotFatherDisconnect = vi.fn()
+const mockBotFatherListBots = vi.fn()
+const mockBotFatherListBotEnvs = vi.fn()
+const mockBotFatherGetBotEnv = vi.fn()
+const mockGitHubInit = vi.fn()
+const mockGitHubGetAuthenticatedUser = vi.fn()
+const mockGitHubListRepos = vi.fn()
+const mockCoolifyInit = vi.fn()
+const mockCoolifyListApplications = vi.fn()
+const mockCoolifyGetEnvironmentVariables = vi.fn()
+
+vi.mock('node:fs', () => ({
+  existsSync: vi.fn(() => false),
+  appendFileSync: vi.fn(),
+  mkdirSync: vi.fn(),
+  writeFileSync: vi.fn(),
+}))
+
+vi.mock('../config.service.js', () => ({
+  getConfigService: () => ({
+    get: mockConfigGet,
+    getCoolifyUrl: mockGetCoolifyUrl,
+    getCoolifyToken: mockGetCoolifyToken,
+  }),
+}))
+
+vi.mock('../botfather.service.js', () => ({
+  getBotFatherService: () => ({
+    init: mockBotFatherInit,
+    disconnect: mockBotFatherDisconnect,
+    listBots: mockBotFatherListBots,
+    listBotEnvs: mockBotFatherListBotEnvs,
+    getBotEnv: mockBotFatherGetBotEnv,
+    generateBotUsername: (name: string) => {
+      const sanitized = name
+        .toLowerCase()
+        .replace(/[^a-z0-9]/g, '_')
+        .replace(/_+/g, '_')
+        .replace(/^_|_$/g, '')
+      return sanitized.endsWith('bot') ? sanitized : `${sanitized}_bot`
+    },
+  }),
+}))
+
+vi.mock('../github.service.js', () => ({
+  getGitHubService: () => ({
+    init: mockGitHubInit,
+    getAuthenticatedUser: mockGitHubGetAuthenticatedUser,
+    listRepos: mockGitHubListRepos,
+  }),
+}))
+
+vi.mock('../coolify.service.js', () => ({
+  getCoolifyService: () => ({
+    init: mockCoolifyInit,
+    listApplications: mockCoolifyListApplications,
+    getEnvironmentVariables: mockCoolifyGetEnvironmentVariables,
+  }),
+}))
+
+const WEATHER_TOKEN = '111111111:AAHdqTcvCH1vGWJxfSeofSAs0K5PALDsaw'
+const NEWS_TOKEN = '222222222:AAHdqTcvCH1vGWJxfSeofSAs0K5PALDsaw'
+
+function repo(name: string) {
+  return {
+    owner: 'my-org',
+    name,
+    fullName: `my-org/${name}`,
+    repoUrl: `https://github.com/my-org/${name}`,
+    cloneUrl: `https://github.com/my-org/${name}.git`,
+    private: true,
+  }
+}
+
+describe('InventoryService', () => {
+  let InventoryService: typeof import('../inventory.service.js').InventoryService
+
+  const collect = async (options = {}): Promise<IInventory> => {
+    const result = await new InventoryService().collect(options)
+    expect(isOk(result)).toBe(true)
+    if (!isOk(result)) {
+      throw new Error('unreachable')
+    }
+    return result.value
+  }
+
+  const entry = (inventory: IInventory, name: string): IInventoryEntry => {
+    const found = inventory.entries.find((item) => item.name === name)
+    expect(found).toBeDefined()
+    return found!
+  }
+
+  beforeEach(async () => {
+    vi.resetModules()
+    vi.clearAllMocks()
+
+    mockConfigGet.mockReturnValue({ github: { defaultOrg: 'my-org' } })
+    mockGetCoolifyUrl.mockReturnValue('https://coolify.example.com')
+    mockGetCoolifyToken.mockReturnValue('coolify-token')
+
+    mockBotFatherInit.mockResolvedValue(ok(undefined))
+    mockBotFatherDisconnect.mockResolvedValue(undefined)
+    mockBotFatherListBots.mockResolvedValue(ok(['weather_bot', 'news_bot']))
+    mockBotFatherListBotEnvs.mockResolvedValue(
+      ok([
+        { username: 'weather_bot', environments: ['local', 'production'] },
+        { username: 'news_bot', environments: ['production'] },
+      ])
+    )
+    mockBotFatherGetBotEnv.mockImplementation(async (username: string) =>
+      ok({ botToken: username === 'weather_bot' ? WEATHER_TOKEN : NEWS_TOKEN })
+    )
+
+    mockGitHubInit.mockResolvedValue(ok(undefined))
+    mockGitHubGetAuthenticatedUser.mockResolvedValue(ok('jane'))
+    mockGitHubListRepos.mockResolvedValue(ok([repo('weather-bot'), repo('news-bot'), repo('website')]))
+
+    mockCoolifyInit.mockResolvedValue(ok(undefined))
+    mockCoolifyListApplications.mockResolvedValue(
+      ok([
+        { uuid: 'app-1', name: 'weather-bot', status: 'running:healthy' },
+        { uuid: 'app-2', name: 'news-bot', status: 'running:healthy' },
+        { uuid: 'app-3', name: 'postgres', status: 'running:healthy' },
+      ])
+    )
+    mockCoolifyGetEnvironmentVariables.mockImplementation(async (uuid: string) =>
+      ok({ TG_BOT_TOKEN: uuid === 'app-1' ? WEATHER_TOKEN : NEWS_TOKEN })
+    )
+
+    const module = await import('../inventory.service.js')
+    InventoryService = module.InventoryService
+  })
+
+  it('should correlate all sources by bot username without drift', async () => {
+    const inventory = await collect()
+
+    expect(inventory.entries.map((item) => item.name)).toEqual(['news_bot', 'weather_bot'])
+    expect(inventory.driftCount).toBe(0)
+
+    const weather = entry(inventory, 'weather_bot')
+    expect(weather.botFather).toBe(true)
+    expect(weather.envs).toEqual(['local', 'production'])
+    expect(weather.repo).toEqual({
+      owner: 'my-org',
+      name: 'weather-bot',
+      url: 'https://github.com/my-org/weather-bot',
+      private: true,
+    })
+    expect(weather.app).toEqual({ uuid: 'app-1', name: 'weather-bot', status: 'running:healthy' })
+    expect(mockGitHubListRepos).toHaveBeenCalledWith('my-org')
+    expect(mockBotFatherDisconnect).toHaveBeenCalled()
+  })
+
+  it('should flag bots without repository or token', async () => {
+    mockBotFatherListBots.mockResolvedValue(ok(['weather_bot', 'news_bot', 'todo_bot']))
+    mockGitHubListRepos.mockResolvedValue(ok([repo('weather-bot')]))
+
+    const inventory = await collect()
+
+    expect(entry(inventory, 'news_bot').drift.map((drift) => drift.type)).toEqual(['no_repo'])
+    expect(entry(inventory, 'todo_bot').drift.map((drift) => drift.type)).toEqual(['no_env', 'no_repo'])
+    expect(inventory.driftCount).toBe(3)
+  })
+
+  it('should flag bots in .envs that BotFather does not list', async () => {
+    mockBotFatherListBots.mockResolvedValue(ok(['weather_bot']))
+
+    const inventory = await collect()
+
+    expect(entry(inventory, 'news_bot').botFather).toBe(false)
+    expect(entry(inventory, 'news_bot').drift.map((drift) => drift.type)).toEqual(['not_in_botfather'])
+  })
+
+  it('should flag token mismatches and stopped apps', async () => {
+    mockCoolifyListApplications.mockResolvedValue(
+      ok([
+        { uuid: 'app-1', name: 'weather-bot', status: 'exited:unhealthy' },
+        { uuid: 'app-2', name: 'news-bot', status: 'running:healthy' },
+      ])
+    )
+    mockCoolifyGetEnvironmentVariables.mockImplementation(async (uuid: string) =>
+      ok(uuid === 'app-1' ? { TG_BOT_TOKEN: NEWS_TOKEN } : {})
+    )
+
+    const inventory = await collect()
+
+    const weather = entry(inventory, 'weather_bot')
+    expect(weather.drift.map((drift) => drift.type)).toEqual(['app_stopped', 'token_mismatch'])
+    expect(weather.drift[0]?.message).toContain('exited:unhealthy')
+    expect(entry(inventory, 'news_bot').drift[0]?.message).toContain('not set')
+  })
+
+  it('should not flag tokens Coolify does not reveal', async () => {
+    mockCoolifyGetEnvironmentVariables.mockResolvedValue(ok({ TG_BOT_TOKEN: undefined }))
+
+    const inventory = await collect()
+
+    expect(inventory.driftCount).toBe(0)
+  })
+
+  it('should list orphaned bot repositories and apps but not unrelated ones', async () => {
+    mockGitHubListRepos.mockResolvedValue(
+      ok([repo('weather-bot'), repo('news-bot'), repo('old-bot'), repo('website')])
+    )
+    mockCoolifyListApplications.mockResolvedValue(
+      ok([
+        { uuid: 'app-1', name: 'weather-bot', status: 'running:healthy' },
+        { uuid: 'app-2', name: 'news-bot', status: 'running:healthy' },
+        { uuid: 'app-3', name: 'old-bot', status: 'exited' },
+        { uuid: 'app-4', name: 'postgres', status: 'running:healthy' },
+      ])
+    )
+
+    const inventory = await collect()
+
+    expect(inventory.entries.map((item) => item.name)).toEqual(['news_bot', 'old-bot', 'weather_bot'])
+    const orphan = entry(inventory, 'old-bot')
+    expect(orphan.botFather).toBe(false)
+    expect(orphan.repo?.name).toBe('old-bot')
+    expect(orphan.app?.uuid).toBe('app-3')
+    expect(orphan.drift.map((drift) => drift.type)).toEqual(['orphaned_repo', 'orphaned_app', 'app_stopped'])
+  })
+
+  it('should skip BotFather and not report drift that depends on it', async () => {
+    const inventory = await collect({ skipBotFather: true })
+
+    expect(mockBotFatherInit).not.toHaveBeenCalled()
+    expect(inventory.sources.botfather).toEqual({ available: false, count: 0, error: 'Skipped' })
+    expect(entry(inventory, 'weather_bot').botFather).toBeUndefined()
+    expect(inventory.driftCount).toBe(0)
+  })
+
+  it('should report unavailable sources and keep the rest', async () => {
+    mockGitHubInit.mockResolvedValue(err({ code: AppErrorCode.GITHUB_ERROR, message: 'GitHub token not found' }))
+    mockGetCoolifyToken.mockReturnValue(undefined)
+
+    const inventory = await collect()
+
+    expect(inventory.sources.github).toEqual({ available: false, count: 0, error: 'GitHub token not found' })
+    expect(inventory.sources.coolify.available).toBe(false)
+    expect(inventory.sources.envs).toEqual({ available: true, count: 2 })
+    expect(mockCoolifyInit).not.toHaveBeenCalled()
+    expect(inventory.driftCount).toBe(0)
+  })
+
+  it('should list repositories of the given owner or the authenticated user', async () => {
+    await collect({ githubOwner: 'other-org' })
+    expect(mockGitHubListRepos).toHaveBeenLastCalledWith('other-org')
+
+    mockConfigGet.mockReturnValue({})
+    await collect()
+    expect(mockGitHubListRepos).toHaveBeenLastCalledWith('jane')
+  })
+})
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { isOk, isErr } from '@mks2508/no-throw'
+
+describe('ManifestService', () => {
+  const TEST_HOME = join(tmpdir(), `mks-bot-father-manifest-test-${process.pid}`)
+  const PROJECT_DIR = join(TEST_HOME, 'project')
+
+  let ManifestService: typeof import('../manifest.service.js').ManifestService
+
+  const writeManifest = (file: string, content: string): string => {
+    const path = join(PROJECT_DIR, file)
+    writeFileSync(path, content)
+    return path
+  }
+
+  beforeEach(async () => {
+    vi.resetModules()
+
+    mkdirSync(PROJECT_DIR, { recursive: true })
+
+    vi.doMock('node:os', async () => {
+      const actual = await vi.importActual<typeof import('node:os')>('node:os')
+      return {
+        ...actual,
+        homedir: () => TEST_HOME,
+      }
+    })
+
+    const module = await import('../manifest.service.js')
+    ManifestService = module.ManifestService
+  })
+
+  afterEach(() => {
+    vi.resetModules()
+    vi.clearAllMocks()
+    vi.unstubAllGlobals()
+
+    if (existsSync(TEST_HOME)) {
+      rmSync(TEST_HOME, { recursive: true, force: true })
+    }
+  })
+
+  describe('load()', () => {
+    it('should load a JSON manifest', () => {
+      const path = writeManifest(
+        'mbf.bot.json',
+        JSON.stringify({
+          name: 'my-bot',
+          description: 'My bot',
+          commands: [{ command: 'start', description: 'Start' }],
+          github: { visibility: 'private' },
+        })
+      )
+
+      const result = new ManifestService().load(path)
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.name).toBe('my-bot')
+        expect(result.value.commands).toEqual([{ command: 'start', description: 'Start' }])
+        expect(result.value.github?.visibility).toBe('private')
+      }
+    })
+
+    it('should parse YAML manifests with Bun.YAML', () => {
+      const mockParse = vi.fn().mockReturnValue({ name: 'yaml-bot' })
+      vi.stubGlobal('Bun', { YAML: { parse: mockParse } })
+      const path = writeManifest('mbf.bot.yaml', 'name: yaml-bot\n')
+
+      const result = new ManifestService().load(path)
+
+      expect(mockParse).toHaveBeenCalledWith('name: yaml-bot\n')
+      expect(isOk(result)).toBe(true)
+    })
+
+    it('should return error for a missing file', () => {
+      const result = new ManifestService().load(join(PROJECT_DIR, 'missing.json'))
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.code).toBe('VALIDATION_ERROR')
+        expect(result.error.message).toContain('Manifest not found')
+      }
+    })
+
+    it('should return error for malformed JSON', () => {
+      const path = writeManifest('mbf.bot.json', '{ name: ')
+
+      const result = new ManifestService().load(path)
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('Cannot parse manifest')
+      }
+    })
+
+    it('should return the schema errors for an invalid manifest', () => {
+      const path = writeManifest(
+        'mbf.bot.json',
+        JSON.stringify({ name: 'my-bot', github: { visibility: 'internal' } })
+      )
+
+      const result = new ManifestService().load(path)
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.code).toBe('VALIDATION_ERROR')
+        expect(result.error.message).toContain('visibility')
+      }
+    })
+  })
+
+  describe('validate()', () => {
+    it('should reject invalid command names', () => {
+      const result = new ManifestService().validate({
+        name: 'my-bot',
+        commands: [{ command: 'Start Now', description: 'Start' }],
+      })
+
+      expect(isErr(result)).toBe(true)
+    })
+
+    it('should require github when coolify is declared', () => {
+      const result = new ManifestService().validate({ name: 'my-bot', coolify: {} })
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('coolify requires a github section')
+      }
+    })
+  })
+
+  describe('find()', () => {
+    it('should find the first manifest file in priority order', () => {
+      writeManifest('mbf.bot.yaml', 'name: a\n')
+      writeManifest('mbf.bot.json', '{}')
+
+      expect(new ManifestService().find(PROJECT_DIR)).toBe(join(PROJECT_DIR, 'mbf.bot.json'))
+    })
+
+    it('should return undefined when no manifest exists', () => {
+      expect(new ManifestService().find(PROJECT_DIR)).toBeUndefined()
+    })
+  })
+
+  describe('toPipelineOptions()', () => {
+    it('should map manifest sections to pipeline options', () => {
+      const options = new ManifestService().toPipelineOptions({
+        name: 'my-bot',
+        github: { org: 'my-org', visibility: 'private' },
+        coolify: { server: 'server-uuid', project: 'project-uuid' },
+        env: { LOG_LEVEL: 'info' },
+      })
+
+      expect(options).toMatchObject({
+        botName: 'my-bot',
+        createGitHubRepo: true,
+        gitHost: 'github',
+        deployTarget: 'coolify',
+        githubOrg: 'my-org',
+        githubVisibility: 'private',
+        deployToCoolify: true,
+        coolifyServer: 'server-uuid',
+        coolifyProject: 'project-uuid',
+        coolifyEnvVars: { LOG_LEVEL: 'info' },
+      })
+    })
+  })
+
+  describe('applied env hash', () => {
+    it('should hash independently of key order', () => {
+      const service = new ManifestService()
+
+      expect(service.hashEnv({ A: '1', B: '2' })).toBe(service.hashEnv({ B: '2', A: '1' }))
+      expect(service.hashEnv({ A: '1' })).not.toBe(service.hashEnv({ A: '2' }))
+    })
+
+    it('should record and read back the applied hash', () => {
+      const service = new ManifestService()
+
+      expect(service.getAppliedEnvHash('my_bot')).toBeUndefined()
+      expect(isOk(service.saveAppliedEnvHash('my_bot', 'abc123'))).toBe(true)
+      expect(service.getAppliedEnvHash('my_bot')).toBe('abc123')
+    })
+  })
+})
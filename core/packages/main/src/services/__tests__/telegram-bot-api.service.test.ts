@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest'
+import { isOk, isErr } from '@mks2508/no-throw'
+
+describe('TelegramBotApiService', () => {
+  let mockFetch: Mock
+  let TelegramBotApiService: typeof import('../telegram-bot-api.service.js').TelegramBotApiService
+  let generateWebhookSecret: typeof import('../telegram-bot-api.service.js').generateWebhookSecret
+
+  const respond = (body: unknown, status = 200) =>
+    mockFetch.mockResolvedValueOnce({ status, json: async () => body })
+
+  const requestBody = (call = 0) => JSON.parse(mockFetch.mock.calls[call][1].body as string)
+
+  beforeEach(async () => {
+    mockFetch = vi.fn()
+    vi.stubGlobal('fetch', mockFetch)
+
+    vi.resetModules()
+    const module = await import('../telegram-bot-api.service.js')
+    TelegramBotApiService = module.TelegramBotApiService
+    generateWebhookSecret = module.generateWebhookSecret
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  describe('setWebhook()', () => {
+    it('should send the URL, secret and options', async () => {
+      respond({ ok: true, result: true })
+
+      const result = await new TelegramBotApiService().setWebhook('123:abc', {
+        url: 'https://bot.example.com/webhook',
+        secretToken: 'secret-123',
+        dropPendingUpdates: true,
+      })
+
+      expect(isOk(result)).toBe(true)
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.telegram.org/bot123:abc/setWebhook',
+        expect.objectContaining({ method: 'POST' })
+      )
+      expect(requestBody()).toEqual({
+        url: 'https://bot.example.com/webhook',
+        secret_token: 'secret-123',
+        drop_pending_updates: true,
+      })
+    })
+
+    it('should return the Bot API error description', async () => {
+      respond({ ok: false, error_code: 400, description: 'Bad Request: bad webhook: HTTPS url must be provided for webhook' }, 400)
+
+      const result = await new TelegramBotApiService().setWebhook('123:abc', {
+        url: 'http://bot.example.com/webhook',
+      })
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.code).toBe('BOTFATHER_ERROR')
+        expect(result.error.message).toContain('HTTPS url must be provided')
+      }
+    })
+
+    it('should return a network error when the request fails', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND'))
+
+      const result = await new TelegramBotApiService().setWebhook('123:abc', {
+        url: 'https://bot.example.com/webhook',
+      })
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.code).toBe('NETWORK_ERROR')
+      }
+    })
+  })
+
+  describe('getWebhookInfo()', () => {
+    it('should map the webhook info', async () => {
+      respond({
+        ok: true,
+        result: {
+          url: 'https://bot.example.com/webhook',
+          has_custom_certificate: false,
+          pending_update_count: 4,
+          last_error_date: 1767225600,
+          last_error_message: 'Wrong response from the webhook: 502 Bad Gateway',
+          max_connections: 40,
+        },
+      })
+
+      const result = await new TelegramBotApiService().getWebhookInfo('123:abc')
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value).toEqual({
+          url: 'https://bot.example.com/webhook',
+          hasCustomCertificate: false,
+          pendingUpdateCount: 4,
+          ipAddress: undefined,
+          lastErrorDate: '2026-01-01T00:00:00.000Z',
+          lastErrorMessage: 'Wrong response from the webhook: 502 Bad Gateway',
+          lastSynchronizationErrorDate: undefined,
+          maxConnections: 40,
+          allowedUpdates: undefined,
+        })
+      }
+    })
+
+    it('should return an empty URL when no webhook is set', async () => {
+      respond({ ok: true, result: { url: '', has_custom_certificate: false, pending_update_count: 0 } })
+
+      const result = await new TelegramBotApiService().getWebhookInfo('123:abc')
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.url).toBe('')
+        expect(result.value.lastErrorMessage).toBeUndefined()
+      }
+    })
+  })
+
+  describe('deleteWebhook()', () => {
+    it('should keep pending updates by default', async () => {
+      respond({ ok: true, result: true })
+
+      const result = await new TelegramBotApiService().deleteWebhook('123:abc')
+
+      expect(isOk(result)).toBe(true)
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.telegram.org/bot123:abc/deleteWebhook',
+        expect.any(Object)
+      )
+      expect(requestBody()).toEqual({ drop_pending_updates: false })
+    })
+
+    it('should drop pending updates when asked', async () => {
+      respond({ ok: true, result: true })
+
+      await new TelegramBotApiService().deleteWebhook('123:abc', true)
+
+      expect(requestBody()).toEqual({ drop_pending_updates: true })
+    })
+  })
+
+  describe('generateWebhookSecret()', () => {
+    it('should generate distinct secrets valid as a secret_token', () => {
+      const first = generateWebhookSecret()
+      const second = generateWebhookSecret()
+
+      expect(first).toMatch(/^[A-Za-z0-9_-]{1,256}$/)
+      expect(first).toHaveLength(64)
+      expect(first).not.toBe(second)
+    })
+  })
+})
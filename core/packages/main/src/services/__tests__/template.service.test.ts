@@ -0,0 +1,315 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { existsSync, mkdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { isOk, isErr } from '@mks2508/no-throw'
+import { AppErrorCode } from '../../types/errors.js'
+
+function spawnResult(exitCode: number, stderr = '') {
+  return {
+    stdout: new ReadableStream(),
+    stderr: new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(stderr))
+        controller.close()
+      },
+    }),
+    exited: Promise.resolve(exitCode),
+  }
+}
+
+describe('TemplateService', () => {
+  const TEST_HOME = join(tmpdir(), `mks-bot-father-template-test-${process.pid}`)
+  const TEMPLATES_DIR = join(TEST_HOME, '.config', 'mks-bot-father', 'templates')
+  const SOURCE_DIR = join(TEST_HOME, 'starter')
+  const WORK_DIR = join(TEST_HOME, 'work')
+
+  let TemplateService: typeof import('../template.service.js').TemplateService
+
+  const writeTemplate = (dir: string, manifest: Record<string, unknown>, files: Record<string, string> = {}) => {
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'template.json'), JSON.stringify(manifest))
+    for (const [path, content] of Object.entries(files)) {
+      mkdirSync(join(dir, path, '..'), { recursive: true })
+      writeFileSync(join(dir, path), content)
+    }
+  }
+
+  beforeEach(async () => {
+    vi.resetModules()
+
+    mkdirSync(WORK_DIR, { recursive: true })
+    writeTemplate(
+      SOURCE_DIR,
+      {
+        name: 'acme-starter',
+        description: 'Acme bot starter',
+        variables: [
+          { name: 'port', default: '3000', pattern: '^[0-9]+$' },
+          { name: 'serviceName', default: '{{projectName}}-svc' },
+          { name: 'runtime', default: 'bun', choices: ['bun', 'node'] },
+          { name: 'owner', required: true, description: 'Team that owns the bot' },
+        ],
+      },
+      {
+        'package.json': '{ "name": "{{projectName}}", "port": {{port}} }',
+        'src/{{serviceName}}.ts': 'export const bot = "@{{botUsername}}" // {{ owner }} {{unknown}}',
+      }
+    )
+
+    vi.doMock('node:os', async () => {
+      const actual = await vi.importActual<typeof import('node:os')>('node:os')
+      return {
+        ...actual,
+        homedir: () => TEST_HOME,
+      }
+    })
+
+    const module = await import('../template.service.js')
+    TemplateService = module.TemplateService
+  })
+
+  afterEach(() => {
+    vi.resetModules()
+    vi.clearAllMocks()
+    vi.unstubAllGlobals()
+
+    if (existsSync(TEST_HOME)) {
+      rmSync(TEST_HOME, { recursive: true, force: true })
+    }
+  })
+
+  describe('parseSource()', () => {
+    it('should detect local, git and tarball sources', () => {
+      const service = new TemplateService()
+
+      expect(service.parseSource(SOURCE_DIR)).toEqual({ type: 'local', location: SOURCE_DIR })
+      expect(service.parseSource('https://github.com/acme/starter.git#v2')).toEqual({
+        type: 'git',
+        location: 'https://github.com/acme/starter.git',
+        ref: 'v2',
+      })
+      expect(service.parseSource('git@github.com:acme/starter.git', 'main')).toEqual({
+        type: 'git',
+        location: 'git@github.com:acme/starter.git',
+        ref: 'main',
+      })
+      expect(service.parseSource('https://example.com/starter.tar.gz')).toEqual({
+        type: 'tarball',
+        location: 'https://example.com/starter.tar.gz',
+      })
+    })
+  })
+
+  describe('add()', () => {
+    it('should register a local template under its manifest name', async () => {
+      const service = new TemplateService()
+      const result = await service.add(SOURCE_DIR)
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value).toMatchObject({
+          name: 'acme-starter',
+          description: 'Acme bot starter',
+          source: { type: 'local', location: SOURCE_DIR },
+          path: SOURCE_DIR,
+        })
+      }
+
+      const listed = service.list()
+      expect(isOk(listed) && listed.value.map((template) => template.name)).toEqual(['acme-starter'])
+    })
+
+    it('should replace a template added again under the same name', async () => {
+      const service = new TemplateService()
+      await service.add(SOURCE_DIR)
+      await service.add(SOURCE_DIR)
+
+      const listed = service.list()
+      expect(isOk(listed) && listed.value).toHaveLength(1)
+    })
+
+    it('should reject built-in template names', async () => {
+      const service = new TemplateService()
+      const result = await service.add(SOURCE_DIR, { name: 'telegram-bot' })
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.code).toBe(AppErrorCode.VALIDATION_ERROR)
+        expect(result.error.message).toContain('built-in')
+      }
+    })
+
+    it('should reject a directory without template.json', async () => {
+      const service = new TemplateService()
+      const result = await service.add(WORK_DIR)
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('No template.json')
+      }
+    })
+
+    it('should reject manifests that redeclare a built-in variable', async () => {
+      writeTemplate(join(TEST_HOME, 'bad'), { name: 'bad', variables: [{ name: 'projectName' }] })
+
+      const result = await new TemplateService().add(join(TEST_HOME, 'bad'))
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('projectName is a built-in variable')
+      }
+    })
+
+    it('should clone git templates at the ref into the templates directory', async () => {
+      const spawn = vi.fn((cmd: string[]) => {
+        const target = cmd[cmd.length - 1]!
+        writeTemplate(target, { name: 'remote-starter' }, { 'README.md': '# {{projectName}}', '.git/HEAD': 'ref' })
+        return spawnResult(0)
+      })
+      vi.stubGlobal('Bun', { spawn })
+
+      const result = await new TemplateService().add('https://github.com/acme/remote-starter.git#v2')
+
+      expect(spawn).toHaveBeenCalledWith(
+        expect.arrayContaining(['git', 'clone', '--depth', '1', '--branch', 'v2', 'https://github.com/acme/remote-starter.git']),
+        expect.anything()
+      )
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.path).toBe(join(TEMPLATES_DIR, 'remote-starter'))
+        expect(existsSync(join(TEMPLATES_DIR, 'remote-starter', 'README.md'))).toBe(true)
+        expect(existsSync(join(TEMPLATES_DIR, 'remote-starter', '.git'))).toBe(false)
+      }
+    })
+
+    it('should swap in a git template fetched again', async () => {
+      let readme = '# v1'
+      vi.stubGlobal('Bun', {
+        spawn: vi.fn((cmd: string[]) => {
+          writeTemplate(cmd[cmd.length - 1]!, { name: 'remote-starter' }, { 'README.md': readme })
+          return spawnResult(0)
+        }),
+      })
+      const service = new TemplateService()
+      await service.add('https://github.com/acme/remote-starter.git')
+
+      readme = '# v2'
+      const result = await service.add('https://github.com/acme/remote-starter.git')
+
+      expect(isOk(result)).toBe(true)
+      expect(readFileSync(join(TEMPLATES_DIR, 'remote-starter', 'README.md'), 'utf-8')).toBe('# v2')
+      expect(existsSync(join(TEMPLATES_DIR, '.previous-remote-starter'))).toBe(false)
+    })
+
+    it('should return the git error when cloning fails', async () => {
+      vi.stubGlobal('Bun', {
+        spawn: vi.fn(() => spawnResult(128, 'fatal: repository not found\n')),
+      })
+
+      const result = await new TemplateService().add('https://github.com/acme/missing.git')
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.code).toBe(AppErrorCode.SCAFFOLD_ERROR)
+        expect(result.error.message).toContain('repository not found')
+      }
+    })
+  })
+
+  describe('render()', () => {
+    it('should substitute variables in file contents and names', async () => {
+      const service = new TemplateService()
+      await service.add(SOURCE_DIR)
+      const projectPath = join(WORK_DIR, 'my-bot')
+
+      const result = service.render('acme-starter', projectPath, {
+        variables: { port: '8080', owner: 'platform' },
+        builtins: { botUsername: 'my_bot' },
+      })
+
+      expect(isOk(result)).toBe(true)
+      if (isOk(result)) {
+        expect(result.value.variables).toMatchObject({
+          projectName: 'my-bot',
+          port: '8080',
+          serviceName: 'my-bot-svc',
+          runtime: 'bun',
+        })
+      }
+      expect(readFileSync(join(projectPath, 'package.json'), 'utf-8')).toBe('{ "name": "my-bot", "port": 8080 }')
+      expect(readFileSync(join(projectPath, 'src', 'my-bot-svc.ts'), 'utf-8')).toBe(
+        'export const bot = "@my_bot" // platform {{unknown}}'
+      )
+      expect(existsSync(join(projectPath, 'template.json'))).toBe(false)
+    })
+
+    it('should copy binary files untouched and keep file modes', async () => {
+      const binary = Buffer.from([0x89, 0x50, 0x00, 0x7b, 0x7b, 0x70, 0x6f, 0x72, 0x74, 0x7d, 0x7d])
+      writeFileSync(join(SOURCE_DIR, 'logo.png'), binary)
+      writeFileSync(join(SOURCE_DIR, 'start.sh'), '#!/bin/sh\necho {{projectName}}\n', { mode: 0o755 })
+
+      const service = new TemplateService()
+      await service.add(SOURCE_DIR)
+      const projectPath = join(WORK_DIR, 'my-bot')
+      service.render('acme-starter', projectPath, { variables: { owner: 'platform' } })
+
+      expect(readFileSync(join(projectPath, 'logo.png')).equals(binary)).toBe(true)
+      expect(statSync(join(projectPath, 'start.sh')).mode & 0o777).toBe(0o755)
+    })
+
+    it.each([
+      [{}, 'needs a value for owner'],
+      [{ owner: 'platform', port: 'http' }, 'does not match'],
+      [{ owner: 'platform', runtime: 'deno' }, 'expected one of bun, node'],
+      [{ owner: 'platform', colour: 'blue' }, 'has no variable colour'],
+      [{ owner: 'platform', serviceName: '../../escape' }, 'must not contain path separators or ..'],
+    ])('should reject invalid variables %o', async (variables, message) => {
+      const service = new TemplateService()
+      await service.add(SOURCE_DIR)
+      const projectPath = join(WORK_DIR, 'my-bot')
+
+      const result = service.render('acme-starter', projectPath, { variables })
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.code).toBe(AppErrorCode.VALIDATION_ERROR)
+        expect(result.error.message).toContain(message)
+      }
+      expect(existsSync(projectPath)).toBe(false)
+    })
+
+    it('should allow path characters in variables only used in file contents', async () => {
+      const service = new TemplateService()
+      await service.add(SOURCE_DIR)
+      const projectPath = join(WORK_DIR, 'my-bot')
+
+      const result = service.render('acme-starter', projectPath, { variables: { owner: 'platform/bots' } })
+
+      expect(isOk(result)).toBe(true)
+    })
+
+    it('should return error for an unknown template', () => {
+      const result = new TemplateService().render('missing', join(WORK_DIR, 'my-bot'))
+
+      expect(isErr(result)).toBe(true)
+      if (isErr(result)) {
+        expect(result.error.message).toContain('Unknown template: missing')
+      }
+    })
+  })
+
+  describe('remove()', () => {
+    it('should unregister a local template without deleting its directory', async () => {
+      const service = new TemplateService()
+      await service.add(SOURCE_DIR)
+
+      const result = service.remove('acme-starter')
+
+      expect(isOk(result)).toBe(true)
+      expect(existsSync(SOURCE_DIR)).toBe(true)
+      const listed = service.list()
+      expect(isOk(listed) && listed.value).toEqual([])
+    })
+  })
+})
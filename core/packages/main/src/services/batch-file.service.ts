@@ -0,0 +1,256 @@
+/**
+ * Batch file service for mks-bot-father.
+ *
+ * @module
+ */
+
+import { existsSync, readFileSync } from 'node:fs'
+import { extname, resolve } from 'node:path'
+import { ok, err, tryCatch, isErr, type Result, type ResultError } from '@mks2508/no-throw'
+import { type } from 'arktype'
+import { createLogger, log as fileLog } from '../utils/index.js'
+import { BatchEntrySchema, type IBatchEntry, type IPipelineOptions } from '../types/index.js'
+import { AppErrorCode } from '../types/errors.js'
+
+const log = createLogger('BatchFileService')
+
+/** Batch entry fields holding booleans, converted from CSV text */
+const BOOLEAN_FIELDS = new Set(['github', 'deploy', 'skipBotfather'])
+
+/** CSV text accepted for boolean fields */
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true,
+  yes: true,
+  '1': true,
+  false: false,
+  no: false,
+  '0': false,
+}
+
+/**
+ * Loads the bot list of `mbf create --batch` from a JSON or CSV file.
+ *
+ * A JSON file holds an array of entries; a CSV file has a header row naming
+ * the entry fields (`name,description,github,...`), with empty cells omitted.
+ *
+ * @example
+ * ```typescript
+ * const batchFiles = getBatchFileService()
+ * const result = batchFiles.load('bots.csv')
+ * if (isOk(result)) {
+ *   const items = result.value.map((entry) => batchFiles.toPipelineOptions(entry))
+ * }
+ * ```
+ */
+export class BatchFileService {
+  /**
+   * Loads and validates a batch file.
+   *
+   * @param path - `.json` or `.csv` file path
+   * @returns Result with the entries or error
+   */
+  load(path: string): Result<IBatchEntry[], ResultError<typeof AppErrorCode.VALIDATION_ERROR>> {
+    const filePath = resolve(path)
+
+    if (!existsSync(filePath)) {
+      return err({
+        code: AppErrorCode.VALIDATION_ERROR,
+        message: `Batch file not found: ${filePath}`,
+      })
+    }
+
+    const ext = extname(filePath).toLowerCase()
+    if (ext !== '.json' && ext !== '.csv') {
+      return err({
+        code: AppErrorCode.VALIDATION_ERROR,
+        message: `Unsupported batch file type: ${filePath} (expected .json or .csv)`,
+      })
+    }
+
+    const parsed = tryCatch(() => {
+      const raw = readFileSync(filePath, 'utf-8')
+      return ext === '.csv' ? this.parseCsv(raw) : JSON.parse(raw)
+    }, AppErrorCode.VALIDATION_ERROR)
+
+    if (isErr(parsed)) {
+      return err({
+        code: AppErrorCode.VALIDATION_ERROR,
+        message: `Cannot parse batch file ${filePath}: ${parsed.error.message}`,
+      })
+    }
+
+    const result = this.validate(parsed.value)
+    if (isErr(result)) {
+      fileLog.warn('BATCH', 'Invalid batch file', { path: filePath, error: result.error.message })
+      return err({
+        ...result.error,
+        message: `Invalid batch file ${filePath}: ${result.error.message}`,
+      })
+    }
+
+    log.debug(`Batch file loaded: ${filePath} (${result.value.length} bots)`)
+    fileLog.info('BATCH', 'Batch file loaded', { path: filePath, total: result.value.length })
+    return result
+  }
+
+  /**
+   * Validates parsed batch entries.
+   *
+   * @param data - Parsed batch file
+   * @returns Result with the entries or error naming the first invalid entry
+   */
+  validate(data: unknown): Result<IBatchEntry[], ResultError<typeof AppErrorCode.VALIDATION_ERROR>> {
+    if (!Array.isArray(data)) {
+      return err({ code: AppErrorCode.VALIDATION_ERROR, message: 'Expected an array of bots' })
+    }
+
+    if (data.length === 0) {
+      return err({ code: AppErrorCode.VALIDATION_ERROR, message: 'No bots listed' })
+    }
+
+    const entries: IBatchEntry[] = []
+    for (const [index, item] of data.entries()) {
+      const result = BatchEntrySchema(item)
+      if (result instanceof type.errors) {
+        return err({
+          code: AppErrorCode.VALIDATION_ERROR,
+          message: `Entry ${index + 1}: ${result.summary}`,
+        })
+      }
+      entries.push(result)
+    }
+
+    return ok(entries)
+  }
+
+  /**
+   * Maps a batch entry to pipeline options, filling omitted fields from defaults.
+   *
+   * @param entry - Batch entry
+   * @param defaults - Options shared by every bot (e.g. from CLI flags)
+   * @returns Pipeline options for the bot
+   */
+  toPipelineOptions(
+    entry: IBatchEntry,
+    defaults: Omit<IPipelineOptions, 'botName'> = {}
+  ): IPipelineOptions {
+    return {
+      ...defaults,
+      botName: entry.name,
+      botDescription: entry.description ?? defaults.botDescription,
+      template: entry.template ?? defaults.template,
+      createGitHubRepo: entry.github ?? defaults.createGitHubRepo,
+      githubOrg: entry.githubOrg ?? defaults.githubOrg,
+      deployToCoolify: entry.deploy ?? defaults.deployToCoolify,
+      deployTarget: entry.deployTarget ?? defaults.deployTarget,
+      coolifyServer: entry.coolifyServer ?? defaults.coolifyServer,
+      coolifyDestination: entry.coolifyDest ?? defaults.coolifyDestination,
+      skipBotFather: entry.skipBotfather ?? defaults.skipBotFather,
+    }
+  }
+
+  /**
+   * Parses CSV text into objects keyed by the header row.
+   *
+   * Supports quoted fields with embedded commas, newlines and `""` escapes.
+   * Boolean fields are converted; other values are kept as text.
+   *
+   * @param text - CSV text
+   * @returns One object per data row
+   * @throws Error on a boolean field with an unrecognized value
+   */
+  private parseCsv(text: string): Record<string, unknown>[] {
+    const rows = parseCsvRows(text).filter((row) => row.some((cell) => cell.trim() !== ''))
+    const [header, ...dataRows] = rows
+    if (!header) {
+      return []
+    }
+
+    const fields = header.map((cell) => cell.trim())
+
+    return dataRows.map((row, rowIndex) => {
+      const entry: Record<string, unknown> = {}
+      fields.forEach((field, column) => {
+        const value = row[column]?.trim() ?? ''
+        if (!field || value === '') {
+          return
+        }
+
+        if (BOOLEAN_FIELDS.has(field)) {
+          const flag = BOOLEAN_VALUES[value.toLowerCase()]
+          if (flag === undefined) {
+            throw new Error(`Row ${rowIndex + 2}: ${field} must be true or false (was "${value}")`)
+          }
+          entry[field] = flag
+        } else {
+          entry[field] = value
+        }
+      })
+      return entry
+    })
+  }
+}
+
+/**
+ * Splits CSV text into rows of cells.
+ *
+ * @param text - CSV text
+ * @returns Rows of raw cell values
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++
+      }
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+let instance: BatchFileService | null = null
+
+/**
+ * Gets the singleton BatchFileService instance.
+ *
+ * @returns The BatchFileService instance
+ */
+export function getBatchFileService(): BatchFileService {
+  if (!instance) {
+    instance = new BatchFileService()
+  }
+  return instance
+}
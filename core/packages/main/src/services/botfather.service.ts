@@ -4,7 +4,7 @@
  * @module
  */
 
-import { ok, err, tryCatchAsync, isErr, type Result, type ResultError } from '@mks2508/no-throw'
+import { ok, err, tryCatchAsync, isErr, isOk, type Result, type ResultError } from '@mks2508/no-throw'
 import {
   BootstrapClient,
   BotFatherManager,
@@ -14,6 +14,7 @@ import { createLogger, log as fileLog } from '../utils/index.js'
 import { getConfigService } from './config.service.js'
 import { AppErrorCode } from '../types/errors.js'
 import type { IProgressCallback } from '../types/progress.types.js'
+import type { Environment } from '../types/config.types.js'
 import { homedir } from 'node:os'
 import { join } from 'node:path'
 
@@ -27,6 +28,29 @@ function getCoreDir(): string {
   return process.env.MKS_CORE_DIR || join(homedir(), '.mks-bot-father', 'core')
 }
 
+/**
+ * Writes a bot environment to `.envs`, encrypting its token with the config
+ * key while the config is locked.
+ *
+ * @param botUsername - Bot username
+ * @param environment - Environment to write
+ * @param env - Environment with the plaintext token
+ * @throws If the config is locked and its key was not provided
+ */
+async function writeBotEnv(
+  botUsername: string,
+  environment: Environment,
+  env: IBotEnv & { botToken: string }
+): Promise<void> {
+  const sealResult = getConfigService().sealSecret(env.botToken)
+  if (isErr(sealResult)) {
+    throw new Error(`Cannot encrypt the token of @${botUsername}: ${sealResult.error.message}`)
+  }
+
+  const envManager = new EnvManager({ coreDir: getCoreDir() })
+  await envManager.createEnv(botUsername, environment, { ...env, botToken: sealResult.value })
+}
+
 /**
  * Bot creation options.
  */
@@ -51,6 +75,18 @@ export interface IBotCreateResult {
   botUsername: string
 }
 
+/**
+ * Bot environment stored in the `.envs` directory.
+ */
+export interface IBotEnv {
+  /** Bot token */
+  botToken?: string
+  /** Bot mode */
+  mode?: 'polling' | 'webhook'
+  /** Webhook URL */
+  webhookUrl?: string
+}
+
 /**
  * BotFather service for Telegram bot automation.
  *
@@ -201,8 +237,7 @@ export class BotFatherService {
 
       if (createResult.botUsername && createResult.botToken) {
         onProgress?.(95, 'Saving bot token to environment...', 'save')
-        const envManager = new EnvManager({ coreDir: getCoreDir() })
-        await envManager.createEnv(createResult.botUsername, 'local', {
+        await writeBotEnv(createResult.botUsername, 'local', {
           botToken: createResult.botToken,
           mode: 'polling',
         })
@@ -607,6 +642,231 @@ export class BotFatherService {
     return result
   }
 
+  /**
+   * Deletes a bot via BotFather.
+   *
+   * @param botUsername - Bot username (with or without @)
+   * @returns Result indicating success or error
+   */
+  async deleteBot(
+    botUsername: string
+  ): Promise<Result<void, ResultError<typeof AppErrorCode.BOTFATHER_ERROR>>> {
+    const startTime = Date.now()
+    if (!this.botFatherManager) {
+      fileLog.error('BOTFATHER', 'BotFather service not initialized', {
+        reason: 'not_initialized',
+        duration_ms: Date.now() - startTime
+      })
+      return err({
+        code: AppErrorCode.BOTFATHER_ERROR,
+        message: 'BotFather service not initialized. Call init() first.',
+      })
+    }
+
+    fileLog.info('BOTFATHER', 'Deleting bot', { botUsername })
+
+    const result = await tryCatchAsync(async () => {
+      const response = await this.botFatherManager!.deleteBot(botUsername)
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to delete bot')
+      }
+      log.success(`Bot deleted: @${botUsername}`)
+      fileLog.info('BOTFATHER', 'Bot deleted', {
+        botUsername,
+        duration_ms: Date.now() - startTime
+      })
+    }, AppErrorCode.BOTFATHER_ERROR)
+
+    if (isErr(result)) {
+      fileLog.error('BOTFATHER', 'Failed to delete bot', {
+        botUsername,
+        error: result.error.message,
+        duration_ms: Date.now() - startTime
+      })
+    }
+
+    return result
+  }
+
+  /**
+   * Reads a bot's environment from the `.envs` directory, decrypting its
+   * token.
+   *
+   * Does not require a Telegram connection.
+   *
+   * @param botUsername - Bot username
+   * @param environment - Environment to read
+   * @returns Result with the environment, undefined if the bot has none, or
+   *   error (including a token that cannot be decrypted)
+   */
+  async getBotEnv(
+    botUsername: string,
+    environment: Environment = 'local'
+  ): Promise<Result<IBotEnv | undefined, ResultError<typeof AppErrorCode.BOTFATHER_ERROR>>> {
+    return tryCatchAsync(async () => {
+      const envManager = new EnvManager({ coreDir: getCoreDir() })
+      if (!envManager.botExists(botUsername)) {
+        return undefined
+      }
+      const env: IBotEnv | null = await envManager.readEnv(botUsername, environment)
+      if (!env?.botToken) {
+        return env ?? undefined
+      }
+
+      const openResult = getConfigService().openSecret(env.botToken)
+      if (isErr(openResult)) {
+        throw new Error(`Cannot decrypt the token of @${botUsername}: ${openResult.error.message}`)
+      }
+      return { ...env, botToken: openResult.value }
+    }, AppErrorCode.BOTFATHER_ERROR)
+  }
+
+  /**
+   * Lists the bots in the `.envs` directory and their environments.
+   *
+   * Does not require a Telegram connection.
+   *
+   * @returns Result with the bots or error
+   */
+  async listBotEnvs(): Promise<
+    Result<Array<{ username: string; environments: Environment[] }>, ResultError<typeof AppErrorCode.BOTFATHER_ERROR>>
+  > {
+    return tryCatchAsync(async () => {
+      const envManager = new EnvManager({ coreDir: getCoreDir() })
+      const bots: Array<{ username: string; environments: Environment[] }> = envManager.listBots()
+      return bots.map((bot) => ({ username: bot.username, environments: bot.environments }))
+    }, AppErrorCode.BOTFATHER_ERROR)
+  }
+
+  /**
+   * Gets the directory holding `.envs` (`MKS_CORE_DIR` or `~/.mks-bot-father/core`).
+   *
+   * @returns Absolute path
+   */
+  getCoreDir(): string {
+    return getCoreDir()
+  }
+
+  /**
+   * Saves a bot token to the `.envs` directory (local environment, polling
+   * mode), encrypted while the config is locked.
+   *
+   * Does not require a Telegram connection.
+   *
+   * @param botUsername - Bot username
+   * @param botToken - Bot token
+   * @returns Result indicating success or error
+   */
+  async saveBotEnv(
+    botUsername: string,
+    botToken: string
+  ): Promise<Result<void, ResultError<typeof AppErrorCode.BOTFATHER_ERROR>>> {
+    const startTime = Date.now()
+    fileLog.info('BOTFATHER', 'Saving bot environment', { botUsername })
+
+    const result = await tryCatchAsync(async () => {
+      await writeBotEnv(botUsername, 'local', {
+        botToken,
+        mode: 'polling',
+      })
+      fileLog.info('BOTFATHER', 'Bot environment saved', {
+        botUsername,
+        duration_ms: Date.now() - startTime
+      })
+    }, AppErrorCode.BOTFATHER_ERROR)
+
+    if (isErr(result)) {
+      fileLog.error('BOTFATHER', 'Failed to save bot environment', {
+        botUsername,
+        error: result.error.message,
+        duration_ms: Date.now() - startTime
+      })
+    }
+
+    return result
+  }
+
+  /**
+   * Re-encrypts the bot tokens in `.envs` around a change of the config key
+   * (`mbf config lock`, `unlock` or `rekey`).
+   *
+   * Tokens that cannot be decrypted with the current key are left as they are.
+   *
+   * @param changeKey - Changes the config key
+   * @returns Result of `changeKey`, or error if an environment cannot be rewritten
+   */
+  async resealBotEnvs<E extends ResultError<string>>(
+    changeKey: () => Result<void, E>
+  ): Promise<Result<void, E | ResultError<typeof AppErrorCode.BOTFATHER_ERROR>>> {
+    const listResult = await this.listBotEnvs()
+    if (isErr(listResult)) {
+      return listResult
+    }
+
+    const envs: Array<{ username: string; environment: Environment; env: IBotEnv & { botToken: string } }> = []
+    for (const bot of listResult.value) {
+      for (const environment of bot.environments) {
+        const envResult = await this.getBotEnv(bot.username, environment)
+        const botToken = isOk(envResult) ? envResult.value?.botToken : undefined
+        if (isOk(envResult) && botToken) {
+          envs.push({ username: bot.username, environment, env: { ...envResult.value, botToken } })
+        }
+      }
+    }
+
+    const changeResult = changeKey()
+    if (isErr(changeResult)) {
+      return changeResult
+    }
+
+    const writeResult = await tryCatchAsync(async () => {
+      for (const { username, environment, env } of envs) {
+        await writeBotEnv(username, environment, env)
+      }
+    }, AppErrorCode.BOTFATHER_ERROR)
+    if (isErr(writeResult)) {
+      return writeResult
+    }
+
+    fileLog.info('BOTFATHER', 'Bot tokens re-encrypted', { environments: envs.length })
+    return ok(undefined)
+  }
+
+  /**
+   * Removes a bot's entry from the `.envs` directory.
+   *
+   * Does not require a Telegram connection.
+   *
+   * @param botUsername - Bot username
+   * @returns Result indicating success or error
+   */
+  async removeBotEnv(
+    botUsername: string
+  ): Promise<Result<void, ResultError<typeof AppErrorCode.BOTFATHER_ERROR>>> {
+    const startTime = Date.now()
+    fileLog.info('BOTFATHER', 'Removing bot environment', { botUsername })
+
+    const result = await tryCatchAsync(async () => {
+      const envManager = new EnvManager({ coreDir: getCoreDir() })
+      await envManager.deleteBot(botUsername)
+      log.info(`Environment removed for @${botUsername}`)
+      fileLog.info('BOTFATHER', 'Bot environment removed', {
+        botUsername,
+        duration_ms: Date.now() - startTime
+      })
+    }, AppErrorCode.BOTFATHER_ERROR)
+
+    if (isErr(result)) {
+      fileLog.error('BOTFATHER', 'Failed to remove bot environment', {
+        botUsername,
+        error: result.error.message,
+        duration_ms: Date.now() - startTime
+      })
+    }
+
+    return result
+  }
+
   /**
    * Disconnects from Telegram.
    *
@@ -646,7 +906,7 @@ export class BotFatherService {
    * @param name - The bot name
    * @returns A valid bot username ending with 'bot'
    */
-  private generateBotUsername(name: string): string {
+  generateBotUsername(name: string): string {
     const sanitized = name
       .toLowerCase()
       .replace(/[^a-z0-9]/g, '_')
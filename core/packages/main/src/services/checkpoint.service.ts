@@ -0,0 +1,361 @@
+/**
+ * Checkpoint service for resumable pipeline runs.
+ *
+ * @module
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs'
+import { randomBytes } from 'node:crypto'
+import { join } from 'node:path'
+import { ok, err, isErr, tryCatch, type Result, type ResultError } from '@mks2508/no-throw'
+import { createLogger, log as fileLog } from '../utils/index.js'
+import { CONFIG_DIR, getConfigService } from './config.service.js'
+import type {
+  IPipelineCheckpoint,
+  IPipelineOptions,
+} from '../types/index.js'
+import { AppErrorCode } from '../types/errors.js'
+
+const log = createLogger('CheckpointService')
+
+/** Directory where pipeline run checkpoints are stored */
+export const RUNS_DIR = join(CONFIG_DIR, 'runs')
+
+const RUN_ID_PATTERN = /^[a-z0-9-]+$/
+
+/**
+ * Transforms a secret value; returns an error message on failure.
+ */
+type ISecretTransform = (value: string) => Result<string, ResultError<string>>
+
+/**
+ * Checkpoint service that persists pipeline run state to disk.
+ *
+ * Each run is stored as `<RUNS_DIR>/<runId>.json`. Checkpoints contain
+ * secrets (the bot token, `existingBotToken` and the `coolifyEnvVars`
+ * values), so files are written with 0600 permissions and, while the config
+ * is locked (`mbf config lock`), those secrets are encrypted with the config key.
+ *
+ * @example
+ * ```typescript
+ * const checkpoints = getCheckpointService()
+ * const checkpoint = checkpoints.create({ botName: 'my-bot' })
+ * checkpoints.save(checkpoint)
+ * console.log('Run ID:', checkpoint.runId)
+ *
+ * const loaded = checkpoints.load('lxk3q9a1-4f2c9e1b')
+ * if (isErr(loaded)) {
+ *   console.error(loaded.error.message)
+ * }
+ * ```
+ */
+export class CheckpointService {
+  /**
+   * Creates a new in-memory checkpoint for a pipeline run.
+   *
+   * The checkpoint is not written to disk until {@link CheckpointService.save} is called.
+   *
+   * @param options - Pipeline options the run is started with
+   * @returns The new checkpoint
+   */
+  create(options: IPipelineOptions): IPipelineCheckpoint {
+    const { onProgress: _onProgress, onEvent: _onEvent, ...persistedOptions } = options
+    const now = new Date().toISOString()
+
+    const checkpoint: IPipelineCheckpoint = {
+      runId: this.generateRunId(),
+      status: 'running',
+      createdAt: now,
+      updatedAt: now,
+      options: persistedOptions,
+      completedSteps: [],
+      outputs: {},
+      errors: [],
+    }
+
+    fileLog.info('CHECKPOINT', 'Run checkpoint created', {
+      runId: checkpoint.runId,
+      botName: options.botName,
+    })
+    return checkpoint
+  }
+
+  /**
+   * Writes a checkpoint to disk atomically.
+   *
+   * @param checkpoint - Checkpoint to persist
+   * @returns Result indicating success or error
+   */
+  save(
+    checkpoint: IPipelineCheckpoint
+  ): Result<void, ResultError<typeof AppErrorCode.CHECKPOINT_ERROR>> {
+    checkpoint.updatedAt = new Date().toISOString()
+    return this.write(checkpoint)
+  }
+
+  /**
+   * Loads a checkpoint by run ID.
+   *
+   * @param runId - Run identifier
+   * @returns Result with the checkpoint or error
+   */
+  load(
+    runId: string
+  ): Result<IPipelineCheckpoint, ResultError<typeof AppErrorCode.CHECKPOINT_ERROR>> {
+    if (!RUN_ID_PATTERN.test(runId)) {
+      return err({
+        code: AppErrorCode.CHECKPOINT_ERROR,
+        message: `Invalid run ID: ${runId}`,
+      })
+    }
+
+    const filePath = this.getCheckpointPath(runId)
+    if (!existsSync(filePath)) {
+      fileLog.warn('CHECKPOINT', 'Run checkpoint not found', { runId })
+      return err({
+        code: AppErrorCode.CHECKPOINT_ERROR,
+        message: `No checkpoint found for run ${runId}`,
+      })
+    }
+
+    const readResult = tryCatch(() => {
+      const raw = readFileSync(filePath, 'utf-8')
+      return JSON.parse(raw) as IPipelineCheckpoint
+    }, AppErrorCode.CHECKPOINT_ERROR)
+    if (isErr(readResult)) {
+      return readResult
+    }
+
+    const configService = getConfigService()
+    const openResult = mapSecrets(readResult.value, (value) => configService.openSecret(value))
+    if (isErr(openResult)) {
+      return err({
+        code: AppErrorCode.CHECKPOINT_ERROR,
+        message: `Cannot decrypt the secrets of run ${runId}: ${openResult.error.message}`,
+      })
+    }
+    return openResult
+  }
+
+  /**
+   * Lists all persisted checkpoints, most recent first.
+   *
+   * Secrets are returned as stored (encrypted while the config is locked);
+   * use {@link CheckpointService.load} to read them.
+   *
+   * @returns Result with checkpoints or error
+   */
+  list(): Result<IPipelineCheckpoint[], ResultError<typeof AppErrorCode.CHECKPOINT_ERROR>> {
+    if (!existsSync(RUNS_DIR)) {
+      return ok([])
+    }
+
+    return tryCatch(() => {
+      const checkpoints = readdirSync(RUNS_DIR)
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => JSON.parse(readFileSync(join(RUNS_DIR, file), 'utf-8')) as IPipelineCheckpoint)
+
+      return checkpoints.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    }, AppErrorCode.CHECKPOINT_ERROR)
+  }
+
+  /**
+   * Deletes a checkpoint.
+   *
+   * @param runId - Run identifier
+   * @returns Result indicating success or error
+   */
+  delete(
+    runId: string
+  ): Result<void, ResultError<typeof AppErrorCode.CHECKPOINT_ERROR>> {
+    if (!RUN_ID_PATTERN.test(runId)) {
+      return err({
+        code: AppErrorCode.CHECKPOINT_ERROR,
+        message: `Invalid run ID: ${runId}`,
+      })
+    }
+
+    return tryCatch(() => {
+      rmSync(this.getCheckpointPath(runId), { force: true })
+      fileLog.info('CHECKPOINT', 'Run checkpoint deleted', { runId })
+    }, AppErrorCode.CHECKPOINT_ERROR)
+  }
+
+  /**
+   * Re-encrypts the secrets of every stored run around a change of the
+   * config key (`mbf config lock`, `unlock` or `rekey`).
+   *
+   * Runs whose secrets cannot be decrypted with the current key are left
+   * as they are.
+   *
+   * @param changeKey - Changes the config key
+   * @returns Result of `changeKey`, or error if a run cannot be rewritten
+   */
+  reseal<E extends ResultError<string>>(
+    changeKey: () => Result<void, E>
+  ): Result<void, E | ResultError<typeof AppErrorCode.CHECKPOINT_ERROR>> {
+    const listResult = this.list()
+    if (isErr(listResult)) {
+      return listResult
+    }
+
+    const runs = listResult.value
+      .map((checkpoint) => this.load(checkpoint.runId))
+      .flatMap((result) => (isErr(result) ? [] : [result.value]))
+
+    const changeResult = changeKey()
+    if (isErr(changeResult)) {
+      return changeResult
+    }
+
+    for (const checkpoint of runs) {
+      const writeResult = this.write(checkpoint)
+      if (isErr(writeResult)) {
+        return writeResult
+      }
+    }
+    fileLog.info('CHECKPOINT', 'Run secrets re-encrypted', { runs: runs.length })
+    return ok(undefined)
+  }
+
+  /**
+   * Gets the checkpoint file path for a run.
+   *
+   * @param runId - Run identifier
+   * @returns Absolute path to the checkpoint file
+   */
+  getCheckpointPath(runId: string): string {
+    return join(RUNS_DIR, `${runId}.json`)
+  }
+
+  /**
+   * Writes a checkpoint to disk atomically, encrypting its secrets while
+   * the config is locked.
+   *
+   * @param checkpoint - Checkpoint to persist (left unchanged)
+   * @returns Result indicating success or error
+   */
+  private write(
+    checkpoint: IPipelineCheckpoint
+  ): Result<void, ResultError<typeof AppErrorCode.CHECKPOINT_ERROR>> {
+    const configService = getConfigService()
+    const sealResult = mapSecrets(checkpoint, (value) => configService.sealSecret(value))
+    if (isErr(sealResult)) {
+      return err({
+        code: AppErrorCode.CHECKPOINT_ERROR,
+        message: `Cannot encrypt the secrets of run ${checkpoint.runId}: ${sealResult.error.message}`,
+      })
+    }
+
+    return tryCatch(() => {
+      this.ensureRunsDir()
+
+      const filePath = this.getCheckpointPath(checkpoint.runId)
+      const tmpPath = `${filePath}.tmp`
+      writeFileSync(tmpPath, JSON.stringify(sealResult.value, null, 2), { mode: 0o600 })
+      renameSync(tmpPath, filePath)
+
+      log.debug(`Checkpoint saved: ${checkpoint.runId}`)
+    }, AppErrorCode.CHECKPOINT_ERROR)
+  }
+
+  /**
+   * Ensures the runs directory exists.
+   */
+  private ensureRunsDir(): void {
+    if (!existsSync(RUNS_DIR)) {
+      mkdirSync(RUNS_DIR, { recursive: true, mode: 0o700 })
+    }
+  }
+
+  /**
+   * Generates a short, sortable run identifier.
+   *
+   * @returns Run ID such as `lxk3q9a1-4f2c9e1b`
+   */
+  private generateRunId(): string {
+    return `${Date.now().toString(36)}-${randomBytes(4).toString('hex')}`
+  }
+}
+
+/**
+ * Copies a checkpoint without its secrets, for display.
+ *
+ * @param checkpoint - Checkpoint to copy
+ * @returns Copy without the bot token output, `existingBotToken` and the
+ * `coolifyEnvVars` values
+ */
+export function redactSecrets(checkpoint: IPipelineCheckpoint): IPipelineCheckpoint {
+  const copy = JSON.parse(JSON.stringify(checkpoint)) as IPipelineCheckpoint
+  for (const [holder, field] of secretFields(copy)) {
+    delete holder[field]
+  }
+  return copy
+}
+
+/**
+ * Lists where a checkpoint holds secrets: the bot token output,
+ * `existingBotToken` and the `coolifyEnvVars` values.
+ *
+ * @param checkpoint - Checkpoint
+ * @returns Object and key of each secret
+ */
+function secretFields(checkpoint: IPipelineCheckpoint): Array<[Record<string, unknown>, string]> {
+  const { outputs, options } = checkpoint
+  return [
+    [outputs, 'botToken'],
+    [options, 'existingBotToken'],
+    ...Object.keys(options.coolifyEnvVars ?? {}).map(
+      (key): [Record<string, unknown>, string] => [options.coolifyEnvVars!, key]
+    ),
+  ]
+}
+
+/**
+ * Copies a checkpoint with its secrets transformed.
+ *
+ * @param checkpoint - Checkpoint to copy
+ * @param transform - Encrypts or decrypts a secret
+ * @returns Result with the copy, or the first transform error
+ */
+function mapSecrets(
+  checkpoint: IPipelineCheckpoint,
+  transform: ISecretTransform
+): Result<IPipelineCheckpoint, ResultError<string>> {
+  const copy = JSON.parse(JSON.stringify(checkpoint)) as IPipelineCheckpoint
+
+  for (const [holder, field] of secretFields(copy)) {
+    const value = holder[field]
+    if (typeof value !== 'string') {
+      continue
+    }
+    const result = transform(value)
+    if (isErr(result)) {
+      return result
+    }
+    holder[field] = result.value
+  }
+  return ok(copy)
+}
+
+let instance: CheckpointService | null = null
+
+/**
+ * Gets the singleton CheckpointService instance.
+ *
+ * @returns The CheckpointService instance
+ */
+export function getCheckpointService(): CheckpointService {
+  if (!instance) {
+    instance = new CheckpointService()
+  }
+  return instance
+}
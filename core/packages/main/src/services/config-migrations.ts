@@ -0,0 +1,133 @@
+/**
+ * Config file schema versions and the migrations between them.
+ *
+ * @module
+ */
+
+import { ok, err, type Result, type ResultError } from '@mks2508/no-throw'
+import type { IConfigMigration } from '../types/index.js'
+import { AppErrorCode } from '../types/errors.js'
+
+/** Configuration sections, at the top level and in each profile */
+const SECTIONS = ['github', 'coolify', 'telegram']
+
+/**
+ * Registered migrations, in version order.
+ *
+ * A migration is a snapshot of the schema change it makes: never edit one
+ * that has shipped, add a new version instead.
+ */
+export const CONFIG_MIGRATIONS: readonly IConfigMigration[] = [
+  {
+    version: 1,
+    description: 'Store values written by `mbf config set` with their schema types',
+    migrate: (config) => {
+      // Before versioning, `config set` turned "123" into a number and
+      // "true" into a boolean whatever the key, which the schema rejects
+      const numbers = ['telegram.apiId']
+      const booleans = ['github.useGhCli']
+
+      return mapProfiles(config, (sections) => {
+        const result: Record<string, unknown> = { ...sections }
+
+        for (const section of SECTIONS) {
+          const values = sections[section]
+          if (!isRecord(values)) {
+            continue
+          }
+
+          const converted: Record<string, unknown> = {}
+          for (const [field, value] of Object.entries(values)) {
+            const key = `${section}.${field}`
+            if (numbers.includes(key)) {
+              converted[field] = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value
+            } else if (booleans.includes(key)) {
+              converted[field] = value === 'true' ? true : value === 'false' ? false : value
+            } else {
+              converted[field] = typeof value === 'number' || typeof value === 'boolean' ? String(value) : value
+            }
+          }
+          result[section] = converted
+        }
+
+        return result
+      })
+    },
+  },
+]
+
+/** Schema version written by this release */
+export const CONFIG_VERSION = CONFIG_MIGRATIONS[CONFIG_MIGRATIONS.length - 1]!.version
+
+/**
+ * Upgrades a parsed config file to {@link CONFIG_VERSION}.
+ *
+ * Files without `version` are version 0. The result is not validated.
+ *
+ * @param data - Parsed config file
+ * @returns Result with the upgraded file and the version it had, or error
+ */
+export function migrateConfig(
+  data: unknown
+): Result<{ config: Record<string, unknown>; from: number }, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
+  if (!isRecord(data)) {
+    return err({ code: AppErrorCode.CONFIG_ERROR, message: 'Expected a JSON object' })
+  }
+
+  const from = data['version'] ?? 0
+  if (typeof from !== 'number' || !Number.isInteger(from) || from < 0) {
+    return err({
+      code: AppErrorCode.CONFIG_ERROR,
+      message: `version must be a non-negative integer (was ${JSON.stringify(from)})`,
+    })
+  }
+
+  if (from > CONFIG_VERSION) {
+    return err({
+      code: AppErrorCode.CONFIG_ERROR,
+      message: `Config version ${from} is newer than the supported version ${CONFIG_VERSION}: upgrade mks-bot-father`,
+    })
+  }
+
+  let config = data
+  for (const migration of CONFIG_MIGRATIONS) {
+    if (migration.version > from) {
+      config = { ...migration.migrate(config), version: migration.version }
+    }
+  }
+
+  return ok({ config, from })
+}
+
+/**
+ * Checks whether a parsed JSON value is an object.
+ *
+ * @param value - Value to check
+ * @returns True for plain objects
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Applies a function to every set of sections: the top level and each profile.
+ *
+ * @param config - Parsed config file
+ * @param fn - Receives the sections object and returns the new one
+ * @returns Config file with every set of sections replaced
+ */
+function mapProfiles(
+  config: Record<string, unknown>,
+  fn: (sections: Record<string, unknown>) => Record<string, unknown>
+): Record<string, unknown> {
+  const result = fn(config)
+  const profiles = config['profiles']
+
+  if (isRecord(profiles)) {
+    result['profiles'] = Object.fromEntries(
+      Object.entries(profiles).map(([name, sections]) => [name, isRecord(sections) ? fn(sections) : sections])
+    )
+  }
+
+  return result
+}
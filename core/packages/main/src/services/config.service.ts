@@ -4,14 +4,33 @@
  * @module
  */
 
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { copyFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
 import { homedir } from 'node:os'
-import { join } from 'node:path'
-import { ok, tryCatch, isOk, type Result, type ResultError } from '@mks2508/no-throw'
+import { dirname, join, resolve } from 'node:path'
+import { ok, err, tryCatch, isOk, isErr, type Result, type ResultError } from '@mks2508/no-throw'
 import { type } from 'arktype'
-import { createLogger, log as fileLog } from '../utils/index.js'
-import { ConfigSchema, type IConfig } from '../types/index.js'
+import {
+  createLogger,
+  log as fileLog,
+  generateSalt,
+  deriveKey,
+  isEncryptedValue,
+  encryptValue,
+  decryptValue,
+} from '../utils/index.js'
+import {
+  ConfigFileSchema,
+  ConfigSchema,
+  ConfigLayer,
+  type IConfig,
+  type IConfigValueOrigin,
+  type IConfigFile,
+  type IGitHubAppCredentials,
+  type IEncryptionConfig,
+  type ISecretKeySource,
+} from '../types/index.js'
 import { AppErrorCode } from '../types/errors.js'
+import { CONFIG_VERSION, migrateConfig } from './config-migrations.js'
 
 const log = createLogger('ConfigService')
 
@@ -21,9 +40,117 @@ export const CONFIG_DIR = join(homedir(), '.config', 'mks-bot-father')
 /** Configuration file path */
 export const CONFIG_FILE = join(CONFIG_DIR, 'config.json')
 
+/** Profile formed by the top-level sections of the config file */
+export const DEFAULT_PROFILE = 'default'
+
+/** Valid profile names */
+const PROFILE_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_-]*$/
+
+/** Config keys holding secrets, stored encrypted while the config is locked */
+export const SECRET_CONFIG_KEYS: readonly string[] = [
+  'github.token',
+  'github.appPrivateKey',
+  'git.token',
+  'coolify.token',
+  'coolify.deployToken',
+  'telegram.apiHash',
+]
+
+/** Plaintext encrypted into `encryption.check` to verify a key */
+const KEY_CHECK = 'mks-bot-father'
+
+/** Error message for operations that need the key */
+const LOCKED_MESSAGE = 'Config is locked: set MBF_PASSPHRASE or MBF_KEY_FILE to decrypt its secrets'
+
+/** Top-level keys that are not configuration sections */
+const RESERVED_KEYS = ['profiles', 'activeProfile', 'encryption']
+
+/** Project-local config file name, looked up from the working directory upwards */
+export const PROJECT_CONFIG_FILE = '.mbfrc'
+
+/** Built-in defaults (the `default` layer) */
+export const CONFIG_DEFAULTS: IConfig = {
+  github: { useGhCli: true, defaultVisibility: 'public', botTokenSecret: 'TG_BOT_TOKEN', protectBranch: true },
+}
+
+/** Known config keys and their value types */
+const CONFIG_KEY_TYPES: Record<string, 'string' | 'number' | 'boolean'> = {
+  'github.token': 'string',
+  'github.useGhCli': 'boolean',
+  'github.defaultOrg': 'string',
+  'github.defaultVisibility': 'string',
+  'github.hardenRepo': 'boolean',
+  'github.botTokenSecret': 'string',
+  'github.topics': 'string',
+  'github.protectBranch': 'boolean',
+  'github.requiredApprovals': 'number',
+  'github.mergeMethods': 'string',
+  'github.deleteBranchOnMerge': 'boolean',
+  'github.commitAuthorName': 'string',
+  'github.commitAuthorEmail': 'string',
+  'github.commitMessage': 'string',
+  'github.pushStrategy': 'string',
+  'github.appId': 'number',
+  'github.appInstallationId': 'number',
+  'github.appPrivateKey': 'string',
+  'github.appPrivateKeyPath': 'string',
+  'git.host': 'string',
+  'git.url': 'string',
+  'git.token': 'string',
+  'git.defaultOwner': 'string',
+  'git.defaultVisibility': 'string',
+  'coolify.url': 'string',
+  'coolify.token': 'string',
+  'coolify.defaultServer': 'string',
+  'coolify.defaultDestination': 'string',
+  'coolify.defaultProject': 'string',
+  'coolify.defaultEnvironment': 'string',
+  'coolify.deployToken': 'string',
+  'coolify.privateKeyUuid': 'string',
+  'deploy.target': 'string',
+  'deploy.composeDir': 'string',
+  'deploy.composePublicUrl': 'string',
+  'deploy.composeNetwork': 'string',
+  'telegram.apiId': 'number',
+  'telegram.apiHash': 'string',
+}
+
+/**
+ * A configuration layer with the values it sets.
+ */
+interface IConfigLayerValues {
+  layer: ConfigLayer
+  /** File path, or undefined when the source is per key */
+  source?: string
+  config: IConfig
+  /** Source of each key (environment variable or flag) */
+  keySources?: Record<string, string>
+}
+
 /**
  * Configuration service for persistent settings.
  *
+ * Values are resolved from layers, each overriding the previous one:
+ * built-in defaults, the config file, the nearest `.mbfrc`, `MBF_*`
+ * environment variables, then {@link ConfigService.setOverride} (`-c`
+ * flags). `set()` writes to the config file.
+ *
+ * Settings in the config file are grouped in profiles. The active profile is, in order: the one
+ * passed to {@link ConfigService.selectProfile} (the `--profile` flag), the
+ * `MBF_PROFILE` environment variable, the one saved with
+ * {@link ConfigService.useProfile}, or `default`. Every getter and `set()`
+ * work on the active profile.
+ *
+ * After {@link ConfigService.lock}, the secret fields ({@link SECRET_CONFIG_KEYS})
+ * are stored encrypted and decrypted on read once a key is available: from
+ * {@link ConfigService.provideKey}, `MBF_PASSPHRASE`, `MBF_KEY_FILE` or the
+ * key file recorded when locking. Without a key, secrets read as unset.
+ *
+ * Files written with an older schema `version` are migrated on load (see
+ * `CONFIG_MIGRATIONS`). A file that still fails validation is not
+ * discarded: the defaults apply, {@link ConfigService.getLoadError} reports
+ * the problem and `save()` refuses to overwrite it.
+ *
  * @example
  * ```typescript
  * const config = getConfigService()
@@ -31,14 +158,46 @@ export const CONFIG_FILE = join(CONFIG_DIR, 'config.json')
  * if (isErr(result)) {
  *   console.error(result.error.message)
  * }
+ *
+ * // Work on another account for this process only
+ * config.selectProfile('work')
  * ```
  */
 export class ConfigService {
-  private config: IConfig = {}
+  private file: IConfigFile = {}
+  private profileOverride?: string
+  private key?: Buffer
+  private project?: { path: string; config: IConfig }
+  private overrides: IConfig = {}
+  private loadError?: ResultError<typeof AppErrorCode.CONFIG_ERROR>
 
   constructor() {
     this.ensureConfigDir()
     this.loadSync()
+    this.unlockFromEnvironment()
+    this.loadProjectConfig()
+  }
+
+  /**
+   * Loads the nearest `.mbfrc` from the working directory or its parents.
+   */
+  private loadProjectConfig(): void {
+    const path = findProjectConfig(process.cwd())
+    if (!path) {
+      return
+    }
+
+    try {
+      const result = ConfigSchema(JSON.parse(readFileSync(path, 'utf-8')))
+      if (result instanceof type.errors) {
+        log.warn(`Invalid ${path}, ignoring it: ${result.summary}`)
+        return
+      }
+      this.project = { path, config: result }
+      log.debug(`Project config loaded: ${path}`)
+    } catch {
+      log.warn(`Failed to parse ${path}, ignoring it`)
+    }
   }
 
   /**
@@ -54,58 +213,107 @@ export class ConfigService {
 
   /**
    * Loads configuration from disk synchronously (used in constructor).
+   *
+   * An unreadable or invalid file leaves the defaults in place and is
+   * reported by {@link ConfigService.getLoadError}.
    */
   private loadSync(): void {
-    try {
-      if (existsSync(CONFIG_FILE)) {
-        const raw = readFileSync(CONFIG_FILE, 'utf-8')
-        const parsed = JSON.parse(raw)
-        const result = ConfigSchema(parsed)
-
-        if (result instanceof type.errors) {
-          log.warn('Invalid config file, using defaults')
-          this.config = {}
-        } else {
-          this.config = result
-          log.debug('Config loaded successfully')
-        }
-      } else {
-        log.debug('No config file found, using defaults')
-        this.config = {}
+    const result = this.readConfigFile()
+    if (isErr(result)) {
+      log.error(result.error.message)
+      this.file = {}
+      this.loadError = result.error
+      return
+    }
+
+    this.file = result.value
+    this.loadError = undefined
+  }
+
+  /**
+   * Reads, migrates and validates the config file.
+   *
+   * A file written with an older schema version is upgraded step by step and
+   * saved, after copying the original to `config.json.v<version>.bak`.
+   *
+   * @returns Result with the file contents (empty when there is no file) or error
+   */
+  private readConfigFile(): Result<IConfigFile, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
+    if (!existsSync(CONFIG_FILE)) {
+      log.debug('No config file found, using defaults')
+      return ok({})
+    }
+
+    const parsed = tryCatch(() => JSON.parse(readFileSync(CONFIG_FILE, 'utf-8')) as unknown, AppErrorCode.CONFIG_ERROR)
+    if (isErr(parsed)) {
+      return err({
+        code: AppErrorCode.CONFIG_ERROR,
+        message: `Cannot parse config file ${CONFIG_FILE}: ${parsed.error.message}`,
+      })
+    }
+
+    const migrated = migrateConfig(parsed.value)
+    if (isErr(migrated)) {
+      return err({
+        code: AppErrorCode.CONFIG_ERROR,
+        message: `Invalid config file ${CONFIG_FILE}: ${migrated.error.message}`,
+      })
+    }
+
+    const result = ConfigFileSchema(migrated.value.config)
+    if (result instanceof type.errors) {
+      fileLog.error('CONFIG', 'Invalid config file', { path: CONFIG_FILE, error: result.summary })
+      return err({
+        code: AppErrorCode.CONFIG_ERROR,
+        message: `Invalid config file ${CONFIG_FILE}: ${result.summary}`,
+      })
+    }
+
+    const { from } = migrated.value
+    if (from < CONFIG_VERSION) {
+      const backup = `${CONFIG_FILE}.v${from}.bak`
+      const written = tryCatch(() => {
+        copyFileSync(CONFIG_FILE, backup)
+        writeFileSync(CONFIG_FILE, JSON.stringify(result, null, 2), { mode: 0o600 })
+      }, AppErrorCode.CONFIG_ERROR)
+      if (isErr(written)) {
+        return err({
+          code: AppErrorCode.CONFIG_ERROR,
+          message: `Cannot save migrated config file ${CONFIG_FILE}: ${written.error.message}`,
+        })
       }
-    } catch {
-      log.warn('Failed to load config, using defaults')
-      this.config = {}
+
+      log.info(`Config migrated from version ${from} to ${CONFIG_VERSION} (backup: ${backup})`)
+      fileLog.info('CONFIG', 'Config migrated', { from, to: CONFIG_VERSION, backup })
     }
+
+    log.debug('Config loaded successfully')
+    return ok(result)
   }
 
   /**
    * Loads configuration from disk.
    *
-   * @returns Result with the loaded configuration or error
+   * @returns Result with the active profile's configuration or error
    */
   load(): Result<IConfig, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
-    const result = tryCatch(() => {
-      if (existsSync(CONFIG_FILE)) {
-        const raw = readFileSync(CONFIG_FILE, 'utf-8')
-        const parsed = JSON.parse(raw)
-        const schemaResult = ConfigSchema(parsed)
-
-        if (schemaResult instanceof type.errors) {
-          log.warn('Invalid config file, using defaults')
-          this.config = {}
-        } else {
-          this.config = schemaResult
-          log.debug('Config loaded successfully')
-        }
-      } else {
-        log.debug('No config file found, using defaults')
-        this.config = {}
-      }
-      return this.config
-    }, AppErrorCode.CONFIG_ERROR)
+    this.loadSync()
+    if (this.loadError) {
+      return err(this.loadError)
+    }
+    return ok(this.get())
+  }
 
-    return result
+  /**
+   * Gets the error that prevented loading the config file.
+   *
+   * While set, the defaults are in effect and {@link ConfigService.save}
+   * refuses to overwrite the file.
+   *
+   * @returns The error, or undefined if the file loaded
+   */
+  getLoadError(): ResultError<typeof AppErrorCode.CONFIG_ERROR> | undefined {
+    return this.loadError
   }
 
   /**
@@ -114,10 +322,20 @@ export class ConfigService {
    * @returns Result indicating success or error
    */
   save(): Result<void, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
+    if (this.loadError) {
+      return err({
+        code: AppErrorCode.CONFIG_ERROR,
+        message: `${this.loadError.message}\nFix or remove the file before changing the configuration`,
+      })
+    }
+
     const result = tryCatch(() => {
-      writeFileSync(CONFIG_FILE, JSON.stringify(this.config, null, 2))
+      this.file = { version: CONFIG_VERSION, ...this.file }
+      writeFileSync(CONFIG_FILE, JSON.stringify(this.file, null, 2), { mode: 0o600 })
       log.success('Config saved')
       fileLog.info('CONFIG', 'Config saved', {
+        profile: this.getActiveProfile(),
+        encrypted: !!this.file.encryption,
         hasGitHub: !!this.config.github?.token,
         hasCoolify: !!this.config.coolify?.token,
         hasTelegram: !!(this.config.telegram?.apiId && this.config.telegram?.apiHash)
@@ -128,7 +346,8 @@ export class ConfigService {
   }
 
   /**
-   * Gets the full configuration object.
+   * Gets the effective configuration: every layer merged, with the active
+   * profile as the file layer.
    *
    * @returns The configuration object
    */
@@ -137,10 +356,295 @@ export class ConfigService {
   }
 
   /**
-   * Sets a configuration value by dot-notation key.
+   * Effective configuration.
+   */
+  private get config(): IConfig {
+    const merged: Record<string, Record<string, unknown>> = {}
+    for (const { config } of this.layers()) {
+      for (const [section, values] of Object.entries(config)) {
+        if (values && typeof values === 'object') {
+          merged[section] = { ...merged[section], ...values }
+        }
+      }
+    }
+    return merged as IConfig
+  }
+
+  /**
+   * Gets the origin of every effective value.
+   *
+   * @returns Origins of the set keys, in key order
+   */
+  getOrigins(): IConfigValueOrigin[] {
+    const layers = this.layers().reverse()
+    const origins: IConfigValueOrigin[] = []
+
+    for (const key of Object.keys(CONFIG_KEY_TYPES)) {
+      const [section, field] = key.split('.') as [string, string]
+      for (const { layer, source, config, keySources } of layers) {
+        const value = (config as Record<string, Record<string, unknown> | undefined>)[section]?.[field]
+        if (value !== undefined) {
+          origins.push({ key, value, layer, source: keySources?.[key] ?? source ?? layer })
+          break
+        }
+      }
+    }
+
+    return origins
+  }
+
+  /**
+   * Gets the origin of one effective value.
+   *
+   * @param key - Dot-notation key
+   * @returns Origin, or undefined if no layer sets the key
+   */
+  getOrigin(key: string): IConfigValueOrigin | undefined {
+    return this.getOrigins().find((origin) => origin.key === key)
+  }
+
+  /**
+   * Overrides a value for this process only (the `-c key=value` flag).
+   *
+   * @param key - Dot-notation key
+   * @param value - Value as text; converted to the key's type
+   * @returns Result indicating success or an unknown-key or invalid-value error
+   */
+  setOverride(key: string, value: string): Result<void, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
+    const parsed = parseConfigValue(key, value)
+    if (isErr(parsed)) {
+      return parsed
+    }
+
+    const [section, field] = key.split('.') as [string, string]
+    const overrides = this.overrides as Record<string, Record<string, unknown> | undefined>
+    this.overrides = { ...this.overrides, [section]: { ...overrides[section], [field]: parsed.value } }
+    return ok(undefined)
+  }
+
+  /**
+   * Gets the path of the `.mbfrc` in use.
+   *
+   * @returns Path, or undefined if none was found
+   */
+  getProjectConfigPath(): string | undefined {
+    return this.project?.path
+  }
+
+  /**
+   * Builds the configuration layers, lowest precedence first.
+   *
+   * @returns Layers with their values
+   */
+  private layers(): IConfigLayerValues[] {
+    const env = readEnvironmentConfig()
+    return [
+      { layer: ConfigLayer.Default, config: CONFIG_DEFAULTS },
+      { layer: ConfigLayer.File, source: `${CONFIG_FILE} (profile ${this.getActiveProfile()})`, config: this.fileConfig },
+      ...(this.project
+        ? [{ layer: ConfigLayer.Project, source: this.project.path, config: this.project.config }]
+        : []),
+      { layer: ConfigLayer.Env, config: env.config, keySources: env.sources },
+      {
+        layer: ConfigLayer.Cli,
+        config: this.overrides,
+        keySources: Object.fromEntries(
+          Object.keys(CONFIG_KEY_TYPES).map((key) => [key, `-c ${key}`])
+        ),
+      },
+    ]
+  }
+
+  /**
+   * Configuration sections of the active profile, with secrets decrypted.
+   */
+  private get fileConfig(): IConfig {
+    const { profiles: _profiles, activeProfile: _activeProfile, encryption: _encryption, ...stored } =
+      this.storedProfile(this.getActiveProfile()) ?? {}
+
+    if (!this.file.encryption) {
+      return stored
+    }
+
+    const config = structuredClone(stored) as Record<string, Record<string, unknown> | undefined>
+    for (const secretKey of SECRET_CONFIG_KEYS) {
+      const [section, field] = secretKey.split('.') as [string, string]
+      const value = config[section]?.[field]
+      if (isEncryptedValue(value)) {
+        const plaintext = this.key && decryptValue(value, this.key)
+        if (plaintext === undefined) {
+          delete config[section]![field]
+        } else {
+          config[section]![field] = plaintext
+        }
+      }
+    }
+    return config as IConfig
+  }
+
+  /**
+   * Gets a profile's sections as stored (secrets may be encrypted).
+   *
+   * @param profile - Profile name
+   * @returns Stored sections, or undefined if the profile does not exist
+   */
+  private storedProfile(profile: string): IConfigFile | undefined {
+    return profile === DEFAULT_PROFILE ? this.file : this.file.profiles?.[profile]
+  }
+
+  /**
+   * Gets the name of the active profile.
+   *
+   * @returns The `--profile` selection, `MBF_PROFILE`, the saved profile or `default`
+   */
+  getActiveProfile(): string {
+    return (
+      this.profileOverride ||
+      process.env['MBF_PROFILE'] ||
+      this.file.activeProfile ||
+      DEFAULT_PROFILE
+    )
+  }
+
+  /**
+   * Lists the profile names, `default` first.
+   *
+   * @returns Profile names
+   */
+  listProfiles(): string[] {
+    return [DEFAULT_PROFILE, ...Object.keys(this.file.profiles ?? {})]
+  }
+
+  /**
+   * Checks whether a profile exists.
+   *
+   * @param name - Profile name
+   * @returns True if the profile exists
+   */
+  hasProfile(name: string): boolean {
+    return name === DEFAULT_PROFILE || !!this.file.profiles?.[name]
+  }
+
+  /**
+   * Creates an empty profile.
+   *
+   * @param name - Profile name (letters, digits, `-` and `_`)
+   * @returns Result indicating success or error
+   */
+  createProfile(name: string): Result<void, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
+    if (!PROFILE_NAME_PATTERN.test(name)) {
+      return err({
+        code: AppErrorCode.CONFIG_ERROR,
+        message: `Invalid profile name "${name}": use letters, digits, - and _`,
+      })
+    }
+
+    if (this.hasProfile(name)) {
+      return err({ code: AppErrorCode.CONFIG_ERROR, message: `Profile ${name} already exists` })
+    }
+
+    this.file.profiles = { ...this.file.profiles, [name]: {} }
+    fileLog.info('CONFIG', 'Profile created', { profile: name })
+    return this.save()
+  }
+
+  /**
+   * Makes a profile the saved active profile.
+   *
+   * `--profile` and `MBF_PROFILE` still take precedence.
+   *
+   * @param name - Profile name
+   * @returns Result indicating success or error
+   */
+  useProfile(name: string): Result<void, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
+    const existsResult = this.requireProfile(name)
+    if (isErr(existsResult)) {
+      return existsResult
+    }
+
+    if (name === DEFAULT_PROFILE) {
+      delete this.file.activeProfile
+    } else {
+      this.file.activeProfile = name
+    }
+
+    fileLog.info('CONFIG', 'Active profile changed', { profile: name })
+    return this.save()
+  }
+
+  /**
+   * Deletes a profile and its settings.
+   *
+   * The `default` profile cannot be deleted. Deleting the saved active
+   * profile makes `default` active again.
+   *
+   * @param name - Profile name
+   * @returns Result indicating success or error
+   */
+  deleteProfile(name: string): Result<void, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
+    if (name === DEFAULT_PROFILE) {
+      return err({ code: AppErrorCode.CONFIG_ERROR, message: 'The default profile cannot be deleted' })
+    }
+
+    const existsResult = this.requireProfile(name)
+    if (isErr(existsResult)) {
+      return existsResult
+    }
+
+    const { [name]: _deleted, ...profiles } = this.file.profiles ?? {}
+    this.file.profiles = profiles
+    if (Object.keys(profiles).length === 0) {
+      delete this.file.profiles
+    }
+    if (this.file.activeProfile === name) {
+      delete this.file.activeProfile
+    }
+
+    fileLog.info('CONFIG', 'Profile deleted', { profile: name })
+    return this.save()
+  }
+
+  /**
+   * Selects the active profile for this process only (the `--profile` flag).
+   *
+   * @param name - Profile name
+   * @returns Result indicating success or error
+   */
+  selectProfile(name: string): Result<void, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
+    const existsResult = this.requireProfile(name)
+    if (isErr(existsResult)) {
+      return existsResult
+    }
+
+    this.profileOverride = name
+    log.debug(`Using profile ${name}`)
+    return ok(undefined)
+  }
+
+  /**
+   * Checks that a profile exists.
+   *
+   * @param name - Profile name
+   * @returns Result indicating success or a "does not exist" error
+   */
+  private requireProfile(name: string): Result<void, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
+    if (!this.hasProfile(name)) {
+      return err({
+        code: AppErrorCode.CONFIG_ERROR,
+        message: `Profile ${name} does not exist (available: ${this.listProfiles().join(', ')})`,
+      })
+    }
+    return ok(undefined)
+  }
+
+  /**
+   * Sets a configuration value by dot-notation key in the active profile.
+   *
+   * The value is converted to the key's type and validated, so the file
+   * always matches the schema.
    *
    * @param key - The configuration key (e.g., 'github.token')
-   * @param value - The value to set
+   * @param value - The value to set (e.g. `12345` or `'12345'` for `telegram.apiId`)
    * @returns Result indicating success or error
    *
    * @example
@@ -153,7 +657,36 @@ export class ConfigService {
    */
   set(key: string, value: unknown): Result<void, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
     const keys = key.split('.')
-    let current: Record<string, unknown> = this.config as Record<string, unknown>
+
+    if (RESERVED_KEYS.includes(keys[0]!)) {
+      return err({
+        code: AppErrorCode.CONFIG_ERROR,
+        message: keys[0] === 'encryption'
+          ? 'Encryption is managed with `mbf config lock|unlock|rekey`'
+          : 'Profiles are managed with `mbf config profile`',
+      })
+    }
+
+    const parsed = parseConfigValue(key, String(value))
+    if (isErr(parsed)) {
+      return err(parsed.error)
+    }
+    value = parsed.value
+
+    const profile = this.getActiveProfile()
+    const existsResult = this.requireProfile(profile)
+    if (isErr(existsResult)) {
+      return existsResult
+    }
+
+    if (SECRET_CONFIG_KEYS.includes(key) && typeof value === 'string' && this.file.encryption) {
+      if (!this.key) {
+        return err({ code: AppErrorCode.CONFIG_ERROR, message: LOCKED_MESSAGE })
+      }
+      value = encryptValue(value, this.key)
+    }
+
+    let current: Record<string, unknown> = this.storedProfile(profile) as Record<string, unknown>
 
     for (let i = 0; i < keys.length - 1; i++) {
       const k = keys[i]!
@@ -166,10 +699,285 @@ export class ConfigService {
     const lastKey = keys[keys.length - 1]!
     current[lastKey] = value
 
-    fileLog.info('CONFIG', 'Config value set', { key, valueType: typeof value })
+    fileLog.info('CONFIG', 'Config value set', { key, profile, valueType: typeof value })
+    return this.save()
+  }
+
+  /**
+   * Checks whether the secrets are stored encrypted.
+   *
+   * @returns True once {@link ConfigService.lock} has run
+   */
+  isEncrypted(): boolean {
+    return !!this.file.encryption
+  }
+
+  /**
+   * Checks whether secrets can be read.
+   *
+   * @returns True if the config is not encrypted or its key was provided
+   */
+  isUnlocked(): boolean {
+    return !this.file.encryption || !!this.key
+  }
+
+  /**
+   * Gets where the encryption key comes from.
+   *
+   * @returns `passphrase`, `keyfile`, or undefined if the config is not encrypted
+   */
+  getEncryptionSource(): IEncryptionConfig['source'] | undefined {
+    return this.file.encryption?.source
+  }
+
+  /**
+   * Provides the key to decrypt secrets for this process.
+   *
+   * @param source - Passphrase or key file the config was locked with
+   * @returns Result indicating success or a wrong-key error
+   */
+  provideKey(source: ISecretKeySource): Result<void, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
+    const encryption = this.file.encryption
+    if (!encryption) {
+      return ok(undefined)
+    }
+
+    const secretResult = readKeySource(source)
+    if (isErr(secretResult)) {
+      return secretResult
+    }
+
+    const key = deriveKey(secretResult.value, encryption.salt)
+    if (decryptValue(encryption.check, key) !== KEY_CHECK) {
+      return err({
+        code: AppErrorCode.CONFIG_ERROR,
+        message: 'passphrase' in source ? 'Wrong passphrase' : 'Key file does not match the config',
+      })
+    }
+
+    this.key = key
+    return ok(undefined)
+  }
+
+  /**
+   * Encrypts a secret stored outside the config file (e.g. a bot token in a
+   * run checkpoint) with the config key.
+   *
+   * @param value - Plaintext secret
+   * @returns Result with the encrypted value (the plaintext if the config is
+   *   not locked), or error if the config is locked and its key was not provided
+   */
+  sealSecret(value: string): Result<string, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
+    if (!this.file.encryption) {
+      return ok(value)
+    }
+    if (!this.key) {
+      return err({ code: AppErrorCode.CONFIG_ERROR, message: LOCKED_MESSAGE })
+    }
+    return ok(encryptValue(value, this.key))
+  }
+
+  /**
+   * Decrypts a value encrypted with {@link ConfigService.sealSecret}.
+   *
+   * @param value - Stored value (plaintext values are returned as they are)
+   * @returns Result with the plaintext, or error without the key it was encrypted with
+   */
+  openSecret(value: string): Result<string, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
+    if (!isEncryptedValue(value)) {
+      return ok(value)
+    }
+
+    const plaintext = this.key && decryptValue(value, this.key)
+    if (plaintext === undefined) {
+      return err({
+        code: AppErrorCode.CONFIG_ERROR,
+        message: this.file.encryption && !this.key
+          ? LOCKED_MESSAGE
+          : 'Secret was encrypted with another config key',
+      })
+    }
+    return ok(plaintext)
+  }
+
+  /**
+   * Encrypts the secrets of every profile.
+   *
+   * @param source - Passphrase, or key file whose path is recorded so later
+   * runs decrypt without prompting
+   * @returns Result indicating success or error
+   */
+  lock(source: ISecretKeySource): Result<void, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
+    if (this.file.encryption) {
+      return err({
+        code: AppErrorCode.CONFIG_ERROR,
+        message: 'Config is already locked: use `mbf config rekey` to change the key',
+      })
+    }
+
+    const secretResult = readKeySource(source)
+    if (isErr(secretResult)) {
+      return secretResult
+    }
+
+    this.encryptSecrets(secretResult.value, source)
+    fileLog.info('CONFIG', 'Config locked', { source: 'passphrase' in source ? 'passphrase' : 'keyfile' })
     return this.save()
   }
 
+  /**
+   * Decrypts the secrets of every profile and stores them in plain text.
+   *
+   * @returns Result indicating success or error
+   */
+  unlock(): Result<void, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
+    const decryptResult = this.decryptSecrets()
+    if (isErr(decryptResult)) {
+      return decryptResult
+    }
+
+    fileLog.info('CONFIG', 'Config unlocked')
+    return this.save()
+  }
+
+  /**
+   * Re-encrypts the secrets with a new passphrase or key file.
+   *
+   * @param source - New passphrase or key file
+   * @returns Result indicating success or error
+   */
+  rekey(source: ISecretKeySource): Result<void, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
+    const secretResult = readKeySource(source)
+    if (isErr(secretResult)) {
+      return secretResult
+    }
+
+    const decryptResult = this.decryptSecrets()
+    if (isErr(decryptResult)) {
+      return decryptResult
+    }
+
+    this.encryptSecrets(secretResult.value, source)
+    fileLog.info('CONFIG', 'Config rekeyed', { source: 'passphrase' in source ? 'passphrase' : 'keyfile' })
+    return this.save()
+  }
+
+  /**
+   * Encrypts every plaintext secret with a new key and records the key check.
+   *
+   * @param secret - Passphrase or key file contents
+   * @param source - Where the secret came from
+   */
+  private encryptSecrets(secret: string, source: ISecretKeySource): void {
+    const salt = generateSalt()
+    const key = deriveKey(secret, salt)
+
+    for (const entry of this.secretEntries()) {
+      if (!isEncryptedValue(entry.value)) {
+        entry.section[entry.field] = encryptValue(entry.value, key)
+      }
+    }
+    this.file.encryption = {
+      source: 'passphrase' in source ? 'passphrase' : 'keyfile',
+      salt,
+      check: encryptValue(KEY_CHECK, key),
+      ...('keyFile' in source && { keyFile: resolve(source.keyFile) }),
+    }
+    this.key = key
+  }
+
+  /**
+   * Decrypts every secret in place and removes the encryption settings.
+   *
+   * @returns Result indicating success, or error if locked or a value cannot be decrypted
+   */
+  private decryptSecrets(): Result<void, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
+    if (!this.file.encryption) {
+      return err({ code: AppErrorCode.CONFIG_ERROR, message: 'Config is not locked' })
+    }
+
+    const key = this.key
+    if (!key) {
+      return err({ code: AppErrorCode.CONFIG_ERROR, message: LOCKED_MESSAGE })
+    }
+
+    const entries = this.secretEntries().map((entry) => ({
+      ...entry,
+      plaintext: isEncryptedValue(entry.value) ? decryptValue(entry.value, key) : entry.value,
+    }))
+
+    const failed = entries.filter((entry) => entry.plaintext === undefined)
+    if (failed.length > 0) {
+      return err({
+        code: AppErrorCode.CONFIG_ERROR,
+        message: `Cannot decrypt ${failed.map((entry) => entry.path).join(', ')}`,
+      })
+    }
+
+    for (const entry of entries) {
+      entry.section[entry.field] = entry.plaintext
+    }
+    delete this.file.encryption
+    this.key = undefined
+    return ok(undefined)
+  }
+
+  /**
+   * Lists the stored secret values of every profile.
+   *
+   * @returns Entries with the section holding each value, for in-place updates
+   */
+  private secretEntries(): Array<{
+    path: string
+    section: Record<string, unknown>
+    field: string
+    value: string
+  }> {
+    const entries = []
+
+    for (const profile of this.listProfiles()) {
+      const stored = this.storedProfile(profile) as Record<string, Record<string, unknown> | undefined>
+      for (const secretKey of SECRET_CONFIG_KEYS) {
+        const [sectionName, field] = secretKey.split('.') as [string, string]
+        const section = stored[sectionName]
+        const value = section?.[field]
+        if (section && typeof value === 'string') {
+          entries.push({ path: `${profile}:${secretKey}`, section, field, value })
+        }
+      }
+    }
+
+    return entries
+  }
+
+  /**
+   * Decrypts secrets with `MBF_KEY_FILE`, the recorded key file or
+   * `MBF_PASSPHRASE`, when available.
+   */
+  private unlockFromEnvironment(): void {
+    const encryption = this.file.encryption
+    if (!encryption) {
+      return
+    }
+
+    const keyFile = process.env['MBF_KEY_FILE'] || encryption.keyFile
+    const passphrase = process.env['MBF_PASSPHRASE']
+    const source: ISecretKeySource | undefined =
+      encryption.source === 'keyfile'
+        ? keyFile ? { keyFile } : undefined
+        : passphrase ? { passphrase } : undefined
+
+    if (!source) {
+      log.debug('Config is locked and no key is available')
+      return
+    }
+
+    const result = this.provideKey(source)
+    if (isErr(result)) {
+      log.warn(`Cannot decrypt config secrets: ${result.error.message}`)
+    }
+  }
+
   /**
    * Gets the configured GitHub token.
    *
@@ -228,6 +1036,47 @@ export class ConfigService {
     return ok(undefined)
   }
 
+  /**
+   * Gets the configured GitHub App credentials.
+   *
+   * The private key is `github.appPrivateKey`, else read from
+   * `github.appPrivateKeyPath`.
+   *
+   * @returns Result with the credentials, undefined when no app is
+   * configured, or error if the configuration is incomplete or the key
+   * file cannot be read
+   */
+  getGitHubApp(): Result<IGitHubAppCredentials | undefined, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
+    const { appId, appInstallationId: installationId, appPrivateKey, appPrivateKeyPath } = this.config.github ?? {}
+    if (!appId && !installationId && !appPrivateKey && !appPrivateKeyPath) {
+      return ok(undefined)
+    }
+
+    if (!appId || !installationId || (!appPrivateKey && !appPrivateKeyPath)) {
+      return err({
+        code: AppErrorCode.CONFIG_ERROR,
+        message:
+          'Incomplete GitHub App configuration: set github.appId, github.appInstallationId ' +
+          'and github.appPrivateKey or github.appPrivateKeyPath',
+      })
+    }
+
+    if (appPrivateKey) {
+      return ok({ appId, installationId, privateKey: appPrivateKey })
+    }
+
+    const keyPath = resolve(appPrivateKeyPath!)
+    const privateKey = tryCatch(() => readFileSync(keyPath, 'utf-8'), AppErrorCode.CONFIG_ERROR)
+    if (isErr(privateKey)) {
+      return err({
+        code: AppErrorCode.CONFIG_ERROR,
+        message: `Cannot read GitHub App private key ${keyPath}: ${privateKey.error.message}`,
+      })
+    }
+
+    return ok({ appId, installationId, privateKey: privateKey.value })
+  }
+
   /**
    * Gets the configured Coolify URL.
    * Checks config file first, then falls back to environment variable.
@@ -305,3 +1154,144 @@ export function getConfigService(): ConfigService {
   }
   return instance
 }
+
+/**
+ * Reads the secret a key is derived from.
+ *
+ * @param source - Passphrase or key file
+ * @returns Result with the passphrase or key file contents
+ */
+function readKeySource(source: ISecretKeySource): Result<string, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
+  if ('passphrase' in source) {
+    if (!source.passphrase) {
+      return err({ code: AppErrorCode.CONFIG_ERROR, message: 'Passphrase cannot be empty' })
+    }
+    return ok(source.passphrase)
+  }
+
+  if (!existsSync(source.keyFile)) {
+    return err({ code: AppErrorCode.CONFIG_ERROR, message: `Key file not found: ${source.keyFile}` })
+  }
+
+  const keyFile = source.keyFile
+  const read = tryCatch(() => readFileSync(keyFile, 'utf-8'), AppErrorCode.CONFIG_ERROR)
+  if (isErr(read)) {
+    return err({ code: AppErrorCode.CONFIG_ERROR, message: `Cannot read key file ${keyFile}: ${read.error.message}` })
+  }
+
+  const contents = read.value.trim()
+  if (!contents) {
+    return err({ code: AppErrorCode.CONFIG_ERROR, message: `Key file is empty: ${source.keyFile}` })
+  }
+  return ok(contents)
+}
+
+/**
+ * Gets the `MBF_*` environment variable for a config key.
+ *
+ * @param key - Dot-notation key (e.g. `github.defaultOrg`)
+ * @returns Variable name (e.g. `MBF_GITHUB_DEFAULT_ORG`)
+ */
+export function configEnvVarName(key: string): string {
+  return 'MBF_' + key.replace('.', '_').replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase()
+}
+
+/**
+ * Converts a textual value to the type of a config key and validates it.
+ *
+ * @param key - Dot-notation key
+ * @param value - Value as text
+ * @returns Result with the typed value or error
+ */
+function parseConfigValue(
+  key: string,
+  value: string
+): Result<string | number | boolean, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
+  const valueType = CONFIG_KEY_TYPES[key]
+  if (!valueType) {
+    return err({ code: AppErrorCode.CONFIG_ERROR, message: `Unknown config key: ${key}` })
+  }
+
+  let typed: string | number | boolean = value
+
+  if (valueType === 'number') {
+    typed = Number(value)
+    if (!value.trim() || !Number.isInteger(typed)) {
+      return err({ code: AppErrorCode.CONFIG_ERROR, message: `${key} must be a number` })
+    }
+  }
+
+  if (valueType === 'boolean') {
+    if (value !== 'true' && value !== 'false') {
+      return err({ code: AppErrorCode.CONFIG_ERROR, message: `${key} must be true or false` })
+    }
+    typed = value === 'true'
+  }
+
+  const [section, field] = key.split('.') as [string, string]
+  const result = ConfigSchema({ [section]: { [field]: typed } })
+  if (result instanceof type.errors) {
+    return err({ code: AppErrorCode.CONFIG_ERROR, message: `Invalid ${key}: ${result.summary}` })
+  }
+
+  return ok(typed)
+}
+
+/** Invalid `MBF_*` variables already warned about */
+const ignoredEnvVars = new Set<string>()
+
+/**
+ * Reads the `MBF_*` environment variables of the known config keys.
+ *
+ * Invalid values are ignored with a warning.
+ *
+ * @returns Values and the variable each key came from
+ */
+function readEnvironmentConfig(): { config: IConfig; sources: Record<string, string> } {
+  const config: Record<string, Record<string, unknown>> = {}
+  const sources: Record<string, string> = {}
+
+  for (const key of Object.keys(CONFIG_KEY_TYPES)) {
+    const name = configEnvVarName(key)
+    const raw = process.env[name]
+    if (raw === undefined || raw === '') {
+      continue
+    }
+
+    const parsed = parseConfigValue(key, raw)
+    if (isErr(parsed)) {
+      if (!ignoredEnvVars.has(name)) {
+        ignoredEnvVars.add(name)
+        log.warn(`Ignoring ${name}: ${parsed.error.message}`)
+      }
+      continue
+    }
+
+    const [section, field] = key.split('.') as [string, string]
+    config[section] = { ...config[section], [field]: parsed.value }
+    sources[key] = name
+  }
+
+  return { config: config as IConfig, sources }
+}
+
+/**
+ * Finds the nearest project config file.
+ *
+ * @param from - Directory to start from
+ * @returns Path, or undefined if no directory up to the root has one
+ */
+function findProjectConfig(from: string): string | undefined {
+  let dir = resolve(from)
+  for (;;) {
+    const candidate = join(dir, PROJECT_CONFIG_FILE)
+    if (existsSync(candidate)) {
+      return candidate
+    }
+    const parent = dirname(dir)
+    if (parent === dir) {
+      return undefined
+    }
+    dir = parent
+  }
+}
@@ -0,0 +1,308 @@
+/**
+ * Coolify deploy target for mks-bot-father.
+ *
+ * @module
+ */
+
+import { ok, err, isErr, type Result, type ResultError } from '@mks2508/no-throw'
+import { getConfigService } from './config.service.js'
+import { getCoolifyService } from './coolify.service.js'
+import {
+  type IDeployApp,
+  type IDeployAppOptions,
+  type IDeployTarget,
+  type IDeployTargetDeployOptions,
+  DeployTarget,
+  GitHost,
+} from '../types/index.js'
+import { AppErrorCode } from '../types/errors.js'
+import type { IProgressCallback } from '../types/progress.types.js'
+
+/**
+ * Deploys applications to Coolify.
+ *
+ * Adapts {@link CoolifyService} to {@link IDeployTarget}: application IDs
+ * are Coolify UUIDs. GitHub repositories go through Coolify's GitHub
+ * integration; repositories on other git hosts are cloned by URL, over SSH
+ * with the `coolify.privateKeyUuid` deploy key when private.
+ *
+ * @example
+ * ```typescript
+ * const coolify = getCoolifyDeployTarget()
+ * const initResult = await coolify.init()
+ * if (isOk(initResult)) {
+ *   await coolify.restart('app-uuid')
+ * }
+ * ```
+ */
+export class CoolifyDeployTarget implements IDeployTarget {
+  readonly target = DeployTarget.Coolify
+  private coolifyService = getCoolifyService()
+  private configService = getConfigService()
+
+  /**
+   * Checks if the Coolify URL and token are configured.
+   *
+   * @returns True if configured
+   */
+  isConfigured(): boolean {
+    return !!this.configService.getCoolifyUrl() && !!this.configService.getCoolifyToken()
+  }
+
+  /**
+   * Initializes the Coolify service.
+   *
+   * @returns Result indicating success or error
+   */
+  async init(): Promise<Result<void, ResultError<typeof AppErrorCode.COOLIFY_ERROR>>> {
+    return this.coolifyService.init()
+  }
+
+  /**
+   * Coolify applications are served on their configured domain.
+   *
+   * @returns Always true
+   */
+  hasPublicUrl(): boolean {
+    return true
+  }
+
+  /**
+   * Creates the application from its repository.
+   *
+   * The server, destination, project and environment default to the
+   * `coolify.default*` config.
+   *
+   * @param options - Application options (`repository` is required)
+   * @param onProgress - Optional progress callback
+   * @returns Result with the application UUID and dashboard URL or error
+   */
+  async createApp(
+    options: IDeployAppOptions,
+    onProgress?: IProgressCallback
+  ): Promise<Result<IDeployApp, ResultError<typeof AppErrorCode.COOLIFY_ERROR>>> {
+    const config = this.configService.get()
+    const serverUuid = options.serverUuid || config.coolify?.defaultServer
+    const destinationUuid = options.destinationUuid || config.coolify?.defaultDestination
+    const projectUuid = options.projectUuid || config.coolify?.defaultProject
+    const environmentUuid = options.environmentUuid || config.coolify?.defaultEnvironment
+
+    if (!serverUuid || !destinationUuid || !projectUuid || !environmentUuid) {
+      return err({
+        code: AppErrorCode.COOLIFY_ERROR,
+        message: 'Coolify server, destination, project and environment not configured',
+      })
+    }
+
+    const { repository } = options
+    if (!repository) {
+      return err({ code: AppErrorCode.COOLIFY_ERROR, message: 'Repository URL not available' })
+    }
+
+    const target = {
+      name: options.name,
+      description: options.description,
+      serverUuid,
+      destinationUuid,
+      projectUuid,
+      environmentUuid,
+    }
+
+    let appResult: Result<{ uuid?: string }, ResultError<typeof AppErrorCode.COOLIFY_ERROR>>
+    if (repository.host === GitHost.GitHub) {
+      appResult = await this.coolifyService.createApplication(
+        { ...target, githubRepoUrl: repository.url },
+        onProgress
+      )
+    } else {
+      // Coolify clones other hosts by URL: HTTPS for public repositories,
+      // SSH with a deploy key for private ones
+      const privateKeyUuid = config.coolify?.privateKeyUuid
+      if (repository.private && !privateKeyUuid) {
+        return err({
+          code: AppErrorCode.COOLIFY_ERROR,
+          message: 'Private repositories need a Coolify deploy key (set coolify.privateKeyUuid)',
+        })
+      }
+
+      const repoUrl = repository.private ? repository.sshUrl : repository.url
+      if (!repoUrl) {
+        return err({ code: AppErrorCode.COOLIFY_ERROR, message: 'Repository SSH URL not available' })
+      }
+
+      appResult = await this.coolifyService.createGitApplication(
+        { ...target, repoUrl, privateKeyUuid: repository.private ? privateKeyUuid : undefined },
+        onProgress
+      )
+    }
+
+    if (isErr(appResult)) {
+      return err(appResult.error)
+    }
+
+    if (!appResult.value.uuid) {
+      return err({ code: AppErrorCode.COOLIFY_ERROR, message: 'No application UUID returned' })
+    }
+
+    return ok({
+      id: appResult.value.uuid,
+      location: `${config.coolify?.url}/project/${serverUuid}/application/${appResult.value.uuid}`,
+    })
+  }
+
+  /**
+   * Sets environment variables on the application.
+   *
+   * @param appId - Application UUID
+   * @param envVars - Variables to set
+   * @returns Result indicating success or error
+   */
+  async setEnv(
+    appId: string,
+    envVars: Record<string, string>
+  ): Promise<Result<void, ResultError<typeof AppErrorCode.COOLIFY_ERROR>>> {
+    return this.coolifyService.setEnvironmentVariables(appId, envVars)
+  }
+
+  /**
+   * Triggers a deployment and, with `wait`, waits for the build to finish.
+   *
+   * @param appId - Application UUID
+   * @param options - Deploy options
+   * @param onProgress - Optional progress callback
+   * @returns Result indicating success or error
+   */
+  async deploy(
+    appId: string,
+    options: IDeployTargetDeployOptions = {},
+    onProgress?: IProgressCallback
+  ): Promise<Result<void, ResultError<typeof AppErrorCode.COOLIFY_ERROR>>> {
+    // Triggering takes the whole range, or 0-25% when waiting for the build
+    const triggerShare = options.wait ? 0.25 : 1
+    const deployResult = await this.coolifyService.deploy({ uuid: appId }, (pct, msg, step) =>
+      onProgress?.(Math.round(pct * triggerShare), msg, step)
+    )
+    if (isErr(deployResult)) {
+      return err(deployResult.error)
+    }
+
+    if (options.wait && deployResult.value.deploymentUuid) {
+      const waitResult = await this.coolifyService.waitForDeployment(deployResult.value.deploymentUuid, {
+        onProgress: (pct, msg, step) => onProgress?.(25 + Math.round(pct * 0.75), msg, step),
+      })
+      if (isErr(waitResult)) {
+        return err(waitResult.error)
+      }
+    }
+
+    return ok(undefined)
+  }
+
+  /**
+   * Gets the Coolify status of the application (e.g. `running:healthy`).
+   *
+   * @param appId - Application UUID
+   * @returns Result with the status or error
+   */
+  async getStatus(appId: string): Promise<Result<string, ResultError<typeof AppErrorCode.COOLIFY_ERROR>>> {
+    return this.coolifyService.getApplicationStatus(appId)
+  }
+
+  /**
+   * Gets the latest log lines of the application.
+   *
+   * @param appId - Application UUID
+   * @param tail - Number of lines (default 100)
+   * @returns Result with the log lines or error
+   */
+  async getLogs(
+    appId: string,
+    tail = 100
+  ): Promise<Result<string[], ResultError<typeof AppErrorCode.COOLIFY_ERROR>>> {
+    const result = await this.coolifyService.getApplicationLogs(appId, { tail })
+    return isErr(result) ? result : ok(result.value.logs)
+  }
+
+  /**
+   * Gets the first domain of the application.
+   *
+   * @param appId - Application UUID
+   * @returns Result with the URL (undefined if no domain is configured) or error
+   */
+  async getAppUrl(
+    appId: string
+  ): Promise<Result<string | undefined, ResultError<typeof AppErrorCode.COOLIFY_ERROR>>> {
+    return this.coolifyService.getApplicationUrl(appId)
+  }
+
+  /**
+   * Starts the application.
+   *
+   * @param appId - Application UUID
+   * @returns Result indicating success or error
+   */
+  async start(appId: string): Promise<Result<void, ResultError<typeof AppErrorCode.COOLIFY_ERROR>>> {
+    const result = await this.coolifyService.startApplication(appId)
+    return isErr(result) ? result : ok(undefined)
+  }
+
+  /**
+   * Stops the application.
+   *
+   * @param appId - Application UUID
+   * @returns Result indicating success or error
+   */
+  async stop(appId: string): Promise<Result<void, ResultError<typeof AppErrorCode.COOLIFY_ERROR>>> {
+    const result = await this.coolifyService.stopApplication(appId)
+    return isErr(result) ? result : ok(undefined)
+  }
+
+  /**
+   * Restarts the application.
+   *
+   * @param appId - Application UUID
+   * @returns Result indicating success or error
+   */
+  async restart(appId: string): Promise<Result<void, ResultError<typeof AppErrorCode.COOLIFY_ERROR>>> {
+    const result = await this.coolifyService.restartApplication(appId)
+    return isErr(result) ? result : ok(undefined)
+  }
+
+  /**
+   * Deletes the application.
+   *
+   * @param appId - Application UUID
+   * @returns Result indicating success or error
+   */
+  async deleteApp(appId: string): Promise<Result<void, ResultError<typeof AppErrorCode.COOLIFY_ERROR>>> {
+    const result = await this.coolifyService.deleteApplication(appId)
+    return isErr(result) ? result : ok(undefined)
+  }
+
+  /**
+   * Finds the application with a name.
+   *
+   * @param name - Application name
+   * @returns Result with the UUID (undefined if not found) or error
+   */
+  async findApp(
+    name: string
+  ): Promise<Result<string | undefined, ResultError<typeof AppErrorCode.COOLIFY_ERROR>>> {
+    const result = await this.coolifyService.listApplications()
+    return isErr(result) ? result : ok(result.value.find((app) => app.name === name)?.uuid)
+  }
+}
+
+let instance: CoolifyDeployTarget | null = null
+
+/**
+ * Gets the singleton CoolifyDeployTarget instance.
+ *
+ * @returns The CoolifyDeployTarget instance
+ */
+export function getCoolifyDeployTarget(): CoolifyDeployTarget {
+  if (!instance) {
+    instance = new CoolifyDeployTarget()
+  }
+  return instance
+}
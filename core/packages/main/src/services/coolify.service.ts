@@ -10,7 +10,7 @@
  * @module
  */
 
-import { ok, err, isErr, type Result, type ResultError } from '@mks2508/no-throw'
+import { ok, err, isErr, tryCatch, type Result, type ResultError } from '@mks2508/no-throw'
 import { createLogger, log as fileLog } from '../utils/index.js'
 import { getConfigService } from './config.service.js'
 import { getCoolifyService as getCoolifyMcpService } from '@mks2508/coolify-mks-cli-mcp'
@@ -30,11 +30,51 @@ import type {
   ICoolifyTeam,
   ICoolifyUpdateOptions,
 } from '@mks2508/coolify-mks-cli-mcp'
-import { type IProgressCallback } from '../types/index.js'
+import {
+  DeploymentStatus,
+  type ICoolifyGitAppOptions,
+  type IDeploymentInfo,
+  type IDeploymentLogLine,
+  type IProgressCallback,
+  type IWaitForDeploymentOptions,
+} from '../types/index.js'
 import { AppErrorCode } from '../types/errors.js'
 
 const log = createLogger('CoolifyService')
 
+/** Default time {@link CoolifyService.waitForDeployment} waits */
+const DEFAULT_DEPLOYMENT_TIMEOUT_MS = 10 * 60 * 1000
+
+/** Default time between deployment status polls */
+const DEFAULT_DEPLOYMENT_POLL_INTERVAL_MS = 3000
+
+/** Consecutive failed polls after which waiting gives up */
+const MAX_FAILED_DEPLOYMENT_POLLS = 3
+
+/**
+ * Deployment as returned by `GET /api/v1/deployments/{uuid}`.
+ */
+interface ICoolifyDeploymentResponse {
+  deployment_uuid?: string
+  application_id?: string
+  status: string
+  /** JSON-encoded array of log entries */
+  logs?: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+/**
+ * Log entry inside {@link ICoolifyDeploymentResponse.logs}.
+ */
+interface ICoolifyDeploymentLogEntry {
+  output: string
+  type?: string
+  timestamp?: string
+  hidden?: boolean
+  order?: number
+}
+
 /**
  * Coolify service for deployment operations.
  *
@@ -168,6 +208,151 @@ export class CoolifyService {
     return ok(result.value)
   }
 
+  /**
+   * Gets the status and build log of a deployment.
+   *
+   * @param deploymentUuid - Deployment UUID returned by {@link CoolifyService.deploy}
+   * @returns Result with the deployment state or error
+   */
+  async getDeployment(
+    deploymentUuid: string
+  ): Promise<Result<IDeploymentInfo, ResultError<typeof AppErrorCode.COOLIFY_ERROR>>> {
+    const result = await this.request<ICoolifyDeploymentResponse>(
+      `/api/v1/deployments/${deploymentUuid}`
+    )
+
+    if (isErr(result)) {
+      fileLog.error('COOLIFY', 'Get deployment failed', {
+        deploymentUuid,
+        error: result.error.message
+      })
+      return result
+    }
+
+    const deployment = result.value
+    return ok({
+      deploymentUuid: deployment.deployment_uuid ?? deploymentUuid,
+      applicationUuid: deployment.application_id,
+      status: deployment.status,
+      logs: parseDeploymentLogs(deployment.logs),
+      createdAt: deployment.created_at,
+      updatedAt: deployment.updated_at,
+    })
+  }
+
+  /**
+   * Waits for a deployment to finish, streaming its build log.
+   *
+   * Polls the deployment until it is finished, failed or cancelled. New log
+   * lines are passed to `onLog` and `onProgress` as they appear. A few
+   * consecutive poll errors are tolerated so a network blip does not abort
+   * a long build.
+   *
+   * @param deploymentUuid - Deployment UUID returned by {@link CoolifyService.deploy}
+   * @param options - Timeout, poll interval and callbacks
+   * @returns Result with the finished deployment, or error if it failed, was cancelled or timed out
+   *
+   * @example
+   * ```typescript
+   * const deployResult = await coolify.deploy({ uuid: 'app-uuid' })
+   * if (isOk(deployResult)) {
+   *   const result = await coolify.waitForDeployment(deployResult.value.deploymentUuid, {
+   *     timeout: 10 * 60_000,
+   *     onLog: (line) => console.log(line.output),
+   *   })
+   *   if (isErr(result)) {
+   *     console.error(result.error.message)
+   *   }
+   * }
+   * ```
+   */
+  async waitForDeployment(
+    deploymentUuid: string,
+    options: IWaitForDeploymentOptions = {}
+  ): Promise<Result<IDeploymentInfo, ResultError<typeof AppErrorCode.COOLIFY_ERROR>>> {
+    const startTime = Date.now()
+    const timeout = options.timeout ?? DEFAULT_DEPLOYMENT_TIMEOUT_MS
+    const pollInterval = options.pollInterval ?? DEFAULT_DEPLOYMENT_POLL_INTERVAL_MS
+    const shortId = deploymentUuid.slice(0, 8)
+    let seenLines = 0
+    let failedPolls = 0
+    let lastStatus: string | undefined
+
+    log.info(`Waiting for deployment ${deploymentUuid}`)
+    fileLog.info('COOLIFY', 'Waiting for deployment', { deploymentUuid, timeout, pollInterval })
+    options.onProgress?.(0, `Waiting for deployment ${shortId}...`, 'queued')
+
+    while (true) {
+      const result = await this.getDeployment(deploymentUuid)
+
+      if (isErr(result)) {
+        failedPolls++
+        if (failedPolls >= MAX_FAILED_DEPLOYMENT_POLLS) {
+          return err({
+            code: AppErrorCode.COOLIFY_ERROR,
+            message: `Cannot read deployment ${deploymentUuid}: ${result.error.message}`,
+          })
+        }
+        log.warn(`Polling deployment ${shortId} failed, retrying: ${result.error.message}`)
+      } else {
+        failedPolls = 0
+        const deployment = result.value
+        const progress = deploymentProgress(deployment.status)
+
+        for (const line of deployment.logs.slice(seenLines)) {
+          options.onLog?.(line)
+          options.onProgress?.(progress, line.output, 'build_log')
+        }
+        seenLines = Math.max(seenLines, deployment.logs.length)
+
+        if (deployment.status !== lastStatus) {
+          lastStatus = deployment.status
+          options.onProgress?.(progress, `Deployment ${shortId}: ${deployment.status}`, deployment.status)
+        }
+
+        if (deployment.status === DeploymentStatus.Finished) {
+          log.success(`Deployment finished: ${deploymentUuid}`)
+          fileLog.info('COOLIFY', 'Deployment finished', {
+            deploymentUuid,
+            duration_ms: Date.now() - startTime
+          })
+          return ok(deployment)
+        }
+
+        if (
+          deployment.status === DeploymentStatus.Failed ||
+          deployment.status === DeploymentStatus.Cancelled
+        ) {
+          const outcome = deployment.status === DeploymentStatus.Failed ? 'failed' : 'was cancelled'
+          log.error(`Deployment ${deploymentUuid} ${outcome}`)
+          fileLog.error('COOLIFY', 'Deployment did not finish', {
+            deploymentUuid,
+            status: deployment.status,
+            duration_ms: Date.now() - startTime
+          })
+          return err({
+            code: AppErrorCode.COOLIFY_ERROR,
+            message: `Deployment ${deploymentUuid} ${outcome}`,
+          })
+        }
+      }
+
+      if (Date.now() - startTime + pollInterval >= timeout) {
+        fileLog.error('COOLIFY', 'Timed out waiting for deployment', {
+          deploymentUuid,
+          status: lastStatus,
+          duration_ms: Date.now() - startTime
+        })
+        return err({
+          code: AppErrorCode.COOLIFY_ERROR,
+          message: `Timed out after ${Math.round(timeout / 1000)}s waiting for deployment ${deploymentUuid} (status: ${lastStatus ?? 'unknown'})`,
+        })
+      }
+
+      await sleep(pollInterval)
+    }
+  }
+
   /**
    * Creates a new application in Coolify.
    *
@@ -223,6 +408,75 @@ export class CoolifyService {
     return ok(result.value)
   }
 
+  /**
+   * Creates an application from a repository on any git host, for hosts
+   * the GitHub integration of Coolify does not cover.
+   *
+   * Public repositories are cloned over HTTPS; with `privateKeyUuid` the
+   * repository is cloned over SSH with that Coolify private key, which must
+   * be registered as a deploy key on the repository.
+   *
+   * @param options - Application options
+   * @param onProgress - Optional progress callback (0-100, message, step)
+   * @returns Result with application UUID or error
+   */
+  async createGitApplication(
+    options: ICoolifyGitAppOptions,
+    onProgress?: IProgressCallback
+  ): Promise<Result<{ uuid: string }, ResultError<typeof AppErrorCode.COOLIFY_ERROR>>> {
+    const startTime = Date.now()
+    const source = options.privateKeyUuid ? 'private-deploy-key' : 'public'
+
+    log.info(`Creating application ${options.name}`)
+    fileLog.info('COOLIFY', 'Creating application', {
+      name: options.name,
+      serverUuid: options.serverUuid,
+      destinationUuid: options.destinationUuid,
+      repoUrl: options.repoUrl,
+      source
+    })
+
+    onProgress?.(35, `Setting up Git: ${options.repoUrl}`, 'setup_git')
+    onProgress?.(65, 'Sending creation request to Coolify API...', 'api_request')
+
+    const result = await this.request<{ uuid?: string }>(`/api/v1/applications/${source}`, {
+      method: 'POST',
+      body: JSON.stringify({
+        project_uuid: options.projectUuid,
+        server_uuid: options.serverUuid,
+        environment_uuid: options.environmentUuid,
+        destination_uuid: options.destinationUuid,
+        ...(options.privateKeyUuid && { private_key_uuid: options.privateKeyUuid }),
+        git_repository: options.repoUrl,
+        git_branch: options.branch || 'main',
+        build_pack: 'nixpacks',
+        ports_exposes: '3000',
+        name: options.name,
+        description: options.description,
+      }),
+    })
+
+    if (isErr(result) || !result.value.uuid) {
+      const message = isErr(result) ? result.error.message : 'No application UUID returned'
+      log.error(`Failed to create application: ${message}`)
+      fileLog.error('COOLIFY', 'Failed to create application', {
+        name: options.name,
+        error: message
+      })
+      return err({ code: AppErrorCode.COOLIFY_ERROR, message })
+    }
+
+    onProgress?.(100, `✓ Application "${options.name}" created`, 'done')
+
+    log.success(`Application created: ${result.value.uuid}`)
+    fileLog.info('COOLIFY', 'Application created', {
+      name: options.name,
+      uuid: result.value.uuid,
+      duration_ms: Date.now() - startTime
+    })
+    return ok({ uuid: result.value.uuid })
+  }
+
   /**
    * Sets environment variables for an application.
    *
@@ -289,6 +543,65 @@ export class CoolifyService {
     return ok(result.value)
   }
 
+  /**
+   * Gets the public URL of an application (its first configured domain).
+   *
+   * @param appUuid - Application UUID
+   * @returns Result with the URL (undefined if no domain is configured) or error
+   */
+  async getApplicationUrl(
+    appUuid: string
+  ): Promise<Result<string | undefined, ResultError<typeof AppErrorCode.COOLIFY_ERROR>>> {
+    const result = await this.request<{ fqdn?: string | null }>(`/api/v1/applications/${appUuid}`)
+
+    if (isErr(result)) {
+      fileLog.error('COOLIFY', 'Get application URL failed', {
+        appUuid,
+        error: result.error.message
+      })
+      return result
+    }
+
+    const domain = result.value.fqdn
+      ?.split(',')
+      .map((entry) => entry.trim())
+      .find(Boolean)
+    return ok(domain?.replace(/\/+$/, ''))
+  }
+
+  /**
+   * Gets the environment variables of an application.
+   *
+   * Coolify only returns values to API tokens allowed to read sensitive
+   * data; without that permission the values are undefined.
+   *
+   * @param appUuid - Application UUID
+   * @returns Result with the production (non-preview) variables or error
+   */
+  async getEnvironmentVariables(
+    appUuid: string
+  ): Promise<Result<Record<string, string | undefined>, ResultError<typeof AppErrorCode.COOLIFY_ERROR>>> {
+    const result = await this.request<Array<{ key: string; value?: string | null; is_preview?: boolean }>>(
+      `/api/v1/applications/${appUuid}/envs`
+    )
+
+    if (isErr(result)) {
+      fileLog.error('COOLIFY', 'Get environment variables failed', {
+        appUuid,
+        error: result.error.message
+      })
+      return result
+    }
+
+    return ok(
+      Object.fromEntries(
+        result.value
+          .filter((variable) => !variable.is_preview)
+          .map((variable) => [variable.key, variable.value ?? undefined])
+      )
+    )
+  }
+
   /**
    * Lists available servers in Coolify.
    *
@@ -313,6 +626,44 @@ export class CoolifyService {
     return ok(result.value)
   }
 
+  /**
+   * Gets the version of the Coolify instance.
+   *
+   * @returns Result with the version (e.g. `4.0.0-beta.420`) or error
+   */
+  async getVersion(): Promise<Result<string, ResultError<typeof AppErrorCode.COOLIFY_ERROR>>> {
+    const result = await this.request<unknown>('/api/v1/version')
+    if (isErr(result)) {
+      fileLog.error('COOLIFY', 'Get version failed', { error: result.error.message })
+      return result
+    }
+    return ok(String(result.value).trim())
+  }
+
+  /**
+   * Gets an environment of a project.
+   *
+   * @param projectUuid - Project UUID
+   * @param environment - Environment UUID or name
+   * @returns Result with the environment or error (e.g. not found)
+   */
+  async getProjectEnvironment(
+    projectUuid: string,
+    environment: string
+  ): Promise<Result<{ uuid: string; name: string }, ResultError<typeof AppErrorCode.COOLIFY_ERROR>>> {
+    const result = await this.request<{ uuid: string; name: string }>(
+      `/api/v1/projects/${projectUuid}/${environment}`
+    )
+    if (isErr(result)) {
+      fileLog.error('COOLIFY', 'Get project environment failed', {
+        projectUuid,
+        environment,
+        error: result.error.message
+      })
+    }
+    return result
+  }
+
   /**
    * Gets details of a specific server.
    *
@@ -700,6 +1051,106 @@ export class CoolifyService {
     })
     return ok(result.value)
   }
+
+  /**
+   * Makes a request to the Coolify API for endpoints the MCP client does
+   * not cover.
+   *
+   * @param endpoint - API path (starting with `/api/v1`)
+   * @param options - Fetch options (GET by default)
+   * @returns Result with the parsed response body or error
+   */
+  private async request<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<Result<T, ResultError<typeof AppErrorCode.COOLIFY_ERROR>>> {
+    const baseUrl = this.config.getCoolifyUrl()
+    const token = this.config.getCoolifyToken()
+
+    if (!baseUrl || !token) {
+      return err({ code: AppErrorCode.COOLIFY_ERROR, message: 'Coolify URL and token not configured' })
+    }
+
+    try {
+      const response = await fetch(`${baseUrl.replace(/\/+$/, '')}${endpoint}`, {
+        ...options,
+        headers: {
+          Accept: 'application/json',
+          Authorization: `Bearer ${token}`,
+          ...(options.body && { 'Content-Type': 'application/json' }),
+        },
+      })
+
+      const text = await response.text()
+      // A few endpoints (e.g. /version) answer with plain text
+      const parsed = tryCatch(() => JSON.parse(text) as unknown, AppErrorCode.COOLIFY_ERROR)
+      const data = !text ? {} : isErr(parsed) ? text : parsed.value
+
+      if (!response.ok) {
+        const message = (data as { message?: string }).message || `HTTP ${response.status}`
+        return err({ code: AppErrorCode.COOLIFY_ERROR, message })
+      }
+
+      return ok(data as T)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return err({ code: AppErrorCode.COOLIFY_ERROR, message })
+    }
+  }
+}
+
+/**
+ * Parses the JSON-encoded build log of a deployment, dropping hidden entries.
+ *
+ * @param logs - `logs` field of the deployment
+ * @returns Visible log lines, in order
+ */
+function parseDeploymentLogs(logs: string | null | undefined): IDeploymentLogLine[] {
+  if (!logs) {
+    return []
+  }
+
+  const parsed = tryCatch(() => JSON.parse(logs) as ICoolifyDeploymentLogEntry[], AppErrorCode.COOLIFY_ERROR)
+  if (isErr(parsed) || !Array.isArray(parsed.value)) {
+    return []
+  }
+
+  return parsed.value
+    .filter((entry) => !entry.hidden)
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+    .map((entry) => ({
+      output: entry.output,
+      type: entry.type === 'stderr' ? 'stderr' : 'stdout',
+      timestamp: entry.timestamp,
+    }))
+}
+
+/**
+ * Maps a deployment status to a progress percentage.
+ *
+ * @param status - Deployment status
+ * @returns Progress (0-100)
+ */
+function deploymentProgress(status: string): number {
+  switch (status) {
+    case DeploymentStatus.Queued:
+      return 10
+    case DeploymentStatus.InProgress:
+      return 50
+    case DeploymentStatus.Finished:
+      return 100
+    default:
+      return 90
+  }
+}
+
+/**
+ * Waits for a duration.
+ *
+ * @param ms - Milliseconds to wait
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
 }
 
 let instance: CoolifyService | null = null
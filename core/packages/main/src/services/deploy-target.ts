@@ -0,0 +1,53 @@
+/**
+ * Deploy target selection.
+ *
+ * @module
+ */
+
+import { getCoolifyDeployTarget } from './coolify-deploy-target.js'
+import { getDockerComposeService } from './docker-compose.service.js'
+import { type IConfig, type IDeployTarget, DeployTarget } from '../types/index.js'
+
+/**
+ * Display names of the deploy targets.
+ */
+export const DEPLOY_TARGET_LABELS: Record<DeployTarget, string> = {
+  [DeployTarget.Coolify]: 'Coolify',
+  [DeployTarget.DockerCompose]: 'Compose',
+}
+
+/**
+ * Checks if a value names a supported deploy target.
+ *
+ * @param value - Value to check (e.g. a CLI flag)
+ * @returns True for `coolify` and `docker-compose`
+ */
+export function isDeployTarget(value: string): value is DeployTarget {
+  return (Object.values(DeployTarget) as string[]).includes(value)
+}
+
+/**
+ * Gets the implementation of a deploy target.
+ *
+ * @param target - Deploy target
+ * @returns The target's singleton
+ */
+export function getDeployTarget(target: DeployTarget): IDeployTarget {
+  switch (target) {
+    case DeployTarget.DockerCompose:
+      return getDockerComposeService()
+    default:
+      return getCoolifyDeployTarget()
+  }
+}
+
+/**
+ * Resolves the deploy target to use.
+ *
+ * @param target - Target chosen for this bot (e.g. `--deploy-target`)
+ * @param config - Resolved configuration
+ * @returns The chosen target, else `deploy.target`, else Coolify
+ */
+export function resolveDeployTarget(target: DeployTarget | undefined, config: IConfig): DeployTarget {
+  return target ?? config.deploy?.target ?? DeployTarget.Coolify
+}
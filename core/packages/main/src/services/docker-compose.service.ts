@@ -0,0 +1,621 @@
+/**
+ * Docker Compose deploy target for mks-bot-father.
+ *
+ * @module
+ */
+
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { join, resolve } from 'node:path'
+import { ok, err, isErr, tryCatch, tryCatchAsync, type Result, type ResultError } from '@mks2508/no-throw'
+import { createLogger, log as fileLog } from '../utils/index.js'
+import { CONFIG_DIR, getConfigService } from './config.service.js'
+import {
+  type IDeployApp,
+  type IDeployAppOptions,
+  type IDeployTarget,
+  type IDeployTargetDeployOptions,
+  DeployTarget,
+} from '../types/index.js'
+import { AppErrorCode } from '../types/errors.js'
+import type { IProgressCallback } from '../types/progress.types.js'
+
+const log = createLogger('DockerComposeService')
+
+/** Directory holding one compose project per bot when `deploy.composeDir` is not set */
+export const DEFAULT_COMPOSE_DIR = join(CONFIG_DIR, 'deployments')
+
+/** Compose file name inside each project directory */
+export const COMPOSE_FILE = 'compose.yaml'
+
+/** Environment file the bot service reads */
+const ENV_FILE = '.env'
+
+/** Image that runs projects without a Dockerfile */
+const BUN_IMAGE = 'oven/bun:1'
+
+/** Port the bot template serves webhook updates on */
+const BOT_PORT = 3000
+
+/** Valid compose project names, which are also the project directory names */
+const COMPOSE_PROJECT_NAME = /^[a-z0-9][a-z0-9_-]*$/
+
+/** Values written to `.env` without quotes */
+const PLAIN_ENV_VALUE = /^[\w./:@+-]*$/
+
+/**
+ * Output of a docker command.
+ */
+interface IDockerOutput {
+  exitCode: number
+  stdout: string
+  stderr: string
+}
+
+/**
+ * Options for {@link buildComposeFile}.
+ */
+export interface IComposeFileOptions {
+  /** Compose project name */
+  name: string
+  /** Absolute path to the bot project */
+  projectPath: string
+  /** Build the project's Dockerfile instead of running it with Bun */
+  dockerfile: boolean
+  /** External network shared with a reverse proxy */
+  network?: string
+}
+
+/**
+ * Builds the compose file of a bot.
+ *
+ * Projects with a Dockerfile are built from it; the others are mounted
+ * into the Bun image and started with `bun install && bun run start`. The
+ * bot reads its variables from the `.env` next to the compose file.
+ *
+ * @param options - Compose file options
+ * @returns Compose file contents
+ */
+export function buildComposeFile(options: IComposeFileOptions): string {
+  const lines = [
+    `# Generated by mks-bot-father for ${options.name}`,
+    `name: ${options.name}`,
+    'services:',
+    '  bot:',
+  ]
+
+  if (options.dockerfile) {
+    lines.push('    build:', `      context: ${JSON.stringify(options.projectPath)}`)
+  } else {
+    lines.push(
+      `    image: ${BUN_IMAGE}`,
+      '    working_dir: /app',
+      '    volumes:',
+      `      - ${JSON.stringify(`${options.projectPath}:/app`)}`,
+      '    command: ["sh", "-c", "bun install && bun run start"]'
+    )
+  }
+
+  lines.push(`    env_file: ${ENV_FILE}`, '    restart: unless-stopped', `    expose: ["${BOT_PORT}"]`)
+
+  if (options.network) {
+    // The proxy reaches the bot at <name>:3000
+    const network = JSON.stringify(options.network)
+    lines.push(
+      '    networks:',
+      '      default: {}',
+      `      ${network}:`,
+      `        aliases: [${options.name}]`,
+      'networks:',
+      `  ${network}:`,
+      '    external: true'
+    )
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Deploys bots as Docker Compose projects on the local machine.
+ *
+ * Each bot gets a directory under `deploy.composeDir` (default
+ * `~/.config/mks-bot-father/deployments`) holding a generated
+ * `compose.yaml` and the `.env` with its variables, managed with the
+ * `docker compose` CLI. Application IDs are the compose project names.
+ *
+ * Bots are only reachable from Telegram when `deploy.composePublicUrl` is
+ * set (e.g. `https://{{name}}.bots.example.com`) and a reverse proxy on
+ * the `deploy.composeNetwork` network routes it to the bot.
+ *
+ * @example
+ * ```typescript
+ * const compose = getDockerComposeService()
+ * const appResult = await compose.createApp({ name: 'my-bot', projectPath: './my-bot' })
+ * if (isOk(appResult)) {
+ *   await compose.deploy(appResult.value.id)
+ * }
+ * ```
+ */
+export class DockerComposeService implements IDeployTarget {
+  readonly target = DeployTarget.DockerCompose
+  private configService = getConfigService()
+
+  /**
+   * Docker Compose only needs the local docker CLI.
+   *
+   * @returns Always true
+   */
+  isConfigured(): boolean {
+    return true
+  }
+
+  /**
+   * Checks that `docker compose` is available.
+   *
+   * @returns Result indicating success or error
+   */
+  async init(): Promise<Result<void, ResultError<typeof AppErrorCode.DEPLOY_ERROR>>> {
+    const result = await this.compose(['version'])
+    if (isErr(result)) {
+      return err({
+        code: AppErrorCode.DEPLOY_ERROR,
+        message: `Docker Compose not available: ${result.error.message}`,
+      })
+    }
+    return ok(undefined)
+  }
+
+  /**
+   * Checks if `deploy.composePublicUrl` is set.
+   *
+   * @returns True if bots get a public URL
+   */
+  hasPublicUrl(): boolean {
+    return !!this.configService.get().deploy?.composePublicUrl
+  }
+
+  /**
+   * Writes the compose project of a bot, replacing an existing compose
+   * file and keeping an existing `.env`.
+   *
+   * @param options - Application options (`projectPath` is required)
+   * @param onProgress - Optional progress callback
+   * @returns Result with the project name and compose file path or error
+   */
+  async createApp(
+    options: IDeployAppOptions,
+    onProgress?: IProgressCallback
+  ): Promise<Result<IDeployApp, ResultError<typeof AppErrorCode.DEPLOY_ERROR>>> {
+    if (!options.projectPath || !existsSync(options.projectPath)) {
+      return err({ code: AppErrorCode.DEPLOY_ERROR, message: 'Project path not available' })
+    }
+
+    const id = composeProjectName(options.name)
+    const dirResult = this.projectDir(id)
+    if (isErr(dirResult)) {
+      return dirResult
+    }
+
+    const projectPath = resolve(options.projectPath)
+    const dir = dirResult.value
+    const composeFile = join(dir, COMPOSE_FILE)
+    fileLog.info('COMPOSE', 'Creating compose project', { id, projectPath, composeFile })
+
+    onProgress?.(10, `Writing ${composeFile}`, 'compose_file')
+    const written = tryCatch(() => {
+      mkdirSync(dir, { recursive: true })
+      writeFileSync(
+        composeFile,
+        buildComposeFile({
+          name: id,
+          projectPath,
+          dockerfile: existsSync(join(projectPath, 'Dockerfile')),
+          network: this.configService.get().deploy?.composeNetwork,
+        })
+      )
+      const envFile = join(dir, ENV_FILE)
+      if (!existsSync(envFile)) {
+        writeFileSync(envFile, '', { mode: 0o600 })
+      }
+    }, AppErrorCode.DEPLOY_ERROR)
+    if (isErr(written)) {
+      return written
+    }
+
+    log.success(`Compose project created: ${id}`)
+    onProgress?.(100, `Compose project ${id} created`, 'done')
+    return ok({ id, location: composeFile })
+  }
+
+  /**
+   * Merges variables into the project's `.env`.
+   *
+   * @param appId - Compose project name
+   * @param envVars - Variables to set
+   * @returns Result indicating success or error
+   */
+  async setEnv(
+    appId: string,
+    envVars: Record<string, string>
+  ): Promise<Result<void, ResultError<typeof AppErrorCode.DEPLOY_ERROR>>> {
+    const dirResult = this.existingProjectDir(appId)
+    if (isErr(dirResult)) {
+      return dirResult
+    }
+
+    const envFile = join(dirResult.value, ENV_FILE)
+    return tryCatch(() => {
+      const current = existsSync(envFile) ? parseEnvFile(readFileSync(envFile, 'utf-8')) : {}
+      writeFileSync(envFile, formatEnvFile({ ...current, ...envVars }), { mode: 0o600 })
+      fileLog.info('COMPOSE', 'Environment variables set', { appId, varCount: Object.keys(envVars).length })
+    }, AppErrorCode.DEPLOY_ERROR)
+  }
+
+  /**
+   * Builds and starts the project with `docker compose up`.
+   *
+   * @param appId - Compose project name
+   * @param options - Deploy options (`wait` waits for the container to be running)
+   * @param onProgress - Optional progress callback
+   * @returns Result indicating success or error
+   */
+  async deploy(
+    appId: string,
+    options: IDeployTargetDeployOptions = {},
+    onProgress?: IProgressCallback
+  ): Promise<Result<void, ResultError<typeof AppErrorCode.DEPLOY_ERROR>>> {
+    const startTime = Date.now()
+    onProgress?.(10, `Building and starting ${appId}`, 'compose_up')
+
+    const result = await this.composeProject(appId, ['up', '-d', '--build', ...(options.wait ? ['--wait'] : [])])
+    if (isErr(result)) {
+      log.error(`Deployment failed: ${result.error.message}`)
+      return result
+    }
+
+    log.success(`Deployed ${appId}`)
+    fileLog.info('COMPOSE', 'Project deployed', { appId, duration_ms: Date.now() - startTime })
+    onProgress?.(100, `${appId} is up`, 'done')
+    return ok(undefined)
+  }
+
+  /**
+   * Gets the state of the bot container (e.g. `running`, `exited`).
+   *
+   * @param appId - Compose project name
+   * @returns Result with the state, `stopped` when no container exists, or error
+   */
+  async getStatus(appId: string): Promise<Result<string, ResultError<typeof AppErrorCode.DEPLOY_ERROR>>> {
+    const result = await this.composeProject(appId, ['ps', '--all', '--format', '{{.State}}'])
+    if (isErr(result)) {
+      return result
+    }
+    return ok(result.value.split('\n').find(Boolean) ?? 'stopped')
+  }
+
+  /**
+   * Gets the latest log lines of the project.
+   *
+   * @param appId - Compose project name
+   * @param tail - Number of lines (default 100)
+   * @returns Result with the log lines or error
+   */
+  async getLogs(
+    appId: string,
+    tail = 100
+  ): Promise<Result<string[], ResultError<typeof AppErrorCode.DEPLOY_ERROR>>> {
+    const result = await this.composeProject(appId, ['logs', '--no-color', '--tail', String(tail)])
+    return isErr(result) ? result : ok(result.value.split('\n').filter(Boolean))
+  }
+
+  /**
+   * Gets the public URL from the `deploy.composePublicUrl` template.
+   *
+   * @param appId - Compose project name
+   * @returns Result with the URL (undefined if no template is set)
+   */
+  async getAppUrl(
+    appId: string
+  ): Promise<Result<string | undefined, ResultError<typeof AppErrorCode.DEPLOY_ERROR>>> {
+    const template = this.configService.get().deploy?.composePublicUrl
+    return ok(template?.replaceAll('{{name}}', appId).replace(/\/+$/, ''))
+  }
+
+  /**
+   * Starts the project's stopped containers.
+   *
+   * @param appId - Compose project name
+   * @returns Result indicating success or error
+   */
+  async start(appId: string): Promise<Result<void, ResultError<typeof AppErrorCode.DEPLOY_ERROR>>> {
+    const result = await this.composeProject(appId, ['start'])
+    return isErr(result) ? result : ok(undefined)
+  }
+
+  /**
+   * Stops the project's containers.
+   *
+   * @param appId - Compose project name
+   * @returns Result indicating success or error
+   */
+  async stop(appId: string): Promise<Result<void, ResultError<typeof AppErrorCode.DEPLOY_ERROR>>> {
+    const result = await this.composeProject(appId, ['stop'])
+    return isErr(result) ? result : ok(undefined)
+  }
+
+  /**
+   * Recreates the project's containers so they pick up `.env` changes
+   * (`docker compose restart` keeps the old environment).
+   *
+   * @param appId - Compose project name
+   * @returns Result indicating success or error
+   */
+  async restart(appId: string): Promise<Result<void, ResultError<typeof AppErrorCode.DEPLOY_ERROR>>> {
+    const result = await this.composeProject(appId, ['up', '-d', '--force-recreate'])
+    return isErr(result) ? result : ok(undefined)
+  }
+
+  /**
+   * Removes the project's containers and its directory.
+   *
+   * @param appId - Compose project name
+   * @returns Result indicating success or error (none if the project does not exist)
+   */
+  async deleteApp(appId: string): Promise<Result<void, ResultError<typeof AppErrorCode.DEPLOY_ERROR>>> {
+    const dirResult = this.projectDir(appId)
+    if (isErr(dirResult)) {
+      return dirResult
+    }
+
+    const dir = dirResult.value
+    if (!existsSync(join(dir, COMPOSE_FILE))) {
+      return ok(undefined)
+    }
+
+    const result = await this.composeProject(appId, ['down', '--remove-orphans'])
+    if (isErr(result)) {
+      return result
+    }
+
+    log.success(`Compose project deleted: ${appId}`)
+    fileLog.info('COMPOSE', 'Project deleted', { appId })
+    return tryCatch(() => rmSync(dir, { recursive: true, force: true }), AppErrorCode.DEPLOY_ERROR)
+  }
+
+  /**
+   * Finds the compose project of a bot.
+   *
+   * @param name - Bot name
+   * @returns Result with the project name (undefined if it has no compose file)
+   */
+  async findApp(
+    name: string
+  ): Promise<Result<string | undefined, ResultError<typeof AppErrorCode.DEPLOY_ERROR>>> {
+    const id = composeProjectName(name)
+    const dirResult = this.projectDir(id)
+    if (isErr(dirResult)) {
+      return dirResult
+    }
+    return ok(existsSync(join(dirResult.value, COMPOSE_FILE)) ? id : undefined)
+  }
+
+  /**
+   * Gets the path of a bot's compose file, whether or not it exists.
+   *
+   * @param name - Bot name
+   * @returns Compose file path, or undefined if the name gives no valid project name
+   */
+  getComposeFile(name: string): string | undefined {
+    const dirResult = this.projectDir(composeProjectName(name))
+    return isErr(dirResult) ? undefined : join(dirResult.value, COMPOSE_FILE)
+  }
+
+  /**
+   * Gets the directory of a compose project.
+   *
+   * Project names are checked so an application ID (e.g. `--app`) cannot
+   * point outside `deploy.composeDir`.
+   *
+   * @param appId - Compose project name
+   * @returns Result with the directory path, or error if the name is invalid
+   */
+  private projectDir(appId: string): Result<string, ResultError<typeof AppErrorCode.DEPLOY_ERROR>> {
+    if (!COMPOSE_PROJECT_NAME.test(appId)) {
+      return err({
+        code: AppErrorCode.DEPLOY_ERROR,
+        message: appId ? `Invalid compose project name ${appId}` : 'Empty compose project name',
+      })
+    }
+    return ok(join(this.configService.get().deploy?.composeDir || DEFAULT_COMPOSE_DIR, appId))
+  }
+
+  /**
+   * Gets the directory of a compose project that must exist.
+   *
+   * @param appId - Compose project name
+   * @returns Result with the directory path, or error if it has no compose file
+   */
+  private existingProjectDir(appId: string): Result<string, ResultError<typeof AppErrorCode.DEPLOY_ERROR>> {
+    const dirResult = this.projectDir(appId)
+    if (isErr(dirResult)) {
+      return dirResult
+    }
+    if (!existsSync(join(dirResult.value, COMPOSE_FILE))) {
+      return err({ code: AppErrorCode.DEPLOY_ERROR, message: `No compose project named ${appId}` })
+    }
+    return dirResult
+  }
+
+  /**
+   * Runs a `docker compose` command against a project.
+   *
+   * @param appId - Compose project name
+   * @param args - Arguments after `docker compose -p <name> -f <file>`
+   * @returns Result with the trimmed standard output or error
+   */
+  private async composeProject(
+    appId: string,
+    args: string[]
+  ): Promise<Result<string, ResultError<typeof AppErrorCode.DEPLOY_ERROR>>> {
+    const dirResult = this.existingProjectDir(appId)
+    if (isErr(dirResult)) {
+      return dirResult
+    }
+    return this.compose(args, ['-p', appId, '-f', join(dirResult.value, COMPOSE_FILE)], dirResult.value)
+  }
+
+  /**
+   * Runs a `docker compose` command.
+   *
+   * @param args - Subcommand and its arguments
+   * @param projectArgs - Project selection arguments placed before the subcommand
+   * @param cwd - Working directory
+   * @returns Result with the trimmed standard output or error
+   */
+  private async compose(
+    args: string[],
+    projectArgs: string[] = [],
+    cwd?: string
+  ): Promise<Result<string, ResultError<typeof AppErrorCode.DEPLOY_ERROR>>> {
+    const outputResult = await tryCatchAsync(
+      () => runDocker(['compose', ...projectArgs, ...args], cwd),
+      AppErrorCode.DEPLOY_ERROR
+    )
+    if (isErr(outputResult)) {
+      return outputResult
+    }
+
+    const output = outputResult.value
+    if (output.exitCode !== 0) {
+      const message = `docker compose ${args[0]} failed: ${output.stderr || output.stdout || `exit code ${output.exitCode}`}`
+      fileLog.error('COMPOSE', 'Command failed', { args, error: message })
+      return err({ code: AppErrorCode.DEPLOY_ERROR, message })
+    }
+    return ok(output.stdout)
+  }
+}
+
+/**
+ * Derives a compose project name from a bot name (lowercase letters,
+ * digits, `-` and `_`, starting with a letter or digit).
+ *
+ * @param name - Bot name
+ * @returns Compose project name (empty if the name has no letters or digits)
+ */
+export function composeProjectName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '-')
+    .replace(/^[^a-z0-9]+/, '')
+}
+
+/**
+ * Parses a `.env` file written by {@link formatEnvFile}.
+ *
+ * @param text - File contents
+ * @returns Variables by name
+ */
+function parseEnvFile(text: string): Record<string, string> {
+  const vars: Record<string, string> = {}
+  for (const line of text.split('\n')) {
+    const match = /^\s*([\w.-]+)\s*=(.*)$/.exec(line)
+    if (!match) {
+      continue
+    }
+    const value = match[2]!.trim()
+    vars[match[1]!] = unquoteEnvValue(value)
+  }
+  return vars
+}
+
+/**
+ * Reads a `.env` value, removing its quotes and escapes.
+ *
+ * @param value - Value as written in the file
+ * @returns Value
+ */
+function unquoteEnvValue(value: string): string {
+  if (value.length < 2 || value[0] !== value[value.length - 1]) {
+    return value
+  }
+  if (value.startsWith("'")) {
+    return value.slice(1, -1)
+  }
+  if (value.startsWith('"')) {
+    return value
+      .slice(1, -1)
+      .replace(/\\([nr"\\])|\$\$/g, (_escape, char?: string) =>
+        char === 'n' ? '\n' : char === 'r' ? '\r' : char ?? '$'
+      )
+  }
+  return value
+}
+
+/**
+ * Formats variables as a `.env` file.
+ *
+ * Compose interpolates `$VAR` in unquoted and double-quoted values, so other
+ * values are single-quoted, which Compose reads literally. Values that
+ * cannot be single-quoted (with a `'` or a line break) are double-quoted
+ * with `$` doubled and line breaks escaped, keeping one variable per line.
+ *
+ * @param vars - Variables by name
+ * @returns File contents
+ */
+function formatEnvFile(vars: Record<string, string>): string {
+  return Object.entries(vars)
+    .map(([key, value]) => `${key}=${quoteEnvValue(value)}`)
+    .join('\n')
+    .concat('\n')
+}
+
+/**
+ * Quotes a value for a `.env` file, as described in {@link formatEnvFile}.
+ *
+ * @param value - Value
+ * @returns Value as written in the file
+ */
+function quoteEnvValue(value: string): string {
+  if (PLAIN_ENV_VALUE.test(value)) {
+    return value
+  }
+  if (!/['\r\n]/.test(value)) {
+    return `'${value}'`
+  }
+  const escaped = value
+    .replace(/["\\]/g, '\\$&')
+    .replaceAll('\n', '\\n')
+    .replaceAll('\r', '\\r')
+    .replaceAll('$', '$$$$')
+  return `"${escaped}"`
+}
+
+/**
+ * Runs a docker command.
+ *
+ * @param args - Arguments after `docker`
+ * @param cwd - Working directory
+ * @returns Exit code and trimmed output
+ */
+async function runDocker(args: string[], cwd?: string): Promise<IDockerOutput> {
+  const proc = Bun.spawn(['docker', ...args], { cwd, stdout: 'pipe', stderr: 'pipe' })
+  const [stdout, stderr, exitCode] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ])
+  return { exitCode, stdout: stdout.trim(), stderr: stderr.trim() }
+}
+
+let instance: DockerComposeService | null = null
+
+/**
+ * Gets the singleton DockerComposeService instance.
+ *
+ * @returns The DockerComposeService instance
+ */
+export function getDockerComposeService(): DockerComposeService {
+  if (!instance) {
+    instance = new DockerComposeService()
+  }
+  return instance
+}
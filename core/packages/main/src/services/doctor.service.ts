@@ -0,0 +1,628 @@
+/**
+ * Environment diagnostics service for mks-bot-father.
+ *
+ * @module
+ */
+
+import { existsSync, statfsSync } from 'node:fs'
+import { dirname, join, resolve } from 'node:path'
+import { ok, err, isOk, isErr, type Result, type ResultError } from '@mks2508/no-throw'
+import { createLogger, log as fileLog } from '../utils/index.js'
+import { getConfigService } from './config.service.js'
+import { getGitHubService } from './github.service.js'
+import { getCoolifyService } from './coolify.service.js'
+import { getBotFatherService } from './botfather.service.js'
+import {
+  DoctorCheckStatus,
+  type IDoctorCheck,
+  type IDoctorOptions,
+  type IDoctorReport,
+} from '../types/index.js'
+import { AppErrorCode } from '../types/errors.js'
+
+const log = createLogger('DoctorService')
+
+/** OAuth scopes the pipeline needs to create and push repositories */
+const REQUIRED_GITHUB_SCOPES = ['repo']
+
+/** OAuth scopes needed by optional features, with the feature */
+const OPTIONAL_GITHUB_SCOPES: Record<string, string> = {
+  delete_repo: 'deleting repositories on --rollback',
+  workflow: 'pushing the generated CI workflow',
+}
+
+/** GitHub App permissions needed to create repositories and push */
+const REQUIRED_APP_PERMISSIONS = ['administration', 'contents']
+
+/** GitHub App permissions needed by optional features, with the feature */
+const OPTIONAL_APP_PERMISSIONS: Record<string, string> = {
+  secrets: 'storing the bot token as an Actions secret',
+  workflows: 'pushing the generated CI workflow',
+}
+
+/** Free space below which scaffolding is likely to fail */
+const MIN_FREE_BYTES = 512 * 1024 * 1024
+
+/** Free space below which a warning is shown */
+const LOW_FREE_BYTES = 2 * 1024 * 1024 * 1024
+
+/** Bot token format issued by BotFather */
+const BOT_TOKEN_PATTERN = /^\d+:[A-Za-z0-9_-]{30,}$/
+
+/**
+ * Output of a finished command.
+ */
+interface ICommandOutput {
+  exitCode: number
+  stdout: string
+}
+
+/**
+ * Runs the checks behind `mbf doctor`.
+ *
+ * Checks the local tools (bun, git, gh), the git identity, the GitHub token
+ * and its scopes, the Coolify API and the configured default
+ * server/destination/project/environment, the Telegram MTProto session, the
+ * `.envs` directory and the free disk space. Every check reports
+ * pass/warn/fail/skip with a remediation hint; nothing is modified.
+ *
+ * @example
+ * ```typescript
+ * const result = await getDoctorService().run({ skipTelegram: true })
+ * if (isOk(result) && !result.value.ok) {
+ *   for (const check of result.value.checks.filter((c) => c.status === 'fail')) {
+ *     console.log(check.title, check.message, check.hint)
+ *   }
+ * }
+ * ```
+ */
+export class DoctorService {
+  private configService = getConfigService()
+  private githubService = getGitHubService()
+  private coolifyService = getCoolifyService()
+  private botFatherService = getBotFatherService()
+
+  /**
+   * Runs every check.
+   *
+   * @param options - Workspace path and checks to skip
+   * @returns Result with the report
+   */
+  async run(options: IDoctorOptions = {}): Promise<Result<IDoctorReport, ResultError<typeof AppErrorCode.UNKNOWN_ERROR>>> {
+    const startTime = Date.now()
+    log.info('Running diagnostics')
+
+    const checks: IDoctorCheck[] = [
+      await this.checkTool('bun', 'Bun', 'Install Bun: https://bun.sh', DoctorCheckStatus.Fail),
+      await this.checkTool('git', 'Git', 'Install git: https://git-scm.com/downloads', DoctorCheckStatus.Fail),
+      await this.checkTool(
+        'gh',
+        'GitHub CLI',
+        'Optional: install gh (https://cli.github.com) to authenticate with `gh auth login`',
+        DoctorCheckStatus.Warn
+      ),
+      await this.checkGitIdentity(),
+      ...(await this.checkGitHub()),
+      ...(await this.checkCoolify()),
+      await this.checkTelegram(options.skipTelegram ?? false),
+      await this.checkEnvs(),
+      ...this.checkDiskSpace(options.workspacePath ?? process.cwd()),
+    ]
+
+    const counts: Record<DoctorCheckStatus, number> = { pass: 0, warn: 0, fail: 0, skip: 0 }
+    for (const check of checks) {
+      counts[check.status]++
+    }
+
+    fileLog.info('DOCTOR', 'Diagnostics finished', {
+      ...counts,
+      failed: checks.filter((check) => check.status === DoctorCheckStatus.Fail).map((check) => check.id),
+      duration_ms: Date.now() - startTime,
+    })
+    return ok({ checks, counts, ok: counts.fail === 0 })
+  }
+
+  /**
+   * Checks that a tool is installed and reports its version.
+   *
+   * @param command - Executable name
+   * @param title - Check title
+   * @param hint - How to install it
+   * @param missingStatus - Status when it is not installed
+   * @returns The check
+   */
+  private async checkTool(
+    command: string,
+    title: string,
+    hint: string,
+    missingStatus: DoctorCheckStatus
+  ): Promise<IDoctorCheck> {
+    const output = await runCommand([command, '--version'])
+    if (!output || output.exitCode !== 0) {
+      return { id: command, title, status: missingStatus, message: `${command} not found`, hint }
+    }
+
+    const version = output.stdout.split('\n')[0]!.trim()
+    return { id: command, title, status: DoctorCheckStatus.Pass, message: version }
+  }
+
+  /**
+   * Checks that git has a user name and email to commit the scaffolded project.
+   *
+   * @returns The check
+   */
+  private async checkGitIdentity(): Promise<IDoctorCheck> {
+    const id = 'git-identity'
+    const title = 'Git identity'
+
+    const name = await runCommand(['git', 'config', '--get', 'user.name'])
+    const email = await runCommand(['git', 'config', '--get', 'user.email'])
+    if (!name && !email) {
+      return { id, title, status: DoctorCheckStatus.Skip, message: 'git not found' }
+    }
+
+    const userName = name?.exitCode === 0 ? name.stdout.trim() : ''
+    const userEmail = email?.exitCode === 0 ? email.stdout.trim() : ''
+    const missing = [!userName && 'user.name', !userEmail && 'user.email'].filter(
+      (key): key is string => !!key
+    )
+
+    if (missing.length > 0) {
+      return {
+        id,
+        title,
+        status: DoctorCheckStatus.Fail,
+        message: `${missing.join(' and ')} not set: the initial commit will fail`,
+        hint: missing.map((key) => `git config --global ${key} "..."`).join(' && '),
+      }
+    }
+
+    return { id, title, status: DoctorCheckStatus.Pass, message: `${userName} <${userEmail}>` }
+  }
+
+  /**
+   * Checks the GitHub token and its scopes.
+   *
+   * @returns The authentication and scopes checks
+   */
+  private async checkGitHub(): Promise<IDoctorCheck[]> {
+    const auth: IDoctorCheck = { id: 'github-auth', title: 'GitHub authentication', status: DoctorCheckStatus.Pass, message: '' }
+    const scopes: IDoctorCheck = { id: 'github-scopes', title: 'GitHub token scopes', status: DoctorCheckStatus.Pass, message: '' }
+
+    const initResult = await this.githubService.init()
+    if (isErr(initResult)) {
+      return [
+        {
+          ...auth,
+          status: DoctorCheckStatus.Fail,
+          message: initResult.error.message,
+          hint: 'mbf config set github.token <token>, or gh auth login',
+        },
+        { ...scopes, status: DoctorCheckStatus.Skip, message: 'No GitHub token' },
+      ]
+    }
+
+    const userResult = await this.githubService.getAuthenticatedUser()
+    if (isErr(userResult)) {
+      return [
+        {
+          ...auth,
+          status: DoctorCheckStatus.Fail,
+          message: `Token rejected: ${userResult.error.message}`,
+          hint: 'Create a new token and set it with mbf config set github.token <token>',
+        },
+        { ...scopes, status: DoctorCheckStatus.Skip, message: 'GitHub authentication failed' },
+      ]
+    }
+    auth.message = `Authenticated as ${userResult.value ?? 'unknown'}`
+
+    const permissions = this.githubService.getAppPermissions()
+    if (permissions) {
+      auth.message = `GitHub App installed on ${userResult.value ?? 'unknown'}`
+      return [auth, checkAppPermissions({ ...scopes, title: 'GitHub App permissions' }, permissions)]
+    }
+
+    const scopesResult = await this.githubService.getTokenScopes()
+    if (isErr(scopesResult)) {
+      return [auth, { ...scopes, status: DoctorCheckStatus.Warn, message: scopesResult.error.message }]
+    }
+
+    const granted = scopesResult.value
+    if (!granted) {
+      return [
+        auth,
+        {
+          ...scopes,
+          message: 'Fine-grained token: scopes are not reported, make sure it has Administration and Contents write access',
+        },
+      ]
+    }
+
+    const missingRequired = REQUIRED_GITHUB_SCOPES.filter((scope) => !granted.includes(scope))
+    if (missingRequired.length > 0) {
+      return [
+        auth,
+        {
+          ...scopes,
+          status: DoctorCheckStatus.Fail,
+          message: `Missing ${missingRequired.join(', ')} (granted: ${granted.join(', ') || 'none'})`,
+          hint: `gh auth refresh -s ${missingRequired.join(',')}, or create a token with these scopes`,
+        },
+      ]
+    }
+
+    const missingOptional = Object.keys(OPTIONAL_GITHUB_SCOPES).filter((scope) => !granted.includes(scope))
+    if (missingOptional.length > 0) {
+      return [
+        auth,
+        {
+          ...scopes,
+          status: DoctorCheckStatus.Warn,
+          message: missingOptional.map((scope) => `Missing ${scope}, needed for ${OPTIONAL_GITHUB_SCOPES[scope]}`).join('; '),
+          hint: `gh auth refresh -s ${missingOptional.join(',')}`,
+        },
+      ]
+    }
+
+    return [auth, { ...scopes, message: granted.join(', ') }]
+  }
+
+  /**
+   * Checks the Coolify API and the configured default resources.
+   *
+   * @returns The API check followed by one check per default resource
+   */
+  private async checkCoolify(): Promise<IDoctorCheck[]> {
+    const api: IDoctorCheck = { id: 'coolify-api', title: 'Coolify API', status: DoctorCheckStatus.Pass, message: '' }
+    const defaults = this.configService.get().coolify ?? {}
+
+    const resources = [
+      { id: 'coolify-server', title: 'Coolify default server', key: 'coolify.defaultServer', uuid: defaults.defaultServer },
+      { id: 'coolify-destination', title: 'Coolify default destination', key: 'coolify.defaultDestination', uuid: defaults.defaultDestination },
+      { id: 'coolify-project', title: 'Coolify default project', key: 'coolify.defaultProject', uuid: defaults.defaultProject },
+      { id: 'coolify-environment', title: 'Coolify default environment', key: 'coolify.defaultEnvironment', uuid: defaults.defaultEnvironment },
+    ]
+    const skipResources = (message: string): IDoctorCheck[] =>
+      resources.map(({ id, title }) => ({ id, title, status: DoctorCheckStatus.Skip, message }))
+
+    if (!this.configService.getCoolifyUrl() || !this.configService.getCoolifyToken()) {
+      return [
+        {
+          ...api,
+          status: DoctorCheckStatus.Warn,
+          message: 'Not configured: deployments are unavailable',
+          hint: 'mbf config set coolify.url <url> && mbf config set coolify.token <token>',
+        },
+        ...skipResources('Coolify not configured'),
+      ]
+    }
+
+    const initResult = await this.coolifyService.init()
+    const versionResult = isOk(initResult) ? await this.coolifyService.getVersion() : initResult
+    if (isErr(versionResult)) {
+      return [
+        {
+          ...api,
+          status: DoctorCheckStatus.Fail,
+          message: `${this.configService.getCoolifyUrl()} unreachable: ${versionResult.error.message}`,
+          hint: 'Check coolify.url and that the API token is valid and has read access',
+        },
+        ...skipResources('Coolify API unavailable'),
+      ]
+    }
+    api.message = `${this.configService.getCoolifyUrl()} (v${versionResult.value.replace(/^v/, '')})`
+
+    const checks: IDoctorCheck[] = [api]
+    for (const resource of resources) {
+      const { id, title, key, uuid } = resource
+      if (!uuid) {
+        checks.push({
+          id,
+          title,
+          status: DoctorCheckStatus.Warn,
+          message: 'Not configured: pass it on every deploy',
+          hint: `mbf config set ${key} <uuid>`,
+        })
+        continue
+      }
+
+      const found = await this.findCoolifyResource(id, uuid, defaults.defaultServer, defaults.defaultProject)
+      if (found === undefined) {
+        checks.push({ id, title, status: DoctorCheckStatus.Skip, message: `${uuid}: parent resource not found` })
+      } else if (isErr(found)) {
+        checks.push({
+          id,
+          title,
+          status: DoctorCheckStatus.Fail,
+          message: `${uuid} not found: ${found.error.message}`,
+          hint: `Set an existing UUID with mbf config set ${key} <uuid>`,
+        })
+      } else {
+        checks.push({ id, title, status: DoctorCheckStatus.Pass, message: `${found.value} (${uuid})` })
+      }
+    }
+
+    return checks
+  }
+
+  /**
+   * Looks a default Coolify resource up.
+   *
+   * @param id - Check id naming the resource type
+   * @param uuid - Resource UUID
+   * @param serverUuid - Default server, owning destinations
+   * @param projectUuid - Default project, owning environments
+   * @returns Result with the resource name, or undefined when its parent is not configured
+   */
+  private async findCoolifyResource(
+    id: string,
+    uuid: string,
+    serverUuid: string | undefined,
+    projectUuid: string | undefined
+  ): Promise<Result<string, ResultError<typeof AppErrorCode.COOLIFY_ERROR>> | undefined> {
+    const notFound = { code: AppErrorCode.COOLIFY_ERROR, message: 'no resource with this UUID' }
+
+    switch (id) {
+      case 'coolify-server': {
+        const result = await this.coolifyService.getServer(uuid)
+        return isOk(result) ? ok(result.value.name) : result
+      }
+      case 'coolify-destination': {
+        if (!serverUuid) {
+          return undefined
+        }
+        const result = await this.coolifyService.getServerDestinations(serverUuid)
+        if (isErr(result)) {
+          return result
+        }
+        const destination = result.value.find((item) => item.uuid === uuid)
+        return destination ? ok(destination.name) : err(notFound)
+      }
+      case 'coolify-project': {
+        const result = await this.coolifyService.listProjects()
+        if (isErr(result)) {
+          return result
+        }
+        const project = result.value.find((item) => item.uuid === uuid)
+        return project ? ok(project.name) : err(notFound)
+      }
+      default: {
+        if (!projectUuid) {
+          return undefined
+        }
+        const result = await this.coolifyService.getProjectEnvironment(projectUuid, uuid)
+        return isOk(result) ? ok(result.value.name) : result
+      }
+    }
+  }
+
+  /**
+   * Checks the Telegram credentials and that the saved MTProto session is authorized.
+   *
+   * @param skip - Do not connect to Telegram
+   * @returns The check
+   */
+  private async checkTelegram(skip: boolean): Promise<IDoctorCheck> {
+    const id = 'telegram-session'
+    const title = 'Telegram session'
+
+    const credentials = this.configService.getTelegramCredentials()
+    if (!credentials.apiId || !credentials.apiHash) {
+      return {
+        id,
+        title,
+        status: DoctorCheckStatus.Fail,
+        message: 'Telegram API credentials not configured: BotFather automation is unavailable',
+        hint: 'mbf config set telegram.apiId <id> && mbf config set telegram.apiHash <hash> (from https://my.telegram.org)',
+      }
+    }
+
+    if (skip) {
+      return { id, title, status: DoctorCheckStatus.Skip, message: 'Skipped (--skip-telegram)' }
+    }
+
+    const initResult = await this.botFatherService.init()
+    if (isErr(initResult)) {
+      return {
+        id,
+        title,
+        status: DoctorCheckStatus.Fail,
+        message: initResult.error.message,
+        hint: 'Check telegram.apiId/apiHash; run mbf create to log in again if the session expired',
+      }
+    }
+
+    await this.botFatherService.disconnect()
+    return { id, title, status: DoctorCheckStatus.Pass, message: `Authorized (API ID ${credentials.apiId})` }
+  }
+
+  /**
+   * Checks that every bot in `.envs` has a well-formed token.
+   *
+   * @returns The check
+   */
+  private async checkEnvs(): Promise<IDoctorCheck> {
+    const id = 'envs'
+    const title = '.envs directory'
+    const envsDir = join(this.botFatherService.getCoreDir(), '.envs')
+
+    if (!existsSync(envsDir)) {
+      return { id, title, status: DoctorCheckStatus.Pass, message: `${envsDir} not created yet (no bots)` }
+    }
+
+    const listResult = await this.botFatherService.listBotEnvs()
+    if (isErr(listResult)) {
+      return {
+        id,
+        title,
+        status: DoctorCheckStatus.Fail,
+        message: `Cannot read ${envsDir}: ${listResult.error.message}`,
+        hint: 'Check the permissions of the directory and the files in it',
+      }
+    }
+
+    const problems: string[] = []
+    for (const bot of listResult.value) {
+      if (bot.environments.length === 0) {
+        problems.push(`@${bot.username}: no environment files`)
+        continue
+      }
+
+      for (const environment of bot.environments) {
+        const envResult = await this.botFatherService.getBotEnv(bot.username, environment)
+        if (isErr(envResult)) {
+          problems.push(`@${bot.username} (${environment}): ${envResult.error.message}`)
+        } else if (!envResult.value?.botToken) {
+          problems.push(`@${bot.username} (${environment}): no bot token`)
+        } else if (!BOT_TOKEN_PATTERN.test(envResult.value.botToken)) {
+          problems.push(`@${bot.username} (${environment}): malformed bot token`)
+        }
+      }
+    }
+
+    if (problems.length > 0) {
+      return {
+        id,
+        title,
+        status: DoctorCheckStatus.Warn,
+        message: problems.join('; '),
+        hint: `Fix or remove the affected files in ${envsDir}`,
+      }
+    }
+
+    return { id, title, status: DoctorCheckStatus.Pass, message: `${listResult.value.length} bots in ${envsDir}` }
+  }
+
+  /**
+   * Checks the free disk space where bots are scaffolded and where `.envs` lives.
+   *
+   * @param workspacePath - Directory bots are scaffolded in
+   * @returns One check per distinct directory
+   */
+  private checkDiskSpace(workspacePath: string): IDoctorCheck[] {
+    const paths = [
+      { id: 'disk-workspace', title: 'Disk space (workspace)', path: resolve(workspacePath) },
+      { id: 'disk-core', title: 'Disk space (.envs)', path: this.botFatherService.getCoreDir() },
+    ]
+
+    return paths.map(({ id, title, path }) => {
+      const existing = nearestExistingDir(path)
+
+      let free: number
+      try {
+        const stats = statfsSync(existing)
+        free = stats.bavail * stats.bsize
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        return { id, title, status: DoctorCheckStatus.Skip, message: `Cannot read free space of ${existing}: ${message}` }
+      }
+
+      const message = `${formatBytes(free)} free in ${existing}`
+      if (free < MIN_FREE_BYTES) {
+        return { id, title, status: DoctorCheckStatus.Fail, message, hint: 'Free up disk space before scaffolding bots' }
+      }
+      if (free < LOW_FREE_BYTES) {
+        return { id, title, status: DoctorCheckStatus.Warn, message, hint: 'Scaffolded projects install their dependencies: keep a few GB free' }
+      }
+      return { id, title, status: DoctorCheckStatus.Pass, message }
+    })
+  }
+}
+
+/**
+ * Runs a command and captures its output.
+ *
+ * @param cmd - Command and arguments
+ * @returns Exit code and stdout, or undefined if the command could not be started
+ */
+async function runCommand(cmd: string[]): Promise<ICommandOutput | undefined> {
+  try {
+    const proc = Bun.spawn(cmd, { stdout: 'pipe', stderr: 'pipe' })
+    const stdout = await new Response(proc.stdout).text()
+    const exitCode = await proc.exited
+    return { exitCode, stdout }
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Finds the closest existing directory, so a path that does not exist yet can be checked.
+ *
+ * @param path - Absolute path
+ * @returns The path or its nearest existing parent
+ */
+function nearestExistingDir(path: string): string {
+  let dir = path
+  while (!existsSync(dir) && dirname(dir) !== dir) {
+    dir = dirname(dir)
+  }
+  return dir
+}
+
+/**
+ * Formats a byte count.
+ *
+ * @param bytes - Byte count
+ * @returns Human-readable size (e.g. `1.5 GB`)
+ */
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB']
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`
+}
+
+/**
+ * Checks the permissions granted to a GitHub App installation.
+ *
+ * @param check - Check to fill in
+ * @param permissions - Granted permissions
+ * @returns The check
+ */
+function checkAppPermissions(check: IDoctorCheck, permissions: Record<string, string>): IDoctorCheck {
+  const missing = (names: string[]) => names.filter((name) => permissions[name] !== 'write')
+  const hint = 'Grant the permissions in the app settings, then accept them on the installation'
+
+  const missingRequired = missing(REQUIRED_APP_PERMISSIONS)
+  if (missingRequired.length > 0) {
+    return {
+      ...check,
+      status: DoctorCheckStatus.Fail,
+      message: `Missing write access to ${missingRequired.join(', ')}`,
+      hint,
+    }
+  }
+
+  const missingOptional = missing(Object.keys(OPTIONAL_APP_PERMISSIONS))
+  if (missingOptional.length > 0) {
+    return {
+      ...check,
+      status: DoctorCheckStatus.Warn,
+      message: missingOptional
+        .map((name) => `Missing ${name} write access, needed for ${OPTIONAL_APP_PERMISSIONS[name]}`)
+        .join('; '),
+      hint,
+    }
+  }
+
+  return { ...check, message: Object.entries(permissions).map(([name, access]) => `${name}:${access}`).join(', ') }
+}
+
+let instance: DoctorService | null = null
+
+/**
+ * Gets the singleton DoctorService instance.
+ *
+ * @returns The DoctorService instance
+ */
+export function getDoctorService(): DoctorService {
+  if (!instance) {
+    instance = new DoctorService()
+  }
+  return instance
+}
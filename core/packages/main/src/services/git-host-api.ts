@@ -0,0 +1,175 @@
+/**
+ * REST client shared by the GitLab and Gitea services.
+ *
+ * @module
+ */
+
+import { ok, err, isErr, type Err, type Result, type ResultError } from '@mks2508/no-throw'
+import { log as fileLog } from '../utils/index.js'
+import { getConfigService } from './config.service.js'
+import { getGitService } from './git.service.js'
+import type { IGitHubPushResult } from '../types/index.js'
+import { AppErrorCode } from '../types/errors.js'
+import type { IProgressCallback } from '../types/progress.types.js'
+
+/**
+ * Error returned by the GitLab and Gitea services.
+ */
+export type GitHostApiError = ResultError<typeof AppErrorCode.GIT_HOST_ERROR>
+
+/**
+ * Git host API response.
+ */
+export interface IGitHostApiResponse<T> {
+  data?: T
+  error?: string
+  status: number
+}
+
+/**
+ * How a git host API is reached.
+ */
+export interface IGitHostApiOptions {
+  /** Display name (e.g. `GitLab`) */
+  label: string
+  /** File log category (e.g. `GITLAB`) */
+  logTag: string
+  /** Path of the API on the instance (e.g. `/api/v4`) */
+  apiPath: string
+  /** Builds the headers that authenticate a request */
+  authHeaders: (token: string) => Record<string, string>
+  /** Gets the message of an error response body (default: its `message`) */
+  errorMessage?: (body: Record<string, unknown>) => string | undefined
+}
+
+/**
+ * Authenticated JSON client for a git host API, with the logging, error
+ * and push handling the GitLab and Gitea services share.
+ *
+ * @example
+ * ```typescript
+ * const api = new GitHostApi({
+ *   label: 'Gitea',
+ *   logTag: 'GITEA',
+ *   apiPath: '/api/v1',
+ *   authHeaders: (token) => ({ Authorization: `token ${token}` }),
+ * })
+ * api.configure('https://git.example.com', token)
+ * const result = await api.request<{ login: string }>('/user')
+ * ```
+ */
+export class GitHostApi {
+  /** Instance URL, without a trailing slash */
+  baseUrl: string | undefined
+  /** Access token */
+  token: string | undefined
+
+  /**
+   * @param options - Host label, API path and authentication
+   */
+  constructor(private readonly options: IGitHostApiOptions) {}
+
+  /**
+   * Sets the instance URL and token.
+   *
+   * @param baseUrl - Instance URL
+   * @param token - Access token
+   */
+  configure(baseUrl: string | undefined, token: string | undefined): void {
+    this.baseUrl = baseUrl?.replace(/\/+$/, '')
+    this.token = token
+  }
+
+  /**
+   * Makes a request to the API.
+   *
+   * @param endpoint - API endpoint (after the API path)
+   * @param init - Fetch options
+   * @returns API response with data or error
+   */
+  async request<T>(endpoint: string, init: RequestInit = {}): Promise<IGitHostApiResponse<T>> {
+    if (!this.baseUrl || !this.token) {
+      return { error: `No ${this.options.label} token`, status: 0 }
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}${this.options.apiPath}${endpoint}`, {
+        ...init,
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+          ...this.options.authHeaders(this.token),
+          ...init.headers,
+        },
+      })
+
+      const data = (await response.json().catch(() => ({}))) as T & Record<string, unknown>
+      if (!response.ok) {
+        const message = this.options.errorMessage
+          ? this.options.errorMessage(data)
+          : typeof data.message === 'string'
+            ? data.message
+            : undefined
+        return { error: message || `HTTP ${response.status}`, status: response.status }
+      }
+
+      return { data, status: response.status }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return { error: message, status: 0 }
+    }
+  }
+
+  /**
+   * Logs a failure to the file log and wraps it in an error result.
+   *
+   * @param event - File log message (e.g. `Failed to delete project`)
+   * @param message - Error message
+   * @param context - Additional file log fields
+   * @returns Error result
+   */
+  fail(event: string, message: string, context: Record<string, unknown> = {}): Err<GitHostApiError> {
+    fileLog.error(this.options.logTag, event, { ...context, error: message })
+    return err({ code: AppErrorCode.GIT_HOST_ERROR, message })
+  }
+
+  /**
+   * Commits a local project and pushes it with the `github.*` commit and
+   * push settings, authenticated with the token.
+   *
+   * @param repoUrl - HTTPS clone URL
+   * @param localPath - Path to the local project
+   * @param branch - Branch to push
+   * @param tokenUser - User name sent along with the token
+   * @param onProgress - Optional progress callback
+   * @returns Result with the pushed commit SHA or error
+   */
+  async push(
+    repoUrl: string,
+    localPath: string,
+    branch: string,
+    tokenUser: string | undefined,
+    onProgress?: IProgressCallback
+  ): Promise<Result<IGitHubPushResult, GitHostApiError>> {
+    const github = getConfigService().get().github
+
+    const result = await getGitService().push(
+      localPath,
+      {
+        remoteUrl: repoUrl,
+        branch,
+        message: github?.commitMessage,
+        author: { name: github?.commitAuthorName, email: github?.commitAuthorEmail },
+        token: this.token,
+        tokenUser,
+        strategy: github?.pushStrategy,
+      },
+      onProgress
+    )
+    if (isErr(result)) {
+      return err({ code: AppErrorCode.GIT_HOST_ERROR, message: result.error.message, cause: result.error.cause })
+    }
+
+    return ok({ success: true, commitSha: result.value.commitSha })
+  }
+}
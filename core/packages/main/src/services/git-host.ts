@@ -0,0 +1,76 @@
+/**
+ * Git host provider selection.
+ *
+ * @module
+ */
+
+import { getGitHubService } from './github.service.js'
+import { getGitLabService } from './gitlab.service.js'
+import { getGiteaService } from './gitea.service.js'
+import { type IConfig, type IGitHostProvider, GitHost } from '../types/index.js'
+
+/**
+ * Display names of the git hosts.
+ */
+export const GIT_HOST_LABELS: Record<GitHost, string> = {
+  [GitHost.GitHub]: 'GitHub',
+  [GitHost.GitLab]: 'GitLab',
+  [GitHost.Gitea]: 'Gitea',
+}
+
+/**
+ * Checks if a value names a supported git host.
+ *
+ * @param value - Value to check (e.g. a CLI flag)
+ * @returns True for `github`, `gitlab` and `gitea`
+ */
+export function isGitHost(value: string): value is GitHost {
+  return (Object.values(GitHost) as string[]).includes(value)
+}
+
+/**
+ * Gets the provider for a git host.
+ *
+ * @param host - Git host
+ * @returns The host's provider singleton
+ */
+export function getGitHostProvider(host: GitHost): IGitHostProvider {
+  switch (host) {
+    case GitHost.GitLab:
+      return getGitLabService()
+    case GitHost.Gitea:
+      return getGiteaService()
+    default:
+      return getGitHubService()
+  }
+}
+
+/**
+ * Resolves the git host to use.
+ *
+ * @param host - Host chosen for this run (e.g. `--git-host`)
+ * @param config - Resolved configuration
+ * @returns The chosen host, else `git.host`, else GitHub
+ */
+export function resolveGitHost(host: GitHost | undefined, config: IConfig): GitHost {
+  return host ?? config.git?.host ?? GitHost.GitHub
+}
+
+/**
+ * Gets the configured repository defaults for a git host.
+ *
+ * GitHub keeps reading `github.defaultOrg` and `github.defaultVisibility`;
+ * the other hosts read `git.defaultOwner` and `git.defaultVisibility`.
+ *
+ * @param host - Git host
+ * @param config - Resolved configuration
+ * @returns Default owner and visibility, if configured
+ */
+export function getGitHostDefaults(
+  host: GitHost,
+  config: IConfig
+): { owner?: string; visibility?: 'public' | 'private' } {
+  return host === GitHost.GitHub
+    ? { owner: config.github?.defaultOrg, visibility: config.github?.defaultVisibility }
+    : { owner: config.git?.defaultOwner, visibility: config.git?.defaultVisibility }
+}
@@ -0,0 +1,341 @@
+/**
+ * Git operations for mks-bot-father.
+ *
+ * @module
+ */
+
+import { basename } from 'node:path'
+import { isErr, tryCatchAsync, type Result, type ResultError } from '@mks2508/no-throw'
+import { createLogger, log as fileLog } from '../utils/index.js'
+import {
+  type IGitAuthor,
+  type IGitPushOptions,
+  type IGitPushResult,
+  GitPushStrategy,
+} from '../types/index.js'
+import { AppErrorCode } from '../types/errors.js'
+import type { IProgressCallback } from '../types/progress.types.js'
+
+const log = createLogger('GitService')
+
+/** Branch pushed when none is given */
+const DEFAULT_BRANCH = 'main'
+
+/** Commit message used when none is given */
+export const DEFAULT_COMMIT_MESSAGE = 'Initial commit from mks-bot-father'
+
+/**
+ * Output of a git command.
+ */
+interface IGitOutput {
+  exitCode: number
+  stdout: string
+  stderr: string
+}
+
+/**
+ * Git operations on local projects.
+ *
+ * Every command's exit code is checked; the first failure aborts the
+ * operation with git's own error message.
+ *
+ * @example
+ * ```typescript
+ * const result = await getGitService().push('./my-bot', {
+ *   remoteUrl: 'https://github.com/acme/my-bot.git',
+ *   token: process.env.GITHUB_TOKEN,
+ * })
+ * if (isOk(result)) {
+ *   console.log('Pushed', result.value.commitSha)
+ * }
+ * ```
+ */
+export class GitService {
+  /**
+   * Commits a project and pushes it to `origin`.
+   *
+   * Initializes the repository if needed and commits the changes (nothing
+   * is committed when the tree is clean but already has commits). An
+   * existing `origin` is reused or repointed to `remoteUrl`. When the
+   * remote branch already has commits, the local commits are rebased onto
+   * it or pushed with `--force-with-lease`, depending on `strategy`.
+   *
+   * The token is passed to git through the environment as an HTTP header,
+   * so it never appears in `.git/config`, the remote URL or the process list.
+   *
+   * @param localPath - Path to the local project
+   * @param options - Remote, branch, commit and authentication options
+   * @param onProgress - Optional progress callback
+   * @returns Result with the pushed commit or error
+   */
+  async push(
+    localPath: string,
+    options: IGitPushOptions = {},
+    onProgress?: IProgressCallback
+  ): Promise<Result<IGitPushResult, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    const startTime = Date.now()
+    const branch = options.branch ?? DEFAULT_BRANCH
+    const strategy = options.strategy ?? GitPushStrategy.Rebase
+    fileLog.info('GIT', 'Pushing project', { localPath, branch, strategy })
+
+    const result = await tryCatchAsync(async () => {
+      const identityEnv = authorEnv(options.author)
+
+      onProgress?.(0, 'Initializing git repository', 'init')
+      await git(['init'], localPath)
+      onProgress?.(15, 'Git initialized', 'init')
+
+      const pathArgs = options.paths ? ['--', ...options.paths] : []
+      await git(['add', '-A', '--', ...(options.paths ?? ['.'])], localPath)
+      onProgress?.(30, 'Files staged', 'stage')
+
+      const staged = await runGit(['diff', '--cached', '--quiet', ...pathArgs], localPath)
+      if (staged.exitCode > 1) {
+        throw new Error(gitErrorMessage(['diff'], staged))
+      }
+
+      let committed = false
+      if (staged.exitCode === 1) {
+        const message = renderCommitMessage(options.message ?? DEFAULT_COMMIT_MESSAGE, localPath, branch)
+        await git(['commit', '-m', message, ...pathArgs], localPath, identityEnv)
+        committed = true
+        onProgress?.(45, 'Changes committed', 'commit')
+      } else {
+        const head = await runGit(['rev-parse', '--verify', '--quiet', 'HEAD'], localPath)
+        if (head.exitCode !== 0) {
+          throw new Error('Nothing to commit')
+        }
+        onProgress?.(45, 'Nothing new to commit', 'commit')
+      }
+
+      await git(['branch', '-M', branch], localPath)
+      onProgress?.(60, `Branch set to ${branch}`, 'branch')
+
+      const remoteUrl = await this.setOrigin(localPath, options.remoteUrl)
+      onProgress?.(75, 'Remote configured', 'remote')
+
+      const env = { ...identityEnv, ...tokenEnv(remoteUrl, options.token, options.tokenUser) }
+      const remoteHead = await git(['ls-remote', '--heads', 'origin', branch], localPath, env)
+      const remoteSha = remoteHead.split(/\s/)[0] || undefined
+
+      const leaseArgs: string[] = []
+      if (remoteSha && strategy === GitPushStrategy.ForceWithLease) {
+        leaseArgs.push(`--force-with-lease=refs/heads/${branch}:${remoteSha}`)
+      } else if (remoteSha) {
+        onProgress?.(80, `Rebasing onto origin/${branch}`, 'rebase')
+        await this.rebaseOnto(localPath, branch, remoteSha, env)
+      }
+
+      onProgress?.(85, 'Pushing to origin...', 'push')
+      await git(['push', '-u', ...leaseArgs, 'origin', branch], localPath, env)
+      const commitSha = await git(['rev-parse', 'HEAD'], localPath)
+
+      onProgress?.(100, 'Code pushed successfully', 'done')
+      log.success(`Pushed ${commitSha.slice(0, 7)} to ${branch}`)
+      fileLog.info('GIT', 'Project pushed', {
+        localPath,
+        branch,
+        commitSha,
+        committed,
+        duration_ms: Date.now() - startTime
+      })
+      return { commitSha, committed }
+    }, AppErrorCode.GITHUB_ERROR)
+
+    if (isErr(result)) {
+      fileLog.error('GIT', 'Failed to push project', {
+        localPath,
+        branch,
+        error: result.error.message,
+        duration_ms: Date.now() - startTime
+      })
+    }
+
+    return result
+  }
+
+  /**
+   * Gets the URL of the `origin` remote.
+   *
+   * @param localPath - Path to the local project
+   * @returns Result with the URL (undefined if the directory is not a git
+   *   repository or has no `origin`) or error
+   */
+  async getOriginUrl(
+    localPath: string
+  ): Promise<Result<string | undefined, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    return tryCatchAsync(async () => {
+      const output = await runGit(['remote', 'get-url', 'origin'], localPath)
+      return output.exitCode === 0 && output.stdout ? output.stdout : undefined
+    }, AppErrorCode.GITHUB_ERROR)
+  }
+
+  /**
+   * Points `origin` at the remote URL, adding the remote if needed.
+   *
+   * @param localPath - Path to the local project
+   * @param remoteUrl - Remote URL, or undefined to keep the existing one
+   * @returns The remote URL
+   */
+  private async setOrigin(localPath: string, remoteUrl: string | undefined): Promise<string> {
+    const current = await runGit(['remote', 'get-url', 'origin'], localPath)
+
+    if (current.exitCode !== 0) {
+      if (!remoteUrl) {
+        throw new Error('No origin remote configured')
+      }
+      await git(['remote', 'add', 'origin', remoteUrl], localPath)
+      return remoteUrl
+    }
+
+    if (remoteUrl && current.stdout !== remoteUrl) {
+      await git(['remote', 'set-url', 'origin', remoteUrl], localPath)
+      return remoteUrl
+    }
+
+    return current.stdout
+  }
+
+  /**
+   * Rebases the local branch onto the remote one, unless it already
+   * contains it. A conflicting rebase is aborted.
+   *
+   * @param localPath - Path to the local project
+   * @param branch - Branch being pushed
+   * @param remoteSha - Commit at the head of the remote branch
+   * @param env - Identity and token environment
+   */
+  private async rebaseOnto(
+    localPath: string,
+    branch: string,
+    remoteSha: string,
+    env: Record<string, string>
+  ): Promise<void> {
+    await git(['fetch', 'origin', branch], localPath, env)
+
+    const contained = await runGit(['merge-base', '--is-ancestor', remoteSha, 'HEAD'], localPath)
+    if (contained.exitCode === 0) {
+      return
+    }
+
+    const rebase = await runGit(['rebase', remoteSha], localPath, env)
+    if (rebase.exitCode !== 0) {
+      await runGit(['rebase', '--abort'], localPath)
+      const conflicts = rebase.stdout.split('\n').filter((line) => line.startsWith('CONFLICT'))
+      throw new Error(
+        `Cannot rebase onto origin/${branch}: ${conflicts.join('; ') || rebase.stderr.split('\n')[0]}. ` +
+          'Resolve it manually or set github.pushStrategy to force-with-lease'
+      )
+    }
+  }
+}
+
+/**
+ * Runs a git command.
+ *
+ * @param args - Arguments after `git`
+ * @param cwd - Working directory
+ * @param env - Extra environment variables
+ * @returns Exit code and trimmed output
+ */
+async function runGit(args: string[], cwd: string, env?: Record<string, string>): Promise<IGitOutput> {
+  const proc = Bun.spawn(['git', ...args], {
+    cwd,
+    stdout: 'pipe',
+    stderr: 'pipe',
+    ...(env && Object.keys(env).length > 0 && { env: { ...process.env, ...env } }),
+  })
+  const [stdout, stderr, exitCode] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ])
+  return { exitCode, stdout: stdout.trim(), stderr: stderr.trim() }
+}
+
+/**
+ * Runs a git command that must succeed.
+ *
+ * @param args - Arguments after `git`
+ * @param cwd - Working directory
+ * @param env - Extra environment variables
+ * @returns Trimmed standard output
+ * @throws Error with git's message when the command fails
+ */
+async function git(args: string[], cwd: string, env?: Record<string, string>): Promise<string> {
+  const output = await runGit(args, cwd, env)
+  if (output.exitCode !== 0) {
+    throw new Error(gitErrorMessage(args, output))
+  }
+  return output.stdout
+}
+
+function gitErrorMessage(args: string[], output: IGitOutput): string {
+  return `git ${args[0]} failed: ${output.stderr || output.stdout || `exit code ${output.exitCode}`}`
+}
+
+/**
+ * Replaces the `{{name}}` and `{{branch}}` placeholders of a commit message.
+ *
+ * @param template - Commit message template
+ * @param localPath - Path to the local project
+ * @param branch - Branch being pushed
+ * @returns Commit message
+ */
+function renderCommitMessage(template: string, localPath: string, branch: string): string {
+  return template.replaceAll('{{name}}', basename(localPath)).replaceAll('{{branch}}', branch)
+}
+
+/**
+ * Builds the environment that sets the author and committer identity.
+ *
+ * @param author - Identity (unset fields fall back to git's configuration)
+ * @returns Environment variables
+ */
+function authorEnv(author: IGitAuthor | undefined): Record<string, string> {
+  return {
+    ...(author?.name && { GIT_AUTHOR_NAME: author.name, GIT_COMMITTER_NAME: author.name }),
+    ...(author?.email && { GIT_AUTHOR_EMAIL: author.email, GIT_COMMITTER_EMAIL: author.email }),
+  }
+}
+
+/**
+ * Builds the environment that authenticates git with a token.
+ *
+ * The token goes in an `http.extraHeader` scoped to the remote's origin,
+ * appended to the `GIT_CONFIG_*` variables (git 2.31+) already in the
+ * environment. Non-HTTPS remotes use git's own credentials.
+ *
+ * @param remoteUrl - Remote URL
+ * @param token - Token, or undefined for git's own credentials
+ * @param user - User name sent along with the token
+ * @returns Environment variables
+ */
+function tokenEnv(remoteUrl: string, token: string | undefined, user = 'x-access-token'): Record<string, string> {
+  if (!token || !remoteUrl.startsWith('https://')) {
+    return {}
+  }
+
+  const basic = Buffer.from(`${user}:${token}`).toString('base64')
+  const index = Number(process.env.GIT_CONFIG_COUNT) || 0
+  return {
+    GIT_TERMINAL_PROMPT: '0',
+    GIT_CONFIG_COUNT: String(index + 1),
+    [`GIT_CONFIG_KEY_${index}`]: `http.${new URL(remoteUrl).origin}/.extraheader`,
+    [`GIT_CONFIG_VALUE_${index}`]: `Authorization: Basic ${basic}`,
+  }
+}
+
+let instance: GitService | null = null
+
+/**
+ * Gets the singleton GitService instance.
+ *
+ * @returns The GitService instance
+ */
+export function getGitService(): GitService {
+  if (!instance) {
+    instance = new GitService()
+  }
+  return instance
+}
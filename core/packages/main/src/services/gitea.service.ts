@@ -0,0 +1,296 @@
+/**
+ * Gitea service for mks-bot-father.
+ *
+ * @module
+ */
+
+import { ok, isErr, isOk, type Result } from '@mks2508/no-throw'
+import { createLogger, log as fileLog, parseRepoUrl } from '../utils/index.js'
+import { getConfigService } from './config.service.js'
+import { GitHostApi, type GitHostApiError } from './git-host-api.js'
+import {
+  type IGitHostProvider,
+  type IGitHubPushResult,
+  type IGitHubRepoOptions,
+  type IGitHubRepoResult,
+  type IGitRepoRef,
+  GitHost,
+} from '../types/index.js'
+import type { IProgressCallback } from '../types/progress.types.js'
+
+const log = createLogger('GiteaService')
+
+/**
+ * Gitea service for repository operations on a self-hosted instance
+ * (`git.url`, else `GITEA_URL`).
+ *
+ * Authenticates with an access token with the `write:repository`,
+ * `write:organization` and `read:user` scopes (`git.token`, else
+ * `GITEA_TOKEN`). Forgejo exposes the same API.
+ *
+ * @example
+ * ```typescript
+ * const gitea = getGiteaService()
+ * const initResult = await gitea.init()
+ * if (isOk(initResult)) {
+ *   const repoResult = await gitea.createRepo({ name: 'my-bot', owner: 'acme' })
+ * }
+ * ```
+ */
+export class GiteaService implements IGitHostProvider {
+  readonly host = GitHost.Gitea
+  private readonly api = new GitHostApi({
+    label: 'Gitea',
+    logTag: 'GITEA',
+    apiPath: '/api/v1',
+    authHeaders: (token) => ({ Authorization: `token ${token}` }),
+  })
+  private user: string | undefined
+
+  /**
+   * Initializes the Gitea service by resolving the instance URL and token.
+   *
+   * @returns Result indicating success or error
+   */
+  async init(): Promise<Result<void, GitHostApiError>> {
+    const git = getConfigService().get().git
+    this.api.configure(git?.url || process.env['GITEA_URL'], git?.token || process.env['GITEA_TOKEN'])
+    this.user = undefined
+
+    if (!this.api.baseUrl) {
+      log.error('No Gitea URL configured')
+      log.info('Configure with: mbf config set git.url <url>')
+      return this.api.fail('No Gitea URL configured', 'No Gitea URL configured', { reason: 'not_configured' })
+    }
+
+    if (!this.api.token) {
+      log.error('No Gitea token available')
+      log.info('Configure with: mbf config set git.token <token>')
+      return this.api.fail('No Gitea token available', 'No Gitea token available', { reason: 'not_configured' })
+    }
+
+    fileLog.info('GITEA', 'Gitea service initialized', { baseUrl: this.api.baseUrl })
+    return ok(undefined)
+  }
+
+  /**
+   * Gets the authenticated Gitea username.
+   *
+   * @returns Result with the username or error
+   */
+  async getAuthenticatedUser(): Promise<Result<string | undefined, GitHostApiError>> {
+    if (this.user) {
+      return ok(this.user)
+    }
+
+    const result = await this.api.request<{ login: string }>('/user')
+    if (result.error) {
+      return this.api.fail('Failed to get authenticated user', result.error)
+    }
+
+    this.user = result.data?.login
+    return ok(this.user)
+  }
+
+  /**
+   * Checks if a name belongs to an organization.
+   *
+   * @param name - Username or organization name
+   * @returns Result with true for organizations
+   */
+  async isOrganization(name: string): Promise<Result<boolean, GitHostApiError>> {
+    const result = await this.api.request<{ id: number }>(`/orgs/${encodeURIComponent(name)}`)
+    if (result.status === 404) {
+      return ok(false)
+    }
+    if (result.error) {
+      return this.api.fail('Failed to look up organization', result.error, { name })
+    }
+    return ok(true)
+  }
+
+  /**
+   * Checks if a repository exists.
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @returns Result with true if it exists
+   */
+  async repoExists(owner: string, repo: string): Promise<Result<boolean, GitHostApiError>> {
+    const result = await this.api.request(`/repos/${owner}/${repo}`)
+    if (result.status === 404) {
+      return ok(false)
+    }
+    if (result.error) {
+      return this.api.fail('Failed to look up repository', result.error, { owner, repo })
+    }
+    return ok(true)
+  }
+
+  /**
+   * Creates an empty repository in an organization, or for the user.
+   *
+   * @param options - Repository options
+   * @param onProgress - Optional progress callback
+   * @returns Result with the repository URLs or error
+   */
+  async createRepo(
+    options: IGitHubRepoOptions,
+    onProgress?: IProgressCallback
+  ): Promise<Result<IGitHubRepoResult, GitHostApiError>> {
+    const startTime = Date.now()
+    fileLog.info('GITEA', 'Creating repository', { name: options.name, owner: options.owner })
+
+    onProgress?.(25, 'Checking account type', 'auth')
+    let endpoint = '/user/repos'
+    if (options.owner) {
+      const isOrgResult = await this.isOrganization(options.owner)
+      if (isErr(isOrgResult)) {
+        return isOrgResult
+      }
+      if (isOrgResult.value) {
+        endpoint = `/orgs/${encodeURIComponent(options.owner)}/repos`
+      } else {
+        const userResult = await this.getAuthenticatedUser()
+        if (isOk(userResult) && userResult.value !== options.owner) {
+          return this.api.fail(
+            'Failed to create repository',
+            `${options.owner} is neither an organization nor the authenticated user`,
+            { name: options.name, owner: options.owner }
+          )
+        }
+      }
+    }
+
+    onProgress?.(50, 'Creating repository', 'create')
+    log.info(`Creating repo ${options.name}`)
+    const result = await this.api.request<{ html_url: string; clone_url: string; ssh_url: string }>(endpoint, {
+      method: 'POST',
+      body: JSON.stringify({
+        name: options.name,
+        description: options.description || `Telegram bot created with mks-bot-father`,
+        private: options.private ?? true,
+        auto_init: false,
+        default_branch: 'main',
+      }),
+    })
+
+    if (result.error || !result.data) {
+      const message = result.error || 'Empty response'
+      log.error(`Failed to create repo: ${message}`)
+      return this.api.fail('Failed to create repository', message, {
+        name: options.name,
+        owner: options.owner,
+        status: result.status,
+        duration_ms: Date.now() - startTime
+      })
+    }
+
+    onProgress?.(100, 'Repository created successfully', 'done')
+    log.success(`Repository created: ${result.data.html_url}`)
+    fileLog.info('GITEA', 'Repository created', {
+      name: options.name,
+      url: result.data.html_url,
+      duration_ms: Date.now() - startTime
+    })
+    return ok({
+      success: true,
+      repoUrl: result.data.html_url,
+      cloneUrl: result.data.clone_url,
+      sshUrl: result.data.ssh_url,
+    })
+  }
+
+  /**
+   * Deletes a repository.
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @returns Result indicating success or error
+   */
+  async deleteRepo(owner: string, repo: string): Promise<Result<void, GitHostApiError>> {
+    const result = await this.api.request(`/repos/${owner}/${repo}`, { method: 'DELETE' })
+    if (result.error) {
+      return this.api.fail('Failed to delete repository', result.error, { owner, repo, status: result.status })
+    }
+
+    log.success(`Repository deleted: ${owner}/${repo}`)
+    fileLog.info('GITEA', 'Repository deleted', { owner, repo })
+    return ok(undefined)
+  }
+
+  /**
+   * Archives a repository.
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @returns Result indicating success or error
+   */
+  async archiveRepo(owner: string, repo: string): Promise<Result<void, GitHostApiError>> {
+    const result = await this.api.request(`/repos/${owner}/${repo}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ archived: true }),
+    })
+    if (result.error) {
+      return this.api.fail('Failed to archive repository', result.error, { owner, repo, status: result.status })
+    }
+
+    fileLog.info('GITEA', 'Repository archived', { owner, repo })
+    return ok(undefined)
+  }
+
+  /**
+   * Pushes local code to a Gitea repository with the `github.*` commit and
+   * push settings.
+   *
+   * @param repoUrl - HTTPS clone URL
+   * @param localPath - Path to the local project
+   * @param branch - Branch name to push to
+   * @param onProgress - Optional progress callback
+   * @returns Result with the pushed commit SHA or error
+   */
+  async pushToRepo(
+    repoUrl: string,
+    localPath: string,
+    branch = 'main',
+    onProgress?: IProgressCallback
+  ): Promise<Result<IGitHubPushResult, GitHostApiError>> {
+    // Gitea checks the user name sent with a token
+    const userResult = await this.getAuthenticatedUser()
+    if (isErr(userResult)) {
+      return userResult
+    }
+
+    const result = await this.api.push(repoUrl, localPath, branch, userResult.value, onProgress)
+    if (isErr(result)) {
+      return result
+    }
+
+    log.success('Code pushed to Gitea')
+    return result
+  }
+
+  /**
+   * Gets the owner and name of a repository from its URL.
+   *
+   * @param repoUrl - Repository web or clone URL
+   * @returns Owner and name, or undefined for URLs of other hosts
+   */
+  parseRepoUrl(repoUrl: string): IGitRepoRef | undefined {
+    return this.api.baseUrl ? parseRepoUrl(repoUrl, this.api.baseUrl, false) : undefined
+  }
+}
+
+let instance: GiteaService | null = null
+
+/**
+ * Gets the singleton GiteaService instance.
+ *
+ * @returns The GiteaService instance
+ */
+export function getGiteaService(): GiteaService {
+  if (!instance) {
+    instance = new GiteaService()
+  }
+  return instance
+}
@@ -0,0 +1,219 @@
+/**
+ * GitHub App authentication.
+ *
+ * @module
+ */
+
+import { createSign } from 'node:crypto'
+import { ok, err, tryCatch, isErr, type Result, type ResultError } from '@mks2508/no-throw'
+import { createLogger, log as fileLog } from '../utils/index.js'
+import type { IGitHubAppCredentials, IGitHubInstallationToken } from '../types/index.js'
+import { AppErrorCode } from '../types/errors.js'
+
+const log = createLogger('GitHubAppAuth')
+
+/** GitHub REST API base URL */
+export const GITHUB_API = 'https://api.github.com'
+
+/** How far the JWT issue time is backdated, to allow for clock drift */
+const JWT_CLOCK_DRIFT_S = 60
+
+/** JWT lifetime (GitHub accepts at most 10 minutes) */
+const JWT_LIFETIME_S = 540
+
+/** Installation tokens are refreshed when they expire within this margin */
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60_000
+
+/**
+ * Creates the JWT a GitHub App authenticates as itself with.
+ *
+ * @param appId - App ID
+ * @param privateKey - App private key (PEM)
+ * @param now - Current time (epoch milliseconds)
+ * @returns RS256-signed JWT
+ * @throws Error if the private key is invalid
+ */
+export function createAppJwt(appId: number, privateKey: string, now = Date.now()): string {
+  const issuedAt = Math.floor(now / 1000) - JWT_CLOCK_DRIFT_S
+  const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }))
+  const payload = base64Url(
+    JSON.stringify({ iat: issuedAt, exp: issuedAt + JWT_CLOCK_DRIFT_S + JWT_LIFETIME_S, iss: String(appId) })
+  )
+
+  const signature = createSign('RSA-SHA256').update(`${header}.${payload}`).sign(privateKey, 'base64url')
+  return `${header}.${payload}.${signature}`
+}
+
+function base64Url(value: string): string {
+  return Buffer.from(value).toString('base64url')
+}
+
+/**
+ * Issues installation access tokens for a GitHub App.
+ *
+ * Tokens last an hour; the current one is reused until it is about to
+ * expire and then exchanged for a new one. Concurrent callers share a
+ * single exchange.
+ *
+ * @example
+ * ```typescript
+ * const auth = new GitHubAppAuth({ appId: 12345, installationId: 67890, privateKey })
+ * const token = await auth.getToken()
+ * if (isOk(token)) {
+ *   await fetch('https://api.github.com/installation/repositories', {
+ *     headers: { Authorization: `Bearer ${token.value}` },
+ *   })
+ * }
+ * ```
+ */
+export class GitHubAppAuth {
+  private installationToken: IGitHubInstallationToken | undefined
+  private pending: Promise<Result<IGitHubInstallationToken, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> | undefined
+  private account: string | undefined
+
+  /**
+   * @param credentials - App ID, installation ID and private key
+   */
+  constructor(readonly credentials: IGitHubAppCredentials) {}
+
+  /**
+   * Gets a valid installation access token.
+   *
+   * @returns Result with the token or error
+   */
+  async getToken(): Promise<Result<string, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    const current = this.installationToken
+    if (current && current.expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+      return ok(current.token)
+    }
+
+    this.pending ??= this.exchange().finally(() => {
+      this.pending = undefined
+    })
+    const result = await this.pending
+    return isErr(result) ? result : ok(result.value.token)
+  }
+
+  /**
+   * Drops the current token, so the next {@link getToken} issues a new one.
+   */
+  invalidate(): void {
+    this.installationToken = undefined
+  }
+
+  /**
+   * Gets the permissions granted to the installation.
+   *
+   * @returns Permissions of the current token, or undefined before one is issued
+   */
+  getPermissions(): Record<string, string> | undefined {
+    return this.installationToken?.permissions
+  }
+
+  /**
+   * Gets the account (user or organization) the app is installed on.
+   *
+   * @returns Result with the account login or error
+   */
+  async getAccount(): Promise<Result<string, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    if (this.account) {
+      return ok(this.account)
+    }
+
+    const result = await this.appRequest<{ account?: { login?: string } }>(
+      `/app/installations/${this.credentials.installationId}`
+    )
+    if (isErr(result)) {
+      return result
+    }
+
+    const login = result.value.account?.login
+    if (!login) {
+      return err({ code: AppErrorCode.GITHUB_ERROR, message: 'Installation has no account' })
+    }
+
+    this.account = login
+    return ok(login)
+  }
+
+  /**
+   * Exchanges the app JWT for an installation access token.
+   *
+   * @returns Result with the token or error
+   */
+  private async exchange(): Promise<Result<IGitHubInstallationToken, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    const { appId, installationId } = this.credentials
+    const startTime = Date.now()
+
+    const result = await this.appRequest<{ token: string; expires_at: string; permissions?: Record<string, string> }>(
+      `/app/installations/${installationId}/access_tokens`,
+      { method: 'POST' }
+    )
+    if (isErr(result)) {
+      fileLog.error('GITHUB', 'Failed to issue installation token', {
+        appId,
+        installationId,
+        error: result.error.message,
+        duration_ms: Date.now() - startTime
+      })
+      return result
+    }
+
+    const token: IGitHubInstallationToken = {
+      token: result.value.token,
+      expiresAt: Date.parse(result.value.expires_at),
+      permissions: result.value.permissions ?? {},
+    }
+    this.installationToken = token
+
+    log.debug(`Installation token issued, expires at ${result.value.expires_at}`)
+    fileLog.info('GITHUB', 'Installation token issued', {
+      appId,
+      installationId,
+      expiresAt: result.value.expires_at,
+      permissions: token.permissions,
+      duration_ms: Date.now() - startTime
+    })
+    return ok(token)
+  }
+
+  /**
+   * Makes a request authenticated as the app.
+   *
+   * @param endpoint - API endpoint
+   * @param options - Fetch options
+   * @returns Result with the response body or error
+   */
+  private async appRequest<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<Result<T, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    const jwt = tryCatch(
+      () => createAppJwt(this.credentials.appId, this.credentials.privateKey),
+      AppErrorCode.GITHUB_ERROR
+    )
+    if (isErr(jwt)) {
+      return err({ code: AppErrorCode.GITHUB_ERROR, message: `Invalid GitHub App private key: ${jwt.error.message}` })
+    }
+
+    try {
+      const response = await fetch(`${GITHUB_API}${endpoint}`, {
+        ...options,
+        headers: {
+          Accept: 'application/vnd.github+json',
+          Authorization: `Bearer ${jwt.value}`,
+          'X-GitHub-Api-Version': '2022-11-28',
+        },
+      })
+      const data = (await response.json().catch(() => ({}))) as T & { message?: string }
+
+      if (!response.ok) {
+        return err({ code: AppErrorCode.GITHUB_ERROR, message: data.message || `HTTP ${response.status}` })
+      }
+      return ok(data)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return err({ code: AppErrorCode.GITHUB_ERROR, message })
+    }
+  }
+}
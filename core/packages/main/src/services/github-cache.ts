@@ -0,0 +1,132 @@
+/**
+ * ETag cache for GitHub API read requests.
+ *
+ * @module
+ */
+
+import { createHash } from 'node:crypto'
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { isErr, tryCatch } from '@mks2508/no-throw'
+import { log as fileLog } from '../utils/index.js'
+import { CONFIG_DIR } from './config.service.js'
+import { AppErrorCode } from '../types/errors.js'
+
+/** Cache file */
+export const GITHUB_CACHE_FILE = join(CONFIG_DIR, 'cache', 'github.json')
+
+/** Entries kept; the oldest are dropped first */
+const MAX_CACHE_ENTRIES = 500
+
+/**
+ * A cached response.
+ */
+interface IGitHubCacheEntry {
+  /** ETag returned with the response */
+  etag: string
+  /** Response body */
+  data: unknown
+  /** When the response was stored (ISO 8601) */
+  storedAt: string
+}
+
+/**
+ * Responses cached by credential and endpoint.
+ *
+ * A cached response is only used after GitHub confirms it is current
+ * (`304 Not Modified` to an `If-None-Match` request), which does not count
+ * against the rate limit. Entries are keyed by a hash of the credential
+ * (the token, or the installation of a GitHub App), as different
+ * credentials see different repositories. The cache is best effort: a
+ * file that cannot be read or written is ignored.
+ */
+export class GitHubResponseCache {
+  private entries: Record<string, IGitHubCacheEntry> | undefined
+
+  /**
+   * @param path - Cache file
+   */
+  constructor(private readonly path: string = GITHUB_CACHE_FILE) {}
+
+  /**
+   * Gets a cached response.
+   *
+   * @param credential - Credential the request is made with
+   * @param endpoint - API endpoint
+   * @returns The entry, or undefined if not cached
+   */
+  get(credential: string, endpoint: string): IGitHubCacheEntry | undefined {
+    return this.load()[cacheKey(credential, endpoint)]
+  }
+
+  /**
+   * Stores a response.
+   *
+   * @param credential - Credential the request was made with
+   * @param endpoint - API endpoint
+   * @param etag - ETag returned with the response
+   * @param data - Response body
+   */
+  set(credential: string, endpoint: string, etag: string, data: unknown): void {
+    const entries = this.load()
+    entries[cacheKey(credential, endpoint)] = { etag, data, storedAt: new Date().toISOString() }
+
+    const keys = Object.keys(entries)
+    if (keys.length > MAX_CACHE_ENTRIES) {
+      keys
+        .sort((a, b) => entries[a]!.storedAt.localeCompare(entries[b]!.storedAt))
+        .slice(0, keys.length - MAX_CACHE_ENTRIES)
+        .forEach((key) => delete entries[key])
+    }
+
+    this.save()
+  }
+
+  /**
+   * Drops a cached response.
+   *
+   * @param credential - Credential the request was made with
+   * @param endpoint - API endpoint
+   */
+  delete(credential: string, endpoint: string): void {
+    const entries = this.load()
+    const key = cacheKey(credential, endpoint)
+    if (key in entries) {
+      delete entries[key]
+      this.save()
+    }
+  }
+
+  private load(): Record<string, IGitHubCacheEntry> {
+    if (!this.entries) {
+      const result = tryCatch(
+        () =>
+          existsSync(this.path)
+            ? (JSON.parse(readFileSync(this.path, 'utf-8')) as Record<string, IGitHubCacheEntry>)
+            : {},
+        AppErrorCode.GITHUB_ERROR
+      )
+      if (isErr(result)) {
+        fileLog.warn('GITHUB', 'Ignoring unreadable response cache', { path: this.path, error: result.error.message })
+      }
+      this.entries = isErr(result) ? {} : result.value
+    }
+    return this.entries
+  }
+
+  private save(): void {
+    const result = tryCatch(() => {
+      mkdirSync(dirname(this.path), { recursive: true })
+      const tmpPath = `${this.path}.tmp`
+      writeFileSync(tmpPath, JSON.stringify(this.entries), { mode: 0o600 })
+      renameSync(tmpPath, this.path)
+    }, AppErrorCode.GITHUB_ERROR)
+    if (isErr(result)) {
+      fileLog.warn('GITHUB', 'Cannot write response cache', { path: this.path, error: result.error.message })
+    }
+  }
+}
+
+function cacheKey(credential: string, endpoint: string): string {
+  return `${createHash('sha256').update(credential).digest('hex').slice(0, 16)} ${endpoint}`
+}
@@ -4,20 +4,53 @@
  * @module
  */
 
-import { ok, err, tryCatchAsync, isOk, isErr, type Result, type ResultError } from '@mks2508/no-throw'
-import { createLogger, log as fileLog } from '../utils/index.js'
+import { ok, err, tryCatch, isOk, isErr, type Result, type ResultError } from '@mks2508/no-throw'
+import { createLogger, log as fileLog, parseRepoUrl, sealBox } from '../utils/index.js'
 import { getConfigService } from './config.service.js'
+import { getGitService } from './git.service.js'
+import { GitHubResponseCache } from './github-cache.js'
+import { GITHUB_API, GitHubAppAuth } from './github-app.js'
 import {
   type IGitHubRepoOptions,
   type IGitHubRepoResult,
   type IGitHubPushResult,
+  type IGitHubRepoInfo,
+  type IGitHubRepoUpdate,
+  type IGitHubBranchProtection,
+  type IGitHubActionsPublicKey,
+  type IGitHubAppCredentials,
+  type IGitHostProvider,
+  type IGitRepoRef,
+  GitHost,
 } from '../types/index.js'
 import { AppErrorCode } from '../types/errors.js'
 import type { IProgressCallback } from '../types/progress.types.js'
 
 const log = createLogger('GitHubService')
 
-const GITHUB_API = 'https://api.github.com'
+/** Web URL of repositories */
+const GITHUB_URL = 'https://github.com'
+
+/** Page size for list endpoints (the API maximum) */
+const PER_PAGE = 100
+
+/** Retries after a rate limit or server error */
+const MAX_RETRIES = 3
+
+/** Backoff base for server errors */
+const RETRY_BASE_DELAY_MS = 1000
+
+/** Backoff base for secondary rate limits without a wait time (GitHub asks for at least a minute) */
+const SECONDARY_RATE_LIMIT_DELAY_MS = 60_000
+
+/** Longest wait before a retry; a rate limit that resets later fails right away */
+const MAX_RETRY_DELAY_MS = 60_000
+
+/** Share of the rate limit left under which requests are logged as warnings */
+const RATE_LIMIT_WARNING_RATIO = 0.1
+
+/** Methods safe to repeat after a server error */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE'])
 
 /**
  * GitHub API response type.
@@ -26,11 +59,15 @@ interface IGitHubApiResponse<T> {
   data?: T
   error?: string
   status: number
+  headers?: Headers
 }
 
 /**
  * GitHub service for repository operations.
  *
+ * Authenticates with a token (personal access token or `gh` CLI), or as a
+ * GitHub App installation when `github.appId` is configured.
+ *
  * @example
  * ```typescript
  * const github = getGitHubService()
@@ -46,17 +83,37 @@ interface IGitHubApiResponse<T> {
  * }
  * ```
  */
-export class GitHubService {
+export class GitHubService implements IGitHostProvider {
+  readonly host = GitHost.GitHub
   private token: string | undefined
+  private appAuth: GitHubAppAuth | undefined
+  private cache = new GitHubResponseCache()
 
   /**
    * Initializes the GitHub service by resolving the token.
    *
+   * GitHub App credentials take precedence over a token: an installation
+   * token is issued, and refreshed before it expires on later requests.
+   *
    * @returns Result indicating success or error
    */
   async init(): Promise<Result<void, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
     const startTime = Date.now()
     const config = getConfigService()
+
+    const appResult = config.getGitHubApp()
+    if (isErr(appResult)) {
+      fileLog.error('GITHUB', 'Invalid GitHub App configuration', {
+        error: appResult.error.message,
+        duration_ms: Date.now() - startTime
+      })
+      return err({ code: AppErrorCode.GITHUB_ERROR, message: appResult.error.message })
+    }
+    if (appResult.value) {
+      return this.initApp(appResult.value, startTime)
+    }
+    this.appAuth = undefined
+
     const tokenResult = await config.resolveGitHubToken()
 
     if (isErr(tokenResult)) {
@@ -85,45 +142,218 @@ export class GitHubService {
     return ok(undefined)
   }
 
+  /**
+   * Initializes the service with GitHub App credentials, reusing the
+   * installation token of a previous call with the same credentials.
+   *
+   * @param credentials - App credentials
+   * @param startTime - When initialization started
+   * @returns Result indicating success or error
+   */
+  private async initApp(
+    credentials: IGitHubAppCredentials,
+    startTime: number
+  ): Promise<Result<void, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    const { appId, installationId, privateKey } = credentials
+    let appAuth = this.appAuth
+    if (
+      appAuth?.credentials.appId !== appId ||
+      appAuth.credentials.installationId !== installationId ||
+      appAuth.credentials.privateKey !== privateKey
+    ) {
+      appAuth = new GitHubAppAuth(credentials)
+      this.appAuth = appAuth
+    }
+
+    const tokenResult = await appAuth.getToken()
+    if (isErr(tokenResult)) {
+      log.error(`Cannot authenticate as GitHub App ${appId}: ${tokenResult.error.message}`)
+      fileLog.error('GITHUB', 'Failed to authenticate as GitHub App', {
+        appId,
+        installationId,
+        error: tokenResult.error.message,
+        duration_ms: Date.now() - startTime
+      })
+      return tokenResult
+    }
+
+    this.token = tokenResult.value
+    log.debug(`Authenticated as GitHub App ${appId}`)
+    fileLog.info('GITHUB', 'GitHub service initialized', {
+      auth: 'app',
+      appId,
+      installationId,
+      duration_ms: Date.now() - startTime
+    })
+    return ok(undefined)
+  }
+
+  /**
+   * Gets the token to authenticate with, issuing a new installation token
+   * when the current one is about to expire.
+   *
+   * @returns Result with the token (undefined before {@link init}) or error
+   */
+  private async authToken(): Promise<Result<string | undefined, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    if (!this.appAuth) {
+      return ok(this.token)
+    }
+
+    const result = await this.appAuth.getToken()
+    if (isOk(result)) {
+      this.token = result.value
+    }
+    return result
+  }
+
   /**
    * Makes a request to the GitHub API.
    *
+   * Rate-limited requests are retried after the wait GitHub asks for
+   * (`Retry-After`, else `X-RateLimit-Reset`), and server errors on
+   * idempotent methods with exponential backoff and jitter. Cached requests
+   * send the stored ETag and reuse the stored body on `304 Not Modified`.
+   * Rate-limit headers are recorded in the file log. With GitHub App
+   * authentication, a rejected installation token is replaced once.
+   *
    * @param endpoint - API endpoint
    * @param options - Fetch options
+   * @param cached - Use the ETag cache (GET requests only)
    * @returns API response with data or error
    */
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    cached = false
   ): Promise<IGitHubApiResponse<T>> {
-    if (!this.token) {
+    if (!this.token && !this.appAuth) {
       return { error: 'No GitHub token', status: 0 }
     }
 
-    try {
-      const response = await fetch(`${GITHUB_API}${endpoint}`, {
-        ...options,
-        headers: {
-          Accept: 'application/vnd.github+json',
-          Authorization: `Bearer ${this.token}`,
-          'X-GitHub-Api-Version': '2022-11-28',
-          'Content-Type': 'application/json',
-          ...options.headers,
-        },
-      })
+    const method = (options.method ?? 'GET').toUpperCase()
+    const useCache = cached && method === 'GET'
+    // Installation tokens change every hour, the installation does not
+    const app = this.appAuth?.credentials
+    const credential = app ? `app:${app.appId}:${app.installationId}` : (this.token ?? '')
+    const cacheEntry = useCache ? this.cache.get(credential, endpoint) : undefined
+    let reissued = false
+
+    for (let attempt = 1; ; attempt++) {
+      const tokenResult = await this.authToken()
+      if (isErr(tokenResult)) {
+        return { error: tokenResult.error.message, status: 0 }
+      }
+
+      const startTime = Date.now()
+      let response: Response
+      try {
+        response = await fetch(`${GITHUB_API}${endpoint}`, {
+          ...options,
+          headers: {
+            Accept: 'application/vnd.github+json',
+            Authorization: `Bearer ${tokenResult.value}`,
+            'X-GitHub-Api-Version': '2022-11-28',
+            'Content-Type': 'application/json',
+            ...(cacheEntry && { 'If-None-Match': cacheEntry.etag }),
+            ...options.headers,
+          },
+        })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        return { error: message, status: 0 }
+      }
 
-      const data = await response.json()
+      logRateLimit(method, endpoint, response, Date.now() - startTime)
+
+      if (response.status === 401 && this.appAuth && !reissued) {
+        fileLog.warn('GITHUB', 'Installation token rejected, issuing a new one', { method, endpoint })
+        this.appAuth.invalidate()
+        reissued = true
+        continue
+      }
+
+      if (response.status === 304 && cacheEntry) {
+        return { data: cacheEntry.data as T, status: 200, headers: response.headers }
+      }
+
+      let data: unknown = {}
+      if (response.status !== 204) {
+        try {
+          data = await response.json()
+        } catch (error) {
+          // Gateway errors come with an HTML body; only a success needs one
+          if (response.ok) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return { error: message, status: response.status, headers: response.headers }
+          }
+        }
+      }
 
       if (!response.ok) {
         const errorMessage =
           (data as { message?: string }).message || `HTTP ${response.status}`
-        return { error: errorMessage, status: response.status }
+        const delayMs = attempt <= MAX_RETRIES ? retryDelay(method, response, errorMessage, attempt) : undefined
+
+        if (delayMs !== undefined && delayMs <= MAX_RETRY_DELAY_MS) {
+          log.warn(`GitHub ${response.status} on ${endpoint}, retrying in ${Math.ceil(delayMs / 1000)}s`)
+          fileLog.warn('GITHUB', 'Retrying request', {
+            method,
+            endpoint,
+            status: response.status,
+            attempt,
+            delay_ms: Math.round(delayMs),
+          })
+          await sleep(delayMs)
+          continue
+        }
+
+        if (useCache && response.status === 404) {
+          this.cache.delete(credential, endpoint)
+        }
+
+        const error =
+          delayMs === undefined
+            ? errorMessage
+            : `${errorMessage} (retry after ${new Date(Date.now() + delayMs).toISOString()})`
+        return { error, status: response.status, headers: response.headers }
       }
 
-      return { data: data as T, status: response.status }
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error'
-      return { error: message, status: 0 }
+      const etag = response.headers?.get('etag')
+      if (useCache && etag) {
+        this.cache.set(credential, endpoint, etag, data)
+      }
+
+      return { data: data as T, status: response.status, headers: response.headers }
+    }
+  }
+
+  /**
+   * Requests every page of a list endpoint.
+   *
+   * Follows the `Link` header's `next` page; without a `Link` header, stops
+   * at the first page that is not full.
+   *
+   * @param endpoint - API endpoint
+   * @param cached - Use the ETag cache
+   * @returns API response with the items of every page or error
+   */
+  private async requestAll<T>(endpoint: string, cached = false): Promise<IGitHubApiResponse<T[]>> {
+    const items: T[] = []
+    const separator = endpoint.includes('?') ? '&' : '?'
+
+    for (let page = 1; ; page++) {
+      const result = await this.request<T[]>(`${endpoint}${separator}per_page=${PER_PAGE}&page=${page}`, {}, cached)
+      if (result.error || !result.data) {
+        return { error: result.error || 'Empty response', status: result.status, headers: result.headers }
+      }
+
+      items.push(...result.data)
+
+      const link = result.headers?.get('link')
+      const hasNext = link ? /rel="next"/.test(link) : result.data.length >= PER_PAGE
+      if (!hasNext) {
+        return { data: items, status: result.status, headers: result.headers }
+      }
     }
   }
 
@@ -174,6 +404,7 @@ export class GitHubService {
     const result = await this.request<{
       html_url: string
       clone_url: string
+      ssh_url: string
       full_name: string
     }>(`/repos/${templateOwner}/${templateRepo}/generate`, {
       method: 'POST',
@@ -209,12 +440,16 @@ export class GitHubService {
       success: true,
       repoUrl: result.data?.html_url,
       cloneUrl: result.data?.clone_url,
+      sshUrl: result.data?.ssh_url,
     })
   }
 
   /**
    * Creates a new repository.
    *
+   * With GitHub App authentication the owner must be an organization: GitHub
+   * does not let installation tokens create repositories on personal accounts.
+   *
    * @param options - Repository options
    * @param onProgress - Optional progress callback
    * @returns Result with repository URL and clone URL
@@ -255,11 +490,28 @@ export class GitHubService {
 
     const isOrgResult = await this.isOrganization(owner)
     const isOrg = isOk(isOrgResult) && isOrgResult.value
+
+    // Installation tokens are rejected by POST /user/repos
+    if (this.appAuth && !isOrg) {
+      const message = isErr(isOrgResult)
+        ? `Cannot check whether ${owner} is an organization: ${isOrgResult.error.message}`
+        : `GitHub Apps cannot create repositories on personal accounts: ${owner} is not an organization. ` +
+          'Install the app on an organization or use a personal access token'
+      log.error(message)
+      fileLog.error('GITHUB', 'Cannot create repository with GitHub App authentication', {
+        name: options.name,
+        owner,
+        error: message,
+        duration_ms: Date.now() - startTime
+      })
+      return err({ code: AppErrorCode.GITHUB_ERROR, message })
+    }
     const endpoint = isOrg ? `/orgs/${owner}/repos` : '/user/repos'
 
     const result = await this.request<{
       html_url: string
       clone_url: string
+      ssh_url: string
       full_name: string
     }>(endpoint, {
       method: 'POST',
@@ -295,17 +547,29 @@ export class GitHubService {
       success: true,
       repoUrl: result.data?.html_url,
       cloneUrl: result.data?.clone_url,
+      sshUrl: result.data?.ssh_url,
     })
   }
 
   /**
    * Gets the authenticated GitHub username.
    *
+   * With GitHub App authentication, this is the account the app is
+   * installed on, which owns the repositories it creates.
+   *
    * @returns Result with the username or error
    */
   async getAuthenticatedUser(): Promise<Result<string | undefined, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    if (this.appAuth) {
+      const accountResult = await this.appAuth.getAccount()
+      if (isErr(accountResult)) {
+        fileLog.error('GITHUB', 'Failed to get installation account', { error: accountResult.error.message })
+      }
+      return accountResult
+    }
+
     const startTime = Date.now()
-    const result = await this.request<{ login: string }>('/user')
+    const result = await this.request<{ login: string }>('/user', {}, true)
     if (result.error) {
       fileLog.error('GITHUB', 'Failed to get authenticated user', {
         error: result.error,
@@ -320,6 +584,42 @@ export class GitHubService {
     return ok(result.data?.login)
   }
 
+  /**
+   * Gets the OAuth scopes granted to the token.
+   *
+   * @returns Result with the scopes, undefined for tokens that do not report
+   * them (fine-grained personal access tokens and GitHub App installation
+   * tokens, see {@link getAppPermissions}), or error
+   */
+  async getTokenScopes(): Promise<Result<string[] | undefined, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    if (this.appAuth) {
+      return ok(undefined)
+    }
+
+    const result = await this.request<{ login: string }>('/user')
+    if (result.error) {
+      fileLog.error('GITHUB', 'Failed to get token scopes', { error: result.error })
+      return err({ code: AppErrorCode.GITHUB_ERROR, message: result.error })
+    }
+
+    const header = result.headers?.get('x-oauth-scopes')
+    if (header === null || header === undefined) {
+      return ok(undefined)
+    }
+
+    return ok(header.split(',').map((scope) => scope.trim()).filter(Boolean))
+  }
+
+  /**
+   * Gets the permissions granted to the GitHub App installation.
+   *
+   * @returns Permissions (e.g. `{ contents: 'write' }`), or undefined when
+   * not authenticated as a GitHub App
+   */
+  getAppPermissions(): Record<string, string> | undefined {
+    return this.appAuth?.getPermissions()
+  }
+
   /**
    * Checks if a name belongs to an organization.
    *
@@ -328,7 +628,7 @@ export class GitHubService {
    */
   async isOrganization(name: string): Promise<Result<boolean, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
     const startTime = Date.now()
-    const result = await this.request<{ type: string }>(`/users/${name}`)
+    const result = await this.request<{ type: string }>(`/users/${name}`, {}, true)
     if (result.error) {
       fileLog.error('GITHUB', 'Failed to check if organization', {
         name,
@@ -351,12 +651,23 @@ export class GitHubService {
    *
    * @param owner - Repository owner
    * @param repo - Repository name
-   * @returns Result with true if the repository exists
+   * @returns Result with true if the repository exists (false only on 404)
    */
   async repoExists(owner: string, repo: string): Promise<Result<boolean, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
     const startTime = Date.now()
-    const result = await this.request(`/repos/${owner}/${repo}`)
-    const exists = result.status === 200
+    const result = await this.request(`/repos/${owner}/${repo}`, {}, true)
+    if (result.error && result.status !== 404) {
+      fileLog.error('GITHUB', 'Failed to check repository existence', {
+        owner,
+        repo,
+        status: result.status,
+        error: result.error,
+        duration_ms: Date.now() - startTime
+      })
+      return err({ code: AppErrorCode.GITHUB_ERROR, message: result.error })
+    }
+
+    const exists = result.status !== 404
     fileLog.info('GITHUB', 'Repository existence checked', {
       owner,
       repo,
@@ -366,14 +677,429 @@ export class GitHubService {
     return ok(exists)
   }
 
+  /**
+   * Gets repository details.
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @returns Result with the repository, undefined if it does not exist, or error
+   */
+  async getRepo(
+    owner: string,
+    repo: string
+  ): Promise<Result<IGitHubRepoInfo | undefined, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    const startTime = Date.now()
+    const result = await this.request<{
+      name: string
+      owner: { login: string }
+      description: string | null
+      private: boolean
+      html_url: string
+      clone_url: string
+    }>(`/repos/${owner}/${repo}`, {}, true)
+
+    if (result.status === 404) {
+      fileLog.info('GITHUB', 'Repository not found', {
+        owner,
+        repo,
+        duration_ms: Date.now() - startTime
+      })
+      return ok(undefined)
+    }
+
+    if (result.error || !result.data) {
+      fileLog.error('GITHUB', 'Failed to get repository', {
+        owner,
+        repo,
+        error: result.error,
+        status: result.status,
+        duration_ms: Date.now() - startTime
+      })
+      return err({ code: AppErrorCode.GITHUB_ERROR, message: result.error || 'Empty response' })
+    }
+
+    fileLog.info('GITHUB', 'Repository retrieved', {
+      owner,
+      repo,
+      duration_ms: Date.now() - startTime
+    })
+    return ok({
+      name: result.data.name,
+      owner: result.data.owner.login,
+      description: result.data.description ?? undefined,
+      private: result.data.private,
+      repoUrl: result.data.html_url,
+      cloneUrl: result.data.clone_url,
+    })
+  }
+
+  /**
+   * Lists the repositories owned by a user or organization.
+   *
+   * For the authenticated user, private repositories are included.
+   *
+   * @param owner - User or organization
+   * @returns Result with every repository (all pages) or error
+   */
+  async listRepos(owner: string): Promise<Result<IGitHubRepoInfo[], ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    const startTime = Date.now()
+
+    const orgResult = await this.isOrganization(owner)
+    if (isErr(orgResult)) {
+      return orgResult
+    }
+
+    let endpoint = `/users/${owner}/repos?type=owner`
+    if (orgResult.value) {
+      endpoint = `/orgs/${owner}/repos?type=all`
+    } else {
+      const userResult = await this.getAuthenticatedUser()
+      if (isOk(userResult) && userResult.value?.toLowerCase() === owner.toLowerCase()) {
+        endpoint = '/user/repos?affiliation=owner'
+      }
+    }
+
+    const result = await this.requestAll<{
+      name: string
+      owner: { login: string }
+      description: string | null
+      private: boolean
+      html_url: string
+      clone_url: string
+    }>(endpoint, true)
+
+    if (result.error || !result.data) {
+      fileLog.error('GITHUB', 'Failed to list repositories', {
+        owner,
+        error: result.error,
+        duration_ms: Date.now() - startTime
+      })
+      return err({ code: AppErrorCode.GITHUB_ERROR, message: result.error || 'Empty response' })
+    }
+
+    const repos = result.data.map((repo) => ({
+      name: repo.name,
+      owner: repo.owner.login,
+      description: repo.description ?? undefined,
+      private: repo.private,
+      repoUrl: repo.html_url,
+      cloneUrl: repo.clone_url,
+    }))
+
+    fileLog.info('GITHUB', 'Repositories listed', {
+      owner,
+      count: repos.length,
+      duration_ms: Date.now() - startTime
+    })
+    return ok(repos)
+  }
+
+  /**
+   * Updates repository settings.
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param update - Settings to change
+   * @returns Result indicating success or error
+   */
+  async updateRepo(
+    owner: string,
+    repo: string,
+    update: IGitHubRepoUpdate
+  ): Promise<Result<void, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    const startTime = Date.now()
+    fileLog.info('GITHUB', 'Updating repository', { owner, repo, fields: Object.keys(update) })
+
+    const result = await this.request(`/repos/${owner}/${repo}`, {
+      method: 'PATCH',
+      body: JSON.stringify({
+        description: update.description,
+        private: update.private,
+        archived: update.archived,
+        allow_merge_commit: update.allowMergeCommit,
+        allow_squash_merge: update.allowSquashMerge,
+        allow_rebase_merge: update.allowRebaseMerge,
+        delete_branch_on_merge: update.deleteBranchOnMerge,
+      }),
+    })
+
+    if (result.error) {
+      log.error(`Failed to update repo: ${result.error}`)
+      fileLog.error('GITHUB', 'Failed to update repository', {
+        owner,
+        repo,
+        error: result.error,
+        status: result.status,
+        duration_ms: Date.now() - startTime
+      })
+      return err({ code: AppErrorCode.GITHUB_ERROR, message: result.error })
+    }
+
+    log.success(`Repository updated: ${owner}/${repo}`)
+    fileLog.info('GITHUB', 'Repository updated', {
+      owner,
+      repo,
+      duration_ms: Date.now() - startTime
+    })
+    return ok(undefined)
+  }
+
+  /**
+   * Archives a repository.
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @returns Result indicating success or error
+   */
+  async archiveRepo(owner: string, repo: string): Promise<Result<void, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    return this.updateRepo(owner, repo, { archived: true })
+  }
+
+  /**
+   * Replaces the topics of a repository.
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param topics - Topics (lowercase letters, digits and hyphens)
+   * @returns Result indicating success or error
+   */
+  async setTopics(
+    owner: string,
+    repo: string,
+    topics: string[]
+  ): Promise<Result<void, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    const startTime = Date.now()
+    const result = await this.request(`/repos/${owner}/${repo}/topics`, {
+      method: 'PUT',
+      body: JSON.stringify({ names: topics }),
+    })
+
+    if (result.error) {
+      log.error(`Failed to set topics: ${result.error}`)
+      fileLog.error('GITHUB', 'Failed to set repository topics', {
+        owner,
+        repo,
+        error: result.error,
+        status: result.status,
+        duration_ms: Date.now() - startTime
+      })
+      return err({ code: AppErrorCode.GITHUB_ERROR, message: result.error })
+    }
+
+    fileLog.info('GITHUB', 'Repository topics set', {
+      owner,
+      repo,
+      topics,
+      duration_ms: Date.now() - startTime
+    })
+    return ok(undefined)
+  }
+
+  /**
+   * Protects a branch, replacing its existing protection.
+   *
+   * Private repositories need a paid plan for branch protection.
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param branch - Branch to protect
+   * @param protection - Protection rules
+   * @returns Result indicating success or error
+   */
+  async setBranchProtection(
+    owner: string,
+    repo: string,
+    branch: string,
+    protection: IGitHubBranchProtection = {}
+  ): Promise<Result<void, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    const startTime = Date.now()
+    const checks = protection.requiredStatusChecks ?? []
+
+    const result = await this.request(`/repos/${owner}/${repo}/branches/${encodeURIComponent(branch)}/protection`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        required_status_checks: checks.length > 0 ? { strict: true, contexts: checks } : null,
+        enforce_admins: protection.enforceAdmins ?? false,
+        required_pull_request_reviews:
+          protection.requiredApprovals === undefined
+            ? null
+            : { required_approving_review_count: protection.requiredApprovals },
+        restrictions: null,
+        allow_force_pushes: false,
+        allow_deletions: false,
+      }),
+    })
+
+    if (result.error) {
+      log.error(`Failed to protect branch ${branch}: ${result.error}`)
+      fileLog.error('GITHUB', 'Failed to set branch protection', {
+        owner,
+        repo,
+        branch,
+        error: result.error,
+        status: result.status,
+        duration_ms: Date.now() - startTime
+      })
+      return err({ code: AppErrorCode.GITHUB_ERROR, message: result.error })
+    }
+
+    log.success(`Branch protected: ${owner}/${repo}@${branch}`)
+    fileLog.info('GITHUB', 'Branch protection set', {
+      owner,
+      repo,
+      branch,
+      duration_ms: Date.now() - startTime
+    })
+    return ok(undefined)
+  }
+
+  /**
+   * Gets the public key used to encrypt a repository's Actions secrets.
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @returns Result with the key or error
+   */
+  async getActionsPublicKey(
+    owner: string,
+    repo: string
+  ): Promise<Result<IGitHubActionsPublicKey, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    const result = await this.request<{ key_id: string; key: string }>(
+      `/repos/${owner}/${repo}/actions/secrets/public-key`
+    )
+
+    if (result.error || !result.data) {
+      fileLog.error('GITHUB', 'Failed to get Actions public key', {
+        owner,
+        repo,
+        error: result.error,
+        status: result.status
+      })
+      return err({ code: AppErrorCode.GITHUB_ERROR, message: result.error || 'Empty response' })
+    }
+
+    return ok({ keyId: result.data.key_id, key: result.data.key })
+  }
+
+  /**
+   * Creates or updates an Actions secret.
+   *
+   * The value is encrypted with the repository public key (libsodium sealed
+   * box) before it leaves the process.
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param name - Secret name (e.g. `TG_BOT_TOKEN`)
+   * @param value - Secret value
+   * @returns Result with true if the secret was created, false if it was updated
+   */
+  async setActionsSecret(
+    owner: string,
+    repo: string,
+    name: string,
+    value: string
+  ): Promise<Result<boolean, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    const startTime = Date.now()
+    const keyResult = await this.getActionsPublicKey(owner, repo)
+    if (isErr(keyResult)) {
+      return keyResult
+    }
+
+    const sealed = tryCatch(() => sealBox(value, keyResult.value.key), AppErrorCode.GITHUB_ERROR)
+    if (isErr(sealed)) {
+      return sealed
+    }
+
+    const result = await this.request(`/repos/${owner}/${repo}/actions/secrets/${name}`, {
+      method: 'PUT',
+      body: JSON.stringify({ encrypted_value: sealed.value, key_id: keyResult.value.keyId }),
+    })
+
+    if (result.error) {
+      log.error(`Failed to set secret ${name}: ${result.error}`)
+      fileLog.error('GITHUB', 'Failed to set Actions secret', {
+        owner,
+        repo,
+        name,
+        error: result.error,
+        status: result.status,
+        duration_ms: Date.now() - startTime
+      })
+      return err({ code: AppErrorCode.GITHUB_ERROR, message: result.error })
+    }
+
+    const created = result.status === 201
+    log.success(`Actions secret ${created ? 'created' : 'updated'}: ${name}`)
+    fileLog.info('GITHUB', 'Actions secret set', {
+      owner,
+      repo,
+      name,
+      created,
+      duration_ms: Date.now() - startTime
+    })
+    return ok(created)
+  }
+
+  /**
+   * Deletes a repository.
+   *
+   * Requires a token with the `delete_repo` scope.
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @returns Result indicating success or error
+   */
+  async deleteRepo(owner: string, repo: string): Promise<Result<void, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    const startTime = Date.now()
+    fileLog.info('GITHUB', 'Deleting repository', { owner, repo })
+
+    const result = await this.request(`/repos/${owner}/${repo}`, { method: 'DELETE' })
+
+    if (result.error) {
+      log.error(`Failed to delete repo: ${result.error}`)
+      fileLog.error('GITHUB', 'Failed to delete repository', {
+        owner,
+        repo,
+        error: result.error,
+        status: result.status,
+        duration_ms: Date.now() - startTime
+      })
+      return err({ code: AppErrorCode.GITHUB_ERROR, message: result.error })
+    }
+
+    log.success(`Repository deleted: ${owner}/${repo}`)
+    fileLog.info('GITHUB', 'Repository deleted', {
+      owner,
+      repo,
+      duration_ms: Date.now() - startTime
+    })
+    return ok(undefined)
+  }
+
+  /**
+   * Gets the owner and name of a repository from its URL.
+   *
+   * @param repoUrl - Repository web or clone URL
+   * @returns Owner and name, or undefined for other URLs
+   */
+  parseRepoUrl(repoUrl: string): IGitRepoRef | undefined {
+    return parseRepoUrl(repoUrl, GITHUB_URL, false)
+  }
+
   /**
    * Pushes local code to a GitHub repository.
    *
+   * Commits with the `github.commitMessage` template and the
+   * `github.commitAuthorName`/`github.commitAuthorEmail` identity, and
+   * authenticates with the service token (a fresh installation token
+   * with GitHub App authentication). A repository that already has
+   * commits is handled per `github.pushStrategy` (see {@link GitService.push}).
+   *
    * @param repoUrl - The repository clone URL
    * @param localPath - Path to the local project
    * @param branch - Branch name to push to
    * @param onProgress - Optional progress callback
-   * @returns Result indicating success or error
+   * @returns Result with the pushed commit SHA or error
    */
   async pushToRepo(
     repoUrl: string,
@@ -381,88 +1107,148 @@ export class GitHubService {
     branch = 'main',
     onProgress?: IProgressCallback
   ): Promise<Result<IGitHubPushResult, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
-    const startTime = Date.now()
     fileLog.info('GITHUB', 'Pushing to repository', { localPath, branch, repoUrl })
-    onProgress?.(0, 'Initializing git repository', 'init')
+    const github = getConfigService().get().github
+    const tokenResult = await this.authToken()
+    if (isErr(tokenResult)) {
+      return tokenResult
+    }
 
-    const result = await tryCatchAsync(async () => {
-      const gitInit = Bun.spawn(['git', 'init'], {
-        cwd: localPath,
-        stdout: 'pipe',
-        stderr: 'pipe',
-      })
-      await gitInit.exited
-      onProgress?.(15, 'Git initialized', 'init')
+    const result = await getGitService().push(
+      localPath,
+      {
+        remoteUrl: repoUrl,
+        branch,
+        message: github?.commitMessage,
+        author: { name: github?.commitAuthorName, email: github?.commitAuthorEmail },
+        token: tokenResult.value,
+        strategy: github?.pushStrategy,
+      },
+      onProgress
+    )
+    if (isErr(result)) {
+      return result
+    }
 
-      const gitAdd = Bun.spawn(['git', 'add', '.'], {
-        cwd: localPath,
-        stdout: 'pipe',
-        stderr: 'pipe',
-      })
-      await gitAdd.exited
-      onProgress?.(30, 'Files staged', 'stage')
-
-      const gitCommit = Bun.spawn(
-        ['git', 'commit', '-m', 'Initial commit from mks-bot-father'],
-        {
-          cwd: localPath,
-          stdout: 'pipe',
-          stderr: 'pipe',
-        }
-      )
-      await gitCommit.exited
-      onProgress?.(45, 'Changes committed', 'commit')
-
-      const gitBranch = Bun.spawn(['git', 'branch', '-M', branch], {
-        cwd: localPath,
-        stdout: 'pipe',
-        stderr: 'pipe',
-      })
-      await gitBranch.exited
-      onProgress?.(60, `Branch set to ${branch}`, 'branch')
+    log.success('Code pushed to GitHub')
+    return ok({ success: true, commitSha: result.value.commitSha })
+  }
 
-      const gitRemote = Bun.spawn(['git', 'remote', 'add', 'origin', repoUrl], {
-        cwd: localPath,
-        stdout: 'pipe',
-        stderr: 'pipe',
-      })
-      await gitRemote.exited
-      onProgress?.(75, 'Remote added', 'remote')
-
-      onProgress?.(85, 'Pushing to GitHub...', 'push')
-      const gitPush = Bun.spawn(['git', 'push', '-u', 'origin', branch], {
-        cwd: localPath,
-        stdout: 'pipe',
-        stderr: 'pipe',
-      })
-      const pushExitCode = await gitPush.exited
+  /**
+   * Commits changes in a pushed project and pushes them.
+   *
+   * @param localPath - Path to the local project (a clone with an `origin` remote)
+   * @param paths - Paths to commit, relative to the project
+   * @param message - Commit message
+   * @param branch - Branch to push
+   * @returns Result with the pushed commit SHA or error
+   */
+  async pushChanges(
+    localPath: string,
+    paths: string[],
+    message: string,
+    branch = 'main'
+  ): Promise<Result<IGitHubPushResult, ResultError<typeof AppErrorCode.GITHUB_ERROR>>> {
+    fileLog.info('GITHUB', 'Pushing changes', { localPath, paths, branch })
+    const github = getConfigService().get().github
+    const tokenResult = await this.authToken()
+    if (isErr(tokenResult)) {
+      return tokenResult
+    }
 
-      if (pushExitCode !== 0) {
-        const stderr = await new Response(gitPush.stderr).text()
-        throw new Error(stderr || 'Failed to push')
-      }
+    const result = await getGitService().push(localPath, {
+      branch,
+      message,
+      paths,
+      author: { name: github?.commitAuthorName, email: github?.commitAuthorEmail },
+      token: tokenResult.value,
+      strategy: github?.pushStrategy,
+    })
+    if (isErr(result)) {
+      return result
+    }
 
-      onProgress?.(100, 'Code pushed successfully', 'done')
-      log.success('Code pushed to GitHub')
-      fileLog.info('GITHUB', 'Code pushed successfully', {
-        localPath,
-        branch,
-        duration_ms: Date.now() - startTime
-      })
-      return { success: true } as IGitHubPushResult
-    }, AppErrorCode.GITHUB_ERROR)
+    log.success(`Changes pushed to ${branch}`)
+    return ok({ success: true, commitSha: result.value.commitSha })
+  }
+}
 
-    if (isErr(result)) {
-      fileLog.error('GITHUB', 'Failed to push to repository', {
-        localPath,
-        branch,
-        error: result.error.message,
-        duration_ms: Date.now() - startTime
-      })
+/**
+ * Gets the wait before retrying a failed request.
+ *
+ * @param method - HTTP method
+ * @param response - Failed response
+ * @param message - Error message from the response body
+ * @param attempt - Attempt that failed (1-based)
+ * @returns Delay in milliseconds, or undefined if the request should not be retried
+ */
+function retryDelay(method: string, response: Response, message: string, attempt: number): number | undefined {
+  const headers = response.headers
+  const retryAfter = Number(headers?.get('retry-after'))
+  const reset = Number(headers?.get('x-ratelimit-reset'))
+  const exhausted = headers?.get('x-ratelimit-remaining') === '0'
+
+  const rateLimited =
+    response.status === 429 ||
+    (response.status === 403 && (retryAfter > 0 || exhausted || /rate limit/i.test(message)))
+
+  if (rateLimited) {
+    if (retryAfter > 0) {
+      return retryAfter * 1000
+    }
+    if (exhausted && reset > 0) {
+      return Math.max(reset * 1000 - Date.now(), 0) + 1000
     }
+    return SECONDARY_RATE_LIMIT_DELAY_MS * 2 ** (attempt - 1)
+  }
 
-    return result
+  if (response.status >= 500 && IDEMPOTENT_METHODS.has(method)) {
+    const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)
+    return delay / 2 + Math.random() * (delay / 2)
+  }
+
+  return undefined
+}
+
+/**
+ * Records a response's rate-limit headers in the file log, as a warning
+ * once less than {@link RATE_LIMIT_WARNING_RATIO} of the limit is left.
+ *
+ * @param method - HTTP method
+ * @param endpoint - API endpoint
+ * @param response - Response
+ * @param durationMs - Request duration
+ */
+function logRateLimit(method: string, endpoint: string, response: Response, durationMs: number): void {
+  const headers = response.headers
+  const remaining = headers?.get('x-ratelimit-remaining')
+  if (remaining === null || remaining === undefined) {
+    return
   }
+
+  const limit = Number(headers.get('x-ratelimit-limit'))
+  const reset = Number(headers.get('x-ratelimit-reset'))
+  const data = {
+    method,
+    endpoint,
+    status: response.status,
+    resource: headers.get('x-ratelimit-resource') ?? undefined,
+    limit,
+    remaining: Number(remaining),
+    used: Number(headers.get('x-ratelimit-used')),
+    reset: reset > 0 ? new Date(reset * 1000).toISOString() : undefined,
+    duration_ms: durationMs,
+  }
+
+  if (data.remaining < limit * RATE_LIMIT_WARNING_RATIO) {
+    fileLog.warn('GITHUB', 'Rate limit running low', data)
+  } else {
+    fileLog.debug('GITHUB', 'Rate limit', data)
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
 }
 
 let instance: GitHubService | null = null
@@ -0,0 +1,311 @@
+/**
+ * GitLab service for mks-bot-father.
+ *
+ * @module
+ */
+
+import { ok, isErr, type Result } from '@mks2508/no-throw'
+import { createLogger, log as fileLog, parseRepoUrl } from '../utils/index.js'
+import { getConfigService } from './config.service.js'
+import { GitHostApi, type GitHostApiError } from './git-host-api.js'
+import {
+  type IGitHostProvider,
+  type IGitHubPushResult,
+  type IGitHubRepoOptions,
+  type IGitHubRepoResult,
+  type IGitRepoRef,
+  GitHost,
+} from '../types/index.js'
+import type { IProgressCallback } from '../types/progress.types.js'
+
+const log = createLogger('GitLabService')
+
+/** Instance used when `git.url` is not set */
+const GITLAB_URL = 'https://gitlab.com'
+
+/**
+ * Project as returned by the GitLab API.
+ */
+interface IGitLabProject {
+  id: number
+  web_url: string
+  http_url_to_repo: string
+  ssh_url_to_repo: string
+}
+
+/**
+ * GitLab service for repository (project) operations, on gitlab.com or a
+ * self-managed instance (`git.url`).
+ *
+ * Authenticates with a personal, group or project access token with the
+ * `api` scope (`git.token`, else `GITLAB_TOKEN`). Organizations are groups;
+ * owners may be nested groups (`group/subgroup`).
+ *
+ * @example
+ * ```typescript
+ * const gitlab = getGitLabService()
+ * const initResult = await gitlab.init()
+ * if (isOk(initResult)) {
+ *   const repoResult = await gitlab.createRepo({ name: 'my-bot', owner: 'acme' })
+ * }
+ * ```
+ */
+export class GitLabService implements IGitHostProvider {
+  readonly host = GitHost.GitLab
+  private readonly api = new GitHostApi({
+    label: 'GitLab',
+    logTag: 'GITLAB',
+    apiPath: '/api/v4',
+    authHeaders: (token) => ({ 'PRIVATE-TOKEN': token }),
+    errorMessage: gitLabErrorMessage,
+  })
+
+  /**
+   * Initializes the GitLab service by resolving the instance URL and token.
+   *
+   * @returns Result indicating success or error
+   */
+  async init(): Promise<Result<void, GitHostApiError>> {
+    const git = getConfigService().get().git
+    this.api.configure(git?.url || GITLAB_URL, git?.token || process.env['GITLAB_TOKEN'])
+
+    if (!this.api.token) {
+      log.error('No GitLab token available')
+      log.info('Configure with: mbf config set git.token <token>')
+      return this.api.fail('No GitLab token available', 'No GitLab token available', { reason: 'not_configured' })
+    }
+
+    fileLog.info('GITLAB', 'GitLab service initialized', { baseUrl: this.api.baseUrl })
+    return ok(undefined)
+  }
+
+  /**
+   * Gets the authenticated GitLab username.
+   *
+   * @returns Result with the username or error
+   */
+  async getAuthenticatedUser(): Promise<Result<string | undefined, GitHostApiError>> {
+    const result = await this.api.request<{ username: string }>('/user')
+    if (result.error) {
+      return this.api.fail('Failed to get authenticated user', result.error)
+    }
+    return ok(result.data?.username)
+  }
+
+  /**
+   * Checks if a name belongs to a group.
+   *
+   * @param name - Username or group path
+   * @returns Result with true for groups
+   */
+  async isOrganization(name: string): Promise<Result<boolean, GitHostApiError>> {
+    const result = await this.api.request<{ id: number }>(`/groups/${encodeURIComponent(name)}`)
+    if (result.status === 404) {
+      return ok(false)
+    }
+    if (result.error) {
+      return this.api.fail('Failed to look up group', result.error, { name })
+    }
+    return ok(true)
+  }
+
+  /**
+   * Checks if a project exists.
+   *
+   * @param owner - Project namespace
+   * @param repo - Project path
+   * @returns Result with true if it exists
+   */
+  async repoExists(owner: string, repo: string): Promise<Result<boolean, GitHostApiError>> {
+    const result = await this.api.request<IGitLabProject>(`/projects/${projectId(owner, repo)}`)
+    if (result.status === 404) {
+      return ok(false)
+    }
+    if (result.error) {
+      return this.api.fail('Failed to look up project', result.error, { owner, repo })
+    }
+    return ok(true)
+  }
+
+  /**
+   * Creates an empty project in a group, or in the user's namespace.
+   *
+   * @param options - Repository options
+   * @param onProgress - Optional progress callback
+   * @returns Result with the project URLs or error
+   */
+  async createRepo(
+    options: IGitHubRepoOptions,
+    onProgress?: IProgressCallback
+  ): Promise<Result<IGitHubRepoResult, GitHostApiError>> {
+    const startTime = Date.now()
+    fileLog.info('GITLAB', 'Creating project', { name: options.name, owner: options.owner })
+
+    let namespaceId: number | undefined
+    if (options.owner) {
+      onProgress?.(25, `Resolving namespace ${options.owner}`, 'auth')
+      const namespace = await this.api.request<{ id: number }>(`/namespaces/${encodeURIComponent(options.owner)}`)
+      if (namespace.error) {
+        return this.api.fail('Failed to resolve namespace', `Namespace ${options.owner}: ${namespace.error}`, {
+          owner: options.owner,
+        })
+      }
+      namespaceId = namespace.data?.id
+    }
+
+    onProgress?.(50, 'Creating project', 'create')
+    log.info(`Creating project ${options.name}`)
+    const result = await this.api.request<IGitLabProject>('/projects', {
+      method: 'POST',
+      body: JSON.stringify({
+        name: options.name,
+        path: options.name,
+        description: options.description || `Telegram bot created with mks-bot-father`,
+        visibility: (options.private ?? true) ? 'private' : 'public',
+        namespace_id: namespaceId,
+        initialize_with_readme: false,
+      }),
+    })
+
+    if (result.error || !result.data) {
+      const message = result.error || 'Empty response'
+      log.error(`Failed to create project: ${message}`)
+      return this.api.fail('Failed to create project', message, {
+        name: options.name,
+        owner: options.owner,
+        status: result.status,
+        duration_ms: Date.now() - startTime
+      })
+    }
+
+    onProgress?.(100, 'Project created successfully', 'done')
+    log.success(`Project created: ${result.data.web_url}`)
+    fileLog.info('GITLAB', 'Project created', {
+      name: options.name,
+      url: result.data.web_url,
+      duration_ms: Date.now() - startTime
+    })
+    return ok({
+      success: true,
+      repoUrl: result.data.web_url,
+      cloneUrl: result.data.http_url_to_repo,
+      sshUrl: result.data.ssh_url_to_repo,
+    })
+  }
+
+  /**
+   * Deletes a project.
+   *
+   * Deletion may be delayed by the instance's retention settings.
+   *
+   * @param owner - Project namespace
+   * @param repo - Project path
+   * @returns Result indicating success or error
+   */
+  async deleteRepo(owner: string, repo: string): Promise<Result<void, GitHostApiError>> {
+    const result = await this.api.request(`/projects/${projectId(owner, repo)}`, { method: 'DELETE' })
+    if (result.error) {
+      return this.api.fail('Failed to delete project', result.error, { owner, repo, status: result.status })
+    }
+
+    log.success(`Project deleted: ${owner}/${repo}`)
+    fileLog.info('GITLAB', 'Project deleted', { owner, repo })
+    return ok(undefined)
+  }
+
+  /**
+   * Archives a project.
+   *
+   * @param owner - Project namespace
+   * @param repo - Project path
+   * @returns Result indicating success or error
+   */
+  async archiveRepo(owner: string, repo: string): Promise<Result<void, GitHostApiError>> {
+    const result = await this.api.request(`/projects/${projectId(owner, repo)}/archive`, { method: 'POST' })
+    if (result.error) {
+      return this.api.fail('Failed to archive project', result.error, { owner, repo, status: result.status })
+    }
+
+    fileLog.info('GITLAB', 'Project archived', { owner, repo })
+    return ok(undefined)
+  }
+
+  /**
+   * Pushes local code to a GitLab project with the `github.*` commit and
+   * push settings.
+   *
+   * @param repoUrl - HTTPS clone URL
+   * @param localPath - Path to the local project
+   * @param branch - Branch name to push to
+   * @param onProgress - Optional progress callback
+   * @returns Result with the pushed commit SHA or error
+   */
+  async pushToRepo(
+    repoUrl: string,
+    localPath: string,
+    branch = 'main',
+    onProgress?: IProgressCallback
+  ): Promise<Result<IGitHubPushResult, GitHostApiError>> {
+    const result = await this.api.push(repoUrl, localPath, branch, 'oauth2', onProgress)
+    if (isErr(result)) {
+      return result
+    }
+
+    log.success('Code pushed to GitLab')
+    return result
+  }
+
+  /**
+   * Gets the namespace and path of a project from its URL.
+   *
+   * @param repoUrl - Project web or clone URL
+   * @returns Namespace and path, or undefined for URLs of other hosts
+   */
+  parseRepoUrl(repoUrl: string): IGitRepoRef | undefined {
+    return parseRepoUrl(repoUrl, this.api.baseUrl ?? GITLAB_URL, true)
+  }
+}
+
+/**
+ * Builds the URL-encoded ID of a project.
+ *
+ * @param owner - Project namespace
+ * @param repo - Project path
+ * @returns Encoded `namespace/path`
+ */
+function projectId(owner: string, repo: string): string {
+  return encodeURIComponent(`${owner}/${repo}`)
+}
+
+/**
+ * Gets the message of a GitLab error response.
+ *
+ * Validation errors come as `{ message: { name: ['has already been taken'] } }`.
+ *
+ * @param body - Response body
+ * @returns Error message, if any
+ */
+function gitLabErrorMessage(body: Record<string, unknown>): string | undefined {
+  const { message, error } = body
+  if (typeof message === 'string') {
+    return message
+  }
+  if (message && typeof message === 'object') {
+    return Object.entries(message).map(([field, errors]) => `${field} ${String(errors)}`).join('; ')
+  }
+  return typeof error === 'string' ? error : undefined
+}
+
+let instance: GitLabService | null = null
+
+/**
+ * Gets the singleton GitLabService instance.
+ *
+ * @returns The GitLabService instance
+ */
+export function getGitLabService(): GitLabService {
+  if (!instance) {
+    instance = new GitLabService()
+  }
+  return instance
+}
@@ -9,13 +9,52 @@ export {
   getConfigService,
   CONFIG_DIR,
   CONFIG_FILE,
+  DEFAULT_PROFILE,
+  SECRET_CONFIG_KEYS,
+  PROJECT_CONFIG_FILE,
+  CONFIG_DEFAULTS,
+  configEnvVarName,
 } from './config.service.js'
 
+export {
+  CONFIG_VERSION,
+  CONFIG_MIGRATIONS,
+  migrateConfig,
+} from './config-migrations.js'
+
 export {
   GitHubService,
   getGitHubService,
 } from './github.service.js'
 
+export { GITHUB_CACHE_FILE } from './github-cache.js'
+
+export { GitHubAppAuth, createAppJwt } from './github-app.js'
+
+export {
+  GitLabService,
+  getGitLabService,
+} from './gitlab.service.js'
+
+export {
+  GiteaService,
+  getGiteaService,
+} from './gitea.service.js'
+
+export {
+  GIT_HOST_LABELS,
+  getGitHostProvider,
+  getGitHostDefaults,
+  resolveGitHost,
+  isGitHost,
+} from './git-host.js'
+
+export {
+  GitService,
+  getGitService,
+  DEFAULT_COMMIT_MESSAGE,
+} from './git.service.js'
+
 export {
   CoolifyService,
   getCoolifyService,
@@ -23,9 +62,73 @@ export {
   type ICoolifyDestination,
 } from './coolify.service.js'
 
+export {
+  CoolifyDeployTarget,
+  getCoolifyDeployTarget,
+} from './coolify-deploy-target.js'
+
+export {
+  DockerComposeService,
+  getDockerComposeService,
+  buildComposeFile,
+  composeProjectName,
+  DEFAULT_COMPOSE_DIR,
+} from './docker-compose.service.js'
+
+export {
+  DEPLOY_TARGET_LABELS,
+  getDeployTarget,
+  resolveDeployTarget,
+  isDeployTarget,
+} from './deploy-target.js'
+
 export {
   BotFatherService,
   getBotFatherService,
   type IBotCreateOptions,
   type IBotCreateResult,
+  type IBotEnv,
 } from './botfather.service.js'
+
+export {
+  CheckpointService,
+  getCheckpointService,
+  RUNS_DIR,
+  redactSecrets,
+} from './checkpoint.service.js'
+
+export {
+  TelegramBotApiService,
+  getTelegramBotApiService,
+  generateWebhookSecret,
+} from './telegram-bot-api.service.js'
+
+export {
+  ManifestService,
+  getManifestService,
+  MANIFEST_FILES,
+  APPLIED_DIR,
+} from './manifest.service.js'
+
+export {
+  BatchFileService,
+  getBatchFileService,
+} from './batch-file.service.js'
+
+export {
+  DoctorService,
+  getDoctorService,
+} from './doctor.service.js'
+
+export {
+  InventoryService,
+  getInventoryService,
+} from './inventory.service.js'
+
+export {
+  TemplateService,
+  getTemplateService,
+  TEMPLATES_DIR,
+  TEMPLATE_MANIFEST_FILE,
+  BUILTIN_TEMPLATE_VARIABLES,
+} from './template.service.js'
@@ -0,0 +1,386 @@
+/**
+ * Bot inventory service for mks-bot-father.
+ *
+ * @module
+ */
+
+import { ok, isErr, type Result, type ResultError } from '@mks2508/no-throw'
+import { createLogger, log as fileLog } from '../utils/index.js'
+import { getConfigService } from './config.service.js'
+import { getBotFatherService } from './botfather.service.js'
+import { getGitHubService } from './github.service.js'
+import { getCoolifyService } from './coolify.service.js'
+import {
+  InventoryDrift,
+  InventorySource,
+  type Environment,
+  type IGitHubRepoInfo,
+  type IInventory,
+  type IInventoryDrift,
+  type IInventoryEntry,
+  type IInventoryOptions,
+  type IInventorySourceStatus,
+} from '../types/index.js'
+import { AppErrorCode } from '../types/errors.js'
+
+const log = createLogger('InventoryService')
+
+/**
+ * Coolify application fields the inventory uses.
+ */
+interface IInventoryApp {
+  uuid: string
+  name: string
+  status: string
+}
+
+/**
+ * Correlates BotFather, `.envs`, GitHub and Coolify into one list of bots
+ * and reports the drift between them.
+ *
+ * Resources are matched by bot username: repository and application names
+ * are converted the way the pipeline derives a username from a bot name
+ * (`My Bot` → `my_bot`), so the repo and app `my-bot` belong to `@my_bot`.
+ * Repositories and applications that match no bot are only listed (as
+ * orphans) when their name ends in "bot", so unrelated repos and apps are
+ * left out.
+ *
+ * A source that cannot be read (not configured, network error) is reported
+ * in `sources` and the drift that depends on it is not flagged.
+ *
+ * @example
+ * ```typescript
+ * const result = await getInventoryService().collect({ skipBotFather: true })
+ * if (isOk(result)) {
+ *   for (const entry of result.value.entries) {
+ *     console.log(entry.name, entry.drift.map((drift) => drift.type))
+ *   }
+ * }
+ * ```
+ */
+export class InventoryService {
+  private configService = getConfigService()
+  private botFatherService = getBotFatherService()
+  private githubService = getGitHubService()
+  private coolifyService = getCoolifyService()
+
+  /**
+   * Builds the inventory. Read-only.
+   *
+   * @param options - GitHub owner and sources to skip
+   * @returns Result with the inventory
+   */
+  async collect(options: IInventoryOptions = {}): Promise<Result<IInventory, ResultError<typeof AppErrorCode.UNKNOWN_ERROR>>> {
+    const startTime = Date.now()
+    log.info('Building bot inventory')
+
+    const botFather = await this.readBotFather(options.skipBotFather ?? false)
+    const envs = await this.readEnvs()
+    const github = await this.readGitHub(options.githubOwner)
+    const coolify = await this.readCoolify()
+
+    const sources: IInventory['sources'] = {
+      [InventorySource.BotFather]: botFather.status,
+      [InventorySource.Envs]: envs.status,
+      [InventorySource.GitHub]: github.status,
+      [InventorySource.Coolify]: coolify.status,
+    }
+
+    const bots = new Set([...botFather.usernames, ...envs.bots.keys()])
+    const repos = new Map<string, IGitHubRepoInfo>()
+    for (const repo of github.repos) {
+      const key = this.key(repo.name)
+      if (!repos.has(key)) {
+        repos.set(key, repo)
+      }
+    }
+    const apps = new Map<string, IInventoryApp>()
+    for (const app of coolify.apps) {
+      const key = this.key(app.name)
+      if (!apps.has(key)) {
+        apps.set(key, app)
+      }
+    }
+
+    const keys = new Set(bots)
+    for (const [key, resource] of [...repos, ...apps]) {
+      if (looksLikeBot(resource.name)) {
+        keys.add(key)
+      }
+    }
+
+    const entries: IInventoryEntry[] = []
+    for (const key of keys) {
+      const repo = repos.get(key)
+      const app = apps.get(key)
+      const botEnvs = envs.bots.get(key)
+      const isBot = bots.has(key)
+
+      const entry: IInventoryEntry = {
+        name: isBot ? key : (repo?.name ?? app!.name),
+        botFather: botFather.status.available ? botFather.usernames.has(key) : undefined,
+        envs: botEnvs?.environments ?? [],
+        repo: repo && { owner: repo.owner, name: repo.name, url: repo.repoUrl, private: repo.private },
+        app,
+        drift: [],
+      }
+
+      entry.drift = isBot
+        ? await this.botDrift(entry, sources, botEnvs?.tokens ?? new Set())
+        : orphanDrift(entry)
+      entries.push(entry)
+    }
+
+    entries.sort((a, b) => a.name.localeCompare(b.name))
+    const driftCount = entries.reduce((total, entry) => total + entry.drift.length, 0)
+
+    fileLog.info('INVENTORY', 'Inventory built', {
+      bots: bots.size,
+      entries: entries.length,
+      driftCount,
+      unavailable: Object.entries(sources)
+        .filter(([, status]) => !status.available)
+        .map(([source]) => source),
+      duration_ms: Date.now() - startTime,
+    })
+    return ok({ entries, sources, driftCount })
+  }
+
+  /**
+   * Checks a bot against every available source.
+   *
+   * @param entry - Bot entry
+   * @param sources - Source availability
+   * @param tokens - Bot tokens stored in `.envs`
+   * @returns Drift found
+   */
+  private async botDrift(
+    entry: IInventoryEntry,
+    sources: IInventory['sources'],
+    tokens: Set<string>
+  ): Promise<IInventoryDrift[]> {
+    const drift: IInventoryDrift[] = []
+
+    if (sources.botfather.available && !entry.botFather) {
+      drift.push({ type: InventoryDrift.NotInBotFather, message: 'In .envs but not listed by BotFather' })
+    }
+    if (sources.envs.available && entry.botFather && entry.envs.length === 0) {
+      drift.push({ type: InventoryDrift.NoEnv, message: 'No token in .envs' })
+    }
+    if (sources.github.available && !entry.repo) {
+      drift.push({ type: InventoryDrift.NoRepo, message: 'No GitHub repository' })
+    }
+
+    if (entry.app) {
+      if (!isRunning(entry.app.status)) {
+        drift.push({ type: InventoryDrift.AppStopped, message: `Coolify app is ${entry.app.status || 'not running'}` })
+      }
+
+      if (tokens.size > 0) {
+        const envResult = await this.coolifyService.getEnvironmentVariables(entry.app.uuid)
+        if (isErr(envResult)) {
+          log.warn(`Cannot read the environment of ${entry.app.name}: ${envResult.error.message}`)
+        } else if (!('TG_BOT_TOKEN' in envResult.value)) {
+          drift.push({ type: InventoryDrift.TokenMismatch, message: 'TG_BOT_TOKEN is not set in Coolify' })
+        } else {
+          // Undefined when the API token may not read secrets
+          const token = envResult.value['TG_BOT_TOKEN']
+          if (token !== undefined && !tokens.has(token)) {
+            drift.push({ type: InventoryDrift.TokenMismatch, message: 'TG_BOT_TOKEN in Coolify differs from .envs' })
+          }
+        }
+      }
+    }
+
+    return drift
+  }
+
+  /**
+   * Reads the bots listed by BotFather.
+   *
+   * @param skip - Do not connect to Telegram
+   * @returns Source status and lowercase usernames
+   */
+  private async readBotFather(skip: boolean): Promise<{ status: IInventorySourceStatus; usernames: Set<string> }> {
+    if (skip) {
+      return { status: { available: false, count: 0, error: 'Skipped' }, usernames: new Set() }
+    }
+
+    const initResult = await this.botFatherService.init()
+    if (isErr(initResult)) {
+      return { status: unavailable(initResult.error.message), usernames: new Set() }
+    }
+
+    const listResult = await this.botFatherService.listBots()
+    await this.botFatherService.disconnect()
+    if (isErr(listResult)) {
+      return { status: unavailable(listResult.error.message), usernames: new Set() }
+    }
+
+    const usernames = new Set(listResult.value.map((username) => this.key(username)))
+    return { status: { available: true, count: usernames.size }, usernames }
+  }
+
+  /**
+   * Reads the bots in `.envs` and their tokens.
+   *
+   * @returns Source status and, per bot, its environments and tokens
+   */
+  private async readEnvs(): Promise<{
+    status: IInventorySourceStatus
+    bots: Map<string, { environments: Environment[]; tokens: Set<string> }>
+  }> {
+    const bots = new Map<string, { environments: Environment[]; tokens: Set<string> }>()
+
+    const listResult = await this.botFatherService.listBotEnvs()
+    if (isErr(listResult)) {
+      return { status: unavailable(listResult.error.message), bots }
+    }
+
+    for (const bot of listResult.value) {
+      const tokens = new Set<string>()
+      for (const environment of bot.environments) {
+        const envResult = await this.botFatherService.getBotEnv(bot.username, environment)
+        if (!isErr(envResult) && envResult.value?.botToken) {
+          tokens.add(envResult.value.botToken)
+        }
+      }
+      bots.set(this.key(bot.username), { environments: bot.environments, tokens })
+    }
+
+    return { status: { available: true, count: bots.size }, bots }
+  }
+
+  /**
+   * Reads the repositories of the configured owner.
+   *
+   * @param owner - Owner override
+   * @returns Source status and repositories
+   */
+  private async readGitHub(owner?: string): Promise<{ status: IInventorySourceStatus; repos: IGitHubRepoInfo[] }> {
+    const initResult = await this.githubService.init()
+    if (isErr(initResult)) {
+      return { status: unavailable(initResult.error.message), repos: [] }
+    }
+
+    let resolvedOwner = owner || this.configService.get().github?.defaultOrg
+    if (!resolvedOwner) {
+      const userResult = await this.githubService.getAuthenticatedUser()
+      if (isErr(userResult) || !userResult.value) {
+        return { status: unavailable(isErr(userResult) ? userResult.error.message : 'Unknown GitHub user'), repos: [] }
+      }
+      resolvedOwner = userResult.value
+    }
+
+    const listResult = await this.githubService.listRepos(resolvedOwner)
+    if (isErr(listResult)) {
+      return { status: unavailable(listResult.error.message), repos: [] }
+    }
+
+    return { status: { available: true, count: listResult.value.length }, repos: listResult.value }
+  }
+
+  /**
+   * Reads the Coolify applications.
+   *
+   * @returns Source status and applications
+   */
+  private async readCoolify(): Promise<{ status: IInventorySourceStatus; apps: IInventoryApp[] }> {
+    if (!this.configService.getCoolifyUrl() || !this.configService.getCoolifyToken()) {
+      return { status: unavailable('Coolify not configured'), apps: [] }
+    }
+
+    const initResult = await this.coolifyService.init()
+    if (isErr(initResult)) {
+      return { status: unavailable(initResult.error.message), apps: [] }
+    }
+
+    const listResult = await this.coolifyService.listApplications()
+    if (isErr(listResult)) {
+      return { status: unavailable(listResult.error.message), apps: [] }
+    }
+
+    const apps = listResult.value.map((app: { uuid: string; name: string; status?: string }) => ({
+      uuid: app.uuid,
+      name: app.name,
+      status: app.status ?? '',
+    }))
+    return { status: { available: true, count: apps.length }, apps }
+  }
+
+  /**
+   * Gets the key resources are matched by.
+   *
+   * @param name - Bot username, repository or application name
+   * @returns Bot username the name corresponds to
+   */
+  private key(name: string): string {
+    return this.botFatherService.generateBotUsername(name)
+  }
+}
+
+/**
+ * Gets the drift of a resource that belongs to no bot.
+ *
+ * @param entry - Orphaned entry
+ * @returns Drift found
+ */
+function orphanDrift(entry: IInventoryEntry): IInventoryDrift[] {
+  const drift: IInventoryDrift[] = []
+
+  if (entry.repo) {
+    drift.push({ type: InventoryDrift.OrphanedRepo, message: 'Repository with no bot in BotFather or .envs' })
+  }
+  if (entry.app) {
+    drift.push({ type: InventoryDrift.OrphanedApp, message: 'Coolify app with no bot in BotFather or .envs' })
+    if (!isRunning(entry.app.status)) {
+      drift.push({ type: InventoryDrift.AppStopped, message: `Coolify app is ${entry.app.status || 'not running'}` })
+    }
+  }
+
+  return drift
+}
+
+/**
+ * Builds the status of a source that could not be read.
+ *
+ * @param error - Reason
+ * @returns Source status
+ */
+function unavailable(error: string): IInventorySourceStatus {
+  return { available: false, count: 0, error }
+}
+
+/**
+ * Checks whether a repository or application name looks like a bot.
+ *
+ * @param name - Name
+ * @returns True if it ends in "bot" (e.g. `weather-bot`, `WeatherBot`)
+ */
+function looksLikeBot(name: string): boolean {
+  return /bot$/i.test(name.replace(/[^a-z0-9]/gi, ''))
+}
+
+/**
+ * Checks whether a Coolify application status means it is up.
+ *
+ * @param status - Status (e.g. `running:healthy`, `exited:unhealthy`)
+ * @returns True if running
+ */
+function isRunning(status: string): boolean {
+  return status.startsWith('running')
+}
+
+let instance: InventoryService | null = null
+
+/**
+ * Gets the singleton InventoryService instance.
+ *
+ * @returns The InventoryService instance
+ */
+export function getInventoryService(): InventoryService {
+  if (!instance) {
+    instance = new InventoryService()
+  }
+  return instance
+}
@@ -0,0 +1,237 @@
+/**
+ * Bot manifest service for mks-bot-father.
+ *
+ * @module
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs'
+import { createHash } from 'node:crypto'
+import { extname, join, resolve } from 'node:path'
+import { ok, err, tryCatch, isErr, type Result, type ResultError } from '@mks2508/no-throw'
+import { type } from 'arktype'
+import { createLogger, log as fileLog } from '../utils/index.js'
+import { CONFIG_DIR } from './config.service.js'
+import { BotManifestSchema, DeployTarget, GitHost, type IBotManifest, type IPipelineOptions } from '../types/index.js'
+import { AppErrorCode } from '../types/errors.js'
+
+const log = createLogger('ManifestService')
+
+/** Manifest file names looked up when no path is given, in priority order */
+export const MANIFEST_FILES = ['mbf.bot.json', 'mbf.bot.yaml', 'mbf.bot.yml'] as const
+
+/** Directory where the last applied state of write-only values is recorded */
+export const APPLIED_DIR = join(CONFIG_DIR, 'applied')
+
+/**
+ * Last applied state of a bot, for values that cannot be read back.
+ */
+interface IAppliedState {
+  /** SHA-256 of the Coolify environment variables */
+  coolifyEnvHash?: string
+  /** When the state was last written */
+  appliedAt: string
+}
+
+/**
+ * Loads and validates bot manifests and tracks their applied state.
+ *
+ * @example
+ * ```typescript
+ * const manifests = getManifestService()
+ * const result = manifests.load('mbf.bot.yaml')
+ * if (isErr(result)) {
+ *   console.error(result.error.message)
+ * }
+ * ```
+ */
+export class ManifestService {
+  /**
+   * Finds a manifest file in a directory.
+   *
+   * @param dir - Directory to search (defaults to cwd)
+   * @returns Path of the first manifest found, or undefined
+   */
+  find(dir = process.cwd()): string | undefined {
+    return MANIFEST_FILES.map((file) => join(dir, file)).find((path) => existsSync(path))
+  }
+
+  /**
+   * Loads a manifest from a JSON or YAML file and validates it.
+   *
+   * YAML files (`.yaml`/`.yml`) are parsed with `Bun.YAML`.
+   *
+   * @param path - Manifest file path
+   * @returns Result with the manifest or error
+   */
+  load(path: string): Result<IBotManifest, ResultError<typeof AppErrorCode.VALIDATION_ERROR>> {
+    const filePath = resolve(path)
+
+    if (!existsSync(filePath)) {
+      return err({
+        code: AppErrorCode.VALIDATION_ERROR,
+        message: `Manifest not found: ${filePath}`,
+      })
+    }
+
+    const parsed = tryCatch(() => {
+      const raw = readFileSync(filePath, 'utf-8')
+      const ext = extname(filePath).toLowerCase()
+      return ext === '.yaml' || ext === '.yml' ? Bun.YAML.parse(raw) : JSON.parse(raw)
+    }, AppErrorCode.VALIDATION_ERROR)
+
+    if (isErr(parsed)) {
+      return err({
+        code: AppErrorCode.VALIDATION_ERROR,
+        message: `Cannot parse manifest ${filePath}: ${parsed.error.message}`,
+      })
+    }
+
+    const result = this.validate(parsed.value)
+    if (isErr(result)) {
+      fileLog.warn('MANIFEST', 'Invalid manifest', { path: filePath, error: result.error.message })
+      return err({
+        ...result.error,
+        message: `Invalid manifest ${filePath}: ${result.error.message}`,
+      })
+    }
+
+    log.debug(`Manifest loaded: ${filePath}`)
+    fileLog.info('MANIFEST', 'Manifest loaded', { path: filePath, name: result.value.name })
+    return result
+  }
+
+  /**
+   * Validates a parsed manifest.
+   *
+   * @param data - Parsed manifest
+   * @returns Result with the manifest or error
+   */
+  validate(data: unknown): Result<IBotManifest, ResultError<typeof AppErrorCode.VALIDATION_ERROR>> {
+    const result = BotManifestSchema(data)
+
+    if (result instanceof type.errors) {
+      return err({ code: AppErrorCode.VALIDATION_ERROR, message: result.summary })
+    }
+
+    if (result.coolify && !result.github) {
+      return err({
+        code: AppErrorCode.VALIDATION_ERROR,
+        message: 'coolify requires a github section (Coolify deploys from the repository)',
+      })
+    }
+
+    return ok(result)
+  }
+
+  /**
+   * Maps a manifest to pipeline options.
+   *
+   * @param manifest - Bot manifest
+   * @returns Pipeline options creating the declared resources
+   */
+  toPipelineOptions(manifest: IBotManifest): IPipelineOptions {
+    return {
+      botName: manifest.name,
+      botDescription: manifest.description,
+      template: manifest.template,
+      templateVariables: manifest.templateVariables,
+      createGitHubRepo: !!manifest.github,
+      // Apply reads the repository from GitHub, whatever git.host says
+      gitHost: GitHost.GitHub,
+      githubOrg: manifest.github?.org,
+      githubVisibility: manifest.github?.visibility,
+      deployToCoolify: !!manifest.coolify,
+      // Manifests describe Coolify applications, whatever deploy.target says
+      deployTarget: DeployTarget.Coolify,
+      coolifyServer: manifest.coolify?.server,
+      coolifyDestination: manifest.coolify?.destination,
+      coolifyProject: manifest.coolify?.project,
+      coolifyEnvironment: manifest.coolify?.environment,
+      coolifyEnvVars: manifest.env,
+    }
+  }
+
+  /**
+   * Hashes environment variables so they can be compared without storing them.
+   *
+   * @param envVars - Environment variables
+   * @returns SHA-256 hex digest, independent of key order
+   */
+  hashEnv(envVars: Record<string, string>): string {
+    const sorted = Object.keys(envVars)
+      .sort()
+      .map((key) => [key, envVars[key]])
+    return createHash('sha256').update(JSON.stringify(sorted)).digest('hex')
+  }
+
+  /**
+   * Gets the hash of the Coolify environment variables last applied to a bot.
+   *
+   * @param botUsername - Bot username
+   * @returns The hash, or undefined if none was recorded
+   */
+  getAppliedEnvHash(botUsername: string): string | undefined {
+    const filePath = this.getAppliedPath(botUsername)
+    if (!existsSync(filePath)) {
+      return undefined
+    }
+
+    const result = tryCatch(
+      () => JSON.parse(readFileSync(filePath, 'utf-8')) as IAppliedState,
+      AppErrorCode.VALIDATION_ERROR
+    )
+    if (isErr(result)) {
+      log.warn(`Ignoring unreadable applied state: ${filePath}`)
+      return undefined
+    }
+    return result.value.coolifyEnvHash
+  }
+
+  /**
+   * Records the hash of the Coolify environment variables applied to a bot.
+   *
+   * @param botUsername - Bot username
+   * @param hash - Hash from {@link ManifestService.hashEnv}
+   * @returns Result indicating success or error
+   */
+  saveAppliedEnvHash(
+    botUsername: string,
+    hash: string
+  ): Result<void, ResultError<typeof AppErrorCode.CONFIG_ERROR>> {
+    return tryCatch(() => {
+      if (!existsSync(APPLIED_DIR)) {
+        mkdirSync(APPLIED_DIR, { recursive: true, mode: 0o700 })
+      }
+
+      const state: IAppliedState = { coolifyEnvHash: hash, appliedAt: new Date().toISOString() }
+      const filePath = this.getAppliedPath(botUsername)
+      const tmpPath = `${filePath}.tmp`
+      writeFileSync(tmpPath, JSON.stringify(state, null, 2), { mode: 0o600 })
+      renameSync(tmpPath, filePath)
+    }, AppErrorCode.CONFIG_ERROR)
+  }
+
+  /**
+   * Gets the applied state file path for a bot.
+   *
+   * @param botUsername - Bot username
+   * @returns Absolute path to the state file
+   */
+  private getAppliedPath(botUsername: string): string {
+    return join(APPLIED_DIR, `${botUsername.replace(/[^A-Za-z0-9_]/g, '_')}.json`)
+  }
+}
+
+let instance: ManifestService | null = null
+
+/**
+ * Gets the singleton ManifestService instance.
+ *
+ * @returns The ManifestService instance
+ */
+export function getManifestService(): ManifestService {
+  if (!instance) {
+    instance = new ManifestService()
+  }
+  return instance
+}
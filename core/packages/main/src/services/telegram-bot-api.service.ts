@@ -0,0 +1,229 @@
+/**
+ * Telegram Bot API service for mks-bot-father.
+ *
+ * Reads bot state and manages webhooks with the bot's own token, without a
+ * BotFather session.
+ *
+ * @module
+ */
+
+import { randomBytes } from 'node:crypto'
+import { ok, err, isErr, type Result, type ResultError } from '@mks2508/no-throw'
+import { createLogger, log as fileLog } from '../utils/index.js'
+import type { IBotCommand, ISetWebhookOptions, IWebhookInfo } from '../types/index.js'
+import { AppErrorCode } from '../types/errors.js'
+
+const log = createLogger('TelegramBotApiService')
+
+const TELEGRAM_API = 'https://api.telegram.org'
+
+/**
+ * `getWebhookInfo` result as returned by the Bot API.
+ */
+interface ITelegramWebhookInfo {
+  url: string
+  has_custom_certificate: boolean
+  pending_update_count: number
+  ip_address?: string
+  last_error_date?: number
+  last_error_message?: string
+  last_synchronization_error_date?: number
+  max_connections?: number
+  allowed_updates?: string[]
+}
+
+/**
+ * Bot API response envelope.
+ */
+interface ITelegramApiResponse<T> {
+  ok: boolean
+  result?: T
+  description?: string
+  error_code?: number
+}
+
+/**
+ * Telegram Bot API service.
+ *
+ * @example
+ * ```typescript
+ * const botApi = getTelegramBotApiService()
+ * const commandsResult = await botApi.getMyCommands(botToken)
+ * if (isOk(commandsResult)) {
+ *   console.log(commandsResult.value)
+ * }
+ * ```
+ */
+export class TelegramBotApiService {
+  /**
+   * Calls a Bot API method.
+   *
+   * @param botToken - Bot token
+   * @param method - Bot API method name
+   * @param params - Method parameters
+   * @returns Result with the method result or error
+   */
+  private async call<T>(
+    botToken: string,
+    method: string,
+    params: Record<string, unknown> = {}
+  ): Promise<Result<T, ResultError<typeof AppErrorCode.BOTFATHER_ERROR | typeof AppErrorCode.NETWORK_ERROR>>> {
+    const startTime = Date.now()
+
+    try {
+      const response = await fetch(`${TELEGRAM_API}/bot${botToken}/${method}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(params),
+      })
+      const data = (await response.json()) as ITelegramApiResponse<T>
+
+      if (!data.ok) {
+        const message = data.description || `HTTP ${response.status}`
+        log.error(`Bot API ${method} failed: ${message}`)
+        fileLog.error('TELEGRAM', 'Bot API call failed', {
+          method,
+          error: message,
+          status: data.error_code ?? response.status,
+          duration_ms: Date.now() - startTime
+        })
+        return err({ code: AppErrorCode.BOTFATHER_ERROR, message })
+      }
+
+      fileLog.info('TELEGRAM', 'Bot API call completed', {
+        method,
+        duration_ms: Date.now() - startTime
+      })
+      return ok(data.result as T)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      fileLog.error('TELEGRAM', 'Bot API request failed', {
+        method,
+        error: message,
+        duration_ms: Date.now() - startTime
+      })
+      return err({ code: AppErrorCode.NETWORK_ERROR, message })
+    }
+  }
+
+  /**
+   * Gets the bot's command list (default scope and language).
+   *
+   * @param botToken - Bot token
+   * @returns Result with the commands or error
+   */
+  async getMyCommands(
+    botToken: string
+  ): Promise<Result<IBotCommand[], ResultError<typeof AppErrorCode.BOTFATHER_ERROR | typeof AppErrorCode.NETWORK_ERROR>>> {
+    return this.call<IBotCommand[]>(botToken, 'getMyCommands')
+  }
+
+  /**
+   * Registers a webhook, replacing any previous one.
+   *
+   * @param botToken - Bot token
+   * @param options - Webhook URL, secret and delivery options
+   * @returns Result indicating success or error
+   */
+  async setWebhook(
+    botToken: string,
+    options: ISetWebhookOptions
+  ): Promise<Result<void, ResultError<typeof AppErrorCode.BOTFATHER_ERROR | typeof AppErrorCode.NETWORK_ERROR>>> {
+    log.info(`Setting webhook: ${options.url}`)
+
+    const result = await this.call<boolean>(botToken, 'setWebhook', {
+      url: options.url,
+      secret_token: options.secretToken,
+      drop_pending_updates: options.dropPendingUpdates,
+      allowed_updates: options.allowedUpdates,
+      max_connections: options.maxConnections,
+    })
+
+    if (isErr(result)) {
+      return result
+    }
+
+    log.success('Webhook set')
+    return ok(undefined)
+  }
+
+  /**
+   * Gets the current webhook state, including the last delivery error.
+   *
+   * @param botToken - Bot token
+   * @returns Result with the webhook info or error
+   */
+  async getWebhookInfo(
+    botToken: string
+  ): Promise<Result<IWebhookInfo, ResultError<typeof AppErrorCode.BOTFATHER_ERROR | typeof AppErrorCode.NETWORK_ERROR>>> {
+    const result = await this.call<ITelegramWebhookInfo>(botToken, 'getWebhookInfo')
+
+    if (isErr(result)) {
+      return result
+    }
+
+    const info = result.value
+    const toIso = (seconds?: number) =>
+      seconds ? new Date(seconds * 1000).toISOString() : undefined
+
+    return ok({
+      url: info.url,
+      hasCustomCertificate: info.has_custom_certificate,
+      pendingUpdateCount: info.pending_update_count,
+      ipAddress: info.ip_address,
+      lastErrorDate: toIso(info.last_error_date),
+      lastErrorMessage: info.last_error_message,
+      lastSynchronizationErrorDate: toIso(info.last_synchronization_error_date),
+      maxConnections: info.max_connections,
+      allowedUpdates: info.allowed_updates,
+    })
+  }
+
+  /**
+   * Removes the webhook, switching the bot back to `getUpdates` polling.
+   *
+   * @param botToken - Bot token
+   * @param dropPendingUpdates - Also drop updates waiting to be delivered
+   * @returns Result indicating success or error
+   */
+  async deleteWebhook(
+    botToken: string,
+    dropPendingUpdates = false
+  ): Promise<Result<void, ResultError<typeof AppErrorCode.BOTFATHER_ERROR | typeof AppErrorCode.NETWORK_ERROR>>> {
+    log.info('Deleting webhook')
+
+    const result = await this.call<boolean>(botToken, 'deleteWebhook', {
+      drop_pending_updates: dropPendingUpdates,
+    })
+
+    if (isErr(result)) {
+      return result
+    }
+
+    log.success('Webhook deleted')
+    return ok(undefined)
+  }
+}
+
+/**
+ * Generates a webhook secret token.
+ *
+ * @returns 64 hex characters, valid as a Bot API `secret_token`
+ */
+export function generateWebhookSecret(): string {
+  return randomBytes(32).toString('hex')
+}
+
+let instance: TelegramBotApiService | null = null
+
+/**
+ * Gets the singleton TelegramBotApiService instance.
+ *
+ * @returns The TelegramBotApiService instance
+ */
+export function getTelegramBotApiService(): TelegramBotApiService {
+  if (!instance) {
+    instance = new TelegramBotApiService()
+  }
+  return instance
+}
@@ -0,0 +1,741 @@
+/**
+ * Custom template registry for mks-bot-father.
+ *
+ * @module
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  readlinkSync,
+  renameSync,
+  rmSync,
+  statSync,
+  symlinkSync,
+  writeFileSync,
+} from 'node:fs'
+import { basename, dirname, join, resolve } from 'node:path'
+import { ok, err, isErr, tryCatch, type Result, type ResultError } from '@mks2508/no-throw'
+import { type } from 'arktype'
+import { createLogger, log as fileLog } from '../utils/index.js'
+import { CONFIG_DIR } from './config.service.js'
+import {
+  TemplateManifestSchema,
+  TemplateSourceType,
+  TemplateType,
+  type IRegisteredTemplate,
+  type ITemplateAddOptions,
+  type ITemplateManifest,
+  type ITemplateRenderOptions,
+  type ITemplateRenderResult,
+  type ITemplateSource,
+} from '../types/index.js'
+import { AppErrorCode } from '../types/errors.js'
+
+const log = createLogger('TemplateService')
+
+/** Directory holding the template registry and fetched templates */
+export const TEMPLATES_DIR = join(CONFIG_DIR, 'templates')
+
+/** Manifest file every template has at its root */
+export const TEMPLATE_MANIFEST_FILE = 'template.json'
+
+/** Variables every template can use without declaring them */
+export const BUILTIN_TEMPLATE_VARIABLES = ['projectName', 'botUsername', 'botDescription'] as const
+
+const REGISTRY_FILE = join(TEMPLATES_DIR, 'registry.json')
+
+const TEMPLATE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g
+
+/** Entries of a template that are never copied into the project */
+const IGNORED_ENTRIES = new Set([TEMPLATE_MANIFEST_FILE, '.git', 'node_modules'])
+
+/**
+ * Registry file contents.
+ */
+interface ITemplateRegistry {
+  templates: IRegisteredTemplate[]
+}
+
+/**
+ * Template with its manifest and the values it is rendered with.
+ */
+interface IResolvedTemplate {
+  template: IRegisteredTemplate
+  manifest: ITemplateManifest
+  variables: Record<string, string>
+}
+
+type TemplateError = ResultError<typeof AppErrorCode.SCAFFOLD_ERROR | typeof AppErrorCode.VALIDATION_ERROR>
+
+/**
+ * Registry of custom project templates.
+ *
+ * Templates come from a local directory (used in place), a git repository
+ * or a tarball (fetched into `TEMPLATES_DIR/<name>`). Each one has a
+ * `template.json` declaring its variables; `{{variable}}` placeholders are
+ * replaced in file contents and names when a project is rendered.
+ *
+ * @example
+ * ```typescript
+ * const templates = getTemplateService()
+ * await templates.add('https://github.com/acme/bot-starter.git#v2')
+ *
+ * const result = templates.render('bot-starter', '/work/my-bot', {
+ *   variables: { port: '8080' },
+ *   builtins: { projectName: 'my-bot', botUsername: 'my_bot' },
+ * })
+ * ```
+ */
+export class TemplateService {
+  /**
+   * Checks whether a template is one of the built-in bunspace templates.
+   *
+   * @param name - Template name
+   * @returns True for `telegram-bot`, `monorepo` and `fumadocs`
+   */
+  isBuiltin(name: string): name is TemplateType {
+    return (Object.values(TemplateType) as string[]).includes(name)
+  }
+
+  /**
+   * Works out the source type of a template location.
+   *
+   * Archives (`.tar`, `.tar.gz`, `.tgz`) are tarballs; URLs, `git@` remotes
+   * and `.git` paths are git repositories (a `#ref` suffix selects the
+   * branch or tag); anything else is a local directory.
+   *
+   * @param location - Directory, archive path or URL
+   * @param ref - Git branch or tag (overrides the `#ref` suffix)
+   * @returns Template source
+   */
+  parseSource(location: string, ref?: string): ITemplateSource {
+    const isUrl = /^[a-z+]+:\/\//i.test(location)
+
+    if (/\.(tar|tar\.gz|tgz)$/i.test(location.split(/[?#]/)[0]!)) {
+      return { type: TemplateSourceType.Tarball, location: isUrl ? location : resolve(location) }
+    }
+
+    if (isUrl || location.startsWith('git@') || /\.git(#.*)?$/.test(location)) {
+      const [url, urlRef] = location.split('#')
+      const gitRef = ref ?? urlRef
+      return { type: TemplateSourceType.Git, location: url!, ...(gitRef ? { ref: gitRef } : {}) }
+    }
+
+    return { type: TemplateSourceType.Local, location: resolve(location) }
+  }
+
+  /**
+   * Lists the registered templates.
+   *
+   * @returns Result with the templates, sorted by name
+   */
+  list(): Result<IRegisteredTemplate[], ResultError<typeof AppErrorCode.SCAFFOLD_ERROR>> {
+    const registry = this.readRegistry()
+    if (isErr(registry)) {
+      return registry
+    }
+
+    return ok([...registry.value.templates].sort((a, b) => a.name.localeCompare(b.name)))
+  }
+
+  /**
+   * Gets a registered template.
+   *
+   * @param name - Template name
+   * @returns Result with the template or error if it is not registered
+   */
+  get(name: string): Result<IRegisteredTemplate, ResultError<typeof AppErrorCode.SCAFFOLD_ERROR>> {
+    const registry = this.readRegistry()
+    if (isErr(registry)) {
+      return registry
+    }
+
+    const template = registry.value.templates.find((entry) => entry.name === name)
+    if (!template) {
+      return err({
+        code: AppErrorCode.SCAFFOLD_ERROR,
+        message: `Unknown template: ${name} (built-in: ${Object.values(TemplateType).join(', ')}; add one with mbf template add)`,
+      })
+    }
+
+    return ok(template)
+  }
+
+  /**
+   * Adds a template to the registry.
+   *
+   * Git and tarball templates are fetched and validated before they are
+   * registered. Adding a template under an existing name replaces it, which
+   * also refreshes a git or tarball template.
+   *
+   * @param location - Directory, git URL or tarball path/URL
+   * @param options - Name override and git ref
+   * @returns Result with the registered template or error
+   */
+  async add(location: string, options: ITemplateAddOptions = {}): Promise<Result<IRegisteredTemplate, TemplateError>> {
+    const source = this.parseSource(location, options.ref)
+    log.info(`Adding ${source.type} template: ${source.location}`)
+
+    if (source.type === TemplateSourceType.Local) {
+      return this.register(source, source.location, options.name)
+    }
+
+    const dirResult = tryCatch(() => {
+      mkdirSync(TEMPLATES_DIR, { recursive: true })
+      return mkdtempSync(join(TEMPLATES_DIR, '.staging-'))
+    }, AppErrorCode.SCAFFOLD_ERROR)
+    if (isErr(dirResult)) {
+      return dirResult
+    }
+
+    const stagingDir = dirResult.value
+    try {
+      const fetchResult = source.type === TemplateSourceType.Git
+        ? await this.fetchGit(source, join(stagingDir, 'template'))
+        : await this.fetchTarball(source, stagingDir)
+      if (isErr(fetchResult)) {
+        return fetchResult
+      }
+
+      return this.register(source, fetchResult.value, options.name)
+    } finally {
+      rmSync(stagingDir, { recursive: true, force: true })
+    }
+  }
+
+  /**
+   * Removes a template from the registry, along with its fetched files.
+   *
+   * Local templates are only unregistered; their directory is left alone.
+   *
+   * @param name - Template name
+   * @returns Result with the removed template or error
+   */
+  remove(name: string): Result<IRegisteredTemplate, ResultError<typeof AppErrorCode.SCAFFOLD_ERROR>> {
+    const templateResult = this.get(name)
+    if (isErr(templateResult)) {
+      return templateResult
+    }
+
+    const template = templateResult.value
+    return tryCatch(() => {
+      const templates = this.readRegistrySync().templates.filter((entry) => entry.name !== name)
+      this.writeRegistry({ templates })
+
+      if (template.source.type !== TemplateSourceType.Local) {
+        rmSync(template.path, { recursive: true, force: true })
+      }
+
+      fileLog.info('TEMPLATE', 'Template removed', { name })
+      log.success(`Template removed: ${name}`)
+      return template
+    }, AppErrorCode.SCAFFOLD_ERROR)
+  }
+
+  /**
+   * Loads and validates the `template.json` of a template directory.
+   *
+   * @param dir - Template directory
+   * @returns Result with the manifest or error
+   */
+  loadManifest(dir: string): Result<ITemplateManifest, ResultError<typeof AppErrorCode.VALIDATION_ERROR>> {
+    const manifestPath = join(dir, TEMPLATE_MANIFEST_FILE)
+    if (!existsSync(manifestPath)) {
+      return err({
+        code: AppErrorCode.VALIDATION_ERROR,
+        message: `No ${TEMPLATE_MANIFEST_FILE} in ${dir}`,
+      })
+    }
+
+    const parsed = tryCatch(() => JSON.parse(readFileSync(manifestPath, 'utf-8')), AppErrorCode.VALIDATION_ERROR)
+    if (isErr(parsed)) {
+      return err({
+        code: AppErrorCode.VALIDATION_ERROR,
+        message: `Cannot parse ${manifestPath}: ${parsed.error.message}`,
+      })
+    }
+
+    const manifest = TemplateManifestSchema(parsed.value)
+    if (manifest instanceof type.errors) {
+      return err({ code: AppErrorCode.VALIDATION_ERROR, message: `Invalid ${manifestPath}: ${manifest.summary}` })
+    }
+
+    const names = new Set<string>()
+    for (const variable of manifest.variables ?? []) {
+      if ((BUILTIN_TEMPLATE_VARIABLES as readonly string[]).includes(variable.name)) {
+        return err({
+          code: AppErrorCode.VALIDATION_ERROR,
+          message: `Invalid ${manifestPath}: ${variable.name} is a built-in variable`,
+        })
+      }
+      if (names.has(variable.name)) {
+        return err({
+          code: AppErrorCode.VALIDATION_ERROR,
+          message: `Invalid ${manifestPath}: variable ${variable.name} is declared twice`,
+        })
+      }
+      if (variable.pattern !== undefined && isErr(tryCatch(() => new RegExp(variable.pattern!), AppErrorCode.VALIDATION_ERROR))) {
+        return err({
+          code: AppErrorCode.VALIDATION_ERROR,
+          message: `Invalid ${manifestPath}: pattern of ${variable.name} is not a valid regular expression`,
+        })
+      }
+      names.add(variable.name)
+    }
+
+    return ok(manifest)
+  }
+
+  /**
+   * Resolves a template and the values of its variables.
+   *
+   * Missing values fall back to the declared defaults. Fails if a required
+   * variable has no value, a value does not match its `pattern` or
+   * `choices`, a value is given for a variable the template does not
+   * declare, or a variable used in file or directory names has a value with
+   * a path separator or `..`.
+   *
+   * @param name - Template name
+   * @param variables - Values of the declared variables
+   * @param builtins - Values of the built-in variables
+   * @returns Result with the template, its manifest and every value
+   */
+  resolve(
+    name: string,
+    variables: Record<string, string> = {},
+    builtins: Record<string, string> = {}
+  ): Result<IResolvedTemplate, TemplateError> {
+    const templateResult = this.get(name)
+    if (isErr(templateResult)) {
+      return templateResult
+    }
+
+    const template = templateResult.value
+    if (!existsSync(template.path)) {
+      return err({
+        code: AppErrorCode.SCAFFOLD_ERROR,
+        message: `Template ${name} is missing from ${template.path}; add it again with mbf template add`,
+      })
+    }
+
+    const manifestResult = this.loadManifest(template.path)
+    if (isErr(manifestResult)) {
+      return manifestResult
+    }
+
+    const manifest = manifestResult.value
+    const declared = manifest.variables ?? []
+
+    const unknown = Object.keys(variables).filter((key) => !declared.some((variable) => variable.name === key))
+    if (unknown.length > 0) {
+      const known = declared.map((variable) => variable.name).join(', ') || 'none'
+      return err({
+        code: AppErrorCode.VALIDATION_ERROR,
+        message: `Template ${name} has no variable ${unknown.join(', ')} (declared: ${known})`,
+      })
+    }
+
+    const values: Record<string, string> = { ...builtins }
+    for (const variable of declared) {
+      const value = variables[variable.name] ?? (variable.default === undefined ? undefined : substitute(variable.default, values))
+
+      if (value === undefined || value === '') {
+        if (variable.required) {
+          return err({
+            code: AppErrorCode.VALIDATION_ERROR,
+            message: `Template ${name} needs a value for ${variable.name}${variable.description ? ` (${variable.description})` : ''}`,
+          })
+        }
+        values[variable.name] = ''
+        continue
+      }
+
+      if (variable.choices && !variable.choices.includes(value)) {
+        return err({
+          code: AppErrorCode.VALIDATION_ERROR,
+          message: `Invalid ${variable.name}: ${value} (expected one of ${variable.choices.join(', ')})`,
+        })
+      }
+      if (variable.pattern !== undefined && !new RegExp(variable.pattern).test(value)) {
+        return err({
+          code: AppErrorCode.VALIDATION_ERROR,
+          message: `Invalid ${variable.name}: ${value} does not match ${variable.pattern}`,
+        })
+      }
+
+      values[variable.name] = value
+    }
+
+    const inNames = namePlaceholders(template.path)
+    for (const [key, value] of Object.entries(values)) {
+      if (inNames.has(key) && (/[/\\]/.test(value) || value.includes('..'))) {
+        return err({
+          code: AppErrorCode.VALIDATION_ERROR,
+          message: `Invalid ${key}: ${value} is used in file names and must not contain path separators or ..`,
+        })
+      }
+    }
+
+    return ok({ template, manifest, variables: values })
+  }
+
+  /**
+   * Renders a template into a new project directory.
+   *
+   * Files are copied with `{{variable}}` placeholders replaced in their
+   * contents (text files only) and names. Placeholders that name no
+   * variable are left as they are. `template.json`, `.git` and
+   * `node_modules` are not copied.
+   *
+   * @param name - Template name
+   * @param projectPath - Directory to create (must not exist)
+   * @param options - Variable values; `projectName` defaults to the directory name
+   * @returns Result with the project path and the values used
+   */
+  render(
+    name: string,
+    projectPath: string,
+    options: ITemplateRenderOptions = {}
+  ): Result<ITemplateRenderResult, TemplateError> {
+    if (existsSync(projectPath)) {
+      return err({ code: AppErrorCode.SCAFFOLD_ERROR, message: `Directory ${projectPath} already exists` })
+    }
+
+    const builtins = { projectName: basename(projectPath), ...options.builtins }
+    const resolved = this.resolve(name, options.variables, builtins)
+    if (isErr(resolved)) {
+      return resolved
+    }
+
+    const { template, variables } = resolved.value
+    const result = tryCatch(() => {
+      copyRendered(template.path, projectPath, variables)
+      return { projectPath, variables }
+    }, AppErrorCode.SCAFFOLD_ERROR)
+
+    if (isErr(result)) {
+      fileLog.error('TEMPLATE', 'Template render failed', { name, projectPath, error: result.error.message })
+      return result
+    }
+
+    fileLog.info('TEMPLATE', 'Template rendered', { name, projectPath })
+    log.success(`Rendered ${name} into ${projectPath}`)
+    return result
+  }
+
+  /**
+   * Validates a fetched template and records it in the registry.
+   *
+   * @param source - Template source
+   * @param dir - Directory holding the template files
+   * @param nameOverride - Name to register the template under
+   * @returns Result with the registered template or error
+   */
+  private register(
+    source: ITemplateSource,
+    dir: string,
+    nameOverride?: string
+  ): Result<IRegisteredTemplate, TemplateError> {
+    if (!existsSync(dir) || !statSync(dir).isDirectory()) {
+      return err({ code: AppErrorCode.VALIDATION_ERROR, message: `Template directory not found: ${dir}` })
+    }
+
+    const manifestResult = this.loadManifest(dir)
+    if (isErr(manifestResult)) {
+      return manifestResult
+    }
+
+    const manifest = manifestResult.value
+    const name = nameOverride ?? manifest.name
+    if (!TEMPLATE_NAME_PATTERN.test(name)) {
+      return err({
+        code: AppErrorCode.VALIDATION_ERROR,
+        message: `Invalid template name: ${name} (lowercase letters, digits and dashes)`,
+      })
+    }
+    if (this.isBuiltin(name)) {
+      return err({
+        code: AppErrorCode.VALIDATION_ERROR,
+        message: `${name} is a built-in template; pass --name to register it under another name`,
+      })
+    }
+
+    return tryCatch(() => {
+      const path = source.type === TemplateSourceType.Local ? dir : join(TEMPLATES_DIR, name)
+      if (path !== dir) {
+        replaceDirectory(dir, path)
+        rmSync(join(path, '.git'), { recursive: true, force: true })
+      }
+
+      const template: IRegisteredTemplate = {
+        name,
+        ...(manifest.description ? { description: manifest.description } : {}),
+        source,
+        path,
+        addedAt: new Date().toISOString(),
+      }
+
+      const templates = this.readRegistrySync().templates.filter((entry) => entry.name !== name)
+      this.writeRegistry({ templates: [...templates, template] })
+
+      fileLog.info('TEMPLATE', 'Template added', { name, source: source.type, location: source.location })
+      log.success(`Template added: ${name}`)
+      return template
+    }, AppErrorCode.SCAFFOLD_ERROR)
+  }
+
+  /**
+   * Clones a git template.
+   *
+   * @param source - Git source
+   * @param dir - Directory to clone into
+   * @returns Result with the template directory or error
+   */
+  private async fetchGit(
+    source: ITemplateSource,
+    dir: string
+  ): Promise<Result<string, ResultError<typeof AppErrorCode.SCAFFOLD_ERROR>>> {
+    const refArgs = source.ref ? ['--branch', source.ref] : []
+    const cloneResult = await runCommand(['git', 'clone', '--depth', '1', ...refArgs, source.location, dir])
+    if (isErr(cloneResult)) {
+      return err({ ...cloneResult.error, message: `Cannot clone ${source.location}: ${cloneResult.error.message}` })
+    }
+
+    return ok(dir)
+  }
+
+  /**
+   * Downloads (for URLs) and extracts a tarball template.
+   *
+   * Archives with a single top-level directory (as GitHub produces) are
+   * unwrapped.
+   *
+   * @param source - Tarball source
+   * @param stagingDir - Scratch directory
+   * @returns Result with the template directory or error
+   */
+  private async fetchTarball(
+    source: ITemplateSource,
+    stagingDir: string
+  ): Promise<Result<string, ResultError<typeof AppErrorCode.SCAFFOLD_ERROR>>> {
+    let archivePath = source.location
+
+    if (/^https?:\/\//i.test(source.location)) {
+      archivePath = join(stagingDir, 'template.tar')
+      try {
+        const response = await fetch(source.location)
+        if (!response.ok) {
+          return err({
+            code: AppErrorCode.SCAFFOLD_ERROR,
+            message: `Cannot download ${source.location}: HTTP ${response.status}`,
+          })
+        }
+        writeFileSync(archivePath, Buffer.from(await response.arrayBuffer()))
+      } catch (error) {
+        return err({
+          code: AppErrorCode.SCAFFOLD_ERROR,
+          message: `Cannot download ${source.location}: ${error instanceof Error ? error.message : String(error)}`,
+        })
+      }
+    } else if (!existsSync(archivePath)) {
+      return err({ code: AppErrorCode.SCAFFOLD_ERROR, message: `Archive not found: ${archivePath}` })
+    }
+
+    const extractDir = join(stagingDir, 'template')
+    const dirResult = tryCatch(() => mkdirSync(extractDir), AppErrorCode.SCAFFOLD_ERROR)
+    if (isErr(dirResult)) {
+      return dirResult
+    }
+
+    const extractResult = await runCommand(['tar', '-xf', archivePath, '-C', extractDir])
+    if (isErr(extractResult)) {
+      return err({ ...extractResult.error, message: `Cannot extract ${source.location}: ${extractResult.error.message}` })
+    }
+
+    const entries = readdirSync(extractDir, { withFileTypes: true })
+    const [onlyEntry] = entries
+    if (entries.length === 1 && onlyEntry!.isDirectory() && !existsSync(join(extractDir, TEMPLATE_MANIFEST_FILE))) {
+      return ok(join(extractDir, onlyEntry!.name))
+    }
+
+    return ok(extractDir)
+  }
+
+  /**
+   * Reads the registry file.
+   *
+   * @returns Result with the registry (empty if the file does not exist)
+   */
+  private readRegistry(): Result<ITemplateRegistry, ResultError<typeof AppErrorCode.SCAFFOLD_ERROR>> {
+    const result = tryCatch(() => this.readRegistrySync(), AppErrorCode.SCAFFOLD_ERROR)
+    if (isErr(result)) {
+      return err({ ...result.error, message: `Cannot read ${REGISTRY_FILE}: ${result.error.message}` })
+    }
+    return result
+  }
+
+  /**
+   * Reads the registry file, throwing on malformed contents.
+   *
+   * @returns Registry (empty if the file does not exist)
+   */
+  private readRegistrySync(): ITemplateRegistry {
+    if (!existsSync(REGISTRY_FILE)) {
+      return { templates: [] }
+    }
+    return JSON.parse(readFileSync(REGISTRY_FILE, 'utf-8')) as ITemplateRegistry
+  }
+
+  /**
+   * Writes the registry file atomically.
+   *
+   * @param registry - Registry contents
+   */
+  private writeRegistry(registry: ITemplateRegistry): void {
+    mkdirSync(TEMPLATES_DIR, { recursive: true })
+    const tmpPath = `${REGISTRY_FILE}.tmp`
+    writeFileSync(tmpPath, JSON.stringify(registry, null, 2) + '\n')
+    renameSync(tmpPath, REGISTRY_FILE)
+  }
+}
+
+/**
+ * Replaces `{{variable}}` placeholders that name a known variable.
+ *
+ * @param text - Text with placeholders
+ * @param variables - Variable values
+ * @returns Text with the placeholders replaced
+ */
+function substitute(text: string, variables: Record<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    Object.hasOwn(variables, name) ? variables[name]! : placeholder
+  )
+}
+
+/**
+ * Collects the variables named by placeholders in the file and directory
+ * names of a template.
+ *
+ * @param dir - Template directory
+ * @returns Variable names
+ */
+function namePlaceholders(dir: string): Set<string> {
+  const names = new Set<string>()
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (IGNORED_ENTRIES.has(entry.name)) {
+      continue
+    }
+    for (const match of entry.name.matchAll(PLACEHOLDER_PATTERN)) {
+      names.add(match[1]!)
+    }
+    if (entry.isDirectory()) {
+      for (const name of namePlaceholders(join(dir, entry.name))) {
+        names.add(name)
+      }
+    }
+  }
+  return names
+}
+
+/**
+ * Moves a directory over another one. The old directory is moved aside
+ * first and only deleted once the new one is in place; if the move fails,
+ * it is put back.
+ *
+ * @param from - Directory to move
+ * @param to - Directory to replace
+ */
+function replaceDirectory(from: string, to: string): void {
+  const previous = join(dirname(to), `.previous-${basename(to)}`)
+  rmSync(previous, { recursive: true, force: true })
+
+  const replacing = existsSync(to)
+  if (replacing) {
+    renameSync(to, previous)
+  }
+  try {
+    renameSync(from, to)
+  } catch (error) {
+    if (replacing) {
+      renameSync(previous, to)
+    }
+    throw error
+  }
+  rmSync(previous, { recursive: true, force: true })
+}
+
+/**
+ * Copies a template directory, substituting variables in names and text files.
+ *
+ * @param from - Template directory
+ * @param to - Destination directory (created)
+ * @param variables - Variable values
+ */
+function copyRendered(from: string, to: string, variables: Record<string, string>): void {
+  mkdirSync(to, { recursive: true })
+
+  for (const entry of readdirSync(from, { withFileTypes: true })) {
+    if (IGNORED_ENTRIES.has(entry.name)) {
+      continue
+    }
+
+    const source = join(from, entry.name)
+    const target = join(to, substitute(entry.name, variables))
+
+    if (entry.isDirectory()) {
+      copyRendered(source, target, variables)
+    } else if (entry.isSymbolicLink()) {
+      symlinkSync(readlinkSync(source), target)
+    } else if (entry.isFile()) {
+      const content = readFileSync(source)
+      // A NUL byte marks a binary file, which is copied untouched
+      const isBinary = content.subarray(0, 8000).includes(0)
+      writeFileSync(target, isBinary ? content : substitute(content.toString('utf-8'), variables), {
+        mode: statSync(source).mode & 0o777,
+      })
+    }
+  }
+}
+
+/**
+ * Runs a command and captures its stderr.
+ *
+ * @param cmd - Command and arguments
+ * @returns Result indicating success, or the command's stderr as the error
+ */
+async function runCommand(cmd: string[]): Promise<Result<void, ResultError<typeof AppErrorCode.SCAFFOLD_ERROR>>> {
+  try {
+    const proc = Bun.spawn(cmd, { stdout: 'pipe', stderr: 'pipe' })
+    const stderr = await new Response(proc.stderr).text()
+    const exitCode = await proc.exited
+    if (exitCode !== 0) {
+      return err({ code: AppErrorCode.SCAFFOLD_ERROR, message: stderr.trim() || `${cmd[0]} exited with ${exitCode}` })
+    }
+    return ok(undefined)
+  } catch (error) {
+    return err({
+      code: AppErrorCode.SCAFFOLD_ERROR,
+      message: error instanceof Error ? error.message : `Cannot run ${cmd[0]}`,
+    })
+  }
+}
+
+let instance: TemplateService | null = null
+
+/**
+ * Gets the singleton TemplateService instance.
+ *
+ * @returns The TemplateService instance
+ */
+export function getTemplateService(): TemplateService {
+  if (!instance) {
+    instance = new TemplateService()
+  }
+  return instance
+}
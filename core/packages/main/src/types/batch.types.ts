@@ -0,0 +1,96 @@
+/**
+ * Batch pipeline types for mks-bot-father.
+ *
+ * @module
+ */
+
+import { type } from 'arktype'
+
+/**
+ * Schema of one bot in a batch file (JSON array element or CSV row).
+ *
+ * Omitted fields fall back to the CLI flags of `mbf create --batch`.
+ */
+export const BatchEntrySchema = type({
+  name: 'string > 0',
+  'description?': 'string',
+  'template?': /^[a-z0-9][a-z0-9-]*$/,
+  'github?': 'boolean',
+  'githubOrg?': 'string',
+  'deploy?': 'boolean',
+  'deployTarget?': '"coolify" | "docker-compose"',
+  'coolifyServer?': 'string',
+  'coolifyDest?': 'string',
+  'skipBotfather?': 'boolean',
+})
+
+/**
+ * Batch file entry type.
+ */
+export type IBatchEntry = typeof BatchEntrySchema.infer
+
+/**
+ * Options for {@link Pipeline.runBatch}.
+ */
+export interface IBatchOptions {
+  /** Maximum number of pipelines running at once (default 3) */
+  concurrency?: number
+  /** Retries of the BotFather step after a flood-wait error (default 3) */
+  floodWaitRetries?: number
+  /** Backoff base when Telegram does not say how long to wait (default 5000) */
+  floodWaitBaseDelayMs?: number
+  /** Progress callback, per bot */
+  onProgress?: (botName: string, progress: number, message: string, step?: string) => void
+  /** Called as each bot finishes */
+  onItemComplete?: (item: IBatchItemResult) => void
+}
+
+/**
+ * Outcome of one bot in a batch.
+ *
+ * Never contains the bot token, so it is safe to write to a report.
+ */
+export interface IBatchItemResult {
+  /** Bot name */
+  botName: string
+  /** Whether the bot's pipeline succeeded */
+  success: boolean
+  /** Run ID for `mbf resume` */
+  runId?: string
+  /** Bot username */
+  botUsername?: string
+  /** GitHub repository URL */
+  githubRepoUrl?: string
+  /** Coolify application UUID */
+  coolifyAppUuid?: string
+  /** Coolify dashboard URL */
+  deploymentUrl?: string
+  /** Errors encountered */
+  errors: string[]
+  /** Wall-clock duration of the bot's pipeline */
+  durationMs: number
+}
+
+/**
+ * Consolidated batch report.
+ */
+export interface IBatchResult {
+  /** Whether every bot succeeded */
+  success: boolean
+  /** Number of bots */
+  total: number
+  /** Number of bots that succeeded */
+  succeeded: number
+  /** Number of bots that failed */
+  failed: number
+  /** Flood-wait errors absorbed by retries */
+  floodWaits: number
+  /** ISO timestamp the batch started */
+  startedAt: string
+  /** ISO timestamp the batch finished */
+  finishedAt: string
+  /** Wall-clock duration of the batch */
+  durationMs: number
+  /** Per-bot outcomes, in input order */
+  items: IBatchItemResult[]
+}
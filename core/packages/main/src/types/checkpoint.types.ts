@@ -0,0 +1,77 @@
+/**
+ * Checkpoint types for resumable pipeline runs.
+ *
+ * @module
+ */
+
+import type { IPipelineOptions } from './pipeline.types.js'
+
+/**
+ * Status of a persisted pipeline run.
+ */
+export type PipelineRunStatus = 'running' | 'failed' | 'completed' | 'rolled-back'
+
+/**
+ * Pipeline options persisted in a checkpoint (callbacks are not serializable).
+ */
+export type PersistedPipelineOptions = Omit<IPipelineOptions, 'onProgress' | 'onEvent'>
+
+/**
+ * Outputs produced by completed pipeline steps.
+ */
+export interface IPipelineStepOutputs {
+  /** Bot token (BotFather step) */
+  botToken?: string
+  /** Bot username (BotFather step) */
+  botUsername?: string
+  /** Path to the scaffolded project (scaffold step) */
+  projectPath?: string
+  /** Repository web URL, on any git host (GitHub step) */
+  githubRepoUrl?: string
+  /** Repository SSH clone URL (GitHub step) */
+  gitSshUrl?: string
+  /** Application ID on the deploy target: Coolify UUID or compose project (Coolify step) */
+  coolifyAppUuid?: string
+  /** Coolify dashboard URL, or compose file path (Coolify step) */
+  deploymentUrl?: string
+  /** Registered Telegram webhook URL (webhook step) */
+  webhookUrl?: string
+  /** Path of the committed workflow, relative to the project (CI workflow step) */
+  ciWorkflowPath?: string
+  /** Outputs of custom steps (must be JSON-serializable) */
+  [key: string]: unknown
+}
+
+/**
+ * Persisted state of a pipeline run.
+ */
+export interface IPipelineCheckpoint {
+  /** Unique run identifier */
+  runId: string
+  /** Current run status */
+  status: PipelineRunStatus
+  /** ISO timestamp of run creation */
+  createdAt: string
+  /** ISO timestamp of the last checkpoint write */
+  updatedAt: string
+  /** Options the run was started with */
+  options: PersistedPipelineOptions
+  /** Steps that completed successfully, in execution order */
+  completedSteps: string[]
+  /** Step that failed on the last attempt */
+  failedStep?: string
+  /** Outputs collected from completed steps */
+  outputs: IPipelineStepOutputs
+  /** Errors from the last attempt */
+  errors: string[]
+}
+
+/**
+ * Options for resuming a pipeline run.
+ */
+export interface IPipelineResumeOptions {
+  /** Progress callback for the resumed run */
+  onProgress?: IPipelineOptions['onProgress']
+  /** Event listener for the resumed run */
+  onEvent?: IPipelineOptions['onEvent']
+}
@@ -0,0 +1,27 @@
+/**
+ * CI workflow types for mks-bot-father.
+ *
+ * @module
+ */
+
+/**
+ * Coolify deploy triggered by the workflow on push to `main`.
+ */
+export interface ICiWorkflowDeploy {
+  /** Coolify instance URL */
+  coolifyUrl: string
+  /** UUID of the Coolify application to deploy */
+  appUuid: string
+  /** Actions secret holding the Coolify API token */
+  tokenSecret: string
+}
+
+/**
+ * Options for generating the GitHub Actions workflow.
+ */
+export interface ICiWorkflowOptions {
+  /** `package.json` scripts the check job runs, in order */
+  scripts: string[]
+  /** Deploy job (omitted when the bot is not deployed to Coolify) */
+  deploy?: ICiWorkflowDeploy
+}
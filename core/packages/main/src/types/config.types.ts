@@ -14,6 +14,21 @@ export const GitHubConfigSchema = type({
   'useGhCli?': 'boolean',
   'defaultOrg?': 'string',
   'defaultVisibility?': '"public" | "private"',
+  'hardenRepo?': 'boolean',
+  'botTokenSecret?': /^[A-Za-z_][A-Za-z0-9_]*$/,
+  'topics?': /^[a-z0-9][a-z0-9-]{0,49}(,[a-z0-9][a-z0-9-]{0,49})*$/,
+  'protectBranch?': 'boolean',
+  'requiredApprovals?': '0 <= number.integer <= 6',
+  'mergeMethods?': /^(merge|squash|rebase)(,(merge|squash|rebase))*$/,
+  'deleteBranchOnMerge?': 'boolean',
+  'commitAuthorName?': 'string',
+  'commitAuthorEmail?': /^[^\s@]+@[^\s@]+$/,
+  'commitMessage?': 'string > 0',
+  'pushStrategy?': '"rebase" | "force-with-lease"',
+  'appId?': 'number.integer > 0',
+  'appInstallationId?': 'number.integer > 0',
+  'appPrivateKey?': 'string',
+  'appPrivateKeyPath?': 'string',
 })
 
 /**
@@ -21,6 +36,23 @@ export const GitHubConfigSchema = type({
  */
 export type IGitHubConfig = typeof GitHubConfigSchema.infer
 
+/**
+ * Git host configuration schema (`host` selects the provider; the other
+ * fields apply to GitLab and Gitea, GitHub uses the `github` section).
+ */
+export const GitConfigSchema = type({
+  'host?': '"github" | "gitlab" | "gitea"',
+  'url?': /^https?:\/\/\S+$/,
+  'token?': 'string',
+  'defaultOwner?': 'string',
+  'defaultVisibility?': '"public" | "private"',
+})
+
+/**
+ * Git host configuration type.
+ */
+export type IGitConfig = typeof GitConfigSchema.infer
+
 /**
  * Coolify configuration schema.
  */
@@ -31,6 +63,8 @@ export const CoolifyConfigSchema = type({
   'defaultDestination?': 'string',
   'defaultProject?': 'string',
   'defaultEnvironment?': 'string',
+  'deployToken?': 'string',
+  'privateKeyUuid?': 'string',
 })
 
 /**
@@ -38,6 +72,22 @@ export const CoolifyConfigSchema = type({
  */
 export type ICoolifyConfig = typeof CoolifyConfigSchema.infer
 
+/**
+ * Deploy target configuration schema (`target` selects where bots are
+ * deployed; the `compose*` fields apply to the Docker Compose target).
+ */
+export const DeployConfigSchema = type({
+  'target?': '"coolify" | "docker-compose"',
+  'composeDir?': 'string',
+  'composePublicUrl?': /^https?:\/\/\S+$/,
+  'composeNetwork?': /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/,
+})
+
+/**
+ * Deploy target configuration type.
+ */
+export type IDeployConfig = typeof DeployConfigSchema.infer
+
 /**
  * Telegram credentials schema.
  */
@@ -56,7 +106,9 @@ export type ITelegramConfig = typeof TelegramConfigSchema.infer
  */
 export const ConfigSchema = type({
   'github?': GitHubConfigSchema,
+  'git?': GitConfigSchema,
   'coolify?': CoolifyConfigSchema,
+  'deploy?': DeployConfigSchema,
   'telegram?': TelegramConfigSchema,
 })
 
@@ -65,6 +117,101 @@ export const ConfigSchema = type({
  */
 export type IConfig = typeof ConfigSchema.infer
 
+/**
+ * Secrets encryption settings schema.
+ */
+export const EncryptionConfigSchema = type({
+  source: '"passphrase" | "keyfile"',
+  salt: 'string',
+  check: 'string',
+  'keyFile?': 'string',
+})
+
+/**
+ * Secrets encryption settings type.
+ */
+export type IEncryptionConfig = typeof EncryptionConfigSchema.infer
+
+/**
+ * Where the secrets encryption key comes from.
+ */
+export type ISecretKeySource = { passphrase: string } | { keyFile: string }
+
+/**
+ * Configuration file schema.
+ *
+ * The top-level sections form the `default` profile; named profiles hold
+ * their own complete set of sections. When `encryption` is set, the secret
+ * fields of every profile are stored encrypted. `version` is the schema
+ * version the file was written with (absent before versioning).
+ */
+export const ConfigFileSchema = type({
+  'version?': 'number.integer >= 0',
+  'github?': GitHubConfigSchema,
+  'git?': GitConfigSchema,
+  'coolify?': CoolifyConfigSchema,
+  'deploy?': DeployConfigSchema,
+  'telegram?': TelegramConfigSchema,
+  'activeProfile?': 'string',
+  'profiles?': type({ '[string]': ConfigSchema }),
+  'encryption?': EncryptionConfigSchema,
+})
+
+/**
+ * Configuration file type.
+ */
+export type IConfigFile = typeof ConfigFileSchema.infer
+
+/**
+ * A step upgrading the config file from `version - 1` to `version`.
+ */
+export interface IConfigMigration {
+  /** Version the file has after this migration */
+  version: number
+  /** What the migration changes */
+  description: string
+  /**
+   * Upgrades the parsed file.
+   *
+   * @param config - File contents at `version - 1`, not validated yet
+   * @returns File contents at `version`
+   */
+  migrate: (config: Record<string, unknown>) => Record<string, unknown>
+}
+
+/**
+ * Configuration sources, from lowest to highest precedence.
+ *
+ * - `default`: built-in defaults
+ * - `file`: the active profile of `~/.config/mks-bot-father/config.json`
+ * - `project`: the nearest `.mbfrc` in the working directory or its parents
+ * - `env`: `MBF_*` environment variables (e.g. `MBF_COOLIFY_URL`)
+ * - `cli`: `-c key=value` command-line flags
+ */
+export const ConfigLayer = {
+  Default: 'default',
+  File: 'file',
+  Project: 'project',
+  Env: 'env',
+  Cli: 'cli',
+} as const
+
+export type ConfigLayer = (typeof ConfigLayer)[keyof typeof ConfigLayer]
+
+/**
+ * Where an effective configuration value came from.
+ */
+export interface IConfigValueOrigin {
+  /** Dot-notation key (e.g. `coolify.url`) */
+  key: string
+  /** Effective value */
+  value: unknown
+  /** Layer that set the value */
+  layer: ConfigLayer
+  /** File path, environment variable or flag within the layer */
+  source: string
+}
+
 /**
  * Environment type for bot configurations.
  */
@@ -0,0 +1,218 @@
+/**
+ * Deploy target types for mks-bot-father.
+ *
+ * @module
+ */
+
+import type { Result, ResultError } from '@mks2508/no-throw'
+import type { AppErrorCode } from './errors.js'
+import type { GitHost } from './git-host.types.js'
+import type { IProgressCallback } from './progress.types.js'
+
+/**
+ * Supported deploy targets.
+ */
+export const DeployTarget = {
+  Coolify: 'coolify',
+  DockerCompose: 'docker-compose',
+} as const
+
+export type DeployTarget = (typeof DeployTarget)[keyof typeof DeployTarget]
+
+/**
+ * Repository an application is built from.
+ */
+export interface IDeployRepository {
+  /** Git host of the repository */
+  host: GitHost
+  /** Repository web URL */
+  url: string
+  /** SSH clone URL */
+  sshUrl?: string
+  /** Whether the repository is private */
+  private: boolean
+}
+
+/**
+ * Options for {@link IDeployTarget.createApp}.
+ *
+ * Each target reads the fields it needs: Coolify builds from `repository`
+ * and places the app with the Coolify UUIDs (defaulting to the
+ * `coolify.default*` config), Docker Compose builds from `projectPath`.
+ */
+export interface IDeployAppOptions {
+  /** Application name (the bot name) */
+  name: string
+  /** Application description */
+  description?: string
+  /** Path to the local project */
+  projectPath?: string
+  /** Repository the application is built from */
+  repository?: IDeployRepository
+  /** Coolify server UUID */
+  serverUuid?: string
+  /** Coolify destination UUID */
+  destinationUuid?: string
+  /** Coolify project UUID */
+  projectUuid?: string
+  /** Coolify environment UUID */
+  environmentUuid?: string
+}
+
+/**
+ * Application created by {@link IDeployTarget.createApp}.
+ */
+export interface IDeployApp {
+  /** Application ID (Coolify UUID, Compose project name) */
+  id: string
+  /** Where the application is managed (Coolify dashboard page, compose file) */
+  location?: string
+}
+
+/**
+ * Options for {@link IDeployTarget.deploy}.
+ */
+export interface IDeployTargetDeployOptions {
+  /** Wait for the build to finish and fail if it fails */
+  wait?: boolean
+}
+
+/**
+ * Error returned by deploy targets (Coolify reports `COOLIFY_ERROR`, Docker
+ * Compose `DEPLOY_ERROR`).
+ */
+type DeployTargetError = ResultError<typeof AppErrorCode.COOLIFY_ERROR | typeof AppErrorCode.DEPLOY_ERROR>
+
+/**
+ * Application lifecycle operations the pipeline and CLI need from a
+ * deploy target.
+ *
+ * Implemented by `CoolifyDeployTarget` and `DockerComposeService`; get one
+ * with `getDeployTarget()`.
+ */
+export interface IDeployTarget {
+  /** Target this implementation deploys to */
+  readonly target: DeployTarget
+
+  /**
+   * Checks if the target has the settings it needs, without contacting it.
+   *
+   * @returns True if configured
+   */
+  isConfigured(): boolean
+
+  /**
+   * Checks the target is reachable; must succeed before any other call.
+   *
+   * @returns Result indicating success or error
+   */
+  init(): Promise<Result<void, DeployTargetError>>
+
+  /**
+   * Checks if applications get a public URL Telegram can send webhook
+   * updates to.
+   *
+   * @returns True if the webhook can be registered
+   */
+  hasPublicUrl(): boolean
+
+  /**
+   * Creates an application, without deploying it.
+   *
+   * @param options - Application options
+   * @param onProgress - Optional progress callback
+   * @returns Result with the application or error
+   */
+  createApp(
+    options: IDeployAppOptions,
+    onProgress?: IProgressCallback
+  ): Promise<Result<IDeployApp, DeployTargetError>>
+
+  /**
+   * Sets environment variables, keeping the other ones.
+   *
+   * @param appId - Application ID
+   * @param envVars - Variables to set
+   * @returns Result indicating success or error
+   */
+  setEnv(appId: string, envVars: Record<string, string>): Promise<Result<void, DeployTargetError>>
+
+  /**
+   * Builds and starts the application.
+   *
+   * @param appId - Application ID
+   * @param options - Deploy options
+   * @param onProgress - Optional progress callback
+   * @returns Result indicating success or error
+   */
+  deploy(
+    appId: string,
+    options?: IDeployTargetDeployOptions,
+    onProgress?: IProgressCallback
+  ): Promise<Result<void, DeployTargetError>>
+
+  /**
+   * Gets the status of an application.
+   *
+   * @param appId - Application ID
+   * @returns Result with the target's status text or error
+   */
+  getStatus(appId: string): Promise<Result<string, DeployTargetError>>
+
+  /**
+   * Gets the latest log lines of an application.
+   *
+   * @param appId - Application ID
+   * @param tail - Number of lines (default 100)
+   * @returns Result with the log lines or error
+   */
+  getLogs(appId: string, tail?: number): Promise<Result<string[], DeployTargetError>>
+
+  /**
+   * Gets the public URL of an application.
+   *
+   * @param appId - Application ID
+   * @returns Result with the URL (undefined if it has none) or error
+   */
+  getAppUrl(appId: string): Promise<Result<string | undefined, DeployTargetError>>
+
+  /**
+   * Starts a stopped application.
+   *
+   * @param appId - Application ID
+   * @returns Result indicating success or error
+   */
+  start(appId: string): Promise<Result<void, DeployTargetError>>
+
+  /**
+   * Stops an application.
+   *
+   * @param appId - Application ID
+   * @returns Result indicating success or error
+   */
+  stop(appId: string): Promise<Result<void, DeployTargetError>>
+
+  /**
+   * Restarts an application (e.g. to pick up new environment variables).
+   *
+   * @param appId - Application ID
+   * @returns Result indicating success or error
+   */
+  restart(appId: string): Promise<Result<void, DeployTargetError>>
+
+  /**
+   * Deletes an application and its containers.
+   *
+   * @param appId - Application ID
+   * @returns Result indicating success or error
+   */
+  deleteApp(appId: string): Promise<Result<void, DeployTargetError>>
+
+  /**
+   * Finds an application by name.
+   *
+   * @param name - Application name (the bot name)
+   * @returns Result with the application ID (undefined if not found) or error
+   */
+  findApp(name: string): Promise<Result<string | undefined, DeployTargetError>>
+}
@@ -0,0 +1,88 @@
+/**
+ * Coolify deployment tracking types for mks-bot-father.
+ *
+ * @module
+ */
+
+import type { IProgressCallback } from './progress.types.js'
+
+/**
+ * Deployment statuses reported by the Coolify API.
+ */
+export const DeploymentStatus = {
+  Queued: 'queued',
+  InProgress: 'in_progress',
+  Finished: 'finished',
+  Failed: 'failed',
+  Cancelled: 'cancelled-by-user',
+} as const
+
+export type DeploymentStatus = (typeof DeploymentStatus)[keyof typeof DeploymentStatus]
+
+/**
+ * One line of a deployment's build log.
+ */
+export interface IDeploymentLogLine {
+  /** Log text */
+  output: string
+  /** Stream the line was written to */
+  type: 'stdout' | 'stderr'
+  /** ISO timestamp the line was written */
+  timestamp?: string
+}
+
+/**
+ * State of a Coolify deployment.
+ */
+export interface IDeploymentInfo {
+  /** Deployment UUID */
+  deploymentUuid: string
+  /** Deployed application UUID */
+  applicationUuid?: string
+  /** Deployment status (unknown statuses are passed through) */
+  status: DeploymentStatus | (string & {})
+  /** Visible build log lines, in order */
+  logs: IDeploymentLogLine[]
+  /** ISO timestamp the deployment was queued */
+  createdAt?: string
+  /** ISO timestamp of the last status change */
+  updatedAt?: string
+}
+
+/**
+ * Options for {@link CoolifyService.createGitApplication}.
+ */
+export interface ICoolifyGitAppOptions {
+  /** Application name */
+  name: string
+  /** Application description */
+  description?: string
+  /** Server UUID */
+  serverUuid: string
+  /** Destination UUID */
+  destinationUuid: string
+  /** Project UUID */
+  projectUuid: string
+  /** Environment UUID */
+  environmentUuid: string
+  /** Repository URL: HTTPS for public repositories, SSH with `privateKeyUuid` */
+  repoUrl: string
+  /** Branch to deploy (default `main`) */
+  branch?: string
+  /** UUID of the Coolify private key to clone with (deploy key) */
+  privateKeyUuid?: string
+}
+
+/**
+ * Options for {@link CoolifyService.waitForDeployment}.
+ */
+export interface IWaitForDeploymentOptions {
+  /** Maximum time to wait in milliseconds (default 600000) */
+  timeout?: number
+  /** Time between status polls in milliseconds (default 3000) */
+  pollInterval?: number
+  /** Called with each new build log line, in order */
+  onLog?: (line: IDeploymentLogLine) => void
+  /** Progress callback; build log lines are reported with step `build_log` */
+  onProgress?: IProgressCallback
+}
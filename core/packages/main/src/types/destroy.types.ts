@@ -0,0 +1,83 @@
+/**
+ * Bot teardown types for mks-bot-father.
+ *
+ * @module
+ */
+
+import type { DeployTarget } from './deploy-target.types.js'
+import type { GitHost } from './git-host.types.js'
+
+/**
+ * Systems a teardown removes the bot from, in the order they run.
+ */
+export const DestroyTarget = {
+  Coolify: 'coolify',
+  GitHub: 'github',
+  BotFather: 'botfather',
+  Envs: 'envs',
+  Workspace: 'workspace',
+} as const
+
+export type DestroyTarget = (typeof DestroyTarget)[keyof typeof DestroyTarget]
+
+/**
+ * Outcome of a teardown action.
+ */
+export const DestroyActionStatus = {
+  Done: 'done',
+  NotFound: 'not_found',
+  Skipped: 'skipped',
+  Failed: 'failed',
+} as const
+
+export type DestroyActionStatus = (typeof DestroyActionStatus)[keyof typeof DestroyActionStatus]
+
+/**
+ * Options for {@link Pipeline.destroy}.
+ */
+export interface IDestroyOptions {
+  /** Bot name (the repository, Coolify app and workspace directory name) */
+  botName: string
+  /** Bot username (defaults to the one the pipeline derives from the name) */
+  botUsername?: string
+  /** Git host of the repository (defaults to git.host, then GitHub) */
+  gitHost?: GitHost
+  /** Owner of the repository (defaults to github.defaultOrg, or git.defaultOwner on other hosts, then the authenticated user) */
+  githubOwner?: string
+  /** Where the bot is deployed (defaults to deploy.target, then Coolify) */
+  deployTarget?: DeployTarget
+  /** Application ID: Coolify UUID or compose project (defaults to the application named after the bot) */
+  coolifyAppUuid?: string
+  /** Directory holding the workspace (defaults to cwd) */
+  targetPath?: string
+  /** Leave the repository untouched */
+  keepRepo?: boolean
+  /** Archive the repository instead of deleting it */
+  archiveRepo?: boolean
+}
+
+/**
+ * Outcome of removing the bot from one system.
+ */
+export interface IDestroyAction {
+  /** System the action ran against */
+  target: DestroyTarget
+  /** Outcome */
+  status: DestroyActionStatus
+  /** What was removed, or why nothing was */
+  message: string
+}
+
+/**
+ * Result of {@link Pipeline.destroy}.
+ */
+export interface IDestroyResult {
+  /** Whether no action failed */
+  success: boolean
+  /** Bot name */
+  botName: string
+  /** Bot username */
+  botUsername: string
+  /** Actions in the order they ran */
+  actions: IDestroyAction[]
+}
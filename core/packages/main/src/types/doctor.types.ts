@@ -0,0 +1,59 @@
+/**
+ * Environment diagnostics types for mks-bot-father.
+ *
+ * @module
+ */
+
+/**
+ * Outcome of a diagnostic check.
+ *
+ * - `pass`: works as expected
+ * - `warn`: works, but something is missing or may fail later
+ * - `fail`: commands depending on it will fail
+ * - `skip`: not checked (disabled, or a check it depends on failed)
+ */
+export const DoctorCheckStatus = {
+  Pass: 'pass',
+  Warn: 'warn',
+  Fail: 'fail',
+  Skip: 'skip',
+} as const
+
+export type DoctorCheckStatus = (typeof DoctorCheckStatus)[keyof typeof DoctorCheckStatus]
+
+/**
+ * Result of one diagnostic check.
+ */
+export interface IDoctorCheck {
+  /** Stable identifier (e.g. `github-scopes`) */
+  id: string
+  /** Human-readable name */
+  title: string
+  status: DoctorCheckStatus
+  /** What was found */
+  message: string
+  /** How to fix a warning or failure */
+  hint?: string
+}
+
+/**
+ * Result of a full diagnostic run.
+ */
+export interface IDoctorReport {
+  /** Checks, in the order they ran */
+  checks: IDoctorCheck[]
+  /** Number of checks per status */
+  counts: Record<DoctorCheckStatus, number>
+  /** True when no check failed */
+  ok: boolean
+}
+
+/**
+ * Options for a diagnostic run.
+ */
+export interface IDoctorOptions {
+  /** Directory bots are scaffolded in, checked for free disk space (defaults to cwd) */
+  workspacePath?: string
+  /** Do not connect to Telegram to check the MTProto session */
+  skipTelegram?: boolean
+}
@@ -13,6 +13,9 @@ export const AppErrorCode = {
   COOLIFY_ERROR: 'COOLIFY_ERROR',
   BOTFATHER_ERROR: 'BOTFATHER_ERROR',
   SCAFFOLD_ERROR: 'SCAFFOLD_ERROR',
+  CHECKPOINT_ERROR: 'CHECKPOINT_ERROR',
+  GIT_HOST_ERROR: 'GIT_HOST_ERROR',
+  DEPLOY_ERROR: 'DEPLOY_ERROR',
   NETWORK_ERROR: 'NETWORK_ERROR',
   VALIDATION_ERROR: 'VALIDATION_ERROR',
   UNKNOWN_ERROR: 'UNKNOWN_ERROR',
@@ -50,3 +53,35 @@ export function createAppError(
 ): IAppError {
   return { code, message, cause }
 }
+
+/**
+ * CLI exit code for each error code.
+ *
+ * 0 means success and 1 that the command ran but reported failures (a
+ * failed check, a partially applied manifest...), so error codes start at 2.
+ */
+export const AppErrorExitCode: Record<AppErrorCode, number> = {
+  VALIDATION_ERROR: 2,
+  CONFIG_ERROR: 3,
+  NETWORK_ERROR: 4,
+  GITHUB_ERROR: 10,
+  COOLIFY_ERROR: 11,
+  BOTFATHER_ERROR: 12,
+  SCAFFOLD_ERROR: 13,
+  CHECKPOINT_ERROR: 14,
+  GIT_HOST_ERROR: 15,
+  DEPLOY_ERROR: 16,
+  UNKNOWN_ERROR: 1,
+}
+
+/**
+ * Gets the CLI exit code for an error code.
+ *
+ * @param code - Error code (codes that are not an {@link AppErrorCode} map to 1)
+ * @returns Process exit code
+ */
+export function getExitCode(code: string | undefined): number {
+  return code !== undefined && code in AppErrorExitCode
+    ? AppErrorExitCode[code as AppErrorCode]
+    : 1
+}
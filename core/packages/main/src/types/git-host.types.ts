@@ -0,0 +1,135 @@
+/**
+ * Git host provider types for mks-bot-father.
+ *
+ * @module
+ */
+
+import type { Result, ResultError } from '@mks2508/no-throw'
+import type { AppErrorCode } from './errors.js'
+import type { IGitHubPushResult, IGitHubRepoOptions, IGitHubRepoResult } from './github.types.js'
+import type { IProgressCallback } from './progress.types.js'
+
+/**
+ * Supported git hosts.
+ */
+export const GitHost = {
+  GitHub: 'github',
+  GitLab: 'gitlab',
+  Gitea: 'gitea',
+} as const
+
+export type GitHost = (typeof GitHost)[keyof typeof GitHost]
+
+/**
+ * Owner and name of a repository.
+ */
+export interface IGitRepoRef {
+  /** User, organization or group (GitLab subgroups are `group/subgroup`) */
+  owner: string
+  /** Repository name */
+  repo: string
+}
+
+/**
+ * Error returned by git host providers (GitHub reports `GITHUB_ERROR`,
+ * GitLab and Gitea `GIT_HOST_ERROR`).
+ */
+type GitHostError = ResultError<typeof AppErrorCode.GITHUB_ERROR | typeof AppErrorCode.GIT_HOST_ERROR>
+
+/**
+ * Repository operations the pipeline needs from a git host.
+ *
+ * Implemented by `GitHubService`, `GitLabService` and `GiteaService`; get
+ * one with `getGitHostProvider()`.
+ */
+export interface IGitHostProvider {
+  /** Host this provider talks to */
+  readonly host: GitHost
+
+  /**
+   * Resolves the credentials; must succeed before any other call.
+   *
+   * @returns Result indicating success or error
+   */
+  init(): Promise<Result<void, GitHostError>>
+
+  /**
+   * Gets the login of the authenticated account.
+   *
+   * @returns Result with the login or error
+   */
+  getAuthenticatedUser(): Promise<Result<string | undefined, GitHostError>>
+
+  /**
+   * Checks if a name belongs to an organization (a group on GitLab).
+   *
+   * @param name - User, organization or group name
+   * @returns Result with true for organizations
+   */
+  isOrganization(name: string): Promise<Result<boolean, GitHostError>>
+
+  /**
+   * Checks if a repository exists.
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @returns Result with true if it exists
+   */
+  repoExists(owner: string, repo: string): Promise<Result<boolean, GitHostError>>
+
+  /**
+   * Creates an empty repository, owned by `options.owner` or the
+   * authenticated account.
+   *
+   * @param options - Repository options
+   * @param onProgress - Optional progress callback
+   * @returns Result with the repository URLs or error
+   */
+  createRepo(
+    options: IGitHubRepoOptions,
+    onProgress?: IProgressCallback
+  ): Promise<Result<IGitHubRepoResult, GitHostError>>
+
+  /**
+   * Deletes a repository.
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @returns Result indicating success or error
+   */
+  deleteRepo(owner: string, repo: string): Promise<Result<void, GitHostError>>
+
+  /**
+   * Archives a repository, making it read-only.
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @returns Result indicating success or error
+   */
+  archiveRepo(owner: string, repo: string): Promise<Result<void, GitHostError>>
+
+  /**
+   * Commits a local project and pushes it to a repository, authenticated
+   * with the provider's token.
+   *
+   * @param repoUrl - HTTPS clone URL
+   * @param localPath - Path to the local project
+   * @param branch - Branch to push
+   * @param onProgress - Optional progress callback
+   * @returns Result with the pushed commit SHA or error
+   */
+  pushToRepo(
+    repoUrl: string,
+    localPath: string,
+    branch?: string,
+    onProgress?: IProgressCallback
+  ): Promise<Result<IGitHubPushResult, GitHostError>>
+
+  /**
+   * Gets the owner and name of a repository from its web URL.
+   *
+   * @param repoUrl - Repository web URL
+   * @returns Owner and name, or undefined if the URL is not a repository of this host
+   */
+  parseRepoUrl(repoUrl: string): IGitRepoRef | undefined
+}
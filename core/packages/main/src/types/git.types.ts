@@ -0,0 +1,62 @@
+/**
+ * Git operation types for mks-bot-father.
+ *
+ * @module
+ */
+
+/**
+ * How a push reconciles with a remote branch that already has commits.
+ */
+export const GitPushStrategy = {
+  /** Rebase the local commits onto the remote branch */
+  Rebase: 'rebase',
+  /** Overwrite the remote branch, unless it moved since it was fetched */
+  ForceWithLease: 'force-with-lease',
+} as const
+
+export type GitPushStrategy = (typeof GitPushStrategy)[keyof typeof GitPushStrategy]
+
+/**
+ * Commit author identity.
+ */
+export interface IGitAuthor {
+  /** Author name */
+  name?: string
+  /** Author email */
+  email?: string
+}
+
+/**
+ * Options for committing and pushing a project.
+ */
+export interface IGitPushOptions {
+  /** Remote URL for `origin` (default: the existing `origin`) */
+  remoteUrl?: string
+  /** Branch to push */
+  branch?: string
+  /**
+   * Commit message; `{{name}}` and `{{branch}}` are replaced with the
+   * project directory name and the branch
+   */
+  message?: string
+  /** Paths to commit, relative to the project (default: everything) */
+  paths?: string[]
+  /** Author and committer identity (default: git's own configuration) */
+  author?: IGitAuthor
+  /** Token sent to HTTPS remotes, never written to `.git/config` */
+  token?: string
+  /** User name sent along with the token (default: `x-access-token`) */
+  tokenUser?: string
+  /** Strategy when the remote branch already has commits */
+  strategy?: GitPushStrategy
+}
+
+/**
+ * Result of a push.
+ */
+export interface IGitPushResult {
+  /** SHA of the pushed commit */
+  commitSha: string
+  /** Whether a new commit was created (false when there was nothing to commit) */
+  committed: boolean
+}
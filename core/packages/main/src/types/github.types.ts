@@ -32,16 +32,135 @@ export interface IGitHubRepoResult {
   repoUrl?: string
   /** Clone URL */
   cloneUrl?: string
+  /** SSH clone URL */
+  sshUrl?: string
   /** Error message if failed */
   error?: string
 }
 
+/**
+ * Repository details returned by the GitHub API.
+ */
+export interface IGitHubRepoInfo {
+  /** Repository name */
+  name: string
+  /** Repository owner login */
+  owner: string
+  /** Repository description */
+  description?: string
+  /** Whether the repository is private */
+  private: boolean
+  /** URL of the repository */
+  repoUrl: string
+  /** Clone URL */
+  cloneUrl: string
+}
+
+/**
+ * Updatable repository settings.
+ */
+export interface IGitHubRepoUpdate {
+  /** Repository description */
+  description?: string
+  /** Whether the repository should be private */
+  private?: boolean
+  /** Whether the repository is archived (read-only) */
+  archived?: boolean
+  /** Allow merging pull requests with a merge commit */
+  allowMergeCommit?: boolean
+  /** Allow squash-merging pull requests */
+  allowSquashMerge?: boolean
+  /** Allow rebase-merging pull requests */
+  allowRebaseMerge?: boolean
+  /** Delete head branches once their pull request is merged */
+  deleteBranchOnMerge?: boolean
+}
+
+/**
+ * Ways pull requests can be merged.
+ */
+export const GitHubMergeMethod = {
+  Merge: 'merge',
+  Squash: 'squash',
+  Rebase: 'rebase',
+} as const
+
+export type GitHubMergeMethod = (typeof GitHubMergeMethod)[keyof typeof GitHubMergeMethod]
+
+/**
+ * Branch protection rules.
+ *
+ * Force pushes and branch deletion are always blocked.
+ */
+export interface IGitHubBranchProtection {
+  /**
+   * Approving reviews a pull request needs. When set, changes must go
+   * through a pull request (`0` requires one without reviews).
+   */
+  requiredApprovals?: number
+  /** Status checks that must pass before merging */
+  requiredStatusChecks?: string[]
+  /** Apply the rules to administrators too */
+  enforceAdmins?: boolean
+}
+
+/**
+ * Public key used to encrypt a repository's Actions secrets.
+ */
+export interface IGitHubActionsPublicKey {
+  /** Key identifier, sent along with encrypted values */
+  keyId: string
+  /** Base64-encoded X25519 public key */
+  key: string
+}
+
+/**
+ * Repository hardening applied after creation, resolved from the
+ * `github.*` config defaults.
+ */
+export interface IGitHubHardening {
+  /** Actions secret that receives the bot token */
+  botTokenSecret?: string
+  /** Repository topics (replace the existing ones when non-empty) */
+  topics: string[]
+  /** Protection for the default branch, undefined to leave it unprotected */
+  branchProtection?: IGitHubBranchProtection
+  /** Merge settings to change */
+  settings: IGitHubRepoUpdate
+}
+
 /**
  * GitHub push operation result.
  */
 export interface IGitHubPushResult {
   /** Whether the push succeeded */
   success: boolean
+  /** SHA of the pushed commit */
+  commitSha?: string
   /** Error message if failed */
   error?: string
 }
+
+/**
+ * GitHub App credentials, used instead of a personal access token.
+ */
+export interface IGitHubAppCredentials {
+  /** App ID */
+  appId: number
+  /** Installation ID of the app on the account that owns the repositories */
+  installationId: number
+  /** App private key (PEM) */
+  privateKey: string
+}
+
+/**
+ * Installation access token issued for a GitHub App.
+ */
+export interface IGitHubInstallationToken {
+  /** Token */
+  token: string
+  /** Expiration time (epoch milliseconds) */
+  expiresAt: number
+  /** Permissions granted to the installation */
+  permissions: Record<string, string>
+}
@@ -7,6 +7,9 @@
 export * from './errors.js'
 export * from './config.types.js'
 export * from './github.types.js'
+export * from './git.types.js'
+export * from './git-host.types.js'
+export * from './deploy-target.types.js'
 export type {
   ICoolifyServer,
   ICoolifyDestination,
@@ -25,3 +28,15 @@ export type {
 } from '@mks2508/coolify-mks-cli-mcp'
 export * from './pipeline.types.js'
 export * from './progress.types.js'
+export * from './checkpoint.types.js'
+export * from './pipeline-step.types.js'
+export * from './pipeline-event.types.js'
+export * from './deployment.types.js'
+export * from './webhook.types.js'
+export * from './manifest.types.js'
+export * from './batch.types.js'
+export * from './doctor.types.js'
+export * from './inventory.types.js'
+export * from './destroy.types.js'
+export * from './template.types.js'
+export * from './ci-workflow.types.js'
@@ -0,0 +1,111 @@
+/**
+ * Bot inventory types for mks-bot-father.
+ *
+ * @module
+ */
+
+import type { Environment } from './config.types.js'
+
+/**
+ * Where bot resources are discovered.
+ */
+export const InventorySource = {
+  BotFather: 'botfather',
+  Envs: 'envs',
+  GitHub: 'github',
+  Coolify: 'coolify',
+} as const
+
+export type InventorySource = (typeof InventorySource)[keyof typeof InventorySource]
+
+/**
+ * Inconsistencies between the sources.
+ *
+ * - `no_repo`: a bot has no GitHub repository
+ * - `no_env`: a BotFather bot has no token in `.envs`
+ * - `not_in_botfather`: a bot in `.envs` is not listed by BotFather
+ * - `token_mismatch`: the Coolify app's `TG_BOT_TOKEN` differs from `.envs`
+ * - `app_stopped`: the Coolify app is not running
+ * - `orphaned_repo`: a bot repository with no bot
+ * - `orphaned_app`: a Coolify app with no bot
+ */
+export const InventoryDrift = {
+  NoRepo: 'no_repo',
+  NoEnv: 'no_env',
+  NotInBotFather: 'not_in_botfather',
+  TokenMismatch: 'token_mismatch',
+  AppStopped: 'app_stopped',
+  OrphanedRepo: 'orphaned_repo',
+  OrphanedApp: 'orphaned_app',
+} as const
+
+export type InventoryDrift = (typeof InventoryDrift)[keyof typeof InventoryDrift]
+
+/**
+ * A detected inconsistency.
+ */
+export interface IInventoryDrift {
+  type: InventoryDrift
+  message: string
+}
+
+/**
+ * A bot and the resources found for it in each source.
+ */
+export interface IInventoryEntry {
+  /** Bot username, or the repository/app name for orphans */
+  name: string
+  /** Listed by BotFather (undefined when BotFather was not queried) */
+  botFather?: boolean
+  /** Environments with a `.envs` file */
+  envs: Environment[]
+  /** GitHub repository */
+  repo?: {
+    owner: string
+    name: string
+    url: string
+    private: boolean
+  }
+  /** Coolify application */
+  app?: {
+    uuid: string
+    name: string
+    status: string
+  }
+  /** Inconsistencies found for this bot */
+  drift: IInventoryDrift[]
+}
+
+/**
+ * Outcome of querying a source.
+ */
+export interface IInventorySourceStatus {
+  /** Whether the source was read; drift depending on an unread source is not reported */
+  available: boolean
+  /** Number of items found */
+  count: number
+  /** Why the source was not read */
+  error?: string
+}
+
+/**
+ * Correlated view of every bot across BotFather, `.envs`, GitHub and Coolify.
+ */
+export interface IInventory {
+  /** Bots and orphaned resources, sorted by name */
+  entries: IInventoryEntry[]
+  /** What each source returned */
+  sources: Record<InventorySource, IInventorySourceStatus>
+  /** Total number of inconsistencies */
+  driftCount: number
+}
+
+/**
+ * Options for building the inventory.
+ */
+export interface IInventoryOptions {
+  /** GitHub owner to list repositories of (defaults to github.defaultOrg, then the authenticated user) */
+  githubOwner?: string
+  /** Do not query BotFather (it needs a Telegram connection and is slow with many bots) */
+  skipBotFather?: boolean
+}
@@ -0,0 +1,141 @@
+/**
+ * Bot manifest types and schemas for mks-bot-father.
+ *
+ * @module
+ */
+
+import { type } from 'arktype'
+
+/**
+ * Bot command schema (shown in the Telegram command menu).
+ */
+export const BotCommandSchema = type({
+  command: /^[a-z0-9_]{1,32}$/,
+  description: 'string > 0',
+})
+
+/**
+ * Bot command type.
+ */
+export type IBotCommand = typeof BotCommandSchema.infer
+
+/**
+ * GitHub section of a bot manifest.
+ */
+export const ManifestGitHubSchema = type({
+  'org?': 'string',
+  'visibility?': '"public" | "private"',
+})
+
+/**
+ * Coolify section of a bot manifest.
+ */
+export const ManifestCoolifySchema = type({
+  'server?': 'string',
+  'destination?': 'string',
+  'project?': 'string',
+  'environment?': 'string',
+})
+
+/**
+ * Declarative bot manifest schema (`mbf.bot.json` / `mbf.bot.yaml`).
+ *
+ * A `github` section makes the repository part of the desired state; a
+ * `coolify` section (which requires `github`) does the same for the
+ * Coolify application and its `env`.
+ */
+export const BotManifestSchema = type({
+  name: 'string > 0',
+  'username?': /^[A-Za-z][A-Za-z0-9_]{3,30}bot$/i,
+  'description?': 'string',
+  'about?': 'string',
+  'commands?': BotCommandSchema.array(),
+  'template?': /^[a-z0-9][a-z0-9-]*$/,
+  'templateVariables?': 'Record<string, string>',
+  'github?': ManifestGitHubSchema,
+  'coolify?': ManifestCoolifySchema,
+  'env?': 'Record<string, string>',
+})
+
+/**
+ * Bot manifest type.
+ */
+export type IBotManifest = typeof BotManifestSchema.infer
+
+/**
+ * Resources managed by a bot manifest, in apply order.
+ */
+export const ManifestResource = {
+  BotFather: 'botfather',
+  Env: 'env',
+  GitHub: 'github',
+  Coolify: 'coolify',
+} as const
+
+export type ManifestResource = (typeof ManifestResource)[keyof typeof ManifestResource]
+
+/**
+ * A single difference between the manifest and the real state.
+ */
+export interface IManifestChange {
+  /** Resource the change applies to */
+  resource: ManifestResource
+  /** Changed field (`bot`, `repo` and `app` for whole resources) */
+  field: string
+  /** Whether the resource/field is created or updated */
+  action: 'create' | 'update'
+  /** Current value (omitted for secrets) */
+  from?: unknown
+  /** Desired value (omitted for secrets) */
+  to?: unknown
+}
+
+/**
+ * Real state discovered while diffing a manifest.
+ */
+export interface IManifestState {
+  /** Bot username the manifest resolves to */
+  botUsername: string
+  /** Whether the bot exists in BotFather */
+  botExists: boolean
+  /** Bot token from `.envs` or BotFather */
+  botToken?: string
+  /** GitHub repository owner */
+  githubOwner?: string
+  /** GitHub repository URL, if the repository exists */
+  githubRepoUrl?: string
+  /** Coolify application UUID, if the application exists */
+  coolifyAppUuid?: string
+}
+
+/**
+ * Difference between a manifest and the real state.
+ */
+export interface IManifestDiff {
+  /** Manifest the diff was computed for */
+  manifest: IBotManifest
+  /** Discovered state */
+  state: IManifestState
+  /** Changes needed to converge, in apply order */
+  changes: IManifestChange[]
+  /** Whether anything needs to change */
+  hasChanges: boolean
+}
+
+/**
+ * Result of applying a manifest.
+ */
+export interface IManifestApplyResult {
+  /** Whether every change was applied */
+  success: boolean
+  /** Bot username */
+  botUsername: string
+  /** Changes that were applied */
+  applied: IManifestChange[]
+  /** Errors encountered (apply stops at the first one) */
+  errors: string[]
+  /** GitHub repository URL */
+  githubRepoUrl?: string
+  /** Coolify application UUID */
+  coolifyAppUuid?: string
+}
@@ -0,0 +1,150 @@
+/**
+ * Pipeline event types for mks-bot-father.
+ *
+ * @module
+ */
+
+import type { IPipelineResult } from './pipeline.types.js'
+import type { IPipelineStepOutputs } from './checkpoint.types.js'
+
+/**
+ * Types of events emitted while a pipeline runs.
+ */
+export const PipelineEventType = {
+  StepStart: 'step:start',
+  StepProgress: 'step:progress',
+  StepOutput: 'step:output',
+  StepError: 'step:error',
+  StepDone: 'step:done',
+  PipelineDone: 'pipeline:done',
+} as const
+
+export type PipelineEventType = (typeof PipelineEventType)[keyof typeof PipelineEventType]
+
+/**
+ * How a step ended.
+ *
+ * - `completed`: the step ran and succeeded
+ * - `failed`: the step ran and returned an error
+ * - `skipped`: the step did not run (completed in an earlier attempt, or a dependency failed)
+ */
+export type PipelineStepStatus = 'completed' | 'failed' | 'skipped'
+
+/**
+ * Fields shared by every pipeline event.
+ */
+interface IPipelineEventBase {
+  /** Run ID (empty for dry runs, which have no checkpoint) */
+  runId: string
+  /** Bot name */
+  botName: string
+  /** ISO timestamp the event was emitted */
+  timestamp: string
+}
+
+/**
+ * A step started running.
+ */
+export interface IStepStartEvent extends IPipelineEventBase {
+  type: typeof PipelineEventType.StepStart
+  /** Step name */
+  step: string
+  /** Step description */
+  description?: string
+  /** Position of the step among the enabled steps (0-based) */
+  index: number
+  /** Number of enabled steps */
+  total: number
+}
+
+/**
+ * A running step reported progress.
+ */
+export interface IStepProgressEvent extends IPipelineEventBase {
+  type: typeof PipelineEventType.StepProgress
+  /** Step name */
+  step: string
+  /** Progress of the step (0-100) */
+  progress: number
+  /** Progress of the whole run (0-100), weighted by step */
+  overallProgress: number
+  /** Human-readable progress message */
+  message: string
+  /** Sub-step identifier reported by the step */
+  subStep?: string
+}
+
+/**
+ * A step produced outputs.
+ *
+ * Outputs are passed as produced, so they may contain secrets such as the
+ * bot token.
+ */
+export interface IStepOutputEvent extends IPipelineEventBase {
+  type: typeof PipelineEventType.StepOutput
+  /** Step name */
+  step: string
+  /** Outputs returned by the step */
+  outputs: IPipelineStepOutputs
+}
+
+/**
+ * A step failed.
+ */
+export interface IStepErrorEvent extends IPipelineEventBase {
+  type: typeof PipelineEventType.StepError
+  /** Step name */
+  step: string
+  /** Error code */
+  code: string
+  /** Error message */
+  error: string
+}
+
+/**
+ * A step ended, whether it ran or not.
+ */
+export interface IStepDoneEvent extends IPipelineEventBase {
+  type: typeof PipelineEventType.StepDone
+  /** Step name */
+  step: string
+  /** How the step ended */
+  status: PipelineStepStatus
+  /** Why the step was skipped */
+  reason?: string
+  /** Time the step ran (0 when skipped) */
+  durationMs: number
+}
+
+/**
+ * The run finished. Always the last event.
+ */
+export interface IPipelineDoneEvent extends IPipelineEventBase {
+  type: typeof PipelineEventType.PipelineDone
+  /** Whether the run succeeded */
+  success: boolean
+  /** Pipeline result (absent when the run could not start) */
+  result?: IPipelineResult
+  /** Error that prevented the run from starting */
+  error?: string
+  /** Wall-clock duration of the run */
+  durationMs: number
+}
+
+/**
+ * Any pipeline event, discriminated by `type`.
+ */
+export type IPipelineEvent =
+  | IStepStartEvent
+  | IStepProgressEvent
+  | IStepOutputEvent
+  | IStepErrorEvent
+  | IStepDoneEvent
+  | IPipelineDoneEvent
+
+/**
+ * Pipeline event listener.
+ *
+ * @param event - Emitted event
+ */
+export type IPipelineEventListener = (event: IPipelineEvent) => void
@@ -0,0 +1,95 @@
+/**
+ * Pluggable pipeline step types for mks-bot-father.
+ *
+ * @module
+ */
+
+import type { Result, ResultError } from '@mks2508/no-throw'
+import type { IPipelineOptions } from './pipeline.types.js'
+import type { IPipelineStepOutputs } from './checkpoint.types.js'
+import type { IProgressCallback } from './progress.types.js'
+
+/**
+ * Context passed to each pipeline step.
+ */
+export interface IPipelineContext {
+  /** Run identifier */
+  runId: string
+  /** Options the run was started with */
+  options: IPipelineOptions
+  /**
+   * Outputs collected so far (including those of earlier attempts when resuming).
+   *
+   * Steps may write here before failing so their `undo` can find partially
+   * created assets; only the outputs returned by `run` are checkpointed.
+   */
+  outputs: IPipelineStepOutputs
+  /** Reports step progress (0-100), mapped onto the step's share of the run */
+  progress: IProgressCallback
+}
+
+/**
+ * A pipeline stage.
+ *
+ * @example
+ * ```typescript
+ * const changelogStep: IPipelineStep = {
+ *   name: 'changelog',
+ *   description: 'Post to changelog channel',
+ *   dependsOn: ['github'],
+ *   async run(ctx) {
+ *     await postMessage(`New bot: ${ctx.outputs.githubRepoUrl}`)
+ *     return ok({})
+ *   },
+ * }
+ *
+ * getPipeline().steps.register(changelogStep, { after: 'github' })
+ * ```
+ */
+export interface IPipelineStep {
+  /** Unique step name (recorded in checkpoints) */
+  name: string
+  /** Human-readable description */
+  description?: string
+  /**
+   * Steps that must complete before this one runs.
+   *
+   * A failed dependency skips this step. Dependencies that are disabled for
+   * the run or not registered are considered satisfied.
+   */
+  dependsOn?: string[]
+  /** Relative share of overall progress (defaults to 1) */
+  weight?: number
+  /**
+   * Whether the step runs for the given options (defaults to always).
+   *
+   * @param options - Pipeline options
+   */
+  enabled?(options: IPipelineOptions): boolean
+  /**
+   * Runs the step.
+   *
+   * @param ctx - Pipeline context
+   * @returns Result with outputs to merge into the context and checkpoint
+   */
+  run(ctx: IPipelineContext): Promise<Result<IPipelineStepOutputs, ResultError<string>>>
+  /**
+   * Undoes the assets the step created (used by `rollbackOnFailure`).
+   *
+   * Called for completed steps and for the step that failed, so it must
+   * tolerate missing outputs.
+   *
+   * @param ctx - Pipeline context
+   */
+  undo?(ctx: IPipelineContext): Promise<Result<void, ResultError<string>>>
+}
+
+/**
+ * Position of a step inserted into the registry.
+ */
+export interface IPipelineStepPosition {
+  /** Insert before the named step */
+  before?: string
+  /** Insert after the named step */
+  after?: string
+}
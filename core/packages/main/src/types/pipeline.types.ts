@@ -5,6 +5,11 @@
  */
 
 import type { IProgressCallback } from './progress.types.js'
+import type { IPipelineStepOutputs } from './checkpoint.types.js'
+import type { IPipelineEventListener } from './pipeline-event.types.js'
+import type { IGitHubHardening } from './github.types.js'
+import type { DeployTarget } from './deploy-target.types.js'
+import type { GitHost } from './git-host.types.js'
 
 /**
  * Available template types for workspace creation.
@@ -17,6 +22,27 @@ export const TemplateType = {
 
 export type TemplateType = (typeof TemplateType)[keyof typeof TemplateType]
 
+/**
+ * Template to scaffold with: a built-in bunspace template or the name of
+ * one added with `mbf template add`.
+ */
+export type TemplateName = TemplateType | (string & {})
+
+/**
+ * Names of the built-in pipeline steps, in default execution order.
+ */
+export const PipelineStep = {
+  BotFather: 'botfather',
+  Scaffold: 'scaffold',
+  GitHub: 'github',
+  GitHubSettings: 'github-settings',
+  Coolify: 'coolify',
+  Webhook: 'webhook',
+  CiWorkflow: 'ci-workflow',
+} as const
+
+export type PipelineStep = (typeof PipelineStep)[keyof typeof PipelineStep]
+
 /**
  * Options for external workspace creation (library usage).
  *
@@ -36,7 +62,7 @@ export interface IExternalPipelineOptions {
   /** Project name (used for directory and repository) */
   projectName: string
   /** Template to use for scaffolding */
-  template: TemplateType
+  template: TemplateName
   /** Target path for project creation (defaults to cwd) */
   targetPath?: string
   /** Skip external service integrations */
@@ -69,7 +95,7 @@ export interface IWorkspaceResult {
   /** Absolute path to created workspace */
   workspacePath: string
   /** Template used */
-  template: TemplateType
+  template: TemplateName
   /** Bot token (if BotFather was run or provided) */
   botToken?: string
   /** Bot username (if BotFather was run or provided) */
@@ -93,29 +119,59 @@ export interface IPipelineOptions {
   /** Bot description */
   botDescription?: string
   /** Template to use for scaffolding (defaults to telegram-bot) */
-  template?: TemplateType
+  template?: TemplateName
+  /** Values of the variables declared by a custom template */
+  templateVariables?: Record<string, string>
   /** Target path for project creation (defaults to cwd) */
   targetPath?: string
-  /** Whether to create a GitHub repository */
+  /** Whether to create a repository on the git host */
   createGitHubRepo?: boolean
-  /** Whether to deploy to Coolify */
+  /** Git host the repository is created on (defaults to git.host, then GitHub) */
+  gitHost?: GitHost
+  /** Whether to deploy the bot */
   deployToCoolify?: boolean
+  /** Where the bot is deployed (defaults to deploy.target, then Coolify) */
+  deployTarget?: DeployTarget
   /** Skip BotFather automation step */
   skipBotFather?: boolean
   /** Pre-existing bot token (used if skipBotFather is true) */
   existingBotToken?: string
   /** Pre-existing bot username (used if skipBotFather is true) */
   existingBotUsername?: string
-  /** GitHub organization */
+  /** Repository owner: organization, or group on GitLab (defaults to github.defaultOrg, or git.defaultOwner on other hosts) */
   githubOrg?: string
+  /** Repository visibility (defaults to github.defaultVisibility, or git.defaultVisibility on other hosts) */
+  githubVisibility?: 'public' | 'private'
+  /** Apply the repository settings from the `github.*` config after creation (defaults to github.hardenRepo) */
+  hardenGitHubRepo?: boolean
   /** Coolify server UUID */
   coolifyServer?: string
   /** Coolify destination UUID */
   coolifyDestination?: string
+  /** Coolify project UUID (defaults to coolify.defaultProject) */
+  coolifyProject?: string
+  /** Coolify environment UUID (defaults to coolify.defaultEnvironment) */
+  coolifyEnvironment?: string
+  /** Extra environment variables set on the Coolify application */
+  coolifyEnvVars?: Record<string, string>
+  /** Wait for the Coolify build to finish instead of returning once it is triggered */
+  waitForDeployment?: boolean
+  /** Do not register the Telegram webhook on the Coolify application */
+  skipWebhook?: boolean
+  /** Path appended to the application domain for the webhook URL (default `/webhook`) */
+  webhookPath?: string
+  /** Do not commit the GitHub Actions CI workflow to the repository */
+  skipCiWorkflow?: boolean
   /** Progress callback for pipeline steps */
   onProgress?: IProgressCallback
+  /** Listener for typed step and pipeline events (see {@link Pipeline.runStream}) */
+  onEvent?: IPipelineEventListener
   /** Workspace mode: skip git init, use simpler structure */
   workspaceMode?: boolean
+  /** Undo the assets created by completed steps when the run fails */
+  rollbackOnFailure?: boolean
+  /** Validate preconditions and return a plan without mutating anything */
+  dryRun?: boolean
 }
 
 /**
@@ -124,6 +180,10 @@ export interface IPipelineOptions {
 export interface IPipelineResult {
   /** Whether the pipeline completed successfully */
   success: boolean
+  /** Run ID of the persisted checkpoint (use with `resume`) */
+  runId?: string
+  /** Path to the scaffolded project */
+  projectPath?: string
   /** Bot token from BotFather */
   botToken?: string
   /** Bot username */
@@ -134,8 +194,38 @@ export interface IPipelineResult {
   coolifyAppUuid?: string
   /** Deployment URL */
   deploymentUrl?: string
+  /** Outputs of all steps, including custom ones */
+  outputs?: IPipelineStepOutputs
   /** List of errors encountered */
   errors: string[]
+  /** Rollback report (only when `rollbackOnFailure` was set and the run failed) */
+  rollback?: IRollbackReport
+  /** Execution plan (only when `dryRun` was set) */
+  plan?: IPipelinePlan
+}
+
+/**
+ * Outcome of a single rollback (undo) action.
+ */
+export interface IRollbackActionResult {
+  /** Step whose assets were undone */
+  step: string
+  /** Human-readable description of the undo action */
+  description: string
+  /** Whether the undo action succeeded */
+  success: boolean
+  /** Error message if the undo action failed */
+  error?: string
+}
+
+/**
+ * Report of a compensating rollback after a failed run.
+ */
+export interface IRollbackReport {
+  /** Whether every undo action succeeded */
+  success: boolean
+  /** Undo actions in the order they ran (reverse of execution) */
+  actions: IRollbackActionResult[]
 }
 
 /**
@@ -189,3 +279,97 @@ export interface ICoolifyStepResult {
   /** Error message if failed */
   error?: string
 }
+
+/**
+ * Planned pipeline step.
+ */
+export interface IPipelinePlanStep {
+  /** Step name */
+  step: string
+  /** Whether the step would run */
+  enabled: boolean
+  /** Why the step is skipped, if it is */
+  skipReason?: string
+}
+
+/**
+ * Planned BotFather step.
+ */
+export interface IBotFatherPlan {
+  /** Bot username that would be registered (or reused) */
+  botUsername?: string
+  /** Whether the username is available (undefined if not checked) */
+  usernameAvailable?: boolean
+}
+
+/**
+ * Planned scaffold step.
+ */
+export interface IScaffoldPlan {
+  /** Absolute path the project would be scaffolded to */
+  projectPath: string
+  /** Template that would be used */
+  template: TemplateName
+}
+
+/**
+ * Planned GitHub step.
+ */
+export interface IGitHubPlan {
+  /** Git host */
+  host: GitHost
+  /** Repository owner (user or organization) */
+  owner?: string
+  /** Repository name */
+  name: string
+  /** Repository visibility */
+  visibility: 'public' | 'private'
+  /** Settings applied after creation (if the settings step is enabled) */
+  hardening?: IGitHubHardening
+}
+
+/**
+ * Planned deploy step (named after Coolify, the default target).
+ */
+export interface ICoolifyPlan {
+  /** Deploy target */
+  target: DeployTarget
+  /** Compose file that would be written (Docker Compose target) */
+  composeFile?: string
+  /** Coolify instance URL */
+  url?: string
+  /** Server UUID */
+  serverUuid?: string
+  /** Destination UUID */
+  destinationUuid?: string
+  /** Project UUID */
+  projectUuid?: string
+  /** Environment UUID */
+  environmentUuid?: string
+  /** Environment variables that would be set (secrets masked) */
+  envVars: Record<string, string>
+}
+
+/**
+ * Dry-run plan of a pipeline run.
+ */
+export interface IPipelinePlan {
+  /** Bot name */
+  botName: string
+  /** Steps in execution order */
+  steps: IPipelinePlanStep[]
+  /** BotFather step details */
+  botFather?: IBotFatherPlan
+  /** Scaffold step details */
+  scaffold: IScaffoldPlan
+  /** GitHub step details (if enabled) */
+  github?: IGitHubPlan
+  /** Coolify step details (if enabled) */
+  coolify?: ICoolifyPlan
+  /** Failed preconditions that would make the run fail */
+  issues: string[]
+  /** Non-blocking remarks */
+  warnings: string[]
+  /** Whether all preconditions passed */
+  valid: boolean
+}
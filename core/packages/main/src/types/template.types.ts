@@ -0,0 +1,115 @@
+/**
+ * Custom template types for mks-bot-father.
+ *
+ * @module
+ */
+
+import { type } from 'arktype'
+
+/**
+ * Where a registered template comes from.
+ */
+export const TemplateSourceType = {
+  /** Directory on disk, used in place */
+  Local: 'local',
+  /** Git repository, cloned at a ref */
+  Git: 'git',
+  /** `.tar`, `.tar.gz` or `.tgz` archive, from a path or URL */
+  Tarball: 'tarball',
+} as const
+
+export type TemplateSourceType = (typeof TemplateSourceType)[keyof typeof TemplateSourceType]
+
+/**
+ * Variable declared by a template in its `template.json`.
+ *
+ * `{{name}}` is replaced by the variable value in file contents and names.
+ * A `default` may reference built-in and earlier variables (e.g.
+ * `{{projectName}}-api`); `pattern` is a regular expression the value must
+ * match and `choices` lists the allowed values.
+ */
+export const TemplateVariableSchema = type({
+  name: /^[A-Za-z_][A-Za-z0-9_]*$/,
+  'description?': 'string',
+  'default?': 'string',
+  'required?': 'boolean',
+  'pattern?': 'string',
+  'choices?': 'string[]',
+})
+
+/**
+ * Template variable type.
+ */
+export type ITemplateVariable = typeof TemplateVariableSchema.infer
+
+/**
+ * Template manifest schema (`template.json` at the template root).
+ */
+export const TemplateManifestSchema = type({
+  name: /^[a-z0-9][a-z0-9-]*$/,
+  'description?': 'string',
+  'variables?': TemplateVariableSchema.array(),
+})
+
+/**
+ * Template manifest type.
+ */
+export type ITemplateManifest = typeof TemplateManifestSchema.infer
+
+/**
+ * Source a template was added from.
+ */
+export interface ITemplateSource {
+  /** Source type */
+  type: TemplateSourceType
+  /** Absolute directory or archive path, or URL */
+  location: string
+  /** Git branch or tag (git sources only) */
+  ref?: string
+}
+
+/**
+ * Template stored in the registry.
+ */
+export interface IRegisteredTemplate {
+  /** Template name, as passed to `mbf create --template` */
+  name: string
+  /** Description from `template.json` */
+  description?: string
+  /** Where the template was added from */
+  source: ITemplateSource
+  /** Directory holding the template files (the source itself for local templates) */
+  path: string
+  /** When the template was added */
+  addedAt: string
+}
+
+/**
+ * Options for {@link TemplateService.add}.
+ */
+export interface ITemplateAddOptions {
+  /** Register under this name instead of the `template.json` name */
+  name?: string
+  /** Git branch or tag (defaults to the `#ref` suffix of the URL, then the default branch) */
+  ref?: string
+}
+
+/**
+ * Options for {@link TemplateService.render}.
+ */
+export interface ITemplateRenderOptions {
+  /** Values of the variables declared in `template.json` */
+  variables?: Record<string, string>
+  /** Values of the built-in variables (`projectName`, `botUsername`, `botDescription`) */
+  builtins?: Record<string, string>
+}
+
+/**
+ * Result of {@link TemplateService.render}.
+ */
+export interface ITemplateRenderResult {
+  /** Directory the project was written to */
+  projectPath: string
+  /** Values substituted, including defaults and built-in variables */
+  variables: Record<string, string>
+}
@@ -0,0 +1,45 @@
+/**
+ * Telegram webhook types for mks-bot-father.
+ *
+ * @module
+ */
+
+/**
+ * Options for registering a webhook with `setWebhook`.
+ */
+export interface ISetWebhookOptions {
+  /** HTTPS URL Telegram sends updates to */
+  url: string
+  /** Secret sent back in the `X-Telegram-Bot-Api-Secret-Token` header (1-256 chars of A-Z, a-z, 0-9, _ and -) */
+  secretToken?: string
+  /** Drop updates that arrived while no webhook was set */
+  dropPendingUpdates?: boolean
+  /** Update types to receive (default: all except chat_member, message_reaction and message_reaction_count) */
+  allowedUpdates?: string[]
+  /** Maximum simultaneous HTTPS connections (1-100, default 40) */
+  maxConnections?: number
+}
+
+/**
+ * Webhook state reported by `getWebhookInfo`.
+ */
+export interface IWebhookInfo {
+  /** Webhook URL (empty when no webhook is set) */
+  url: string
+  /** Whether a self-signed certificate was uploaded */
+  hasCustomCertificate: boolean
+  /** Updates waiting to be delivered */
+  pendingUpdateCount: number
+  /** IP address Telegram resolved the webhook host to */
+  ipAddress?: string
+  /** ISO timestamp of the most recent delivery error */
+  lastErrorDate?: string
+  /** Most recent delivery error */
+  lastErrorMessage?: string
+  /** ISO timestamp of the most recent error synchronizing with Telegram datacenters */
+  lastSynchronizationErrorDate?: string
+  /** Maximum simultaneous HTTPS connections */
+  maxConnections?: number
+  /** Update types the bot receives */
+  allowedUpdates?: string[]
+}
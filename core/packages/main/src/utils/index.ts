@@ -6,3 +6,13 @@
 
 export { createLogger, logger, component } from './logger.js'
 export { log, getLogger, JsonLogger } from './json-logger.js'
+export {
+  generateSalt,
+  generateKeyFileContents,
+  deriveKey,
+  isEncryptedValue,
+  encryptValue,
+  decryptValue,
+} from './secrets.js'
+export { sealBox, openSealedBox, derivePublicKey } from './sealed-box.js'
+export { parseRepoUrl } from './repo-url.js'
@@ -86,12 +86,13 @@ export class JsonLogger {
     this.log({ level: 'INF', src, msg, data, metrics })
   }
 
-  pipelineStart(data: { botName: string; options: Record<string, unknown> }): void {
+  pipelineStart(data: { botName: string; runId?: string; options: Record<string, unknown> }): void {
     this.info('PIPELINE', 'Pipeline started', data)
   }
 
   pipelineComplete(data: {
     botName: string
+    runId?: string
     success: boolean
     durationMs: number
     stepsCompleted: number
@@ -101,7 +102,7 @@ export class JsonLogger {
       'PIPELINE',
       data.success ? 'Pipeline completed' : 'Pipeline failed',
       { duration_ms: data.durationMs, steps_completed: data.stepsCompleted },
-      { botName: data.botName, success: data.success, errors: data.errors }
+      { botName: data.botName, runId: data.runId, success: data.success, errors: data.errors }
     )
   }
 
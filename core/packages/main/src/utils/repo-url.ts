@@ -0,0 +1,42 @@
+/**
+ * Repository URL parsing.
+ *
+ * @module
+ */
+
+import { isErr, tryCatch } from '@mks2508/no-throw'
+import type { IGitRepoRef } from '../types/index.js'
+import { AppErrorCode } from '../types/errors.js'
+
+/**
+ * Gets the owner and name of a repository from its URL on an instance,
+ * which may be served under a path.
+ *
+ * @param repoUrl - Repository web or clone URL
+ * @param baseUrl - Instance URL
+ * @param nestedOwners - Whether owners may span several segments (GitLab subgroups)
+ * @returns Owner and name, or undefined for URLs outside the instance
+ */
+export function parseRepoUrl(
+  repoUrl: string,
+  baseUrl: string,
+  nestedOwners: boolean
+): IGitRepoRef | undefined {
+  const url = tryCatch(() => new URL(repoUrl), AppErrorCode.GITHUB_ERROR)
+  const base = tryCatch(() => new URL(baseUrl), AppErrorCode.GITHUB_ERROR)
+  if (isErr(url) || isErr(base) || url.value.host !== base.value.host) {
+    return undefined
+  }
+
+  const prefix = base.value.pathname.replace(/\/+$/, '')
+  if (!url.value.pathname.startsWith(`${prefix}/`)) {
+    return undefined
+  }
+
+  const segments = url.value.pathname.slice(prefix.length).replace(/\.git$/, '').split('/').filter(Boolean)
+  if (segments.length < 2 || (!nestedOwners && segments.length !== 2)) {
+    return undefined
+  }
+
+  return { owner: segments.slice(0, -1).join('/'), repo: segments[segments.length - 1]! }
+}
@@ -0,0 +1,92 @@
+/**
+ * Anonymous public-key encryption compatible with libsodium's
+ * `crypto_box_seal`, as required by the GitHub Actions secrets API.
+ *
+ * A sealed box is an ephemeral X25519 public key followed by a
+ * `crypto_box` (X25519 + XSalsa20-Poly1305) whose nonce is the BLAKE2b-192
+ * hash of the ephemeral and recipient public keys. Neither Node nor Bun ship
+ * these primitives, so the box comes from `tweetnacl` and the nonce from
+ * `blakejs`.
+ *
+ * @module
+ */
+
+import nacl from 'tweetnacl'
+import { blake2b } from 'blakejs'
+
+const KEY_LENGTH = nacl.box.publicKeyLength
+
+/**
+ * Encrypts a value for the holder of an X25519 public key.
+ *
+ * @param value - Plaintext
+ * @param publicKey - Base64-encoded 32-byte recipient public key
+ * @returns Base64-encoded sealed box
+ *
+ * @example
+ * ```typescript
+ * const { key_id, key } = await getRepoPublicKey()
+ * const encrypted_value = sealBox(botToken, key)
+ * ```
+ */
+export function sealBox(value: string | Uint8Array, publicKey: string): string {
+  const recipient = decodeKey(publicKey)
+  const ephemeral = nacl.box.keyPair()
+  const message = typeof value === 'string' ? Buffer.from(value, 'utf-8') : value
+
+  const box = nacl.box(message, sealNonce(ephemeral.publicKey, recipient), recipient, ephemeral.secretKey)
+  return Buffer.concat([ephemeral.publicKey, box]).toString('base64')
+}
+
+/**
+ * Decrypts a sealed box.
+ *
+ * @param sealed - Base64-encoded sealed box
+ * @param publicKey - Base64-encoded recipient public key
+ * @param secretKey - Base64-encoded recipient secret key
+ * @returns Plaintext, or undefined if the box is malformed, tampered with or
+ * sealed for another key
+ */
+export function openSealedBox(sealed: string, publicKey: string, secretKey: string): Buffer | undefined {
+  const box = Buffer.from(sealed, 'base64')
+  if (box.length < KEY_LENGTH + nacl.box.overheadLength) {
+    return undefined
+  }
+
+  const ephemeralPublic = box.subarray(0, KEY_LENGTH)
+  const nonce = sealNonce(ephemeralPublic, decodeKey(publicKey))
+  const message = nacl.box.open(box.subarray(KEY_LENGTH), nonce, ephemeralPublic, decodeKey(secretKey))
+  return message ? Buffer.from(message) : undefined
+}
+
+/**
+ * Gets the public key of an X25519 secret key.
+ *
+ * @param secretKey - Base64-encoded 32-byte secret key
+ * @returns Base64-encoded public key
+ */
+export function derivePublicKey(secretKey: string): string {
+  return Buffer.from(nacl.scalarMult.base(decodeKey(secretKey))).toString('base64')
+}
+
+/**
+ * Decodes a base64 key, checking its length.
+ *
+ * @param key - Base64-encoded key
+ * @returns Raw 32-byte key
+ */
+function decodeKey(key: string): Buffer {
+  const raw = Buffer.from(key, 'base64')
+  if (raw.length !== KEY_LENGTH) {
+    throw new Error(`Invalid key: expected ${KEY_LENGTH} bytes, got ${raw.length}`)
+  }
+  return raw
+}
+
+/**
+ * Derives the nonce of a sealed box: the 24-byte BLAKE2b hash of the
+ * ephemeral public key followed by the recipient public key.
+ */
+function sealNonce(ephemeralPublic: Uint8Array, recipient: Uint8Array): Uint8Array {
+  return blake2b(Buffer.concat([ephemeralPublic, recipient]), undefined, nacl.box.nonceLength)
+}
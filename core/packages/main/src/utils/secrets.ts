@@ -0,0 +1,98 @@
+/**
+ * Encryption helpers for secrets stored at rest.
+ *
+ * Values are encrypted with AES-256-GCM under a key derived with scrypt from
+ * a passphrase or the contents of a key file.
+ *
+ * @module
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto'
+
+/** Prefix marking an encrypted value */
+const ENCRYPTED_PREFIX = 'enc:v1:'
+
+const KEY_LENGTH = 32
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+
+/** scrypt cost (16 MiB of memory, within Node's default limit) */
+const SCRYPT_COST = 2 ** 14
+
+/**
+ * Generates a random salt for {@link deriveKey}.
+ *
+ * @returns Base64-encoded salt
+ */
+export function generateSalt(): string {
+  return randomBytes(16).toString('base64')
+}
+
+/**
+ * Generates the contents of a new key file.
+ *
+ * @returns 64 random hex characters
+ */
+export function generateKeyFileContents(): string {
+  return randomBytes(KEY_LENGTH).toString('hex')
+}
+
+/**
+ * Derives an encryption key from a passphrase or key file contents.
+ *
+ * @param secret - Passphrase or key file contents
+ * @param salt - Base64-encoded salt
+ * @returns 256-bit key
+ */
+export function deriveKey(secret: string, salt: string): Buffer {
+  return scryptSync(secret, Buffer.from(salt, 'base64'), KEY_LENGTH, { N: SCRYPT_COST })
+}
+
+/**
+ * Checks whether a value was produced by {@link encryptValue}.
+ *
+ * @param value - Value to check
+ * @returns True if the value is encrypted
+ */
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX)
+}
+
+/**
+ * Encrypts a value.
+ *
+ * @param value - Plaintext
+ * @param key - Key from {@link deriveKey}
+ * @returns `enc:v1:` followed by the base64 IV, auth tag and ciphertext
+ */
+export function encryptValue(value: string, key: Buffer): string {
+  const iv = randomBytes(IV_LENGTH)
+  const cipher = createCipheriv('aes-256-gcm', key, iv)
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()])
+  return ENCRYPTED_PREFIX + Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64')
+}
+
+/**
+ * Decrypts a value produced by {@link encryptValue}.
+ *
+ * @param value - Encrypted value
+ * @param key - Key from {@link deriveKey}
+ * @returns Plaintext, or undefined if the key is wrong or the value was tampered with
+ */
+export function decryptValue(value: string, key: Buffer): string | undefined {
+  if (!isEncryptedValue(value)) {
+    return undefined
+  }
+
+  try {
+    const data = Buffer.from(value.slice(ENCRYPTED_PREFIX.length), 'base64')
+    const decipher = createDecipheriv('aes-256-gcm', key, data.subarray(0, IV_LENGTH))
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH))
+    return Buffer.concat([
+      decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)),
+      decipher.final(),
+    ]).toString('utf-8')
+  } catch {
+    return undefined
+  }
+}